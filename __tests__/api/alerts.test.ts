@@ -0,0 +1,157 @@
+/**
+ * Tests d'intégration pour les routes des alertes
+ *
+ * Teste les endpoints GET /api/alerts, GET/POST /api/alerts/rules
+ * et PUT/DELETE /api/alerts/rules/[id]
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { GET as getAlerts } from '@/app/api/alerts/route'
+import { GET as getRules, POST as createRule } from '@/app/api/alerts/rules/route'
+import { PUT as updateRule, DELETE as deleteRule } from '@/app/api/alerts/rules/[id]/route'
+import { auth } from '@/auth'
+import { readApps } from '@/lib/db'
+import { createAlertRule, deleteAlertRule, readAlertRules, readAlerts, updateAlertRule } from '@/lib/alerts'
+import { createMockRequest, createMockSession, createTestApp } from '../setup/test-helpers'
+
+// Mock de auth
+vi.mock('@/auth', () => ({
+  auth: vi.fn(),
+}))
+
+// Mock des fonctions de la DB
+vi.mock('@/lib/db', () => ({
+  readApps: vi.fn(),
+}))
+
+// Mock du stockage des règles (la validation reste réelle)
+vi.mock('@/lib/alerts', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/alerts')>()),
+  readAlerts: vi.fn(),
+  readAlertRules: vi.fn(),
+  createAlertRule: vi.fn(),
+  updateAlertRule: vi.fn(),
+  deleteAlertRule: vi.fn(),
+}))
+
+const RULE_INPUT = {
+  name: 'Téléchargements en échec',
+  appId: 'app1',
+  key: 'queueFailed',
+  operator: '>',
+  value: '0',
+}
+
+/**
+ * Paramètres de route pour la règle rule1
+ */
+const params = { params: Promise.resolve({ id: 'rule1' }) }
+
+describe('API alertes', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(auth).mockResolvedValue(createMockSession({ role: 'admin' }) as any)
+    vi.mocked(readApps).mockResolvedValue([createTestApp({ id: 'app1' })])
+    vi.mocked(readAlerts).mockResolvedValue([])
+  })
+
+  describe('GET /api/alerts', () => {
+    it('devrait retourner les alertes filtrées', async () => {
+      const response = await getAlerts(createMockRequest('/api/alerts?status=firing&limit=10') as any)
+
+      expect(response.status).toBe(200)
+      expect(readAlerts).toHaveBeenCalledWith({ status: 'firing', limit: 10 })
+    })
+
+    it('devrait retourner 400 pour un état ou une limite invalides', async () => {
+      expect((await getAlerts(createMockRequest('/api/alerts?status=open') as any)).status).toBe(400)
+      expect((await getAlerts(createMockRequest('/api/alerts?limit=0') as any)).status).toBe(400)
+    })
+  })
+
+  describe('GET /api/alerts/rules', () => {
+    it('devrait retourner 401 sans session', async () => {
+      vi.mocked(auth).mockResolvedValue(null)
+
+      expect((await getRules()).status).toBe(401)
+    })
+
+    it('devrait retourner 403 pour un utilisateur non admin', async () => {
+      vi.mocked(auth).mockResolvedValue(createMockSession({ role: 'user' }) as any)
+
+      expect((await getRules()).status).toBe(403)
+      expect(readAlertRules).not.toHaveBeenCalled()
+    })
+
+    it('devrait retourner les règles pour un admin', async () => {
+      vi.mocked(readAlertRules).mockResolvedValue([])
+
+      const response = await getRules()
+
+      expect(response.status).toBe(200)
+      expect(await response.json()).toEqual([])
+    })
+  })
+
+  describe('POST /api/alerts/rules', () => {
+    it('devrait créer une règle valide', async () => {
+      vi.mocked(createAlertRule).mockResolvedValue({ id: 'rule1' } as any)
+
+      const response = await createRule(
+        createMockRequest('/api/alerts/rules', { method: 'POST', body: RULE_INPUT }) as any
+      )
+
+      expect(response.status).toBe(201)
+      expect(createAlertRule).toHaveBeenCalledWith(RULE_INPUT)
+    })
+
+    it('devrait retourner 400 pour une règle invalide', async () => {
+      const response = await createRule(
+        createMockRequest('/api/alerts/rules', { method: 'POST', body: { ...RULE_INPUT, operator: '=~' } }) as any
+      )
+
+      expect(response.status).toBe(400)
+      expect(createAlertRule).not.toHaveBeenCalled()
+    })
+
+    it('devrait retourner 400 pour une application inconnue', async () => {
+      const response = await createRule(
+        createMockRequest('/api/alerts/rules', { method: 'POST', body: { ...RULE_INPUT, appId: 'missing' } }) as any
+      )
+
+      expect(response.status).toBe(400)
+      expect(await response.json()).toEqual({ error: 'Application non trouvée' })
+    })
+  })
+
+  describe('PUT/DELETE /api/alerts/rules/[id]', () => {
+    it('devrait retourner 404 pour une règle inconnue', async () => {
+      vi.mocked(updateAlertRule).mockResolvedValue(null)
+      vi.mocked(deleteAlertRule).mockResolvedValue(false)
+
+      const updateResponse = await updateRule(
+        createMockRequest('/api/alerts/rules/rule1', { method: 'PUT', body: RULE_INPUT }) as any,
+        params
+      )
+      const deleteResponse = await deleteRule(
+        createMockRequest('/api/alerts/rules/rule1', { method: 'DELETE' }) as any,
+        params
+      )
+
+      expect(updateResponse.status).toBe(404)
+      expect(deleteResponse.status).toBe(404)
+    })
+
+    it('devrait supprimer une règle existante', async () => {
+      vi.mocked(deleteAlertRule).mockResolvedValue(true)
+
+      const response = await deleteRule(
+        createMockRequest('/api/alerts/rules/rule1', { method: 'DELETE' }) as any,
+        params
+      )
+
+      expect(response.status).toBe(200)
+      expect(deleteAlertRule).toHaveBeenCalledWith('rule1')
+    })
+  })
+})
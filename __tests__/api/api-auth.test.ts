@@ -0,0 +1,126 @@
+/**
+ * Tests du contrôle d'accès central des routes API
+ *
+ * Chaque route de app/api est appelée sans session à travers proxy.ts :
+ * seules les routes de PUBLIC_API_ROUTES doivent laisser passer la requête.
+ * Les requêtes authentifiées par jeton d'API sont limitées aux scopes du jeton.
+ */
+
+import { readdirSync } from 'fs'
+import path from 'path'
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { proxy, config } from '@/proxy'
+import { auth } from '@/auth'
+import { PUBLIC_API_ROUTES, isAllowedByScopes, isPublicApiRoute } from '@/lib/api-auth'
+import { createMockRequest, createMockSession } from '../setup/test-helpers'
+
+/**
+ * Chemins de toutes les routes API (segments dynamiques remplacés par une valeur)
+ */
+function listApiRoutes(): string[] {
+  const apiDir = path.join(process.cwd(), 'app', 'api')
+  return readdirSync(apiDir, { recursive: true, encoding: 'utf-8' })
+    .filter((file) => path.basename(file) === 'route.ts')
+    .map((file) => `/api/${path.dirname(file).split(path.sep).join('/')}`
+      .replace(/\[\.\.\.\w+\]/g, 'session')
+      .replace(/\[\w+\]/g, 'test-id'))
+    .sort()
+}
+
+/**
+ * Appelle le proxy pour une route API
+ */
+function callProxy(pathname: string, method = 'GET') {
+  return proxy(createMockRequest(pathname, { method }) as any)
+}
+
+/**
+ * Session issue d'un jeton d'API (voir lib/api-tokens.ts)
+ */
+function createTokenSession(scopes: string[], role = 'admin') {
+  return {
+    user: { ...createMockSession({ role }).user, apiTokenId: 'token_1', scopes },
+    expires: '2999-01-01T00:00:00.000Z',
+  }
+}
+
+describe('Contrôle d\'accès des routes API', () => {
+  const routes = listApiRoutes()
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('devrait appliquer le proxy aux routes API', () => {
+    expect(config.matcher).toEqual(['/((?!_next/static|_next/image|favicon.ico).*)'])
+    expect(routes).toContain('/api/apps')
+    expect(routes).toContain('/api/apps/test-id/stats/test-id')
+  })
+
+  it('devrait refuser toute route non publique sans session', async () => {
+    vi.mocked(auth).mockResolvedValue(null)
+
+    for (const route of routes.filter((route) => !isPublicApiRoute(route))) {
+      const response = await callProxy(route) as any
+      expect({ route, status: response.status }).toEqual({ route, status: 401 })
+      expect(await response.json()).toEqual({ error: 'Non authentifié' })
+    }
+  })
+
+  it('devrait laisser passer les routes publiques sans session', async () => {
+    vi.mocked(auth).mockResolvedValue(null)
+
+    expect(routes.filter(isPublicApiRoute)).toEqual(['/api/auth/session', '/api/metrics'])
+    for (const route of [...PUBLIC_API_ROUTES, '/api/auth/callback/credentials']) {
+      expect((await callProxy(route) as any).status).toBe(200)
+    }
+    expect(auth).not.toHaveBeenCalled()
+  })
+
+  it('devrait laisser passer un utilisateur connecté', async () => {
+    vi.mocked(auth).mockResolvedValue(createMockSession({ role: 'user' }) as any)
+
+    expect((await callProxy('/api/apps') as any).status).toBe(200)
+    expect((await callProxy('/api/apps/test-id/stats/sonarr') as any).status).toBe(200)
+  })
+
+  it('ne devrait pas confondre une route avec le préfixe d\'une route publique', () => {
+    expect(isPublicApiRoute('/api/metrics')).toBe(true)
+    expect(isPublicApiRoute('/api/metricsx')).toBe(false)
+    expect(isPublicApiRoute('/api/apps/test-id/metrics')).toBe(false)
+  })
+
+  it('devrait limiter un jeton read aux lectures', async () => {
+    vi.mocked(auth).mockResolvedValue(createTokenSession(['read']) as any)
+
+    expect((await callProxy('/api/apps') as any).status).toBe(200)
+    const response = await callProxy('/api/apps', 'POST') as any
+    expect(response.status).toBe(403)
+    expect(await response.json()).toEqual({ error: 'Accès refusé. Scope du jeton d\'API insuffisant.' })
+  })
+
+  it('devrait réserver les routes d\'administration au scope admin', async () => {
+    vi.mocked(auth).mockResolvedValue(createTokenSession(['read', 'write']) as any)
+
+    expect((await callProxy('/api/apps/test-id', 'PUT') as any).status).toBe(200)
+    expect((await callProxy('/api/users') as any).status).toBe(403)
+    expect((await callProxy('/api/backup') as any).status).toBe(403)
+
+    vi.mocked(auth).mockResolvedValue(createTokenSession(['admin']) as any)
+    expect((await callProxy('/api/users', 'POST') as any).status).toBe(200)
+  })
+
+  it('devrait vérifier les scopes selon la méthode et la route', () => {
+    expect(isAllowedByScopes(['read'], 'HEAD', '/api/apps')).toBe(true)
+    expect(isAllowedByScopes(['read'], 'DELETE', '/api/apps/test-id')).toBe(false)
+    expect(isAllowedByScopes(['write'], 'GET', '/api/restore')).toBe(false)
+  })
+
+  it('devrait toujours rediriger les pages vers /login sans session', async () => {
+    vi.mocked(auth).mockResolvedValue(null)
+
+    const response = await proxy(createMockRequest('/d/media') as any) as any
+
+    expect(response.status).toBe(302)
+  })
+})
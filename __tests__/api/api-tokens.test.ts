@@ -0,0 +1,116 @@
+/**
+ * Tests d'intégration pour les jetons d'API de l'utilisateur connecté
+ *
+ * Teste les endpoints GET et POST /api/users/tokens et DELETE /api/users/tokens/[id]
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { GET, POST } from '@/app/api/users/tokens/route'
+import { DELETE } from '@/app/api/users/tokens/[id]/route'
+import { auth } from '@/auth'
+import { findUserByEmail } from '@/lib/users'
+import { createApiToken, listApiTokens, revokeApiToken } from '@/lib/api-tokens'
+import { createMockRequest, createMockSession, createTestUser } from '../setup/test-helpers'
+
+// Mock des fonctions users
+vi.mock('@/lib/users', () => ({
+  findUserByEmail: vi.fn(),
+}))
+
+// Mock du stockage des jetons (la validation reste réelle)
+vi.mock('@/lib/api-tokens', async () => {
+  const actual = await vi.importActual<typeof import('@/lib/api-tokens')>('@/lib/api-tokens')
+  return {
+    ...actual,
+    createApiToken: vi.fn(),
+    listApiTokens: vi.fn(),
+    revokeApiToken: vi.fn(),
+  }
+})
+
+const createdToken = {
+  id: 'token_1',
+  name: 'Script',
+  prefix: 'xd_abcdefg',
+  scopes: ['read' as const],
+  expiresAt: null,
+  lastUsedAt: null,
+  createdAt: '2026-01-01T00:00:00.000Z',
+}
+
+describe('API /api/users/tokens', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(auth).mockResolvedValue(createMockSession() as any)
+    vi.mocked(findUserByEmail).mockResolvedValue(createTestUser({ id: 'user1', role: 'user' }) as any)
+  })
+
+  it('devrait retourner 401 si non authentifié', async () => {
+    vi.mocked(auth).mockResolvedValue(null)
+
+    const response = await GET()
+
+    expect(response.status).toBe(401)
+  })
+
+  it('devrait lister les jetons de l\'utilisateur connecté', async () => {
+    vi.mocked(listApiTokens).mockResolvedValue([createdToken])
+
+    const response = await GET()
+
+    expect(response.status).toBe(200)
+    expect(await response.json()).toEqual([createdToken])
+    expect(listApiTokens).toHaveBeenCalledWith('user1')
+  })
+
+  it('devrait créer un jeton et retourner sa valeur une seule fois', async () => {
+    vi.mocked(createApiToken).mockResolvedValue({ token: 'xd_secret', apiToken: createdToken })
+    const request = createMockRequest('/api/users/tokens', {
+      method: 'POST',
+      body: { name: 'Script', scopes: ['read'] },
+    })
+
+    const response = await POST(request as any)
+
+    expect(response.status).toBe(201)
+    expect(await response.json()).toEqual({ ...createdToken, token: 'xd_secret' })
+    expect(createApiToken).toHaveBeenCalledWith('user1', { name: 'Script', scopes: ['read'] })
+  })
+
+  it('devrait refuser le scope admin à un utilisateur', async () => {
+    const request = createMockRequest('/api/users/tokens', {
+      method: 'POST',
+      body: { name: 'Script', scopes: ['admin'] },
+    })
+
+    const response = await POST(request as any)
+
+    expect(response.status).toBe(400)
+    expect((await response.json()).error).toBe('Le scope admin est réservé aux administrateurs')
+    expect(createApiToken).not.toHaveBeenCalled()
+  })
+
+  it('devrait refuser la gestion des jetons depuis un jeton d\'API', async () => {
+    vi.mocked(auth).mockResolvedValue({
+      user: { ...createMockSession().user, apiTokenId: 'token_1', scopes: ['admin'] },
+      expires: '2999-01-01T00:00:00.000Z',
+    } as any)
+    const request = createMockRequest('/api/users/tokens', {
+      method: 'POST',
+      body: { name: 'Autre', scopes: ['read'] },
+    })
+
+    expect((await GET()).status).toBe(403)
+    expect((await POST(request as any)).status).toBe(403)
+    expect(createApiToken).not.toHaveBeenCalled()
+  })
+
+  it('devrait révoquer un jeton de l\'utilisateur connecté', async () => {
+    vi.mocked(revokeApiToken).mockResolvedValueOnce(true).mockResolvedValueOnce(false)
+    const request = createMockRequest('/api/users/tokens/token_1', { method: 'DELETE' })
+
+    expect((await DELETE(request as any, { params: Promise.resolve({ id: 'token_1' }) })).status).toBe(200)
+    expect((await DELETE(request as any, { params: Promise.resolve({ id: 'token_2' }) })).status).toBe(404)
+    expect(revokeApiToken).toHaveBeenCalledWith('user1', 'token_1')
+  })
+})
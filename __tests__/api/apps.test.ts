@@ -7,7 +7,7 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest'
 import { GET, POST } from '@/app/api/apps/route'
 import { auth } from '@/auth'
-import { readApps, writeApps, generateAppId } from '@/lib/db'
+import { readApps, saveApp, generateAppId } from '@/lib/db'
 import { createMockRequest, createMockSession, createTestApp } from '../setup/test-helpers'
 
 // Mock de auth
@@ -18,7 +18,7 @@ vi.mock('@/auth', () => ({
 // Mock des fonctions db
 vi.mock('@/lib/db', () => ({
   readApps: vi.fn(),
-  writeApps: vi.fn(),
+  saveApp: vi.fn(),
   generateAppId: vi.fn(() => 'app_test_123'),
 }))
 
@@ -36,7 +36,7 @@ describe('API /api/apps', () => {
 
       vi.mocked(readApps).mockResolvedValue(apps)
 
-      const response = await GET()
+      const response = await GET(createMockRequest('/api/apps') as any)
       const json = await response.json()
 
       expect(response.status).toBe(200)
@@ -44,10 +44,23 @@ describe('API /api/apps', () => {
       expect(readApps).toHaveBeenCalled()
     })
 
+    it('devrait masquer les secrets des applications', async () => {
+      vi.mocked(readApps).mockResolvedValue([
+        createTestApp({ id: 'plex', plexToken: 'abcdefghijklmnopqrst', statsConfig: { templateId: 'plex' } }),
+      ])
+
+      const response = await GET(createMockRequest('/api/apps') as any)
+      const [json] = await response.json()
+
+      expect(json.plexToken).toBe('abcd************qrst')
+      expect(json.secretFields).toEqual(['plexToken'])
+      expect(JSON.stringify(json)).not.toContain('abcdefghijklmnopqrst')
+    })
+
     it('devrait retourner 500 en cas d\'erreur', async () => {
       vi.mocked(readApps).mockRejectedValue(new Error('Erreur de lecture'))
 
-      const response = await GET()
+      const response = await GET(createMockRequest('/api/apps') as any)
       const json = await response.json()
 
       expect(response.status).toBe(500)
@@ -109,7 +122,7 @@ describe('API /api/apps', () => {
 
       vi.mocked(auth).mockResolvedValue(session as any)
       vi.mocked(readApps).mockResolvedValue(existingApps)
-      vi.mocked(writeApps).mockResolvedValue()
+      vi.mocked(saveApp).mockResolvedValue()
 
       const request = createMockRequest('/api/apps', {
         method: 'POST',
@@ -127,7 +140,7 @@ describe('API /api/apps', () => {
       expect(response.status).toBe(201)
       expect(json.name).toBe('New App')
       expect(json.url).toBe('https://example.com')
-      expect(writeApps).toHaveBeenCalled()
+      expect(saveApp).toHaveBeenCalledWith(expect.objectContaining({ name: 'New App' }), 'test@example.com')
     })
 
     it('devrait valider les champs obligatoires', async () => {
@@ -212,6 +225,136 @@ describe('API /api/apps', () => {
       expect(response.status).toBe(400)
       expect(json.error).toBe('statApiUrl invalide')
     })
+
+    it('devrait retourner 400 si la vérification de disponibilité est invalide', async () => {
+      const session = createMockSession({ role: 'admin' })
+      vi.mocked(auth).mockResolvedValue(session as any)
+
+      const request = createMockRequest('/api/apps', {
+        method: 'POST',
+        body: {
+          name: 'New App',
+          url: 'https://example.com',
+          logo: 'globe',
+          logoType: 'icon',
+          healthCheck: { type: 'tcp', port: 70000 },
+        },
+      })
+
+      const response = await POST(request as any)
+      const json = await response.json()
+
+      expect(response.status).toBe(400)
+      expect(json.error).toBe('healthCheck.port doit être compris entre 1 et 65535')
+      expect(saveApp).not.toHaveBeenCalled()
+    })
+
+    it('devrait retourner 400 si les options TLS sont invalides', async () => {
+      const session = createMockSession({ role: 'admin' })
+      vi.mocked(auth).mockResolvedValue(session as any)
+
+      const request = createMockRequest('/api/apps', {
+        method: 'POST',
+        body: {
+          name: 'New App',
+          url: 'https://example.com',
+          logo: 'globe',
+          logoType: 'icon',
+          tls: { fingerprint: 'AB:CD' },
+        },
+      })
+
+      const response = await POST(request as any)
+      const json = await response.json()
+
+      expect(response.status).toBe(400)
+      expect(json.error).toBe('tls.fingerprint doit être une empreinte SHA-256 (64 caractères hexadécimaux)')
+      expect(saveApp).not.toHaveBeenCalled()
+    })
+
+    it('devrait enregistrer les options TLS', async () => {
+      const session = createMockSession({ role: 'admin' })
+      vi.mocked(auth).mockResolvedValue(session as any)
+      vi.mocked(readApps).mockResolvedValue([])
+      vi.mocked(saveApp).mockResolvedValue()
+
+      const request = createMockRequest('/api/apps', {
+        method: 'POST',
+        body: {
+          name: 'TrueNAS',
+          url: 'https://nas.example.com',
+          logo: 'globe',
+          logoType: 'icon',
+          tls: { skipVerify: true },
+        },
+      })
+
+      const response = await POST(request as any)
+      const json = await response.json()
+
+      expect(response.status).toBe(201)
+      expect(json.tls).toEqual({ skipVerify: true })
+      expect(saveApp).toHaveBeenCalledWith(
+        expect.objectContaining({ tls: { skipVerify: true } }),
+        'test@example.com'
+      )
+    })
+
+    it('devrait retourner 400 si un paramètre obligatoire de la carte manque', async () => {
+      const session = createMockSession({ role: 'admin' })
+      vi.mocked(auth).mockResolvedValue(session as any)
+
+      const request = createMockRequest('/api/apps', {
+        method: 'POST',
+        body: {
+          name: 'Sonarr',
+          url: 'https://sonarr.example.com',
+          logo: 'Tv',
+          logoType: 'icon',
+          statsConfig: { templateId: 'sonarr' },
+        },
+      })
+
+      const response = await POST(request as any)
+      const json = await response.json()
+
+      expect(response.status).toBe(400)
+      expect(json.error).toBe('Clé API est obligatoire')
+      expect(saveApp).not.toHaveBeenCalled()
+    })
+
+    it('devrait enregistrer les paramètres déclarés par la carte', async () => {
+      const session = createMockSession({ role: 'admin' })
+      vi.mocked(auth).mockResolvedValue(session as any)
+      vi.mocked(readApps).mockResolvedValue([])
+      vi.mocked(saveApp).mockResolvedValue()
+
+      const request = createMockRequest('/api/apps', {
+        method: 'POST',
+        body: {
+          name: 'Proxmox',
+          url: 'https://pve.example.com:8006',
+          logo: 'Server',
+          logoType: 'icon',
+          statsConfig: { templateId: 'proxmox' },
+          username: 'root@pam',
+          password: 'secret',
+          inconnu: 'ignoré',
+        },
+      })
+
+      const response = await POST(request as any)
+      const json = await response.json()
+
+      expect(response.status).toBe(201)
+      // Les secrets ne sont pas retournés (voir lib/app-secrets.ts)
+      expect(json).toMatchObject({ username: '********', password: '******', secretFields: ['username', 'password'] })
+      expect(json.inconnu).toBeUndefined()
+      expect(saveApp).toHaveBeenCalledWith(
+        expect.objectContaining({ username: 'root@pam', password: 'secret' }),
+        'test@example.com'
+      )
+    })
   })
 })
 
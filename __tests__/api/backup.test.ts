@@ -0,0 +1,354 @@
+/**
+ * Tests d'intégration pour les routes de sauvegarde et de restauration
+ *
+ * Teste les endpoints GET /api/backup et POST /api/restore,
+ * dont le rechiffrement des secrets avec la phrase secrète
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { GET } from '@/app/api/backup/route'
+import { POST } from '@/app/api/restore/route'
+import { auth } from '@/auth'
+import { getDataStore } from '@/lib/data-store'
+import { readStoredConfig, restoreDashboardData } from '@/lib/db'
+import { exportUsers, replaceAllUsers } from '@/lib/users'
+import { exportMetrics, replaceAllMetrics } from '@/lib/metrics-history'
+import { readAlertRules, replaceAllAlertRules } from '@/lib/alerts'
+import { readNotificationChannels, replaceAllNotificationChannels } from '@/lib/notifications'
+import { encryptValue } from '@/lib/encryption'
+import {
+  createMockRequest,
+  createMockSession,
+  createTestAdmin,
+  createTestApp,
+  createTestConfig,
+  createTestWidget,
+} from '../setup/test-helpers'
+
+// Mock du store de données
+vi.mock('@/lib/data-store', () => ({
+  getDataStore: vi.fn(),
+}))
+
+// Mock des fonctions de la DB
+vi.mock('@/lib/db', () => ({
+  readStoredConfig: vi.fn(),
+  restoreDashboardData: vi.fn(),
+}))
+
+// Mock des fonctions users
+vi.mock('@/lib/users', () => ({
+  exportUsers: vi.fn(),
+  replaceAllUsers: vi.fn(),
+}))
+
+// Mock de l'historique des métriques
+vi.mock('@/lib/metrics-history', () => ({
+  exportMetrics: vi.fn(),
+  replaceAllMetrics: vi.fn(),
+}))
+
+// Mock du stockage des règles d'alerte (les valeurs autorisées restent réelles)
+vi.mock('@/lib/alerts', async () => {
+  const actual = await vi.importActual<typeof import('@/lib/alerts')>('@/lib/alerts')
+  return {
+    ...actual,
+    readAlertRules: vi.fn(),
+    replaceAllAlertRules: vi.fn(),
+  }
+})
+
+// Mock du stockage des canaux de notification
+vi.mock('@/lib/notifications', async () => {
+  const actual = await vi.importActual<typeof import('@/lib/notifications')>('@/lib/notifications')
+  return {
+    ...actual,
+    readNotificationChannels: vi.fn(),
+    replaceAllNotificationChannels: vi.fn(),
+  }
+})
+
+const PASSPHRASE = 'correct horse battery'
+
+/**
+ * Client de transaction transmis aux écritures de la restauration
+ */
+const TX = { transaction: true } as any
+
+const ALERT_RULE = {
+  id: 'rule1',
+  name: 'File en échec',
+  appId: 'app1',
+  source: 'stats',
+  key: 'queueFailed',
+  operator: '>',
+  value: '0',
+  forDuration: 60000,
+  resolveAfter: 0,
+  cooldown: 300000,
+  severity: 'critical',
+  enabled: true,
+  channelIds: ['channel1'],
+}
+
+const EMAIL_CHANNEL = {
+  id: 'channel1',
+  name: 'Astreinte',
+  type: 'email',
+  config: { host: 'smtp.example.com', username: 'alerts', password: 'smtp-secret', to: 'ops@example.com' },
+  appIds: ['app1'],
+  enabled: true,
+}
+
+const METRIC = { appId: 'app1', templateId: 'plex', key: 'totalMovies', value: 42, timestamp: 1700000000000, resolution: 'raw' }
+
+/**
+ * Génère une archive via GET /api/backup
+ */
+async function exportArchive() {
+  vi.mocked(auth).mockResolvedValue(createMockSession({ role: 'admin' }) as any)
+  const request = createMockRequest('/api/backup', {
+    headers: { 'X-Backup-Passphrase': PASSPHRASE },
+  })
+  const response = await GET(request as any)
+  return response.json()
+}
+
+describe('API /api/backup et /api/restore', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(getDataStore).mockResolvedValue({
+      readDashboards: vi.fn().mockResolvedValue([{ id: 'infra', slug: 'infra', name: 'Infra', order: 1 }]),
+      saveDashboard: vi.fn(),
+      deleteDashboard: vi.fn(),
+      readApps: vi.fn().mockResolvedValue([
+        createTestApp({ id: 'app1', plexToken: encryptValue('plex-secret') }),
+      ]),
+      readWidgets: vi.fn().mockResolvedValue([createTestWidget({ id: 'w1' })]),
+    } as any)
+    vi.mocked(readStoredConfig).mockResolvedValue(createTestConfig({ theme: 'violet' }))
+    vi.mocked(restoreDashboardData).mockImplementation(async (_data, writeDatabase) => writeDatabase(TX))
+    vi.mocked(exportUsers).mockResolvedValue([
+      createTestAdmin({ id: 'admin1', passwordHash: '$2a$10$hash', preferences: { collapsedGroups: ['infra:Réseau'] }, externalAuth: true } as any),
+    ])
+    vi.mocked(exportMetrics).mockResolvedValue([METRIC as any])
+    vi.mocked(readAlertRules).mockResolvedValue([ALERT_RULE as any])
+    vi.mocked(readNotificationChannels).mockResolvedValue([EMAIL_CHANNEL as any])
+  })
+
+  describe('GET /api/backup', () => {
+    it('devrait retourner 401 si non authentifié', async () => {
+      vi.mocked(auth).mockResolvedValue(null)
+
+      const response = await GET(createMockRequest('/api/backup') as any)
+
+      expect(response.status).toBe(401)
+    })
+
+    it('devrait retourner 403 si utilisateur non-admin', async () => {
+      vi.mocked(auth).mockResolvedValue(createMockSession({ role: 'user' }) as any)
+
+      const response = await GET(createMockRequest('/api/backup') as any)
+
+      expect(response.status).toBe(403)
+    })
+
+    it('devrait refuser une phrase secrète trop courte', async () => {
+      vi.mocked(auth).mockResolvedValue(createMockSession({ role: 'admin' }) as any)
+      const request = createMockRequest('/api/backup', {
+        headers: { 'X-Backup-Passphrase': 'court' },
+      })
+
+      const response = await GET(request as any)
+
+      expect(response.status).toBe(400)
+    })
+
+    it('devrait rechiffrer les secrets avec la phrase secrète et inclure les utilisateurs', async () => {
+      const archive = await exportArchive()
+
+      expect(archive.format).toBe('xhell-dash-backup')
+      expect(archive.version).toBe(1)
+      expect(archive.data.widgets).toHaveLength(1)
+      expect(archive.data.dashboards).toEqual([{ id: 'infra', slug: 'infra', name: 'Infra', order: 1 }])
+      expect(archive.data.config.theme).toBe('violet')
+      expect(archive.data.users[0]).toMatchObject({
+        id: 'admin1',
+        passwordHash: '$2a$10$hash',
+        role: 'admin',
+        preferences: { collapsedGroups: ['infra:Réseau'] },
+        externalAuth: true,
+      })
+      expect(archive.data.metrics).toEqual([METRIC])
+
+      // Le token n'est ni en clair, ni chiffré avec la clé du serveur
+      const token = archive.data.apps[0].plexToken
+      expect(token).toMatch(/^encrypted:/)
+      expect(token).not.toContain('plex-secret')
+    })
+  })
+
+  describe('POST /api/restore', () => {
+    it('devrait retourner 403 si utilisateur non-admin', async () => {
+      vi.mocked(auth).mockResolvedValue(createMockSession({ role: 'user' }) as any)
+
+      const response = await POST(createMockRequest('/api/restore', { method: 'POST', body: {} }) as any)
+
+      expect(response.status).toBe(403)
+    })
+
+    it('devrait restaurer toutes les données avec les secrets déchiffrés', async () => {
+      const archive = await exportArchive()
+
+      const request = createMockRequest('/api/restore', {
+        method: 'POST',
+        body: { archive, passphrase: PASSPHRASE },
+      })
+      const response = await POST(request as any)
+      const json = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(json).toEqual({ success: true, apps: 1, widgets: 1, users: 1, metrics: 1, alertRules: 1, notificationChannels: 1 })
+      expect(restoreDashboardData).toHaveBeenCalledWith(
+        {
+          dashboards: [{ id: 'infra', slug: 'infra', name: 'Infra', order: 1 }],
+          apps: [expect.objectContaining({ id: 'app1', plexToken: 'plex-secret' })],
+          widgets: [expect.objectContaining({ id: 'w1' })],
+          config: expect.objectContaining({ theme: 'violet' }),
+        },
+        expect.any(Function),
+        'test@example.com'
+      )
+      // Les utilisateurs et métriques sont écrits dans la même transaction
+      expect(replaceAllUsers).toHaveBeenCalledWith(TX, [
+        expect.objectContaining({
+          id: 'admin1',
+          passwordHash: '$2a$10$hash',
+          preferences: { collapsedGroups: ['infra:Réseau'] },
+          externalAuth: true,
+          createdAt: expect.any(Date),
+        }),
+      ])
+      expect(replaceAllMetrics).toHaveBeenCalledWith(TX, [METRIC])
+    })
+
+    it('devrait restaurer les règles d\'alerte exportées', async () => {
+      const archive = await exportArchive()
+      expect(archive.data.alertRules).toEqual([ALERT_RULE])
+
+      const request = createMockRequest('/api/restore', {
+        method: 'POST',
+        body: { archive, passphrase: PASSPHRASE },
+      })
+      const response = await POST(request as any)
+
+      expect(response.status).toBe(200)
+      expect(replaceAllAlertRules).toHaveBeenCalledWith(TX, [ALERT_RULE])
+    })
+
+    it('devrait restaurer les canaux de notification avec leurs secrets', async () => {
+      const archive = await exportArchive()
+
+      // Les secrets sont chiffrés avec la phrase secrète, jamais en clair
+      const exported = archive.data.notificationChannels[0]
+      expect(exported.config.host).toBe('smtp.example.com')
+      expect(exported.config.password).toMatch(/^encrypted:/)
+      expect(JSON.stringify(archive)).not.toContain('smtp-secret')
+
+      const request = createMockRequest('/api/restore', {
+        method: 'POST',
+        body: { archive, passphrase: PASSPHRASE },
+      })
+      const response = await POST(request as any)
+
+      expect(response.status).toBe(200)
+      expect(replaceAllNotificationChannels).toHaveBeenCalledWith(TX, [EMAIL_CHANNEL])
+    })
+
+    it('devrait chiffrer l\'URL d\'un webhook dans la sauvegarde', async () => {
+      const discord = {
+        ...EMAIL_CHANNEL,
+        type: 'discord',
+        config: { url: 'https://discord.com/api/webhooks/123/webhook-token' },
+      }
+      vi.mocked(readNotificationChannels).mockResolvedValue([discord as any])
+      const archive = await exportArchive()
+
+      expect(archive.data.notificationChannels[0].config.url).toMatch(/^encrypted:/)
+      expect(JSON.stringify(archive)).not.toContain('webhook-token')
+
+      const request = createMockRequest('/api/restore', {
+        method: 'POST',
+        body: { archive, passphrase: PASSPHRASE },
+      })
+      expect((await POST(request as any)).status).toBe(200)
+      expect(replaceAllNotificationChannels).toHaveBeenCalledWith(TX, [discord])
+    })
+
+    it('devrait accepter une archive antérieure aux alertes et aux canaux', async () => {
+      const archive = await exportArchive()
+      delete archive.data.alertRules
+      delete archive.data.notificationChannels
+
+      const request = createMockRequest('/api/restore', {
+        method: 'POST',
+        body: { archive, passphrase: PASSPHRASE },
+      })
+      const response = await POST(request as any)
+
+      expect(response.status).toBe(200)
+      expect(replaceAllAlertRules).toHaveBeenCalledWith(TX, [])
+      expect(replaceAllNotificationChannels).toHaveBeenCalledWith(TX, [])
+    })
+
+    it('devrait migrer les données d\'une archive antérieure aux migrations', async () => {
+      const archive = await exportArchive()
+      delete archive.schemaVersion
+      archive.data.config.stylePreset = { spacing: 'spacious' }
+
+      const request = createMockRequest('/api/restore', {
+        method: 'POST',
+        body: { archive, passphrase: PASSPHRASE },
+      })
+      const response = await POST(request as any)
+
+      expect(response.status).toBe(200)
+      expect(restoreDashboardData).toHaveBeenCalledWith(
+        expect.objectContaining({ config: expect.objectContaining({ stylePreset: { density: 'comfortable' } }) }),
+        expect.any(Function),
+        'test@example.com'
+      )
+    })
+
+    it('devrait refuser une phrase secrète incorrecte sans rien modifier', async () => {
+      const archive = await exportArchive()
+
+      const request = createMockRequest('/api/restore', {
+        method: 'POST',
+        body: { archive, passphrase: 'mauvaise phrase' },
+      })
+      const response = await POST(request as any)
+      const json = await response.json()
+
+      expect(response.status).toBe(400)
+      expect(json.error).toBe('Phrase secrète incorrecte')
+      expect(restoreDashboardData).not.toHaveBeenCalled()
+    })
+
+    it('devrait refuser une archive sans administrateur', async () => {
+      const archive = await exportArchive()
+      archive.data.users[0].role = 'user'
+
+      const request = createMockRequest('/api/restore', {
+        method: 'POST',
+        body: { archive, passphrase: PASSPHRASE },
+      })
+      const response = await POST(request as any)
+      const json = await response.json()
+
+      expect(response.status).toBe(400)
+      expect(json.error).toContain('au moins un administrateur')
+      expect(restoreDashboardData).not.toHaveBeenCalled()
+    })
+  })
+})
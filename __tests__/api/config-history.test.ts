@@ -0,0 +1,94 @@
+/**
+ * Tests d'intégration pour les routes de l'historique des modifications
+ *
+ * Teste les endpoints GET /api/config/history et
+ * POST /api/config/history/[id]/rollback
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { GET } from '@/app/api/config/history/route'
+import { POST } from '@/app/api/config/history/[id]/rollback/route'
+import { auth } from '@/auth'
+import { listRevisions } from '@/lib/config-history'
+import { rollbackToRevision } from '@/lib/db'
+import { createMockRequest, createMockSession } from '../setup/test-helpers'
+
+// Mock de l'historique
+vi.mock('@/lib/config-history', () => ({
+  listRevisions: vi.fn(),
+}))
+
+// Mock des fonctions de la DB
+vi.mock('@/lib/db', () => ({
+  rollbackToRevision: vi.fn(),
+}))
+
+/**
+ * Appelle la route de retour arrière pour un ID donné
+ */
+function rollback(id: string) {
+  const request = createMockRequest(`/api/config/history/${id}/rollback`, { method: 'POST' })
+  return POST(request as any, { params: Promise.resolve({ id }) })
+}
+
+describe('API /api/config/history', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  describe('GET /api/config/history', () => {
+    it('devrait retourner 403 si utilisateur non-admin', async () => {
+      vi.mocked(auth).mockResolvedValue(createMockSession({ role: 'user' }) as any)
+
+      const response = await GET(createMockRequest('/api/config/history') as any)
+
+      expect(response.status).toBe(403)
+      expect(listRevisions).not.toHaveBeenCalled()
+    })
+
+    it('devrait retourner les révisions en respectant la limite maximale', async () => {
+      const revisions = [
+        { id: 2, createdAt: '2026-01-02T00:00:00.000Z', author: 'admin@example.com', summary: 'Configuration modifiée', changes: [] },
+      ]
+      vi.mocked(auth).mockResolvedValue(createMockSession({ role: 'admin' }) as any)
+      vi.mocked(listRevisions).mockResolvedValue(revisions)
+
+      const response = await GET(createMockRequest('/api/config/history?limit=5000') as any)
+      const json = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(json).toEqual(revisions)
+      expect(listRevisions).toHaveBeenCalledWith(200)
+    })
+  })
+
+  describe('POST /api/config/history/[id]/rollback', () => {
+    beforeEach(() => {
+      vi.mocked(auth).mockResolvedValue(createMockSession({ role: 'admin', email: 'admin@example.com' }) as any)
+    })
+
+    it('devrait retourner 400 si l\'ID est invalide', async () => {
+      const response = await rollback('abc')
+
+      expect(response.status).toBe(400)
+      expect(rollbackToRevision).not.toHaveBeenCalled()
+    })
+
+    it('devrait retourner 404 si la révision n\'existe pas', async () => {
+      vi.mocked(rollbackToRevision).mockResolvedValue(false)
+
+      const response = await rollback('12')
+
+      expect(response.status).toBe(404)
+    })
+
+    it('devrait restaurer la révision au nom de l\'administrateur connecté', async () => {
+      vi.mocked(rollbackToRevision).mockResolvedValue(true)
+
+      const response = await rollback('12')
+
+      expect(response.status).toBe(200)
+      expect(rollbackToRevision).toHaveBeenCalledWith(12, 'admin@example.com')
+    })
+  })
+})
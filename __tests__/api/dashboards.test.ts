@@ -0,0 +1,136 @@
+/**
+ * Tests d'intégration pour les routes API des tableaux de bord
+ * 
+ * Teste les endpoints GET/POST /api/dashboards et PUT/DELETE /api/dashboards/[id]
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { GET, POST } from '@/app/api/dashboards/route'
+import { PUT, DELETE } from '@/app/api/dashboards/[id]/route'
+import { auth } from '@/auth'
+import { readDashboards, saveDashboard, deleteDashboard } from '@/lib/db'
+import { DEFAULT_DASHBOARD } from '@/lib/dashboards'
+import { createMockRequest, createMockSession } from '../setup/test-helpers'
+
+// Mock des fonctions db
+vi.mock('@/lib/db', () => ({
+  readDashboards: vi.fn(),
+  saveDashboard: vi.fn(),
+  deleteDashboard: vi.fn(),
+  generateDashboardId: vi.fn(() => 'dashboard_test_123'),
+}))
+
+const INFRA = { id: 'infra', slug: 'infra', name: 'Infra', order: 1 }
+
+/**
+ * Paramètres de route dynamique
+ */
+function routeParams(id: string) {
+  return { params: Promise.resolve({ id }) }
+}
+
+describe('API /api/dashboards', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(readDashboards).mockResolvedValue([DEFAULT_DASHBOARD, INFRA])
+  })
+
+  describe('GET /api/dashboards', () => {
+    it('devrait retourner la liste des tableaux de bord', async () => {
+      const response = await GET()
+      const json = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(json).toEqual([DEFAULT_DASHBOARD, INFRA])
+    })
+  })
+
+  describe('POST /api/dashboards', () => {
+    it('devrait retourner 403 si utilisateur non-admin', async () => {
+      vi.mocked(auth).mockResolvedValue(createMockSession({ role: 'user' }) as any)
+      const request = createMockRequest('/api/dashboards', { method: 'POST', body: { name: 'Média' } })
+
+      const response = await POST(request as any)
+
+      expect(response.status).toBe(403)
+      expect(saveDashboard).not.toHaveBeenCalled()
+    })
+
+    it('devrait créer un tableau de bord avec un slug déduit du nom (admin)', async () => {
+      vi.mocked(auth).mockResolvedValue(createMockSession({ role: 'admin' }) as any)
+      const request = createMockRequest('/api/dashboards', { method: 'POST', body: { name: 'Média & Films' } })
+
+      const response = await POST(request as any)
+      const json = await response.json()
+
+      expect(response.status).toBe(201)
+      expect(json).toEqual({ id: 'dashboard_test_123', slug: 'media-films', name: 'Média & Films', order: 2 })
+      expect(saveDashboard).toHaveBeenCalledWith(json, 'test@example.com')
+    })
+
+    it('devrait refuser un slug déjà utilisé', async () => {
+      vi.mocked(auth).mockResolvedValue(createMockSession({ role: 'admin' }) as any)
+      const request = createMockRequest('/api/dashboards', { method: 'POST', body: { name: 'Infra' } })
+
+      const response = await POST(request as any)
+
+      expect(response.status).toBe(409)
+      expect(saveDashboard).not.toHaveBeenCalled()
+    })
+
+    it('devrait refuser un slug invalide', async () => {
+      vi.mocked(auth).mockResolvedValue(createMockSession({ role: 'admin' }) as any)
+      const request = createMockRequest('/api/dashboards', {
+        method: 'POST',
+        body: { name: 'Maison', slug: 'Mon Slug' },
+      })
+
+      const response = await POST(request as any)
+
+      expect(response.status).toBe(400)
+    })
+  })
+
+  describe('PUT /api/dashboards/[id]', () => {
+    it('devrait renommer un tableau de bord sans changer son slug', async () => {
+      vi.mocked(auth).mockResolvedValue(createMockSession({ role: 'admin' }) as any)
+      const request = createMockRequest('/api/dashboards/infra', { method: 'PUT', body: { name: 'Serveurs' } })
+
+      const response = await PUT(request as any, routeParams('infra'))
+      const json = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(json).toEqual({ ...INFRA, name: 'Serveurs' })
+    })
+
+    it('devrait retourner 404 si le tableau de bord n\'existe pas', async () => {
+      vi.mocked(auth).mockResolvedValue(createMockSession({ role: 'admin' }) as any)
+      const request = createMockRequest('/api/dashboards/inconnu', { method: 'PUT', body: { name: 'X' } })
+
+      const response = await PUT(request as any, routeParams('inconnu'))
+
+      expect(response.status).toBe(404)
+    })
+  })
+
+  describe('DELETE /api/dashboards/[id]', () => {
+    it('devrait refuser la suppression du tableau de bord par défaut', async () => {
+      vi.mocked(auth).mockResolvedValue(createMockSession({ role: 'admin' }) as any)
+
+      const response = await DELETE(createMockRequest('/api/dashboards/default') as any, routeParams('default'))
+
+      expect(response.status).toBe(400)
+      expect(deleteDashboard).not.toHaveBeenCalled()
+    })
+
+    it('devrait supprimer un tableau de bord (admin)', async () => {
+      vi.mocked(auth).mockResolvedValue(createMockSession({ role: 'admin' }) as any)
+      vi.mocked(deleteDashboard).mockResolvedValue(true)
+
+      const response = await DELETE(createMockRequest('/api/dashboards/infra') as any, routeParams('infra'))
+
+      expect(response.status).toBe(200)
+      expect(deleteDashboard).toHaveBeenCalledWith('infra', 'test@example.com')
+    })
+  })
+})
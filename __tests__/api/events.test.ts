@@ -0,0 +1,95 @@
+/**
+ * Tests d'intégration pour le flux d'événements temps réel
+ *
+ * Teste l'endpoint GET /api/events (Server-Sent Events)
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { GET } from '@/app/api/events/route'
+import { auth } from '@/auth'
+import { publishEvent } from '@/lib/events'
+import { createMockRequest, createMockSession } from '../setup/test-helpers'
+
+/**
+ * Crée une requête annulable vers /api/events
+ */
+function createEventsRequest(controller: AbortController) {
+  return { ...createMockRequest('/api/events'), signal: controller.signal }
+}
+
+/**
+ * Lit le prochain bloc du flux sous forme de texte
+ */
+async function readChunk(reader: ReadableStreamDefaultReader<Uint8Array>): Promise<string> {
+  const { value } = await reader.read()
+  return new TextDecoder().decode(value)
+}
+
+describe('API /api/events', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('devrait retourner 401 si non authentifié', async () => {
+    vi.mocked(auth).mockResolvedValue(null)
+
+    const response = await GET(createEventsRequest(new AbortController()) as any)
+
+    expect(response.status).toBe(401)
+  })
+
+  it('devrait transmettre les événements publiés', async () => {
+    vi.mocked(auth).mockResolvedValue(createMockSession() as any)
+    const controller = new AbortController()
+
+    const response = await GET(createEventsRequest(controller) as any)
+    const reader = (response as Response).body!.getReader()
+
+    expect((response as Response).headers.get('Content-Type')).toContain('text/event-stream')
+    expect(await readChunk(reader)).toContain('retry: 5000')
+
+    publishEvent({ type: 'config', summary: 'Applications réordonnées', author: 'admin@example.com' })
+
+    const chunk = await readChunk(reader)
+    expect(chunk).toMatch(/^event: config\ndata: /)
+    expect(JSON.parse(chunk.split('data: ')[1])).toEqual({
+      type: 'config',
+      summary: 'Applications réordonnées',
+      author: 'admin@example.com',
+    })
+
+    controller.abort()
+  })
+
+  it('devrait recevoir les événements publiés par une autre copie du module', async () => {
+    vi.mocked(auth).mockResolvedValue(createMockSession() as any)
+    const controller = new AbortController()
+
+    const response = await GET(createEventsRequest(controller) as any)
+    const reader = (response as Response).body!.getReader()
+    await readChunk(reader)
+
+    // Le planificateur de instrumentation.ts peut charger lib/events.ts dans un autre bundle
+    vi.resetModules()
+    const copy = await import('@/lib/events')
+    copy.publishEvent({ type: 'config', summary: 'Configuration modifiée', author: null })
+
+    expect(await readChunk(reader)).toMatch(/^event: config\n/)
+
+    controller.abort()
+  })
+
+  it('devrait se désabonner à la fermeture de la connexion', async () => {
+    vi.mocked(auth).mockResolvedValue(createMockSession() as any)
+    const controller = new AbortController()
+
+    const response = await GET(createEventsRequest(controller) as any)
+    const reader = (response as Response).body!.getReader()
+    await readChunk(reader)
+
+    controller.abort()
+    publishEvent({ type: 'config', summary: 'Configuration modifiée', author: null })
+
+    expect((await reader.read()).done).toBe(true)
+  })
+})
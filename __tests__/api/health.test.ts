@@ -0,0 +1,114 @@
+/**
+ * Tests d'intégration pour les routes de disponibilité des applications
+ *
+ * Teste les endpoints GET /api/health-checks et GET /api/apps/[id]/health
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { GET as getAllHealth } from '@/app/api/health-checks/route'
+import { GET as getAppHealth } from '@/app/api/apps/[id]/health/route'
+import { readApps } from '@/lib/db'
+import { checkAppHealth, getHealthHistory, getHealthResult, getHealthResults } from '@/lib/health-checks'
+import type { HealthCheckResult } from '@/lib/health-checks'
+import { createMockRequest, createTestApp } from '../setup/test-helpers'
+
+// Mock des fonctions de la DB
+vi.mock('@/lib/db', () => ({
+  readApps: vi.fn(),
+}))
+
+// Mock des vérifications (la résolution de la configuration reste réelle)
+vi.mock('@/lib/health-checks', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/health-checks')>()),
+  checkAppHealth: vi.fn(),
+  getHealthHistory: vi.fn(),
+  getHealthResult: vi.fn(),
+  getHealthResults: vi.fn(),
+}))
+
+const RESULT: HealthCheckResult = {
+  appId: 'app1',
+  type: 'http',
+  status: 'up',
+  checkedAt: '2026-01-31T12:00:00.000Z',
+  latency: 42,
+  statusCode: 200,
+  error: null,
+  tlsValidTo: null,
+  tlsDaysRemaining: null,
+}
+
+/**
+ * Appelle la route de l'application app1
+ */
+function getHealth(query = '') {
+  return getAppHealth(createMockRequest(`/api/apps/app1/health${query}`) as any, {
+    params: Promise.resolve({ id: 'app1' }),
+  })
+}
+
+describe('API disponibilité des applications', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(readApps).mockResolvedValue([createTestApp({ id: 'app1' })])
+    vi.mocked(getHealthResult).mockReturnValue(RESULT)
+    vi.mocked(getHealthHistory).mockResolvedValue({
+      checks: [{ checkedAt: RESULT.checkedAt, status: 'up', latency: 42, error: null }],
+      uptime: 100,
+    })
+  })
+
+  describe('GET /api/health-checks', () => {
+    it('devrait retourner le dernier résultat de chaque application', async () => {
+      vi.mocked(getHealthResults).mockReturnValue([RESULT])
+
+      const response = await getAllHealth()
+      const json = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(json).toEqual({ results: [RESULT] })
+    })
+  })
+
+  describe('GET /api/apps/[id]/health', () => {
+    it('devrait retourner le résultat courant et l\'historique des dernières 24 heures', async () => {
+      const response = await getHealth()
+      const json = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(json).toMatchObject({ appId: 'app1', enabled: true, current: RESULT, period: '24h', uptime: 100 })
+      expect(getHealthHistory).toHaveBeenCalledWith('app1', 24 * 60 * 60 * 1000)
+      expect(checkAppHealth).not.toHaveBeenCalled()
+    })
+
+    it('devrait vérifier immédiatement une application jamais vérifiée', async () => {
+      vi.mocked(getHealthResult).mockReturnValue(null)
+      vi.mocked(checkAppHealth).mockResolvedValue(RESULT)
+
+      const json = await (await getHealth()).json()
+
+      expect(checkAppHealth).toHaveBeenCalledTimes(1)
+      expect(json.current).toEqual(RESULT)
+    })
+
+    it('devrait indiquer une vérification désactivée', async () => {
+      vi.mocked(readApps).mockResolvedValue([createTestApp({ id: 'app1', healthCheck: { enabled: false } })])
+
+      const json = await (await getHealth()).json()
+
+      expect(json).toMatchObject({ enabled: false, current: null, checks: [] })
+      expect(getHealthHistory).not.toHaveBeenCalled()
+    })
+
+    it('devrait retourner 400 pour une période invalide ou trop longue', async () => {
+      expect((await getHealth('?period=abc')).status).toBe(400)
+      expect((await getHealth('?period=90d')).status).toBe(400)
+    })
+
+    it('devrait retourner 404 si l\'application n\'existe pas', async () => {
+      vi.mocked(readApps).mockResolvedValue([])
+
+      expect((await getHealth()).status).toBe(404)
+    })
+  })
+})
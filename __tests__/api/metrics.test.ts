@@ -0,0 +1,81 @@
+/**
+ * Tests d'intégration pour la route de l'historique des métriques
+ *
+ * Teste l'endpoint GET /api/apps/[id]/metrics
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { GET } from '@/app/api/apps/[id]/metrics/route'
+import { readApps } from '@/lib/db'
+import { getMetricsHistory } from '@/lib/metrics-history'
+import { createMockRequest, createTestApp } from '../setup/test-helpers'
+
+// Mock des fonctions de la DB
+vi.mock('@/lib/db', () => ({
+  readApps: vi.fn(),
+}))
+
+// Mock de la lecture de l'historique (les autres fonctions restent réelles)
+vi.mock('@/lib/metrics-history', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/metrics-history')>()),
+  getMetricsHistory: vi.fn(),
+}))
+
+const DAY = 24 * 60 * 60 * 1000
+
+/**
+ * Appelle la route pour l'application app1
+ */
+function getMetrics(query: string) {
+  return GET(createMockRequest(`/api/apps/app1/metrics${query}`) as any, {
+    params: Promise.resolve({ id: 'app1' }),
+  })
+}
+
+describe('API /api/apps/[id]/metrics', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(readApps).mockResolvedValue([createTestApp({ id: 'app1' })])
+    vi.mocked(getMetricsHistory).mockResolvedValue([{ timestamp: 1700000000000, value: 42 }])
+  })
+
+  it('devrait retourner les points de la période demandée', async () => {
+    const response = await getMetrics('?key=totalMovies&period=30d')
+    const json = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(json).toEqual({
+      appId: 'app1',
+      key: 'totalMovies',
+      period: '30d',
+      resolution: 'hour',
+      points: [{ timestamp: 1700000000000, value: 42 }],
+    })
+    expect(getMetricsHistory).toHaveBeenCalledWith('app1', 'totalMovies', 30 * DAY, 'hour')
+  })
+
+  it('devrait utiliser 7 jours par défaut et la résolution demandée', async () => {
+    await getMetrics('?key=totalMovies&resolution=day')
+
+    expect(getMetricsHistory).toHaveBeenCalledWith('app1', 'totalMovies', 7 * DAY, 'day')
+  })
+
+  it('devrait retourner 400 sans clé', async () => {
+    const response = await getMetrics('')
+
+    expect(response.status).toBe(400)
+  })
+
+  it('devrait retourner 400 pour une période ou une résolution invalide', async () => {
+    expect((await getMetrics('?key=totalMovies&period=abc')).status).toBe(400)
+    expect((await getMetrics('?key=totalMovies&resolution=minute')).status).toBe(400)
+  })
+
+  it('devrait retourner 404 si l\'application n\'existe pas', async () => {
+    vi.mocked(readApps).mockResolvedValue([])
+
+    const response = await getMetrics('?key=totalMovies')
+
+    expect(response.status).toBe(404)
+  })
+})
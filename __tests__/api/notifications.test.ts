@@ -0,0 +1,242 @@
+/**
+ * Tests d'intégration pour les routes des canaux de notification
+ *
+ * Teste les endpoints GET/POST /api/notifications/channels,
+ * PUT/DELETE /api/notifications/channels/[id] et POST /api/notifications/test
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { GET as getChannels, POST as createChannel } from '@/app/api/notifications/channels/route'
+import { PUT as updateChannel, DELETE as deleteChannel } from '@/app/api/notifications/channels/[id]/route'
+import { POST as testChannel } from '@/app/api/notifications/test/route'
+import { auth } from '@/auth'
+import {
+  createNotificationChannel,
+  deleteNotificationChannel,
+  readNotificationChannels,
+  sendNotification,
+  updateNotificationChannel,
+} from '@/lib/notifications'
+import { createMockRequest, createMockSession } from '../setup/test-helpers'
+
+// Mock de auth
+vi.mock('@/auth', () => ({
+  auth: vi.fn(),
+}))
+
+// Mock du stockage et de l'envoi (la validation reste réelle)
+vi.mock('@/lib/notifications', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/notifications')>()),
+  readNotificationChannels: vi.fn(),
+  createNotificationChannel: vi.fn(),
+  updateNotificationChannel: vi.fn(),
+  deleteNotificationChannel: vi.fn(),
+  sendNotification: vi.fn(),
+}))
+
+const CHANNEL_INPUT = {
+  name: 'Téléphone',
+  type: 'ntfy',
+  config: { topic: 'alertes' },
+}
+
+/**
+ * Canal Gotify enregistré (secrets déchiffrés)
+ */
+const GOTIFY_CHANNEL = {
+  id: 'channel1',
+  name: 'Gotify',
+  type: 'gotify' as const,
+  config: { url: 'https://gotify.example.com', token: 'gotify-app-token-123' },
+  appIds: [],
+  enabled: true,
+}
+
+/**
+ * Paramètres de route pour le canal channel1
+ */
+const params = { params: Promise.resolve({ id: 'channel1' }) }
+
+describe('API canaux de notification', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(auth).mockResolvedValue(createMockSession({ role: 'admin' }) as any)
+  })
+
+  describe('GET /api/notifications/channels', () => {
+    it('devrait retourner 401 sans session', async () => {
+      vi.mocked(auth).mockResolvedValue(null)
+
+      expect((await getChannels()).status).toBe(401)
+    })
+
+    it('devrait retourner 403 pour un utilisateur non admin', async () => {
+      vi.mocked(auth).mockResolvedValue(createMockSession({ role: 'user' }) as any)
+
+      expect((await getChannels()).status).toBe(403)
+      expect(readNotificationChannels).not.toHaveBeenCalled()
+    })
+
+    it('devrait retourner les canaux pour un admin, secrets masqués', async () => {
+      vi.mocked(readNotificationChannels).mockResolvedValue([GOTIFY_CHANNEL])
+
+      const response = await getChannels()
+
+      expect(response.status).toBe(200)
+      expect(await response.json()).toEqual([
+        { ...GOTIFY_CHANNEL, config: { url: 'https://gotify.example.com', token: 'goti************-123' } },
+      ])
+    })
+  })
+
+  describe('POST /api/notifications/channels', () => {
+    it('devrait créer un canal valide', async () => {
+      vi.mocked(createNotificationChannel).mockResolvedValue({ id: 'channel1', ...CHANNEL_INPUT } as any)
+
+      const response = await createChannel(
+        createMockRequest('/api/notifications/channels', { method: 'POST', body: CHANNEL_INPUT }) as any
+      )
+
+      expect(response.status).toBe(201)
+      expect(createNotificationChannel).toHaveBeenCalledWith(CHANNEL_INPUT)
+    })
+
+    it('devrait retourner 400 pour un canal invalide', async () => {
+      const response = await createChannel(
+        createMockRequest('/api/notifications/channels', {
+          method: 'POST',
+          body: { ...CHANNEL_INPUT, config: {} },
+        }) as any
+      )
+
+      expect(response.status).toBe(400)
+      expect(await response.json()).toEqual({ error: 'Le sujet ntfy est requis' })
+    })
+  })
+
+  describe('PUT/DELETE /api/notifications/channels/[id]', () => {
+    it('devrait retourner 404 pour un canal inconnu', async () => {
+      vi.mocked(readNotificationChannels).mockResolvedValue([])
+      vi.mocked(deleteNotificationChannel).mockResolvedValue(false)
+
+      const updateResponse = await updateChannel(
+        createMockRequest('/api/notifications/channels/channel1', { method: 'PUT', body: CHANNEL_INPUT }) as any,
+        params
+      )
+      const deleteResponse = await deleteChannel(
+        createMockRequest('/api/notifications/channels/channel1', { method: 'DELETE' }) as any,
+        params
+      )
+
+      expect(updateResponse.status).toBe(404)
+      expect(deleteResponse.status).toBe(404)
+      expect(updateNotificationChannel).not.toHaveBeenCalled()
+    })
+
+    it('devrait conserver un secret renvoyé sous sa forme masquée', async () => {
+      vi.mocked(readNotificationChannels).mockResolvedValue([GOTIFY_CHANNEL])
+      vi.mocked(updateNotificationChannel).mockImplementation(async (id, input) => ({ id, ...input }))
+      const body = {
+        ...GOTIFY_CHANNEL,
+        name: 'Gotify maison',
+        config: { url: 'https://gotify.example.com', token: 'goti************-123' },
+      }
+
+      const response = await updateChannel(
+        createMockRequest('/api/notifications/channels/channel1', { method: 'PUT', body }) as any,
+        params
+      )
+
+      expect(response.status).toBe(200)
+      expect(updateNotificationChannel).toHaveBeenCalledWith(
+        'channel1',
+        expect.objectContaining({ name: 'Gotify maison', config: GOTIFY_CHANNEL.config })
+      )
+      expect((await response.json()).config.token).toBe('goti************-123')
+    })
+
+    it('ne devrait pas réutiliser un secret masqué vers une autre URL', async () => {
+      vi.mocked(readNotificationChannels).mockResolvedValue([GOTIFY_CHANNEL])
+      const body = {
+        ...GOTIFY_CHANNEL,
+        config: { url: 'https://attaquant.example.com', token: 'goti************-123' },
+      }
+
+      const response = await updateChannel(
+        createMockRequest('/api/notifications/channels/channel1', { method: 'PUT', body }) as any,
+        params
+      )
+
+      expect(response.status).toBe(400)
+      expect(updateNotificationChannel).not.toHaveBeenCalled()
+    })
+
+    it('devrait supprimer un canal existant', async () => {
+      vi.mocked(deleteNotificationChannel).mockResolvedValue(true)
+
+      const response = await deleteChannel(
+        createMockRequest('/api/notifications/channels/channel1', { method: 'DELETE' }) as any,
+        params
+      )
+
+      expect(response.status).toBe(200)
+      expect(deleteNotificationChannel).toHaveBeenCalledWith('channel1')
+    })
+  })
+
+  describe('POST /api/notifications/test', () => {
+    it('devrait envoyer une notification de test', async () => {
+      vi.mocked(sendNotification).mockResolvedValue()
+
+      const response = await testChannel(
+        createMockRequest('/api/notifications/test', { method: 'POST', body: CHANNEL_INPUT }) as any
+      )
+
+      expect(response.status).toBe(200)
+      expect(sendNotification).toHaveBeenCalledWith(
+        'ntfy',
+        { topic: 'alertes' },
+        expect.objectContaining({ title: 'Test de notification' })
+      )
+    })
+
+    it('devrait utiliser les secrets enregistrés du canal en cours de modification', async () => {
+      vi.mocked(readNotificationChannels).mockResolvedValue([GOTIFY_CHANNEL])
+      vi.mocked(sendNotification).mockResolvedValue()
+      const body = {
+        id: 'channel1',
+        type: 'gotify',
+        config: { url: 'https://gotify.example.com', token: 'goti************-123' },
+      }
+
+      const response = await testChannel(
+        createMockRequest('/api/notifications/test', { method: 'POST', body }) as any
+      )
+
+      expect(response.status).toBe(200)
+      expect(sendNotification).toHaveBeenCalledWith('gotify', GOTIFY_CHANNEL.config, expect.any(Object))
+    })
+
+    it('devrait retourner 502 avec la cause de l\'échec', async () => {
+      vi.mocked(sendNotification).mockRejectedValue(new Error('HTTP 403'))
+
+      const response = await testChannel(
+        createMockRequest('/api/notifications/test', { method: 'POST', body: CHANNEL_INPUT }) as any
+      )
+
+      expect(response.status).toBe(502)
+      expect(await response.json()).toEqual({ error: 'Échec de l\'envoi : HTTP 403' })
+    })
+
+    it('devrait retourner 403 pour un utilisateur non admin', async () => {
+      vi.mocked(auth).mockResolvedValue(createMockSession({ role: 'user' }) as any)
+
+      const response = await testChannel(
+        createMockRequest('/api/notifications/test', { method: 'POST', body: CHANNEL_INPUT }) as any
+      )
+
+      expect(response.status).toBe(403)
+      expect(sendNotification).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,70 @@
+/**
+ * Tests d'intégration pour les préférences de l'utilisateur connecté
+ *
+ * Teste les endpoints GET et PUT /api/users/preferences
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { GET, PUT } from '@/app/api/users/preferences/route'
+import { auth } from '@/auth'
+import { findUserByEmail, getUserPreferences, updateUserPreferences } from '@/lib/users'
+import { createMockRequest, createMockSession, createTestUser } from '../setup/test-helpers'
+
+// Mock des fonctions users
+vi.mock('@/lib/users', () => ({
+  findUserByEmail: vi.fn(),
+  getUserPreferences: vi.fn(),
+  updateUserPreferences: vi.fn(),
+}))
+
+describe('API /api/users/preferences', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(auth).mockResolvedValue(createMockSession() as any)
+    vi.mocked(findUserByEmail).mockResolvedValue(createTestUser({ id: 'user1' }) as any)
+  })
+
+  it('devrait retourner 401 si non authentifié', async () => {
+    vi.mocked(auth).mockResolvedValue(null)
+
+    const response = await GET()
+
+    expect(response.status).toBe(401)
+  })
+
+  it('devrait retourner les préférences de l\'utilisateur connecté', async () => {
+    vi.mocked(getUserPreferences).mockResolvedValue({ collapsedGroups: ['default:Supervision'] })
+
+    const response = await GET()
+    const json = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(json).toEqual({ collapsedGroups: ['default:Supervision'] })
+    expect(getUserPreferences).toHaveBeenCalledWith('user1')
+  })
+
+  it('devrait enregistrer les groupes repliés', async () => {
+    vi.mocked(updateUserPreferences).mockImplementation(async (_, preferences) => preferences)
+    const request = createMockRequest('/api/users/preferences', {
+      method: 'PUT',
+      body: { collapsedGroups: ['infra:Réseau'] },
+    })
+
+    const response = await PUT(request as any)
+
+    expect(response.status).toBe(200)
+    expect(updateUserPreferences).toHaveBeenCalledWith('user1', { collapsedGroups: ['infra:Réseau'] })
+  })
+
+  it('devrait refuser des groupes repliés invalides', async () => {
+    const request = createMockRequest('/api/users/preferences', {
+      method: 'PUT',
+      body: { collapsedGroups: [42] },
+    })
+
+    const response = await PUT(request as any)
+
+    expect(response.status).toBe(400)
+    expect(updateUserPreferences).not.toHaveBeenCalled()
+  })
+})
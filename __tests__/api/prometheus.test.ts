@@ -0,0 +1,106 @@
+/**
+ * Tests d'intégration pour la route d'export Prometheus
+ *
+ * Teste GET /api/metrics : activation par METRICS_TOKEN, vérification du jeton,
+ * format de la réponse et lecture des vérifications du planificateur
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { GET } from '@/app/api/metrics/route'
+import { readApps } from '@/lib/db'
+import { getCachedStats, getStatsPollStatuses } from '@/lib/stats-poller'
+import { stopHealthChecks } from '@/lib/health-checks'
+import { createMockRequest, createTestApp } from '../setup/test-helpers'
+
+// Mock de la lecture des applications
+vi.mock('@/lib/db', () => ({
+  readApps: vi.fn(),
+}))
+
+// Mock du cache des statistiques
+vi.mock('@/lib/stats-poller', () => ({
+  getCachedStats: vi.fn(),
+  getStatsPollStatuses: vi.fn(),
+}))
+
+// Mock de l'historique des vérifications (les résultats restent réels)
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    healthCheck: {
+      create: vi.fn(async () => ({})),
+    },
+  },
+}))
+
+vi.mock('@/lib/events', () => ({
+  publishEvent: vi.fn(),
+}))
+
+vi.mock('@/lib/alerts', () => ({
+  evaluateAlerts: vi.fn(async () => {}),
+}))
+
+/**
+ * Requête d'export avec un en-tête Authorization optionnel
+ */
+function metricsRequest(authorization?: string) {
+  return createMockRequest('/api/metrics', {
+    headers: authorization ? { Authorization: authorization } : {},
+  }) as any
+}
+
+describe('API export Prometheus', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.stubEnv('METRICS_TOKEN', 's3cret')
+    vi.mocked(readApps).mockResolvedValue([createTestApp({ id: 'plex', name: 'Plex' })])
+    vi.mocked(getCachedStats).mockReturnValue([{ appId: 'plex', templateId: 'plex', data: { totalMovies: 120 } }])
+    vi.mocked(getStatsPollStatuses).mockReturnValue([])
+  })
+
+  afterEach(() => {
+    stopHealthChecks()
+    vi.unstubAllEnvs()
+    vi.unstubAllGlobals()
+  })
+
+  it('devrait retourner 404 si METRICS_TOKEN n\'est pas défini', async () => {
+    vi.stubEnv('METRICS_TOKEN', '')
+
+    const response = await GET(metricsRequest('Bearer s3cret'))
+
+    expect(response.status).toBe(404)
+    expect(readApps).not.toHaveBeenCalled()
+  })
+
+  it('devrait retourner 401 sans jeton ou avec un mauvais jeton', async () => {
+    expect((await GET(metricsRequest())).status).toBe(401)
+    expect((await GET(metricsRequest('Bearer autre'))).status).toBe(401)
+    expect(readApps).not.toHaveBeenCalled()
+  })
+
+  it('devrait exporter les métriques au format OpenMetrics', async () => {
+    const response = await GET(metricsRequest('Bearer s3cret'))
+
+    expect(response.status).toBe(200)
+    expect(response.headers.get('Content-Type')).toContain('application/openmetrics-text')
+    const body = await response.text()
+    expect(body).toContain('plex_total_movies{app_id="plex",app_name="Plex"} 120')
+    expect(body.endsWith('# EOF\n')).toBe(true)
+  })
+  it('devrait exporter les vérifications faites par le planificateur', async () => {
+    // Le planificateur tourne dans le bundle de instrumentation.ts, qui charge
+    // sa propre copie du module
+    vi.resetModules()
+    const scheduler = await import('@/lib/health-checks')
+    const { readApps: schedulerReadApps } = await import('@/lib/db')
+    vi.mocked(schedulerReadApps).mockResolvedValue([createTestApp({ id: 'plex', name: 'Plex', url: 'http://plex.local' })])
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('OK', { status: 200 })))
+    await scheduler.checkDueApps()
+
+    const body = await (await GET(metricsRequest('Bearer s3cret'))).text()
+
+    expect(body).toContain('xhell_app_up{app_id="plex",app_name="Plex",check_type="http"} 1')
+    expect(body).toMatch(/xhell_app_latency_seconds\{app_id="plex",app_name="Plex",check_type="http"\} \d/)
+  })
+})
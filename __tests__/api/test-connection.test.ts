@@ -0,0 +1,120 @@
+/**
+ * Tests d'intégration pour la route du test de connexion
+ *
+ * Teste l'endpoint POST /api/apps/test-connection
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { POST } from '@/app/api/apps/test-connection/route'
+import { auth } from '@/auth'
+import { readApps } from '@/lib/db'
+import { testAppConnection } from '@/lib/connection-test'
+import { createMockRequest, createMockSession, createTestApp } from '../setup/test-helpers'
+
+// Mock de auth
+vi.mock('@/auth', () => ({
+  auth: vi.fn(),
+}))
+
+// Mock des fonctions de la DB
+vi.mock('@/lib/db', () => ({
+  readApps: vi.fn(),
+  withUnsavedApp: vi.fn(),
+}))
+
+// Mock du diagnostic (testé dans connection-test.test.ts)
+vi.mock('@/lib/connection-test', () => ({
+  testAppConnection: vi.fn(),
+}))
+
+const DIAGNOSIS = { ok: true, steps: [], version: '4.0.8', sample: { totalSeries: 12 } }
+
+/**
+ * Appelle la route avec les valeurs du formulaire
+ */
+function testConnection(body: Record<string, unknown>) {
+  return POST(createMockRequest('/api/apps/test-connection', { method: 'POST', body }) as any)
+}
+
+describe('API /api/apps/test-connection', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(auth).mockResolvedValue(createMockSession({ role: 'admin' }) as any)
+    vi.mocked(testAppConnection).mockResolvedValue(DIAGNOSIS)
+  })
+
+  it('devrait retourner 401 sans session et 403 pour un non admin', async () => {
+    vi.mocked(auth).mockResolvedValueOnce(null)
+    expect((await testConnection({ url: 'http://sonarr.local' })).status).toBe(401)
+
+    vi.mocked(auth).mockResolvedValueOnce(createMockSession({ role: 'user' }) as any)
+    expect((await testConnection({ url: 'http://sonarr.local' })).status).toBe(403)
+
+    expect(testAppConnection).not.toHaveBeenCalled()
+  })
+
+  it('devrait retourner 400 sans URL ou pour une carte inconnue', async () => {
+    expect((await testConnection({})).status).toBe(400)
+    expect((await testConnection({ url: 'http://x.local', statsConfig: { templateId: 'inconnue' } })).status).toBe(400)
+  })
+
+  it('devrait tester une nouvelle application avec la carte de son template', async () => {
+    const response = await testConnection({
+      url: 'http://sonarr.local',
+      apiKey: 'cle',
+      statsConfig: { templateId: 'sonarr' },
+    })
+
+    expect(response.status).toBe(200)
+    expect(await response.json()).toEqual(DIAGNOSIS)
+    expect(testAppConnection).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'test-connection', url: 'http://sonarr.local', apiKey: 'cle' }),
+      expect.objectContaining({ id: 'sonarr', testConnection: expect.any(Function) })
+    )
+  })
+
+  it('devrait compléter les valeurs avec celles de l\'application enregistrée', async () => {
+    vi.mocked(readApps).mockResolvedValue([
+      createTestApp({ id: 'app1', url: 'http://sonarr.local', apiKey: 'cle-enregistree' } as any),
+    ])
+
+    await testConnection({ id: 'app1', url: 'http://sonarr.local', statsConfig: { templateId: 'sonarr' } })
+
+    expect(testAppConnection).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'app1', url: 'http://sonarr.local', apiKey: 'cle-enregistree' }),
+      expect.anything()
+    )
+  })
+
+  it('devrait utiliser le secret enregistré à la place de son aperçu masqué', async () => {
+    vi.mocked(readApps).mockResolvedValue([
+      createTestApp({ id: 'app1', url: 'http://sonarr.local', apiKey: '0123456789abcdef' } as any),
+    ])
+
+    await testConnection({ id: 'app1', url: 'http://sonarr.local', apiKey: '0123********cdef', secretFields: ['apiKey'] })
+
+    expect(testAppConnection).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'app1', apiKey: '0123456789abcdef' }),
+      undefined
+    )
+  })
+
+  it('devrait exiger les secrets si l\'URL de l\'application change', async () => {
+    vi.mocked(readApps).mockResolvedValue([
+      createTestApp({ id: 'app1', url: 'http://sonarr.local', apiKey: '0123456789abcdef' } as any),
+    ])
+
+    for (const apiKey of [undefined, '0123********cdef']) {
+      const response = await testConnection({ id: 'app1', url: 'http://attaquant.example', apiKey })
+      expect(response.status).toBe(400)
+      expect((await response.json()).error).toBe('Les secrets doivent être ressaisis lorsque l\'URL de l\'application change : apiKey')
+    }
+    expect(testAppConnection).not.toHaveBeenCalled()
+
+    await testConnection({ id: 'app1', url: 'http://sonarr2.local', apiKey: 'nouvelle-cle' })
+    expect(testAppConnection).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'app1', url: 'http://sonarr2.local', apiKey: 'nouvelle-cle' }),
+      undefined
+    )
+  })
+})
@@ -7,7 +7,7 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest'
 import { GET, POST } from '@/app/api/widgets/route'
 import { auth } from '@/auth'
-import { readWidgets, writeWidgets, generateWidgetId } from '@/lib/db'
+import { readWidgets, saveWidget, generateWidgetId } from '@/lib/db'
 import { createMockRequest, createMockSession, createTestWidget } from '../setup/test-helpers'
 
 // Mock de auth
@@ -18,7 +18,7 @@ vi.mock('@/auth', () => ({
 // Mock des fonctions db
 vi.mock('@/lib/db', () => ({
   readWidgets: vi.fn(),
-  writeWidgets: vi.fn(),
+  saveWidget: vi.fn(),
   generateWidgetId: vi.fn(() => 'widget_test_123'),
 }))
 
@@ -36,7 +36,7 @@ describe('API /api/widgets', () => {
 
       vi.mocked(readWidgets).mockResolvedValue(widgets)
 
-      const response = await GET()
+      const response = await GET(createMockRequest('/api/widgets') as any)
       const json = await response.json()
 
       expect(response.status).toBe(200)
@@ -47,7 +47,7 @@ describe('API /api/widgets', () => {
     it('devrait retourner 500 en cas d\'erreur', async () => {
       vi.mocked(readWidgets).mockRejectedValue(new Error('Erreur de lecture'))
 
-      const response = await GET()
+      const response = await GET(createMockRequest('/api/widgets') as any)
       const json = await response.json()
 
       expect(response.status).toBe(500)
@@ -97,7 +97,7 @@ describe('API /api/widgets', () => {
 
       vi.mocked(auth).mockResolvedValue(session as any)
       vi.mocked(readWidgets).mockResolvedValue(existingWidgets)
-      vi.mocked(writeWidgets).mockResolvedValue()
+      vi.mocked(saveWidget).mockResolvedValue()
 
       const request = createMockRequest('/api/widgets', {
         method: 'POST',
@@ -110,7 +110,7 @@ describe('API /api/widgets', () => {
       expect(response.status).toBe(201)
       expect(json.type).toBe('clock')
       expect(json.enabled).toBe(true)
-      expect(writeWidgets).toHaveBeenCalled()
+      expect(saveWidget).toHaveBeenCalledWith(expect.objectContaining({ type: 'clock' }), 'test@example.com')
     })
 
     it('devrait valider le type de widget', async () => {
@@ -134,7 +134,7 @@ describe('API /api/widgets', () => {
       const existingWidgets: any[] = []
       vi.mocked(auth).mockResolvedValue(session as any)
       vi.mocked(readWidgets).mockResolvedValue(existingWidgets)
-      vi.mocked(writeWidgets).mockResolvedValue()
+      vi.mocked(saveWidget).mockResolvedValue()
 
       const validTypes = ['clock', 'weather', 'system-info']
 
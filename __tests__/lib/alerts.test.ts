@@ -0,0 +1,324 @@
+/**
+ * Tests pour les règles d'alerte
+ *
+ * Teste la lecture des valeurs, les comparaisons, la validation des règles
+ * et le cycle déclenchement / résolution (durée, hystérésis, pause)
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import {
+  getValuesAtPath,
+  compareValue,
+  validateAlertRuleInput,
+  evaluateAlerts,
+  deleteAlertRule,
+  resetAlertState,
+  type AlertRule,
+} from '@/lib/alerts'
+import { prisma } from '@/lib/prisma'
+import { publishEvent } from '@/lib/events'
+import { notifyAlert } from '@/lib/notifications'
+
+// Mock de Prisma avec les tables des règles et des alertes
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    alertRule: {
+      findMany: vi.fn(),
+      findUnique: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+      delete: vi.fn(),
+    },
+    alert: {
+      findMany: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+    },
+  },
+}))
+
+// Mock du bus d'événements temps réel
+vi.mock('@/lib/events', () => ({
+  publishEvent: vi.fn(),
+}))
+
+// Mock de l'envoi des notifications
+vi.mock('@/lib/notifications', () => ({
+  notifyAlert: vi.fn(),
+}))
+
+const MINUTE = 60000
+const APP = { id: 'app1', name: 'Sonarr' }
+
+/**
+ * Crée une règle de test
+ */
+function createRule(overrides: Partial<AlertRule> = {}): AlertRule {
+  return {
+    id: 'rule1',
+    name: 'Téléchargements en échec',
+    appId: 'app1',
+    source: 'stats',
+    key: 'queueFailed',
+    operator: '>',
+    value: '0',
+    forDuration: 0,
+    resolveAfter: 0,
+    cooldown: 0,
+    severity: 'warning',
+    enabled: true,
+    channelIds: [],
+    ...overrides,
+  }
+}
+
+/**
+ * Lignes Prisma retournées par alert.create / alert.update
+ */
+function alertRow(data: Record<string, unknown>) {
+  return {
+    id: 1,
+    resolvedAt: null,
+    ...data,
+    firedAt: (data.firedAt as Date) ?? new Date(0),
+  }
+}
+
+describe('alerts', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(prisma.alertRule.findMany).mockResolvedValue([createRule()] as any)
+    vi.mocked(prisma.alert.findMany).mockResolvedValue([])
+    vi.mocked(notifyAlert).mockResolvedValue()
+    vi.mocked(prisma.alert.create).mockImplementation((async ({ data }: any) => alertRow(data)) as any)
+    vi.mocked(prisma.alert.update).mockImplementation((async ({ data }: any) =>
+      alertRow({ ruleId: 'rule1', status: 'firing', firedAt: new Date(0), ...data })) as any)
+  })
+
+  afterEach(() => {
+    resetAlertState()
+  })
+
+  describe('getValuesAtPath', () => {
+    it('devrait lire une clé simple ou imbriquée', () => {
+      expect(getValuesAtPath({ queueFailed: 2 }, 'queueFailed')).toEqual([2])
+      expect(getValuesAtPath({ cpu: { usage: 95 } }, 'cpu.usage')).toEqual([95])
+    })
+
+    it('devrait parcourir chaque élément avec *', () => {
+      const data = { pools: [{ name: 'tank', status: 'ONLINE' }, { name: 'backup', status: 'DEGRADED' }] }
+
+      expect(getValuesAtPath(data, 'pools.*.status')).toEqual(['ONLINE', 'DEGRADED'])
+    })
+
+    it('devrait ignorer les clés absentes et les objets', () => {
+      expect(getValuesAtPath({ a: 1 }, 'b')).toEqual([])
+      expect(getValuesAtPath({ a: { b: 1 } }, 'a')).toEqual([])
+    })
+  })
+
+  describe('compareValue', () => {
+    it('devrait comparer numériquement les nombres', () => {
+      expect(compareValue(91, '>', '90')).toBe(true)
+      expect(compareValue('10', '>', '9')).toBe(true)
+      expect(compareValue(1, '>=', '1')).toBe(true)
+      expect(compareValue(0, '>', '0')).toBe(false)
+    })
+
+    it('devrait comparer les textes avec == et != seulement', () => {
+      expect(compareValue('DEGRADED', '!=', 'ONLINE')).toBe(true)
+      expect(compareValue('down', '==', 'down')).toBe(true)
+      expect(compareValue('down', '>', 'up')).toBe(false)
+    })
+  })
+
+  describe('validateAlertRuleInput', () => {
+    it('devrait accepter une règle complète', () => {
+      expect(validateAlertRuleInput(createRule())).toBeNull()
+    })
+
+    it('devrait refuser un opérateur, une gravité ou une durée invalides', () => {
+      expect(validateAlertRuleInput(createRule({ operator: '=~' as any }))).not.toBeNull()
+      expect(validateAlertRuleInput(createRule({ severity: 'info' as any }))).not.toBeNull()
+      expect(validateAlertRuleInput(createRule({ forDuration: -1 }))).not.toBeNull()
+      expect(validateAlertRuleInput(createRule({ key: ' ' }))).not.toBeNull()
+    })
+  })
+
+  describe('evaluateAlerts', () => {
+    it('devrait déclencher puis résoudre une alerte', async () => {
+      await evaluateAlerts(APP, 'stats', { queueFailed: 3 }, 0)
+
+      expect(prisma.alert.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          ruleId: 'rule1',
+          appName: 'Sonarr',
+          status: 'firing',
+          value: '3',
+          message: 'queueFailed = 3 (> 0)',
+        }),
+      })
+      expect(publishEvent).toHaveBeenCalledWith({
+        type: 'alert',
+        alert: expect.objectContaining({ status: 'firing' }),
+      })
+
+      await evaluateAlerts(APP, 'stats', { queueFailed: 0 }, MINUTE)
+
+      expect(prisma.alert.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: { status: 'resolved', resolvedAt: new Date(MINUTE) },
+      })
+    })
+
+    it('devrait notifier les canaux de la règle au déclenchement et à la résolution', async () => {
+      vi.mocked(prisma.alertRule.findMany).mockResolvedValue([createRule({ channelIds: ['ntfy'] })] as any)
+
+      await evaluateAlerts(APP, 'stats', { queueFailed: 3 }, 0)
+      await evaluateAlerts(APP, 'stats', { queueFailed: 0 }, MINUTE)
+
+      expect(notifyAlert).toHaveBeenCalledTimes(2)
+      expect(notifyAlert).toHaveBeenNthCalledWith(1, expect.objectContaining({ status: 'firing' }), ['ntfy'])
+      expect(notifyAlert).toHaveBeenNthCalledWith(2, expect.objectContaining({ status: 'resolved' }), ['ntfy'])
+    })
+
+    it('ne devrait pas déclencher deux fois une alerte en cours', async () => {
+      await evaluateAlerts(APP, 'stats', { queueFailed: 3 }, 0)
+      await evaluateAlerts(APP, 'stats', { queueFailed: 4 }, MINUTE)
+
+      expect(prisma.alert.create).toHaveBeenCalledTimes(1)
+    })
+
+    it('devrait attendre la durée de la règle avant de déclencher', async () => {
+      vi.mocked(prisma.alertRule.findMany).mockResolvedValue([
+        createRule({ key: 'cpu', operator: '>', value: '90', forDuration: 10 * MINUTE }),
+      ] as any)
+
+      await evaluateAlerts(APP, 'stats', { cpu: 95 }, 0)
+      await evaluateAlerts(APP, 'stats', { cpu: 95 }, 5 * MINUTE)
+      expect(prisma.alert.create).not.toHaveBeenCalled()
+
+      await evaluateAlerts(APP, 'stats', { cpu: 95 }, 10 * MINUTE)
+      expect(prisma.alert.create).toHaveBeenCalledTimes(1)
+    })
+
+    it('devrait repartir de zéro si la condition redevient fausse', async () => {
+      vi.mocked(prisma.alertRule.findMany).mockResolvedValue([
+        createRule({ key: 'cpu', operator: '>', value: '90', forDuration: 10 * MINUTE }),
+      ] as any)
+
+      await evaluateAlerts(APP, 'stats', { cpu: 95 }, 0)
+      await evaluateAlerts(APP, 'stats', { cpu: 50 }, 5 * MINUTE)
+      await evaluateAlerts(APP, 'stats', { cpu: 95 }, 10 * MINUTE)
+
+      expect(prisma.alert.create).not.toHaveBeenCalled()
+    })
+
+    it('devrait attendre le délai de résolution (hystérésis)', async () => {
+      vi.mocked(prisma.alertRule.findMany).mockResolvedValue([
+        createRule({ resolveAfter: 5 * MINUTE }),
+      ] as any)
+
+      await evaluateAlerts(APP, 'stats', { queueFailed: 1 }, 0)
+      await evaluateAlerts(APP, 'stats', { queueFailed: 0 }, MINUTE)
+      await evaluateAlerts(APP, 'stats', { queueFailed: 0 }, 3 * MINUTE)
+      expect(prisma.alert.update).not.toHaveBeenCalled()
+
+      await evaluateAlerts(APP, 'stats', { queueFailed: 0 }, 6 * MINUTE)
+      expect(prisma.alert.update).toHaveBeenCalledTimes(1)
+    })
+
+    it('ne devrait pas redéclencher pendant la pause', async () => {
+      vi.mocked(prisma.alertRule.findMany).mockResolvedValue([
+        createRule({ cooldown: 30 * MINUTE }),
+      ] as any)
+
+      await evaluateAlerts(APP, 'stats', { queueFailed: 1 }, 0)
+      await evaluateAlerts(APP, 'stats', { queueFailed: 0 }, MINUTE)
+      await evaluateAlerts(APP, 'stats', { queueFailed: 1 }, 10 * MINUTE)
+      expect(prisma.alert.create).toHaveBeenCalledTimes(1)
+
+      await evaluateAlerts(APP, 'stats', { queueFailed: 1 }, 31 * MINUTE)
+      expect(prisma.alert.create).toHaveBeenCalledTimes(2)
+    })
+
+    it('devrait déclencher si un élément d\'une liste correspond', async () => {
+      vi.mocked(prisma.alertRule.findMany).mockResolvedValue([
+        createRule({ key: 'pools.*.status', operator: '!=', value: 'ONLINE' }),
+      ] as any)
+
+      await evaluateAlerts(APP, 'stats', { pools: [{ status: 'ONLINE' }, { status: 'DEGRADED' }] }, 0)
+
+      expect(prisma.alert.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ value: 'DEGRADED' }),
+      })
+    })
+
+    it('devrait ignorer les règles d\'une autre source, application ou désactivées', async () => {
+      vi.mocked(prisma.alertRule.findMany).mockResolvedValue([
+        createRule({ id: 'health', source: 'health' }),
+        createRule({ id: 'other', appId: 'app2' }),
+        createRule({ id: 'off', enabled: false }),
+      ] as any)
+
+      await evaluateAlerts(APP, 'stats', { queueFailed: 3 }, 0)
+
+      expect(prisma.alert.create).not.toHaveBeenCalled()
+    })
+
+    it('ne devrait pas redéclencher une alerte en cours enregistrée avant un redémarrage', async () => {
+      vi.mocked(prisma.alert.findMany).mockResolvedValue([
+        alertRow({ ruleId: 'rule1', status: 'firing', firedAt: new Date(0) }),
+      ] as any)
+
+      await evaluateAlerts(APP, 'stats', { queueFailed: 3 }, MINUTE)
+
+      expect(prisma.alert.create).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('deleteAlertRule', () => {
+    it('devrait résoudre l\'alerte en cours de la règle supprimée', async () => {
+      vi.mocked(prisma.alertRule.findUnique).mockResolvedValue(createRule() as any)
+      await evaluateAlerts(APP, 'stats', { queueFailed: 3 }, 0)
+
+      expect(await deleteAlertRule('rule1')).toBe(true)
+      expect(prisma.alertRule.delete).toHaveBeenCalledWith({ where: { id: 'rule1' } })
+      expect(prisma.alert.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: expect.objectContaining({ status: 'resolved' }),
+      })
+    })
+
+    it('devrait retourner false si la règle n\'existe pas', async () => {
+      vi.mocked(prisma.alertRule.findUnique).mockResolvedValue(null)
+
+      expect(await deleteAlertRule('missing')).toBe(false)
+    })
+
+    it('devrait partager les règles et les alertes en cours entre les copies du module', async () => {
+      await evaluateAlerts(APP, 'stats', { queueFailed: 3 }, 0)
+
+      // Next.js charge le module dans plusieurs bundles : les routes modifient
+      // les règles, les planificateurs de instrumentation.ts les évaluent
+      vi.resetModules()
+      const copy = await import('@/lib/alerts')
+      const { prisma: copyPrisma } = await import('@/lib/prisma')
+      vi.mocked(copyPrisma.alertRule.findUnique).mockResolvedValue(createRule() as any)
+      vi.mocked(copyPrisma.alert.update).mockImplementation((async ({ data }: any) =>
+        alertRow({ ruleId: 'rule1', status: 'resolved', ...data })) as any)
+
+      expect(await copy.deleteAlertRule('rule1')).toBe(true)
+      expect(copyPrisma.alert.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: expect.objectContaining({ status: 'resolved' }),
+      })
+
+      vi.mocked(prisma.alertRule.findMany).mockResolvedValue([])
+      await evaluateAlerts(APP, 'stats', { queueFailed: 3 }, MINUTE)
+
+      expect(prisma.alertRule.findMany).toHaveBeenCalledTimes(2)
+      expect(prisma.alert.create).toHaveBeenCalledTimes(1)
+    })
+  })
+})
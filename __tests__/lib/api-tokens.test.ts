@@ -0,0 +1,152 @@
+/**
+ * Tests pour les jetons d'API personnels
+ *
+ * Teste la validation, la création (empreinte seule en base) et
+ * l'authentification par en-tête Authorization: Bearer
+ */
+
+import crypto from 'crypto'
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import {
+  createApiToken,
+  getApiTokenSession,
+  validateApiTokenInput,
+} from '@/lib/api-tokens'
+import { prisma } from '@/lib/prisma'
+
+// Mock de Prisma avec la table des jetons
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    apiToken: {
+      findMany: vi.fn(),
+      findUnique: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+      deleteMany: vi.fn(),
+    },
+  },
+}))
+
+const apiToken = prisma.apiToken as unknown as Record<string, ReturnType<typeof vi.fn>>
+
+/**
+ * Ligne Prisma d'un jeton et de son propriétaire
+ */
+function createTokenRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'token_1',
+    userId: 'user_1',
+    name: 'Script',
+    tokenHash: 'hash',
+    prefix: 'xd_abcdefg',
+    scopes: ['read'],
+    expiresAt: null,
+    lastUsedAt: null,
+    createdAt: new Date('2026-01-01T00:00:00.000Z'),
+    user: { id: 'user_1', email: 'user@example.com', role: 'user' },
+    ...overrides,
+  }
+}
+
+describe('api-tokens', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    apiToken.update.mockResolvedValue({})
+  })
+
+  describe('validateApiTokenInput', () => {
+    it('devrait accepter un jeton valide', () => {
+      expect(validateApiTokenInput({ name: 'Script', scopes: ['read', 'write'] }, 'user')).toBeNull()
+      expect(validateApiTokenInput({ name: 'Script', scopes: ['admin'], expiresAt: '2999-01-01T00:00:00.000Z' }, 'admin')).toBeNull()
+    })
+
+    it('devrait refuser un nom ou des scopes invalides', () => {
+      expect(validateApiTokenInput({ name: ' ', scopes: ['read'] }, 'user')).toBe('Le nom du jeton est requis')
+      expect(validateApiTokenInput({ name: 'Script', scopes: [] }, 'user')).toBe('scopes doit être une liste parmi : read, write, admin')
+      expect(validateApiTokenInput({ name: 'Script', scopes: ['delete' as any] }, 'user')).toBe('scopes doit être une liste parmi : read, write, admin')
+    })
+
+    it('devrait réserver le scope admin aux administrateurs', () => {
+      expect(validateApiTokenInput({ name: 'Script', scopes: ['admin'] }, 'user')).toBe('Le scope admin est réservé aux administrateurs')
+    })
+
+    it('devrait refuser une date d\'expiration invalide ou passée', () => {
+      expect(validateApiTokenInput({ name: 'Script', scopes: ['read'], expiresAt: 'demain' }, 'user')).toBe('expiresAt doit être une date ISO 8601')
+      expect(validateApiTokenInput({ name: 'Script', scopes: ['read'], expiresAt: '2020-01-01T00:00:00.000Z' }, 'user')).toBe('expiresAt doit être dans le futur')
+    })
+  })
+
+  describe('createApiToken', () => {
+    it('devrait enregistrer uniquement l\'empreinte du jeton', async () => {
+      apiToken.create.mockImplementation(async ({ data }: any) => createTokenRow({ ...data, id: 'token_2' }))
+
+      const { token, apiToken: created } = await createApiToken('user_1', {
+        name: ' Script ',
+        scopes: ['read', 'read'],
+        expiresAt: '2999-01-01T00:00:00.000Z',
+      })
+
+      const { data } = apiToken.create.mock.calls[0][0]
+      expect(token).toMatch(/^xd_[\w-]{43}$/)
+      expect(data.tokenHash).toBe(crypto.createHash('sha256').update(token).digest('hex'))
+      expect(JSON.stringify(data)).not.toContain(token)
+      expect(created).toEqual({
+        id: 'token_2',
+        name: 'Script',
+        prefix: token.slice(0, 10),
+        scopes: ['read'],
+        expiresAt: '2999-01-01T00:00:00.000Z',
+        lastUsedAt: null,
+        createdAt: '2026-01-01T00:00:00.000Z',
+      })
+    })
+  })
+
+  describe('getApiTokenSession', () => {
+    it('devrait ignorer un en-tête absent ou un autre type de jeton', async () => {
+      expect(await getApiTokenSession(null)).toBeNull()
+      expect(await getApiTokenSession('Basic dXNlcjpwYXNz')).toBeNull()
+      expect(await getApiTokenSession('Bearer autre-jeton')).toBeNull()
+      expect(apiToken.findUnique).not.toHaveBeenCalled()
+    })
+
+    it('devrait retourner la session du propriétaire du jeton', async () => {
+      apiToken.findUnique.mockResolvedValue(createTokenRow({ scopes: ['read', 'write'] }))
+
+      const session = await getApiTokenSession('Bearer xd_secret')
+
+      expect(apiToken.findUnique).toHaveBeenCalledWith({
+        where: { tokenHash: crypto.createHash('sha256').update('xd_secret').digest('hex') },
+        include: { user: true },
+      })
+      expect(session?.user).toEqual({
+        id: 'user_1',
+        name: 'user@example.com',
+        email: 'user@example.com',
+        role: 'user',
+        apiTokenId: 'token_1',
+        scopes: ['read', 'write'],
+      })
+      expect(apiToken.update).toHaveBeenCalledWith({
+        where: { id: 'token_1' },
+        data: { lastUsedAt: expect.any(Date) },
+      })
+    })
+
+    it('devrait refuser un jeton inconnu ou expiré', async () => {
+      apiToken.findUnique.mockResolvedValueOnce(null)
+      expect(await getApiTokenSession('Bearer xd_inconnu')).toBeNull()
+
+      apiToken.findUnique.mockResolvedValueOnce(createTokenRow({ expiresAt: new Date(Date.now() - 1000) }))
+      expect(await getApiTokenSession('Bearer xd_expire')).toBeNull()
+      expect(apiToken.update).not.toHaveBeenCalled()
+    })
+
+    it('ne devrait pas réécrire lastUsedAt à chaque requête', async () => {
+      apiToken.findUnique.mockResolvedValue(createTokenRow({ lastUsedAt: new Date(Date.now() - 5000) }))
+
+      expect(await getApiTokenSession('Bearer xd_secret')).not.toBeNull()
+      expect(apiToken.update).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,88 @@
+/**
+ * Tests pour les groupes d'applications
+ *
+ * Teste le regroupement des applications en sections et le déplacement
+ * d'une application d'un groupe à l'autre (drag & drop)
+ */
+
+import { describe, it, expect } from 'vitest'
+import { groupApps, moveApp, getGroupDroppableId, parseGroupDroppableId } from '@/lib/app-groups'
+import { createTestApp } from '../setup/test-helpers'
+
+const APPS = [
+  createTestApp({ id: 'sonarr', group: 'Téléchargements' }),
+  createTestApp({ id: 'plex' }),
+  createTestApp({ id: 'grafana', group: 'Supervision' }),
+  createTestApp({ id: 'radarr', group: 'Téléchargements' }),
+]
+
+/**
+ * Résume des applications en [id, groupe]
+ */
+function summary(apps: ReturnType<typeof createTestApp>[] | null) {
+  return apps?.map((app) => [app.id, app.group ?? null])
+}
+
+describe('app-groups', () => {
+  describe('groupApps', () => {
+    it('devrait placer les applications sans groupe en tête puis les groupes par ordre d\'apparition', () => {
+      const groups = groupApps(APPS)
+
+      expect(groups.map((group) => [group.name, group.apps.map((app) => app.id)])).toEqual([
+        [null, ['plex']],
+        ['Téléchargements', ['sonarr', 'radarr']],
+        ['Supervision', ['grafana']],
+      ])
+    })
+
+    it('devrait considérer un groupe vide comme "sans groupe"', () => {
+      const groups = groupApps([createTestApp({ id: 'a', group: '  ' })])
+
+      expect(groups).toHaveLength(1)
+      expect(groups[0].name).toBeNull()
+    })
+  })
+
+  describe('moveApp', () => {
+    it('devrait réordonner dans un groupe comme arrayMove', () => {
+      expect(summary(moveApp(APPS, 'sonarr', 'radarr'))).toEqual([
+        ['plex', null],
+        ['grafana', 'Supervision'],
+        ['radarr', 'Téléchargements'],
+        ['sonarr', 'Téléchargements'],
+      ])
+    })
+
+    it('devrait changer le groupe d\'une application déposée sur une card d\'un autre groupe', () => {
+      expect(summary(moveApp(APPS, 'plex', 'grafana'))).toEqual([
+        ['sonarr', 'Téléchargements'],
+        ['grafana', 'Supervision'],
+        ['plex', 'Supervision'],
+        ['radarr', 'Téléchargements'],
+      ])
+    })
+
+    it('devrait placer l\'application à la fin du groupe déposé sur son en-tête', () => {
+      const moved = moveApp(APPS, 'grafana', getGroupDroppableId('Téléchargements'))
+
+      expect(summary(moved)).toEqual([
+        ['sonarr', 'Téléchargements'],
+        ['plex', null],
+        ['radarr', 'Téléchargements'],
+        ['grafana', 'Téléchargements'],
+      ])
+    })
+
+    it('devrait retirer l\'application de son groupe déposée dans la zone "sans groupe"', () => {
+      const moved = moveApp(APPS, 'radarr', getGroupDroppableId(null))
+
+      expect(moved?.find((app) => app.id === 'radarr')?.group).toBeUndefined()
+      expect(parseGroupDroppableId(getGroupDroppableId(null))).toBeNull()
+    })
+
+    it('devrait ignorer un dépôt hors d\'une application ou d\'un groupe', () => {
+      expect(moveApp(APPS, 'plex', 'widget_1')).toBeNull()
+      expect(moveApp(APPS, 'plex', 'plex')).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,68 @@
+/**
+ * Tests pour la vue publique des applications (secrets masqués)
+ */
+
+import { describe, it, expect } from 'vitest'
+import { getSecretsToReenter, toPublicApp, withoutMaskedSecrets } from '@/lib/app-secrets'
+import { createTestApp } from '../setup/test-helpers'
+
+describe('app-secrets', () => {
+  const app = {
+    ...createTestApp({
+      id: 'sonarr',
+      statsConfig: { templateId: 'sonarr', cardStat: { type: 'number', key: 'totalSeries' } },
+    }),
+    apiKey: '0123456789abcdef0123456789abcdef',
+  }
+
+  describe('toPublicApp', () => {
+    it('devrait masquer les secrets et les lister dans secretFields', () => {
+      const publicApp = toPublicApp(app)
+
+      expect(publicApp).toEqual({
+        ...app,
+        apiKey: '0123************************cdef',
+        secretFields: ['apiKey'],
+      })
+      // Seuls les champs de premier niveau sont des secrets
+      expect(publicApp.statsConfig?.cardStat?.key).toBe('totalSeries')
+    })
+
+    it('devrait retourner l\'application inchangée sans secret', () => {
+      const plain = createTestApp()
+
+      expect(toPublicApp(plain)).toEqual(plain)
+    })
+  })
+
+  describe('withoutMaskedSecrets', () => {
+    it('devrait conserver le secret enregistré quand l\'aperçu masqué est renvoyé', () => {
+      const { secretFields, ...body } = toPublicApp(app)
+
+      expect(secretFields).toEqual(['apiKey'])
+      expect(withoutMaskedSecrets({ ...body, secretFields }, app)).toEqual(
+        Object.fromEntries(Object.entries(body).filter(([key]) => key !== 'apiKey'))
+      )
+    })
+
+    it('devrait garder un nouveau secret saisi', () => {
+      expect(withoutMaskedSecrets({ apiKey: 'nouvelle-cle-api-1234' }, app)).toEqual({ apiKey: 'nouvelle-cle-api-1234' })
+    })
+
+    it('devrait retirer secretFields sans application enregistrée', () => {
+      expect(withoutMaskedSecrets({ name: 'Sonarr', secretFields: ['apiKey'] })).toEqual({ name: 'Sonarr' })
+    })
+  })
+
+  describe('getSecretsToReenter', () => {
+    it('ne devrait rien exiger si l\'URL est inchangée', () => {
+      expect(getSecretsToReenter({ url: app.url }, app)).toEqual([])
+    })
+
+    it('devrait exiger les secrets absents ou masqués pour une autre URL', () => {
+      expect(getSecretsToReenter({ url: 'http://autre.local' }, app)).toEqual(['apiKey'])
+      expect(getSecretsToReenter({ url: 'http://autre.local', apiKey: '0123************************cdef' } as any, app)).toEqual(['apiKey'])
+      expect(getSecretsToReenter({ url: 'http://autre.local', apiKey: 'nouvelle-cle' } as any, app)).toEqual([])
+    })
+  })
+})
@@ -0,0 +1,50 @@
+/**
+ * Tests pour les options TLS des applications
+ */
+
+import { describe, it, expect } from 'vitest'
+import { getPemCertificates, normalizeFingerprint, validateTlsConfig } from '@/lib/app-tls'
+import { TEST_CERTIFICATE, TEST_CERTIFICATE_FINGERPRINT } from '../setup/test-certificates'
+
+describe('app-tls', () => {
+  describe('normalizeFingerprint', () => {
+    it('devrait accepter les formats courants d\'une empreinte SHA-256', () => {
+      const hex = TEST_CERTIFICATE_FINGERPRINT.replace(/:/g, '')
+
+      expect(normalizeFingerprint(TEST_CERTIFICATE_FINGERPRINT)).toBe(TEST_CERTIFICATE_FINGERPRINT)
+      expect(normalizeFingerprint(hex.toLowerCase())).toBe(TEST_CERTIFICATE_FINGERPRINT)
+      expect(normalizeFingerprint(`sha256=${hex}`)).toBe(TEST_CERTIFICATE_FINGERPRINT)
+      expect(normalizeFingerprint(hex.match(/..../g)!.join(' '))).toBe(TEST_CERTIFICATE_FINGERPRINT)
+    })
+
+    it('devrait refuser une empreinte d\'une autre longueur', () => {
+      // Empreinte SHA-1 (20 octets)
+      expect(normalizeFingerprint(Array(20).fill('AB').join(':'))).toBeNull()
+      expect(normalizeFingerprint('pas une empreinte')).toBeNull()
+    })
+  })
+
+  describe('getPemCertificates', () => {
+    it('devrait extraire chaque certificat d\'un bundle', () => {
+      const certificate = TEST_CERTIFICATE.trim()
+
+      expect(getPemCertificates(`${certificate}\n${certificate}\n`)).toEqual([certificate, certificate])
+      expect(getPemCertificates('MIIDJzCCAg')).toEqual([])
+    })
+  })
+
+  describe('validateTlsConfig', () => {
+    it('devrait accepter des options valides ou absentes', () => {
+      expect(validateTlsConfig(undefined)).toBeNull()
+      expect(validateTlsConfig({})).toBeNull()
+      expect(validateTlsConfig({ ca: TEST_CERTIFICATE, fingerprint: TEST_CERTIFICATE_FINGERPRINT, skipVerify: false })).toBeNull()
+    })
+
+    it('devrait retourner une erreur pour une option invalide', () => {
+      expect(validateTlsConfig('oui')).toBe('tls doit être un objet')
+      expect(validateTlsConfig({ ca: 'MIIDJzCCAg' })).toMatch(/^tls\.ca/)
+      expect(validateTlsConfig({ fingerprint: 'AB:CD' })).toMatch(/^tls\.fingerprint/)
+      expect(validateTlsConfig({ skipVerify: 'true' })).toBe('tls.skipVerify doit être un booléen')
+    })
+  })
+})
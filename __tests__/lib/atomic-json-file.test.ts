@@ -0,0 +1,134 @@
+/**
+ * Tests pour l'écriture sûre des fichiers JSON
+ *
+ * Utilise un vrai dossier temporaire pour vérifier l'écriture atomique,
+ * la rotation des sauvegardes, la récupération après corruption
+ * et le verrouillage des écritures concurrentes
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+import {
+  withFileLock,
+  writeJsonWithBackup,
+  readJsonWithBackup,
+  getBackupPath,
+  MAX_BACKUPS,
+} from '@/lib/atomic-json-file'
+
+/**
+ * Validateur utilisé par les tests : les données doivent être un tableau
+ */
+function validateArray(data: unknown): number[] {
+  if (!Array.isArray(data)) {
+    throw new Error('Les données doivent être un tableau')
+  }
+  return data
+}
+
+describe('atomic-json-file', () => {
+  let tempDir: string
+  let filePath: string
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'xhell-dash-'))
+    filePath = path.join(tempDir, 'apps.json')
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+  })
+
+  afterEach(async () => {
+    vi.restoreAllMocks()
+    await fs.rm(tempDir, { recursive: true, force: true })
+  })
+
+  describe('writeJsonWithBackup', () => {
+    it('devrait écrire le fichier sans laisser de fichier temporaire', async () => {
+      await writeJsonWithBackup(filePath, [1, 2, 3])
+
+      expect(JSON.parse(await fs.readFile(filePath, 'utf-8'))).toEqual([1, 2, 3])
+      const files = await fs.readdir(tempDir)
+      expect(files.filter((file) => file.endsWith('.tmp'))).toEqual([])
+    })
+
+    it('devrait conserver au plus MAX_BACKUPS sauvegardes, de la plus récente à la plus ancienne', async () => {
+      for (let version = 1; version <= MAX_BACKUPS + 2; version++) {
+        await writeJsonWithBackup(filePath, [version])
+      }
+
+      expect(JSON.parse(await fs.readFile(getBackupPath(filePath, 1), 'utf-8'))).toEqual([MAX_BACKUPS + 1])
+      expect(JSON.parse(await fs.readFile(getBackupPath(filePath, MAX_BACKUPS), 'utf-8'))).toEqual([2])
+      await expect(fs.access(getBackupPath(filePath, MAX_BACKUPS + 1))).rejects.toThrow()
+    })
+
+    it('ne devrait pas sauvegarder un fichier principal corrompu', async () => {
+      await writeJsonWithBackup(filePath, [1])
+      await writeJsonWithBackup(filePath, [2])
+      await fs.writeFile(filePath, '{ tronqué', 'utf-8')
+
+      await writeJsonWithBackup(filePath, [3])
+
+      expect(JSON.parse(await fs.readFile(getBackupPath(filePath, 1), 'utf-8'))).toEqual([1])
+    })
+  })
+
+  describe('readJsonWithBackup', () => {
+    it('devrait retourner null si le fichier n\'existe pas', async () => {
+      expect(await readJsonWithBackup(filePath, validateArray)).toBeNull()
+    })
+
+    it('devrait utiliser la sauvegarde la plus récente si le fichier est corrompu', async () => {
+      await writeJsonWithBackup(filePath, [1])
+      await writeJsonWithBackup(filePath, [2])
+      await fs.writeFile(filePath, '[2, 3', 'utf-8')
+
+      expect(await readJsonWithBackup(filePath, validateArray)).toEqual([1])
+      expect(console.warn).toHaveBeenCalled()
+    })
+
+    it('devrait ignorer une sauvegarde qui ne passe pas la validation', async () => {
+      await fs.writeFile(filePath, '{ "pas": "un tableau" }', 'utf-8')
+      await fs.writeFile(getBackupPath(filePath, 1), '{}', 'utf-8')
+      await fs.writeFile(getBackupPath(filePath, 2), '[42]', 'utf-8')
+
+      expect(await readJsonWithBackup(filePath, validateArray)).toEqual([42])
+    })
+
+    it('devrait lever l\'erreur d\'origine si aucune sauvegarde n\'est exploitable', async () => {
+      await fs.writeFile(filePath, 'corrompu', 'utf-8')
+
+      await expect(readJsonWithBackup(filePath, validateArray)).rejects.toThrow(SyntaxError)
+    })
+  })
+
+  describe('withFileLock', () => {
+    it('ne devrait perdre aucune modification lors d\'écritures concurrentes', async () => {
+      await writeJsonWithBackup(filePath, [])
+
+      // 10 cycles lecture-modification-écriture lancés en parallèle
+      await Promise.all(
+        Array.from({ length: 10 }, (_, index) =>
+          withFileLock(filePath, async () => {
+            const items = (await readJsonWithBackup(filePath, validateArray)) ?? []
+            await new Promise((resolve) => setTimeout(resolve, 1))
+            await writeJsonWithBackup(filePath, [...items, index])
+          })
+        )
+      )
+
+      const items = await readJsonWithBackup(filePath, validateArray)
+      expect(items).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8, 9])
+    })
+
+    it('ne devrait pas bloquer les opérations suivantes après un échec', async () => {
+      const failing = withFileLock(filePath, async () => {
+        throw new Error('échec')
+      })
+      const next = withFileLock(filePath, async () => 'ok')
+
+      await expect(failing).rejects.toThrow('échec')
+      expect(await next).toBe('ok')
+    })
+  })
+})
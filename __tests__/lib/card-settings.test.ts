@@ -0,0 +1,135 @@
+/**
+ * Tests pour les paramètres déclarés par les cartes
+ *
+ * Teste la validation, la lecture typée des valeurs et le chiffrement
+ * des champs secrets
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import {
+  defineCardSettings,
+  getCardSettings,
+  getSecretSettingKeys,
+  settingField,
+  validateCardSettings,
+} from '@/lib/card-settings'
+import { cardRegistry } from '@/lib/card-registry'
+import { decryptSensitiveFields, encryptSensitiveFields } from '@/lib/encryption'
+import type { StatsTemplate } from '@/lib/stats-templates'
+
+/**
+ * Paramètres utilisant tous les types de champs
+ */
+const settings = defineCardSettings({
+  serverUrl: settingField.url({ label: 'URL du serveur' }),
+  pin: settingField.secret({ label: 'Code PIN', required: true }),
+  login: settingField.text({ label: 'Identifiant' }),
+  config: settingField.textarea({ label: 'Configuration' }),
+  pageSize: settingField.number({ label: 'Éléments par page', min: 1, max: 100 }),
+  mode: settingField.select({
+    label: 'Mode',
+    options: [
+      { value: 'local', label: 'Local' },
+      { value: 'cloud', label: 'Cloud' },
+    ],
+  }),
+})
+
+describe('card-settings', () => {
+  describe('validateCardSettings', () => {
+    it('devrait accepter des valeurs valides', () => {
+      expect(validateCardSettings(settings, {
+        serverUrl: 'https://serveur.local:8443',
+        pin: '1234',
+        login: 'admin',
+        config: 'a: 1\nb: 2',
+        pageSize: 20,
+        mode: 'cloud',
+      })).toBeNull()
+    })
+
+    it('devrait exiger les champs obligatoires sauf en mise à jour partielle', () => {
+      expect(validateCardSettings(settings, {})).toBe('Code PIN est obligatoire')
+      expect(validateCardSettings(settings, { pin: '' })).toBe('Code PIN est obligatoire')
+      expect(validateCardSettings(settings, {}, { partial: true })).toBeNull()
+    })
+
+    it('devrait retourner une erreur avec le libellé du champ invalide', () => {
+      expect(validateCardSettings(settings, { pin: '1', serverUrl: 'ftp://serveur' }))
+        .toBe('URL du serveur : URL http(s) invalide')
+      expect(validateCardSettings(settings, { pin: '1', pageSize: 0 }))
+        .toBe('Éléments par page : doit être supérieur ou égal à 1')
+      expect(validateCardSettings(settings, { pin: '1', pageSize: '20' }))
+        .toBe('Éléments par page : nombre attendu')
+      expect(validateCardSettings(settings, { pin: '1', mode: 'autre' }))
+        .toBe('Mode : valeur attendue parmi : local, cloud')
+      expect(validateCardSettings(settings, { pin: 1234 }, { partial: true }))
+        .toBe('Code PIN : texte attendu')
+    })
+
+    it('devrait ignorer les champs non déclarés', () => {
+      expect(validateCardSettings(settings, { pin: '1', name: 42, apiKey: false })).toBeNull()
+    })
+  })
+
+  describe('getCardSettings', () => {
+    it('devrait retourner uniquement les champs déclarés et renseignés', () => {
+      const app = { id: 'app1', name: 'App', pin: '1234', login: '', pageSize: 10 }
+
+      expect(getCardSettings(settings, app)).toEqual({ pin: '1234', pageSize: 10 })
+    })
+  })
+
+  describe('getSecretSettingKeys', () => {
+    it('devrait retourner les champs de type secret', () => {
+      expect(getSecretSettingKeys(settings)).toEqual(['pin'])
+      expect(getSecretSettingKeys(undefined)).toEqual([])
+    })
+  })
+
+  describe('chiffrement des champs secrets', () => {
+    const originalEncryptionKey = process.env.ENCRYPTION_KEY
+
+    beforeEach(() => {
+      process.env.ENCRYPTION_KEY = '0123456789abcdef0123456789abcdef0123456789abcdef0123456789abcdef'
+      if (!cardRegistry.has('secrets-test')) {
+        cardRegistry.register({
+          id: 'secrets-test',
+          name: 'Secrets',
+          description: 'Carte de test',
+          template: { id: 'secrets-test', name: 'Secrets', description: '' } as StatsTemplate,
+          settings,
+        })
+      }
+    })
+
+    afterEach(() => {
+      if (originalEncryptionKey) {
+        process.env.ENCRYPTION_KEY = originalEncryptionKey
+      } else {
+        delete process.env.ENCRYPTION_KEY
+      }
+    })
+
+    it('devrait chiffrer les champs secrets déclarés par la carte de l\'application', () => {
+      const app = { id: 'app1', pin: '1234', login: 'admin', statsConfig: { templateId: 'secrets-test' } }
+
+      const encrypted = encryptSensitiveFields(app)
+
+      expect(encrypted.pin).toMatch(/^encrypted:/)
+      expect(encrypted.login).toBe('admin')
+      expect(decryptSensitiveFields(encrypted)).toEqual(app)
+    })
+
+    it('ne devrait pas chiffrer ces champs pour une autre carte', () => {
+      const app = { id: 'app1', pin: '1234', statsConfig: { templateId: 'generic' } }
+
+      expect(encryptSensitiveFields(app).pin).toBe('1234')
+    })
+
+    it('devrait connaître les secrets des cartes intégrées', () => {
+      expect(cardRegistry.getSecretSettingKeys('proxmox')).toEqual(['token', 'password'])
+      expect(cardRegistry.getSecretSettingKeys('kubernetes')).toEqual(['token'])
+    })
+  })
+})
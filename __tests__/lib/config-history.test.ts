@@ -0,0 +1,262 @@
+/**
+ * Tests pour l'historique des modifications du dashboard
+ *
+ * Teste le calcul des diffs entre deux états, l'enregistrement des révisions
+ * lors des écritures et le retour à une révision
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { prisma } from '@/lib/prisma'
+import { getDataStore } from '@/lib/data-store'
+import { diffSnapshots, listRevisions, MASKED_SECRET, type DashboardSnapshot } from '@/lib/config-history'
+import { saveApp, saveDashboard, rollbackToRevision } from '@/lib/db'
+import { encryptValue } from '@/lib/encryption'
+import { createTestApp, createTestConfig, createTestWidget } from '../setup/test-helpers'
+
+// Mock de Prisma avec la table des révisions
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    configRevision: {
+      create: vi.fn(),
+      findMany: vi.fn(),
+      findUnique: vi.fn(),
+      deleteMany: vi.fn(),
+    },
+  },
+}))
+
+// Mock du store de données
+vi.mock('@/lib/data-store', () => ({
+  getDataStore: vi.fn(),
+}))
+
+/**
+ * Crée un état du dashboard pour les tests
+ */
+function snapshot(overrides?: Partial<DashboardSnapshot>): DashboardSnapshot {
+  return { apps: [], widgets: [], config: createTestConfig(), ...overrides }
+}
+
+/**
+ * Crée un store en mémoire qui applique réellement les écritures
+ */
+function createMemoryStore(initial: DashboardSnapshot) {
+  const state = structuredClone(initial)
+  return {
+    state,
+    readDashboards: vi.fn(async () => structuredClone(state.dashboards ?? [])),
+    readApps: vi.fn(async () => structuredClone(state.apps)),
+    readWidgets: vi.fn(async () => structuredClone(state.widgets)),
+    readConfig: vi.fn(async () => structuredClone(state.config)),
+    saveDashboard: vi.fn(async (dashboard) => {
+      state.dashboards = [...(state.dashboards ?? []).filter((d) => d.id !== dashboard.id), dashboard]
+    }),
+    deleteDashboard: vi.fn(async (id) => {
+      state.dashboards = (state.dashboards ?? []).filter((d) => d.id !== id)
+    }),
+    saveApp: vi.fn(async (app) => {
+      state.apps = [...state.apps.filter((a) => a.id !== app.id), app]
+    }),
+    writeApps: vi.fn(async (apps) => {
+      state.apps = apps
+    }),
+    writeWidgets: vi.fn(async (widgets) => {
+      state.widgets = widgets
+    }),
+    writeConfig: vi.fn(async (config) => {
+      state.config = config
+    }),
+    replaceAll: vi.fn(async (data) => {
+      Object.assign(state, structuredClone(data))
+    }),
+  }
+}
+
+describe('config-history', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(prisma.configRevision.findMany).mockResolvedValue([])
+  })
+
+  describe('diffSnapshots', () => {
+    it('devrait détecter les champs modifiés, y compris imbriqués', () => {
+      const before = snapshot({
+        apps: [createTestApp({ id: 'app1', name: 'Sonarr', statsConfig: { templateId: 'sonarr', refreshInterval: 60000 } })],
+      })
+      const after = snapshot({
+        apps: [createTestApp({ id: 'app1', name: 'Sonarr', statsConfig: { templateId: 'radarr', refreshInterval: 60000 } })],
+        config: createTestConfig({ theme: 'violet' }),
+      })
+
+      const changes = diffSnapshots(before, after)
+
+      expect(changes).toEqual([
+        {
+          scope: 'apps',
+          itemId: 'app1',
+          itemLabel: 'Sonarr',
+          type: 'modified',
+          path: 'statsConfig.templateId',
+          before: 'sonarr',
+          after: 'radarr',
+        },
+        { scope: 'config', type: 'modified', path: 'theme', before: 'default', after: 'violet' },
+      ])
+    })
+
+    it('devrait détecter les ajouts et suppressions d\'éléments', () => {
+      const before = snapshot({ widgets: [createTestWidget({ id: 'w1', type: 'clock' })] })
+      const after = snapshot({ widgets: [createTestWidget({ id: 'w2', type: 'weather' })] })
+
+      const changes = diffSnapshots(before, after)
+
+      expect(changes).toEqual([
+        { scope: 'widgets', itemId: 'w2', itemLabel: 'weather', type: 'added' },
+        { scope: 'widgets', itemId: 'w1', itemLabel: 'clock', type: 'removed' },
+      ])
+    })
+
+    it('ne devrait pas signaler un secret rechiffré sans changement', () => {
+      const before = snapshot({ apps: [createTestApp({ id: 'app1', apiKey: encryptValue('secret') } as any)] })
+      const after = snapshot({ apps: [createTestApp({ id: 'app1', apiKey: encryptValue('secret') } as any)] })
+
+      expect(diffSnapshots(before, after)).toEqual([])
+    })
+
+    it('devrait masquer les secrets modifiés', () => {
+      const before = snapshot({ apps: [createTestApp({ id: 'app1', apiKey: encryptValue('ancien') } as any)] })
+      const after = snapshot({ apps: [createTestApp({ id: 'app1', apiKey: encryptValue('nouveau') } as any)] })
+
+      const [change] = diffSnapshots(before, after)
+
+      expect(change).toMatchObject({ path: 'apiKey', before: MASKED_SECRET, after: MASKED_SECRET })
+    })
+  })
+
+  describe('écritures via lib/db', () => {
+    it('devrait enregistrer une révision avec l\'auteur et les modifications', async () => {
+      const store = createMemoryStore(snapshot({ apps: [createTestApp({ id: 'app1', name: 'Plex', url: 'http://a' })] }))
+      vi.mocked(getDataStore).mockResolvedValue(store as any)
+
+      await saveApp(createTestApp({ id: 'app1', name: 'Plex', url: 'http://b' }), 'admin@example.com')
+
+      expect(prisma.configRevision.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          author: 'admin@example.com',
+          summary: 'Application « Plex » enregistrée',
+          changes: [expect.objectContaining({ path: 'url', before: 'http://a', after: 'http://b' })],
+        }),
+      })
+    })
+
+    it('ne devrait pas enregistrer de révision si rien n\'a changé', async () => {
+      const app = createTestApp({ id: 'app1' })
+      const store = createMemoryStore(snapshot({ apps: [app] }))
+      vi.mocked(getDataStore).mockResolvedValue(store as any)
+
+      await saveApp(app)
+
+      expect(prisma.configRevision.create).not.toHaveBeenCalled()
+    })
+
+    it('devrait sérialiser les modifications simultanées', async () => {
+      const store = createMemoryStore(snapshot())
+      vi.mocked(getDataStore).mockResolvedValue(store as any)
+
+      await Promise.all([
+        saveApp(createTestApp({ id: 'app1', name: 'Plex' })),
+        saveApp(createTestApp({ id: 'app2', name: 'Sonarr' })),
+      ])
+
+      // Chaque révision ne contient que son application
+      const revisions = vi.mocked(prisma.configRevision.create).mock.calls.map(([{ data }]: any) => data)
+      expect(revisions.map((data: any) => data.changes.map((change: any) => change.itemId))).toEqual([['app1'], ['app2']])
+      expect(revisions[1].snapshot.apps.map((app: any) => app.id)).toEqual(['app1', 'app2'])
+    })
+
+    it('devrait restaurer l\'état d\'une révision et enregistrer le retour arrière', async () => {
+      const store = createMemoryStore(snapshot({ apps: [createTestApp({ id: 'app2' })] }))
+      vi.mocked(getDataStore).mockResolvedValue(store as any)
+      vi.mocked(prisma.configRevision.findUnique).mockResolvedValue({
+        snapshot: snapshot({ apps: [createTestApp({ id: 'app1' })], config: null }),
+      } as any)
+
+      const restored = await rollbackToRevision(3, 'admin@example.com')
+
+      expect(restored).toBe(true)
+      expect(store.state.apps.map((app) => app.id)).toEqual(['app1'])
+      expect(store.state.config).toMatchObject({ backgroundEffect: 'mesh-animated' })
+      expect(prisma.configRevision.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ summary: 'Retour à la révision #3' }),
+      })
+    })
+
+    it('devrait enregistrer et restaurer les tableaux de bord', async () => {
+      const infra = { id: 'infra', slug: 'infra', name: 'Infra', order: 1 }
+      const store = createMemoryStore(snapshot({ dashboards: [infra] }))
+      vi.mocked(getDataStore).mockResolvedValue(store as any)
+
+      await saveDashboard({ ...infra, name: 'Serveurs' }, 'admin@example.com')
+
+      expect(prisma.configRevision.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          summary: 'Tableau de bord « Serveurs » enregistré',
+          changes: [{ scope: 'dashboards', itemId: 'infra', itemLabel: 'Serveurs', type: 'modified', path: 'name', before: 'Infra', after: 'Serveurs' }],
+        }),
+      })
+
+      store.state.dashboards!.push({ id: 'media', slug: 'media', name: 'Média', order: 2 })
+      vi.mocked(prisma.configRevision.findUnique).mockResolvedValue({ snapshot: snapshot({ dashboards: [infra] }) } as any)
+
+      await rollbackToRevision(3)
+
+      expect(store.state.dashboards).toEqual([infra])
+    })
+
+    it('devrait retourner false si la révision n\'existe pas', async () => {
+      vi.mocked(prisma.configRevision.findUnique).mockResolvedValue(null)
+
+      expect(await rollbackToRevision(42)).toBe(false)
+    })
+
+    it('devrait restaurer toutes les données d\'un seul bloc', async () => {
+      const store = createMemoryStore(snapshot({ apps: [createTestApp({ id: 'app2' })] }))
+      store.replaceAll.mockRejectedValue(new Error('Disque plein'))
+      vi.mocked(getDataStore).mockResolvedValue(store as any)
+      vi.mocked(prisma.configRevision.findUnique).mockResolvedValue({
+        snapshot: snapshot({ apps: [createTestApp({ id: 'app1' })], widgets: [createTestWidget({ id: 'w1' })] }),
+      } as any)
+
+      await expect(rollbackToRevision(3)).rejects.toThrow('Disque plein')
+
+      expect(store.replaceAll).toHaveBeenCalledTimes(1)
+      expect(store.writeApps).not.toHaveBeenCalled()
+      expect(store.writeWidgets).not.toHaveBeenCalled()
+      expect(store.state.apps.map((app) => app.id)).toEqual(['app2'])
+      expect(prisma.configRevision.create).not.toHaveBeenCalled()
+    })
+
+    it('devrait refuser un état de révision illisible sans rien modifier', async () => {
+      const store = createMemoryStore(snapshot({ apps: [createTestApp({ id: 'app2' })] }))
+      vi.mocked(getDataStore).mockResolvedValue(store as any)
+      vi.mocked(prisma.configRevision.findUnique).mockResolvedValue({ snapshot: { apps: 'app1' } } as any)
+
+      await expect(rollbackToRevision(3)).rejects.toThrow('État de la révision #3 illisible')
+      expect(store.state.apps.map((app) => app.id)).toEqual(['app2'])
+    })
+  })
+
+  describe('listRevisions', () => {
+    it('devrait ignorer une liste de modifications illisible', async () => {
+      const revision = { id: 1, createdAt: new Date(0), author: null, summary: 'Application « Plex » ajoutée' }
+      vi.mocked(prisma.configRevision.findMany).mockResolvedValue([
+        { ...revision, changes: [{ scope: 'apps', itemId: 'app1', type: 'added' }] },
+        { ...revision, id: 2, changes: 'corrompu' },
+      ] as any)
+
+      const revisions = await listRevisions()
+
+      expect(revisions.map((entry) => entry.changes)).toEqual([[{ scope: 'apps', itemId: 'app1', type: 'added' }], []])
+    })
+  })
+})
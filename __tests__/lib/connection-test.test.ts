@@ -0,0 +1,152 @@
+/**
+ * Tests pour le test de connexion d'une application
+ *
+ * Exécute le handler et le hook de la carte Sonarr contre un serveur HTTP
+ * local qui imite l'API Sonarr
+ */
+
+import http from 'http'
+import net from 'net'
+import dns from 'dns/promises'
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { testAppConnection } from '@/lib/connection-test'
+import { readApps, withUnsavedApp } from '@/lib/db'
+import type { CardDefinition } from '@/lib/card-registry'
+import { testSonarrConnection } from '@/cards/sonarr/connection'
+import { createTestApp } from '../setup/test-helpers'
+
+// Mock de la base de données : l'application testée est la seule lue
+vi.mock('@/lib/db', () => ({
+  readApps: vi.fn(),
+  withUnsavedApp: vi.fn(),
+}))
+
+// Mock de la résolution DNS
+vi.mock('dns/promises', () => ({
+  default: { lookup: vi.fn() },
+}))
+
+const API_KEY = 'cle-sonarr'
+
+/**
+ * Carte Sonarr réduite aux champs utilisés par le diagnostic
+ */
+const sonarrCard = {
+  id: 'sonarr',
+  name: 'Sonarr',
+  testConnection: testSonarrConnection,
+} as CardDefinition
+
+describe('connection-test', () => {
+  let server: http.Server
+  let baseUrl: string
+
+  beforeEach(async () => {
+    vi.clearAllMocks()
+    vi.mocked(withUnsavedApp).mockImplementation(async (app, fn) => {
+      vi.mocked(readApps).mockResolvedValue([app])
+      return fn()
+    })
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+
+    server = http.createServer((request, response) => {
+      response.setHeader('Content-Type', 'application/json')
+      if (request.headers['x-api-key'] !== API_KEY) {
+        response.statusCode = 401
+        response.end(JSON.stringify({ error: 'Unauthorized' }))
+        return
+      }
+      const path = request.url?.split('?')[0]
+      if (path === '/api/v3/system/status') {
+        response.end(JSON.stringify({ version: '4.0.8.1874', instanceName: 'Sonarr' }))
+      } else if (path === '/api/v3/series') {
+        response.end(JSON.stringify([{ statistics: { episodeCount: 10 } }, { statistics: { episodeCount: 5 } }]))
+      } else if (path === '/api/v3/queue') {
+        response.end(JSON.stringify({ records: [{ status: 'failed' }] }))
+      } else {
+        response.end('[]')
+      }
+    })
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+    baseUrl = `http://127.0.0.1:${(server.address() as net.AddressInfo).port}`
+  })
+
+  afterEach(async () => {
+    vi.restoreAllMocks()
+    server.closeAllConnections()
+    await new Promise((resolve) => server.close(resolve))
+  })
+
+  /**
+   * Application Sonarr pointant vers le serveur de test
+   */
+  function sonarrApp(apiKey = API_KEY) {
+    return createTestApp({
+      id: 'test-connection',
+      url: baseUrl,
+      statsConfig: { templateId: 'sonarr' },
+      apiKey,
+    } as any)
+  }
+
+  it('devrait réussir toutes les étapes avec des identifiants valides', async () => {
+    const result = await testAppConnection(sonarrApp(), sonarrCard)
+
+    expect(result.ok).toBe(true)
+    expect(result.steps.map((step) => [step.id, step.status])).toEqual([
+      ['dns', 'ok'],
+      ['connection', 'ok'],
+      ['auth', 'ok'],
+      ['version', 'ok'],
+      ['stats', 'ok'],
+    ])
+    expect(result.version).toBe('4.0.8.1874')
+    expect(result.sample).toMatchObject({ totalSeries: 2, totalEpisodes: 15, queueFailed: 1 })
+    expect(withUnsavedApp).toHaveBeenCalledWith(expect.objectContaining({ id: 'test-connection' }), expect.any(Function))
+  })
+
+  it('devrait signaler des identifiants refusés sans collecter les statistiques', async () => {
+    const result = await testAppConnection(sonarrApp('mauvaise-cle'), sonarrCard)
+
+    expect(result.ok).toBe(false)
+    expect(result.steps.find((step) => step.id === 'auth')).toMatchObject({
+      status: 'error',
+      message: 'Identifiants refusés (Erreur API Sonarr: 401)',
+    })
+    expect(result.steps.find((step) => step.id === 'stats')?.status).toBe('skipped')
+    expect(withUnsavedApp).not.toHaveBeenCalled()
+  })
+
+  it('devrait déduire l\'authentification des statistiques sans hook', async () => {
+    const card = { ...sonarrCard, testConnection: undefined }
+
+    const result = await testAppConnection(sonarrApp('mauvaise-cle'), card)
+
+    expect(result.steps.find((step) => step.id === 'auth')?.status).toBe('error')
+    expect(result.steps.find((step) => step.id === 'version')?.status).toBe('skipped')
+    expect(result.steps.find((step) => step.id === 'stats')).toMatchObject({
+      status: 'error',
+      message: 'Erreur API Sonarr: 401',
+    })
+  })
+
+  it('devrait s\'arrêter si le serveur est injoignable', async () => {
+    const result = await testAppConnection({ ...sonarrApp(), url: 'http://127.0.0.1:1' }, sonarrCard)
+
+    expect(result.steps.find((step) => step.id === 'connection')?.status).toBe('error')
+    expect(result.steps.filter((step) => step.status === 'skipped').map((step) => step.id)).toEqual([
+      'auth',
+      'version',
+      'stats',
+    ])
+  })
+
+  it('devrait signaler un nom d\'hôte introuvable', async () => {
+    vi.mocked(dns.lookup).mockRejectedValue(Object.assign(new Error('getaddrinfo ENOTFOUND'), { code: 'ENOTFOUND' }))
+
+    const result = await testAppConnection({ ...sonarrApp(), url: 'http://sonarr.invalid' }, sonarrCard)
+
+    expect(result.steps[0]).toMatchObject({ id: 'dns', status: 'error', message: 'Impossible de résoudre sonarr.invalid (ENOTFOUND)' })
+    expect(result.steps.slice(1).every((step) => step.status === 'skipped')).toBe(true)
+  })
+})
@@ -0,0 +1,305 @@
+/**
+ * Tests pour la vérification de disponibilité des applications
+ *
+ * Teste la configuration par défaut, les vérifications HTTP et TCP,
+ * la sélection des applications à vérifier et l'historique
+ */
+
+import net from 'net'
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import {
+  getHealthCheckConfig,
+  validateHealthCheckConfig,
+  runHealthCheck,
+  checkAppHealth,
+  checkDueApps,
+  getHealthResults,
+  getHealthHistory,
+  stopHealthChecks,
+  type ResolvedHealthCheck,
+} from '@/lib/health-checks'
+import { prisma } from '@/lib/prisma'
+import { readApps } from '@/lib/db'
+import { publishEvent } from '@/lib/events'
+import { evaluateAlerts } from '@/lib/alerts'
+import { createTestApp } from '../setup/test-helpers'
+
+// Mock de Prisma avec la table de l'historique
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    healthCheck: {
+      create: vi.fn(),
+      findMany: vi.fn(),
+      deleteMany: vi.fn(),
+    },
+  },
+}))
+
+// Mock de la base de données
+vi.mock('@/lib/db', () => ({
+  readApps: vi.fn(),
+}))
+
+// Mock du bus d'événements temps réel
+vi.mock('@/lib/events', () => ({
+  publishEvent: vi.fn(),
+}))
+
+// Mock de l'évaluation des règles d'alerte
+vi.mock('@/lib/alerts', () => ({
+  evaluateAlerts: vi.fn(),
+}))
+
+/**
+ * Configuration HTTP résolue pour http://app.local
+ */
+function httpConfig(overrides: Partial<ResolvedHealthCheck> = {}): ResolvedHealthCheck {
+  return {
+    type: 'http',
+    url: 'http://app.local/',
+    host: 'app.local',
+    port: 80,
+    expectedStatus: null,
+    keyword: null,
+    checkTls: false,
+    tlsExpiryDays: 14,
+    interval: 60000,
+    timeout: 1000,
+    ...overrides,
+  }
+}
+
+/**
+ * Démarre un serveur TCP local sur un port libre
+ */
+async function startTcpServer(): Promise<net.Server> {
+  const server = net.createServer((socket) => socket.end())
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+  return server
+}
+
+describe('health-checks', () => {
+  const app = createTestApp({ id: 'app1', url: 'http://app.local' })
+  const fetchMock = vi.fn()
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.stubGlobal('fetch', fetchMock)
+    vi.mocked(readApps).mockResolvedValue([app])
+    vi.mocked(prisma.healthCheck.create).mockResolvedValue({} as any)
+    vi.mocked(evaluateAlerts).mockResolvedValue()
+    fetchMock.mockResolvedValue(new Response('OK', { status: 200 }))
+  })
+
+  afterEach(() => {
+    stopHealthChecks()
+    vi.unstubAllGlobals()
+  })
+
+  describe('getHealthCheckConfig', () => {
+    it('devrait vérifier l\'URL de l\'application en HTTP par défaut', () => {
+      const config = getHealthCheckConfig(createTestApp({ url: 'https://plex.local:32400' }))
+
+      expect(config).toMatchObject({
+        type: 'http',
+        url: 'https://plex.local:32400/',
+        host: 'plex.local',
+        port: 32400,
+        checkTls: true,
+        interval: 60000,
+      })
+    })
+
+    it('devrait retourner null si la vérification est désactivée', () => {
+      expect(getHealthCheckConfig(createTestApp({ healthCheck: { enabled: false } }))).toBeNull()
+    })
+
+    it('devrait utiliser l\'hôte de l\'URL et le port indiqué en TCP', () => {
+      const config = getHealthCheckConfig(
+        createTestApp({ url: 'http://nas.local', healthCheck: { type: 'tcp', port: 22 } })
+      )
+
+      expect(config).toMatchObject({ type: 'tcp', host: 'nas.local', port: 22, checkTls: false })
+    })
+  })
+
+  describe('validateHealthCheckConfig', () => {
+    it('devrait accepter une configuration absente ou valide', () => {
+      expect(validateHealthCheckConfig(undefined)).toBeNull()
+      expect(validateHealthCheckConfig({ type: 'tcp', port: 5432 })).toBeNull()
+    })
+
+    it('devrait refuser un type, un port ou une URL invalides', () => {
+      expect(validateHealthCheckConfig({ type: 'icmp' })).not.toBeNull()
+      expect(validateHealthCheckConfig({ port: 70000 })).not.toBeNull()
+      expect(validateHealthCheckConfig({ url: 'pas une url' })).not.toBeNull()
+      expect(validateHealthCheckConfig({ expectedStatus: 200 })).not.toBeNull()
+    })
+  })
+
+  describe('runHealthCheck HTTP', () => {
+    it('devrait retourner up avec le code et le temps de réponse', async () => {
+      const result = await runHealthCheck(app, httpConfig())
+
+      expect(result).toMatchObject({ appId: 'app1', type: 'http', status: 'up', statusCode: 200, error: null })
+      expect(result.latency).toEqual(expect.any(Number))
+    })
+
+    it('devrait retourner down pour un code inattendu', async () => {
+      fetchMock.mockResolvedValue(new Response('Erreur', { status: 503 }))
+
+      const result = await runHealthCheck(app, httpConfig())
+
+      expect(result.status).toBe('down')
+      expect(result.error).toBe('HTTP 503')
+    })
+
+    it('devrait accepter les codes configurés', async () => {
+      fetchMock.mockResolvedValue(new Response(null, { status: 401 }))
+
+      const result = await runHealthCheck(app, httpConfig({ expectedStatus: [200, 401] }))
+
+      expect(result.status).toBe('up')
+    })
+
+    it('devrait retourner down si le mot-clé est absent de la réponse', async () => {
+      fetchMock.mockResolvedValue(new Response('<title>Maintenance</title>', { status: 200 }))
+
+      const result = await runHealthCheck(app, httpConfig({ keyword: 'Dashboard' }))
+
+      expect(result.status).toBe('down')
+      expect(result.error).toBe('Mot-clé "Dashboard" absent de la réponse')
+    })
+
+    it('devrait retourner la cause d\'une erreur réseau', async () => {
+      fetchMock.mockRejectedValue(new TypeError('fetch failed', { cause: new Error('connect ECONNREFUSED') }))
+
+      const result = await runHealthCheck(app, httpConfig())
+
+      expect(result).toMatchObject({ status: 'down', latency: null, error: 'connect ECONNREFUSED' })
+    })
+  })
+
+  describe('runHealthCheck TCP', () => {
+    it('devrait retourner up quand le port accepte la connexion', async () => {
+      const server = await startTcpServer()
+      const { port } = server.address() as net.AddressInfo
+
+      const result = await runHealthCheck(app, httpConfig({ type: 'tcp', host: '127.0.0.1', port }))
+      server.close()
+
+      expect(result.status).toBe('up')
+      expect(result.latency).toEqual(expect.any(Number))
+    })
+
+    it('devrait retourner down quand le port est fermé', async () => {
+      const server = await startTcpServer()
+      const { port } = server.address() as net.AddressInfo
+      await new Promise((resolve) => server.close(resolve))
+
+      const result = await runHealthCheck(app, httpConfig({ type: 'tcp', host: '127.0.0.1', port }))
+
+      expect(result.status).toBe('down')
+      expect(result.error).toContain('ECONNREFUSED')
+    })
+  })
+
+  describe('checkAppHealth', () => {
+    it('devrait enregistrer le résultat et le transmettre aux clients', async () => {
+      const result = await checkAppHealth(app)
+
+      expect(prisma.healthCheck.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ appId: 'app1', status: 'up', statusCode: 200 }),
+      })
+      expect(publishEvent).toHaveBeenCalledWith({ type: 'health', result })
+      expect(getHealthResults()).toEqual([result])
+    })
+
+    it('devrait partager une vérification entre les appels simultanés', async () => {
+      await Promise.all([checkAppHealth(app), checkAppHealth(app)])
+
+      expect(fetchMock).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  describe('checkDueApps', () => {
+    it('devrait vérifier les applications même sans template de statistiques', async () => {
+      vi.mocked(readApps).mockResolvedValue([
+        app,
+        createTestApp({ id: 'app2', url: 'http://other.local' }),
+        createTestApp({ id: 'off', healthCheck: { enabled: false } }),
+      ])
+
+      await checkDueApps()
+
+      expect(fetchMock).toHaveBeenCalledTimes(2)
+      expect(getHealthResults().map((result) => result.appId).sort()).toEqual(['app1', 'app2'])
+    })
+
+    it('ne devrait pas revérifier une application avant son intervalle', async () => {
+      await checkDueApps()
+      await checkDueApps()
+
+      expect(fetchMock).toHaveBeenCalledTimes(1)
+    })
+
+    it('devrait revérifier une application dont la configuration a changé', async () => {
+      await checkDueApps()
+      vi.mocked(readApps).mockResolvedValue([{ ...app, healthCheck: { keyword: 'OK' } }])
+      await checkDueApps()
+
+      expect(fetchMock).toHaveBeenCalledTimes(2)
+    })
+
+    it('devrait oublier les applications supprimées', async () => {
+      await checkDueApps()
+      vi.mocked(readApps).mockResolvedValue([])
+      await checkDueApps()
+
+      expect(getHealthResults()).toEqual([])
+    })
+
+    it('devrait partager les résultats entre les copies du module', async () => {
+      await checkDueApps()
+
+      // Next.js charge le module dans plusieurs bundles : le planificateur de
+      // instrumentation.ts vérifie les apps, les routes lisent les résultats
+      vi.resetModules()
+      const copy = await import('@/lib/health-checks')
+
+      expect(copy.getHealthResult('app1')).toEqual(getHealthResults()[0])
+      expect(copy.getHealthResult('app1')?.status).toBe('up')
+    })
+  })
+
+  describe('getHealthHistory', () => {
+    it('devrait calculer la disponibilité sur la période', async () => {
+      const now = Date.UTC(2026, 0, 31, 12)
+      vi.mocked(prisma.healthCheck.findMany).mockResolvedValue([
+        { id: 1, appId: 'app1', status: 'up', latency: 20, statusCode: 200, error: null, checkedAt: new Date(now - 3000) },
+        { id: 2, appId: 'app1', status: 'degraded', latency: 25, statusCode: 200, error: null, checkedAt: new Date(now - 2000) },
+        { id: 3, appId: 'app1', status: 'down', latency: null, statusCode: null, error: 'HTTP 502', checkedAt: new Date(now - 1000) },
+      ] as any)
+
+      const history = await getHealthHistory('app1', 60000, now)
+
+      expect(history.uptime).toBe(66.67)
+      expect(history.checks[2]).toEqual({
+        checkedAt: new Date(now - 1000).toISOString(),
+        status: 'down',
+        latency: null,
+        error: 'HTTP 502',
+      })
+      expect(prisma.healthCheck.findMany).toHaveBeenCalledWith({
+        where: { appId: 'app1', checkedAt: { gte: new Date(now - 60000) } },
+        orderBy: { checkedAt: 'asc' },
+      })
+    })
+
+    it('devrait retourner une disponibilité nulle sans vérification', async () => {
+      vi.mocked(prisma.healthCheck.findMany).mockResolvedValue([])
+
+      expect((await getHealthHistory('app1', 60000)).uptime).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,146 @@
+/**
+ * Tests pour la lecture des fichiers kubeconfig
+ */
+
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { resolveKubeconfig } from '@/lib/kubeconfig'
+import { TEST_CERTIFICATE, TEST_PRIVATE_KEY } from '../setup/test-certificates'
+
+const base64 = (value: string) => Buffer.from(value).toString('base64')
+
+/**
+ * Kubeconfig de k3s : autorité et certificat client en base64
+ */
+const K3S_KUBECONFIG = `apiVersion: v1
+kind: Config
+clusters:
+- cluster:
+    certificate-authority-data: ${base64(TEST_CERTIFICATE)}
+    server: https://127.0.0.1:6443
+  name: default
+contexts:
+- context:
+    cluster: default
+    user: default
+  name: default
+current-context: default
+users:
+- name: default
+  user:
+    client-certificate-data: ${base64(TEST_CERTIFICATE)}
+    client-key-data: ${base64(TEST_PRIVATE_KEY)}
+`
+
+describe('kubeconfig', () => {
+  let dir: string
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'kubeconfig-'))
+    vi.stubEnv('KUBECONFIG_DIR', dir)
+  })
+
+  afterEach(async () => {
+    vi.unstubAllEnvs()
+    await fs.rm(dir, { recursive: true, force: true })
+  })
+
+  it('devrait résoudre le contexte courant avec l\'autorité et le certificat client', async () => {
+    const connection = await resolveKubeconfig(K3S_KUBECONFIG)
+
+    expect(connection).toMatchObject({
+      context: 'default',
+      server: 'https://127.0.0.1:6443',
+      tls: { ca: TEST_CERTIFICATE, cert: TEST_CERTIFICATE, key: TEST_PRIVATE_KEY },
+    })
+    expect(connection.token).toBeUndefined()
+  })
+
+  it('devrait utiliser le contexte demandé et lire les fichiers référencés', async () => {
+    const caFile = path.join(dir, 'ca.crt')
+    await fs.writeFile(caFile, TEST_CERTIFICATE)
+    await fs.writeFile(path.join(dir, 'token'), 'secret-token\n')
+
+    const connection = await resolveKubeconfig(`
+clusters:
+- name: prod
+  cluster:
+    server: https://k8s.example.com:6443/
+    certificate-authority: ${caFile}
+    tls-server-name: kubernetes
+- name: lab
+  cluster:
+    server: https://lab.example.com:6443
+    insecure-skip-tls-verify: true
+contexts:
+- name: prod
+  context: { cluster: prod, user: robot }
+- name: lab
+  context: { cluster: lab, user: admin }
+current-context: lab
+users:
+- name: robot
+  user:
+    tokenFile: token
+- name: admin
+  user:
+    token: lab-token
+`, 'prod')
+
+    expect(connection).toMatchObject({
+      context: 'prod',
+      server: 'https://k8s.example.com:6443',
+      token: 'secret-token',
+      tls: { ca: TEST_CERTIFICATE, servername: 'kubernetes' },
+    })
+    expect(connection.tls.skipVerify).toBeUndefined()
+  })
+
+  it('devrait lister les contextes disponibles si le contexte demandé est absent', async () => {
+    await expect(resolveKubeconfig(K3S_KUBECONFIG, 'prod')).rejects.toThrow(
+      'kubeconfig : contexte "prod" introuvable (contextes disponibles : default)'
+    )
+  })
+
+  it('devrait refuser une authentification par commande externe', async () => {
+    const kubeconfig = K3S_KUBECONFIG.replace(
+      /    client-certificate-data: .*\n    client-key-data: .*\n/,
+      '    exec:\n      command: aws\n'
+    )
+
+    await expect(resolveKubeconfig(kubeconfig)).rejects.toThrow(/exec, auth-provider/)
+  })
+
+  it('devrait signaler un YAML invalide ou un fichier illisible', async () => {
+    await expect(resolveKubeconfig('clusters: [')).rejects.toThrow(/^kubeconfig : YAML invalide/)
+
+    const kubeconfig = K3S_KUBECONFIG.replace(/certificate-authority-data: .*/, `certificate-authority: ${path.join(dir, 'absent.crt')}`)
+    await expect(resolveKubeconfig(kubeconfig)).rejects.toThrow('kubeconfig : fichier certificate-authority refusé ou illisible')
+  })
+
+  it('devrait refuser les fichiers hors de KUBECONFIG_DIR', async () => {
+    const outside = await fs.mkdtemp(path.join(os.tmpdir(), 'kubeconfig-outside-'))
+    try {
+      await fs.writeFile(path.join(outside, 'token'), 'server-secret')
+      await fs.symlink(path.join(outside, 'token'), path.join(dir, 'link'))
+      const withTokenFile = (file: string) =>
+        K3S_KUBECONFIG.replace(/    client-certificate-data: .*\n    client-key-data: .*\n/, `    tokenFile: ${file}\n`)
+      const refused = 'kubeconfig : fichier tokenFile refusé ou illisible (seuls les fichiers du dossier KUBECONFIG_DIR sont lus)'
+
+      // Chemin absolu, remontée de dossier, dossier personnel et lien symbolique
+      await expect(resolveKubeconfig(withTokenFile(path.join(outside, 'token')))).rejects.toThrow(refused)
+      await expect(resolveKubeconfig(withTokenFile(`../${path.basename(outside)}/token`))).rejects.toThrow(refused)
+      await expect(resolveKubeconfig(withTokenFile('~/.bashrc'))).rejects.toThrow(refused)
+      await expect(resolveKubeconfig(withTokenFile('link'))).rejects.toThrow(refused)
+
+      // Sans KUBECONFIG_DIR, aucun fichier n'est lu
+      vi.stubEnv('KUBECONFIG_DIR', '')
+      await fs.writeFile(path.join(dir, 'token'), 'secret-token')
+      await expect(resolveKubeconfig(withTokenFile(path.join(dir, 'token')))).rejects.toThrow(refused)
+    } finally {
+      await fs.rm(outside, { recursive: true, force: true })
+    }
+  })
+})
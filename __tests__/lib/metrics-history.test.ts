@@ -0,0 +1,140 @@
+/**
+ * Tests pour l'historique des métriques
+ *
+ * Teste l'extraction des valeurs, l'agrégation des anciennes valeurs
+ * (politique de rétention) et la lecture des séries
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { prisma } from '@/lib/prisma'
+import {
+  extractMetricValues,
+  recordMetrics,
+  compactMetrics,
+  getMetricsHistory,
+  parseMetricsPeriod,
+  getDefaultResolution,
+} from '@/lib/metrics-history'
+
+// Mock de Prisma avec la table des métriques
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    metric: {
+      createMany: vi.fn(),
+      findMany: vi.fn(),
+      deleteMany: vi.fn(),
+    },
+    $transaction: vi.fn(),
+  },
+}))
+
+const HOUR = 60 * 60 * 1000
+const DAY = 24 * HOUR
+const NOW = Date.UTC(2026, 0, 31, 12)
+
+/**
+ * Crée une ligne de la table Metric
+ */
+function row(id: number, timestamp: number, value: number, resolution = 'raw') {
+  return { id, appId: 'plex', templateId: 'plex', key: 'totalMovies', value, timestamp: new Date(timestamp), resolution }
+}
+
+describe('metrics-history', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(prisma.metric.findMany).mockResolvedValue([])
+  })
+
+  describe('extractMetricValues', () => {
+    it('devrait ne garder que les valeurs numériques de premier niveau', () => {
+      expect(
+        extractMetricValues({ totalMovies: 120, name: 'Plex', ratio: Number.NaN, nested: { count: 3 } })
+      ).toEqual({ totalMovies: 120 })
+    })
+
+    it('devrait ignorer les statistiques qui ne sont pas un objet', () => {
+      expect(extractMetricValues([1, 2])).toEqual({})
+      expect(extractMetricValues(null)).toEqual({})
+    })
+  })
+
+  describe('recordMetrics', () => {
+    it('devrait enregistrer une valeur brute par clé numérique', async () => {
+      const count = await recordMetrics('plex', 'plex', { totalMovies: 120, totalShows: 30 }, NOW)
+
+      expect(count).toBe(2)
+      expect(prisma.metric.createMany).toHaveBeenCalledWith({
+        data: [
+          expect.objectContaining({ key: 'totalMovies', value: 120, timestamp: new Date(NOW), resolution: 'raw' }),
+          expect.objectContaining({ key: 'totalShows', value: 30, resolution: 'raw' }),
+        ],
+      })
+    })
+
+    it('ne devrait rien écrire sans valeur numérique', async () => {
+      expect(await recordMetrics('plex', 'plex', { status: 'ok' }, NOW)).toBe(0)
+      expect(prisma.metric.createMany).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('compactMetrics', () => {
+    it('devrait remplacer les anciennes valeurs brutes par leur moyenne horaire', async () => {
+      const hourStart = NOW - 3 * DAY
+      vi.mocked(prisma.metric.findMany).mockImplementation((async (args: any) =>
+        args.where.resolution === 'raw'
+          ? [row(1, hourStart, 10), row(2, hourStart + 30 * 60 * 1000, 20)]
+          : []) as any)
+
+      await compactMetrics(NOW)
+
+      expect(prisma.metric.deleteMany).toHaveBeenCalledWith({ where: { id: { in: [1, 2] } } })
+      expect(prisma.metric.createMany).toHaveBeenCalledWith({
+        data: [expect.objectContaining({ value: 15, timestamp: new Date(hourStart), resolution: 'hour' })],
+      })
+    })
+
+    it('devrait supprimer l\'historique au-delà de la durée de conservation', async () => {
+      await compactMetrics(NOW)
+
+      expect(prisma.metric.deleteMany).toHaveBeenCalledWith({
+        where: { timestamp: { lt: new Date(NOW - 365 * DAY) } },
+      })
+    })
+  })
+
+  describe('getMetricsHistory', () => {
+    it('devrait retourner la moyenne par jour', async () => {
+      const dayStart = Date.UTC(2026, 0, 30)
+      vi.mocked(prisma.metric.findMany).mockResolvedValue([
+        row(1, dayStart + HOUR, 100, 'hour'),
+        row(2, dayStart + 2 * HOUR, 110, 'hour'),
+        row(3, NOW, 130),
+      ] as any)
+
+      const points = await getMetricsHistory('plex', 'totalMovies', 7 * DAY, 'day', NOW)
+
+      expect(points).toEqual([
+        { timestamp: dayStart, value: 105 },
+        { timestamp: Date.UTC(2026, 0, 31), value: 130 },
+      ])
+    })
+  })
+
+  describe('parseMetricsPeriod', () => {
+    it('devrait convertir les périodes en millisecondes', () => {
+      expect(parseMetricsPeriod('24h')).toBe(DAY)
+      expect(parseMetricsPeriod('7d')).toBe(7 * DAY)
+    })
+
+    it('devrait refuser une période invalide', () => {
+      expect(parseMetricsPeriod('7w')).toBeNull()
+      expect(parseMetricsPeriod('0d')).toBeNull()
+    })
+
+    it('devrait choisir la résolution selon la période', () => {
+      expect(getDefaultResolution(DAY)).toBe('raw')
+      expect(getDefaultResolution(7 * DAY)).toBe('hour')
+      expect(getDefaultResolution(90 * DAY)).toBe('day')
+    })
+  })
+})
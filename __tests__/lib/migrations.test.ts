@@ -0,0 +1,200 @@
+/**
+ * Tests pour les migrations des données stockées
+ *
+ * Teste chaque migration, l'exécution ordonnée à partir de la version
+ * enregistrée, la simulation (dry-run) et le rapport affiché
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import {
+  MIGRATIONS,
+  CURRENT_SCHEMA_VERSION,
+  migrateData,
+  runMigrations,
+  formatMigrationReport,
+  type Migration,
+  type MigrationData,
+} from '@/lib/migrations'
+import { encryptValue, decryptValue } from '@/lib/encryption'
+import { createTestApp, createTestConfig, createTestWidget } from '../setup/test-helpers'
+
+/**
+ * Crée un store en mémoire avec une version de schéma
+ */
+function createMemoryStore(initial: MigrationData, schemaVersion: number) {
+  const state = { ...structuredClone(initial), schemaVersion }
+  return {
+    state,
+    readApps: vi.fn(async () => structuredClone(state.apps)),
+    readWidgets: vi.fn(async () => structuredClone(state.widgets)),
+    readConfig: vi.fn(async () => structuredClone(state.config)),
+    writeApps: vi.fn(async (apps) => {
+      state.apps = apps
+    }),
+    writeWidgets: vi.fn(async (widgets) => {
+      state.widgets = widgets
+    }),
+    writeConfig: vi.fn(async (config) => {
+      state.config = config
+    }),
+    readSchemaVersion: vi.fn(async () => state.schemaVersion),
+    writeSchemaVersion: vi.fn(async (version) => {
+      state.schemaVersion = version
+    }),
+  }
+}
+
+/**
+ * Applique une seule migration de MIGRATIONS
+ */
+function applyMigration(version: number, data: Partial<MigrationData>) {
+  const migration = MIGRATIONS.find((m) => m.version === version) as Migration
+  return migrateData({ apps: [], widgets: [], config: null, ...data }, version - 1, [migration])
+}
+
+describe('migrations', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  it('devrait définir des versions strictement croissantes', () => {
+    const versions = MIGRATIONS.map((migration) => migration.version)
+
+    expect(versions).toEqual(versions.map((_, index) => index + 1))
+    expect(CURRENT_SCHEMA_VERSION).toBe(versions.length)
+  })
+
+  describe('v1 - spacing → density', () => {
+    it('devrait convertir l\'ancien champ spacing', () => {
+      const { data, steps } = applyMigration(1, {
+        config: { backgroundEffect: 'none', stylePreset: { spacing: 'spacious' } as any },
+      })
+
+      expect(data.config?.stylePreset).toEqual({ density: 'comfortable' })
+      expect(steps[0].config).toBe(true)
+    })
+
+    it('ne devrait pas modifier une configuration déjà au nouveau format', () => {
+      const config = createTestConfig()
+
+      const { data, steps } = applyMigration(1, { config })
+
+      expect(data.config).toEqual(config)
+      expect(steps[0].config).toBe(false)
+    })
+  })
+
+  describe('v2 - identifiants des cartes', () => {
+    it('devrait renommer les anciens champs sans écraser les nouveaux', () => {
+      const { data, steps } = applyMigration(2, {
+        apps: [
+          createTestApp({ id: 'sonarr', sonarrApiKey: 'cle' } as any),
+          createTestApp({ id: 'proxmox', token: 'actuel', proxmoxToken: 'ancien' } as any),
+        ],
+      })
+
+      expect(data.apps[0]).toMatchObject({ apiKey: 'cle' })
+      expect(data.apps[0]).not.toHaveProperty('sonarrApiKey')
+      expect(data.apps[1]).toMatchObject({ token: 'actuel' })
+      expect(data.apps[1]).not.toHaveProperty('proxmoxToken')
+      expect(steps[0].apps).toEqual(['sonarr', 'proxmox'])
+    })
+
+    it('devrait extraire le token Plex de statApiUrl', () => {
+      const { data } = applyMigration(2, {
+        apps: [createTestApp({ id: 'plex', statApiUrl: 'http://plex:32400/library?X-Plex-Token=abc' })],
+      })
+
+      expect(data.apps[0]).toMatchObject({
+        plexToken: 'abc',
+        statApiUrl: 'http://plex:32400/library',
+      })
+    })
+  })
+
+  describe('v3 - tableaux de bord', () => {
+    it('devrait rattacher les éléments sans tableau de bord au tableau de bord par défaut', () => {
+      const { data, steps } = applyMigration(3, {
+        apps: [createTestApp({ id: 'a' }), createTestApp({ id: 'b', dashboardId: 'infra' })],
+        widgets: [createTestWidget({ id: 'w' })],
+      })
+
+      expect(data.apps.map((app) => app.dashboardId)).toEqual(['default', 'infra'])
+      expect(data.widgets[0].dashboardId).toBe('default')
+      expect(steps[0].apps).toEqual(['a'])
+    })
+  })
+
+  describe('runMigrations', () => {
+    it('devrait migrer les données, rechiffrer les secrets et enregistrer la version', async () => {
+      const store = createMemoryStore(
+        {
+          apps: [createTestApp({ id: 'sonarr', sonarrApiKey: encryptValue('cle') } as any)],
+          widgets: [createTestWidget({ dashboardId: 'default' })],
+          config: { backgroundEffect: 'none', stylePreset: { spacing: 'compact' } as any },
+        },
+        0
+      )
+
+      const report = await runMigrations(store as any)
+
+      expect(report).toMatchObject({ fromVersion: 0, toVersion: CURRENT_SCHEMA_VERSION, dryRun: false })
+      expect(store.state.schemaVersion).toBe(CURRENT_SCHEMA_VERSION)
+      expect(store.state.config?.stylePreset).toEqual({ density: 'compact' })
+      expect(decryptValue((store.state.apps[0] as any).apiKey)).toBe('cle')
+      // Les widgets n'étaient pas concernés
+      expect(store.writeWidgets).not.toHaveBeenCalled()
+    })
+
+    it('ne devrait rien écrire en mode simulation', async () => {
+      const store = createMemoryStore(
+        { apps: [createTestApp({ id: 'sonarr', sonarrApiKey: 'cle' } as any)], widgets: [], config: null },
+        0
+      )
+
+      const report = await runMigrations(store as any, { dryRun: true })
+
+      expect(report.steps.find((step) => step.version === 2)?.apps).toEqual(['sonarr'])
+      expect(store.writeApps).not.toHaveBeenCalled()
+      expect(store.writeSchemaVersion).not.toHaveBeenCalled()
+    })
+
+    it('ne devrait rien faire si les données sont à jour', async () => {
+      const store = createMemoryStore({ apps: [], widgets: [], config: null }, CURRENT_SCHEMA_VERSION)
+
+      const report = await runMigrations(store as any)
+
+      expect(report.steps).toEqual([])
+      expect(store.readApps).not.toHaveBeenCalled()
+      expect(formatMigrationReport(report)).toBe(`Données à jour (schéma v${CURRENT_SCHEMA_VERSION})`)
+    })
+
+    it('devrait refuser des données d\'une version plus récente', async () => {
+      const store = createMemoryStore({ apps: [], widgets: [], config: null }, CURRENT_SCHEMA_VERSION + 1)
+
+      await expect(runMigrations(store as any)).rejects.toThrow('plus récent')
+    })
+  })
+
+  describe('formatMigrationReport', () => {
+    it('devrait lister les éléments concernés par chaque migration', () => {
+      const text = formatMigrationReport({
+        fromVersion: 0,
+        toVersion: 2,
+        dryRun: true,
+        steps: [
+          { version: 1, description: 'Première', apps: [], widgets: [], config: true },
+          { version: 2, description: 'Seconde', apps: [], widgets: [], config: false },
+        ],
+      })
+
+      expect(text).toBe(
+        'Simulation : migration du schéma v0 à v2\n' +
+          '  v1 - Première\n' +
+          '    configuration\n' +
+          '  v2 - Seconde\n' +
+          '    aucune donnée concernée'
+      )
+    })
+  })
+})
@@ -0,0 +1,115 @@
+/**
+ * Tests pour la connexion OpenID Connect
+ *
+ * Teste la configuration par variables d'environnement et la correspondance
+ * entre les groupes du fournisseur et les rôles du dashboard
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest'
+import {
+  getOidcConfig,
+  getOidcGroups,
+  getOidcRole,
+  isPasswordLoginEnabled,
+  type OidcConfig,
+} from '@/lib/oidc'
+
+/**
+ * Définit les variables minimales d'un fournisseur OIDC
+ */
+function stubOidcEnv() {
+  vi.stubEnv('OIDC_ISSUER', 'https://auth.example.com/application/o/dashboard/')
+  vi.stubEnv('OIDC_CLIENT_ID', 'dashboard')
+  vi.stubEnv('OIDC_CLIENT_SECRET', 'secret')
+}
+
+describe('oidc', () => {
+  const config: OidcConfig = {
+    issuer: 'https://auth.example.com',
+    clientId: 'dashboard',
+    clientSecret: 'secret',
+    name: 'Authentik',
+    scopes: 'openid profile email groups',
+    roleClaim: 'groups',
+    adminGroups: ['dashboard-admins'],
+    userGroups: [],
+    linkExistingUsers: false,
+  }
+
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  describe('getOidcConfig', () => {
+    it('devrait retourner null sans fournisseur configuré', () => {
+      vi.stubEnv('OIDC_ISSUER', '')
+
+      expect(getOidcConfig()).toBeNull()
+    })
+
+    it('devrait lire la configuration et ses valeurs par défaut', () => {
+      stubOidcEnv()
+      vi.stubEnv('OIDC_ADMIN_GROUPS', 'admins, dashboard-admins')
+
+      expect(getOidcConfig()).toEqual({
+        issuer: 'https://auth.example.com/application/o/dashboard/',
+        clientId: 'dashboard',
+        clientSecret: 'secret',
+        name: 'SSO',
+        scopes: 'openid profile email groups',
+        roleClaim: 'groups',
+        adminGroups: ['admins', 'dashboard-admins'],
+        userGroups: [],
+        linkExistingUsers: false,
+      })
+    })
+
+    it('devrait lire l\'autorisation de lier les comptes existants', () => {
+      stubOidcEnv()
+      vi.stubEnv('OIDC_LINK_EXISTING_USERS', 'TRUE')
+
+      expect(getOidcConfig()?.linkExistingUsers).toBe(true)
+    })
+  })
+
+  describe('isPasswordLoginEnabled', () => {
+    it('devrait désactiver la connexion par mot de passe avec OIDC configuré', () => {
+      stubOidcEnv()
+      vi.stubEnv('AUTH_DISABLE_PASSWORD_LOGIN', 'true')
+
+      expect(isPasswordLoginEnabled()).toBe(false)
+    })
+
+    it('devrait garder la connexion par mot de passe sans OIDC', () => {
+      vi.stubEnv('OIDC_ISSUER', '')
+      vi.stubEnv('AUTH_DISABLE_PASSWORD_LOGIN', 'true')
+      vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+      expect(isPasswordLoginEnabled()).toBe(true)
+    })
+  })
+
+  describe('getOidcGroups', () => {
+    it('devrait lire un claim liste, texte ou imbriqué', () => {
+      expect(getOidcGroups({ groups: ['a', 'b', 3] }, 'groups')).toEqual(['a', 'b'])
+      expect(getOidcGroups({ roles: 'a, b' }, 'roles')).toEqual(['a', 'b'])
+      expect(getOidcGroups({ realm_access: { roles: ['admin'] } }, 'realm_access.roles')).toEqual(['admin'])
+      expect(getOidcGroups({ email: 'user@example.com' }, 'groups')).toEqual([])
+    })
+  })
+
+  describe('getOidcRole', () => {
+    it('devrait donner le rôle admin aux groupes administrateurs', () => {
+      expect(getOidcRole({ groups: ['users', 'dashboard-admins'] }, config)).toBe('admin')
+      expect(getOidcRole({ groups: ['users'] }, config)).toBe('user')
+    })
+
+    it('devrait refuser un utilisateur hors des groupes autorisés', () => {
+      const restricted = { ...config, userGroups: ['dashboard-users'] }
+
+      expect(getOidcRole({ groups: ['dashboard-users'] }, restricted)).toBe('user')
+      expect(getOidcRole({ groups: ['dashboard-admins'] }, restricted)).toBe('admin')
+      expect(getOidcRole({ groups: ['autres'] }, restricted)).toBeNull()
+    })
+  })
+})
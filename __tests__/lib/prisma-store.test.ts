@@ -0,0 +1,268 @@
+/**
+ * Tests pour le store Prisma et l'import des anciens fichiers JSON
+ *
+ * Teste la conversion entre les objets App/Widget/AppConfig et les lignes
+ * Prisma, ainsi que l'import unique depuis data/*.json
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { promises as fs } from 'fs'
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { prismaStore } from '@/lib/prisma-store'
+import { jsonStore } from '@/lib/json-store'
+import { importLegacyJsonData } from '@/lib/legacy-import'
+import { createTestApp, createTestWidget } from '../setup/test-helpers'
+
+// Mock de Prisma avec les modèles du dashboard
+vi.mock('@/lib/prisma', () => {
+  const model = () => ({
+    findMany: vi.fn(),
+    findUnique: vi.fn(),
+    upsert: vi.fn(),
+    update: vi.fn(),
+    create: vi.fn(),
+    deleteMany: vi.fn(),
+    count: vi.fn(),
+  })
+  const client: any = {
+    app: model(),
+    statsConfig: model(),
+    widget: model(),
+    appConfig: model(),
+    dashboard: model(),
+  }
+  client.$transaction = vi.fn(async (arg: any) =>
+    typeof arg === 'function' ? arg(client) : Promise.all(arg)
+  )
+  return { prisma: client }
+})
+
+// Mock du store JSON (source de l'import)
+vi.mock('@/lib/json-store', () => ({
+  APPS_FILE: '/data/apps.json',
+  WIDGETS_FILE: '/data/widgets.json',
+  CONFIG_FILE: '/data/config.json',
+  jsonStore: {
+    readApps: vi.fn(),
+    readWidgets: vi.fn(),
+    readConfig: vi.fn(),
+  },
+}))
+
+describe('prisma-store', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  describe('readApps', () => {
+    it('devrait fusionner les colonnes, les champs extra et la configuration des stats', async () => {
+      vi.mocked(prisma.app.findMany).mockResolvedValue([
+        {
+          id: 'app1',
+          name: 'Sonarr',
+          url: 'https://sonarr.local',
+          logo: 'Tv',
+          logoType: 'icon',
+          order: 2,
+          statApiUrl: null,
+          statLabel: null,
+          extra: { apiKey: 'encrypted:abc' },
+          statsConfig: {
+            appId: 'app1',
+            templateId: 'sonarr',
+            refreshInterval: 60000,
+            timeout: null,
+            historyPeriod: null,
+            itemsPerPage: null,
+            displayOptions: null,
+            cardStat: { type: 'number', key: 'totalSeries' },
+          },
+        },
+      ] as any)
+
+      const apps = await prismaStore.readApps()
+
+      expect(apps).toEqual([
+        {
+          id: 'app1',
+          name: 'Sonarr',
+          url: 'https://sonarr.local',
+          logo: 'Tv',
+          logoType: 'icon',
+          order: 2,
+          apiKey: 'encrypted:abc',
+          statsConfig: {
+            templateId: 'sonarr',
+            refreshInterval: 60000,
+            cardStat: { type: 'number', key: 'totalSeries' },
+          },
+        },
+      ])
+    })
+  })
+
+  describe('saveApp', () => {
+    it('devrait stocker les champs inconnus dans extra et remplacer la configuration des stats', async () => {
+      const app = createTestApp({
+        id: 'app1',
+        plexToken: 'encrypted:token',
+        statsConfig: { templateId: 'plex' },
+      })
+
+      await prismaStore.saveApp(app)
+
+      const upsertArgs = vi.mocked(prisma.app.upsert).mock.calls[0][0]
+      expect(upsertArgs.where).toEqual({ id: 'app1' })
+      expect(upsertArgs.create.extra).toEqual({ plexToken: 'encrypted:token' })
+      expect(upsertArgs.create.statsConfig).toBeUndefined()
+      expect(prisma.statsConfig.deleteMany).toHaveBeenCalledWith({ where: { appId: 'app1' } })
+      expect(prisma.statsConfig.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ appId: 'app1', templateId: 'plex' }),
+      })
+    })
+  })
+
+  describe('deleteApp', () => {
+    it('devrait retourner false si l\'application n\'existe pas', async () => {
+      vi.mocked(prisma.app.deleteMany).mockResolvedValue({ count: 0 })
+
+      expect(await prismaStore.deleteApp('inconnue')).toBe(false)
+    })
+  })
+
+  describe('reorderApps', () => {
+    it('devrait mettre à jour l\'ordre dans une transaction', async () => {
+      vi.mocked(prisma.app.findMany).mockResolvedValue([{ id: 'a' }, { id: 'b' }] as any)
+      vi.mocked(prisma.app.update).mockResolvedValue({} as any)
+
+      await prismaStore.reorderApps(['b', 'a'])
+
+      expect(prisma.$transaction).toHaveBeenCalledTimes(1)
+      expect(prisma.app.update).toHaveBeenCalledWith({ where: { id: 'b' }, data: { order: 0 } })
+      expect(prisma.app.update).toHaveBeenCalledWith({ where: { id: 'a' }, data: { order: 1 } })
+    })
+
+    it('devrait ignorer les IDs absents de la base', async () => {
+      vi.mocked(prisma.app.findMany).mockResolvedValue([{ id: 'a' }] as any)
+
+      await prismaStore.reorderApps(['yaml-app', 'a'])
+
+      expect(prisma.app.update).toHaveBeenCalledTimes(1)
+      expect(prisma.app.update).toHaveBeenCalledWith({ where: { id: 'a' }, data: { order: 1 } })
+    })
+  })
+
+  describe('writeConfig', () => {
+    it('devrait effacer un preset de style retiré', async () => {
+      await prismaStore.writeConfig({ backgroundEffect: 'none', theme: 'violet' })
+
+      const { update } = vi.mocked(prisma.appConfig.upsert).mock.calls[0][0]
+      expect(update).toHaveProperty('stylePreset')
+      expect(update.stylePreset).toBe(Prisma.DbNull)
+    })
+  })
+
+  describe('readConfig', () => {
+    it('devrait retourner null si aucune configuration n\'est enregistrée', async () => {
+      vi.mocked(prisma.appConfig.findUnique).mockResolvedValue(null)
+
+      expect(await prismaStore.readConfig()).toBeNull()
+    })
+
+    it('devrait ignorer un preset de style qui n\'est pas un objet', async () => {
+      vi.mocked(prisma.appConfig.findUnique).mockResolvedValue({
+        id: 1,
+        backgroundEffect: 'none',
+        theme: 'violet',
+        stylePreset: 'glass',
+      } as any)
+
+      expect(await prismaStore.readConfig()).toEqual({ backgroundEffect: 'none', theme: 'violet' })
+    })
+  })
+
+  describe('replaceAll', () => {
+    it('devrait tout écrire dans une seule transaction, avec les autres tables', async () => {
+      const writeDatabase = vi.fn()
+
+      await prismaStore.replaceAll(
+        {
+          dashboards: [{ id: 'infra', slug: 'infra', name: 'Infra' }],
+          apps: [createTestApp({ id: 'app1' })],
+          widgets: [createTestWidget({ id: 'w1' })],
+          config: { backgroundEffect: 'none', theme: 'violet' },
+        },
+        writeDatabase
+      )
+
+      expect(prisma.$transaction).toHaveBeenCalledTimes(1)
+      expect(writeDatabase).toHaveBeenCalledWith(prisma)
+      expect(prisma.dashboard.deleteMany).toHaveBeenCalledWith({ where: { id: { notIn: ['infra'] } } })
+      expect(prisma.app.deleteMany).toHaveBeenCalledWith({ where: { id: { notIn: ['app1'] } } })
+      expect(prisma.widget.upsert).toHaveBeenCalledWith(expect.objectContaining({ where: { id: 'w1' } }))
+      expect(prisma.appConfig.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({ update: expect.objectContaining({ theme: 'violet' }) })
+      )
+    })
+
+    it('ne devrait rien écrire de plus si les autres tables échouent', async () => {
+      const writeDatabase = vi.fn().mockRejectedValue(new Error('Échec'))
+
+      await expect(
+        prismaStore.replaceAll(
+          { dashboards: [], apps: [], widgets: [], config: { backgroundEffect: 'none' } },
+          writeDatabase
+        )
+      ).rejects.toThrow('Échec')
+      expect(prisma.app.deleteMany).not.toHaveBeenCalled()
+    })
+  })
+})
+
+describe('importLegacyJsonData', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.spyOn(fs, 'rename').mockResolvedValue()
+    vi.mocked(prisma.app.count).mockResolvedValue(0)
+    vi.mocked(prisma.widget.count).mockResolvedValue(0)
+    vi.mocked(prisma.appConfig.count).mockResolvedValue(0)
+  })
+
+  it('ne devrait rien faire si aucun fichier JSON n\'existe', async () => {
+    vi.mocked(jsonStore.readApps).mockResolvedValue([])
+    vi.mocked(jsonStore.readWidgets).mockResolvedValue([])
+    vi.mocked(jsonStore.readConfig).mockResolvedValue(null)
+
+    const result = await importLegacyJsonData()
+
+    expect(result.imported).toBe(false)
+    expect(fs.rename).not.toHaveBeenCalled()
+  })
+
+  it('devrait importer les fichiers puis les renommer en .imported', async () => {
+    vi.mocked(jsonStore.readApps).mockResolvedValue([createTestApp({ id: 'app1' })])
+    vi.mocked(jsonStore.readWidgets).mockResolvedValue([createTestWidget({ id: 'w1' })])
+    vi.mocked(jsonStore.readConfig).mockResolvedValue({ backgroundEffect: 'glow' })
+
+    const result = await importLegacyJsonData()
+
+    expect(result).toEqual({ imported: true, apps: 1, widgets: 1, config: true })
+    expect(prisma.app.upsert).toHaveBeenCalledWith(expect.objectContaining({ where: { id: 'app1' } }))
+    expect(prisma.widget.upsert).toHaveBeenCalledWith(expect.objectContaining({ where: { id: 'w1' } }))
+    expect(prisma.appConfig.upsert).toHaveBeenCalled()
+    expect(fs.rename).toHaveBeenCalledWith('/data/apps.json', '/data/apps.json.imported')
+  })
+
+  it('ne devrait pas écraser une base qui contient déjà des données', async () => {
+    vi.mocked(jsonStore.readApps).mockResolvedValue([createTestApp({ id: 'app1' })])
+    vi.mocked(jsonStore.readWidgets).mockResolvedValue([])
+    vi.mocked(jsonStore.readConfig).mockResolvedValue(null)
+    vi.mocked(prisma.app.count).mockResolvedValue(3)
+
+    const result = await importLegacyJsonData()
+
+    expect(result.imported).toBe(false)
+    expect(prisma.app.upsert).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,129 @@
+/**
+ * Tests pour l'export OpenMetrics
+ *
+ * Teste le nommage des métriques, les labels des listes, les métriques de
+ * disponibilité et de collecte et la vérification du jeton
+ */
+
+import { describe, it, expect } from 'vitest'
+import { renderMetrics, toMetricName, isMetricsTokenValid, type MetricsSnapshot } from '@/lib/prometheus'
+import type { HealthCheckResult } from '@/lib/health-checks'
+import type { StatsPollStatus } from '@/lib/stats-poller'
+import { createTestApp } from '../setup/test-helpers'
+
+const APPS = [
+  createTestApp({ id: 'plex', name: 'Plex' }),
+  createTestApp({ id: 'pve', name: 'Proxmox "maison"' }),
+]
+
+const HEALTH: HealthCheckResult = {
+  appId: 'plex',
+  type: 'http',
+  status: 'up',
+  checkedAt: '2026-01-31T12:00:00.000Z',
+  latency: 120,
+  statusCode: 200,
+  error: null,
+  tlsValidTo: null,
+  tlsDaysRemaining: 30,
+}
+
+const POLL: StatsPollStatus = {
+  appId: 'plex',
+  templateId: 'plex',
+  lastAttemptAt: '2026-01-31T12:00:00.000Z',
+  lastSuccessAt: '2026-01-31T12:00:00.000Z',
+  lastError: null,
+  lastErrorAt: null,
+  lastDuration: 250,
+  consecutiveFailures: 0,
+  totalPolls: 10,
+  totalFailures: 2,
+}
+
+/**
+ * Génère l'export avec des valeurs par défaut vides
+ */
+function render(snapshot: Partial<MetricsSnapshot>): string {
+  return renderMetrics({ apps: APPS, stats: [], health: [], polls: [], ...snapshot })
+}
+
+describe('prometheus', () => {
+  describe('toMetricName', () => {
+    it('devrait convertir les clés en snake_case', () => {
+      expect(toMetricName('plex_totalMovies')).toBe('plex_total_movies')
+      expect(toMetricName('uptime-kuma_downMonitors')).toBe('uptime_kuma_down_monitors')
+      expect(toMetricName('home-assistant_CPUUsage')).toBe('home_assistant_cpu_usage')
+    })
+  })
+
+  describe('renderMetrics', () => {
+    it('devrait exporter une jauge par valeur numérique des statistiques', () => {
+      const body = render({
+        stats: [{ appId: 'plex', templateId: 'plex', data: { totalMovies: 120, serverName: 'NAS', online: true } }],
+      })
+
+      expect(body).toContain('# TYPE plex_total_movies gauge')
+      expect(body).toContain('plex_total_movies{app_id="plex",app_name="Plex"} 120')
+      expect(body).not.toContain('server_name')
+      expect(body).not.toContain('online')
+      expect(body.endsWith('# EOF\n')).toBe(true)
+    })
+
+    it('devrait distinguer les éléments des listes par un label', () => {
+      const body = render({
+        stats: [{
+          appId: 'pve',
+          templateId: 'proxmox',
+          data: { nodes: [{ node: 'pve1', cpu: 0.25 }, { node: 'pve2', cpu: 0.5 }], memory: { used: 8 } },
+        }],
+      })
+
+      expect(body).toContain('proxmox_nodes_cpu{app_id="pve",app_name="Proxmox \\"maison\\"",item="pve1"} 0.25')
+      expect(body).toContain('proxmox_nodes_cpu{app_id="pve",app_name="Proxmox \\"maison\\"",item="pve2"} 0.5')
+      expect(body).toContain('proxmox_memory_used{')
+      // Une seule déclaration par famille
+      expect(body.match(/# TYPE proxmox_nodes_cpu /g)).toHaveLength(1)
+    })
+
+    it('devrait exporter la disponibilité et la latence', () => {
+      const body = render({ health: [HEALTH, { ...HEALTH, appId: 'pve', status: 'down', latency: null }] })
+
+      expect(body).toContain('xhell_app_up{app_id="plex",app_name="Plex",check_type="http"} 1')
+      expect(body).toContain('xhell_app_up{app_id="pve",app_name="Proxmox \\"maison\\"",check_type="http"} 0')
+      expect(body).toContain('xhell_app_latency_seconds{app_id="plex",app_name="Plex",check_type="http"} 0.12')
+      expect(body).toContain('xhell_app_health_status{app_id="plex",app_name="Plex",check_type="http",status="up"} 1')
+      expect(body).toContain('xhell_app_tls_days_remaining{app_id="plex",app_name="Plex",check_type="http"} 30')
+      expect(body).not.toContain('xhell_app_latency_seconds{app_id="pve"')
+    })
+
+    it('devrait exporter les compteurs de collecte', () => {
+      const body = render({ polls: [POLL] })
+
+      expect(body).toContain('# TYPE xhell_stats_poll_failures counter')
+      expect(body).toContain('xhell_stats_poll_failures_total{app_id="plex",app_name="Plex",template="plex"} 2')
+      expect(body).toContain('xhell_stats_polls_total{app_id="plex",app_name="Plex",template="plex"} 10')
+      expect(body).toContain('xhell_stats_poll_duration_seconds{app_id="plex",app_name="Plex",template="plex"} 0.25')
+    })
+
+    it('devrait ignorer les applications supprimées', () => {
+      const body = render({
+        stats: [{ appId: 'old', templateId: 'plex', data: { totalMovies: 1 } }],
+        health: [{ ...HEALTH, appId: 'old' }],
+        polls: [{ ...POLL, appId: 'old' }],
+      })
+
+      expect(body).toBe('# EOF\n')
+    })
+  })
+
+  describe('isMetricsTokenValid', () => {
+    it('devrait accepter uniquement le bon jeton Bearer', () => {
+      expect(isMetricsTokenValid('Bearer s3cret', 's3cret')).toBe(true)
+      expect(isMetricsTokenValid('bearer s3cret', 's3cret')).toBe(true)
+      expect(isMetricsTokenValid('Bearer autre', 's3cret')).toBe(false)
+      expect(isMetricsTokenValid('Basic s3cret', 's3cret')).toBe(false)
+      expect(isMetricsTokenValid(null, 's3cret')).toBe(false)
+    })
+  })
+})
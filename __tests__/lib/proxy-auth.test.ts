@@ -0,0 +1,157 @@
+/**
+ * Tests pour l'authentification par en-têtes d'un reverse proxy de confiance
+ *
+ * Teste les plages d'adresses de confiance, l'en-tête interne de l'adresse
+ * de connexion et la session construite à partir des en-têtes Remote-*
+ */
+
+import http from 'http'
+import type { AddressInfo } from 'net'
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import {
+  REMOTE_ADDRESS_HEADER,
+  getProxyAuthSession,
+  installRemoteAddressHeader,
+  isTrustedProxyAddress,
+  resetProxyAuthCache,
+} from '@/lib/proxy-auth'
+import { findOrCreateExternalUser } from '@/lib/users'
+import { createTestUser } from '../setup/test-helpers'
+
+// Mock du provisionnement des utilisateurs (testé dans users.test.ts)
+vi.mock('@/lib/users', () => ({
+  findOrCreateExternalUser: vi.fn(),
+}))
+
+/**
+ * En-têtes transmis par le proxy pour un utilisateur
+ */
+function createProxyHeaders(remoteAddress: string, groups = 'dev') {
+  return new Headers({
+    [REMOTE_ADDRESS_HEADER]: remoteAddress,
+    'Remote-User': 'jane',
+    'Remote-Email': 'Jane@example.com',
+    'Remote-Groups': groups,
+  })
+}
+
+describe('proxy-auth', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    resetProxyAuthCache()
+    vi.stubEnv('AUTH_TRUSTED_PROXIES', '172.18.0.0/16, 10.0.0.2')
+    vi.stubEnv('AUTH_PROXY_ADMIN_GROUPS', 'admins')
+    vi.mocked(findOrCreateExternalUser).mockImplementation(async (email, role) =>
+      createTestUser({ id: 'user_1', email, role })
+    )
+  })
+
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  describe('isTrustedProxyAddress', () => {
+    it('devrait reconnaître les adresses et plages de confiance', () => {
+      const trusted = ['172.18.0.0/16', '10.0.0.2', 'fd00::/8']
+
+      expect(isTrustedProxyAddress('172.18.3.4', trusted)).toBe(true)
+      expect(isTrustedProxyAddress('::ffff:10.0.0.2', trusted)).toBe(true)
+      expect(isTrustedProxyAddress('fd12::1', trusted)).toBe(true)
+      expect(isTrustedProxyAddress('10.0.0.3', trusted)).toBe(false)
+      expect(isTrustedProxyAddress('pas-une-ip', trusted)).toBe(false)
+    })
+
+    it('devrait ignorer une entrée invalide', () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+      expect(isTrustedProxyAddress('10.0.0.2', ['proxy.lan', '10.0.0.0/40', '10.0.0.2'])).toBe(true)
+      expect(console.warn).toHaveBeenCalledTimes(2)
+    })
+  })
+
+  describe('getProxyAuthSession', () => {
+    it('devrait ignorer les en-têtes sans l\'adresse de connexion installée', async () => {
+      expect(await getProxyAuthSession(createProxyHeaders('172.18.0.5'))).toBeNull()
+      expect(findOrCreateExternalUser).not.toHaveBeenCalled()
+    })
+
+    it('devrait écraser l\'adresse de connexion envoyée par le client', async () => {
+      installRemoteAddressHeader()
+      const server = http.createServer((request, response) => {
+        response.end(request.headers[REMOTE_ADDRESS_HEADER])
+      })
+      await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+
+      try {
+        const { port } = server.address() as AddressInfo
+        const response = await fetch(`http://127.0.0.1:${port}/`, {
+          headers: { [REMOTE_ADDRESS_HEADER]: '172.18.0.5' },
+        })
+        expect(await response.text()).toBe('127.0.0.1')
+      } finally {
+        server.close()
+      }
+    })
+
+    it('devrait retourner la session de l\'utilisateur transmis par un proxy de confiance', async () => {
+      installRemoteAddressHeader()
+
+      const session = await getProxyAuthSession(createProxyHeaders('::ffff:172.18.0.5', 'dev, admins'))
+
+      expect(session?.user).toEqual({ id: 'user_1', name: 'jane', email: 'jane@example.com', role: 'admin' })
+      expect(findOrCreateExternalUser).toHaveBeenCalledWith('jane@example.com', 'admin', { linkExistingUsers: false })
+    })
+
+    it('devrait refuser l\'email d\'un compte local non lié', async () => {
+      installRemoteAddressHeader()
+      vi.mocked(findOrCreateExternalUser).mockResolvedValue(null)
+
+      expect(await getProxyAuthSession(createProxyHeaders('10.0.0.2'))).toBeNull()
+      expect(await getProxyAuthSession(createProxyHeaders('10.0.0.2'))).toBeNull()
+      // Refus non mis en cache : une liaison autorisée ensuite s'applique aussitôt
+      expect(findOrCreateExternalUser).toHaveBeenCalledTimes(2)
+    })
+
+    it('devrait transmettre l\'autorisation de lier les comptes existants', async () => {
+      installRemoteAddressHeader()
+      vi.stubEnv('AUTH_PROXY_LINK_EXISTING_USERS', 'true')
+
+      await getProxyAuthSession(createProxyHeaders('10.0.0.2'))
+
+      expect(findOrCreateExternalUser).toHaveBeenCalledWith('jane@example.com', 'user', { linkExistingUsers: true })
+    })
+
+    it('devrait ignorer les en-têtes d\'une adresse non approuvée', async () => {
+      installRemoteAddressHeader()
+
+      expect(await getProxyAuthSession(createProxyHeaders('192.168.1.20'))).toBeNull()
+      expect(findOrCreateExternalUser).not.toHaveBeenCalled()
+    })
+
+    it('devrait refuser un utilisateur hors des groupes autorisés', async () => {
+      installRemoteAddressHeader()
+      vi.stubEnv('AUTH_PROXY_USER_GROUPS', 'dashboard')
+      vi.spyOn(console, 'log').mockImplementation(() => {})
+
+      expect(await getProxyAuthSession(createProxyHeaders('10.0.0.2', 'dev'))).toBeNull()
+      expect(findOrCreateExternalUser).not.toHaveBeenCalled()
+    })
+
+    it('devrait garder l\'utilisateur en cache entre deux requêtes', async () => {
+      installRemoteAddressHeader()
+
+      await getProxyAuthSession(createProxyHeaders('10.0.0.2'))
+      const session = await getProxyAuthSession(createProxyHeaders('10.0.0.2'))
+
+      expect(session?.user.role).toBe('user')
+      expect(findOrCreateExternalUser).toHaveBeenCalledTimes(1)
+    })
+
+    it('devrait être désactivé sans AUTH_TRUSTED_PROXIES', async () => {
+      installRemoteAddressHeader()
+      vi.stubEnv('AUTH_TRUSTED_PROXIES', '')
+
+      expect(await getProxyAuthSession(createProxyHeaders('10.0.0.2'))).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,186 @@
+/**
+ * Tests pour le client SMTP
+ *
+ * Utilise un serveur SMTP local, sans STARTTLS, qui enregistre les commandes reçues
+ */
+
+import net from 'net'
+import { describe, it, expect, afterEach } from 'vitest'
+import { sendMail } from '@/lib/smtp'
+
+/**
+ * Serveur SMTP de test
+ */
+interface SmtpServer {
+  port: number
+  commands: string[]
+  data: string
+  close: () => Promise<void>
+}
+
+/**
+ * Démarre un serveur SMTP local
+ *
+ * @param options - Mécanismes d'authentification annoncés et code de réponse à RCPT TO
+ */
+async function startSmtpServer(options: { auth?: string; rcptCode?: number } = {}): Promise<SmtpServer> {
+  const commands: string[] = []
+  const state = { data: '' }
+
+  const server = net.createServer((socket) => {
+    let buffer = ''
+    let inData = false
+    socket.write('220 localhost ESMTP test\r\n')
+
+    socket.on('data', (chunk) => {
+      buffer += chunk.toString('utf-8')
+      let index: number
+      while ((index = buffer.indexOf('\r\n')) !== -1) {
+        const line = buffer.slice(0, index)
+        buffer = buffer.slice(index + 2)
+
+        if (inData) {
+          if (line === '.') {
+            inData = false
+            socket.write('250 OK message accepté\r\n')
+          } else {
+            state.data += `${line}\n`
+          }
+          continue
+        }
+
+        commands.push(line)
+        const verb = line.split(' ')[0].toUpperCase()
+        if (verb === 'EHLO') {
+          socket.write(`250-localhost\r\n250-AUTH ${options.auth ?? 'PLAIN LOGIN'}\r\n250 8BITMIME\r\n`)
+        } else if (verb === 'AUTH' && line.startsWith('AUTH LOGIN')) {
+          socket.write('334 VXNlcm5hbWU6\r\n')
+        } else if (verb === 'AUTH') {
+          socket.write('235 Authentification réussie\r\n')
+        } else if (verb === 'RCPT') {
+          socket.write(options.rcptCode === 550 ? '550 Destinataire inconnu\r\n' : '250 OK\r\n')
+        } else if (verb === 'DATA') {
+          inData = true
+          socket.write('354 Fin avec <CRLF>.<CRLF>\r\n')
+        } else if (verb === 'QUIT') {
+          socket.end('221 Au revoir\r\n')
+        } else if (commands.at(-2) === 'AUTH LOGIN') {
+          socket.write('334 UGFzc3dvcmQ6\r\n')
+        } else if (commands.at(-3) === 'AUTH LOGIN') {
+          socket.write('235 Authentification réussie\r\n')
+        } else {
+          socket.write('250 OK\r\n')
+        }
+      }
+    })
+  })
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+  return {
+    port: (server.address() as net.AddressInfo).port,
+    commands,
+    get data() {
+      return state.data
+    },
+    close: () => new Promise((resolve) => server.close(() => resolve())),
+  }
+}
+
+/**
+ * Options de connexion au serveur de test, qui ne propose pas STARTTLS
+ */
+function plaintextOptions(port: number) {
+  return { host: '127.0.0.1', port, starttls: false, allowPlaintextAuth: true }
+}
+
+const MESSAGE = {
+  from: 'Xhell Dashboard <alertes@example.com>',
+  to: ['moi@example.com', 'equipe@example.com'],
+  subject: '[Critique] Sonarr : Téléchargements en échec',
+  text: 'queueFailed = 3 (> 0)',
+}
+
+describe('smtp', () => {
+  let server: SmtpServer | null = null
+
+  afterEach(async () => {
+    await server?.close()
+    server = null
+  })
+
+  it('devrait envoyer un email authentifié', async () => {
+    server = await startSmtpServer()
+
+    await sendMail({ ...plaintextOptions(server.port), username: 'alertes', password: 'secret' }, MESSAGE)
+
+    expect(server.commands).toContain(`AUTH PLAIN ${Buffer.from('\0alertes\0secret').toString('base64')}`)
+    expect(server.commands).toContain('MAIL FROM:<alertes@example.com>')
+    expect(server.commands).toContain('RCPT TO:<moi@example.com>')
+    expect(server.commands).toContain('RCPT TO:<equipe@example.com>')
+    expect(server.commands.at(-1)).toBe('QUIT')
+    expect(server.data).toContain(
+      `Subject: =?UTF-8?B?${Buffer.from(MESSAGE.subject).toString('base64')}?=`
+    )
+    expect(server.data).toContain(Buffer.from(MESSAGE.text).toString('base64'))
+  })
+
+  it('devrait utiliser AUTH LOGIN si PLAIN n\'est pas proposé', async () => {
+    server = await startSmtpServer({ auth: 'LOGIN' })
+
+    await sendMail({ ...plaintextOptions(server.port), username: 'alertes', password: 'secret' }, MESSAGE)
+
+    expect(server.commands).toContain('AUTH LOGIN')
+    expect(server.commands).toContain(Buffer.from('alertes').toString('base64'))
+    expect(server.commands).toContain(Buffer.from('secret').toString('base64'))
+  })
+
+  it('devrait échouer avec la réponse du serveur si un destinataire est refusé', async () => {
+    server = await startSmtpServer({ rcptCode: 550 })
+
+    await expect(sendMail(plaintextOptions(server.port), MESSAGE)).rejects.toThrow(
+      'SMTP 550 Destinataire inconnu'
+    )
+  })
+
+  it('devrait échouer si le serveur est injoignable', async () => {
+    server = await startSmtpServer()
+    const { port } = server
+    await server.close()
+    server = null
+
+    await expect(sendMail(plaintextOptions(port), MESSAGE)).rejects.toThrow(/ECONNREFUSED/)
+  })
+
+  it('devrait refuser un serveur sans STARTTLS par défaut', async () => {
+    server = await startSmtpServer()
+
+    await expect(
+      sendMail({ host: '127.0.0.1', port: server.port, username: 'alertes', password: 'secret' }, MESSAGE)
+    ).rejects.toThrow('Le serveur ne propose pas STARTTLS')
+    expect(server.commands.some((command) => command.startsWith('AUTH'))).toBe(false)
+  })
+
+  it('ne devrait pas s\'authentifier en clair sans autorisation explicite', async () => {
+    server = await startSmtpServer()
+
+    await expect(
+      sendMail(
+        { host: '127.0.0.1', port: server.port, starttls: false, username: 'alertes', password: 'secret' },
+        MESSAGE
+      )
+    ).rejects.toThrow('Authentification refusée sur une connexion non chiffrée')
+    expect(server.commands.some((command) => command.startsWith('AUTH'))).toBe(false)
+  })
+
+  it('devrait retirer les retours à la ligne des en-têtes', async () => {
+    server = await startSmtpServer()
+
+    await sendMail(plaintextOptions(server.port), {
+      ...MESSAGE,
+      subject: 'Disque plein\r\nBcc: espion@example.com',
+    })
+
+    expect(server.data).toContain('Subject: Disque plein Bcc: espion@example.com\n')
+    expect(server.data).not.toMatch(/^Bcc:/m)
+  })
+})
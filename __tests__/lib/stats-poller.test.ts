@@ -0,0 +1,222 @@
+/**
+ * Tests pour la collecte des statistiques côté serveur
+ *
+ * Teste le cache partagé, le regroupement des requêtes simultanées,
+ * la gestion des erreurs et la sélection des applications à rafraîchir
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { getAppStats, pollApp, pollDueApps, getStatsPollStatuses, stopStatsPoller } from '@/lib/stats-poller'
+import { readApps } from '@/lib/db'
+import { recordMetrics } from '@/lib/metrics-history'
+import { evaluateAlerts } from '@/lib/alerts'
+import { publishEvent } from '@/lib/events'
+import { GET as sonarrStats } from '@/cards/sonarr/route'
+import { createTestApp } from '../setup/test-helpers'
+
+// Mock de la base de données
+vi.mock('@/lib/db', () => ({
+  readApps: vi.fn(),
+}))
+
+// Mock de l'historique des métriques
+vi.mock('@/lib/metrics-history', () => ({
+  recordMetrics: vi.fn(),
+  compactMetrics: vi.fn(),
+}))
+
+// Mock du bus d'événements temps réel
+vi.mock('@/lib/events', () => ({
+  publishEvent: vi.fn(),
+}))
+
+// Mock de l'évaluation des règles d'alerte
+vi.mock('@/lib/alerts', () => ({
+  evaluateAlerts: vi.fn(),
+}))
+
+// Mock du handler de la carte Sonarr
+vi.mock('@/cards/sonarr/route', () => ({
+  GET: vi.fn(),
+}))
+
+/**
+ * Réponse JSON renvoyée par le handler mocké
+ */
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  }) as Awaited<ReturnType<typeof sonarrStats>>
+}
+
+describe('stats-poller', () => {
+  const app = createTestApp({
+    id: 'sonarr',
+    name: 'Sonarr',
+    statsConfig: { templateId: 'sonarr', refreshInterval: 60000 },
+  })
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    vi.mocked(readApps).mockResolvedValue([app])
+    vi.mocked(recordMetrics).mockResolvedValue(1)
+    vi.mocked(evaluateAlerts).mockResolvedValue()
+  })
+
+  afterEach(() => {
+    stopStatsPoller()
+    vi.useRealTimers()
+    vi.restoreAllMocks()
+  })
+
+  describe('getAppStats', () => {
+    it('devrait collecter puis servir les statistiques depuis le cache', async () => {
+      vi.mocked(sonarrStats).mockResolvedValue(jsonResponse({ totalSeries: 12 }))
+
+      const first = await getAppStats(app)
+      const second = await getAppStats(app)
+
+      expect(first.status).toBe(200)
+      expect(second.body).toEqual({ totalSeries: 12 })
+      expect(second.poll.lastSuccessAt).not.toBeNull()
+      expect(sonarrStats).toHaveBeenCalledTimes(1)
+    })
+
+    it('devrait enregistrer les statistiques collectées dans l\'historique', async () => {
+      vi.mocked(sonarrStats).mockResolvedValue(jsonResponse({ totalSeries: 12 }))
+
+      await getAppStats(app)
+
+      expect(recordMetrics).toHaveBeenCalledWith('sonarr', 'sonarr', { totalSeries: 12 })
+    })
+
+    it('devrait évaluer les règles d\'alerte avec les statistiques collectées', async () => {
+      vi.mocked(sonarrStats).mockResolvedValue(jsonResponse({ totalSeries: 12 }))
+
+      await getAppStats(app)
+
+      expect(evaluateAlerts).toHaveBeenCalledWith(app, 'stats', { totalSeries: 12 })
+    })
+
+    it('devrait transmettre les statistiques et les changements d\'état aux clients', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] })
+      vi.mocked(sonarrStats)
+        .mockResolvedValueOnce(jsonResponse({ totalSeries: 12 }))
+        .mockRejectedValueOnce(new Error('ECONNREFUSED'))
+
+      await getAppStats(app)
+      expect(publishEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'stats', appId: 'sonarr', status: 200, body: { totalSeries: 12 } })
+      )
+      expect(publishEvent).not.toHaveBeenCalledWith(expect.objectContaining({ type: 'app-status' }))
+
+      vi.advanceTimersByTime(60000)
+      await getAppStats(app)
+      expect(publishEvent).toHaveBeenCalledWith({ type: 'app-status', appId: 'sonarr', ok: false, error: 'ECONNREFUSED' })
+    })
+
+    it('devrait partager une collecte entre les requêtes simultanées', async () => {
+      vi.mocked(sonarrStats).mockResolvedValue(jsonResponse({ totalSeries: 12 }))
+
+      await Promise.all([getAppStats(app), getAppStats(app), getAppStats(app)])
+
+      expect(sonarrStats).toHaveBeenCalledTimes(1)
+    })
+
+    it('devrait partager le cache entre les copies du module', async () => {
+      vi.mocked(sonarrStats).mockResolvedValue(jsonResponse({ totalSeries: 12 }))
+      await getAppStats(app)
+
+      // Next.js peut charger le module dans plusieurs bundles (instrumentation, routes)
+      vi.resetModules()
+      const copy = await import('@/lib/stats-poller')
+
+      expect(copy.getCachedStats()).toEqual([{ appId: 'sonarr', templateId: 'sonarr', data: { totalSeries: 12 } }])
+    })
+
+    it('devrait recollecter après l\'intervalle de rafraîchissement', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] })
+      vi.mocked(sonarrStats)
+        .mockResolvedValueOnce(jsonResponse({ totalSeries: 12 }))
+        .mockResolvedValueOnce(jsonResponse({ totalSeries: 13 }))
+
+      await getAppStats(app)
+      vi.advanceTimersByTime(60000)
+      const result = await getAppStats(app)
+
+      expect(result.body).toEqual({ totalSeries: 13 })
+      expect(sonarrStats).toHaveBeenCalledTimes(2)
+    })
+
+    it('devrait recollecter si la configuration de l\'app change', async () => {
+      vi.mocked(sonarrStats).mockResolvedValue(jsonResponse({ totalSeries: 12 }))
+
+      await getAppStats(app)
+      await getAppStats({ ...app, url: 'https://sonarr.local' })
+
+      expect(sonarrStats).toHaveBeenCalledTimes(2)
+    })
+
+    it('devrait retourner l\'erreur du handler si aucune donnée n\'est disponible', async () => {
+      vi.mocked(sonarrStats).mockResolvedValue(jsonResponse({ error: 'Clé API manquante' }, 400))
+
+      const result = await getAppStats(app)
+
+      expect(result.status).toBe(400)
+      expect(result.body).toEqual({ error: 'Clé API manquante' })
+      expect(result.poll.lastError).toBe('Clé API manquante')
+      expect(result.poll.consecutiveFailures).toBe(1)
+    })
+
+    it('devrait servir les dernières données valides après un échec', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] })
+      vi.mocked(sonarrStats)
+        .mockResolvedValueOnce(jsonResponse({ totalSeries: 12 }))
+        .mockRejectedValueOnce(new Error('ECONNREFUSED'))
+
+      await getAppStats(app)
+      vi.advanceTimersByTime(60000)
+      const result = await getAppStats(app)
+
+      expect(result.status).toBe(200)
+      expect(result.body).toEqual({ totalSeries: 12 })
+      expect(result.poll.lastError).toBe('ECONNREFUSED')
+      expect(result.poll.lastSuccessAt).not.toBeNull()
+      expect(result.poll.totalPolls).toBe(2)
+      expect(result.poll.totalFailures).toBe(1)
+    })
+  })
+
+  describe('pollDueApps', () => {
+    it('devrait collecter uniquement les applications avec un template', async () => {
+      vi.mocked(readApps).mockResolvedValue([app, createTestApp({ id: 'plain' })])
+      vi.mocked(sonarrStats).mockResolvedValue(jsonResponse({ totalSeries: 12 }))
+
+      await pollDueApps()
+
+      expect(sonarrStats).toHaveBeenCalledTimes(1)
+      expect(getStatsPollStatuses().map((status) => status.appId)).toEqual(['sonarr'])
+    })
+
+    it('ne devrait pas recollecter une application encore à jour', async () => {
+      vi.mocked(sonarrStats).mockResolvedValue(jsonResponse({ totalSeries: 12 }))
+
+      await pollApp(app)
+      await pollDueApps()
+
+      expect(sonarrStats).toHaveBeenCalledTimes(1)
+    })
+
+    it('devrait retirer du cache les applications supprimées', async () => {
+      vi.mocked(sonarrStats).mockResolvedValue(jsonResponse({ totalSeries: 12 }))
+      await pollApp(app)
+
+      vi.mocked(readApps).mockResolvedValue([])
+      await pollDueApps()
+
+      expect(getStatsPollStatuses()).toEqual([])
+    })
+  })
+})
@@ -16,9 +16,11 @@ import {
   updateUser,
   deleteUser,
   ensureDefaultAdmin,
+  findOrCreateExternalUser,
   isDefaultPasswordStillActive,
   getAllUsers,
   updateUserProfile,
+  replaceAllUsers,
 } from '@/lib/users'
 import { prisma } from '@/lib/prisma'
 import type { StoredUser } from '@/lib/users'
@@ -80,6 +82,8 @@ describe('users', () => {
         email: 'test@example.com',
         passwordHash: hash,
         role: 'user',
+        preferences: null,
+        externalAuth: false,
         createdAt: new Date(),
         updatedAt: new Date(),
       }
@@ -97,6 +101,8 @@ describe('users', () => {
         email: 'test@example.com',
         passwordHash: hash,
         role: 'user',
+        preferences: null,
+        externalAuth: false,
         createdAt: new Date(),
         updatedAt: new Date(),
       }
@@ -113,6 +119,8 @@ describe('users', () => {
         email: 'test@example.com',
         passwordHash: 'hash',
         role: 'user',
+        preferences: null,
+        externalAuth: false,
         createdAt: new Date(),
         updatedAt: new Date(),
       }
@@ -143,6 +151,8 @@ describe('users', () => {
         email: 'newuser@example.com',
         passwordHash: 'hashed-password',
         role: 'user',
+        preferences: null,
+        externalAuth: false,
         createdAt: new Date(),
         updatedAt: new Date(),
       }
@@ -172,6 +182,8 @@ describe('users', () => {
         email: 'existing@example.com',
         passwordHash: 'hash',
         role: 'user',
+        preferences: null,
+        externalAuth: false,
         createdAt: new Date(),
         updatedAt: new Date(),
       }
@@ -195,6 +207,8 @@ describe('users', () => {
         email: 'old@example.com',
         passwordHash: 'hash',
         role: 'user',
+        preferences: null,
+        externalAuth: false,
         createdAt: new Date(),
         updatedAt: new Date(),
       }
@@ -221,6 +235,8 @@ describe('users', () => {
         email: 'user@example.com',
         passwordHash: 'old-hash',
         role: 'user',
+        preferences: null,
+        externalAuth: false,
         createdAt: new Date(),
         updatedAt: new Date(),
       }
@@ -247,6 +263,8 @@ describe('users', () => {
         email: 'user@example.com',
         passwordHash: 'hash',
         role: 'user',
+        preferences: null,
+        externalAuth: false,
         createdAt: new Date(),
         updatedAt: new Date(),
       }
@@ -256,6 +274,8 @@ describe('users', () => {
         email: 'other@example.com',
         passwordHash: 'hash',
         role: 'user',
+        preferences: null,
+        externalAuth: false,
         createdAt: new Date(),
         updatedAt: new Date(),
       }
@@ -277,6 +297,8 @@ describe('users', () => {
         email: 'user@example.com',
         passwordHash: 'hash',
         role: 'user',
+        preferences: null,
+        externalAuth: false,
         createdAt: new Date(),
         updatedAt: new Date(),
       }
@@ -297,6 +319,8 @@ describe('users', () => {
         email: 'admin@example.com',
         passwordHash: 'hash',
         role: 'admin',
+        preferences: null,
+        externalAuth: false,
         createdAt: new Date(),
         updatedAt: new Date(),
       }
@@ -310,6 +334,98 @@ describe('users', () => {
     })
   })
 
+  describe('findOrCreateExternalUser', () => {
+    const oidcUser = {
+      id: 'oidc-user-id',
+      email: 'jane@example.com',
+      passwordHash: 'hash',
+      role: 'user',
+      externalAuth: true,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    } as StoredUser
+    const localAdmin = { ...oidcUser, id: 'local-admin-id', role: 'admin', externalAuth: false } as StoredUser
+
+    it('devrait créer l\'utilisateur à sa première connexion', async () => {
+      vi.mocked(prisma.user.findUnique).mockResolvedValue(null)
+      vi.mocked(prisma.user.create).mockResolvedValue(oidcUser)
+
+      expect(await findOrCreateExternalUser('Jane@example.com', 'user')).toEqual(oidcUser)
+
+      const createCall = vi.mocked(prisma.user.create).mock.calls[0][0]
+      expect(createCall.data.email).toBe('jane@example.com')
+      expect(createCall.data.role).toBe('user')
+      expect(createCall.data.externalAuth).toBe(true)
+      // Mot de passe aléatoire : connexion par OIDC uniquement
+      expect(createCall.data.passwordHash).toMatch(/^\$2[aby]\$/)
+    })
+
+    it('devrait aligner le rôle d\'un utilisateur existant sur ses groupes', async () => {
+      vi.mocked(prisma.user.findUnique).mockResolvedValue(oidcUser)
+      vi.mocked(prisma.user.update).mockResolvedValue({ ...oidcUser, role: 'admin' })
+
+      expect((await findOrCreateExternalUser('jane@example.com', 'admin'))?.role).toBe('admin')
+      expect(prisma.user.update).toHaveBeenCalledWith({
+        where: { id: 'oidc-user-id' },
+        data: { role: 'admin', externalAuth: true },
+      })
+      expect(prisma.user.create).not.toHaveBeenCalled()
+    })
+
+    it('ne devrait rien modifier si le rôle est inchangé', async () => {
+      vi.mocked(prisma.user.findUnique).mockResolvedValue(oidcUser)
+
+      expect(await findOrCreateExternalUser('jane@example.com', 'user')).toEqual(oidcUser)
+      expect(prisma.user.update).not.toHaveBeenCalled()
+    })
+
+    it('devrait refuser un compte local existant sans liaison autorisée', async () => {
+      vi.mocked(prisma.user.findUnique).mockResolvedValue(localAdmin)
+      vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+      expect(await findOrCreateExternalUser('jane@example.com', 'user')).toBeNull()
+      expect(prisma.user.update).not.toHaveBeenCalled()
+      expect(prisma.user.create).not.toHaveBeenCalled()
+    })
+
+    it('devrait lier un compte local existant si la liaison est autorisée', async () => {
+      vi.mocked(prisma.user.findUnique).mockResolvedValue(localAdmin)
+      vi.mocked(prisma.user.count).mockResolvedValue(2)
+      vi.mocked(prisma.user.update).mockResolvedValue({ ...localAdmin, role: 'user', externalAuth: true } as StoredUser)
+
+      expect((await findOrCreateExternalUser('jane@example.com', 'user', { linkExistingUsers: true }))?.role).toBe('user')
+      expect(prisma.user.update).toHaveBeenCalledWith({
+        where: { id: 'local-admin-id' },
+        data: { role: 'user', externalAuth: true },
+      })
+    })
+
+    it('ne devrait jamais rétrograder le dernier administrateur', async () => {
+      vi.mocked(prisma.user.findUnique).mockResolvedValue({ ...localAdmin, externalAuth: true } as StoredUser)
+      vi.mocked(prisma.user.count).mockResolvedValue(1)
+      vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+      const user = await findOrCreateExternalUser('jane@example.com', 'user')
+
+      expect(user?.role).toBe('admin')
+      expect(prisma.user.count).toHaveBeenCalledWith({ where: { role: 'admin' } })
+      expect(prisma.user.update).not.toHaveBeenCalled()
+    })
+
+    it('devrait garder le rôle du dernier administrateur lors de la liaison de son compte', async () => {
+      vi.mocked(prisma.user.findUnique).mockResolvedValue(localAdmin)
+      vi.mocked(prisma.user.count).mockResolvedValue(1)
+      vi.mocked(prisma.user.update).mockResolvedValue({ ...localAdmin, externalAuth: true } as StoredUser)
+      vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+      expect((await findOrCreateExternalUser('jane@example.com', 'user', { linkExistingUsers: true }))?.role).toBe('admin')
+      expect(prisma.user.update).toHaveBeenCalledWith({
+        where: { id: 'local-admin-id' },
+        data: { role: 'admin', externalAuth: true },
+      })
+    })
+  })
+
   describe('ensureDefaultAdmin', () => {
     it('devrait créer un admin par défaut si aucun n\'existe', async () => {
       vi.mocked(prisma.user.findFirst).mockResolvedValue(null) // Aucun admin
@@ -320,6 +436,8 @@ describe('users', () => {
         email: 'xhell-admin@example.com',
         passwordHash: 'hash',
         role: 'admin',
+        preferences: null,
+        externalAuth: false,
         createdAt: new Date(),
         updatedAt: new Date(),
       }
@@ -339,6 +457,8 @@ describe('users', () => {
         email: 'admin@example.com',
         passwordHash: 'hash',
         role: 'admin',
+        preferences: null,
+        externalAuth: false,
         createdAt: new Date(),
         updatedAt: new Date(),
       }
@@ -361,6 +481,8 @@ describe('users', () => {
         email: 'xhell-admin@example.com',
         passwordHash: hash,
         role: 'admin',
+        preferences: null,
+        externalAuth: false,
         createdAt: new Date(),
         updatedAt: new Date(),
       }
@@ -389,6 +511,8 @@ describe('users', () => {
         email: 'xhell-admin@example.com',
         passwordHash: hash,
         role: 'admin',
+        preferences: null,
+        externalAuth: false,
         createdAt: new Date(),
         updatedAt: new Date(),
       }
@@ -409,6 +533,8 @@ describe('users', () => {
           email: 'user1@example.com',
           passwordHash: 'hash1',
           role: 'user',
+          preferences: null,
+          externalAuth: false,
           createdAt: new Date(),
           updatedAt: new Date(),
         },
@@ -417,6 +543,8 @@ describe('users', () => {
           email: 'user2@example.com',
           passwordHash: 'hash2',
           role: 'admin',
+          preferences: null,
+          externalAuth: false,
           createdAt: new Date(),
           updatedAt: new Date(),
         },
@@ -441,6 +569,8 @@ describe('users', () => {
         email: 'old@example.com',
         passwordHash: 'old-hash',
         role: 'user',
+        preferences: null,
+        externalAuth: false,
         createdAt: new Date(),
         updatedAt: new Date(),
       }
@@ -461,5 +591,41 @@ describe('users', () => {
       expect(result).not.toHaveProperty('passwordHash')
     })
   })
-})
 
+  describe('replaceAllUsers', () => {
+    const admin: StoredUser = {
+      id: 'admin-id',
+      email: 'Admin@example.com',
+      passwordHash: 'hash',
+      role: 'admin',
+      preferences: { collapsedGroups: ['default:Médias'] },
+      externalAuth: false,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    }
+
+    it('devrait conserver les utilisateurs existants, leurs préférences et leurs jetons', async () => {
+      const tx = { user: { deleteMany: vi.fn(), upsert: vi.fn() } }
+
+      await replaceAllUsers(tx as any, [admin])
+
+      // Les autres utilisateurs sont supprimés (avec leurs jetons), les restaurés
+      // sont mis à jour sans être recréés, ce qui conserverait leurs jetons
+      expect(tx.user.deleteMany).toHaveBeenCalledWith({ where: { id: { notIn: ['admin-id'] } } })
+      const upsertCall = tx.user.upsert.mock.calls[0][0]
+      expect(upsertCall.where).toEqual({ id: 'admin-id' })
+      expect(upsertCall.update).toMatchObject({
+        email: 'admin@example.com',
+        preferences: { collapsedGroups: ['default:Médias'] },
+      })
+      expect(upsertCall.create).toMatchObject({ id: 'admin-id', role: 'admin' })
+    })
+
+    it('devrait refuser une liste sans administrateur', async () => {
+      const tx = { user: { deleteMany: vi.fn(), upsert: vi.fn() } }
+
+      await expect(replaceAllUsers(tx as any, [{ ...admin, role: 'user' }])).rejects.toThrow('au moins un administrateur')
+      expect(tx.user.deleteMany).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,149 @@
+/**
+ * Tests pour la configuration déclarative (dashboard.yaml)
+ *
+ * Teste la validation du fichier, le rechargement à chaud, la fusion avec
+ * les données du store et l'export au format YAML
+ */
+
+import { describe, it, expect, beforeAll, beforeEach, afterAll, vi } from 'vitest'
+import { promises as fs, unwatchFile } from 'fs'
+import os from 'os'
+import path from 'path'
+import { parse } from 'yaml'
+import { getDataStore } from '@/lib/data-store'
+import {
+  parseDashboardYaml,
+  loadDashboardYaml,
+  getDashboardYamlStatus,
+  exportDashboardYaml,
+} from '@/lib/yaml-config'
+import { readApps, readConfig } from '@/lib/db'
+import { createTestApp, createTestConfig, createTestWidget } from '../setup/test-helpers'
+
+// Mock du store de données
+vi.mock('@/lib/data-store', () => ({
+  getDataStore: vi.fn(),
+}))
+
+const VALID_YAML = `
+config:
+  theme: violet
+apps:
+  - id: sonarr
+    name: Sonarr
+    url: https://sonarr.example.com
+    apiKey: \${SONARR_API_KEY}
+widgets:
+  - id: clock
+    type: clock
+`
+
+describe('yaml-config', () => {
+  let tempDir: string
+  let filePath: string
+
+  beforeAll(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'xhell-dash-yaml-'))
+    filePath = path.join(tempDir, 'dashboard.yaml')
+    process.env.DASHBOARD_YAML_PATH = filePath
+  })
+
+  afterAll(async () => {
+    unwatchFile(filePath)
+    delete process.env.DASHBOARD_YAML_PATH
+    await fs.rm(tempDir, { recursive: true, force: true })
+  })
+
+  beforeEach(async () => {
+    vi.clearAllMocks()
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    await fs.rm(filePath, { force: true })
+    await loadDashboardYaml()
+  })
+
+  describe('parseDashboardYaml', () => {
+    it('devrait appliquer les valeurs par défaut des applications et widgets', () => {
+      const yaml = parseDashboardYaml(VALID_YAML)
+
+      expect(yaml.apps[0]).toMatchObject({ id: 'sonarr', logo: 'Globe', logoType: 'icon', apiKey: '${SONARR_API_KEY}' })
+      expect(yaml.widgets[0]).toEqual({ id: 'clock', type: 'clock', enabled: true })
+      expect(yaml.config).toEqual({ theme: 'violet' })
+    })
+
+    it('devrait signaler le chemin des champs invalides', () => {
+      const content = 'apps:\n  - id: a\n    name: A\n    url: pas-une-url\n'
+
+      expect(() => parseDashboardYaml(content)).toThrow(/apps\.0\.url/)
+    })
+
+    it('devrait refuser les IDs en double', () => {
+      const content = 'widgets:\n  - id: w\n    type: clock\n  - id: w\n    type: notes\n'
+
+      expect(() => parseDashboardYaml(content)).toThrow('IDs de widgets en double')
+    })
+  })
+
+  describe('chargement du fichier', () => {
+    it('devrait conserver la dernière version valide si le fichier devient invalide', async () => {
+      await fs.writeFile(filePath, VALID_YAML)
+      await loadDashboardYaml()
+
+      await fs.writeFile(filePath, 'apps: [')
+      await loadDashboardYaml()
+      const status = await getDashboardYamlStatus()
+
+      expect(status).toMatchObject({ active: true, apps: 1, widgets: 1, config: true })
+      expect(status.error).toContain('YAML mal formé')
+    })
+  })
+
+  describe('fusion avec le store (lib/db)', () => {
+    it('devrait marquer les éléments YAML et remplacer ceux du store ayant le même ID', async () => {
+      vi.mocked(getDataStore).mockResolvedValue({
+        readApps: vi.fn().mockResolvedValue([
+          createTestApp({ id: 'sonarr', name: 'Ancien Sonarr' }),
+          createTestApp({ id: 'plex', name: 'Plex' }),
+        ]),
+        readConfig: vi.fn().mockResolvedValue(createTestConfig()),
+      } as any)
+      process.env.SONARR_API_KEY = 'cle-sonarr'
+      await fs.writeFile(filePath, VALID_YAML)
+      await loadDashboardYaml()
+
+      const apps = await readApps()
+      const config = await readConfig()
+
+      expect(apps.map((app) => [app.id, app.name, app.source])).toEqual([
+        ['plex', 'Plex', undefined],
+        ['sonarr', 'Sonarr', 'yaml'],
+      ])
+      // Les références ${VAR} du YAML sont résolues comme celles du store
+      expect((apps[1] as any).apiKey).toBe('cle-sonarr')
+      expect(config).toMatchObject({ theme: 'violet', backgroundEffect: 'mesh-animated', source: 'yaml' })
+      delete process.env.SONARR_API_KEY
+    })
+  })
+
+  describe('exportDashboardYaml', () => {
+    it('devrait remplacer les secrets par des références et conserver les références existantes', () => {
+      const content = exportDashboardYaml(
+        [
+          createTestApp({ id: 'plex', plexToken: 'secret-en-clair', statValue: 42 }),
+          createTestApp({ id: 'sonarr', source: 'yaml', apiKey: '${SONARR_API_KEY}' } as any),
+        ],
+        [createTestWidget({ id: 'clock' })],
+        createTestConfig()
+      )
+
+      expect(content).not.toContain('secret-en-clair')
+      const exported = parse(content)
+      expect(exported.apps[0].plexToken).toBe('${PLEX_PLEXTOKEN}')
+      expect(exported.apps[0].statValue).toBeUndefined()
+      expect(exported.apps[1]).toMatchObject({ apiKey: '${SONARR_API_KEY}' })
+      expect(exported.apps[1].source).toBeUndefined()
+      // L'export peut être rechargé tel quel
+      expect(() => parseDashboardYaml(content)).not.toThrow()
+    })
+  })
+})
@@ -57,6 +57,8 @@ export function createTestUser(overrides?: Partial<StoredUser>): StoredUser {
     email: `test-${id}@example.com`,
     passwordHash: '$2a$10$dummy.hash.for.testing.purposes.only',
     role: 'user',
+    preferences: null,
+    externalAuth: false,
     createdAt: new Date(),
     updatedAt: new Date(),
     ...overrides,
@@ -0,0 +1,60 @@
+/**
+ * API Route pour les alertes
+ * 
+ * GET /api/alerts?status=firing&appId=sonarr&limit=50
+ * 
+ * Paramètres :
+ * - status : firing ou resolved (défaut : toutes)
+ * - appId : alertes d'une seule application
+ * - limit : nombre maximal d'alertes (défaut : 50, 500 maximum)
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { DEFAULT_ALERTS_LIMIT, readAlerts, type AlertStatus } from '@/lib/alerts'
+
+/**
+ * Nombre maximal d'alertes retournées
+ */
+const MAX_ALERTS_LIMIT = 500
+
+/**
+ * GET /api/alerts
+ * Retourne les alertes, les plus récentes d'abord
+ * Les mises à jour suivantes sont transmises par GET /api/events (événements alert).
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams
+
+    const status = searchParams.get('status')
+    if (status && status !== 'firing' && status !== 'resolved') {
+      return NextResponse.json(
+        { error: 'status doit être "firing" ou "resolved"' },
+        { status: 400 }
+      )
+    }
+
+    const limitParam = searchParams.get('limit')
+    const limit = limitParam ? parseInt(limitParam, 10) : DEFAULT_ALERTS_LIMIT
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_ALERTS_LIMIT) {
+      return NextResponse.json(
+        { error: `limit doit être compris entre 1 et ${MAX_ALERTS_LIMIT}` },
+        { status: 400 }
+      )
+    }
+
+    const alerts = await readAlerts({
+      status: (status as AlertStatus | null) ?? undefined,
+      appId: searchParams.get('appId') ?? undefined,
+      limit,
+    })
+
+    return NextResponse.json(alerts)
+  } catch (error) {
+    console.error('Erreur lors de la lecture des alertes:', error)
+    return NextResponse.json(
+      { error: 'Impossible de récupérer les alertes' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,126 @@
+/**
+ * API Route pour gérer une règle d'alerte (admin seulement)
+ * 
+ * PUT : Met à jour une règle
+ * DELETE : Supprime une règle (son alerte en cours est résolue)
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/auth'
+import { readApps } from '@/lib/db'
+import { deleteAlertRule, updateAlertRule, validateAlertRuleInput } from '@/lib/alerts'
+
+/**
+ * PUT /api/alerts/rules/[id]
+ * Remplace la configuration d'une règle (admin seulement)
+ * Body attendu : voir POST /api/alerts/rules
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Vérifier l'authentification et le rôle admin
+    const session = await auth()
+    
+    if (!session || !session.user) {
+      return NextResponse.json(
+        { error: 'Non authentifié' },
+        { status: 401 }
+      )
+    }
+
+    // @ts-expect-error - champ custom role
+    const userRole = session.user.role as string | undefined
+
+    if (userRole !== 'admin') {
+      return NextResponse.json(
+        { error: 'Accès refusé. Administrateur requis.' },
+        { status: 403 }
+      )
+    }
+
+    const { id } = await params
+    const body = await request.json()
+
+    const validationError = validateAlertRuleInput(body)
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      )
+    }
+
+    const apps = await readApps()
+    if (!apps.some((app) => app.id === body.appId)) {
+      return NextResponse.json(
+        { error: 'Application non trouvée' },
+        { status: 400 }
+      )
+    }
+
+    const rule = await updateAlertRule(id, body)
+    if (!rule) {
+      return NextResponse.json(
+        { error: 'Règle non trouvée' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(rule)
+  } catch (error) {
+    console.error('Erreur lors de la mise à jour de la règle d\'alerte:', error)
+    return NextResponse.json(
+      { error: 'Impossible de mettre à jour la règle d\'alerte' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/alerts/rules/[id]
+ * Supprime une règle (admin seulement)
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Vérifier l'authentification et le rôle admin
+    const session = await auth()
+    
+    if (!session || !session.user) {
+      return NextResponse.json(
+        { error: 'Non authentifié' },
+        { status: 401 }
+      )
+    }
+
+    // @ts-expect-error - champ custom role
+    const userRole = session.user.role as string | undefined
+
+    if (userRole !== 'admin') {
+      return NextResponse.json(
+        { error: 'Accès refusé. Administrateur requis.' },
+        { status: 403 }
+      )
+    }
+
+    const { id } = await params
+
+    if (!(await deleteAlertRule(id))) {
+      return NextResponse.json(
+        { error: 'Règle non trouvée' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ message: 'Règle supprimée avec succès' }, { status: 200 })
+  } catch (error) {
+    console.error('Erreur lors de la suppression de la règle d\'alerte:', error)
+    return NextResponse.json(
+      { error: 'Impossible de supprimer la règle d\'alerte' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,116 @@
+/**
+ * API Route pour gérer les règles d'alerte (admin seulement)
+ * 
+ * GET : Récupère la liste des règles
+ * POST : Crée une nouvelle règle
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/auth'
+import { readApps } from '@/lib/db'
+import { createAlertRule, readAlertRules, validateAlertRuleInput } from '@/lib/alerts'
+
+/**
+ * GET /api/alerts/rules
+ * Retourne la liste des règles d'alerte (admin seulement)
+ */
+export async function GET() {
+  try {
+    // Vérifier l'authentification et le rôle admin
+    const session = await auth()
+    
+    if (!session || !session.user) {
+      return NextResponse.json(
+        { error: 'Non authentifié' },
+        { status: 401 }
+      )
+    }
+
+    // @ts-expect-error - champ custom role
+    const userRole = session.user.role as string | undefined
+
+    if (userRole !== 'admin') {
+      return NextResponse.json(
+        { error: 'Accès refusé. Administrateur requis.' },
+        { status: 403 }
+      )
+    }
+
+    return NextResponse.json(await readAlertRules())
+  } catch (error) {
+    console.error('Erreur lors de la lecture des règles d\'alerte:', error)
+    return NextResponse.json(
+      { error: 'Impossible de récupérer les règles d\'alerte' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/alerts/rules
+ * Crée une règle d'alerte (admin seulement)
+ * 
+ * Body attendu :
+ * {
+ *   name: string
+ *   appId: string
+ *   source?: 'stats' | 'health' (défaut : stats)
+ *   key: string - ex: 'queueFailed', 'pools.*.status', 'latency'
+ *   operator: '>' | '>=' | '<' | '<=' | '==' | '!='
+ *   value: string | number
+ *   forDuration?: number, resolveAfter?: number, cooldown?: number - en millisecondes
+ *   severity?: 'warning' | 'critical' (défaut : warning)
+ *   enabled?: boolean
+ * }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Vérifier l'authentification et le rôle admin
+    const session = await auth()
+    
+    if (!session || !session.user) {
+      return NextResponse.json(
+        { error: 'Non authentifié' },
+        { status: 401 }
+      )
+    }
+
+    // @ts-expect-error - champ custom role
+    const userRole = session.user.role as string | undefined
+
+    if (userRole !== 'admin') {
+      return NextResponse.json(
+        { error: 'Accès refusé. Administrateur requis.' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+
+    const validationError = validateAlertRuleInput(body)
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      )
+    }
+
+    const apps = await readApps()
+    if (!apps.some((app) => app.id === body.appId)) {
+      return NextResponse.json(
+        { error: 'Application non trouvée' },
+        { status: 400 }
+      )
+    }
+
+    const rule = await createAlertRule(body)
+
+    return NextResponse.json(rule, { status: 201 })
+  } catch (error) {
+    console.error('Erreur lors de la création de la règle d\'alerte:', error)
+    return NextResponse.json(
+      { error: 'Impossible de créer la règle d\'alerte' },
+      { status: 500 }
+    )
+  }
+}
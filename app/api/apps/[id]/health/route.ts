@@ -0,0 +1,70 @@
+/**
+ * API Route pour la disponibilité d'une application
+ * 
+ * GET /api/apps/[id]/health?period=24h
+ * 
+ * Paramètres :
+ * - period : période de l'historique, nombre suivi de h ou d (défaut : 24h, 30d maximum)
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { readApps } from '@/lib/db'
+import { parseMetricsPeriod } from '@/lib/metrics-history'
+import {
+  HEALTH_HISTORY_RETENTION,
+  checkAppHealth,
+  getHealthCheckConfig,
+  getHealthHistory,
+  getHealthResult,
+} from '@/lib/health-checks'
+
+/**
+ * Période par défaut de l'historique
+ */
+const DEFAULT_HEALTH_PERIOD = '24h'
+
+/**
+ * GET /api/apps/[id]/health
+ * Retourne la dernière vérification, l'historique et la disponibilité sur la période
+ * L'application est vérifiée immédiatement si elle ne l'a pas encore été.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+
+    const period = request.nextUrl.searchParams.get('period') || DEFAULT_HEALTH_PERIOD
+    const periodMs = parseMetricsPeriod(period)
+    if (periodMs === null || periodMs > HEALTH_HISTORY_RETENTION) {
+      return NextResponse.json(
+        { error: 'Période invalide (exemples : 1h, 24h, 7d, 30 jours maximum)' },
+        { status: 400 }
+      )
+    }
+
+    const app = (await readApps()).find((app) => app.id === id)
+    if (!app) {
+      return NextResponse.json(
+        { error: 'Application non trouvée' },
+        { status: 404 }
+      )
+    }
+
+    if (!getHealthCheckConfig(app)) {
+      return NextResponse.json({ appId: id, enabled: false, current: null, period, uptime: null, checks: [] })
+    }
+
+    const current = getHealthResult(id) ?? (await checkAppHealth(app))
+    const history = await getHealthHistory(id, periodMs)
+
+    return NextResponse.json({ appId: id, enabled: true, current, period, ...history })
+  } catch (error) {
+    console.error('Erreur lors de la lecture de la disponibilité de l\'application:', error)
+    return NextResponse.json(
+      { error: 'Erreur lors de la lecture de la disponibilité de l\'application' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,83 @@
+/**
+ * API Route pour l'historique des métriques d'une application
+ * 
+ * GET /api/apps/[id]/metrics?key=totalMovies&period=7d
+ * 
+ * Paramètres :
+ * - key : clé de la métrique (obligatoire)
+ * - period : période couverte, nombre suivi de h ou d (défaut : 7d)
+ * - resolution : raw, hour ou day (défaut selon la période, voir getDefaultResolution)
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { readApps } from '@/lib/db'
+import {
+  DEFAULT_METRICS_PERIOD,
+  getDefaultResolution,
+  getMetricsHistory,
+  parseMetricsPeriod,
+  type MetricResolution,
+} from '@/lib/metrics-history'
+
+/**
+ * Résolutions acceptées par le paramètre resolution
+ */
+const RESOLUTIONS: MetricResolution[] = ['raw', 'hour', 'day']
+
+/**
+ * GET /api/apps/[id]/metrics
+ * Retourne les points de l'historique d'une métrique, triés par date croissante
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const searchParams = request.nextUrl.searchParams
+
+    const key = searchParams.get('key')
+    if (!key) {
+      return NextResponse.json(
+        { error: 'Le paramètre key est requis' },
+        { status: 400 }
+      )
+    }
+
+    const period = searchParams.get('period') || DEFAULT_METRICS_PERIOD
+    const periodMs = parseMetricsPeriod(period)
+    if (periodMs === null) {
+      return NextResponse.json(
+        { error: 'Période invalide (exemples : 24h, 7d, 30d)' },
+        { status: 400 }
+      )
+    }
+
+    const resolutionParam = searchParams.get('resolution')
+    if (resolutionParam && !RESOLUTIONS.includes(resolutionParam as MetricResolution)) {
+      return NextResponse.json(
+        { error: `Résolution invalide (valeurs possibles : ${RESOLUTIONS.join(', ')})` },
+        { status: 400 }
+      )
+    }
+    const resolution = (resolutionParam as MetricResolution | null) ?? getDefaultResolution(periodMs)
+
+    const apps = await readApps()
+    if (!apps.some((app) => app.id === id)) {
+      return NextResponse.json(
+        { error: 'Application non trouvée' },
+        { status: 404 }
+      )
+    }
+
+    const points = await getMetricsHistory(id, key, periodMs, resolution)
+
+    return NextResponse.json({ appId: id, key, period, resolution, points })
+  } catch (error) {
+    console.error('Erreur lors de la lecture de l\'historique des métriques:', error)
+    return NextResponse.json(
+      { error: 'Erreur lors de la lecture de l\'historique des métriques' },
+      { status: 500 }
+    )
+  }
+}
@@ -8,12 +8,21 @@
 
 import { NextRequest, NextResponse } from 'next/server'
 import { auth } from '@/auth'
-import { readApps, writeApps } from '@/lib/db'
+import { readApps, saveApp, deleteApp } from '@/lib/db'
+import { normalizeGroupName } from '@/lib/app-groups'
+import { validateHealthCheckConfig } from '@/lib/health-checks'
+import { validateTlsConfig } from '@/lib/app-tls'
+import { toPublicApp, withoutMaskedSecrets } from '@/lib/app-secrets'
+import { cardRegistry } from '@/lib/card-registry'
+import { validateCardSettings } from '@/lib/card-settings'
 import type { App, UpdateAppInput } from '@/lib/types'
 
+// Importer toutes les cartes pour qu'elles s'enregistrent (paramètres des cartes)
+import '@/cards'
+
 /**
  * GET /api/apps/[id]
- * Récupère une application par son ID
+ * Récupère une application par son ID (secrets masqués, voir lib/app-secrets.ts)
  */
 export async function GET(
   request: NextRequest,
@@ -35,7 +44,7 @@ export async function GET(
       )
     }
     
-    return NextResponse.json(app, { status: 200 })
+    return NextResponse.json(toPublicApp(app), { status: 200 })
   } catch (error) {
     console.error('Erreur lors de la récupération de l\'app:', error)
     return NextResponse.json(
@@ -48,6 +57,12 @@ export async function GET(
 /**
  * PUT /api/apps/[id]
  * Met à jour une application existante (admin seulement)
+ * 
+ * Les paramètres de la carte (voir CardDefinition.settings) sont validés sur
+ * l'application mise à jour. Les champs obligatoires ne sont exigés que si
+ * le body contient statsConfig (formulaire complet).
+ *
+ * Un secret absent du body, ou renvoyé sous sa forme masquée, est conservé.
  */
 export async function PUT(
   request: NextRequest,
@@ -76,9 +91,6 @@ export async function PUT(
 
     const { id } = await params
     
-    // Récupérer les données du body
-    const body: UpdateAppInput = await request.json()
-    
     // Lire les applications existantes
     const apps = await readApps()
     
@@ -91,6 +103,17 @@ export async function PUT(
         { status: 404 }
       )
     }
+
+    // Récupérer les données du body (les secrets masqués gardent leur valeur)
+    const body: UpdateAppInput = withoutMaskedSecrets(await request.json(), apps[appIndex])
+
+    // Les applications déclarées dans dashboard.yaml sont en lecture seule
+    if (apps[appIndex].source === 'yaml') {
+      return NextResponse.json(
+        { error: 'Application déclarée dans dashboard.yaml : modifiez le fichier pour la changer' },
+        { status: 409 }
+      )
+    }
     
     // Valider logoType si fourni
     if (body.logoType && body.logoType !== 'icon' && body.logoType !== 'url') {
@@ -123,6 +146,37 @@ export async function PUT(
         )
       }
     }
+
+    // Valider la vérification de disponibilité si fournie
+    const healthCheckError = validateHealthCheckConfig(body.healthCheck)
+    if (healthCheckError) {
+      return NextResponse.json(
+        { error: healthCheckError },
+        { status: 400 }
+      )
+    }
+
+    // Valider les options TLS si fournies
+    const tlsError = validateTlsConfig(body.tls)
+    if (tlsError) {
+      return NextResponse.json(
+        { error: tlsError },
+        { status: 400 }
+      )
+    }
+    
+    // Valider les paramètres déclarés par la carte du template
+    const templateId = body.statsConfig ? body.statsConfig.templateId : apps[appIndex].statsConfig?.templateId
+    const settings = cardRegistry.get(templateId ?? '')?.settings
+    const settingsError = settings
+      ? validateCardSettings(settings, { ...apps[appIndex], ...body }, { partial: !body.statsConfig })
+      : null
+    if (settingsError) {
+      return NextResponse.json(
+        { error: settingsError },
+        { status: 400 }
+      )
+    }
     
     // Mettre à jour l'application
     const updatedApp: App = {
@@ -130,14 +184,14 @@ export async function PUT(
       ...body,
       // S'assurer que l'id ne change pas
       id: apps[appIndex].id,
+      // Un groupe vide retire l'application de son groupe
+      group: body.group !== undefined ? normalizeGroupName(body.group) : apps[appIndex].group,
     }
     
-    apps[appIndex] = updatedApp
+    // Sauvegarder uniquement l'application modifiée
+    await saveApp(updatedApp, session.user.email ?? undefined)
     
-    // Sauvegarder
-    await writeApps(apps)
-    
-    return NextResponse.json(updatedApp, { status: 200 })
+    return NextResponse.json(toPublicApp(updatedApp), { status: 200 })
   } catch (error) {
     console.error('Erreur lors de la mise à jour de l\'app:', error)
     return NextResponse.json(
@@ -177,26 +231,26 @@ export async function DELETE(
     }
 
     const { id } = await params
-    
-    // Lire les applications existantes
+
+    // Les applications déclarées dans dashboard.yaml sont en lecture seule
     const apps = await readApps()
+    if (apps.find((app) => app.id === id)?.source === 'yaml') {
+      return NextResponse.json(
+        { error: 'Application déclarée dans dashboard.yaml : retirez-la du fichier pour la supprimer' },
+        { status: 409 }
+      )
+    }
     
-    // Trouver l'application à supprimer
-    const appIndex = apps.findIndex((app) => app.id === id)
+    // Supprimer l'application
+    const deleted = await deleteApp(id, session.user.email ?? undefined)
     
-    if (appIndex === -1) {
+    if (!deleted) {
       return NextResponse.json(
         { error: 'Application non trouvée' },
         { status: 404 }
       )
     }
     
-    // Supprimer l'application
-    apps.splice(appIndex, 1)
-    
-    // Sauvegarder
-    await writeApps(apps)
-    
     return NextResponse.json({ message: 'Application supprimée' }, { status: 200 })
   } catch (error) {
     console.error('Erreur lors de la suppression de l\'app:', error)
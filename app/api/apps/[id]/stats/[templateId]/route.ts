@@ -3,17 +3,25 @@
  * 
  * GET /api/apps/[id]/stats/[templateId]
  * 
- * Cette route délègue dynamiquement au handler de la carte correspondante
- * selon le templateId. Si la carte a un apiRouteHandler défini, il sera utilisé.
- * Sinon, une erreur sera retournée.
+ * Les statistiques sont collectées côté serveur par le planificateur
+ * (voir lib/stats-poller.ts) selon statsConfig.refreshInterval : cette route
+ * sert la dernière valeur en cache, partagée par tous les clients.
+ * Si le templateId demandé n'est pas celui configuré pour l'application,
+ * la requête est déléguée directement au handler de la carte.
+ * 
+ * En-têtes de réponse :
+ * - X-Stats-Last-Success : date de la dernière collecte réussie
+ * - X-Stats-Last-Error : message de la dernière erreur (si la dernière tentative a échoué)
  * 
  * Exemples :
- * - GET /api/apps/123/stats/plex → délègue à cards/plex/route.ts
- * - GET /api/apps/123/stats/sonarr → délègue à cards/sonarr/route.ts
+ * - GET /api/apps/123/stats/plex → cards/plex/route.ts
+ * - GET /api/apps/123/stats/sonarr → cards/sonarr/route.ts
  */
 
 import { NextRequest, NextResponse } from 'next/server'
 import { cardRegistry } from '@/lib/card-registry'
+import { readApps } from '@/lib/db'
+import { getAppStats, loadCardStatsHandler } from '@/lib/stats-poller'
 
 // Importer toutes les cartes pour qu'elles s'enregistrent
 // Cela garantit que le registre est peuplé avant d'utiliser les handlers
@@ -22,7 +30,7 @@ import '@/cards'
 /**
  * GET /api/apps/[id]/stats/[templateId]
  * 
- * Route dynamique qui délègue au handler de la carte correspondante
+ * Retourne les statistiques en cache de l'application
  * Le handler est chargé dynamiquement pour éviter d'importer fs dans les composants client
  */
 export async function GET(
@@ -45,13 +53,33 @@ export async function GET(
       )
     }
 
-    // Charger dynamiquement le handler API depuis le fichier route.ts de la carte
-    // Cela évite d'importer fs dans les composants client
+    const apps = await readApps()
+    const app = apps.find((a) => a.id === id)
+
+    if (!app) {
+      return NextResponse.json(
+        { error: 'Application non trouvée' },
+        { status: 404 }
+      )
+    }
+
+    // Template configuré : servir depuis le cache partagé
+    if (app.statsConfig?.templateId === templateId) {
+      const stats = await getAppStats(app)
+      const headers: Record<string, string> = {}
+      if (stats.poll.lastSuccessAt) {
+        headers['X-Stats-Last-Success'] = stats.poll.lastSuccessAt
+      }
+      if (stats.poll.lastError) {
+        headers['X-Stats-Last-Error'] = encodeURIComponent(stats.poll.lastError)
+      }
+      return NextResponse.json(stats.body, { status: stats.status, headers })
+    }
+
+    // Autre template : déléguer directement au handler de la carte
     let apiRouteHandler
     try {
-      // Import dynamique du handler (côté serveur uniquement)
-      const routeModule = await import(`@/cards/${templateId}/route`)
-      apiRouteHandler = routeModule.GET
+      apiRouteHandler = await loadCardStatsHandler(templateId)
     } catch (importError: any) {
       console.error(
         `Impossible de charger le handler API pour la carte "${templateId}":`,
@@ -76,7 +104,6 @@ export async function GET(
       )
     }
 
-    // Déléguer au handler de la carte
     // Le handler reçoit la requête et les paramètres (avec seulement l'id)
     return await apiRouteHandler(request, {
       params: Promise.resolve({ id }),
@@ -96,4 +123,3 @@ export async function GET(
     )
   }
 }
-
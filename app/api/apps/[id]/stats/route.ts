@@ -4,17 +4,19 @@
  * GET /api/apps/[id]/stats
  * Récupère les stats depuis l'API externe configurée dans statApiUrl
  * 
- * Si l'application a un template de stats configuré, redirige vers le handler spécialisé correspondant
+ * Si l'application a un template de stats configuré, sert les statistiques de la carte
+ * (cache partagé du planificateur, voir lib/stats-poller.ts)
  */
 
 import { NextRequest, NextResponse } from 'next/server'
 import { readApps } from '@/lib/db'
+import { getAppStats } from '@/lib/stats-poller'
 
 /**
  * GET /api/apps/[id]/stats
  * Récupère les statistiques depuis l'API externe
  * 
- * Si l'app a un template de stats (ex: plex, sonarr), redirige automatiquement vers le handler spécialisé
+ * Si l'app a un template de stats (ex: plex, sonarr), retourne les statistiques de sa carte
  */
 export async function GET(
   request: NextRequest,
@@ -37,22 +39,17 @@ export async function GET(
     }
 
     // Si l'app a un template de stats configuré et qu'on demande des stats détaillées
-    // on redirige vers le handler spécialisé correspondant
+    // on retourne celles de la carte, comme GET /api/apps/[id]/stats/[templateId]
     const searchParams = request.nextUrl.searchParams
     const detailed = searchParams.get('detailed') === 'true'
     const templateId = app.statsConfig?.templateId
     
     if (templateId && detailed) {
-      // Rediriger vers le handler spécialisé selon le templateId
-      const statsResponse = await fetch(`${request.nextUrl.origin}/api/apps/${id}/stats/${templateId}`, {
-        headers: {
-          'Content-Type': 'application/json',
-        },
-      })
-      
-      if (statsResponse.ok) {
-        const statsData = await statsResponse.json()
-        return NextResponse.json(statsData, { status: 200 })
+      // Appel direct du planificateur (pas de requête HTTP interne) : la requête
+      // est déjà authentifiée, quel que soit le mode (session, jeton d'API, proxy)
+      const stats = await getAppStats(app)
+      if (stats.status === 200) {
+        return NextResponse.json(stats.body, { status: 200 })
       }
     }
     
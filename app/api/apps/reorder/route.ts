@@ -6,12 +6,15 @@
  * Body attendu :
  * {
  *   appIds: string[] - Tableau des IDs d'apps dans le nouvel ordre
+ *   dashboardId?: string - Tableau de bord concerné (par défaut : tableau de bord principal)
+ *   groups?: Record<string, string | null> - Nouveau groupe des applications changées de groupe
  * }
  */
 
 import { NextRequest, NextResponse } from 'next/server'
 import { auth } from '@/auth'
-import { readApps, writeApps } from '@/lib/db'
+import { readApps, reorderApps } from '@/lib/db'
+import { DEFAULT_DASHBOARD_ID } from '@/lib/dashboards'
 
 /**
  * PATCH /api/apps/reorder
@@ -50,8 +53,8 @@ export async function PATCH(request: NextRequest) {
       )
     }
     
-    // Lire les applications existantes
-    const apps = await readApps()
+    // Lire les applications du tableau de bord concerné
+    const apps = await readApps(body.dashboardId || DEFAULT_DASHBOARD_ID)
     
     // Créer un Map pour un accès rapide aux apps par ID
     const appsMap = new Map(apps.map(app => [app.id, app]))
@@ -76,17 +79,37 @@ export async function PATCH(request: NextRequest) {
       )
     }
     
-    // Réordonner les apps selon le nouvel ordre fourni
-    const reorderedApps = body.appIds.map((id: string, index: number) => {
-      const app = appsMap.get(id)!
-      return {
-        ...app,
-        order: index,
+    // Valider les changements de groupe
+    const groups: Record<string, string | null> = body.groups ?? {}
+    if (typeof groups !== 'object' || Array.isArray(groups)) {
+      return NextResponse.json(
+        { error: 'Le champ groups doit être un objet' },
+        { status: 400 }
+      )
+    }
+    for (const [appId, group] of Object.entries(groups)) {
+      if (!appsMap.has(appId) || (group !== null && typeof group !== 'string')) {
+        return NextResponse.json(
+          { error: `Groupe invalide pour l'application ${appId}` },
+          { status: 400 }
+        )
+      }
+      if (appsMap.get(appId)?.source === 'yaml') {
+        return NextResponse.json(
+          { error: 'Application déclarée dans dashboard.yaml : modifiez le fichier pour changer son groupe' },
+          { status: 409 }
+        )
       }
-    })
+    }
     
-    // Sauvegarder
-    await writeApps(reorderedApps)
+    // Appliquer le nouvel ordre en une seule transaction
+    // (false : une application a été supprimée entre-temps)
+    if (!(await reorderApps(body.appIds, session.user.email ?? undefined, groups))) {
+      return NextResponse.json(
+        { error: 'Applications non trouvées : rechargez le tableau de bord' },
+        { status: 400 }
+      )
+    }
     
     return NextResponse.json({ message: 'Ordre mis à jour avec succès' }, { status: 200 })
   } catch (error) {
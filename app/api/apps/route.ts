@@ -1,23 +1,35 @@
 /**
  * API Route pour gérer les applications
  * 
- * GET : Récupère la liste de toutes les applications
+ * GET : Récupère la liste des applications (?dashboard=<id> pour un seul tableau de bord)
  * POST : Crée une nouvelle application
  */
 
 import { NextRequest, NextResponse } from 'next/server'
 import { auth } from '@/auth'
-import { readApps, writeApps, generateAppId } from '@/lib/db'
+import { readApps, saveApp, generateAppId, readDashboards } from '@/lib/db'
+import { DEFAULT_DASHBOARD_ID } from '@/lib/dashboards'
+import { normalizeGroupName } from '@/lib/app-groups'
+import { validateHealthCheckConfig } from '@/lib/health-checks'
+import { validateTlsConfig } from '@/lib/app-tls'
+import { toPublicApp } from '@/lib/app-secrets'
+import { cardRegistry } from '@/lib/card-registry'
+import { getCardSettings, validateCardSettings } from '@/lib/card-settings'
 import type { App, CreateAppInput } from '@/lib/types'
 
+// Importer toutes les cartes pour qu'elles s'enregistrent (paramètres des cartes)
+import '@/cards'
+
 /**
  * GET /api/apps
- * Retourne la liste de toutes les applications
+ * Retourne la liste des applications, éventuellement limitée à un tableau de bord
+ * Les secrets sont masqués (voir lib/app-secrets.ts).
  */
-export async function GET() {
+export async function GET(request: NextRequest) {
   try {
-    const apps = await readApps()
-    return NextResponse.json(apps, { status: 200 })
+    const dashboardId = request.nextUrl.searchParams.get('dashboard') || undefined
+    const apps = await readApps(dashboardId)
+    return NextResponse.json(apps.map(toPublicApp), { status: 200 })
   } catch (error) {
     console.error('Erreur lors de la lecture des apps:', error)
     return NextResponse.json(
@@ -39,6 +51,8 @@ export async function GET() {
  *   logoType: 'icon' | 'url'
  *   statApiUrl?: string
  *   statLabel?: string
+ *   dashboardId?: string - Tableau de bord (par défaut : tableau de bord principal)
+ *   ...paramètres de la carte du template (ex: apiKey, voir CardDefinition.settings)
  * }
  */
 export async function POST(request: NextRequest) {
@@ -103,9 +117,49 @@ export async function POST(request: NextRequest) {
         )
       }
     }
+
+    // Valider la vérification de disponibilité si fournie
+    const healthCheckError = validateHealthCheckConfig(body.healthCheck)
+    if (healthCheckError) {
+      return NextResponse.json(
+        { error: healthCheckError },
+        { status: 400 }
+      )
+    }
+
+    // Valider les options TLS si fournies
+    const tlsError = validateTlsConfig(body.tls)
+    if (tlsError) {
+      return NextResponse.json(
+        { error: tlsError },
+        { status: 400 }
+      )
+    }
     
-    // Lire les applications existantes
-    const apps = await readApps()
+    // Valider les paramètres déclarés par la carte du template
+    const settings = cardRegistry.get(body.statsConfig?.templateId ?? '')?.settings
+    const settingsError = settings ? validateCardSettings(settings, body) : null
+    if (settingsError) {
+      return NextResponse.json(
+        { error: settingsError },
+        { status: 400 }
+      )
+    }
+    
+    // Vérifier que le tableau de bord existe
+    const dashboardId = body.dashboardId || DEFAULT_DASHBOARD_ID
+    if (dashboardId !== DEFAULT_DASHBOARD_ID) {
+      const dashboards = await readDashboards()
+      if (!dashboards.some(dashboard => dashboard.id === dashboardId)) {
+        return NextResponse.json(
+          { error: 'Tableau de bord non trouvé' },
+          { status: 400 }
+        )
+      }
+    }
+    
+    // Lire les applications du tableau de bord
+    const apps = await readApps(dashboardId)
     
     // Déterminer l'ordre : utiliser celui fourni ou le dernier ordre + 1
     let order = body.order
@@ -127,18 +181,20 @@ export async function POST(request: NextRequest) {
       statApiUrl: body.statApiUrl,
       statLabel: body.statLabel,
       order,
+      dashboardId,
+      group: normalizeGroupName(body.group),
       plexToken: body.plexToken,
       plexServerUrl: body.plexServerUrl,
+      ...(settings ? getCardSettings(settings, body) : {}),
       statsConfig: body.statsConfig,
+      healthCheck: body.healthCheck,
+      tls: body.tls,
     }
     
-    // Ajouter à la liste
-    apps.push(newApp)
-    
-    // Sauvegarder
-    await writeApps(apps)
+    // Sauvegarder uniquement la nouvelle application
+    await saveApp(newApp, session.user.email ?? undefined)
     
-    return NextResponse.json(newApp, { status: 201 })
+    return NextResponse.json(toPublicApp(newApp), { status: 201 })
   } catch (error) {
     console.error('Erreur lors de la création de l\'app:', error)
     return NextResponse.json(
@@ -0,0 +1,101 @@
+/**
+ * API Route pour le test de connexion d'une application
+ *
+ * Endpoints :
+ * - POST /api/apps/test-connection : Diagnostic de connexion sur les valeurs du formulaire (admin seulement)
+ *
+ * Rien n'est enregistré : le handler de la carte est exécuté sur l'application
+ * telle qu'elle serait sauvegardée (voir lib/connection-test.ts).
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/auth'
+import { getSecretsToReenter, withoutMaskedSecrets } from '@/lib/app-secrets'
+import { cardRegistry } from '@/lib/card-registry'
+import { readApps } from '@/lib/db'
+import { testAppConnection } from '@/lib/connection-test'
+import type { App, CreateAppInput } from '@/lib/types'
+
+// Importer toutes les cartes pour qu'elles s'enregistrent (hooks testConnection)
+import '@/cards'
+
+/**
+ * ID attribué à une application pas encore créée le temps du test
+ */
+const UNSAVED_APP_ID = 'test-connection'
+
+/**
+ * POST /api/apps/test-connection
+ * Teste la connexion d'une application (DNS, TLS, authentification, version, statistiques)
+ *
+ * Body : valeurs du formulaire (CreateAppInput), avec `id` pour une application existante.
+ * Les champs absents du formulaire (ou secrets masqués) reprennent la valeur enregistrée,
+ * sauf les secrets si l'URL a changé : ils doivent alors être ressaisis (400).
+ *
+ * Le diagnostic est retourné avec le code 200 même si la connexion échoue.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Vérifier l'authentification et le rôle admin
+    const session = await auth()
+
+    if (!session || !session.user) {
+      return NextResponse.json(
+        { error: 'Non authentifié' },
+        { status: 401 }
+      )
+    }
+
+    // @ts-expect-error - champ custom role
+    const userRole = session.user.role as string | undefined
+
+    if (userRole !== 'admin') {
+      return NextResponse.json(
+        { error: 'Accès refusé. Administrateur requis.' },
+        { status: 403 }
+      )
+    }
+
+    const body: CreateAppInput & { id?: string } = await request.json()
+
+    if (!body.url || typeof body.url !== 'string') {
+      return NextResponse.json(
+        { error: 'Le champ url est obligatoire' },
+        { status: 400 }
+      )
+    }
+
+    const templateId = body.statsConfig?.templateId
+    const card = templateId ? cardRegistry.get(templateId) : undefined
+
+    if (templateId && !card) {
+      return NextResponse.json(
+        { error: `Carte "${templateId}" non trouvée` },
+        { status: 400 }
+      )
+    }
+
+    const stored = body.id ? (await readApps()).find((app) => app.id === body.id) : undefined
+    const secretsToReenter = stored ? getSecretsToReenter(body, stored) : []
+    if (secretsToReenter.length > 0) {
+      return NextResponse.json(
+        { error: `Les secrets doivent être ressaisis lorsque l'URL de l'application change : ${secretsToReenter.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const app = {
+      ...stored,
+      ...withoutMaskedSecrets(body, stored),
+      id: stored?.id ?? UNSAVED_APP_ID,
+    } as App
+
+    return NextResponse.json(await testAppConnection(app, card))
+  } catch (error) {
+    console.error('Erreur lors du test de connexion:', error)
+    return NextResponse.json(
+      { error: 'Erreur lors du test de connexion' },
+      { status: 500 }
+    )
+  }
+}
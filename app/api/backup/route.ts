@@ -0,0 +1,67 @@
+/**
+ * API Route pour la sauvegarde complète du dashboard
+ * 
+ * Endpoints :
+ * - GET /api/backup : Télécharge une archive de sauvegarde (admin seulement)
+ * 
+ * La phrase secrète qui chiffre les secrets de l'archive est transmise dans
+ * l'en-tête X-Backup-Passphrase (jamais dans l'URL, pour ne pas apparaître
+ * dans les journaux d'accès).
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/auth'
+import { createBackup, MIN_PASSPHRASE_LENGTH } from '@/lib/backup'
+
+/**
+ * GET /api/backup
+ * Génère une archive de sauvegarde (admin seulement)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Vérifier l'authentification et le rôle admin
+    const session = await auth()
+    
+    if (!session || !session.user) {
+      return NextResponse.json(
+        { error: 'Non authentifié' },
+        { status: 401 }
+      )
+    }
+
+    // @ts-expect-error - champ custom role
+    const userRole = session.user.role as string | undefined
+
+    if (userRole !== 'admin') {
+      return NextResponse.json(
+        { error: 'Accès refusé. Administrateur requis.' },
+        { status: 403 }
+      )
+    }
+
+    const passphrase = request.headers.get('x-backup-passphrase') || ''
+
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      return NextResponse.json(
+        { error: `La phrase secrète doit contenir au moins ${MIN_PASSPHRASE_LENGTH} caractères` },
+        { status: 400 }
+      )
+    }
+
+    const archive = await createBackup(passphrase)
+    const date = archive.createdAt.slice(0, 10)
+
+    return NextResponse.json(archive, {
+      headers: {
+        'Content-Disposition': `attachment; filename="xhell-dash-backup-${date}.json"`,
+        'Cache-Control': 'no-store',
+      },
+    })
+  } catch (error: any) {
+    console.error('Erreur lors de la création de la sauvegarde:', error)
+    return NextResponse.json(
+      { error: 'Erreur lors de la création de la sauvegarde' },
+      { status: 500 }
+    )
+  }
+}
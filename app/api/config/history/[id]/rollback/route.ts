@@ -0,0 +1,68 @@
+/**
+ * API Route pour le retour arrière vers une révision
+ * 
+ * Endpoints :
+ * - POST /api/config/history/[id]/rollback : Restaure le dashboard dans l'état de la révision (admin seulement)
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/auth'
+import { rollbackToRevision } from '@/lib/db'
+
+/**
+ * POST /api/config/history/[id]/rollback
+ * Restaure les applications, widgets et la configuration de la révision (admin seulement)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Vérifier l'authentification et le rôle admin
+    const session = await auth()
+    
+    if (!session || !session.user) {
+      return NextResponse.json(
+        { error: 'Non authentifié' },
+        { status: 401 }
+      )
+    }
+
+    // @ts-expect-error - champ custom role
+    const userRole = session.user.role as string | undefined
+
+    if (userRole !== 'admin') {
+      return NextResponse.json(
+        { error: 'Accès refusé. Administrateur requis.' },
+        { status: 403 }
+      )
+    }
+
+    const { id } = await params
+    const revisionId = parseInt(id, 10)
+
+    if (!Number.isInteger(revisionId) || revisionId <= 0) {
+      return NextResponse.json(
+        { error: 'ID de révision invalide' },
+        { status: 400 }
+      )
+    }
+
+    const restored = await rollbackToRevision(revisionId, session.user.email ?? undefined)
+
+    if (!restored) {
+      return NextResponse.json(
+        { error: 'Révision non trouvée' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ message: `Dashboard restauré à la révision #${revisionId}` })
+  } catch (error: any) {
+    console.error('Erreur lors du retour à une révision:', error)
+    return NextResponse.json(
+      { error: 'Erreur lors du retour à la révision' },
+      { status: 500 }
+    )
+  }
+}
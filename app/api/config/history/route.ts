@@ -0,0 +1,56 @@
+/**
+ * API Route pour l'historique des modifications du dashboard
+ * 
+ * Endpoints :
+ * - GET /api/config/history : Liste les révisions, de la plus récente à la plus ancienne (admin seulement)
+ *   Paramètre optionnel : ?limit=50
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/auth'
+import { listRevisions } from '@/lib/config-history'
+
+/**
+ * Nombre maximal de révisions retournées en une requête
+ */
+const MAX_LIMIT = 200
+
+/**
+ * GET /api/config/history
+ * Liste les révisions avec leurs modifications (admin seulement)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Vérifier l'authentification et le rôle admin
+    const session = await auth()
+    
+    if (!session || !session.user) {
+      return NextResponse.json(
+        { error: 'Non authentifié' },
+        { status: 401 }
+      )
+    }
+
+    // @ts-expect-error - champ custom role
+    const userRole = session.user.role as string | undefined
+
+    if (userRole !== 'admin') {
+      return NextResponse.json(
+        { error: 'Accès refusé. Administrateur requis.' },
+        { status: 403 }
+      )
+    }
+
+    const limitParam = parseInt(request.nextUrl.searchParams.get('limit') || '50', 10)
+    const limit = Number.isFinite(limitParam) ? Math.min(Math.max(limitParam, 1), MAX_LIMIT) : 50
+
+    const revisions = await listRevisions(limit)
+    return NextResponse.json(revisions)
+  } catch (error: any) {
+    console.error('Erreur lors de la lecture de l\'historique:', error)
+    return NextResponse.json(
+      { error: 'Erreur lors de la lecture de l\'historique' },
+      { status: 500 }
+    )
+  }
+}
@@ -60,27 +60,18 @@ export async function PUT(request: NextRequest) {
     // Lire la configuration actuelle
     const currentConfig = await readConfig()
 
-    // Migration: convertir spacing en density si présent dans les nouvelles valeurs
-    let mergedConfig = { ...config }
-    if (mergedConfig.stylePreset && typeof mergedConfig.stylePreset === 'object' && 'spacing' in mergedConfig.stylePreset && !('density' in mergedConfig.stylePreset)) {
-      const spacingToDensity: Record<string, 'compact' | 'normal' | 'comfortable'> = {
-        'compact': 'compact',
-        'normal': 'normal',
-        'spacious': 'comfortable',
-      }
-      const oldSpacing = (mergedConfig.stylePreset as any).spacing as string
-      const newDensity = spacingToDensity[oldSpacing] || 'normal'
-      mergedConfig.stylePreset = {
-        ...(mergedConfig.stylePreset as object),
-        density: newDensity,
-      } as any
-      delete (mergedConfig.stylePreset as any).spacing
+    // La configuration déclarée dans dashboard.yaml est en lecture seule
+    if (currentConfig.source === 'yaml') {
+      return NextResponse.json(
+        { error: 'Configuration déclarée dans dashboard.yaml : modifiez le fichier pour la changer' },
+        { status: 409 }
+      )
     }
 
     // Fusionner avec les nouvelles valeurs
     const updatedConfig: AppConfig = {
       ...currentConfig,
-      ...mergedConfig,
+      ...config,
     }
 
     // Valider que backgroundEffect est valide si fourni
@@ -144,7 +135,7 @@ export async function PUT(request: NextRequest) {
     }
 
     // Sauvegarder la configuration
-    await writeConfig(updatedConfig)
+    await writeConfig(updatedConfig, session.user.email ?? undefined)
 
     return NextResponse.json(updatedConfig)
   } catch (error: any) {
@@ -0,0 +1,57 @@
+/**
+ * API Route pour l'export de la configuration au format YAML
+ * 
+ * Endpoints :
+ * - GET /api/config/yaml/export : Télécharge l'état du dashboard au format dashboard.yaml (admin seulement)
+ *
+ * Les secrets ne sont pas exportés : ils sont remplacés par des références ${VAR}.
+ */
+
+import { NextResponse } from 'next/server'
+import { auth } from '@/auth'
+import { exportDashboardAsYaml } from '@/lib/db'
+
+/**
+ * GET /api/config/yaml/export
+ * Retourne le fichier dashboard.yaml en pièce jointe
+ */
+export async function GET() {
+  try {
+    // Vérifier l'authentification et le rôle admin
+    const session = await auth()
+    
+    if (!session || !session.user) {
+      return NextResponse.json(
+        { error: 'Non authentifié' },
+        { status: 401 }
+      )
+    }
+
+    // @ts-expect-error - champ custom role
+    const userRole = session.user.role as string | undefined
+
+    if (userRole !== 'admin') {
+      return NextResponse.json(
+        { error: 'Accès refusé. Administrateur requis.' },
+        { status: 403 }
+      )
+    }
+
+    const content = await exportDashboardAsYaml()
+
+    return new Response(content, {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/yaml; charset=utf-8',
+        'Content-Disposition': 'attachment; filename="dashboard.yaml"',
+        'Cache-Control': 'no-store',
+      },
+    })
+  } catch (error: any) {
+    console.error('Erreur lors de l\'export YAML:', error)
+    return NextResponse.json(
+      { error: 'Erreur lors de l\'export YAML' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,47 @@
+/**
+ * API Route pour la configuration déclarative (dashboard.yaml)
+ * 
+ * Endpoints :
+ * - GET /api/config/yaml : État du chargement du fichier dashboard.yaml (admin seulement)
+ */
+
+import { NextResponse } from 'next/server'
+import { auth } from '@/auth'
+import { getDashboardYamlStatus } from '@/lib/yaml-config'
+
+/**
+ * GET /api/config/yaml
+ * Retourne le chemin du fichier, la date du dernier chargement et l'éventuelle erreur
+ */
+export async function GET() {
+  try {
+    // Vérifier l'authentification et le rôle admin
+    const session = await auth()
+    
+    if (!session || !session.user) {
+      return NextResponse.json(
+        { error: 'Non authentifié' },
+        { status: 401 }
+      )
+    }
+
+    // @ts-expect-error - champ custom role
+    const userRole = session.user.role as string | undefined
+
+    if (userRole !== 'admin') {
+      return NextResponse.json(
+        { error: 'Accès refusé. Administrateur requis.' },
+        { status: 403 }
+      )
+    }
+
+    const status = await getDashboardYamlStatus()
+    return NextResponse.json(status)
+  } catch (error: any) {
+    console.error('Erreur lors de la lecture de l\'état de dashboard.yaml:', error)
+    return NextResponse.json(
+      { error: 'Erreur lors de la lecture de l\'état de dashboard.yaml' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,162 @@
+/**
+ * API Route pour gérer un tableau de bord spécifique
+ * 
+ * PUT /api/dashboards/[id] : Renomme un tableau de bord ou modifie son slug / son ordre
+ * DELETE /api/dashboards/[id] : Supprime un tableau de bord
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/auth'
+import { readDashboards, saveDashboard, deleteDashboard } from '@/lib/db'
+import { DEFAULT_DASHBOARD_ID, isValidSlug } from '@/lib/dashboards'
+import type { Dashboard } from '@/lib/types'
+
+/**
+ * PUT /api/dashboards/[id]
+ * Met à jour un tableau de bord (admin seulement)
+ * 
+ * Body attendu :
+ * {
+ *   name?: string
+ *   slug?: string
+ *   order?: number
+ * }
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Vérifier l'authentification et le rôle admin
+    const session = await auth()
+    
+    if (!session || !session.user) {
+      return NextResponse.json(
+        { error: 'Non authentifié' },
+        { status: 401 }
+      )
+    }
+
+    // @ts-expect-error - champ custom role
+    const userRole = session.user.role as string | undefined
+
+    if (userRole !== 'admin') {
+      return NextResponse.json(
+        { error: 'Accès refusé. Administrateur requis.' },
+        { status: 403 }
+      )
+    }
+
+    const { id } = await params
+    const body = await request.json()
+    
+    const dashboards = await readDashboards()
+    const current = dashboards.find(dashboard => dashboard.id === id)
+    
+    if (!current) {
+      return NextResponse.json(
+        { error: 'Tableau de bord non trouvé' },
+        { status: 404 }
+      )
+    }
+    
+    // Valider le nom si fourni
+    if (body.name !== undefined && (typeof body.name !== 'string' || !body.name.trim())) {
+      return NextResponse.json(
+        { error: 'Le nom ne peut pas être vide' },
+        { status: 400 }
+      )
+    }
+    
+    // Valider le slug si fourni
+    if (body.slug !== undefined) {
+      if (!isValidSlug(String(body.slug))) {
+        return NextResponse.json(
+          { error: 'Slug invalide : lettres minuscules, chiffres et tirets uniquement' },
+          { status: 400 }
+        )
+      }
+      if (dashboards.some(dashboard => dashboard.slug === body.slug && dashboard.id !== id)) {
+        return NextResponse.json(
+          { error: `Le slug « ${body.slug} » est déjà utilisé` },
+          { status: 409 }
+        )
+      }
+    }
+    
+    const updatedDashboard: Dashboard = {
+      ...current,
+      name: body.name !== undefined ? body.name.trim() : current.name,
+      slug: body.slug !== undefined ? String(body.slug) : current.slug,
+      order: typeof body.order === 'number' ? body.order : current.order,
+    }
+    
+    await saveDashboard(updatedDashboard, session.user.email ?? undefined)
+    
+    return NextResponse.json(updatedDashboard, { status: 200 })
+  } catch (error) {
+    console.error('Erreur lors de la mise à jour du tableau de bord:', error)
+    return NextResponse.json(
+      { error: 'Impossible de mettre à jour le tableau de bord' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/dashboards/[id]
+ * Supprime un tableau de bord (admin seulement)
+ * Ses applications et widgets sont déplacés sur le tableau de bord par défaut.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Vérifier l'authentification et le rôle admin
+    const session = await auth()
+    
+    if (!session || !session.user) {
+      return NextResponse.json(
+        { error: 'Non authentifié' },
+        { status: 401 }
+      )
+    }
+
+    // @ts-expect-error - champ custom role
+    const userRole = session.user.role as string | undefined
+
+    if (userRole !== 'admin') {
+      return NextResponse.json(
+        { error: 'Accès refusé. Administrateur requis.' },
+        { status: 403 }
+      )
+    }
+
+    const { id } = await params
+    
+    if (id === DEFAULT_DASHBOARD_ID) {
+      return NextResponse.json(
+        { error: 'Le tableau de bord par défaut ne peut pas être supprimé' },
+        { status: 400 }
+      )
+    }
+    
+    const deleted = await deleteDashboard(id, session.user.email ?? undefined)
+    
+    if (!deleted) {
+      return NextResponse.json(
+        { error: 'Tableau de bord non trouvé' },
+        { status: 404 }
+      )
+    }
+    
+    return NextResponse.json({ message: 'Tableau de bord supprimé avec succès' }, { status: 200 })
+  } catch (error) {
+    console.error('Erreur lors de la suppression du tableau de bord:', error)
+    return NextResponse.json(
+      { error: 'Impossible de supprimer le tableau de bord' },
+      { status: 500 }
+    )
+  }
+}
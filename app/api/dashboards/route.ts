@@ -0,0 +1,115 @@
+/**
+ * API Route pour gérer les tableaux de bord
+ * 
+ * GET : Récupère la liste des tableaux de bord
+ * POST : Crée un nouveau tableau de bord
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/auth'
+import { readDashboards, saveDashboard, generateDashboardId } from '@/lib/db'
+import { slugify, isValidSlug } from '@/lib/dashboards'
+import type { Dashboard } from '@/lib/types'
+
+/**
+ * GET /api/dashboards
+ * Retourne la liste des tableaux de bord triée par ordre
+ */
+export async function GET() {
+  try {
+    const dashboards = await readDashboards()
+    return NextResponse.json(dashboards, { status: 200 })
+  } catch (error) {
+    console.error('Erreur lors de la lecture des tableaux de bord:', error)
+    return NextResponse.json(
+      { error: 'Impossible de récupérer les tableaux de bord' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/dashboards
+ * Crée un nouveau tableau de bord (admin seulement)
+ * 
+ * Body attendu :
+ * {
+ *   name: string
+ *   slug?: string - Segment d'URL (/d/<slug>), déduit du nom par défaut
+ * }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Vérifier l'authentification et le rôle admin
+    const session = await auth()
+    
+    if (!session || !session.user) {
+      return NextResponse.json(
+        { error: 'Non authentifié' },
+        { status: 401 }
+      )
+    }
+
+    // @ts-expect-error - champ custom role
+    const userRole = session.user.role as string | undefined
+
+    if (userRole !== 'admin') {
+      return NextResponse.json(
+        { error: 'Accès refusé. Administrateur requis.' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+    const name = typeof body.name === 'string' ? body.name.trim() : ''
+    
+    // Valider le nom
+    if (!name) {
+      return NextResponse.json(
+        { error: 'Le champ name est obligatoire' },
+        { status: 400 }
+      )
+    }
+    
+    // Valider le slug (fourni ou déduit du nom)
+    const slug = body.slug ? String(body.slug) : slugify(name)
+    if (!isValidSlug(slug)) {
+      return NextResponse.json(
+        { error: 'Slug invalide : lettres minuscules, chiffres et tirets uniquement' },
+        { status: 400 }
+      )
+    }
+    
+    const dashboards = await readDashboards()
+    
+    // Le slug identifie le tableau de bord dans l'URL : il doit être unique
+    if (dashboards.some(dashboard => dashboard.slug === slug)) {
+      return NextResponse.json(
+        { error: `Le slug « ${slug} » est déjà utilisé` },
+        { status: 409 }
+      )
+    }
+    
+    // Placer le nouveau tableau de bord après les autres
+    const maxOrder = dashboards.reduce((max, dashboard) => {
+      return Math.max(max, dashboard.order ?? -1)
+    }, -1)
+    
+    const newDashboard: Dashboard = {
+      id: generateDashboardId(),
+      slug,
+      name,
+      order: maxOrder + 1,
+    }
+    
+    await saveDashboard(newDashboard, session.user.email ?? undefined)
+    
+    return NextResponse.json(newDashboard, { status: 201 })
+  } catch (error) {
+    console.error('Erreur lors de la création du tableau de bord:', error)
+    return NextResponse.json(
+      { error: 'Impossible de créer le tableau de bord' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,101 @@
+/**
+ * API Route pour les mises à jour temps réel du dashboard
+ * 
+ * GET /api/events : Flux Server-Sent Events (utilisateurs connectés)
+ * 
+ * Événements transmis (voir lib/events.ts) :
+ * - stats : nouvelles statistiques d'une application
+ * - app-status : une application passe en erreur ou redevient disponible
+ * - config : applications, widgets, tableaux de bord ou configuration modifiés
+ * 
+ * Un commentaire est envoyé toutes les 25 secondes pour garder la connexion
+ * ouverte à travers les proxies.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/auth'
+import { formatServerSentEvent, subscribeEvents } from '@/lib/events'
+
+// Flux ouvert en continu : ne jamais mettre en cache ni pré-rendre
+export const dynamic = 'force-dynamic'
+
+/**
+ * Intervalle entre deux commentaires de maintien de la connexion
+ */
+const HEARTBEAT_INTERVAL = 25000
+
+/**
+ * Délai de reconnexion suggéré au navigateur (ms)
+ */
+const RETRY_DELAY = 5000
+
+/**
+ * GET /api/events
+ * Ouvre le flux d'événements du dashboard
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth()
+
+    if (!session || !session.user) {
+      return NextResponse.json(
+        { error: 'Non authentifié' },
+        { status: 401 }
+      )
+    }
+
+    const encoder = new TextEncoder()
+    let cleanup = () => {}
+
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        const send = (chunk: string) => {
+          try {
+            controller.enqueue(encoder.encode(chunk))
+          } catch {
+            // Flux déjà fermé
+            cleanup()
+          }
+        }
+
+        const unsubscribe = subscribeEvents((event) => send(formatServerSentEvent(event)))
+        const heartbeat = setInterval(() => send(': ping\n\n'), HEARTBEAT_INTERVAL)
+
+        cleanup = () => {
+          clearInterval(heartbeat)
+          unsubscribe()
+        }
+
+        request.signal.addEventListener('abort', () => {
+          cleanup()
+          try {
+            controller.close()
+          } catch {
+            // Flux déjà fermé
+          }
+        })
+
+        send(`retry: ${RETRY_DELAY}\n: connecté\n\n`)
+      },
+      cancel() {
+        cleanup()
+      },
+    })
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream; charset=utf-8',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+        // Désactiver la mise en tampon de nginx
+        'X-Accel-Buffering': 'no',
+      },
+    })
+  } catch (error) {
+    console.error('Erreur lors de l\'ouverture du flux d\'événements:', error)
+    return NextResponse.json(
+      { error: 'Erreur lors de l\'ouverture du flux d\'événements' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,26 @@
+/**
+ * API Route pour l'état de disponibilité des applications
+ * 
+ * Endpoints :
+ * - GET /api/health-checks : Dernière vérification de chaque application
+ */
+
+import { NextResponse } from 'next/server'
+import { getHealthResults } from '@/lib/health-checks'
+
+/**
+ * GET /api/health-checks
+ * Retourne le dernier résultat de chaque application déjà vérifiée
+ * Les mises à jour suivantes sont transmises par GET /api/events (événements health).
+ */
+export async function GET() {
+  try {
+    return NextResponse.json({ results: getHealthResults() })
+  } catch (error) {
+    console.error('Erreur lors de la lecture de l\'état des applications:', error)
+    return NextResponse.json(
+      { error: 'Erreur lors de la lecture de l\'état des applications' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,63 @@
+/**
+ * API Route pour l'export Prometheus
+ *
+ * Endpoints :
+ * - GET /api/metrics : Métriques au format OpenMetrics (jeton METRICS_TOKEN requis)
+ *
+ * Le scraper s'authentifie avec l'en-tête Authorization: Bearer <METRICS_TOKEN>.
+ * L'export est désactivé tant que METRICS_TOKEN n'est pas défini.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { readApps } from '@/lib/db'
+import { getHealthResults } from '@/lib/health-checks'
+import { getCachedStats, getStatsPollStatuses } from '@/lib/stats-poller'
+import { isMetricsTokenValid, OPENMETRICS_CONTENT_TYPE, renderMetrics } from '@/lib/prometheus'
+
+// Valeurs lues à chaque requête : ne jamais mettre en cache ni pré-rendre
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/metrics
+ * Exporte les dernières valeurs collectées (statistiques, disponibilité, collectes)
+ * Aucune collecte n'est déclenchée : les valeurs suivent le rythme du planificateur.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const token = process.env.METRICS_TOKEN
+
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Export des métriques désactivé (METRICS_TOKEN non défini)' },
+        { status: 404 }
+      )
+    }
+
+    if (!isMetricsTokenValid(request.headers.get('authorization'), token)) {
+      return NextResponse.json(
+        { error: 'Jeton invalide' },
+        { status: 401, headers: { 'WWW-Authenticate': 'Bearer' } }
+      )
+    }
+
+    const body = renderMetrics({
+      apps: await readApps(),
+      stats: getCachedStats(),
+      health: getHealthResults(),
+      polls: getStatsPollStatuses(),
+    })
+
+    return new Response(body, {
+      headers: {
+        'Content-Type': OPENMETRICS_CONTENT_TYPE,
+        'Cache-Control': 'no-store',
+      },
+    })
+  } catch (error) {
+    console.error('Erreur lors de l\'export des métriques:', error)
+    return NextResponse.json(
+      { error: 'Erreur lors de l\'export des métriques' },
+      { status: 500 }
+    )
+  }
+}
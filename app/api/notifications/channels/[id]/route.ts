@@ -0,0 +1,145 @@
+/**
+ * API Route pour gérer un canal de notification (admin seulement)
+ * 
+ * PUT : Met à jour un canal
+ * DELETE : Supprime un canal
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/auth'
+import {
+  deleteNotificationChannel,
+  readNotificationChannels,
+  toPublicChannel,
+  updateNotificationChannel,
+  validateNotificationChannelInput,
+  withStoredChannelSecrets,
+} from '@/lib/notifications'
+
+/**
+ * PUT /api/notifications/channels/[id]
+ * Remplace la configuration d'un canal (admin seulement)
+ * Body attendu : voir POST /api/notifications/channels
+ * Un secret renvoyé sous sa forme masquée (réponse du GET) conserve sa valeur
+ * enregistrée, sauf si l'URL ou le serveur du canal change.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Vérifier l'authentification et le rôle admin
+    const session = await auth()
+    
+    if (!session || !session.user) {
+      return NextResponse.json(
+        { error: 'Non authentifié' },
+        { status: 401 }
+      )
+    }
+
+    // @ts-expect-error - champ custom role
+    const userRole = session.user.role as string | undefined
+
+    if (userRole !== 'admin') {
+      return NextResponse.json(
+        { error: 'Accès refusé. Administrateur requis.' },
+        { status: 403 }
+      )
+    }
+
+    const { id } = await params
+    const body = await request.json()
+
+    const stored = (await readNotificationChannels()).find((channel) => channel.id === id)
+    if (!stored) {
+      return NextResponse.json(
+        { error: 'Canal non trouvé' },
+        { status: 404 }
+      )
+    }
+
+    const config = body.config && typeof body.config === 'object'
+      ? withStoredChannelSecrets(body.config, stored)
+      : body.config
+    if (config === null) {
+      return NextResponse.json(
+        { error: 'Les secrets doivent être ressaisis lorsque l\'URL ou le serveur du canal change' },
+        { status: 400 }
+      )
+    }
+
+    const input = { ...body, config }
+    const validationError = validateNotificationChannelInput(input)
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      )
+    }
+
+    const channel = await updateNotificationChannel(id, input)
+    if (!channel) {
+      return NextResponse.json(
+        { error: 'Canal non trouvé' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(toPublicChannel(channel))
+  } catch (error) {
+    console.error('Erreur lors de la mise à jour du canal de notification:', error)
+    return NextResponse.json(
+      { error: 'Impossible de mettre à jour le canal de notification' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/notifications/channels/[id]
+ * Supprime un canal (admin seulement)
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Vérifier l'authentification et le rôle admin
+    const session = await auth()
+    
+    if (!session || !session.user) {
+      return NextResponse.json(
+        { error: 'Non authentifié' },
+        { status: 401 }
+      )
+    }
+
+    // @ts-expect-error - champ custom role
+    const userRole = session.user.role as string | undefined
+
+    if (userRole !== 'admin') {
+      return NextResponse.json(
+        { error: 'Accès refusé. Administrateur requis.' },
+        { status: 403 }
+      )
+    }
+
+    const { id } = await params
+
+    if (!(await deleteNotificationChannel(id))) {
+      return NextResponse.json(
+        { error: 'Canal non trouvé' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ message: 'Canal supprimé avec succès' }, { status: 200 })
+  } catch (error) {
+    console.error('Erreur lors de la suppression du canal de notification:', error)
+    return NextResponse.json(
+      { error: 'Impossible de supprimer le canal de notification' },
+      { status: 500 }
+    )
+  }
+}
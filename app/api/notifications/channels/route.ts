@@ -0,0 +1,109 @@
+/**
+ * API Route pour gérer les canaux de notification des alertes (admin seulement)
+ * 
+ * GET : Récupère la liste des canaux
+ * POST : Crée un nouveau canal
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/auth'
+import {
+  createNotificationChannel,
+  readNotificationChannels,
+  toPublicChannel,
+  validateNotificationChannelInput,
+} from '@/lib/notifications'
+
+/**
+ * GET /api/notifications/channels
+ * Retourne la liste des canaux de notification, secrets masqués (admin seulement)
+ */
+export async function GET() {
+  try {
+    // Vérifier l'authentification et le rôle admin
+    const session = await auth()
+    
+    if (!session || !session.user) {
+      return NextResponse.json(
+        { error: 'Non authentifié' },
+        { status: 401 }
+      )
+    }
+
+    // @ts-expect-error - champ custom role
+    const userRole = session.user.role as string | undefined
+
+    if (userRole !== 'admin') {
+      return NextResponse.json(
+        { error: 'Accès refusé. Administrateur requis.' },
+        { status: 403 }
+      )
+    }
+
+    const channels = await readNotificationChannels()
+    return NextResponse.json(channels.map(toPublicChannel))
+  } catch (error) {
+    console.error('Erreur lors de la lecture des canaux de notification:', error)
+    return NextResponse.json(
+      { error: 'Impossible de récupérer les canaux de notification' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/notifications/channels
+ * Crée un canal de notification (admin seulement)
+ * 
+ * Body attendu :
+ * {
+ *   name: string
+ *   type: 'webhook' | 'ntfy' | 'gotify' | 'discord' | 'slack' | 'apprise' | 'email'
+ *   config: object - paramètres du type (voir NotificationChannelConfig)
+ *   appIds?: string[] - applications dont toutes les alertes sont envoyées sur ce canal
+ *   enabled?: boolean
+ * }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Vérifier l'authentification et le rôle admin
+    const session = await auth()
+    
+    if (!session || !session.user) {
+      return NextResponse.json(
+        { error: 'Non authentifié' },
+        { status: 401 }
+      )
+    }
+
+    // @ts-expect-error - champ custom role
+    const userRole = session.user.role as string | undefined
+
+    if (userRole !== 'admin') {
+      return NextResponse.json(
+        { error: 'Accès refusé. Administrateur requis.' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+
+    const validationError = validateNotificationChannelInput(body)
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      )
+    }
+
+    const channel = await createNotificationChannel(body)
+
+    return NextResponse.json(toPublicChannel(channel), { status: 201 })
+  } catch (error) {
+    console.error('Erreur lors de la création du canal de notification:', error)
+    return NextResponse.json(
+      { error: 'Impossible de créer le canal de notification' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,94 @@
+/**
+ * API Route pour tester un canal de notification (admin seulement)
+ * 
+ * POST : Envoie un message de test avec la configuration fournie,
+ * sans l'enregistrer (bouton « Envoyer un test » du formulaire)
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/auth'
+import {
+  buildTestNotification,
+  getNotificationErrorMessage,
+  readNotificationChannels,
+  sendNotification,
+  validateChannelConfig,
+  withStoredChannelSecrets,
+} from '@/lib/notifications'
+
+/**
+ * POST /api/notifications/test
+ * Envoie un message de test (admin seulement)
+ * 
+ * Body attendu :
+ * {
+ *   type: 'webhook' | 'ntfy' | 'gotify' | 'discord' | 'slack' | 'apprise' | 'email'
+ *   config: object
+ *   id?: string - canal en cours de modification : ses secrets renvoyés
+ *     masqués sont remplacés par leur valeur enregistrée
+ * }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Vérifier l'authentification et le rôle admin
+    const session = await auth()
+    
+    if (!session || !session.user) {
+      return NextResponse.json(
+        { error: 'Non authentifié' },
+        { status: 401 }
+      )
+    }
+
+    // @ts-expect-error - champ custom role
+    const userRole = session.user.role as string | undefined
+
+    if (userRole !== 'admin') {
+      return NextResponse.json(
+        { error: 'Accès refusé. Administrateur requis.' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+
+    let config = body.config
+    const stored = body.id
+      ? (await readNotificationChannels()).find((channel) => channel.id === body.id)
+      : undefined
+    if (stored && config && typeof config === 'object') {
+      config = withStoredChannelSecrets(config, stored)
+      if (config === null) {
+        return NextResponse.json(
+          { error: 'Les secrets doivent être ressaisis lorsque l\'URL ou le serveur du canal change' },
+          { status: 400 }
+        )
+      }
+    }
+
+    const validationError = validateChannelConfig(body.type, config)
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      )
+    }
+
+    try {
+      await sendNotification(body.type, config, buildTestNotification())
+    } catch (error) {
+      return NextResponse.json(
+        { error: `Échec de l'envoi : ${getNotificationErrorMessage(error)}` },
+        { status: 502 }
+      )
+    }
+
+    return NextResponse.json({ message: 'Notification de test envoyée' })
+  } catch (error) {
+    console.error('Erreur lors du test du canal de notification:', error)
+    return NextResponse.json(
+      { error: 'Impossible de tester le canal de notification' },
+      { status: 500 }
+    )
+  }
+}
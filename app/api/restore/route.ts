@@ -0,0 +1,80 @@
+/**
+ * API Route pour la restauration complète du dashboard
+ * 
+ * Endpoints :
+ * - POST /api/restore : Restaure une archive de sauvegarde (admin seulement)
+ * 
+ * Corps attendu : { archive: BackupArchive, passphrase: string }
+ * Toutes les données existantes (applications, widgets, configuration,
+ * utilisateurs) sont remplacées par celles de l'archive.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/auth'
+import { parseBackupArchive, getBackupKey, restoreBackup } from '@/lib/backup'
+
+/**
+ * POST /api/restore
+ * Restaure une archive de sauvegarde (admin seulement)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Vérifier l'authentification et le rôle admin
+    const session = await auth()
+    
+    if (!session || !session.user) {
+      return NextResponse.json(
+        { error: 'Non authentifié' },
+        { status: 401 }
+      )
+    }
+
+    // @ts-expect-error - champ custom role
+    const userRole = session.user.role as string | undefined
+
+    if (userRole !== 'admin') {
+      return NextResponse.json(
+        { error: 'Accès refusé. Administrateur requis.' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+    const { archive, passphrase } = body
+
+    if (!archive || typeof passphrase !== 'string' || !passphrase) {
+      return NextResponse.json(
+        { error: 'L\'archive et la phrase secrète sont requises' },
+        { status: 400 }
+      )
+    }
+
+    // Valider l'archive avant toute modification
+    const parsed = parseBackupArchive(archive)
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: `Archive de sauvegarde invalide : ${parsed.error}` },
+        { status: 400 }
+      )
+    }
+
+    // Vérifier la phrase secrète
+    const key = getBackupKey(parsed.archive, passphrase)
+    if (!key) {
+      return NextResponse.json(
+        { error: 'Phrase secrète incorrecte' },
+        { status: 400 }
+      )
+    }
+
+    const summary = await restoreBackup(parsed.archive, key, session.user.email ?? undefined)
+
+    return NextResponse.json({ success: true, ...summary })
+  } catch (error: any) {
+    console.error('Erreur lors de la restauration de la sauvegarde:', error)
+    return NextResponse.json(
+      { error: 'Erreur lors de la restauration de la sauvegarde' },
+      { status: 500 }
+    )
+  }
+}
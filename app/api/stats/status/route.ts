@@ -0,0 +1,66 @@
+/**
+ * API Route pour l'état de la collecte des statistiques
+ * 
+ * Endpoints :
+ * - GET /api/stats/status : Dernière réussite / dernière erreur de chaque application (admin seulement)
+ */
+
+import { NextResponse } from 'next/server'
+import { auth } from '@/auth'
+import { readApps } from '@/lib/db'
+import { getStatsPollStatuses } from '@/lib/stats-poller'
+
+/**
+ * GET /api/stats/status
+ * Liste l'état de la collecte des applications ayant un template de statistiques (admin seulement)
+ * Les applications pas encore collectées ont des dates à null.
+ */
+export async function GET() {
+  try {
+    // Vérifier l'authentification et le rôle admin
+    const session = await auth()
+    
+    if (!session || !session.user) {
+      return NextResponse.json(
+        { error: 'Non authentifié' },
+        { status: 401 }
+      )
+    }
+
+    // @ts-expect-error - champ custom role
+    const userRole = session.user.role as string | undefined
+
+    if (userRole !== 'admin') {
+      return NextResponse.json(
+        { error: 'Accès refusé. Administrateur requis.' },
+        { status: 403 }
+      )
+    }
+
+    const apps = (await readApps()).filter((app) => app.statsConfig?.templateId)
+    const statuses = new Map(getStatsPollStatuses().map((status) => [status.appId, status]))
+
+    return NextResponse.json(
+      apps.map((app) => ({
+        appId: app.id,
+        appName: app.name,
+        templateId: app.statsConfig?.templateId,
+        lastAttemptAt: null,
+        lastSuccessAt: null,
+        lastError: null,
+        lastErrorAt: null,
+        lastDuration: null,
+        consecutiveFailures: 0,
+        totalPolls: 0,
+        totalFailures: 0,
+        ...statuses.get(app.id),
+      }))
+    )
+  } catch (error: any) {
+    console.error('Erreur lors de la lecture de l\'état des statistiques:', error)
+    return NextResponse.json(
+      { error: 'Erreur lors de la lecture de l\'état des statistiques' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,110 @@
+/**
+ * API Route pour les préférences d'affichage de l'utilisateur connecté
+ *
+ * Endpoints :
+ * - GET /api/users/preferences : Récupère les préférences (accessible à tous)
+ * - PUT /api/users/preferences : Met à jour les préférences (accessible à tous)
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/auth'
+import { findUserByEmail, getUserPreferences, updateUserPreferences } from '@/lib/users'
+import type { UserPreferences } from '@/lib/types'
+
+/**
+ * Nombre maximal de groupes repliés enregistrés
+ */
+const MAX_COLLAPSED_GROUPS = 200
+
+/**
+ * GET /api/users/preferences
+ * Récupère les préférences de l'utilisateur connecté
+ */
+export async function GET() {
+  try {
+    const session = await auth()
+
+    if (!session || !session.user || !session.user.email) {
+      return NextResponse.json(
+        { error: 'Non authentifié' },
+        { status: 401 }
+      )
+    }
+
+    const user = await findUserByEmail(session.user.email)
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Utilisateur introuvable' },
+        { status: 404 }
+      )
+    }
+
+    const preferences = await getUserPreferences(user.id)
+    return NextResponse.json(preferences)
+  } catch (error: any) {
+    console.error('Erreur lors de la récupération des préférences:', error)
+    return NextResponse.json(
+      { error: 'Erreur lors de la récupération des préférences' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * PUT /api/users/preferences
+ * Met à jour les préférences de l'utilisateur connecté
+ *
+ * Body attendu :
+ * {
+ *   collapsedGroups?: string[] - Groupes d'applications repliés
+ * }
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await auth()
+
+    if (!session || !session.user || !session.user.email) {
+      return NextResponse.json(
+        { error: 'Non authentifié' },
+        { status: 401 }
+      )
+    }
+
+    const user = await findUserByEmail(session.user.email)
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Utilisateur introuvable' },
+        { status: 404 }
+      )
+    }
+
+    const body = await request.json()
+    const preferences: UserPreferences = {}
+
+    // Valider les groupes repliés
+    if (body.collapsedGroups !== undefined) {
+      if (
+        !Array.isArray(body.collapsedGroups) ||
+        body.collapsedGroups.length > MAX_COLLAPSED_GROUPS ||
+        body.collapsedGroups.some((key: unknown) => typeof key !== 'string')
+      ) {
+        return NextResponse.json(
+          { error: `collapsedGroups doit être un tableau d'au plus ${MAX_COLLAPSED_GROUPS} chaînes` },
+          { status: 400 }
+        )
+      }
+      preferences.collapsedGroups = body.collapsedGroups
+    }
+
+    const updated = await updateUserPreferences(user.id, preferences)
+    return NextResponse.json(updated)
+  } catch (error: any) {
+    console.error('Erreur lors de la mise à jour des préférences:', error)
+    return NextResponse.json(
+      { error: 'Erreur lors de la mise à jour des préférences' },
+      { status: 500 }
+    )
+  }
+}
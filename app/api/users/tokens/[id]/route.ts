@@ -0,0 +1,64 @@
+/**
+ * API Route pour un jeton d'API personnel de l'utilisateur connecté
+ *
+ * Endpoints :
+ * - DELETE /api/users/tokens/[id] : Révoque le jeton (accessible à tous, pour ses propres jetons)
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/auth'
+import { findUserByEmail } from '@/lib/users'
+import { revokeApiToken } from '@/lib/api-tokens'
+
+/**
+ * DELETE /api/users/tokens/[id]
+ * Révoque un jeton de l'utilisateur connecté
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth()
+
+    if (!session || !session.user || !session.user.email) {
+      return NextResponse.json(
+        { error: 'Non authentifié' },
+        { status: 401 }
+      )
+    }
+
+    // Les jetons se gèrent depuis une session de connexion uniquement
+    if ('apiTokenId' in session.user) {
+      return NextResponse.json(
+        { error: 'Accès refusé. Les jetons d\'API se gèrent depuis une session de connexion.' },
+        { status: 403 }
+      )
+    }
+
+    const user = await findUserByEmail(session.user.email)
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Utilisateur introuvable' },
+        { status: 404 }
+      )
+    }
+
+    const { id } = await params
+    if (!(await revokeApiToken(user.id, id))) {
+      return NextResponse.json(
+        { error: 'Jeton non trouvé' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ message: 'Jeton révoqué avec succès' }, { status: 200 })
+  } catch (error) {
+    console.error('Erreur lors de la révocation du jeton d\'API:', error)
+    return NextResponse.json(
+      { error: 'Impossible de révoquer le jeton d\'API' },
+      { status: 500 }
+    )
+  }
+}
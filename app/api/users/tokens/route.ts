@@ -0,0 +1,120 @@
+/**
+ * API Route pour les jetons d'API personnels de l'utilisateur connecté
+ *
+ * Endpoints :
+ * - GET /api/users/tokens : Liste les jetons (accessible à tous)
+ * - POST /api/users/tokens : Crée un jeton (accessible à tous)
+ *
+ * Les jetons ne se gèrent que depuis une session de connexion : une requête
+ * authentifiée par jeton d'API reçoit une réponse 403.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/auth'
+import { findUserByEmail } from '@/lib/users'
+import { createApiToken, listApiTokens, validateApiTokenInput } from '@/lib/api-tokens'
+
+/**
+ * GET /api/users/tokens
+ * Liste les jetons de l'utilisateur connecté (sans leur valeur)
+ */
+export async function GET() {
+  try {
+    const session = await auth()
+
+    if (!session || !session.user || !session.user.email) {
+      return NextResponse.json(
+        { error: 'Non authentifié' },
+        { status: 401 }
+      )
+    }
+
+    // Un jeton d'API ne peut pas créer ou lister d'autres jetons
+    if ('apiTokenId' in session.user) {
+      return NextResponse.json(
+        { error: 'Accès refusé. Les jetons d\'API se gèrent depuis une session de connexion.' },
+        { status: 403 }
+      )
+    }
+
+    const user = await findUserByEmail(session.user.email)
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Utilisateur introuvable' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(await listApiTokens(user.id))
+  } catch (error) {
+    console.error('Erreur lors de la lecture des jetons d\'API:', error)
+    return NextResponse.json(
+      { error: 'Impossible de récupérer les jetons d\'API' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/users/tokens
+ * Crée un jeton pour l'utilisateur connecté
+ *
+ * Body attendu :
+ * {
+ *   name: string
+ *   scopes: ('read' | 'write' | 'admin')[] - admin réservé aux administrateurs
+ *   expiresAt?: string | null - date ISO 8601, absente pour un jeton sans expiration
+ * }
+ *
+ * La réponse contient le jeton en clair (`token`), qui n'est plus consultable ensuite.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth()
+
+    if (!session || !session.user || !session.user.email) {
+      return NextResponse.json(
+        { error: 'Non authentifié' },
+        { status: 401 }
+      )
+    }
+
+    // Un jeton d'API ne peut pas créer ou lister d'autres jetons
+    if ('apiTokenId' in session.user) {
+      return NextResponse.json(
+        { error: 'Accès refusé. Les jetons d\'API se gèrent depuis une session de connexion.' },
+        { status: 403 }
+      )
+    }
+
+    const user = await findUserByEmail(session.user.email)
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Utilisateur introuvable' },
+        { status: 404 }
+      )
+    }
+
+    const body = await request.json()
+
+    const validationError = validateApiTokenInput(body, user.role)
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      )
+    }
+
+    const { token, apiToken } = await createApiToken(user.id, body)
+
+    return NextResponse.json({ ...apiToken, token }, { status: 201 })
+  } catch (error) {
+    console.error('Erreur lors de la création du jeton d\'API:', error)
+    return NextResponse.json(
+      { error: 'Impossible de créer le jeton d\'API' },
+      { status: 500 }
+    )
+  }
+}
@@ -8,7 +8,7 @@
 
 import { NextRequest, NextResponse } from 'next/server'
 import { auth } from '@/auth'
-import { readWidgets, writeWidgets } from '@/lib/db'
+import { readWidgets, saveWidget, deleteWidget } from '@/lib/db'
 import type { Widget } from '@/lib/types'
 
 /**
@@ -82,18 +82,26 @@ export async function PUT(
         { status: 404 }
       )
     }
+
+    // Les widgets déclarés dans dashboard.yaml sont en lecture seule
+    if (widgets[widgetIndex].source === 'yaml') {
+      return NextResponse.json(
+        { error: 'Widget déclaré dans dashboard.yaml : modifiez le fichier pour le changer' },
+        { status: 409 }
+      )
+    }
     
     // Mettre à jour le widget
-    widgets[widgetIndex] = {
+    const updatedWidget: Widget = {
       ...widgets[widgetIndex],
       ...body,
       id, // S'assurer que l'ID ne change pas
     }
     
-    // Sauvegarder
-    await writeWidgets(widgets)
+    // Sauvegarder uniquement le widget modifié
+    await saveWidget(updatedWidget, session.user.email ?? undefined)
     
-    return NextResponse.json(widgets[widgetIndex], { status: 200 })
+    return NextResponse.json(updatedWidget, { status: 200 })
   } catch (error) {
     console.error('Erreur lors de la mise à jour du widget:', error)
     return NextResponse.json(
@@ -133,19 +141,25 @@ export async function DELETE(
     }
 
     const { id } = await params
+
+    // Les widgets déclarés dans dashboard.yaml sont en lecture seule
     const widgets = await readWidgets()
-    const filteredWidgets = widgets.filter(w => w.id !== id)
+    if (widgets.find((widget) => widget.id === id)?.source === 'yaml') {
+      return NextResponse.json(
+        { error: 'Widget déclaré dans dashboard.yaml : retirez-le du fichier pour le supprimer' },
+        { status: 409 }
+      )
+    }
+
+    const deleted = await deleteWidget(id, session.user.email ?? undefined)
     
-    if (filteredWidgets.length === widgets.length) {
+    if (!deleted) {
       return NextResponse.json(
         { error: 'Widget non trouvé' },
         { status: 404 }
       )
     }
     
-    // Sauvegarder
-    await writeWidgets(filteredWidgets)
-    
     return NextResponse.json({ success: true }, { status: 200 })
   } catch (error) {
     console.error('Erreur lors de la suppression du widget:', error)
@@ -2,11 +2,18 @@
  * API Route pour réordonner les widgets
  * 
  * PATCH : Met à jour l'ordre des widgets
+ *
+ * Body attendu :
+ * {
+ *   widgetIds: string[] - Tableau des IDs de widgets dans le nouvel ordre
+ *   dashboardId?: string - Tableau de bord concerné (par défaut : tableau de bord principal)
+ * }
  */
 
 import { NextRequest, NextResponse } from 'next/server'
 import { auth } from '@/auth'
-import { readWidgets, writeWidgets } from '@/lib/db'
+import { readWidgets, reorderWidgets } from '@/lib/db'
+import { DEFAULT_DASHBOARD_ID } from '@/lib/dashboards'
 
 /**
  * PATCH /api/widgets/reorder
@@ -44,30 +51,21 @@ export async function PATCH(request: NextRequest) {
       )
     }
     
-    // Lire les widgets existants
-    const widgets = await readWidgets()
+    // Lire les widgets du tableau de bord concerné
+    const widgets = await readWidgets(body.dashboardId || DEFAULT_DASHBOARD_ID)
     
-    // Créer un map pour un accès rapide
-    const widgetMap = new Map(widgets.map(w => [w.id, w]))
+    // Créer un set pour un accès rapide
+    const widgetIds = new Set(widgets.map(w => w.id))
     
-    // Réordonner selon l'ordre fourni
-    const reorderedWidgets = body.widgetIds.map((widgetId: string, index: number) => {
-      const widget = widgetMap.get(widgetId)
-      if (!widget) {
+    // Vérifier que tous les widgets fournis existent
+    for (const widgetId of body.widgetIds as string[]) {
+      if (!widgetIds.has(widgetId)) {
         throw new Error(`Widget ${widgetId} non trouvé`)
       }
-      return {
-        ...widget,
-        order: index + 1,
-      }
-    })
-    
-    // Ajouter les widgets qui ne sont pas dans la liste (au cas où)
-    const remainingWidgets = widgets.filter(w => !body.widgetIds.includes(w.id))
-    reorderedWidgets.push(...remainingWidgets)
+    }
     
-    // Sauvegarder
-    await writeWidgets(reorderedWidgets)
+    // Appliquer le nouvel ordre (les widgets absents de la liste gardent leur ordre)
+    await reorderWidgets(body.widgetIds, session.user.email ?? undefined)
     
     return NextResponse.json({ success: true }, { status: 200 })
   } catch (error: any) {
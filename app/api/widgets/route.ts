@@ -1,22 +1,24 @@
 /**
  * API Route pour gérer les widgets
  * 
- * GET : Récupère la liste de tous les widgets
+ * GET : Récupère la liste des widgets (?dashboard=<id> pour un seul tableau de bord)
  * POST : Crée un nouveau widget
  */
 
 import { NextRequest, NextResponse } from 'next/server'
 import { auth } from '@/auth'
-import { readWidgets, writeWidgets, generateWidgetId } from '@/lib/db'
+import { readWidgets, saveWidget, generateWidgetId, readDashboards } from '@/lib/db'
+import { DEFAULT_DASHBOARD_ID } from '@/lib/dashboards'
 import type { Widget, WidgetType } from '@/lib/types'
 
 /**
  * GET /api/widgets
- * Retourne la liste de tous les widgets
+ * Retourne la liste des widgets, éventuellement limitée à un tableau de bord
  */
-export async function GET() {
+export async function GET(request: NextRequest) {
   try {
-    const widgets = await readWidgets()
+    const dashboardId = request.nextUrl.searchParams.get('dashboard') || undefined
+    const widgets = await readWidgets(dashboardId)
     return NextResponse.json(widgets, { status: 200 })
   } catch (error) {
     console.error('Erreur lors de la lecture des widgets:', error)
@@ -63,8 +65,20 @@ export async function POST(request: NextRequest) {
       )
     }
     
-    // Lire les widgets existants
-    const widgets = await readWidgets()
+    // Vérifier que le tableau de bord existe
+    const dashboardId: string = body.dashboardId || DEFAULT_DASHBOARD_ID
+    if (dashboardId !== DEFAULT_DASHBOARD_ID) {
+      const dashboards = await readDashboards()
+      if (!dashboards.some(dashboard => dashboard.id === dashboardId)) {
+        return NextResponse.json(
+          { error: 'Tableau de bord non trouvé' },
+          { status: 400 }
+        )
+      }
+    }
+    
+    // Lire les widgets du tableau de bord
+    const widgets = await readWidgets(dashboardId)
     
     // Déterminer l'ordre du nouveau widget
     let order = 1
@@ -80,13 +94,11 @@ export async function POST(request: NextRequest) {
       enabled: body.enabled !== undefined ? body.enabled : true,
       config: body.config || {},
       order,
+      dashboardId,
     }
     
-    // Ajouter à la liste
-    widgets.push(newWidget)
-    
-    // Sauvegarder
-    await writeWidgets(widgets)
+    // Sauvegarder uniquement le nouveau widget
+    await saveWidget(newWidget, session.user.email ?? undefined)
     
     return NextResponse.json(newWidget, { status: 201 })
   } catch (error) {
@@ -0,0 +1,16 @@
+/**
+ * Page d'un tableau de bord nommé
+ * 
+ * Affiche le tableau de bord dont le slug correspond à l'URL (ex: /d/infra)
+ */
+
+import { DashboardView } from '@/components/DashboardView'
+
+export default async function DashboardPage({
+  params,
+}: {
+  params: Promise<{ slug: string }>
+}) {
+  const { slug } = await params
+  return <DashboardView slug={slug} />
+}
@@ -5,17 +5,20 @@
  * composants shadcn/ui. Le formulaire déclenche une Server Action
  * qui appelle `signIn("credentials")` fourni par Auth.js.
  *
+ * Si OpenID Connect est configuré (voir lib/oidc.ts), un bouton de connexion
+ * via le fournisseur est affiché ; le formulaire est masqué quand la connexion
+ * par mot de passe est désactivée (AUTH_DISABLE_PASSWORD_LOGIN).
+ *
  * Cette implémentation est volontairement minimaliste pour servir de base.
  * En production, il faudra :
- * - connecter le provider Credentials à une vraie base utilisateur
  * - gérer les messages d'erreur de façon plus fine (toast, etc.)
- * - éventuellement ajouter d'autres providers (GitHub, Google, ...)
  */
 
 import { redirect } from "next/navigation"
 import { AuthError } from "next-auth"
 import { signIn } from "@/auth"
 import { isDefaultPasswordStillActive } from "@/lib/users"
+import { OIDC_PROVIDER_ID, getOidcConfig, isPasswordLoginEnabled } from "@/lib/oidc"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
@@ -36,9 +39,13 @@ export default async function LoginPage({ searchParams }: LoginPageProps) {
   // URL de redirection après login réussi (par défaut, le dashboard racine)
   const callbackUrl = params.callbackUrl ?? "/"
 
+  // Méthodes de connexion proposées
+  const oidc = getOidcConfig()
+  const passwordLogin = isPasswordLoginEnabled()
+
   // Vérifie si le mot de passe admin par défaut est toujours actif
   // pour décider d'afficher ou non les instructions de connexion
-  const showDefaultCredentials = await isDefaultPasswordStillActive()
+  const showDefaultCredentials = passwordLogin && await isDefaultPasswordStillActive()
 
   return (
     <div className="min-h-screen flex items-center justify-center px-4">
@@ -52,63 +59,88 @@ export default async function LoginPage({ searchParams }: LoginPageProps) {
           {/* Message d'erreur simple basé sur le paramètre de la query string */}
           {params.error && (
             <p className="mb-4 text-sm text-red-500">
-              Échec de la connexion. Vérifiez vos identifiants.
+              {params.error === "AccessDenied"
+                ? "Accès refusé. Votre compte n'est pas autorisé à accéder au dashboard."
+                : "Échec de la connexion. Vérifiez vos identifiants."}
             </p>
           )}
 
+          {/* Connexion via le fournisseur OpenID Connect */}
+          {oidc && (
+            <form
+              action={async () => {
+                "use server"
+
+                // Redirige vers le fournisseur, puis vers callbackUrl après connexion
+                await signIn(OIDC_PROVIDER_ID, { redirectTo: callbackUrl })
+              }}
+              className={passwordLogin ? "mb-4" : undefined}
+            >
+              <Button type="submit" variant={passwordLogin ? "outline" : "default"} className="w-full">
+                Se connecter avec {oidc.name}
+              </Button>
+            </form>
+          )}
+
+          {oidc && passwordLogin && (
+            <p className="mb-4 text-xs text-muted-foreground text-center">ou</p>
+          )}
+
           {/* Formulaire géré par une Server Action */}
-          <form
-            action={async (formData) => {
-              "use server"
-
-              try {
-                // Appelle le provider "credentials" défini dans auth.ts
-                await signIn("credentials", formData)
-
-                // En cas de succès, on redirige vers la page souhaitée
-                redirect(callbackUrl)
-              } catch (error) {
-                // Gestion d'erreur recommandée par Auth.js
-                if (error instanceof AuthError) {
-                  const url = new URL("/login", process.env.AUTH_URL ?? "http://localhost:3000")
-                  url.searchParams.set("error", error.type)
-                  if (callbackUrl) {
-                    url.searchParams.set("callbackUrl", callbackUrl)
+          {passwordLogin && (
+            <form
+              action={async (formData) => {
+                "use server"
+
+                try {
+                  // Appelle le provider "credentials" défini dans auth.ts
+                  await signIn("credentials", formData)
+
+                  // En cas de succès, on redirige vers la page souhaitée
+                  redirect(callbackUrl)
+                } catch (error) {
+                  // Gestion d'erreur recommandée par Auth.js
+                  if (error instanceof AuthError) {
+                    const url = new URL("/login", process.env.AUTH_URL ?? "http://localhost:3000")
+                    url.searchParams.set("error", error.type)
+                    if (callbackUrl) {
+                      url.searchParams.set("callbackUrl", callbackUrl)
+                    }
+                    redirect(url.toString())
                   }
-                  redirect(url.toString())
+
+                  throw error
                 }
+              }}
+              className="space-y-4"
+            >
+              <div className="space-y-2">
+                <Label htmlFor="email">Email</Label>
+                <Input
+                  id="email"
+                  name="email"
+                  type="email"
+                  required
+                  placeholder="vous@example.com"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="password">Mot de passe</Label>
+                <Input
+                  id="password"
+                  name="password"
+                  type="password"
+                  required
+                  placeholder="••••••••"
+                />
+              </div>
 
-                throw error
-              }
-            }}
-            className="space-y-4"
-          >
-            <div className="space-y-2">
-              <Label htmlFor="email">Email</Label>
-              <Input
-                id="email"
-                name="email"
-                type="email"
-                required
-                placeholder="vous@example.com"
-              />
-            </div>
-
-            <div className="space-y-2">
-              <Label htmlFor="password">Mot de passe</Label>
-              <Input
-                id="password"
-                name="password"
-                type="password"
-                required
-                placeholder="••••••••"
-              />
-            </div>
-
-            <Button type="submit" className="w-full">
-              Se connecter
-            </Button>
-          </form>
+              <Button type="submit" className="w-full">
+                Se connecter
+              </Button>
+            </form>
+          )}
 
           {/* Petit texte d'aide pour la configuration de la démo */}
           {/* Affiche les identifiants ET pré-remplit si le mot de passe n'a pas été changé */}
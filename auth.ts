@@ -3,11 +3,24 @@
 // les helpers `auth`, `signIn`, `signOut` et les `handlers` pour l'API.
 
 import NextAuth from "next-auth"
+import type { Profile, Session } from "next-auth"
 import Credentials from "next-auth/providers/credentials"
+import type { Provider } from "next-auth/providers"
+import { headers } from "next/headers"
+import { getApiTokenSession, type ApiTokenSession } from "@/lib/api-tokens"
+import { getProxyAuthSession, type ProxyAuthSession } from "@/lib/proxy-auth"
+import {
+  OIDC_PROVIDER_ID,
+  getOidcConfig,
+  getOidcRole,
+  isPasswordLoginEnabled,
+} from "@/lib/oidc"
 import {
   ensureDefaultAdmin,
+  findOrCreateExternalUser,
   findUserByEmail,
   verifyPassword,
+  type UserRole,
 } from "@/lib/users"
 
 /**
@@ -21,61 +34,92 @@ import {
  * - login : xhell-admin
  * - mot de passe : Admin123!
  */
-export const { handlers, auth, signIn, signOut } = NextAuth({
+const credentialsProvider = Credentials({
+  // ID et nom visibles côté client
+  id: "credentials",
+  name: "Identifiants",
+  // Champs du formulaire que NextAuth va générer côté /api/auth/signin (non utilisé ici,
+  // on fait une page de login custom, mais c'est utile pour la config)
+  credentials: {
+    email: { label: "Email", type: "email" },
+    password: { label: "Mot de passe", type: "password" },
+  },
+  async authorize(credentials) {
+    try {
+      // On s'assure qu'un admin par défaut existe si nécessaire
+      await ensureDefaultAdmin()
+
+      const email = credentials?.email
+      const password = credentials?.password
+
+      // Vérification que les credentials sont présents et de type string
+      if (!email || !password || typeof email !== "string" || typeof password !== "string") {
+        console.log("[AUTH] Credentials invalides : email ou password manquant ou invalide")
+        return null
+      }
+
+      // Recherche de l'utilisateur dans la base via Prisma
+      const user = await findUserByEmail(email)
+      if (!user) {
+        console.log(`[AUTH] Utilisateur non trouvé : ${email}`)
+        return null
+      }
+
+      // Vérification du mot de passe à partir du hash stocké
+      const isValid = await verifyPassword(password, user)
+      if (!isValid) {
+        console.log(`[AUTH] Mot de passe incorrect pour : ${email}`)
+        return null
+      }
+
+      console.log(`[AUTH] Connexion réussie pour : ${email} (${user.role})`)
+
+      // L'objet retourné sera stocké dans le token / la session
+      return {
+        id: user.id,
+        name: user.email,
+        email: user.email,
+        role: user.role,
+      }
+    } catch (error) {
+      console.error("[AUTH] Erreur lors de l'authentification:", error)
+      return null
+    }
+  },
+})
+
+/**
+ * Provider OpenID Connect générique (Authentik, Keycloak...), si configuré
+ * (voir lib/oidc.ts). Les utilisateurs sont créés à leur première connexion
+ * et leur rôle suit leurs groupes chez le fournisseur.
+ */
+const oidc = getOidcConfig()
+const oidcProvider: Provider | null = oidc && {
+  id: OIDC_PROVIDER_ID,
+  name: oidc.name,
+  type: "oidc",
+  issuer: oidc.issuer,
+  clientId: oidc.clientId,
+  clientSecret: oidc.clientSecret,
+  authorization: { params: { scope: oidc.scopes } },
+}
+
+/**
+ * Rôle d'un utilisateur OIDC d'après son profil, null si la connexion est refusée
+ * (email absent ou non vérifié, aucun groupe autorisé)
+ */
+function getOidcProfileRole(profile: Profile | undefined): UserRole | null {
+  if (!oidc || !profile?.email || profile.email_verified === false) {
+    return null
+  }
+  return getOidcRole(profile, oidc)
+}
+
+const nextAuth = NextAuth({
   providers: [
-    Credentials({
-      // ID et nom visibles côté client
-      id: "credentials",
-      name: "Identifiants",
-      // Champs du formulaire que NextAuth va générer côté /api/auth/signin (non utilisé ici,
-      // on fait une page de login custom, mais c'est utile pour la config)
-      credentials: {
-        email: { label: "Email", type: "email" },
-        password: { label: "Mot de passe", type: "password" },
-      },
-      async authorize(credentials) {
-        try {
-          // On s'assure qu'un admin par défaut existe si nécessaire
-          await ensureDefaultAdmin()
-
-          const email = credentials?.email
-          const password = credentials?.password
-
-          // Vérification que les credentials sont présents et de type string
-          if (!email || !password || typeof email !== "string" || typeof password !== "string") {
-            console.log("[AUTH] Credentials invalides : email ou password manquant ou invalide")
-            return null
-          }
-
-          // Recherche de l'utilisateur dans la base via Prisma
-          const user = await findUserByEmail(email)
-          if (!user) {
-            console.log(`[AUTH] Utilisateur non trouvé : ${email}`)
-            return null
-          }
-
-          // Vérification du mot de passe à partir du hash stocké
-          const isValid = await verifyPassword(password, user)
-          if (!isValid) {
-            console.log(`[AUTH] Mot de passe incorrect pour : ${email}`)
-            return null
-          }
-
-          console.log(`[AUTH] Connexion réussie pour : ${email} (${user.role})`)
-
-          // L'objet retourné sera stocké dans le token / la session
-          return {
-            id: user.id,
-            name: user.email,
-            email: user.email,
-            role: user.role,
-          }
-        } catch (error) {
-          console.error("[AUTH] Erreur lors de l'authentification:", error)
-          return null
-        }
-      },
-    }),
+    // Connexion par mot de passe, désactivable avec AUTH_DISABLE_PASSWORD_LOGIN
+    ...(isPasswordLoginEnabled() ? [credentialsProvider] : []),
+    ...(oidcProvider ? [oidcProvider] : []),
   ],
   session: {
     // Utilise un JWT côté serveur pour la session, adapté aux apps stateless
@@ -84,14 +128,44 @@ export const { handlers, auth, signIn, signOut } = NextAuth({
   pages: {
     // Page de login custom (App Router : app/login/page.tsx)
     signIn: "/login",
+    // Erreurs de connexion (ex: OIDC refusé) affichées sur la page de login
+    error: "/login",
   },
   callbacks: {
+    /**
+     * Refuse une connexion OIDC sans email vérifié, hors des groupes autorisés
+     * ou vers un compte local non lié (voir OIDC_LINK_EXISTING_USERS)
+     */
+    async signIn({ account, profile }) {
+      if (account?.provider !== OIDC_PROVIDER_ID) {
+        return true
+      }
+      const oidcRole = getOidcProfileRole(profile)
+      if (!oidcRole || !profile?.email) {
+        console.log(`[AUTH] Connexion OIDC refusée pour : ${profile?.email ?? "email absent"}`)
+        return false
+      }
+      return (await findOrCreateExternalUser(profile.email, oidcRole, { linkExistingUsers: oidc?.linkExistingUsers })) !== null
+    },
+
     /**
      * Personnalise le contenu du JWT
      */
-    async jwt({ token, user }) {
-      // Lors de la première connexion, on fusionne les infos utilisateur
-      if (user) {
+    async jwt({ token, user, account, profile }) {
+      // Connexion OIDC : utilisateur créé ou mis à jour dans la table User
+      const oidcRole = account?.provider === OIDC_PROVIDER_ID ? getOidcProfileRole(profile) : null
+      if (oidcRole && profile?.email) {
+        const storedUser = await findOrCreateExternalUser(profile.email, oidcRole, { linkExistingUsers: oidc?.linkExistingUsers })
+        if (!storedUser) {
+          throw new Error("Compte local non lié au fournisseur OIDC")
+        }
+        token.id = storedUser.id
+        token.name = storedUser.email
+        token.email = storedUser.email
+        token.role = storedUser.role
+        console.log(`[AUTH] Connexion OIDC réussie pour : ${storedUser.email} (${storedUser.role})`)
+      } else if (user) {
+        // Lors de la première connexion, on fusionne les infos utilisateur
         token.id = user.id
         token.name = user.name
         token.email = user.email
@@ -122,4 +196,31 @@ export const { handlers, auth, signIn, signOut } = NextAuth({
   trustHost: true,
 })
 
+export const { handlers, signIn, signOut } = nextAuth
+
+/**
+ * Session de la requête en cours
+ *
+ * Dans l'ordre :
+ * - en-têtes d'un reverse proxy de confiance (Remote-User, Remote-Email,
+ *   Remote-Groups), si AUTH_TRUSTED_PROXIES est défini (voir lib/proxy-auth.ts)
+ * - session Auth.js (cookie)
+ * - jeton d'API personnel envoyé dans l'en-tête `Authorization: Bearer`
+ *   (voir lib/api-tokens.ts). Une session issue d'un jeton porte en plus
+ *   `user.apiTokenId` et `user.scopes`.
+ *
+ * @returns La session, ou null si la requête n'est pas authentifiée
+ */
+export async function auth(): Promise<Session | ProxyAuthSession | ApiTokenSession | null> {
+  const requestHeaders = await headers()
+  const proxySession = await getProxyAuthSession(requestHeaders)
+  if (proxySession) {
+    return proxySession
+  }
 
+  const session = await nextAuth.auth()
+  if (session?.user) {
+    return session
+  }
+  return getApiTokenSession(requestHeaders.get("authorization"))
+}
@@ -16,6 +16,7 @@ import type { CardDefinition } from '@/lib/card-registry'
 import type { StatsTemplate } from '@/lib/stats-templates'
 import type { StatsDisplayOptions } from '@/lib/types'
 import { TemplateStatsPanel } from './panel'
+import { templateSettings } from './settings'
 import { TemplateRecentItems } from './card-stat'
 // Note: Le handler API n'est pas importé ici car il utilise fs (côté serveur uniquement)
 // Il sera chargé dynamiquement dans la route API
@@ -73,6 +74,15 @@ const templateCard: CardDefinition = {
   // Le handler API sera chargé dynamiquement dans la route API
   // Ne pas l'importer ici car il utilise fs (côté serveur uniquement)
   apiRouteHandler: undefined, // Sera chargé dynamiquement
+
+  // Paramètres de connexion (optionnel)
+  // Le formulaire de l'application est généré à partir de cette déclaration
+  settings: templateSettings,
+
+  // Test de connexion du formulaire (optionnel)
+  // Vérifie les identifiants et retourne la version du service : { version, details }
+  // Les requêtes passent par upstreamFetch, reçu en second paramètre (voir cards/sonarr/connection.ts)
+  // testConnection: testTemplateConnection,
   
   // Composant React pour le panneau de stats détaillées (optionnel mais recommandé)
   // Si non fourni, aucun panneau ne sera affiché
@@ -11,7 +11,10 @@
 
 import { NextRequest, NextResponse } from 'next/server'
 import { readApps } from '@/lib/db'
+import { getCardSettings } from '@/lib/card-settings'
+import { createUpstreamClient, upstreamErrorResponse, type UpstreamClient } from '@/lib/upstream-client'
 import type { TemplateStats } from './types'
+import { templateSettings } from './settings'
 
 /**
  * GET /api/apps/[id]/stats/template
@@ -50,7 +53,8 @@ export async function GET(
     // Récupérer les informations de connexion depuis l'app
     // Adaptez selon votre API (token, clé API, URL, etc.)
     const apiUrl = app.url // ou un champ spécifique comme app.apiUrl
-    const apiKey = (app as any).apiKey // ou un champ spécifique selon votre configuration
+    // Les champs sont déclarés dans settings.ts
+    const { apiKey } = getCardSettings(templateSettings, app)
 
     if (!apiKey) {
       return NextResponse.json(
@@ -62,16 +66,15 @@ export async function GET(
     }
 
     // Récupérer les statistiques depuis l'API externe
-    const stats = await fetchTemplateStats(apiUrl, apiKey)
+    // Le client applique le timeout, les nouvelles tentatives et les options TLS de l'app
+    // Le nom du service (ici "Template") apparaît dans les messages d'erreur
+    const stats = await fetchTemplateStats(createUpstreamClient(app, 'Template'), apiUrl, apiKey)
 
     return NextResponse.json(stats, { status: 200 })
-  } catch (error: any) {
+  } catch (error) {
     console.error('Erreur lors de la récupération des stats:', error)
     
-    return NextResponse.json(
-      { error: error.message || 'Impossible de récupérer les statistiques' },
-      { status: 500 }
-    )
+    return upstreamErrorResponse(error, 'Impossible de récupérer les statistiques')
   }
 }
 
@@ -80,11 +83,12 @@ export async function GET(
  * 
  * Adaptez cette fonction selon l'API que vous utilisez
  * 
+ * @param client - Client HTTP de l'application
  * @param apiUrl - URL de base de l'API
  * @param apiKey - Clé API pour l'authentification
  * @returns Les statistiques formatées
  */
-async function fetchTemplateStats(apiUrl: string, apiKey: string): Promise<TemplateStats> {
+async function fetchTemplateStats(client: UpstreamClient, apiUrl: string, apiKey: string): Promise<TemplateStats> {
   const headers = {
     'X-Api-Key': apiKey, // Adaptez selon votre API
     'Accept': 'application/json',
@@ -92,16 +96,9 @@ async function fetchTemplateStats(apiUrl: string, apiKey: string): Promise<Templ
 
   // Exemple : récupérer les statistiques depuis l'API
   // Adaptez les endpoints selon votre API
-  const response = await fetch(`${apiUrl}/api/v1/stats`, {
-    headers,
-    signal: AbortSignal.timeout(10000),
-  })
-
-  if (!response.ok) {
-    throw new Error(`Erreur API: ${response.status}`)
-  }
-
-  const data = await response.json()
+  // client.json rejette une erreur "Erreur API Template: <code>" si la réponse n'est pas 2xx
+  // Utilisez client.fetch pour les requêtes optionnelles (réponse retournée telle quelle)
+  const data = await client.json<Partial<TemplateStats>>(`${apiUrl}/api/v1/stats`, { headers })
 
   // Transformer les données de l'API au format attendu
   // Adaptez selon la structure de votre API
@@ -0,0 +1,28 @@
+/**
+ * Paramètres de connexion de la carte Template
+ *
+ * Chaque champ est enregistré à la racine de l'application (ex: app.apiKey).
+ * Le formulaire est généré à partir de cette déclaration, les valeurs sont
+ * validées à l'enregistrement et les champs 'secret' sont chiffrés.
+ *
+ * Types de champs disponibles (voir lib/card-settings.ts) :
+ * text, url, secret, textarea, number, select
+ */
+
+import { defineCardSettings, settingField } from '@/lib/card-settings'
+
+export const templateSettings = defineCardSettings({
+  apiKey: settingField.secret({
+    label: 'Clé API',
+    required: true,
+    placeholder: 'Votre clé API',
+    description: 'Texte d\'aide affiché sous le champ',
+  }),
+  // Exemples d'autres types de champs :
+  // serverUrl: settingField.url({ label: 'URL du serveur', placeholder: 'http://localhost:8080' }),
+  // pageSize: settingField.number({ label: 'Éléments par page', min: 1, max: 100 }),
+  // mode: settingField.select({
+  //   label: 'Mode',
+  //   options: [{ value: 'local', label: 'Local' }, { value: 'cloud', label: 'Cloud' }],
+  // }),
+})
@@ -31,7 +31,6 @@ import { validateGenericStats } from './validation'
 import { useConnectivity } from '@/lib/connectivity'
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'
 import { WifiOff, AlertTriangle } from 'lucide-react'
-import { storeMetrics } from '@/lib/metrics-storage'
 import { getAdaptiveTimeout } from '@/lib/timeout-config'
 
 /**
@@ -155,29 +154,6 @@ export function GenericStatsPanel({ open, onOpenChange, appId, appName }: StatsP
             const now = Date.now()
             setLastUpdated(now)
 
-            // Stocker les métriques numériques dans l'historique pour les graphiques
-            // templateId est déjà défini plus haut
-            const metricsToStore: Array<{ appId: string; templateId: string; key: string; value: number; timestamp: number }> = []
-            
-            if (typeof data === 'object' && data !== null && !Array.isArray(data)) {
-                Object.entries(data).forEach(([key, value]) => {
-                    // Stocker uniquement les valeurs numériques
-                    if (typeof value === 'number' && !isNaN(value)) {
-                        metricsToStore.push({
-                            appId,
-                            templateId,
-                            key,
-                            value,
-                            timestamp: now,
-                        })
-                    }
-                })
-            }
-            
-            if (metricsToStore.length > 0) {
-                storeMetrics(metricsToStore)
-            }
-
             // Mettre en cache avec TTL de 5 minutes
             setCachedData(cacheKey, data, 300000)
         } catch (err: any) {
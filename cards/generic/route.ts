@@ -7,6 +7,7 @@
 
 import { NextRequest, NextResponse } from 'next/server'
 import { readApps } from '@/lib/db'
+import { createUpstreamClient, upstreamErrorResponse } from '@/lib/upstream-client'
 import type { GenericStats } from './types'
 
 /**
@@ -53,24 +54,16 @@ export async function GET(
       )
     }
 
-    // Faire la requête vers l'API externe
-    const response = await fetch(app.statApiUrl, {
+    // Faire la requête vers l'API externe (on suppose que l'API retourne du JSON)
+    const client = createUpstreamClient(app, app.name)
+    const data = await client.json<GenericStats>(app.statApiUrl, {
       method: 'GET',
       headers: {
         'Content-Type': 'application/json',
         'Accept': 'application/json',
       },
-      // Timeout de 10 secondes
-      signal: AbortSignal.timeout(10000),
     })
     
-    if (!response.ok) {
-      throw new Error(`API retourne une erreur: ${response.status} ${response.statusText}`)
-    }
-
-    // Récupérer les données (on suppose que l'API retourne du JSON)
-    const data: GenericStats = await response.json()
-    
     // Configurer le cache côté serveur (Next.js)
     // Revalidation toutes les 5 minutes, mais permet stale-while-revalidate pendant 10 minutes
     return NextResponse.json(data, {
@@ -79,24 +72,9 @@ export async function GET(
         'Cache-Control': 'public, s-maxage=300, stale-while-revalidate=600',
       },
     })
-  } catch (error: any) {
+  } catch (error) {
     console.error('Erreur lors de la récupération des stats génériques:', error)
     
-    // Gérer les erreurs de timeout
-    if (error.name === 'TimeoutError' || error.name === 'AbortError') {
-      return NextResponse.json(
-        { error: 'Timeout lors de la récupération des statistiques' },
-        { status: 504 }
-      )
-    }
-    
-    return NextResponse.json(
-      { 
-        error: error.message || 'Impossible de récupérer les statistiques',
-        hint: 'Vérifiez que l\'URL de l\'API est correcte et accessible.',
-      },
-      { status: 500 }
-    )
+    return upstreamErrorResponse(error, 'Impossible de récupérer les statistiques')
   }
 }
-
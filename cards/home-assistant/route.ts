@@ -8,7 +8,10 @@
 
 import { NextRequest, NextResponse } from 'next/server'
 import { readApps } from '@/lib/db'
+import { getCardSettings } from '@/lib/card-settings'
+import { createUpstreamClient, upstreamErrorResponse, type UpstreamClient } from '@/lib/upstream-client'
 import type { HomeAssistantStats, HomeAssistantRecentChange, HomeAssistantDomainStat } from './types'
+import { homeAssistantSettings } from './settings'
 
 /**
  * GET /api/apps/[id]/stats/home-assistant
@@ -46,7 +49,7 @@ export async function GET(
 
     // Récupérer les informations de connexion depuis l'app
     const apiUrl = app.url?.replace(/\/$/, '') || ''
-    const apiKey = (app as any).apiKey || (app as any).homeAssistantApiKey
+    const { apiKey } = getCardSettings(homeAssistantSettings, app)
 
     if (!apiKey) {
       return NextResponse.json(
@@ -67,43 +70,43 @@ export async function GET(
     }
 
     // Récupérer les statistiques depuis l'API Home Assistant
-    const stats = await fetchHomeAssistantStats(apiUrl, apiKey)
+    const stats = await fetchHomeAssistantStats(createUpstreamClient(app, 'Home Assistant'), apiUrl, apiKey)
 
     return NextResponse.json(stats, { status: 200 })
-  } catch (error: any) {
+  } catch (error) {
     console.error('Erreur lors de la récupération des stats Home Assistant:', error)
     
-    return NextResponse.json(
-      { error: error.message || 'Impossible de récupérer les statistiques Home Assistant' },
-      { status: 500 }
-    )
+    return upstreamErrorResponse(error, 'Impossible de récupérer les statistiques Home Assistant')
   }
 }
 
+/**
+ * État d'une entité retourné par GET /api/states
+ */
+interface HomeAssistantState {
+  entity_id: string
+  state: string
+  last_changed?: string
+  last_updated: string
+  attributes?: { friendly_name?: string }
+}
+
 /**
  * Récupère les statistiques depuis l'API Home Assistant
  * 
+ * @param client - Client HTTP de l'application
  * @param apiUrl - URL de base de l'API Home Assistant
  * @param apiKey - Token API pour l'authentification
  * @returns Les statistiques formatées
  */
-async function fetchHomeAssistantStats(apiUrl: string, apiKey: string): Promise<HomeAssistantStats> {
+async function fetchHomeAssistantStats(client: UpstreamClient, apiUrl: string, apiKey: string): Promise<HomeAssistantStats> {
   const headers = {
     'Authorization': `Bearer ${apiKey}`,
     'Content-Type': 'application/json',
   }
 
   // Récupérer tous les états
-  const statesResponse = await fetch(`${apiUrl}/api/states`, {
-    headers,
-    signal: AbortSignal.timeout(10000),
-  })
-
-  if (!statesResponse.ok) {
-    throw new Error(`Erreur API Home Assistant: ${statesResponse.status}`)
-  }
-
-  const states = await statesResponse.json()
+  const states = await client.json<HomeAssistantState[]>(`${apiUrl}/api/states`, { headers })
   const totalEntities = states.length || 0
 
   // Compter les entités actives/inactives
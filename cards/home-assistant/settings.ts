@@ -0,0 +1,17 @@
+/**
+ * Paramètres de connexion Home Assistant (token Bearer)
+ *
+ * Déclarés dans la CardDefinition (formulaire, validation, chiffrement)
+ * et lus par route.ts.
+ */
+
+import { defineCardSettings, settingField } from '@/lib/card-settings'
+
+export const homeAssistantSettings = defineCardSettings({
+  apiKey: settingField.secret({
+    label: 'Token API (Long-Lived Access Token)',
+    required: true,
+    placeholder: 'Votre token d\'accès Home Assistant',
+    description: 'Créez un Long-Lived Access Token dans votre profil Home Assistant (Settings → People → [Votre utilisateur] → Long-Lived Access Tokens).',
+  }),
+})
@@ -8,7 +8,11 @@
 
 import { NextRequest, NextResponse } from 'next/server'
 import { readApps } from '@/lib/db'
+import { getCardSettings } from '@/lib/card-settings'
+import { resolveKubeconfig, type KubeconfigConnection } from '@/lib/kubeconfig'
+import { createUpstreamClient, upstreamErrorResponse, type UpstreamClient } from '@/lib/upstream-client'
 import type { KubernetesStats, KubernetesNamespaceStat } from './types'
+import { kubernetesSettings } from './settings'
 
 /**
  * GET /api/apps/[id]/stats/kubernetes
@@ -45,87 +49,110 @@ export async function GET(
     }
 
     // Récupérer les informations de connexion depuis l'app
-    const apiUrl = app.url?.replace(/\/$/, '') || ''
-    const kubeconfig = (app as any).kubeconfig
-    const token = (app as any).token || (app as any).kubernetesToken
+    const { kubeconfig, context, token } = getCardSettings(kubernetesSettings, app)
 
-    if (!apiUrl) {
+    // Kubernetes nécessite soit un token, soit un kubeconfig
+    if (!token && !kubeconfig) {
       return NextResponse.json(
         { 
-          error: 'URL non configurée. Veuillez configurer l\'URL de l\'API Kubernetes dans les paramètres de l\'application.',
+          error: 'Authentification non configurée. Veuillez configurer soit un token, soit un kubeconfig dans les paramètres de l\'application.',
         },
         { status: 400 }
       )
     }
 
-    // Kubernetes nécessite soit un token, soit un kubeconfig
-    if (!token && !kubeconfig) {
+    // Résoudre le contexte du kubeconfig (cluster, autorité, identifiants)
+    let connection: KubeconfigConnection | undefined
+    if (kubeconfig) {
+      try {
+        connection = await resolveKubeconfig(kubeconfig, context)
+      } catch (error) {
+        return NextResponse.json(
+          { error: error instanceof Error ? error.message : 'kubeconfig invalide' },
+          { status: 400 }
+        )
+      }
+    }
+
+    // L'URL de l'application est prioritaire sur celle du cluster : le kubeconfig
+    // d'un k3s pointe sur https://127.0.0.1:6443, injoignable depuis le dashboard
+    const apiUrl = app.url?.replace(/\/$/, '') || connection?.server || ''
+
+    if (!apiUrl) {
       return NextResponse.json(
         { 
-          error: 'Authentification non configurée. Veuillez configurer soit un token, soit un kubeconfig dans les paramètres de l\'application.',
+          error: 'URL non configurée. Veuillez configurer l\'URL de l\'API Kubernetes dans les paramètres de l\'application.',
         },
         { status: 400 }
       )
     }
 
     // Récupérer les statistiques depuis l'API Kubernetes
-    const stats = await fetchKubernetesStats(apiUrl, token, kubeconfig)
+    const client = createUpstreamClient(app, 'Kubernetes', { tls: connection?.tls })
+    const stats = await fetchKubernetesStats(client, apiUrl, getAuthorization(token, connection))
 
     return NextResponse.json(stats, { status: 200 })
-  } catch (error: any) {
+  } catch (error) {
     console.error('Erreur lors de la récupération des stats Kubernetes:', error)
     
-    return NextResponse.json(
-      { error: error.message || 'Impossible de récupérer les statistiques Kubernetes' },
-      { status: 500 }
-    )
+    return upstreamErrorResponse(error, 'Impossible de récupérer les statistiques Kubernetes')
+  }
+}
+
+/**
+ * En-tête Authorization : token saisi, sinon token ou identifiants du kubeconfig
+ * (sans en-tête, le certificat client du kubeconfig authentifie la requête)
+ *
+ * @param token - Token Bearer saisi dans les paramètres (optionnel)
+ * @param connection - Paramètres résolus du kubeconfig (optionnel)
+ */
+function getAuthorization(token?: string, connection?: KubeconfigConnection): string | undefined {
+  const bearer = token || connection?.token
+  if (bearer) {
+    return `Bearer ${bearer}`
+  }
+  if (connection?.username) {
+    return `Basic ${Buffer.from(`${connection.username}:${connection.password ?? ''}`).toString('base64')}`
   }
+  return undefined
+}
+
+/**
+ * Liste des nœuds retournée par GET /api/v1/nodes
+ */
+interface KubernetesNodeList {
+  items?: Array<{ status?: { capacity?: { cpu?: string; memory?: string } } }>
 }
 
 /**
  * Récupère les statistiques depuis l'API Kubernetes
  * 
+ * @param client - Client HTTP de l'application
  * @param apiUrl - URL de base de l'API Kubernetes
- * @param token - Token d'authentification (optionnel)
- * @param kubeconfig - Configuration kubeconfig (optionnel)
+ * @param authorization - En-tête Authorization (optionnel)
  * @returns Les statistiques formatées
  */
 async function fetchKubernetesStats(
+  client: UpstreamClient,
   apiUrl: string,
-  token?: string,
-  kubeconfig?: string
+  authorization?: string
 ): Promise<KubernetesStats> {
   const headers: HeadersInit = {
     'Accept': 'application/json',
     'Content-Type': 'application/json',
   }
 
-  // Utiliser le token si disponible
-  if (token) {
-    headers['Authorization'] = `Bearer ${token}`
+  if (authorization) {
+    headers['Authorization'] = authorization
   }
-  // Note: Pour kubeconfig, il faudrait parser le fichier et extraire le token/certificat
-  // Pour simplifier, on suppose qu'un token est fourni directement
 
   // Récupérer les nœuds
-  const nodesResponse = await fetch(`${apiUrl}/api/v1/nodes`, {
-    headers,
-    signal: AbortSignal.timeout(10000),
-  })
-
-  if (!nodesResponse.ok) {
-    throw new Error(`Erreur API Kubernetes: ${nodesResponse.status}`)
-  }
-
-  const nodesData = await nodesResponse.json()
+  const nodesData = await client.json<KubernetesNodeList>(`${apiUrl}/api/v1/nodes`, { headers })
   const nodes = nodesData.items || []
   const totalNodes = nodes.length
 
   // Récupérer les pods
-  const podsResponse = await fetch(`${apiUrl}/api/v1/pods`, {
-    headers,
-    signal: AbortSignal.timeout(10000),
-  })
+  const podsResponse = await client.fetch(`${apiUrl}/api/v1/pods`, { headers })
 
   let totalPods = 0
   let runningPods = 0
@@ -170,10 +197,7 @@ async function fetchKubernetesStats(
   let memoryUsed = 0
 
   try {
-    const metricsResponse = await fetch(`${apiUrl}/apis/metrics.k8s.io/v1beta1/nodes`, {
-      headers,
-      signal: AbortSignal.timeout(10000),
-    })
+    const metricsResponse = await client.fetch(`${apiUrl}/apis/metrics.k8s.io/v1beta1/nodes`, { headers })
 
     if (metricsResponse.ok) {
       const metricsData = await metricsResponse.json()
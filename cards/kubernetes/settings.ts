@@ -0,0 +1,26 @@
+/**
+ * Paramètres de connexion Kubernetes (token Bearer ou kubeconfig et son contexte)
+ *
+ * Déclarés dans la CardDefinition (formulaire, validation, chiffrement)
+ * et lus par route.ts.
+ */
+
+import { defineCardSettings, settingField } from '@/lib/card-settings'
+
+export const kubernetesSettings = defineCardSettings({
+  token: settingField.secret({
+    label: 'Token Bearer',
+    placeholder: 'Votre token Bearer Kubernetes',
+    description: 'Vous pouvez utiliser un token Bearer ou un fichier kubeconfig.',
+  }),
+  kubeconfig: settingField.textarea({
+    label: 'Kubeconfig',
+    placeholder: 'Contenu du fichier kubeconfig (YAML)',
+    description: 'Collez le contenu de votre fichier kubeconfig (ex: /etc/rancher/k3s/k3s.yaml ou /etc/kubernetes/admin.conf). Token, tokenFile, certificat client et autorité du cluster sont pris en charge ; exec et auth-provider ne le sont pas. Les fichiers référencés (tokenFile, certificate-authority...) ne sont lus que dans le dossier KUBECONFIG_DIR du serveur.',
+  }),
+  context: settingField.text({
+    label: 'Contexte',
+    placeholder: 'current-context du kubeconfig',
+    description: 'Contexte du kubeconfig à utiliser (optionnel).',
+  }),
+})
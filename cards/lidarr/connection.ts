@@ -0,0 +1,41 @@
+/**
+ * Test de connexion Lidarr
+ *
+ * Appelé par POST /api/apps/test-connection avant l'enregistrement de l'app.
+ * Les requêtes passent par le client fourni (timeout, options TLS et proxy de
+ * l'application) : ce fichier est importé par index.ts (côté client).
+ */
+
+import type { ConnectionTestInfo } from '@/lib/card-registry'
+import type { App } from '@/lib/types'
+import type { UpstreamFetch } from '@/lib/upstream-client'
+import { getCardSettings } from '@/lib/card-settings'
+import { lidarrSettings } from './settings'
+
+/**
+ * Vérifie la clé API et lit la version de Lidarr
+ *
+ * @param app - Application en clair (valeurs du formulaire)
+ * @param upstreamFetch - Requête vers le service (voir lib/upstream-client.ts)
+ * @returns La version de Lidarr
+ * @throws Error si la clé API est absente ou refusée
+ */
+export async function testLidarrConnection(app: App, upstreamFetch: UpstreamFetch): Promise<ConnectionTestInfo> {
+  const apiUrl = app.url?.replace(/\/$/, '') || ''
+  const { apiKey } = getCardSettings(lidarrSettings, app)
+
+  if (!apiKey) {
+    throw new Error('Clé API non configurée')
+  }
+
+  const response = await upstreamFetch(`${apiUrl}/api/v1/system/status`, {
+    headers: { 'X-Api-Key': apiKey, 'Accept': 'application/json' },
+  })
+
+  if (!response.ok) {
+    throw new Error(`Erreur API Lidarr: ${response.status}`)
+  }
+
+  const status = await response.json()
+  return { version: status.version, details: status.instanceName }
+}
@@ -8,7 +8,10 @@
 
 import { NextRequest, NextResponse } from 'next/server'
 import { readApps } from '@/lib/db'
+import { getCardSettings } from '@/lib/card-settings'
+import { createUpstreamClient, upstreamErrorResponse, type UpstreamClient } from '@/lib/upstream-client'
 import type { LidarrStats } from './types'
+import { lidarrSettings } from './settings'
 
 /**
  * GET /api/apps/[id]/stats/lidarr
@@ -46,7 +49,7 @@ export async function GET(
 
     // Récupérer les informations de connexion depuis l'app
     const apiUrl = app.url?.replace(/\/$/, '') || ''
-    const apiKey = (app as any).apiKey || (app as any).lidarrApiKey
+    const { apiKey } = getCardSettings(lidarrSettings, app)
 
     if (!apiKey) {
       return NextResponse.json(
@@ -67,50 +70,36 @@ export async function GET(
     }
 
     // Récupérer les statistiques depuis l'API Lidarr
-    const stats = await fetchLidarrStats(apiUrl, apiKey)
+    const stats = await fetchLidarrStats(createUpstreamClient(app, 'Lidarr'), apiUrl, apiKey)
 
     return NextResponse.json(stats, { status: 200 })
-  } catch (error: any) {
+  } catch (error) {
     console.error('Erreur lors de la récupération des stats Lidarr:', error)
     
-    return NextResponse.json(
-      { error: error.message || 'Impossible de récupérer les statistiques Lidarr' },
-      { status: 500 }
-    )
+    return upstreamErrorResponse(error, 'Impossible de récupérer les statistiques Lidarr')
   }
 }
 
 /**
  * Récupère les statistiques depuis l'API Lidarr
  * 
+ * @param client - Client HTTP de l'application
  * @param apiUrl - URL de base de l'API Lidarr
  * @param apiKey - Clé API pour l'authentification
  * @returns Les statistiques formatées
  */
-async function fetchLidarrStats(apiUrl: string, apiKey: string): Promise<LidarrStats> {
+async function fetchLidarrStats(client: UpstreamClient, apiUrl: string, apiKey: string): Promise<LidarrStats> {
   const headers = {
     'X-Api-Key': apiKey,
     'Accept': 'application/json',
   }
 
   // Récupérer les artistes
-  const artistsResponse = await fetch(`${apiUrl}/api/v1/artist`, {
-    headers,
-    signal: AbortSignal.timeout(10000),
-  })
-
-  if (!artistsResponse.ok) {
-    throw new Error(`Erreur API Lidarr: ${artistsResponse.status}`)
-  }
-
-  const artists = await artistsResponse.json()
+  const artists = await client.json<unknown[]>(`${apiUrl}/api/v1/artist`, { headers })
   const totalArtists = artists.length || 0
 
   // Récupérer les albums
-  const albumsResponse = await fetch(`${apiUrl}/api/v1/album`, {
-    headers,
-    signal: AbortSignal.timeout(10000),
-  })
+  const albumsResponse = await client.fetch(`${apiUrl}/api/v1/album`, { headers })
 
   let totalAlbums = 0
   let downloadedAlbums = 0
@@ -130,10 +119,7 @@ async function fetchLidarrStats(apiUrl: string, apiKey: string): Promise<LidarrS
   }
 
   // Récupérer la queue
-  const queueResponse = await fetch(`${apiUrl}/api/v1/queue`, {
-    headers,
-    signal: AbortSignal.timeout(10000),
-  })
+  const queueResponse = await client.fetch(`${apiUrl}/api/v1/queue`, { headers })
 
   let queuePending = 0
   let queueDownloading = 0
@@ -10,6 +10,7 @@ import type { CardDefinition } from '@/lib/card-registry'
 import type { StatsTemplate } from '@/lib/stats-templates'
 import type { StatsDisplayOptions } from '@/lib/types'
 import { OverseerrStatsPanel } from './panel'
+import { overseerrSettings } from './settings'
 // Note: Le handler API n'est pas importé ici car il utilise fs (côté serveur uniquement)
 // Il sera chargé dynamiquement dans la route API
 
@@ -47,6 +48,8 @@ const overseerrCard: CardDefinition = {
   // Le handler API sera chargé dynamiquement dans la route API
   // Ne pas l'importer ici car il utilise fs (côté serveur uniquement)
   apiRouteHandler: undefined, // Sera chargé dynamiquement
+  // Paramètres de connexion (formulaire, validation et chiffrement des secrets)
+  settings: overseerrSettings,
   statsPanelComponent: OverseerrStatsPanel,
   cardStatComponents: {},
   cardStatTypes: ['number', 'chart'],
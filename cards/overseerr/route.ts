@@ -8,7 +8,10 @@
 
 import { NextRequest, NextResponse } from 'next/server'
 import { readApps } from '@/lib/db'
+import { getCardSettings } from '@/lib/card-settings'
+import { createUpstreamClient, upstreamErrorResponse, type UpstreamClient } from '@/lib/upstream-client'
 import type { OverseerrStats } from './types'
+import { overseerrSettings } from './settings'
 
 /**
  * GET /api/apps/[id]/stats/overseerr
@@ -46,7 +49,7 @@ export async function GET(
 
     // Récupérer les informations de connexion depuis l'app
     const apiUrl = app.url?.replace(/\/$/, '') || ''
-    const apiKey = (app as any).apiKey || (app as any).overseerrApiKey
+    const { apiKey } = getCardSettings(overseerrSettings, app)
 
     if (!apiKey) {
       return NextResponse.json(
@@ -67,37 +70,32 @@ export async function GET(
     }
 
     // Récupérer les statistiques depuis l'API Overseerr
-    const stats = await fetchOverseerrStats(apiUrl, apiKey)
+    const stats = await fetchOverseerrStats(createUpstreamClient(app, 'Overseerr'), apiUrl, apiKey)
 
     return NextResponse.json(stats, { status: 200 })
-  } catch (error: any) {
+  } catch (error) {
     console.error('Erreur lors de la récupération des stats Overseerr:', error)
     
-    return NextResponse.json(
-      { error: error.message || 'Impossible de récupérer les statistiques Overseerr' },
-      { status: 500 }
-    )
+    return upstreamErrorResponse(error, 'Impossible de récupérer les statistiques Overseerr')
   }
 }
 
 /**
  * Récupère les statistiques depuis l'API Overseerr
  * 
+ * @param client - Client HTTP de l'application
  * @param apiUrl - URL de base de l'API Overseerr
  * @param apiKey - Token API pour l'authentification
  * @returns Les statistiques formatées
  */
-async function fetchOverseerrStats(apiUrl: string, apiKey: string): Promise<OverseerrStats> {
+async function fetchOverseerrStats(client: UpstreamClient, apiUrl: string, apiKey: string): Promise<OverseerrStats> {
   const headers = {
     'X-Api-Key': apiKey,
     'Accept': 'application/json',
   }
 
   // Récupérer les compteurs de demandes
-  const requestCountResponse = await fetch(`${apiUrl}/api/v1/request/count`, {
-    headers,
-    signal: AbortSignal.timeout(10000),
-  })
+  const requestCountResponse = await client.fetch(`${apiUrl}/api/v1/request/count`, { headers })
 
   let totalRequests = 0
   let pendingRequests = 0
@@ -117,10 +115,7 @@ async function fetchOverseerrStats(apiUrl: string, apiKey: string): Promise<Over
   }
 
   // Récupérer les statistiques du serveur
-  const aboutResponse = await fetch(`${apiUrl}/api/v1/settings/about`, {
-    headers,
-    signal: AbortSignal.timeout(10000),
-  })
+  const aboutResponse = await client.fetch(`${apiUrl}/api/v1/settings/about`, { headers })
 
   let totalMovies = 0
   let totalTvShows = 0
@@ -136,10 +131,7 @@ async function fetchOverseerrStats(apiUrl: string, apiKey: string): Promise<Over
 
   // Récupérer les médias pour compter films vs séries
   try {
-    const mediaResponse = await fetch(`${apiUrl}/api/v1/media?take=1`, {
-      headers,
-      signal: AbortSignal.timeout(10000),
-    })
+    const mediaResponse = await client.fetch(`${apiUrl}/api/v1/media?take=1`, { headers })
 
     if (mediaResponse.ok) {
       const mediaData = await mediaResponse.json()
@@ -0,0 +1,17 @@
+/**
+ * Paramètres de connexion Overseerr
+ *
+ * Déclarés dans la CardDefinition (formulaire, validation, chiffrement)
+ * et lus par route.ts.
+ */
+
+import { defineCardSettings, settingField } from '@/lib/card-settings'
+
+export const overseerrSettings = defineCardSettings({
+  apiKey: settingField.secret({
+    label: 'Token API',
+    required: true,
+    placeholder: 'Votre token API Overseerr',
+    description: 'Le token API est nécessaire pour récupérer les statistiques. Vous pouvez le créer dans les paramètres d\'Overseerr (Settings → General → API Key).',
+  }),
+})
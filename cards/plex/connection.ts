@@ -0,0 +1,45 @@
+/**
+ * Test de connexion Plex
+ *
+ * Appelé par POST /api/apps/test-connection avant l'enregistrement de l'app.
+ * Les requêtes passent par le client fourni (timeout, options TLS et proxy de
+ * l'application) : ce fichier est importé par index.ts (côté client).
+ */
+
+import type { ConnectionTestInfo } from '@/lib/card-registry'
+import type { App } from '@/lib/types'
+import type { UpstreamFetch } from '@/lib/upstream-client'
+
+/**
+ * Vérifie le token Plex et lit la version du serveur
+ *
+ * @param app - Application en clair (valeurs du formulaire)
+ * @param upstreamFetch - Requête vers le service (voir lib/upstream-client.ts)
+ * @returns La version et le nom du serveur Plex
+ * @throws Error si le token est absent ou refusé
+ */
+export async function testPlexConnection(app: App, upstreamFetch: UpstreamFetch): Promise<ConnectionTestInfo> {
+  const plexToken = app.plexToken
+
+  if (!plexToken) {
+    throw new Error('Token Plex non configuré')
+  }
+
+  // Même URL que cards/plex/route.ts (port 32400 par défaut)
+  let baseUrl = app.plexServerUrl || app.url.replace(/\/$/, '')
+  if (!baseUrl.includes(':32400') && !baseUrl.match(/:\d+/)) {
+    baseUrl = `${baseUrl}:32400`
+  }
+  baseUrl = baseUrl.replace(/\/$/, '')
+
+  const response = await upstreamFetch(`${baseUrl}/`, {
+    headers: { 'X-Plex-Token': plexToken, 'Accept': 'application/json' },
+  })
+
+  if (!response.ok) {
+    throw new Error(`Erreur API Plex: ${response.status}`)
+  }
+
+  const data = await response.json()
+  return { version: data.MediaContainer?.version, details: data.MediaContainer?.friendlyName }
+}
@@ -10,6 +10,8 @@ import type { CardDefinition } from '@/lib/card-registry'
 import type { StatsTemplate } from '@/lib/stats-templates'
 import type { StatsDisplayOptions } from '@/lib/types'
 import { PlexStatsPanel } from './panel'
+import { plexSettings } from './settings'
+import { testPlexConnection } from './connection'
 import { PlexRecentImages } from './card-stat'
 // Note: Le handler API n'est pas importé ici car il utilise fs (côté serveur uniquement)
 // Il sera chargé dynamiquement dans la route API
@@ -58,6 +60,10 @@ const plexCard: CardDefinition = {
   // Le handler API sera chargé dynamiquement dans la route API
   // Ne pas l'importer ici car il utilise fs (côté serveur uniquement)
   apiRouteHandler: undefined, // Sera chargé dynamiquement
+  // Paramètres de connexion (formulaire, validation et chiffrement des secrets)
+  settings: plexSettings,
+  // Test de connexion (token et version) utilisé par le formulaire
+  testConnection: testPlexConnection,
   statsPanelComponent: PlexStatsPanel,
   cardStatComponents: {
     'plex-recent': PlexRecentImages,
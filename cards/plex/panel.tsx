@@ -33,7 +33,6 @@ import { validatePlexStats } from './validation'
 import { useConnectivity } from '@/lib/connectivity'
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'
 import { WifiOff, AlertTriangle } from 'lucide-react'
-import { storeMetrics } from '@/lib/metrics-storage'
 import { Pagination } from '@/components/ui/pagination'
 import { Input } from '@/components/ui/input'
 import { getAdaptiveTimeout } from '@/lib/timeout-config'
@@ -213,16 +212,6 @@ export function PlexStatsPanel({ open, onOpenChange, appId, appName }: StatsPane
             const now = Date.now()
             setLastUpdated(now)
 
-            // Stocker les métriques dans l'historique pour les graphiques
-            const metricsToStore = [
-                { appId, templateId: appTemplateId, key: 'totalMovies', value: data.totalMovies, timestamp: now },
-                { appId, templateId: appTemplateId, key: 'totalShows', value: data.totalShows, timestamp: now },
-                { appId, templateId: appTemplateId, key: 'totalEpisodes', value: data.totalEpisodes, timestamp: now },
-                { appId, templateId: appTemplateId, key: 'totalUsers', value: data.totalUsers, timestamp: now },
-                { appId, templateId: appTemplateId, key: 'totalLibraries', value: data.totalLibraries, timestamp: now },
-            ]
-            storeMetrics(metricsToStore)
-
             // Mettre en cache avec TTL de 5 minutes
             setCachedData(cacheKey, data, 300000)
         } catch (err: any) {
@@ -7,6 +7,8 @@
 
 import { NextRequest, NextResponse } from 'next/server'
 import { readApps } from '@/lib/db'
+import { createStructuredError } from '@/lib/error-handler'
+import { createUpstreamClient, upstreamErrorResponse, UpstreamError, type UpstreamClient } from '@/lib/upstream-client'
 import type { PlexStats, PlexRecentMedia, PlexLibraryStat } from './types'
 
 /**
@@ -43,9 +45,8 @@ export async function GET(
     }
 
     // Récupérer le token Plex et l'URL du serveur
-    // Le token peut être dans le champ plexToken ou extrait de statApiUrl (pour compatibilité)
-    const plexServerUrl = (app as any).plexServerUrl || app.url.replace(/\/$/, '')
-    const plexToken = (app as any).plexToken || extractTokenFromUrl(app.statApiUrl || '')
+    const plexServerUrl = app.plexServerUrl || app.url.replace(/\/$/, '')
+    const plexToken = app.plexToken
 
     if (!plexToken) {
       return NextResponse.json(
@@ -66,7 +67,7 @@ export async function GET(
     baseUrl = baseUrl.replace(/\/$/, '')
 
     // Récupérer les statistiques depuis l'API Plex
-    const stats = await fetchPlexStats(baseUrl, plexToken)
+    const stats = await fetchPlexStats(createUpstreamClient(app, 'Plex'), baseUrl, plexToken)
 
     // Configurer le cache côté serveur (Next.js)
     // Revalidation toutes les 5 minutes, mais permet stale-while-revalidate pendant 10 minutes
@@ -76,46 +77,32 @@ export async function GET(
         'Cache-Control': 'public, s-maxage=300, stale-while-revalidate=600',
       },
     })
-  } catch (error: any) {
+  } catch (error) {
     console.error('Erreur lors de la récupération des stats Plex:', error)
     
-    return NextResponse.json(
-      { error: error.message || 'Impossible de récupérer les statistiques Plex' },
-      { status: 500 }
-    )
-  }
-}
-
-/**
- * Extrait le token Plex depuis une URL si elle contient le token en paramètre
- */
-function extractTokenFromUrl(url: string): string | null {
-  if (!url) return null
-  try {
-    const urlObj = new URL(url)
-    return urlObj.searchParams.get('X-Plex-Token') || null
-  } catch {
-    return null
+    return upstreamErrorResponse(error, 'Impossible de récupérer les statistiques Plex')
   }
 }
 
 /**
  * Récupère les statistiques depuis l'API Plex
+ *
+ * @param client - Client HTTP de l'application
+ * @param baseUrl - URL de base du serveur Plex
+ * @param token - Token Plex
+ * @returns Les statistiques formatées
  */
-async function fetchPlexStats(baseUrl: string, token: string): Promise<PlexStats> {
+async function fetchPlexStats(client: UpstreamClient, baseUrl: string, token: string): Promise<PlexStats> {
   const headers = {
     'X-Plex-Token': token,
     'Accept': 'application/json',
   }
 
   // Récupérer les bibliothèques
-  const librariesResponse = await fetch(`${baseUrl}/library/sections`, {
-    headers,
-    signal: AbortSignal.timeout(10000),
-  })
+  const librariesResponse = await client.fetch(`${baseUrl}/library/sections`, { headers })
 
   if (!librariesResponse.ok) {
-    throw new Error(`Erreur API Plex: ${librariesResponse.status}`)
+    throw new UpstreamError(`Erreur API Plex: ${librariesResponse.status}`, createStructuredError(null, librariesResponse))
   }
 
   // L'API Plex peut retourner du XML ou du JSON selon le header Accept
@@ -145,7 +132,7 @@ async function fetchPlexStats(baseUrl: string, token: string): Promise<PlexStats
   let totalShows = 0
   let totalEpisodes = 0
 
-  // Récupérer les statistiques pour chaque bibliothèque
+  // Récupérer les statistiques pour chaque bibliothèque (une seule tentative par requête)
   for (const library of libraries) {
     const libraryType = library.type
     const libraryName = library.title
@@ -156,9 +143,9 @@ async function fetchPlexStats(baseUrl: string, token: string): Promise<PlexStats
     // On utilise X-Plex-Container-Size=0 pour obtenir uniquement le totalSize sans charger les éléments
     // Cela correspond à la méthode totalViewSize de l'API Plex
     try {
-      const libraryDetailsResponse = await fetch(
+      const libraryDetailsResponse = await client.fetch(
         `${baseUrl}/library/sections/${library.key}/all?X-Plex-Container-Start=0&X-Plex-Container-Size=0&includeCollections=0`,
-        { headers, signal: AbortSignal.timeout(5000) }
+        { headers, retry: false }
       )
       
       if (libraryDetailsResponse.ok) {
@@ -193,9 +180,9 @@ async function fetchPlexStats(baseUrl: string, token: string): Promise<PlexStats
         // Pour les séries, récupérer aussi le nombre d'épisodes (type=4 = episode)
         if (libraryType === 'show') {
           try {
-            const episodesResponse = await fetch(
+            const episodesResponse = await client.fetch(
               `${baseUrl}/library/sections/${library.key}/all?type=4&X-Plex-Container-Start=0&X-Plex-Container-Size=0&includeCollections=0`,
-              { headers, signal: AbortSignal.timeout(5000) }
+              { headers, retry: false }
             )
             
             if (episodesResponse.ok) {
@@ -248,9 +235,9 @@ async function fetchPlexStats(baseUrl: string, token: string): Promise<PlexStats
   const recentMedia: PlexRecentMedia[] = []
   
   try {
-    const recentlyAddedResponse = await fetch(
+    const recentlyAddedResponse = await client.fetch(
       `${baseUrl}/library/recentlyAdded?X-Plex-Container-Start=0&X-Plex-Container-Size=20`,
-      { headers, signal: AbortSignal.timeout(10000) }
+      { headers }
     )
 
     if (recentlyAddedResponse.ok) {
@@ -281,10 +268,7 @@ async function fetchPlexStats(baseUrl: string, token: string): Promise<PlexStats
   // Récupérer le nombre d'utilisateurs (nécessite un appel à /accounts)
   let totalUsers = 0
   try {
-    const accountsResponse = await fetch(`${baseUrl}/accounts`, {
-      headers,
-      signal: AbortSignal.timeout(5000),
-    })
+    const accountsResponse = await client.fetch(`${baseUrl}/accounts`, { headers })
     
     if (accountsResponse.ok) {
       const accountsData = await accountsResponse.json()
@@ -0,0 +1,22 @@
+/**
+ * Paramètres de connexion Plex
+ *
+ * Déclarés dans la CardDefinition (formulaire, validation, chiffrement)
+ * et lus par route.ts et connection.ts.
+ */
+
+import { defineCardSettings, settingField } from '@/lib/card-settings'
+
+export const plexSettings = defineCardSettings({
+  plexServerUrl: settingField.url({
+    label: 'URL du serveur Plex',
+    placeholder: 'http://localhost:32400',
+    description: 'Par défaut, l\'URL de l\'application sera utilisée. Spécifiez une URL différente si nécessaire.',
+  }),
+  plexToken: settingField.secret({
+    label: 'Token Plex',
+    required: true,
+    placeholder: 'Votre token d\'authentification Plex',
+    description: 'Le token Plex est nécessaire pour récupérer les statistiques détaillées. Vous pouvez le trouver dans les paramètres de votre serveur Plex.',
+  }),
+})
@@ -8,7 +8,11 @@
 
 import { NextRequest, NextResponse } from 'next/server'
 import { readApps } from '@/lib/db'
+import { getCardSettings } from '@/lib/card-settings'
+import { createStructuredError } from '@/lib/error-handler'
+import { createUpstreamClient, upstreamErrorResponse, UpstreamError, type UpstreamClient } from '@/lib/upstream-client'
 import type { ProxmoxStats, ProxmoxNode } from './types'
+import { proxmoxSettings } from './settings'
 
 /**
  * GET /api/apps/[id]/stats/proxmox
@@ -46,9 +50,7 @@ export async function GET(
 
     // Récupérer les informations de connexion depuis l'app
     const apiUrl = app.url?.replace(/\/$/, '') || ''
-    const username = (app as any).username || (app as any).proxmoxUsername
-    const password = (app as any).password || (app as any).proxmoxPassword
-    const token = (app as any).token || (app as any).proxmoxToken
+    const { username, password, token } = getCardSettings(proxmoxSettings, app)
 
     if (!apiUrl) {
       return NextResponse.json(
@@ -70,24 +72,21 @@ export async function GET(
     }
 
     // Récupérer les statistiques depuis l'API Proxmox
-    const stats = await fetchProxmoxStats(apiUrl, username, password, token)
+    const stats = await fetchProxmoxStats(createUpstreamClient(app, 'Proxmox'), apiUrl, username, password, token)
 
     return NextResponse.json(stats, { status: 200 })
-  } catch (error: any) {
+  } catch (error) {
     console.error('Erreur lors de la récupération des stats Proxmox:', error)
     
-    return NextResponse.json(
-      { error: error.message || 'Impossible de récupérer les statistiques Proxmox' },
-      { status: 500 }
-    )
+    return upstreamErrorResponse(error, 'Impossible de récupérer les statistiques Proxmox')
   }
 }
 
 /**
  * Récupère un ticket d'authentification Proxmox
  */
-async function getProxmoxTicket(apiUrl: string, username: string, password: string): Promise<string> {
-  const response = await fetch(`${apiUrl}/api2/json/access/ticket`, {
+async function getProxmoxTicket(client: UpstreamClient, apiUrl: string, username: string, password: string): Promise<string> {
+  const response = await client.fetch(`${apiUrl}/api2/json/access/ticket`, {
     method: 'POST',
     headers: {
       'Content-Type': 'application/x-www-form-urlencoded',
@@ -96,11 +95,10 @@ async function getProxmoxTicket(apiUrl: string, username: string, password: stri
       username,
       password,
     }),
-    signal: AbortSignal.timeout(10000),
   })
 
   if (!response.ok) {
-    throw new Error(`Erreur d'authentification Proxmox: ${response.status}`)
+    throw new UpstreamError(`Erreur d'authentification Proxmox: ${response.status}`, createStructuredError(null, response))
   }
 
   const data = await response.json()
@@ -110,6 +108,7 @@ async function getProxmoxTicket(apiUrl: string, username: string, password: stri
 /**
  * Récupère les statistiques depuis l'API Proxmox
  * 
+ * @param client - Client HTTP de l'application
  * @param apiUrl - URL de base de l'API Proxmox
  * @param username - Nom d'utilisateur (optionnel si token fourni)
  * @param password - Mot de passe (optionnel si token fourni)
@@ -117,6 +116,7 @@ async function getProxmoxTicket(apiUrl: string, username: string, password: stri
  * @returns Les statistiques formatées
  */
 async function fetchProxmoxStats(
+  client: UpstreamClient,
   apiUrl: string,
   username?: string,
   password?: string,
@@ -128,7 +128,7 @@ async function fetchProxmoxStats(
   if (token) {
     authHeader = `PVEAPIToken=${token}`
   } else if (username && password) {
-    const ticket = await getProxmoxTicket(apiUrl, username, password)
+    const ticket = await getProxmoxTicket(client, apiUrl, username, password)
     authHeader = `PVEAuthCookie=${ticket}`
   } else {
     throw new Error('Authentification requise')
@@ -140,16 +140,7 @@ async function fetchProxmoxStats(
   }
 
   // Récupérer les nœuds
-  const nodesResponse = await fetch(`${apiUrl}/api2/json/nodes`, {
-    headers,
-    signal: AbortSignal.timeout(10000),
-  })
-
-  if (!nodesResponse.ok) {
-    throw new Error(`Erreur API Proxmox: ${nodesResponse.status}`)
-  }
-
-  const nodesData = await nodesResponse.json()
+  const nodesData = await client.json<{ data?: ProxmoxNode[] }>(`${apiUrl}/api2/json/nodes`, { headers })
   const nodes: ProxmoxNode[] = nodesData.data || []
   const totalNodes = nodes.length
 
@@ -164,14 +155,11 @@ async function fetchProxmoxStats(
   let totalMem = 0
   let totalMaxMem = 0
 
-  // Pour chaque nœud, récupérer les VMs et containers
+  // Pour chaque nœud, récupérer les VMs et containers (une seule tentative par requête)
   for (const node of nodes) {
     // Récupérer les VMs QEMU
     try {
-      const qemuResponse = await fetch(`${apiUrl}/api2/json/nodes/${node.node}/qemu`, {
-        headers,
-        signal: AbortSignal.timeout(5000),
-      })
+      const qemuResponse = await client.fetch(`${apiUrl}/api2/json/nodes/${node.node}/qemu`, { headers, retry: false })
 
       if (qemuResponse.ok) {
         const qemuData = await qemuResponse.json()
@@ -192,10 +180,7 @@ async function fetchProxmoxStats(
 
     // Récupérer les containers LXC
     try {
-      const lxcResponse = await fetch(`${apiUrl}/api2/json/nodes/${node.node}/lxc`, {
-        headers,
-        signal: AbortSignal.timeout(5000),
-      })
+      const lxcResponse = await client.fetch(`${apiUrl}/api2/json/nodes/${node.node}/lxc`, { headers, retry: false })
 
       if (lxcResponse.ok) {
         const lxcData = await lxcResponse.json()
@@ -0,0 +1,24 @@
+/**
+ * Paramètres de connexion Proxmox (token ou nom d'utilisateur/mot de passe)
+ *
+ * Déclarés dans la CardDefinition (formulaire, validation, chiffrement)
+ * et lus par route.ts.
+ */
+
+import { defineCardSettings, settingField } from '@/lib/card-settings'
+
+export const proxmoxSettings = defineCardSettings({
+  token: settingField.secret({
+    label: 'Token API',
+    placeholder: 'PVEAPIToken=user@realm!tokenid=secret',
+    description: 'Format: PVEAPIToken=user@realm!tokenid=secret. Vous pouvez utiliser un token ou un nom d\'utilisateur/mot de passe.',
+  }),
+  username: settingField.text({
+    label: 'Nom d\'utilisateur (si pas de token)',
+    placeholder: 'root@pam',
+  }),
+  password: settingField.secret({
+    label: 'Mot de passe (si pas de token)',
+    placeholder: 'Votre mot de passe Proxmox',
+  }),
+})
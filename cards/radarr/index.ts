@@ -10,6 +10,8 @@ import type { CardDefinition } from '@/lib/card-registry'
 import type { StatsTemplate } from '@/lib/stats-templates'
 import type { StatsDisplayOptions } from '@/lib/types'
 import { RadarrStatsPanel } from './panel'
+import { radarrSettings } from './settings'
+import { testRadarrConnection } from './connection'
 // Note: Le handler API n'est pas importé ici car il utilise fs (côté serveur uniquement)
 // Il sera chargé dynamiquement dans la route API
 
@@ -47,6 +49,10 @@ const radarrCard: CardDefinition = {
   // Le handler API sera chargé dynamiquement dans la route API
   // Ne pas l'importer ici car il utilise fs (côté serveur uniquement)
   apiRouteHandler: undefined, // Sera chargé dynamiquement
+  // Paramètres de connexion (formulaire, validation et chiffrement des secrets)
+  settings: radarrSettings,
+  // Test de connexion (clé API et version) utilisé par le formulaire
+  testConnection: testRadarrConnection,
   statsPanelComponent: RadarrStatsPanel,
   cardStatComponents: {},
   cardStatTypes: ['number', 'chart'],
@@ -8,7 +8,10 @@
 
 import { NextRequest, NextResponse } from 'next/server'
 import { readApps } from '@/lib/db'
+import { getCardSettings } from '@/lib/card-settings'
+import { createUpstreamClient, upstreamErrorResponse, type UpstreamClient } from '@/lib/upstream-client'
 import type { RadarrStats } from './types'
+import { radarrSettings } from './settings'
 
 /**
  * GET /api/apps/[id]/stats/radarr
@@ -46,7 +49,7 @@ export async function GET(
 
     // Récupérer les informations de connexion depuis l'app
     const apiUrl = app.url?.replace(/\/$/, '') || ''
-    const apiKey = (app as any).apiKey || (app as any).radarrApiKey
+    const { apiKey } = getCardSettings(radarrSettings, app)
 
     if (!apiKey) {
       return NextResponse.json(
@@ -67,43 +70,32 @@ export async function GET(
     }
 
     // Récupérer les statistiques depuis l'API Radarr
-    const stats = await fetchRadarrStats(apiUrl, apiKey)
+    const stats = await fetchRadarrStats(createUpstreamClient(app, 'Radarr'), apiUrl, apiKey)
 
     return NextResponse.json(stats, { status: 200 })
-  } catch (error: any) {
+  } catch (error) {
     console.error('Erreur lors de la récupération des stats Radarr:', error)
     
-    return NextResponse.json(
-      { error: error.message || 'Impossible de récupérer les statistiques Radarr' },
-      { status: 500 }
-    )
+    return upstreamErrorResponse(error, 'Impossible de récupérer les statistiques Radarr')
   }
 }
 
 /**
  * Récupère les statistiques depuis l'API Radarr
  * 
+ * @param client - Client HTTP de l'application
  * @param apiUrl - URL de base de l'API Radarr
  * @param apiKey - Clé API pour l'authentification
  * @returns Les statistiques formatées
  */
-async function fetchRadarrStats(apiUrl: string, apiKey: string): Promise<RadarrStats> {
+async function fetchRadarrStats(client: UpstreamClient, apiUrl: string, apiKey: string): Promise<RadarrStats> {
   const headers = {
     'X-Api-Key': apiKey,
     'Accept': 'application/json',
   }
 
   // Récupérer les films
-  const moviesResponse = await fetch(`${apiUrl}/api/v3/movie`, {
-    headers,
-    signal: AbortSignal.timeout(10000),
-  })
-
-  if (!moviesResponse.ok) {
-    throw new Error(`Erreur API Radarr: ${moviesResponse.status}`)
-  }
-
-  const movies = await moviesResponse.json()
+  const movies = await client.json<Array<{ hasFile?: boolean }>>(`${apiUrl}/api/v3/movie`, { headers })
   const totalMovies = movies.length || 0
 
   // Compter les films téléchargés et manquants
@@ -119,10 +111,7 @@ async function fetchRadarrStats(apiUrl: string, apiKey: string): Promise<RadarrS
   }
 
   // Récupérer la queue
-  const queueResponse = await fetch(`${apiUrl}/api/v3/queue`, {
-    headers,
-    signal: AbortSignal.timeout(10000),
-  })
+  const queueResponse = await client.fetch(`${apiUrl}/api/v3/queue`, { headers })
 
   let queuePending = 0
   let queueDownloading = 0
@@ -0,0 +1,17 @@
+/**
+ * Paramètres de connexion Radarr
+ *
+ * Déclarés dans la CardDefinition (formulaire, validation, chiffrement)
+ * et lus par route.ts et connection.ts.
+ */
+
+import { defineCardSettings, settingField } from '@/lib/card-settings'
+
+export const radarrSettings = defineCardSettings({
+  apiKey: settingField.secret({
+    label: 'Clé API',
+    required: true,
+    placeholder: 'Votre clé API Radarr',
+    description: 'La clé API est nécessaire pour récupérer les statistiques. Vous pouvez la trouver dans les paramètres de votre instance Radarr (Settings → General → Security).',
+  }),
+})
@@ -10,6 +10,8 @@ import type { CardDefinition } from '@/lib/card-registry'
 import type { StatsTemplate } from '@/lib/stats-templates'
 import type { StatsDisplayOptions } from '@/lib/types'
 import { SonarrStatsPanel } from './panel'
+import { sonarrSettings } from './settings'
+import { testSonarrConnection } from './connection'
 // Note: Le handler API n'est pas importé ici car il utilise fs (côté serveur uniquement)
 // Il sera chargé dynamiquement dans la route API
 
@@ -50,6 +52,10 @@ const sonarrCard: CardDefinition = {
   // Le handler API sera chargé dynamiquement dans la route API
   // Ne pas l'importer ici car il utilise fs (côté serveur uniquement)
   apiRouteHandler: undefined, // Sera chargé dynamiquement
+  // Paramètres de connexion (formulaire, validation et chiffrement des secrets)
+  settings: sonarrSettings,
+  // Test de connexion (clé API et version) utilisé par le formulaire
+  testConnection: testSonarrConnection,
   statsPanelComponent: SonarrStatsPanel,
   cardStatComponents: {},
   // Types de stats disponibles :
@@ -8,7 +8,10 @@
 
 import { NextRequest, NextResponse } from 'next/server'
 import { readApps } from '@/lib/db'
+import { getCardSettings } from '@/lib/card-settings'
+import { createUpstreamClient, upstreamErrorResponse, type UpstreamClient } from '@/lib/upstream-client'
 import type { SonarrStats, SonarrUpcomingEpisode } from './types'
+import { sonarrSettings } from './settings'
 
 /**
  * GET /api/apps/[id]/stats/sonarr
@@ -46,7 +49,7 @@ export async function GET(
 
     // Récupérer les informations de connexion depuis l'app
     const apiUrl = app.url?.replace(/\/$/, '') || ''
-    const apiKey = (app as any).apiKey || (app as any).sonarrApiKey
+    const { apiKey } = getCardSettings(sonarrSettings, app)
 
     if (!apiKey) {
       return NextResponse.json(
@@ -67,43 +70,32 @@ export async function GET(
     }
 
     // Récupérer les statistiques depuis l'API Sonarr
-    const stats = await fetchSonarrStats(apiUrl, apiKey)
+    const stats = await fetchSonarrStats(createUpstreamClient(app, 'Sonarr'), apiUrl, apiKey)
 
     return NextResponse.json(stats, { status: 200 })
-  } catch (error: any) {
+  } catch (error) {
     console.error('Erreur lors de la récupération des stats Sonarr:', error)
     
-    return NextResponse.json(
-      { error: error.message || 'Impossible de récupérer les statistiques Sonarr' },
-      { status: 500 }
-    )
+    return upstreamErrorResponse(error, 'Impossible de récupérer les statistiques Sonarr')
   }
 }
 
 /**
  * Récupère les statistiques depuis l'API Sonarr
  * 
+ * @param client - Client HTTP de l'application
  * @param apiUrl - URL de base de l'API Sonarr
  * @param apiKey - Clé API pour l'authentification
  * @returns Les statistiques formatées
  */
-async function fetchSonarrStats(apiUrl: string, apiKey: string): Promise<SonarrStats> {
+async function fetchSonarrStats(client: UpstreamClient, apiUrl: string, apiKey: string): Promise<SonarrStats> {
   const headers = {
     'X-Api-Key': apiKey,
     'Accept': 'application/json',
   }
 
   // Récupérer les séries
-  const seriesResponse = await fetch(`${apiUrl}/api/v3/series`, {
-    headers,
-    signal: AbortSignal.timeout(10000),
-  })
-
-  if (!seriesResponse.ok) {
-    throw new Error(`Erreur API Sonarr: ${seriesResponse.status}`)
-  }
-
-  const series = await seriesResponse.json()
+  const series = await client.json<Array<{ statistics?: { episodeCount?: number } }>>(`${apiUrl}/api/v3/series`, { headers })
   const totalSeries = series.length || 0
 
   // Calculer le total d'épisodes
@@ -115,10 +107,7 @@ async function fetchSonarrStats(apiUrl: string, apiKey: string): Promise<SonarrS
   }
 
   // Récupérer la queue
-  const queueResponse = await fetch(`${apiUrl}/api/v3/queue`, {
-    headers,
-    signal: AbortSignal.timeout(10000),
-  })
+  const queueResponse = await client.fetch(`${apiUrl}/api/v3/queue`, { headers })
 
   let queuePending = 0
   let queueDownloading = 0
@@ -144,10 +133,7 @@ async function fetchSonarrStats(apiUrl: string, apiKey: string): Promise<SonarrS
   }
 
   // Récupérer le calendrier (prochains épisodes)
-  const calendarResponse = await fetch(`${apiUrl}/api/v3/calendar?start=${new Date().toISOString()}&end=${new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString()}`, {
-    headers,
-    signal: AbortSignal.timeout(10000),
-  })
+  const calendarResponse = await client.fetch(`${apiUrl}/api/v3/calendar?start=${new Date().toISOString()}&end=${new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString()}`, { headers })
 
   const upcomingEpisodes: SonarrUpcomingEpisode[] = []
   if (calendarResponse.ok) {
@@ -0,0 +1,17 @@
+/**
+ * Paramètres de connexion Sonarr
+ *
+ * Déclarés dans la CardDefinition (formulaire, validation, chiffrement)
+ * et lus par route.ts et connection.ts.
+ */
+
+import { defineCardSettings, settingField } from '@/lib/card-settings'
+
+export const sonarrSettings = defineCardSettings({
+  apiKey: settingField.secret({
+    label: 'Clé API',
+    required: true,
+    placeholder: 'Votre clé API Sonarr',
+    description: 'La clé API est nécessaire pour récupérer les statistiques. Vous pouvez la trouver dans les paramètres de votre instance Sonarr (Settings → General → Security).',
+  }),
+})
@@ -8,7 +8,10 @@
 
 import { NextRequest, NextResponse } from 'next/server'
 import { readApps } from '@/lib/db'
+import { getCardSettings } from '@/lib/card-settings'
+import { createUpstreamClient, upstreamErrorResponse, type UpstreamClient } from '@/lib/upstream-client'
 import type { TrueNASStats, TrueNASPool, TrueNASService } from './types'
+import { truenasSettings } from './settings'
 
 /**
  * GET /api/apps/[id]/stats/truenas
@@ -46,9 +49,7 @@ export async function GET(
 
     // Récupérer les informations de connexion depuis l'app
     const apiUrl = app.url?.replace(/\/$/, '') || ''
-    const apiKey = (app as any).apiKey || (app as any).truenasApiKey
-    const username = (app as any).username
-    const password = (app as any).password
+    const { apiKey, username, password } = getCardSettings(truenasSettings, app)
 
     if (!apiUrl) {
       return NextResponse.json(
@@ -70,22 +71,29 @@ export async function GET(
     }
 
     // Récupérer les statistiques depuis l'API TrueNAS
-    const stats = await fetchTrueNASStats(apiUrl, apiKey, username, password)
+    const stats = await fetchTrueNASStats(createUpstreamClient(app, 'TrueNAS'), apiUrl, apiKey, username, password)
 
     return NextResponse.json(stats, { status: 200 })
-  } catch (error: any) {
+  } catch (error) {
     console.error('Erreur lors de la récupération des stats TrueNAS:', error)
     
-    return NextResponse.json(
-      { error: error.message || 'Impossible de récupérer les statistiques TrueNAS' },
-      { status: 500 }
-    )
+    return upstreamErrorResponse(error, 'Impossible de récupérer les statistiques TrueNAS')
   }
 }
 
+/**
+ * Informations retournées par GET /api/v2.0/system/info
+ */
+interface TrueNASSystemInfo {
+  physmem?: number
+  cores?: number
+  loadavg?: number[]
+}
+
 /**
  * Récupère les statistiques depuis l'API TrueNAS
  * 
+ * @param client - Client HTTP de l'application
  * @param apiUrl - URL de base de l'API TrueNAS
  * @param apiKey - Clé API pour l'authentification (optionnel)
  * @param username - Nom d'utilisateur (optionnel)
@@ -93,6 +101,7 @@ export async function GET(
  * @returns Les statistiques formatées
  */
 async function fetchTrueNASStats(
+  client: UpstreamClient,
   apiUrl: string,
   apiKey?: string,
   username?: string,
@@ -114,22 +123,10 @@ async function fetchTrueNASStats(
   }
 
   // Récupérer les informations système
-  const systemInfoResponse = await fetch(`${apiUrl}/api/v2.0/system/info`, {
-    headers,
-    signal: AbortSignal.timeout(10000),
-  })
-
-  if (!systemInfoResponse.ok) {
-    throw new Error(`Erreur API TrueNAS: ${systemInfoResponse.status}`)
-  }
-
-  const systemInfo = await systemInfoResponse.json()
+  const systemInfo = await client.json<TrueNASSystemInfo>(`${apiUrl}/api/v2.0/system/info`, { headers })
 
   // Récupérer les pools de stockage
-  const poolsResponse = await fetch(`${apiUrl}/api/v2.0/pool`, {
-    headers,
-    signal: AbortSignal.timeout(10000),
-  })
+  const poolsResponse = await client.fetch(`${apiUrl}/api/v2.0/pool`, { headers })
 
   const pools: TrueNASPool[] = []
   let diskTotal = 0
@@ -201,10 +198,7 @@ async function fetchTrueNASStats(
   }
 
   // Récupérer les services
-  const servicesResponse = await fetch(`${apiUrl}/api/v2.0/service`, {
-    headers,
-    signal: AbortSignal.timeout(10000),
-  })
+  const servicesResponse = await client.fetch(`${apiUrl}/api/v2.0/service`, { headers })
 
   const services: TrueNASService[] = []
   let activeServices = 0
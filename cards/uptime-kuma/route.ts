@@ -8,7 +8,10 @@
 
 import { NextRequest, NextResponse } from 'next/server'
 import { readApps } from '@/lib/db'
+import { getCardSettings } from '@/lib/card-settings'
+import { createUpstreamClient, upstreamErrorResponse, type UpstreamClient } from '@/lib/upstream-client'
 import type { UptimeKumaStats, UptimeKumaMonitor } from './types'
+import { uptimeKumaSettings } from './settings'
 
 /**
  * GET /api/apps/[id]/stats/uptime-kuma
@@ -46,9 +49,7 @@ export async function GET(
 
     // Récupérer les informations de connexion depuis l'app
     const apiUrl = app.url?.replace(/\/$/, '') || ''
-    const apiKey = (app as any).apiKey || (app as any).uptimeKumaApiKey
-    const username = (app as any).username
-    const password = (app as any).password
+    const { apiKey, username, password } = getCardSettings(uptimeKumaSettings, app)
 
     if (!apiUrl) {
       return NextResponse.json(
@@ -70,22 +71,20 @@ export async function GET(
     }
 
     // Récupérer les statistiques depuis l'API Uptime Kuma
-    const stats = await fetchUptimeKumaStats(apiUrl, apiKey, username, password)
+    const stats = await fetchUptimeKumaStats(createUpstreamClient(app, 'Uptime Kuma'), apiUrl, apiKey, username, password)
 
     return NextResponse.json(stats, { status: 200 })
-  } catch (error: any) {
+  } catch (error) {
     console.error('Erreur lors de la récupération des stats Uptime Kuma:', error)
     
-    return NextResponse.json(
-      { error: error.message || 'Impossible de récupérer les statistiques Uptime Kuma' },
-      { status: 500 }
-    )
+    return upstreamErrorResponse(error, 'Impossible de récupérer les statistiques Uptime Kuma')
   }
 }
 
 /**
  * Récupère les statistiques depuis l'API Uptime Kuma
  * 
+ * @param client - Client HTTP de l'application
  * @param apiUrl - URL de base de l'API Uptime Kuma
  * @param apiKey - Clé API pour l'authentification (optionnel)
  * @param username - Nom d'utilisateur (optionnel)
@@ -93,6 +92,7 @@ export async function GET(
  * @returns Les statistiques formatées
  */
 async function fetchUptimeKumaStats(
+  client: UpstreamClient,
   apiUrl: string,
   apiKey?: string,
   username?: string,
@@ -114,16 +114,7 @@ async function fetchUptimeKumaStats(
   }
 
   // Récupérer les monitors
-  const monitorsResponse = await fetch(`${apiUrl}/api/monitors`, {
-    headers,
-    signal: AbortSignal.timeout(10000),
-  })
-
-  if (!monitorsResponse.ok) {
-    throw new Error(`Erreur API Uptime Kuma: ${monitorsResponse.status}`)
-  }
-
-  const monitorsData = await monitorsResponse.json()
+  const monitorsData = await client.json<UptimeKumaMonitor[] | null>(`${apiUrl}/api/monitors`, { headers })
   const monitors: UptimeKumaMonitor[] = monitorsData || []
   const totalMonitors = monitors.length
 
@@ -147,12 +138,9 @@ async function fetchUptimeKumaStats(
       downMonitors++
     }
 
-    // Récupérer les statistiques d'uptime si disponibles
+    // Récupérer les statistiques d'uptime si disponibles (une seule tentative par monitor)
     try {
-      const heartbeatResponse = await fetch(`${apiUrl}/api/status-page/heartbeat/${monitor.id}`, {
-        headers,
-        signal: AbortSignal.timeout(5000),
-      })
+      const heartbeatResponse = await client.fetch(`${apiUrl}/api/status-page/heartbeat/${monitor.id}`, { headers, retry: false })
 
       if (heartbeatResponse.ok) {
         const heartbeatData = await heartbeatResponse.json()
@@ -0,0 +1,24 @@
+/**
+ * Paramètres de connexion Uptime Kuma (clé API ou nom d'utilisateur/mot de passe)
+ *
+ * Déclarés dans la CardDefinition (formulaire, validation, chiffrement)
+ * et lus par route.ts.
+ */
+
+import { defineCardSettings, settingField } from '@/lib/card-settings'
+
+export const uptimeKumaSettings = defineCardSettings({
+  apiKey: settingField.secret({
+    label: 'Clé API',
+    placeholder: 'Votre clé API Uptime Kuma',
+    description: 'Vous pouvez utiliser une clé API ou un nom d\'utilisateur/mot de passe.',
+  }),
+  username: settingField.text({
+    label: 'Nom d\'utilisateur (si pas de clé API)',
+    placeholder: 'admin',
+  }),
+  password: settingField.secret({
+    label: 'Mot de passe (si pas de clé API)',
+    placeholder: 'Votre mot de passe',
+  }),
+})
@@ -0,0 +1,591 @@
+/**
+ * Composant AlertRulesPanel
+ *
+ * Panneau de gestion des règles d'alerte pour les administrateurs
+ * Permet de créer, modifier et supprimer des règles (voir lib/alerts.ts)
+ */
+
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Checkbox } from '@/components/ui/checkbox'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Plus, Edit, Trash2, Loader2, AlertCircle, Check } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { cardRegistry } from '@/lib/card-registry'
+import { alertSeverityStyles } from '@/components/AlertsDrawer'
+import type {
+  AlertOperator,
+  AlertRule,
+  AlertRuleInput,
+  AlertSeverity,
+  AlertSource,
+} from '@/lib/alerts'
+import type { NotificationChannel } from '@/lib/notifications'
+import type { App } from '@/lib/types'
+// Importer les cartes pour qu'elles s'enregistrent
+import '@/cards'
+
+/**
+ * Opérateurs de comparaison (lib/alerts.ts n'est utilisable que côté serveur)
+ */
+const OPERATORS: AlertOperator[] = ['>', '>=', '<', '<=', '==', '!=']
+
+/**
+ * Champs testables d'une vérification de disponibilité
+ */
+const HEALTH_KEYS = [
+  { value: 'status', label: 'État (up, degraded, down)' },
+  { value: 'latency', label: 'Temps de réponse (ms)' },
+  { value: 'statusCode', label: 'Code HTTP' },
+  { value: 'tlsDaysRemaining', label: 'Jours avant expiration du certificat' },
+]
+
+const sourceLabels: Record<AlertSource, string> = {
+  stats: 'Statistiques',
+  health: 'Disponibilité',
+}
+
+const severityLabels: Record<AlertSeverity, string> = {
+  warning: 'Avertissement',
+  critical: 'Critique',
+}
+
+/**
+ * Convertit une durée en minutes (champ du formulaire) en millisecondes
+ */
+function minutesToMs(minutes: string): number {
+  const value = Number(minutes)
+  return Number.isFinite(value) && value > 0 ? Math.round(value * 60000) : 0
+}
+
+/**
+ * Convertit une durée en millisecondes en minutes pour le formulaire
+ */
+function msToMinutes(ms: number): string {
+  return ms > 0 ? String(ms / 60000) : ''
+}
+
+interface AlertRulesPanelProps {
+  className?: string
+}
+
+export function AlertRulesPanel({ className }: AlertRulesPanelProps) {
+  const [rules, setRules] = useState<AlertRule[]>([])
+  const [apps, setApps] = useState<App[]>([])
+  const [channels, setChannels] = useState<NotificationChannel[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [isDialogOpen, setIsDialogOpen] = useState(false)
+  const [editingRule, setEditingRule] = useState<AlertRule | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [success, setSuccess] = useState<string | null>(null)
+
+  // Champs du formulaire
+  const [name, setName] = useState('')
+  const [appId, setAppId] = useState('')
+  const [source, setSource] = useState<AlertSource>('stats')
+  const [key, setKey] = useState('')
+  const [operator, setOperator] = useState<AlertOperator>('>')
+  const [value, setValue] = useState('')
+  const [forMinutes, setForMinutes] = useState('')
+  const [resolveMinutes, setResolveMinutes] = useState('')
+  const [cooldownMinutes, setCooldownMinutes] = useState('')
+  const [severity, setSeverity] = useState<AlertSeverity>('warning')
+  const [enabled, setEnabled] = useState(true)
+  const [channelIds, setChannelIds] = useState<string[]>([])
+
+  /**
+   * Charge les règles, les applications et les canaux de notification
+   */
+  const loadRules = async () => {
+    setIsLoading(true)
+    setError(null)
+    try {
+      const [rulesResponse, appsResponse, channelsResponse] = await Promise.all([
+        fetch('/api/alerts/rules'),
+        fetch('/api/apps'),
+        fetch('/api/notifications/channels'),
+      ])
+      if (rulesResponse.ok) {
+        setRules(await rulesResponse.json())
+      } else {
+        const errorData = await rulesResponse.json()
+        setError(errorData.error || 'Erreur lors du chargement des règles')
+      }
+      if (appsResponse.ok) {
+        setApps(await appsResponse.json())
+      }
+      if (channelsResponse.ok) {
+        setChannels(await channelsResponse.json())
+      }
+    } catch (error) {
+      console.error('Erreur lors du chargement des règles:', error)
+      setError('Erreur lors du chargement des règles')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  // Charger les règles au montage
+  useEffect(() => {
+    loadRules()
+  }, [])
+
+  /**
+   * Clés proposées pour l'application et la source choisies
+   */
+  const suggestedKeys = source === 'health'
+    ? HEALTH_KEYS
+    : cardRegistry.getAvailableStatKeys(
+        apps.find((app) => app.id === appId)?.statsConfig?.templateId || undefined
+      )
+
+  /**
+   * Remplit le formulaire avec une règle (ou les valeurs par défaut)
+   */
+  const openDialog = (rule: AlertRule | null) => {
+    setEditingRule(rule)
+    setName(rule?.name ?? '')
+    setAppId(rule?.appId ?? apps[0]?.id ?? '')
+    setSource(rule?.source ?? 'stats')
+    setKey(rule?.key ?? '')
+    setOperator(rule?.operator ?? '>')
+    setValue(rule?.value ?? '')
+    setForMinutes(msToMinutes(rule?.forDuration ?? 0))
+    setResolveMinutes(msToMinutes(rule?.resolveAfter ?? 0))
+    setCooldownMinutes(msToMinutes(rule?.cooldown ?? 0))
+    setSeverity(rule?.severity ?? 'warning')
+    setEnabled(rule?.enabled ?? true)
+    setChannelIds(rule?.channelIds ?? [])
+    setError(null)
+    setSuccess(null)
+    setIsDialogOpen(true)
+  }
+
+  /**
+   * Supprime une règle
+   */
+  const handleDeleteRule = async (ruleId: string) => {
+    if (!confirm('Êtes-vous sûr de vouloir supprimer cette règle ? Son alerte en cours sera résolue.')) {
+      return
+    }
+
+    try {
+      const response = await fetch(`/api/alerts/rules/${ruleId}`, {
+        method: 'DELETE',
+      })
+
+      if (response.ok) {
+        setSuccess('Règle supprimée avec succès')
+        await loadRules()
+        setTimeout(() => setSuccess(null), 3000)
+      } else {
+        const errorData = await response.json()
+        setError(errorData.error || 'Erreur lors de la suppression')
+        setTimeout(() => setError(null), 5000)
+      }
+    } catch (error) {
+      console.error('Erreur lors de la suppression:', error)
+      setError('Erreur lors de la suppression de la règle')
+      setTimeout(() => setError(null), 5000)
+    }
+  }
+
+  /**
+   * Sauvegarde la règle (création ou modification)
+   */
+  const handleSave = async () => {
+    if (!name.trim() || !appId || !key.trim() || !value.trim()) {
+      setError('Le nom, l\'application, la clé et le seuil sont requis')
+      return
+    }
+
+    setIsSaving(true)
+    setError(null)
+    setSuccess(null)
+
+    const input: AlertRuleInput = {
+      name,
+      appId,
+      source,
+      key,
+      operator,
+      value,
+      forDuration: minutesToMs(forMinutes),
+      resolveAfter: minutesToMs(resolveMinutes),
+      cooldown: minutesToMs(cooldownMinutes),
+      severity,
+      enabled,
+      channelIds,
+    }
+
+    try {
+      const response = await fetch(
+        editingRule ? `/api/alerts/rules/${editingRule.id}` : '/api/alerts/rules',
+        {
+          method: editingRule ? 'PUT' : 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify(input),
+        }
+      )
+
+      if (response.ok) {
+        setSuccess(editingRule ? 'Règle modifiée avec succès' : 'Règle créée avec succès')
+        setIsDialogOpen(false)
+        await loadRules()
+      } else {
+        const errorData = await response.json()
+        setError(errorData.error || 'Erreur lors de la sauvegarde')
+      }
+    } catch (error) {
+      console.error('Erreur lors de la sauvegarde:', error)
+      setError('Erreur lors de la sauvegarde de la règle')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className={cn('space-y-4', className)}>
+      {/* En-tête avec bouton d'ajout */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-semibold">Règles d&apos;alerte</h3>
+          <p className="text-sm text-muted-foreground">
+            Déclenchez une alerte quand une statistique ou la disponibilité d&apos;une application dépasse un seuil
+          </p>
+        </div>
+        <Button onClick={() => openDialog(null)} disabled={apps.length === 0}>
+          <Plus className="h-4 w-4 mr-2" />
+          Ajouter une règle
+        </Button>
+      </div>
+
+      {/* Messages d'erreur et de succès */}
+      {error && !isDialogOpen && (
+        <div className="flex items-center gap-2 p-3 text-sm text-destructive bg-destructive/10 rounded-md">
+          <AlertCircle className="h-4 w-4 shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {success && (
+        <div className="flex items-center gap-2 p-3 text-sm text-green-600 dark:text-green-400 bg-green-50 dark:bg-green-950 rounded-md">
+          <Check className="h-4 w-4 shrink-0" />
+          <span>{success}</span>
+        </div>
+      )}
+
+      {/* Liste des règles */}
+      {isLoading ? (
+        <div className="flex items-center justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : rules.length === 0 ? (
+        <div className="text-center py-8 text-muted-foreground">
+          <p>Aucune règle d&apos;alerte</p>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {rules.map((rule) => (
+            <div
+              key={rule.id}
+              className={cn(
+                'flex items-center justify-between p-4 border rounded-lg hover:bg-accent/50 transition-colors',
+                !rule.enabled && 'opacity-60'
+              )}
+            >
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2 flex-wrap">
+                  <p className="font-medium break-all">{rule.name}</p>
+                  <span className={cn('px-2 py-1 text-xs rounded-full border shrink-0', alertSeverityStyles[rule.severity])}>
+                    {severityLabels[rule.severity]}
+                  </span>
+                  {!rule.enabled && (
+                    <span className="px-2 py-1 text-xs rounded-full bg-muted text-muted-foreground shrink-0">
+                      Désactivée
+                    </span>
+                  )}
+                </div>
+                <p className="text-sm text-muted-foreground mt-1 break-all">
+                  {apps.find((app) => app.id === rule.appId)?.name ?? rule.appId} · {sourceLabels[rule.source]} ·{' '}
+                  <span className="font-mono">
+                    {rule.key} {rule.operator} {rule.value}
+                  </span>
+                  {rule.forDuration > 0 && ` pendant ${msToMinutes(rule.forDuration)} min`}
+                </p>
+              </div>
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => openDialog(rule)}
+                >
+                  <Edit className="h-4 w-4 mr-2" />
+                  Modifier
+                </Button>
+                <Button
+                  variant="destructive"
+                  size="sm"
+                  onClick={() => handleDeleteRule(rule.id)}
+                >
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  Supprimer
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Dialog de création/modification */}
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="sm:max-w-md max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>
+              {editingRule ? 'Modifier la règle' : 'Créer une règle'}
+            </DialogTitle>
+            <DialogDescription>
+              La règle est évaluée à chaque collecte des statistiques ou vérification de disponibilité
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            {/* Message d'erreur */}
+            {error && (
+              <div className="flex items-center gap-2 p-3 text-sm text-destructive bg-destructive/10 rounded-md">
+                <AlertCircle className="h-4 w-4 shrink-0" />
+                <span>{error}</span>
+              </div>
+            )}
+
+            {/* Champ Nom */}
+            <div className="space-y-2">
+              <Label htmlFor="rule-name">Nom</Label>
+              <Input
+                id="rule-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Téléchargements en échec"
+                required
+              />
+            </div>
+
+            {/* Application et source */}
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="rule-app">Application</Label>
+                <Select value={appId} onValueChange={setAppId}>
+                  <SelectTrigger id="rule-app">
+                    <SelectValue placeholder="Choisir" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {apps.map((app) => (
+                      <SelectItem key={app.id} value={app.id}>
+                        {app.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="rule-source">Source</Label>
+                <Select value={source} onValueChange={(value) => setSource(value as AlertSource)}>
+                  <SelectTrigger id="rule-source">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="stats">{sourceLabels.stats}</SelectItem>
+                    <SelectItem value="health">{sourceLabels.health}</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {/* Condition */}
+            <div className="space-y-2">
+              <Label htmlFor="rule-key">Condition</Label>
+              <div className="grid grid-cols-[1fr_auto_1fr] gap-2">
+                <Input
+                  id="rule-key"
+                  value={key}
+                  onChange={(e) => setKey(e.target.value)}
+                  placeholder={source === 'health' ? 'status' : 'queueFailed'}
+                  list="rule-key-suggestions"
+                  className="font-mono"
+                />
+                <datalist id="rule-key-suggestions">
+                  {suggestedKeys.map((suggestion) => (
+                    <option key={suggestion.value} value={suggestion.value}>
+                      {suggestion.label}
+                    </option>
+                  ))}
+                </datalist>
+                <Select value={operator} onValueChange={(value) => setOperator(value as AlertOperator)}>
+                  <SelectTrigger className="w-20 font-mono">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {OPERATORS.map((candidate) => (
+                      <SelectItem key={candidate} value={candidate} className="font-mono">
+                        {candidate}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  value={value}
+                  onChange={(e) => setValue(e.target.value)}
+                  placeholder={source === 'health' ? 'down' : '0'}
+                  aria-label="Seuil"
+                  className="font-mono"
+                />
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Utilisez * pour tester chaque élément d&apos;une liste (ex: pools.*.status != ONLINE)
+              </p>
+            </div>
+
+            {/* Durées */}
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="rule-for">Pendant (min)</Label>
+                <Input
+                  id="rule-for"
+                  type="number"
+                  min={0}
+                  value={forMinutes}
+                  onChange={(e) => setForMinutes(e.target.value)}
+                  placeholder="0"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="rule-resolve">Résolution (min)</Label>
+                <Input
+                  id="rule-resolve"
+                  type="number"
+                  min={0}
+                  value={resolveMinutes}
+                  onChange={(e) => setResolveMinutes(e.target.value)}
+                  placeholder="0"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="rule-cooldown">Pause (min)</Label>
+                <Input
+                  id="rule-cooldown"
+                  type="number"
+                  min={0}
+                  value={cooldownMinutes}
+                  onChange={(e) => setCooldownMinutes(e.target.value)}
+                  placeholder="0"
+                />
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground -mt-2">
+              Durée pendant laquelle la condition doit rester vraie avant de déclencher, fausse avant de
+              résoudre, et délai minimal avant un nouveau déclenchement
+            </p>
+
+            {/* Gravité et activation */}
+            <div className="flex items-center justify-between gap-4">
+              <div className="space-y-2 flex-1">
+                <Label htmlFor="rule-severity">Gravité</Label>
+                <Select value={severity} onValueChange={(value) => setSeverity(value as AlertSeverity)}>
+                  <SelectTrigger id="rule-severity">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="warning">{severityLabels.warning}</SelectItem>
+                    <SelectItem value="critical">{severityLabels.critical}</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex items-center gap-2 pt-6">
+                <Checkbox
+                  id="rule-enabled"
+                  checked={enabled}
+                  onCheckedChange={(checked) => setEnabled(checked === true)}
+                />
+                <Label htmlFor="rule-enabled" className="cursor-pointer">
+                  Activée
+                </Label>
+              </div>
+            </div>
+
+            {/* Canaux de notification */}
+            {channels.length > 0 && (
+              <div className="space-y-2">
+                <Label>Notifier aussi</Label>
+                <div className="space-y-2 rounded-md border p-3">
+                  {channels.map((channel) => (
+                    <div key={channel.id} className="flex items-center gap-2">
+                      <Checkbox
+                        id={`rule-channel-${channel.id}`}
+                        checked={channelIds.includes(channel.id)}
+                        onCheckedChange={(checked) =>
+                          setChannelIds((current) =>
+                            checked === true
+                              ? [...current, channel.id]
+                              : current.filter((id) => id !== channel.id)
+                          )
+                        }
+                      />
+                      <Label htmlFor={`rule-channel-${channel.id}`} className="cursor-pointer font-normal">
+                        {channel.name}
+                      </Label>
+                    </div>
+                  ))}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Les canaux associés à l&apos;application reçoivent déjà toutes ses alertes
+                </p>
+              </div>
+            )}
+
+            {/* Boutons */}
+            <div className="flex gap-2 justify-end pt-4">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setIsDialogOpen(false)}
+                disabled={isSaving}
+              >
+                Annuler
+              </Button>
+              <Button onClick={handleSave} disabled={isSaving}>
+                {isSaving ? (
+                  <>
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    Sauvegarde...
+                  </>
+                ) : (
+                  'Sauvegarder'
+                )}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
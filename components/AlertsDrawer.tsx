@@ -0,0 +1,144 @@
+/**
+ * Composant AlertsDrawer
+ *
+ * Bouton flottant en haut à droite (à gauche de l'avatar) indiquant le
+ * nombre d'alertes en cours, et tiroir listant les alertes en cours puis
+ * les alertes résolues récemment (voir lib/alerts.ts).
+ */
+
+'use client'
+
+import { useState } from 'react'
+import { Bell, BellRing, CheckCircle2 } from 'lucide-react'
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet'
+import { Button } from '@/components/ui/button'
+import { cn } from '@/lib/utils'
+import { useAlerts } from '@/lib/alerts-client'
+import type { Alert, AlertSeverity } from '@/lib/alerts'
+
+/**
+ * Couleurs selon la gravité
+ */
+export const alertSeverityStyles: Record<AlertSeverity, string> = {
+  warning: 'border-orange-500/30 bg-orange-500/10 text-orange-600 dark:text-orange-400',
+  critical: 'border-red-500/30 bg-red-500/10 text-red-600 dark:text-red-400',
+}
+
+const severityLabels: Record<AlertSeverity, string> = {
+  warning: 'Avertissement',
+  critical: 'Critique',
+}
+
+/**
+ * Formate une date ISO en date et heure locales
+ */
+function formatDate(date: string): string {
+  return new Date(date).toLocaleString('fr-FR', { dateStyle: 'short', timeStyle: 'short' })
+}
+
+/**
+ * Ligne d'une alerte dans le tiroir
+ */
+function AlertItem({ alert }: { alert: Alert }) {
+  const isFiring = alert.status === 'firing'
+
+  return (
+    <div
+      className={cn(
+        'rounded-lg border p-3 text-sm space-y-1',
+        isFiring ? alertSeverityStyles[alert.severity] : 'text-muted-foreground'
+      )}
+    >
+      <div className="flex items-center justify-between gap-2">
+        <p className="font-medium truncate">
+          {alert.appName} · {alert.ruleName}
+        </p>
+        <span className="shrink-0 text-xs">{severityLabels[alert.severity]}</span>
+      </div>
+      <p className="text-xs font-mono break-words">{alert.message}</p>
+      <p className="text-xs opacity-80">
+        {isFiring
+          ? `Depuis le ${formatDate(alert.firedAt)}`
+          : `Du ${formatDate(alert.firedAt)} au ${formatDate(alert.resolvedAt ?? alert.firedAt)}`}
+      </p>
+    </div>
+  )
+}
+
+/**
+ * Bouton des alertes et tiroir associé
+ */
+export function AlertsDrawer() {
+  const [open, setOpen] = useState(false)
+  const alerts = useAlerts()
+
+  const firing = alerts.filter((alert) => alert.status === 'firing')
+  const resolved = alerts.filter((alert) => alert.status === 'resolved')
+  const hasCritical = firing.some((alert) => alert.severity === 'critical')
+
+  return (
+    <>
+      <div className="fixed top-6 right-20 z-[100]">
+        <Button
+          variant="outline"
+          size="icon"
+          onClick={() => setOpen(true)}
+          className={cn(
+            'relative h-12 w-12 rounded-full shadow-lg',
+            firing.length > 0 && (hasCritical ? alertSeverityStyles.critical : alertSeverityStyles.warning)
+          )}
+          title={firing.length > 0 ? `${firing.length} alerte(s) en cours` : 'Alertes'}
+        >
+          {firing.length > 0 ? <BellRing className="h-5 w-5" /> : <Bell className="h-5 w-5" />}
+          {firing.length > 0 && (
+            <span
+              className={cn(
+                'absolute -top-1 -right-1 min-w-5 h-5 px-1 rounded-full text-[11px] font-semibold text-white flex items-center justify-center',
+                hasCritical ? 'bg-red-500' : 'bg-orange-500'
+              )}
+            >
+              {firing.length}
+            </span>
+          )}
+        </Button>
+      </div>
+
+      <Sheet open={open} onOpenChange={setOpen}>
+        <SheetContent side="right" className="w-full sm:max-w-md overflow-hidden p-0 flex flex-col">
+          <SheetHeader className="flex-shrink-0 px-6 pt-6 pb-4 border-b">
+            <SheetTitle>Alertes</SheetTitle>
+            <SheetDescription>
+              Alertes déclenchées par les règles sur les statistiques et la disponibilité des applications
+            </SheetDescription>
+          </SheetHeader>
+          <div className="flex-1 overflow-y-auto px-6 py-4 space-y-6">
+            <section className="space-y-2">
+              <h3 className="text-sm font-semibold">En cours ({firing.length})</h3>
+              {firing.length === 0 ? (
+                <div className="flex items-center gap-2 text-sm text-muted-foreground py-4">
+                  <CheckCircle2 className="h-4 w-4 text-green-500" />
+                  Aucune alerte en cours
+                </div>
+              ) : (
+                firing.map((alert) => <AlertItem key={alert.id} alert={alert} />)
+              )}
+            </section>
+
+            {resolved.length > 0 && (
+              <section className="space-y-2">
+                <h3 className="text-sm font-semibold">Résolues récemment</h3>
+                {resolved.map((alert) => <AlertItem key={alert.id} alert={alert} />)}
+              </section>
+            )}
+          </div>
+        </SheetContent>
+      </Sheet>
+    </>
+  )
+}
@@ -0,0 +1,320 @@
+/**
+ * Composant ApiTokensSection
+ *
+ * Section de ProfileDialog pour gérer ses jetons d'API personnels
+ * (voir lib/api-tokens.ts) : liste, création et révocation.
+ * Le jeton créé n'est affiché qu'une seule fois.
+ */
+
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Plus, Trash2, Loader2, AlertCircle, Copy, Check, KeyRound } from 'lucide-react'
+import type { ApiToken, ApiTokenScope } from '@/lib/api-tokens'
+
+/**
+ * Niveaux d'accès proposés et scopes correspondants
+ */
+const accessLevels: Record<string, { label: string; scopes: ApiTokenScope[] }> = {
+  read: { label: 'Lecture', scopes: ['read'] },
+  write: { label: 'Lecture et écriture', scopes: ['read', 'write'] },
+  admin: { label: 'Administration', scopes: ['read', 'write', 'admin'] },
+}
+
+/**
+ * Durées de validité proposées (en jours, 0 = sans expiration)
+ */
+const expirationOptions: Record<string, string> = {
+  '30': '30 jours',
+  '90': '90 jours',
+  '365': '1 an',
+  '0': 'Sans expiration',
+}
+
+/**
+ * Formate une date ISO en date et heure locales
+ */
+function formatDate(date: string): string {
+  return new Date(date).toLocaleString('fr-FR', { dateStyle: 'short', timeStyle: 'short' })
+}
+
+interface ApiTokensSectionProps {
+  /** Recharge la liste à chaque ouverture du profil */
+  open: boolean
+  /** Le niveau Administration n'est proposé qu'aux administrateurs */
+  isAdmin: boolean
+}
+
+export function ApiTokensSection({ open, isAdmin }: ApiTokensSectionProps) {
+  const [tokens, setTokens] = useState<ApiToken[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [isCreating, setIsCreating] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // Formulaire de création
+  const [showForm, setShowForm] = useState(false)
+  const [name, setName] = useState('')
+  const [accessLevel, setAccessLevel] = useState('read')
+  const [expiration, setExpiration] = useState('90')
+
+  // Jeton créé, affiché une seule fois
+  const [createdToken, setCreatedToken] = useState<string | null>(null)
+  const [copied, setCopied] = useState(false)
+
+  useEffect(() => {
+    if (open) {
+      loadTokens()
+    } else {
+      setShowForm(false)
+      setCreatedToken(null)
+      setCopied(false)
+      setError(null)
+    }
+  }, [open])
+
+  /**
+   * Charge les jetons de l'utilisateur connecté
+   */
+  const loadTokens = async () => {
+    setIsLoading(true)
+    try {
+      const response = await fetch('/api/users/tokens')
+      if (response.ok) {
+        setTokens(await response.json())
+      } else {
+        const errorData = await response.json()
+        setError(errorData.error || 'Erreur lors du chargement des jetons')
+      }
+    } catch (error) {
+      console.error('Erreur lors du chargement des jetons d\'API:', error)
+      setError('Erreur lors du chargement des jetons')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  /**
+   * Crée un jeton et l'affiche une seule fois
+   */
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsCreating(true)
+    setError(null)
+
+    try {
+      const days = Number(expiration)
+      const response = await fetch('/api/users/tokens', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          name,
+          scopes: accessLevels[accessLevel].scopes,
+          expiresAt: days > 0 ? new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString() : null,
+        }),
+      })
+
+      const data = await response.json()
+      if (response.ok) {
+        setCreatedToken(data.token)
+        setCopied(false)
+        setShowForm(false)
+        setName('')
+        await loadTokens()
+      } else {
+        setError(data.error || 'Erreur lors de la création du jeton')
+      }
+    } catch (error) {
+      console.error('Erreur lors de la création du jeton d\'API:', error)
+      setError('Erreur lors de la création du jeton')
+    } finally {
+      setIsCreating(false)
+    }
+  }
+
+  /**
+   * Révoque un jeton
+   */
+  const handleRevoke = async (token: ApiToken) => {
+    if (!confirm(`Révoquer le jeton "${token.name}" ? Les scripts qui l'utilisent n'auront plus accès.`)) {
+      return
+    }
+
+    setError(null)
+    try {
+      const response = await fetch(`/api/users/tokens/${token.id}`, { method: 'DELETE' })
+      if (response.ok) {
+        setTokens((current) => current.filter((candidate) => candidate.id !== token.id))
+      } else {
+        const errorData = await response.json()
+        setError(errorData.error || 'Erreur lors de la révocation du jeton')
+      }
+    } catch (error) {
+      console.error('Erreur lors de la révocation du jeton d\'API:', error)
+      setError('Erreur lors de la révocation du jeton')
+    }
+  }
+
+  /**
+   * Copie le jeton créé dans le presse-papiers
+   */
+  const handleCopy = async () => {
+    if (!createdToken) {
+      return
+    }
+    try {
+      await navigator.clipboard.writeText(createdToken)
+      setCopied(true)
+    } catch (error) {
+      console.error('Erreur lors de la copie du jeton:', error)
+    }
+  }
+
+  return (
+    <div className="space-y-3 pt-4 border-t">
+      <div className="flex items-center justify-between gap-2">
+        <div>
+          <h4 className="text-sm font-semibold">Jetons d&apos;API</h4>
+          <p className="text-xs text-muted-foreground">
+            Pour les scripts : en-tête <code>Authorization: Bearer</code>
+          </p>
+        </div>
+        {!showForm && (
+          <Button type="button" variant="outline" size="sm" onClick={() => setShowForm(true)}>
+            <Plus className="h-4 w-4 mr-1" />
+            Nouveau
+          </Button>
+        )}
+      </div>
+
+      {error && (
+        <div className="flex items-center gap-2 p-3 text-sm text-destructive bg-destructive/10 rounded-md">
+          <AlertCircle className="h-4 w-4 shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {/* Jeton créé : affiché une seule fois */}
+      {createdToken && (
+        <div className="space-y-2 p-3 text-sm bg-muted rounded-md">
+          <p className="text-xs text-muted-foreground">
+            Copiez ce jeton maintenant : il ne sera plus affiché.
+          </p>
+          <div className="flex gap-2">
+            <Input readOnly value={createdToken} className="font-mono text-xs" onFocus={(e) => e.target.select()} />
+            <Button type="button" variant="outline" size="icon" onClick={handleCopy} title="Copier">
+              {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {showForm && (
+        <form onSubmit={handleCreate} className="space-y-3 p-3 border rounded-md">
+          <div className="space-y-2">
+            <Label htmlFor="token-name">Nom</Label>
+            <Input
+              id="token-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Script de sauvegarde"
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="token-access">Accès</Label>
+            <Select value={accessLevel} onValueChange={setAccessLevel}>
+              <SelectTrigger id="token-access">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(accessLevels)
+                  .filter(([level]) => isAdmin || level !== 'admin')
+                  .map(([level, { label }]) => (
+                    <SelectItem key={level} value={level}>
+                      {label}
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="token-expiration">Expiration</Label>
+            <Select value={expiration} onValueChange={setExpiration}>
+              <SelectTrigger id="token-expiration">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(expirationOptions).map(([days, label]) => (
+                  <SelectItem key={days} value={days}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex gap-2 justify-end">
+            <Button type="button" variant="outline" size="sm" onClick={() => setShowForm(false)} disabled={isCreating}>
+              Annuler
+            </Button>
+            <Button type="submit" size="sm" disabled={isCreating || !name.trim()}>
+              {isCreating && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Créer
+            </Button>
+          </div>
+        </form>
+      )}
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-4">
+          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+        </div>
+      ) : tokens.length === 0 ? (
+        <p className="text-xs text-muted-foreground">Aucun jeton d&apos;API.</p>
+      ) : (
+        <ul className="space-y-2">
+          {tokens.map((token) => (
+            <li key={token.id} className="flex items-start gap-2 p-2 text-xs border rounded-md">
+              <KeyRound className="h-4 w-4 mt-0.5 shrink-0 text-muted-foreground" />
+              <div className="flex-1 min-w-0 space-y-0.5">
+                <div className="flex items-center gap-2">
+                  <span className="text-sm font-medium truncate">{token.name}</span>
+                  <code className="text-muted-foreground">{token.prefix}…</code>
+                </div>
+                <div className="text-muted-foreground">
+                  {token.scopes.join(', ')}
+                  {' · '}
+                  {token.expiresAt ? `expire le ${formatDate(token.expiresAt)}` : 'sans expiration'}
+                </div>
+                <div className="text-muted-foreground">
+                  {token.lastUsedAt ? `Utilisé le ${formatDate(token.lastUsedAt)}` : 'Jamais utilisé'}
+                </div>
+              </div>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7 text-destructive hover:text-destructive"
+                onClick={() => handleRevoke(token)}
+                title="Révoquer"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
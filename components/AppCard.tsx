@@ -7,6 +7,7 @@
  * - Statistique configurable (si disponible)
  * - Bouton pour ouvrir l'application
  * - Bouton Détails pour les apps avec template de stats (optionnel)
+ * - Mise en évidence des alertes en cours (voir lib/alerts.ts)
  */
 
 'use client'
@@ -19,7 +20,10 @@ import { StatsPanel } from '@/components/StatsPanel'
 import { CardStatRenderer } from '@/components/card-stats/CardStatRenderer'
 import { DeleteConfirmDialog } from '@/components/DeleteConfirmDialog'
 import { ConnectionStatusBadge } from '@/components/ConnectionStatusBadge'
+import { alertSeverityStyles } from '@/components/AlertsDrawer'
 import { normalizeCardStatConfig } from '@/lib/card-stat-utils'
+import { useAppAlerts } from '@/lib/alerts-client'
+import { cn } from '@/lib/utils'
 import type { App, CardStatType } from '@/lib/types'
 
 interface AppCardProps {
@@ -56,6 +60,14 @@ export function AppCard({ app, onEdit, onDelete, showActions = false }: AppCardP
   // Vérifier si l'application a un template de statistiques configuré
   const hasStatsTemplate = !!app.statsConfig?.templateId
   const templateId = app.statsConfig?.templateId
+  // Vérification de disponibilité active sauf désactivation explicite
+  const hasHealthCheck = app.healthCheck?.enabled !== false
+
+  // Alertes en cours : la plus grave détermine la couleur de la carte
+  const alerts = useAppAlerts(app.id)
+  const alertSeverity = alerts.length === 0
+    ? null
+    : alerts.some((alert) => alert.severity === 'critical') ? 'critical' : 'warning'
   
   // Configuration de la statistique de carte (normalisée pour gérer les anciennes configs)
   const cardStatConfig = normalizeCardStatConfig(app.statsConfig?.cardStat)
@@ -98,9 +110,15 @@ export function AppCard({ app, onEdit, onDelete, showActions = false }: AppCardP
   const IconComponent = app.logoType === 'icon' ? getLucideIcon(app.logo) : null
 
   return (
-    <Card className="h-full transition-all hover:shadow-lg relative">
+    <Card
+      className={cn(
+        'h-full transition-all hover:shadow-lg relative',
+        alertSeverity === 'critical' && 'ring-2 ring-red-500/70',
+        alertSeverity === 'warning' && 'ring-2 ring-orange-500/70'
+      )}
+    >
       {/* Badge de statut de connexion en haut à droite */}
-      {hasStatsTemplate && (
+      {hasHealthCheck && (
         <div className="absolute top-3 right-3 z-10">
           <ConnectionStatusBadge app={app} size="md" />
         </div>
@@ -125,6 +143,20 @@ export function AppCard({ app, onEdit, onDelete, showActions = false }: AppCardP
           </div>
           <div className="flex-1 min-w-0">
             <CardTitle className="text-lg truncate">{app.name}</CardTitle>
+            {alertSeverity && (
+              <p
+                className={cn(
+                  'mt-1 inline-flex max-w-full items-center gap-1 rounded-full border px-2 py-0.5 text-xs font-medium',
+                  alertSeverityStyles[alertSeverity]
+                )}
+                title={alerts.map((alert) => `${alert.ruleName} : ${alert.message}`).join('\n')}
+              >
+                <Icons.BellRing className="h-3 w-3 shrink-0" />
+                <span className="truncate">
+                  {alerts.length === 1 ? alerts[0].ruleName : `${alerts.length} alertes`}
+                </span>
+              </p>
+            )}
           </div>
         </div>
 
@@ -28,19 +28,23 @@ import {
   SelectValue,
 } from '@/components/ui/select'
 import { Checkbox } from '@/components/ui/checkbox'
-import type { App, CreateAppInput, StatsDisplayOptions, PlexKPIOptions, CardStatType } from '@/lib/types'
+import type { App, AppTlsConfig, CreateAppInput, PublicApp, StatsDisplayOptions, PlexKPIOptions, CardStatType, HealthCheckConfig } from '@/lib/types'
 import { getTemplateById } from '@/lib/stats-templates'
 import { cardRegistry } from '@/lib/card-registry'
+import { getPemCertificates, normalizeFingerprint } from '@/lib/app-tls'
 import { TemplateSpecificForm } from '@/components/config/TemplateSpecificForm'
+import { TlsOptionsForm } from '@/components/config/TlsOptionsForm'
+import { ConnectionTestButton } from '@/components/config/ConnectionTestButton'
 // Importer les cartes pour qu'elles s'enregistrent
 import '@/cards'
 
 interface AppFormProps {
   open: boolean
   onOpenChange: (open: boolean) => void
-  app?: App | null
+  app?: PublicApp | null
   onSubmit: (data: CreateAppInput) => Promise<void>
   asSheet?: boolean // Si true, retourne juste le contenu sans Dialog wrapper
+  groups?: string[] // Groupes existants, proposés lors de la saisie du groupe
 }
 
 /**
@@ -89,7 +93,19 @@ function getLucideIcon(iconName: string) {
   return IconComponent
 }
 
-export function AppForm({ open, onOpenChange, app, onSubmit, asSheet = false }: AppFormProps) {
+/**
+ * Convertit la saisie des codes HTTP attendus ("200, 301") en liste
+ *
+ * @param value - Codes séparés par des virgules ou des espaces
+ * @returns La liste des codes (vide si aucun), ou null si la saisie est invalide
+ */
+function parseExpectedStatus(value: string): number[] | null {
+  const parts = value.split(/[\s,]+/).filter(Boolean)
+  const codes = parts.map((part) => Number(part))
+  return codes.every((code) => Number.isInteger(code) && code >= 100 && code <= 599) ? codes : null
+}
+
+export function AppForm({ open, onOpenChange, app, onSubmit, asSheet = false, groups = [] }: AppFormProps) {
   // Référence au formulaire pour la soumission
   const formRef = useRef<HTMLFormElement>(null)
 
@@ -100,6 +116,7 @@ export function AppForm({ open, onOpenChange, app, onSubmit, asSheet = false }:
   const [logo, setLogo] = useState('')
   const [statApiUrl, setStatApiUrl] = useState('')
   const [statLabel, setStatLabel] = useState('')
+  const [group, setGroup] = useState('')
   const [isSubmitting, setIsSubmitting] = useState(false)
   
   // État générique pour stocker toutes les valeurs de configuration spécifiques au template
@@ -132,6 +149,13 @@ export function AppForm({ open, onOpenChange, app, onSubmit, asSheet = false }:
   const [cardStatKey, setCardStatKey] = useState<string>('')
   const [cardStatLabel, setCardStatLabel] = useState<string>('')
 
+  // Vérification de disponibilité (les champs absents du formulaire, comme interval, sont conservés)
+  const [healthCheck, setHealthCheck] = useState<HealthCheckConfig>({})
+  const [healthExpectedStatus, setHealthExpectedStatus] = useState('')
+
+  // Options TLS des requêtes des cartes (certificats auto-signés)
+  const [tlsOptions, setTlsOptions] = useState<AppTlsConfig>({})
+
   // Récupérer le template sélectionné
   const selectedTemplate = selectedTemplateId ? getTemplateById(selectedTemplateId) : null
 
@@ -179,16 +203,15 @@ export function AppForm({ open, onOpenChange, app, onSubmit, asSheet = false }:
         setLogo(app.logo || '')
         setStatApiUrl(app.statApiUrl || '')
         setStatLabel(app.statLabel || '')
+        setGroup(app.group || '')
         // Charger toutes les données spécifiques au template depuis l'app
         // (apiKey, token, username, password, plexToken, etc.)
+        // Les secrets enregistrés ne sont pas chargés : un champ vide les conserve
         const specificData: Record<string, any> = {}
-        // Récupérer tous les champs potentiels de configuration
-        const possibleFields = ['apiKey', 'token', 'username', 'password', 'plexToken', 'plexServerUrl', 
-          'sonarrApiKey', 'radarrApiKey', 'lidarrApiKey', 'truenasApiKey', 'homeAssistantApiKey',
-          'proxmoxToken', 'proxmoxPassword', 'kubernetesToken', 'kubeconfig', 
-          'uptimeKumaApiKey', 'overseerrApiKey']
+        // Récupérer tous les champs déclarés par les cartes (voir lib/card-settings.ts)
+        const possibleFields = cardRegistry.getAll().flatMap((card) => Object.keys(card.settings?.fields ?? {}))
         possibleFields.forEach(field => {
-          if ((app as any)[field] !== undefined) {
+          if ((app as any)[field] !== undefined && !app.secretFields?.includes(field)) {
             specificData[field] = (app as any)[field]
           }
         })
@@ -222,6 +245,9 @@ export function AppForm({ open, onOpenChange, app, onSubmit, asSheet = false }:
           setCardStatKey('')
           setCardStatLabel('')
         }
+        setHealthCheck(app.healthCheck || {})
+        setHealthExpectedStatus(app.healthCheck?.expectedStatus?.join(', ') || '')
+        setTlsOptions(app.tls || {})
       } else {
         // Mode création : réinitialiser
         setName('')
@@ -230,6 +256,7 @@ export function AppForm({ open, onOpenChange, app, onSubmit, asSheet = false }:
         setLogo('')
         setStatApiUrl('')
         setStatLabel('')
+        setGroup('')
         setTemplateSpecificData({})
         setSelectedTemplateId('')
         setDisplayOptions({
@@ -248,6 +275,9 @@ export function AppForm({ open, onOpenChange, app, onSubmit, asSheet = false }:
         setCardStatCustomType('')
         setCardStatKey('')
         setCardStatLabel('')
+        setHealthCheck({})
+        setHealthExpectedStatus('')
+        setTlsOptions({})
       }
     }
   }, [open, app])
@@ -303,12 +333,72 @@ export function AppForm({ open, onOpenChange, app, onSubmit, asSheet = false }:
         return false
       }
     }
+    // Validation de la vérification de disponibilité
+    if (healthCheck.enabled !== false) {
+      if (healthCheck.url) {
+        try {
+          new URL(healthCheck.url)
+        } catch {
+          alert('L\'URL de vérification n\'est pas valide')
+          return false
+        }
+      }
+      if (healthCheck.port !== undefined && (healthCheck.port < 1 || healthCheck.port > 65535)) {
+        alert('Le port de vérification doit être compris entre 1 et 65535')
+        return false
+      }
+      if (parseExpectedStatus(healthExpectedStatus) === null) {
+        alert('Les codes HTTP attendus doivent être des nombres séparés par des virgules')
+        return false
+      }
+    }
+    // Validation des options TLS
+    if (tlsOptions.ca && getPemCertificates(tlsOptions.ca).length === 0) {
+      alert('L\'autorité de certification doit contenir au moins un certificat PEM')
+      return false
+    }
+    if (tlsOptions.fingerprint && !normalizeFingerprint(tlsOptions.fingerprint)) {
+      alert('L\'empreinte doit être une empreinte SHA-256 (64 caractères hexadécimaux)')
+      return false
+    }
     // Validation spécifique selon le template
     // Les validations spécifiques sont gérées par TemplateSpecificForm avec l'attribut required
     // Ici on peut ajouter des validations supplémentaires si nécessaire
     return true
   }
 
+  /**
+   * Met à jour un champ de la vérification de disponibilité
+   * Une valeur vide retire le champ (valeur par défaut côté serveur).
+   */
+  const updateHealthCheck = <K extends keyof HealthCheckConfig>(key: K, value: HealthCheckConfig[K] | '') => {
+    setHealthCheck(prev => {
+      const next = { ...prev }
+      if (value === '' || value === undefined) {
+        delete next[key]
+      } else {
+        next[key] = value
+      }
+      return next
+    })
+  }
+
+  /**
+   * Met à jour une option TLS
+   * Une valeur vide (ou false) retire l'option.
+   */
+  const updateTlsOption = (key: keyof AppTlsConfig, value: string | boolean) => {
+    setTlsOptions(prev => {
+      const next = { ...prev }
+      if (value === '' || value === false) {
+        delete next[key]
+      } else {
+        Object.assign(next, { [key]: value })
+      }
+      return next
+    })
+  }
+
   /**
    * Gère le changement de template
    */
@@ -375,6 +465,68 @@ export function AppForm({ open, onOpenChange, app, onSubmit, asSheet = false }:
     }))
   }
 
+  /**
+   * Construit la configuration de vérification envoyée à l'API
+   * Retourne undefined quand toutes les valeurs par défaut sont utilisées
+   * (un objet vide en modification, pour remplacer la configuration existante).
+   */
+  const buildHealthCheck = (): HealthCheckConfig | undefined => {
+    const config: HealthCheckConfig = { ...healthCheck }
+    const expectedStatus = parseExpectedStatus(healthExpectedStatus)
+    if (expectedStatus && expectedStatus.length > 0) {
+      config.expectedStatus = expectedStatus
+    } else {
+      delete config.expectedStatus
+    }
+    if (config.enabled !== false) {
+      delete config.enabled
+    }
+    return Object.keys(config).length > 0 || app?.healthCheck ? config : undefined
+  }
+
+  // Aperçu masqué des secrets enregistrés (jamais relus, voir lib/app-secrets.ts)
+  const storedSecrets: Record<string, string> = Object.fromEntries(
+    (app?.secretFields ?? []).map((key) => [key, String(app?.[key as keyof PublicApp] ?? '')])
+  )
+  const storedSecretsCleared = Object.fromEntries(Object.keys(storedSecrets).map((key) => [key, undefined]))
+
+  /**
+   * Construit les données envoyées à l'API à partir des valeurs du formulaire
+   * Utilisé pour l'enregistrement et pour le test de connexion.
+   */
+  const buildFormData = (): CreateAppInput => {
+    return {
+      name: name.trim(),
+      url: url.trim(),
+      logoType,
+      logo: logo.trim(),
+      statApiUrl: statApiUrl.trim() || undefined,
+      statLabel: statLabel.trim() || undefined,
+      // Chaîne vide : retirer l'application de son groupe
+      group: group.trim(),
+      // Inclure toutes les données spécifiques au template
+      ...Object.fromEntries(
+        Object.entries(templateSpecificData).map(([key, value]) => [
+          key,
+          typeof value === 'string' ? value.trim() || undefined : value
+        ]).filter(([_, value]) => value !== undefined && value !== '')
+      ),
+      statsConfig: selectedTemplateId || cardStatType ? {
+        templateId: selectedTemplateId || undefined,
+        displayOptions: selectedTemplateId ? displayOptions : undefined,
+        cardStat: cardStatType ? {
+          type: cardStatType,
+          customType: cardStatCustomType || undefined,
+          key: cardStatKey.trim() || undefined,
+          label: cardStatLabel.trim() || undefined,
+        } : undefined,
+      } : undefined,
+      healthCheck: buildHealthCheck(),
+      // Objet vide en modification pour retirer les options existantes
+      tls: Object.keys(tlsOptions).length > 0 || app?.tls ? tlsOptions : undefined,
+    }
+  }
+
   /**
    * Gère la soumission du formulaire
    */
@@ -388,33 +540,7 @@ export function AppForm({ open, onOpenChange, app, onSubmit, asSheet = false }:
     setIsSubmitting(true)
 
     try {
-      const formData: CreateAppInput = {
-        name: name.trim(),
-        url: url.trim(),
-        logoType,
-        logo: logo.trim(),
-        statApiUrl: statApiUrl.trim() || undefined,
-        statLabel: statLabel.trim() || undefined,
-        // Inclure toutes les données spécifiques au template
-        ...Object.fromEntries(
-          Object.entries(templateSpecificData).map(([key, value]) => [
-            key,
-            typeof value === 'string' ? value.trim() || undefined : value
-          ]).filter(([_, value]) => value !== undefined && value !== '')
-        ),
-        statsConfig: selectedTemplateId || cardStatType ? {
-          templateId: selectedTemplateId || undefined,
-          displayOptions: selectedTemplateId ? displayOptions : undefined,
-          cardStat: cardStatType ? {
-            type: cardStatType,
-            customType: cardStatCustomType || undefined,
-            key: cardStatKey.trim() || undefined,
-            label: cardStatLabel.trim() || undefined,
-          } : undefined,
-        } : undefined,
-      }
-
-      await onSubmit(formData)
+      await onSubmit(buildFormData())
 
       // Fermer le dialog après succès
       onOpenChange(false)
@@ -456,6 +582,23 @@ export function AppForm({ open, onOpenChange, app, onSubmit, asSheet = false }:
             />
           </div>
 
+          {/* Groupe (section du tableau de bord) */}
+          <div className="space-y-2">
+            <Label htmlFor="group">Groupe (optionnel)</Label>
+            <Input
+              id="group"
+              value={group}
+              onChange={(e) => setGroup(e.target.value)}
+              placeholder="Ex: Téléchargements, Supervision..."
+              list="app-groups"
+            />
+            <datalist id="app-groups">
+              {groups.map((name) => (
+                <option key={name} value={name} />
+              ))}
+            </datalist>
+          </div>
+
           {/* Sélection du template de stats */}
           <div className="space-y-2 border-t pt-4">
             <Label htmlFor="statsTemplate">Template de statistiques (optionnel)</Label>
@@ -485,6 +628,108 @@ export function AppForm({ open, onOpenChange, app, onSubmit, asSheet = false }:
             )}
           </div>
 
+          {/* Vérification de disponibilité */}
+          <div className="space-y-3 border-t pt-4">
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="healthCheckEnabled"
+                checked={healthCheck.enabled !== false}
+                onCheckedChange={(checked) => updateHealthCheck('enabled', checked === true ? '' : false)}
+              />
+              <Label htmlFor="healthCheckEnabled" className="cursor-pointer">
+                Vérifier la disponibilité
+              </Label>
+            </div>
+
+            {healthCheck.enabled !== false && (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="healthCheckType">Type de vérification</Label>
+                  <Select
+                    value={healthCheck.type || 'http'}
+                    onValueChange={(value: 'http' | 'tcp') => updateHealthCheck('type', value === 'http' ? '' : value)}
+                  >
+                    <SelectTrigger id="healthCheckType">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="http">HTTP (code de réponse)</SelectItem>
+                      <SelectItem value="tcp">TCP (connexion au port)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                {(healthCheck.type || 'http') === 'http' ? (
+                  <>
+                    <div className="space-y-2">
+                      <Label htmlFor="healthCheckUrl">URL vérifiée (optionnel)</Label>
+                      <Input
+                        id="healthCheckUrl"
+                        type="url"
+                        value={healthCheck.url || ''}
+                        onChange={(e) => updateHealthCheck('url', e.target.value.trim())}
+                        placeholder={url || 'URL de l\'application'}
+                      />
+                    </div>
+                    <div className="grid grid-cols-2 gap-2">
+                      <div className="space-y-2">
+                        <Label htmlFor="healthCheckStatus">Codes attendus</Label>
+                        <Input
+                          id="healthCheckStatus"
+                          value={healthExpectedStatus}
+                          onChange={(e) => setHealthExpectedStatus(e.target.value)}
+                          placeholder="2xx / 3xx"
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="healthCheckKeyword">Mot-clé (optionnel)</Label>
+                        <Input
+                          id="healthCheckKeyword"
+                          value={healthCheck.keyword || ''}
+                          onChange={(e) => updateHealthCheck('keyword', e.target.value)}
+                        />
+                      </div>
+                    </div>
+                  </>
+                ) : (
+                  <div className="grid grid-cols-[1fr_7rem] gap-2">
+                    <div className="space-y-2">
+                      <Label htmlFor="healthCheckHost">Hôte (optionnel)</Label>
+                      <Input
+                        id="healthCheckHost"
+                        value={healthCheck.host || ''}
+                        onChange={(e) => updateHealthCheck('host', e.target.value.trim())}
+                        placeholder="Hôte de l'URL"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="healthCheckPort">Port</Label>
+                      <Input
+                        id="healthCheckPort"
+                        type="number"
+                        min={1}
+                        max={65535}
+                        value={healthCheck.port ?? ''}
+                        onChange={(e) => updateHealthCheck('port', e.target.value ? parseInt(e.target.value, 10) : '')}
+                      />
+                    </div>
+                  </div>
+                )}
+
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="healthCheckTls"
+                    checked={healthCheck.checkTls ?? ((healthCheck.type || 'http') === 'http' && (healthCheck.url || url).startsWith('https:'))}
+                    onCheckedChange={(checked) => updateHealthCheck('checkTls', checked === true)}
+                  />
+                  <Label htmlFor="healthCheckTls" className="cursor-pointer">
+                    Vérifier le certificat TLS
+                  </Label>
+                </div>
+              </>
+            )}
+          </div>
+
           {/* Type de logo */}
           <div className="space-y-2">
             <Label htmlFor="logoType">Type de logo *</Label>
@@ -777,10 +1022,12 @@ export function AppForm({ open, onOpenChange, app, onSubmit, asSheet = false }:
               <TemplateSpecificForm
                 app={{
                   ...(app || {}),
+                  ...storedSecretsCleared,
                   ...templateSpecificData,
                   url: url,
                 } as App}
                 templateId={selectedTemplateId}
+                storedSecrets={storedSecrets}
                 onChange={(data) => {
                   setTemplateSpecificData(prev => ({
                     ...prev,
@@ -788,6 +1035,16 @@ export function AppForm({ open, onOpenChange, app, onSubmit, asSheet = false }:
                   }))
                 }}
               />
+              <div className="mt-4">
+                <TlsOptionsForm value={tlsOptions} onChange={updateTlsOption} />
+              </div>
+              {/* Test des identifiants saisis, avant l'enregistrement */}
+              <div className="mt-4">
+                <ConnectionTestButton
+                  getValues={() => ({ ...buildFormData(), id: app?.id })}
+                  disabled={!url.trim() || isSubmitting}
+                />
+              </div>
             </div>
           )}
         </form>
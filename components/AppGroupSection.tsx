@@ -0,0 +1,71 @@
+/**
+ * Composant AppGroupSection
+ * 
+ * Section d'un groupe d'applications dans le tableau de bord
+ * - En-tête avec le nom du groupe, le nombre d'applications et un bouton pour replier la section
+ * - En mode édition, la section est une zone de dépôt : une card déposée sur l'en-tête
+ *   ou dans la section rejoint le groupe
+ * Les applications sans groupe sont affichées sans en-tête
+ */
+
+'use client'
+
+import { useDroppable } from '@dnd-kit/core'
+import { ChevronDown, ChevronRight } from 'lucide-react'
+import { getGroupDroppableId } from '@/lib/app-groups'
+import { cn } from '@/lib/utils'
+
+interface AppGroupSectionProps {
+  /**
+   * Nom du groupe, null pour les applications sans groupe
+   */
+  name: string | null
+  /**
+   * Nombre d'applications du groupe
+   */
+  count: number
+  /**
+   * true si la section est repliée
+   */
+  collapsed: boolean
+  /**
+   * Callback pour replier / déplier la section
+   */
+  onToggle: () => void
+  /**
+   * true en mode édition (la section accepte le dépôt de cards)
+   */
+  droppable?: boolean
+  children: React.ReactNode
+}
+
+export function AppGroupSection({ name, count, collapsed, onToggle, droppable = false, children }: AppGroupSectionProps) {
+  const { setNodeRef, isOver } = useDroppable({
+    id: getGroupDroppableId(name),
+    disabled: !droppable,
+  })
+
+  return (
+    <section
+      ref={setNodeRef}
+      className={cn(
+        'mb-8 rounded-lg transition-colors',
+        isOver && 'bg-primary/5 ring-2 ring-primary/30'
+      )}
+    >
+      {name !== null && (
+        <button
+          type="button"
+          onClick={onToggle}
+          className="flex items-center gap-2 mb-4 text-lg font-semibold text-foreground/90 hover:text-foreground"
+          aria-expanded={!collapsed}
+        >
+          {collapsed ? <ChevronRight className="h-5 w-5" /> : <ChevronDown className="h-5 w-5" />}
+          {name}
+          <span className="text-sm font-normal text-muted-foreground">({count})</span>
+        </button>
+      )}
+      {!collapsed && children}
+    </section>
+  )
+}
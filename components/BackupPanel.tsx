@@ -0,0 +1,204 @@
+/**
+ * Composant BackupPanel
+ *
+ * Sauvegarde et restauration complètes du dashboard
+ * (applications, widgets, configuration, utilisateurs et métriques)
+ * Les secrets de l'archive sont chiffrés avec une phrase secrète
+ */
+
+'use client'
+
+import { useState, useRef } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Download, Upload, Loader2, AlertCircle, Check } from 'lucide-react'
+
+/**
+ * Longueur minimale de la phrase secrète (doit rester en phase avec lib/backup.ts)
+ */
+const MIN_PASSPHRASE_LENGTH = 8
+
+export function BackupPanel() {
+  const [passphrase, setPassphrase] = useState('')
+  const [isExporting, setIsExporting] = useState(false)
+  const [isRestoring, setIsRestoring] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [success, setSuccess] = useState<string | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  /**
+   * Télécharge une archive de sauvegarde
+   */
+  const handleExport = async () => {
+    setError(null)
+    setSuccess(null)
+
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      setError(`La phrase secrète doit contenir au moins ${MIN_PASSPHRASE_LENGTH} caractères`)
+      return
+    }
+
+    setIsExporting(true)
+    try {
+      const response = await fetch('/api/backup', {
+        headers: {
+          'X-Backup-Passphrase': passphrase,
+        },
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        setError(errorData.error || 'Erreur lors de la création de la sauvegarde')
+        return
+      }
+
+      const archive = await response.json()
+
+      // Déclencher le téléchargement
+      const blob = new Blob([JSON.stringify(archive, null, 2)], { type: 'application/json' })
+      const url = URL.createObjectURL(blob)
+      const link = document.createElement('a')
+      link.href = url
+      link.download = `xhell-dash-backup-${archive.createdAt.slice(0, 10)}.json`
+      link.click()
+      URL.revokeObjectURL(url)
+
+      setSuccess('Sauvegarde téléchargée. Conservez la phrase secrète : elle sera demandée pour la restaurer.')
+    } catch (error) {
+      console.error('Erreur lors de la création de la sauvegarde:', error)
+      setError('Erreur lors de la création de la sauvegarde')
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  /**
+   * Restaure une archive sélectionnée par l'utilisateur
+   */
+  const handleRestore = async (file: File) => {
+    setError(null)
+    setSuccess(null)
+
+    if (!passphrase) {
+      setError('Saisissez la phrase secrète utilisée lors de la sauvegarde')
+      return
+    }
+
+    if (!confirm('Toutes les données actuelles (applications, widgets, paramètres et utilisateurs) seront remplacées. Continuer ?')) {
+      return
+    }
+
+    setIsRestoring(true)
+    try {
+      let archive
+      try {
+        archive = JSON.parse(await file.text())
+      } catch {
+        setError('Le fichier sélectionné n\'est pas une sauvegarde valide')
+        return
+      }
+
+      const response = await fetch('/api/restore', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ archive, passphrase }),
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        setError(errorData.error || 'Erreur lors de la restauration')
+        return
+      }
+
+      // Toutes les données ont changé (y compris les utilisateurs) : recharger la page
+      window.location.reload()
+    } catch (error) {
+      console.error('Erreur lors de la restauration:', error)
+      setError('Erreur lors de la restauration')
+    } finally {
+      setIsRestoring(false)
+      if (fileInputRef.current) {
+        fileInputRef.current.value = ''
+      }
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 className="text-lg font-semibold mb-2">Sauvegarde et restauration</h3>
+        <p className="text-sm text-muted-foreground">
+          Exportez l&apos;ensemble du dashboard dans un fichier, ou restaurez une sauvegarde existante
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="backup-passphrase">Phrase secrète</Label>
+        <Input
+          id="backup-passphrase"
+          type="password"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          placeholder={`Au moins ${MIN_PASSPHRASE_LENGTH} caractères`}
+          autoComplete="new-password"
+        />
+        <p className="text-xs text-muted-foreground">
+          Chiffre les tokens et clés API contenus dans la sauvegarde
+        </p>
+      </div>
+
+      {error && (
+        <div className="flex items-center gap-2 p-3 text-sm text-destructive bg-destructive/10 rounded-md">
+          <AlertCircle className="h-4 w-4 shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {success && (
+        <div className="flex items-center gap-2 p-3 text-sm text-green-600 dark:text-green-400 bg-green-50 dark:bg-green-950 rounded-md">
+          <Check className="h-4 w-4 shrink-0" />
+          <span>{success}</span>
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-2">
+        <Button variant="outline" onClick={handleExport} disabled={isExporting || isRestoring}>
+          {isExporting ? (
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          ) : (
+            <Download className="h-4 w-4 mr-2" />
+          )}
+          Sauvegarder
+        </Button>
+        <Button
+          variant="outline"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isExporting || isRestoring}
+        >
+          {isRestoring ? (
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          ) : (
+            <Upload className="h-4 w-4 mr-2" />
+          )}
+          Restaurer
+        </Button>
+      </div>
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="application/json,.json"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0]
+          if (file) {
+            handleRestore(file)
+          }
+        }}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,226 @@
+/**
+ * Composant ConfigHistoryPanel
+ *
+ * Chronologie des modifications du dashboard (applications, widgets, configuration)
+ * Affiche le diff champ par champ de chaque révision et permet d'y revenir
+ */
+
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Button } from '@/components/ui/button'
+import { ChevronDown, ChevronRight, History, Loader2, AlertCircle, RotateCcw } from 'lucide-react'
+import type { ConfigRevision, RevisionChange } from '@/lib/config-history'
+
+interface ConfigHistoryPanelProps {
+  /**
+   * Callback appelé après un retour à une révision (pour recharger le dashboard)
+   */
+  onRollback?: () => void
+}
+
+/**
+ * Libellés des parties du dashboard
+ */
+const SCOPE_LABELS: Record<RevisionChange['scope'], string> = {
+  dashboards: 'Tableau de bord',
+  apps: 'Application',
+  widgets: 'Widget',
+  config: 'Configuration',
+}
+
+/**
+ * Formate une valeur de diff pour l'affichage
+ */
+function formatValue(value: unknown): string {
+  if (value === undefined) {
+    return '(vide)'
+  }
+  const text = typeof value === 'string' ? value : JSON.stringify(value)
+  return text.length > 80 ? `${text.substring(0, 77)}...` : text
+}
+
+/**
+ * Ligne de diff d'une modification
+ */
+function ChangeLine({ change }: { change: RevisionChange }) {
+  const target = [SCOPE_LABELS[change.scope], change.itemLabel].filter(Boolean).join(' ')
+
+  if (change.type !== 'modified') {
+    return (
+      <li className="text-xs">
+        <span className={change.type === 'added' ? 'text-green-600 dark:text-green-400' : 'text-destructive'}>
+          {change.type === 'added' ? '+ ' : '− '}
+        </span>
+        {target} {change.type === 'added' ? 'ajouté(e)' : 'supprimé(e)'}
+      </li>
+    )
+  }
+
+  return (
+    <li className="text-xs space-y-0.5">
+      <div className="font-medium">
+        {target} · <code>{change.path}</code>
+      </div>
+      <div className="font-mono break-all">
+        <span className="text-destructive line-through">{formatValue(change.before)}</span>
+        {' → '}
+        <span className="text-green-600 dark:text-green-400">{formatValue(change.after)}</span>
+      </div>
+    </li>
+  )
+}
+
+export function ConfigHistoryPanel({ onRollback }: ConfigHistoryPanelProps) {
+  const [revisions, setRevisions] = useState<ConfigRevision[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [expandedId, setExpandedId] = useState<number | null>(null)
+  const [rollingBackId, setRollingBackId] = useState<number | null>(null)
+
+  /**
+   * Charge l'historique depuis l'API
+   */
+  const loadHistory = async () => {
+    setIsLoading(true)
+    setError(null)
+    try {
+      const response = await fetch('/api/config/history')
+      if (response.ok) {
+        setRevisions(await response.json())
+      } else {
+        const errorData = await response.json()
+        setError(errorData.error || 'Erreur lors du chargement de l\'historique')
+      }
+    } catch (error) {
+      console.error('Erreur lors du chargement de l\'historique:', error)
+      setError('Erreur lors du chargement de l\'historique')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  /**
+   * Restaure le dashboard dans l'état d'une révision
+   */
+  const handleRollback = async (revision: ConfigRevision) => {
+    if (!confirm(`Restaurer le dashboard dans l'état de la révision #${revision.id} ? Cette opération pourra elle-même être annulée.`)) {
+      return
+    }
+
+    setRollingBackId(revision.id)
+    setError(null)
+    try {
+      const response = await fetch(`/api/config/history/${revision.id}/rollback`, {
+        method: 'POST',
+      })
+
+      if (response.ok) {
+        await loadHistory()
+        onRollback?.()
+      } else {
+        const errorData = await response.json()
+        setError(errorData.error || 'Erreur lors du retour à la révision')
+      }
+    } catch (error) {
+      console.error('Erreur lors du retour à la révision:', error)
+      setError('Erreur lors du retour à la révision')
+    } finally {
+      setRollingBackId(null)
+    }
+  }
+
+  // Charger l'historique au montage
+  useEffect(() => {
+    loadHistory()
+  }, [])
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 className="text-lg font-semibold mb-2 flex items-center gap-2">
+          <History className="h-5 w-5" />
+          Historique des modifications
+        </h3>
+        <p className="text-sm text-muted-foreground">
+          Consultez les modifications récentes et revenez à un état antérieur du dashboard
+        </p>
+      </div>
+
+      {error && (
+        <div className="flex items-center gap-2 p-3 text-sm text-destructive bg-destructive/10 rounded-md">
+          <AlertCircle className="h-4 w-4 shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : revisions.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-4">
+          Aucune modification enregistrée
+        </p>
+      ) : (
+        <ol className="space-y-2 border-l pl-4">
+          {revisions.map((revision, index) => {
+            const isExpanded = expandedId === revision.id
+            return (
+              <li key={revision.id} className="space-y-2">
+                <div className="flex items-start justify-between gap-2">
+                  <button
+                    type="button"
+                    className="flex items-start gap-1 text-left"
+                    onClick={() => setExpandedId(isExpanded ? null : revision.id)}
+                  >
+                    {isExpanded ? (
+                      <ChevronDown className="h-4 w-4 mt-0.5 shrink-0" />
+                    ) : (
+                      <ChevronRight className="h-4 w-4 mt-0.5 shrink-0" />
+                    )}
+                    <span>
+                      <span className="block text-sm font-medium">
+                        #{revision.id} · {revision.summary}
+                      </span>
+                      <span className="block text-xs text-muted-foreground">
+                        {new Date(revision.createdAt).toLocaleString('fr-FR')}
+                        {' · '}
+                        {revision.author || 'système'}
+                        {' · '}
+                        {revision.changes.length} modification(s)
+                      </span>
+                    </span>
+                  </button>
+                  {/* La révision la plus récente correspond à l'état actuel */}
+                  {index > 0 && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleRollback(revision)}
+                      disabled={rollingBackId !== null}
+                    >
+                      {rollingBackId === revision.id ? (
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                      ) : (
+                        <RotateCcw className="h-4 w-4" />
+                      )}
+                      <span className="ml-1">Restaurer</span>
+                    </Button>
+                  )}
+                </div>
+                {isExpanded && (
+                  <ul className="space-y-2 rounded-md bg-muted/50 p-3">
+                    {revision.changes.map((change, changeIndex) => (
+                      <ChangeLine key={changeIndex} change={change} />
+                    ))}
+                  </ul>
+                )}
+              </li>
+            )
+          })}
+        </ol>
+      )}
+    </div>
+  )
+}
@@ -1,23 +1,30 @@
 /**
  * Composant Badge de statut de connexion
- * 
- * Affiche un badge indiquant le statut de connexion d'une application :
- * - 🟢 En ligne (dernière requête réussie < 1 min)
- * - 🟡 En attente (requête en cours)
- * - 🔴 Hors ligne (dernière requête échouée)
+ *
+ * Affiche l'état de la dernière vérification de disponibilité faite par le
+ * serveur (voir lib/health-checks.ts) :
+ * - 🟢 En ligne (vérification réussie)
+ * - 🟠 Dégradé (certificat TLS proche de l'expiration)
+ * - 🔴 Hors ligne (vérification échouée)
+ * - ⚪ En attente (pas encore vérifiée)
+ *
+ * Un clic affiche le détail : temps de réponse, certificat, disponibilité
+ * et historique des dernières 24 heures.
  */
 
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState } from 'react'
 import { cn } from '@/lib/utils'
 import type { App } from '@/lib/types'
-import { getCacheTimestamp, getCacheKey } from '@/lib/cache-client'
+import type { HealthCheckResult, HealthHistory, HealthStatus } from '@/lib/health-checks'
+import { useAppHealth } from '@/lib/health-client'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
 
 /**
  * Type de statut de connexion
  */
-export type ConnectionStatus = 'online' | 'pending' | 'offline' | 'unknown'
+export type ConnectionStatus = HealthStatus | 'pending'
 
 /**
  * Props pour le composant ConnectionStatusBadge
@@ -32,182 +39,161 @@ interface ConnectionStatusBadgeProps {
 }
 
 /**
- * Récupère le timestamp le plus récent parmi toutes les clés de cache pour une app
- * 
- * @param appId - ID de l'application
- * @param templateId - ID du template
- * @returns Timestamp le plus récent, ou null si aucune donnée trouvée
+ * Nombre de vérifications affichées dans l'historique du détail
  */
-function getLatestCacheTimestamp(appId: string, templateId: string): number | null {
-  try {
-    if (typeof window === 'undefined' || !window.localStorage) {
-      return null
-    }
-
-    // Préfixe pour les clés avec templateId et key spécifique (se termine par _)
-    const prefixWithKey = `xhell_dash_cache_${appId}_${templateId}_`
-    // Clé exacte pour les clés avec seulement templateId (sans key supplémentaire)
-    const exactKey = `xhell_dash_cache_${appId}_${templateId}`
-    
-    let latestTimestamp: number | null = null
-
-    // Parcourir toutes les clés de localStorage
-    for (let i = 0; i < window.localStorage.length; i++) {
-      const key = window.localStorage.key(i)
-      if (!key || !key.startsWith('xhell_dash_cache_')) {
-        continue
-      }
-
-      // Vérifier si cette clé correspond à notre app et template
-      // Soit elle commence par appId_templateId_ (avec une key), soit elle est exactement appId_templateId
-      const isMatchingKey = key.startsWith(prefixWithKey) || key === exactKey
-      
-      if (isMatchingKey) {
-        try {
-          const cached = window.localStorage.getItem(key)
-          if (cached) {
-            const entry = JSON.parse(cached)
-            // Vérifier que les données ont un timestamp
-            if (entry.timestamp) {
-              const now = Date.now()
-              const age = now - entry.timestamp
-              const ttl = entry.ttl || 300000 // TTL par défaut de 5 minutes
-              
-              // Accepter les données si elles ne sont pas expirées OU si elles sont récentes (< 20 minutes)
-              // Même si expirées, on les considère pour déterminer le statut de connexion
-              if (age <= ttl || age < 1200000) {
-                if (latestTimestamp === null || entry.timestamp > latestTimestamp) {
-                  latestTimestamp = entry.timestamp
-                }
-              }
-            }
-          }
-        } catch {
-          // Ignorer les clés corrompues
-          continue
-        }
-      }
-    }
-
-    return latestTimestamp
-  } catch (error) {
-    console.warn('Erreur lors de la recherche du cache:', error)
-    return null
-  }
+const HISTORY_BARS = 48
+
+// Styles selon le statut
+const statusStyles: Record<ConnectionStatus, string> = {
+  up: 'bg-green-500/10 text-green-600 dark:text-green-400 border-green-500/20',
+  degraded: 'bg-orange-500/10 text-orange-600 dark:text-orange-400 border-orange-500/20',
+  down: 'bg-red-500/10 text-red-600 dark:text-red-400 border-red-500/20',
+  pending: 'bg-yellow-500/10 text-yellow-600 dark:text-yellow-400 border-yellow-500/20',
+  unknown: 'bg-gray-500/10 text-gray-600 dark:text-gray-400 border-gray-500/20',
 }
 
-/**
- * Détermine le statut de connexion d'une application
- * 
- * @param app - Application à vérifier
- * @returns Statut de connexion
- */
-function getConnectionStatus(app: App): ConnectionStatus {
-  const templateId = app.statsConfig?.templateId || 'generic'
-  
-  // Chercher le timestamp le plus récent parmi toutes les clés de cache pour cette app
-  const lastUpdate = getLatestCacheTimestamp(app.id, templateId)
-
-  if (!lastUpdate) {
-    return 'unknown'
-  }
+const dotStyles: Record<ConnectionStatus, string> = {
+  up: 'bg-green-500',
+  degraded: 'bg-orange-500',
+  down: 'bg-red-500',
+  pending: 'bg-yellow-500 animate-pulse',
+  unknown: 'bg-gray-500',
+}
 
-  const now = Date.now()
-  const age = now - lastUpdate
-  const ageMinutes = age / 60000
+const statusLabels: Record<ConnectionStatus, string> = {
+  up: 'En ligne',
+  degraded: 'Dégradé',
+  down: 'Hors ligne',
+  pending: 'En attente',
+  unknown: 'Inconnu',
+}
 
-  // Si la dernière mise à jour est très récente (< 1 minute), considérer comme en ligne
-  if (ageMinutes < 1) {
-    return 'online'
-  }
+const sizeStyles = {
+  sm: 'text-xs px-2 py-1 min-h-[20px]',
+  md: 'text-sm px-3 py-1.5 min-h-[28px] shadow-sm',
+}
 
-  // Si la dernière mise à jour est récente (< 5 minutes), considérer comme en ligne
-  if (ageMinutes < 5) {
-    return 'online'
-  }
+const dotSizes = {
+  sm: 'h-2 w-2',
+  md: 'h-2.5 w-2.5',
+}
 
-  // Si la dernière mise à jour est ancienne (> 15 minutes), considérer comme hors ligne
-  if (ageMinutes > 15) {
-    return 'offline'
-  }
+/**
+ * Réponse de GET /api/apps/[id]/health
+ */
+type HealthDetails = HealthHistory & { current: HealthCheckResult | null }
 
-  // Entre 5 et 15 minutes, considérer comme en ligne (transition)
-  return 'online'
+/**
+ * Formate une date ISO en heure locale
+ */
+function formatTime(date: string): string {
+  return new Date(date).toLocaleString('fr-FR', { dateStyle: 'short', timeStyle: 'medium' })
 }
 
 /**
  * Composant Badge de statut de connexion
  */
 export function ConnectionStatusBadge({ app, size = 'sm', className }: ConnectionStatusBadgeProps) {
-  const [status, setStatus] = useState<ConnectionStatus>(() => getConnectionStatus(app))
-  const [isChecking, setIsChecking] = useState(false)
-
-  // Vérifier périodiquement le statut (toutes les 30 secondes)
-  useEffect(() => {
-    const updateStatus = () => {
-      setIsChecking(true)
-      const newStatus = getConnectionStatus(app)
-      setStatus(newStatus)
-      setIsChecking(false)
+  const result = useAppHealth(app.id)
+  const [details, setDetails] = useState<HealthDetails | null>(null)
+  const status: ConnectionStatus = result?.status ?? 'pending'
+
+  /**
+   * Charge l'historique à l'ouverture du détail
+   */
+  const handleOpenChange = (open: boolean) => {
+    if (!open) {
+      return
     }
-
-    // Vérifier immédiatement
-    updateStatus()
-
-    // Vérifier périodiquement
-    const interval = setInterval(updateStatus, 30000) // 30 secondes
-
-    return () => clearInterval(interval)
-  }, [app.id, app.statsConfig?.templateId])
-
-  // Styles selon le statut
-  const statusStyles = {
-    online: 'bg-green-500/10 text-green-600 dark:text-green-400 border-green-500/20',
-    pending: 'bg-yellow-500/10 text-yellow-600 dark:text-yellow-400 border-yellow-500/20',
-    offline: 'bg-red-500/10 text-red-600 dark:text-red-400 border-red-500/20',
-    unknown: 'bg-gray-500/10 text-gray-600 dark:text-gray-400 border-gray-500/20',
+    fetch(`/api/apps/${app.id}/health?period=24h`)
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data: HealthDetails | null) => setDetails(data))
+      .catch((error) => {
+        console.warn('Impossible de charger l\'historique de disponibilité:', error)
+      })
   }
 
-  const statusLabels = {
-    online: 'En ligne',
-    pending: 'En attente',
-    offline: 'Hors ligne',
-    unknown: 'Inconnu',
-  }
-
-  const sizeStyles = {
-    sm: 'text-xs px-2 py-1 min-h-[20px]',
-    md: 'text-sm px-3 py-1.5 min-h-[28px] shadow-sm',
-  }
-
-  const dotSizes = {
-    sm: 'h-2 w-2',
-    md: 'h-2.5 w-2.5',
-  }
+  const title = result?.error ? `${statusLabels[status]} : ${result.error}` : statusLabels[status]
+  const checks = details?.checks.slice(-HISTORY_BARS) ?? []
 
   return (
-    <div
-      className={cn(
-        'inline-flex items-center gap-1.5 rounded-full border font-medium transition-colors',
-        statusStyles[status],
-        sizeStyles[size],
-        isChecking && 'opacity-70',
-        className
-      )}
-      title={statusLabels[status]}
-    >
-      <span
-        className={cn(
-          'rounded-full flex-shrink-0',
-          dotSizes[size],
-          status === 'online' && 'bg-green-500',
-          status === 'pending' && 'bg-yellow-500 animate-pulse',
-          status === 'offline' && 'bg-red-500',
-          status === 'unknown' && 'bg-gray-500'
+    <Popover onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          onClick={(e) => e.stopPropagation()}
+          className={cn(
+            'inline-flex items-center gap-1.5 rounded-full border font-medium transition-colors',
+            statusStyles[status],
+            sizeStyles[size],
+            className
+          )}
+          title={title}
+        >
+          <span className={cn('rounded-full flex-shrink-0', dotSizes[size], dotStyles[status])} />
+          {size === 'md' && <span className="whitespace-nowrap">{statusLabels[status]}</span>}
+          {size === 'md' && result?.latency != null && status !== 'down' && (
+            <span className="whitespace-nowrap text-xs opacity-70">{result.latency} ms</span>
+          )}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 space-y-3 text-sm" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center gap-2 font-semibold">
+          <span className={cn('h-2.5 w-2.5 rounded-full', dotStyles[status])} />
+          {statusLabels[status]}
+        </div>
+
+        {result ? (
+          <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-xs">
+            <dt className="text-muted-foreground">Vérification</dt>
+            <dd>{result.type.toUpperCase()}{result.statusCode !== null && ` · HTTP ${result.statusCode}`}</dd>
+            <dt className="text-muted-foreground">Dernière</dt>
+            <dd>{formatTime(result.checkedAt)}</dd>
+            {result.latency !== null && (
+              <>
+                <dt className="text-muted-foreground">Temps de réponse</dt>
+                <dd>{result.latency} ms</dd>
+              </>
+            )}
+            {result.tlsValidTo && (
+              <>
+                <dt className="text-muted-foreground">Certificat</dt>
+                <dd>
+                  expire le {new Date(result.tlsValidTo).toLocaleDateString('fr-FR')} ({result.tlsDaysRemaining} j)
+                </dd>
+              </>
+            )}
+            {details?.uptime != null && (
+              <>
+                <dt className="text-muted-foreground">Disponibilité 24 h</dt>
+                <dd>{details.uptime} %</dd>
+              </>
+            )}
+            {result.error && (
+              <>
+                <dt className="text-muted-foreground">Erreur</dt>
+                <dd className="break-words text-red-600 dark:text-red-400">{result.error}</dd>
+              </>
+            )}
+          </dl>
+        ) : (
+          <p className="text-xs text-muted-foreground">L&apos;application n&apos;a pas encore été vérifiée.</p>
         )}
-      />
-      {size === 'md' && <span className="whitespace-nowrap">{statusLabels[status]}</span>}
-    </div>
+
+        {checks.length > 0 && (
+          <div className="flex h-6 items-end gap-px" aria-label="Historique des vérifications">
+            {checks.map((check) => (
+              <span
+                key={check.checkedAt}
+                className={cn('h-full flex-1 rounded-sm', dotStyles[check.status])}
+                title={`${formatTime(check.checkedAt)} · ${statusLabels[check.status]}${
+                  check.latency !== null ? ` · ${check.latency} ms` : ''
+                }`}
+              />
+            ))}
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
   )
 }
-
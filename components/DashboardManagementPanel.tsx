@@ -0,0 +1,228 @@
+/**
+ * Composant DashboardManagementPanel
+ * 
+ * Panneau de gestion des tableaux de bord pour les administrateurs
+ * Permet de créer, renommer et supprimer des tableaux de bord (Media, Infra, ...)
+ */
+
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Plus, Trash2, Loader2, AlertCircle, Check, X, Edit } from 'lucide-react'
+import { DEFAULT_DASHBOARD_ID, getDashboardPath, slugify } from '@/lib/dashboards'
+import type { Dashboard } from '@/lib/types'
+
+interface DashboardManagementPanelProps {
+  /**
+   * Tableaux de bord existants
+   */
+  dashboards: Dashboard[]
+  /**
+   * Callback appelé après une modification (pour recharger les onglets)
+   */
+  onChange: () => void | Promise<void>
+}
+
+export function DashboardManagementPanel({ dashboards, onChange }: DashboardManagementPanelProps) {
+  const [newName, setNewName] = useState('')
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [editingName, setEditingName] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [success, setSuccess] = useState<string | null>(null)
+
+  /**
+   * Envoie une requête et affiche le résultat
+   */
+  const submit = async (request: () => Promise<Response>, successMessage: string): Promise<boolean> => {
+    setIsSaving(true)
+    setError(null)
+    setSuccess(null)
+    try {
+      const response = await request()
+      if (!response.ok) {
+        const errorData = await response.json()
+        setError(errorData.error || 'Erreur lors de la modification')
+        return false
+      }
+      setSuccess(successMessage)
+      setTimeout(() => setSuccess(null), 3000)
+      await onChange()
+      return true
+    } catch (error) {
+      console.error('Erreur lors de la modification des tableaux de bord:', error)
+      setError('Erreur lors de la modification des tableaux de bord')
+      return false
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  /**
+   * Crée un tableau de bord (le slug est déduit du nom)
+   */
+  const handleCreate = async () => {
+    if (!newName.trim()) {
+      setError('Le nom est requis')
+      return
+    }
+
+    const created = await submit(
+      () =>
+        fetch('/api/dashboards', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ name: newName.trim() }),
+        }),
+      'Tableau de bord créé'
+    )
+    if (created) {
+      setNewName('')
+    }
+  }
+
+  /**
+   * Renomme un tableau de bord
+   */
+  const handleRename = async (dashboard: Dashboard) => {
+    const renamed = await submit(
+      () =>
+        fetch(`/api/dashboards/${dashboard.id}`, {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ name: editingName }),
+        }),
+      'Tableau de bord renommé'
+    )
+    if (renamed) {
+      setEditingId(null)
+    }
+  }
+
+  /**
+   * Supprime un tableau de bord
+   * Ses applications et widgets sont déplacés sur le tableau de bord par défaut
+   */
+  const handleDelete = async (dashboard: Dashboard) => {
+    if (!confirm(`Supprimer le tableau de bord « ${dashboard.name} » ? Ses applications et widgets seront déplacés sur le tableau de bord par défaut.`)) {
+      return
+    }
+
+    await submit(
+      () => fetch(`/api/dashboards/${dashboard.id}`, { method: 'DELETE' }),
+      'Tableau de bord supprimé'
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 className="text-lg font-semibold">Tableaux de bord</h3>
+        <p className="text-sm text-muted-foreground">
+          Regroupez vos applications et widgets sur plusieurs pages accessibles par onglets
+        </p>
+      </div>
+
+      {/* Messages d'erreur et de succès */}
+      {error && (
+        <div className="flex items-center gap-2 p-3 text-sm text-destructive bg-destructive/10 rounded-md">
+          <AlertCircle className="h-4 w-4 shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {success && (
+        <div className="flex items-center gap-2 p-3 text-sm text-green-600 dark:text-green-400 bg-green-50 dark:bg-green-950 rounded-md">
+          <Check className="h-4 w-4 shrink-0" />
+          <span>{success}</span>
+        </div>
+      )}
+
+      {/* Création */}
+      <div className="space-y-2">
+        <Label htmlFor="dashboard-name">Nouveau tableau de bord</Label>
+        <div className="flex gap-2">
+          <Input
+            id="dashboard-name"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                handleCreate()
+              }
+            }}
+            placeholder="Infra"
+          />
+          <Button onClick={handleCreate} disabled={isSaving}>
+            {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+          </Button>
+        </div>
+        {newName.trim() && (
+          <p className="text-xs text-muted-foreground">
+            Adresse : /d/{slugify(newName)}
+          </p>
+        )}
+      </div>
+
+      {/* Liste des tableaux de bord */}
+      <div className="space-y-2">
+        {dashboards.map((dashboard) => (
+          <div
+            key={dashboard.id}
+            className="flex items-center justify-between gap-2 p-3 border rounded-lg"
+          >
+            {editingId === dashboard.id ? (
+              <>
+                <Input
+                  value={editingName}
+                  onChange={(e) => setEditingName(e.target.value)}
+                  autoFocus
+                />
+                <div className="flex gap-2">
+                  <Button size="sm" onClick={() => handleRename(dashboard)} disabled={isSaving}>
+                    <Check className="h-4 w-4" />
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => setEditingId(null)}>
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              </>
+            ) : (
+              <>
+                <div className="min-w-0">
+                  <p className="font-medium">{dashboard.name}</p>
+                  <p className="text-sm text-muted-foreground">{getDashboardPath(dashboard)}</p>
+                </div>
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => {
+                      setEditingId(dashboard.id)
+                      setEditingName(dashboard.name)
+                    }}
+                  >
+                    <Edit className="h-4 w-4 mr-2" />
+                    Renommer
+                  </Button>
+                  <Button
+                    variant="destructive"
+                    size="sm"
+                    onClick={() => handleDelete(dashboard)}
+                    disabled={dashboard.id === DEFAULT_DASHBOARD_ID || isSaving}
+                    title={dashboard.id === DEFAULT_DASHBOARD_ID ? 'Le tableau de bord par défaut ne peut pas être supprimé' : 'Supprimer le tableau de bord'}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
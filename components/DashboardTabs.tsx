@@ -0,0 +1,46 @@
+/**
+ * Composant DashboardTabs
+ * 
+ * Onglets de navigation entre les tableaux de bord
+ * Chaque onglet est un lien vers l'URL du tableau de bord (/ ou /d/<slug>)
+ */
+
+'use client'
+
+import Link from 'next/link'
+import { getDashboardPath } from '@/lib/dashboards'
+import { cn } from '@/lib/utils'
+import type { Dashboard } from '@/lib/types'
+
+interface DashboardTabsProps {
+  /**
+   * Tableaux de bord triés par ordre
+   */
+  dashboards: Dashboard[]
+  /**
+   * ID du tableau de bord affiché
+   */
+  currentId?: string
+}
+
+export function DashboardTabs({ dashboards, currentId }: DashboardTabsProps) {
+  return (
+    <nav className="flex flex-wrap gap-1 mb-6 rounded-lg bg-muted p-1 w-fit" aria-label="Tableaux de bord">
+      {dashboards.map((dashboard) => (
+        <Link
+          key={dashboard.id}
+          href={getDashboardPath(dashboard)}
+          aria-current={dashboard.id === currentId ? 'page' : undefined}
+          className={cn(
+            'px-3 py-1.5 text-sm font-medium rounded-md transition-colors',
+            dashboard.id === currentId
+              ? 'bg-background text-foreground shadow-sm'
+              : 'text-muted-foreground hover:text-foreground'
+          )}
+        >
+          {dashboard.name}
+        </Link>
+      ))}
+    </nav>
+  )
+}
@@ -0,0 +1,669 @@
+/**
+ * Composant NotificationChannelsPanel
+ *
+ * Panneau de gestion des canaux de notification des alertes pour les administrateurs
+ * Permet de créer, modifier, tester et supprimer des canaux (voir lib/notifications.ts)
+ */
+
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Checkbox } from '@/components/ui/checkbox'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Plus, Edit, Trash2, Loader2, AlertCircle, Check, Send } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import type {
+  NotificationChannel,
+  NotificationChannelConfig,
+  NotificationChannelInput,
+  NotificationChannelType,
+} from '@/lib/notifications'
+import type { App } from '@/lib/types'
+
+const typeLabels: Record<NotificationChannelType, string> = {
+  webhook: 'Webhook (JSON)',
+  ntfy: 'ntfy',
+  gotify: 'Gotify',
+  discord: 'Discord',
+  slack: 'Slack / Mattermost',
+  apprise: 'URL Apprise',
+  email: 'Email (SMTP)',
+}
+
+const textareaClassName =
+  'flex min-h-[80px] w-full rounded-md border border-input bg-background px-3 py-2 text-sm font-mono ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50'
+
+/**
+ * Convertit les en-têtes du webhook en texte (une ligne 'Nom: valeur' par en-tête)
+ */
+function formatHeaders(headers: Record<string, string> | undefined): string {
+  return Object.entries(headers ?? {}).map(([name, value]) => `${name}: ${value}`).join('\n')
+}
+
+/**
+ * Convertit le texte saisi en en-têtes
+ */
+function parseHeaders(text: string): Record<string, string> | undefined {
+  const headers: Record<string, string> = {}
+  for (const line of text.split('\n')) {
+    const index = line.indexOf(':')
+    if (index > 0) {
+      headers[line.slice(0, index).trim()] = line.slice(index + 1).trim()
+    }
+  }
+  return Object.keys(headers).length > 0 ? headers : undefined
+}
+
+/**
+ * Retire les champs vides de la configuration avant l'envoi
+ */
+function cleanConfig(config: NotificationChannelConfig): NotificationChannelConfig {
+  return Object.fromEntries(
+    Object.entries(config).filter(([, value]) => value !== '' && value !== undefined)
+  ) as NotificationChannelConfig
+}
+
+interface NotificationChannelsPanelProps {
+  className?: string
+}
+
+export function NotificationChannelsPanel({ className }: NotificationChannelsPanelProps) {
+  const [channels, setChannels] = useState<NotificationChannel[]>([])
+  const [apps, setApps] = useState<App[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [isDialogOpen, setIsDialogOpen] = useState(false)
+  const [editingChannel, setEditingChannel] = useState<NotificationChannel | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+  const [isTesting, setIsTesting] = useState(false)
+  const [testResult, setTestResult] = useState<{ success: boolean; message: string } | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [success, setSuccess] = useState<string | null>(null)
+
+  // Champs du formulaire
+  const [name, setName] = useState('')
+  const [type, setType] = useState<NotificationChannelType>('ntfy')
+  const [config, setConfig] = useState<NotificationChannelConfig>({})
+  const [headersText, setHeadersText] = useState('')
+  const [appIds, setAppIds] = useState<string[]>([])
+  const [enabled, setEnabled] = useState(true)
+
+  /**
+   * Charge les canaux et les applications
+   */
+  const loadChannels = async () => {
+    setIsLoading(true)
+    setError(null)
+    try {
+      const [channelsResponse, appsResponse] = await Promise.all([
+        fetch('/api/notifications/channels'),
+        fetch('/api/apps'),
+      ])
+      if (channelsResponse.ok) {
+        setChannels(await channelsResponse.json())
+      } else {
+        const errorData = await channelsResponse.json()
+        setError(errorData.error || 'Erreur lors du chargement des canaux')
+      }
+      if (appsResponse.ok) {
+        setApps(await appsResponse.json())
+      }
+    } catch (error) {
+      console.error('Erreur lors du chargement des canaux:', error)
+      setError('Erreur lors du chargement des canaux')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  // Charger les canaux au montage
+  useEffect(() => {
+    loadChannels()
+  }, [])
+
+  /**
+   * Met à jour un champ de la configuration
+   */
+  const updateConfig = <K extends keyof NotificationChannelConfig>(field: K, value: NotificationChannelConfig[K]) => {
+    setConfig((current) => ({ ...current, [field]: value }))
+    setTestResult(null)
+  }
+
+  /**
+   * Configuration à envoyer à l'API
+   */
+  const buildConfig = (): NotificationChannelConfig =>
+    cleanConfig({ ...config, headers: type === 'webhook' ? parseHeaders(headersText) : undefined })
+
+  /**
+   * Remplit le formulaire avec un canal (ou les valeurs par défaut)
+   */
+  const openDialog = (channel: NotificationChannel | null) => {
+    setEditingChannel(channel)
+    setName(channel?.name ?? '')
+    setType(channel?.type ?? 'ntfy')
+    setConfig(channel?.config ?? {})
+    setHeadersText(formatHeaders(channel?.config.headers))
+    setAppIds(channel?.appIds ?? [])
+    setEnabled(channel?.enabled ?? true)
+    setTestResult(null)
+    setError(null)
+    setSuccess(null)
+    setIsDialogOpen(true)
+  }
+
+  /**
+   * Supprime un canal
+   */
+  const handleDeleteChannel = async (channelId: string) => {
+    if (!confirm('Êtes-vous sûr de vouloir supprimer ce canal de notification ?')) {
+      return
+    }
+
+    try {
+      const response = await fetch(`/api/notifications/channels/${channelId}`, {
+        method: 'DELETE',
+      })
+
+      if (response.ok) {
+        setSuccess('Canal supprimé avec succès')
+        await loadChannels()
+        setTimeout(() => setSuccess(null), 3000)
+      } else {
+        const errorData = await response.json()
+        setError(errorData.error || 'Erreur lors de la suppression')
+        setTimeout(() => setError(null), 5000)
+      }
+    } catch (error) {
+      console.error('Erreur lors de la suppression:', error)
+      setError('Erreur lors de la suppression du canal')
+      setTimeout(() => setError(null), 5000)
+    }
+  }
+
+  /**
+   * Envoie une notification de test avec la configuration du formulaire
+   */
+  const handleTest = async () => {
+    setIsTesting(true)
+    setTestResult(null)
+    try {
+      const response = await fetch('/api/notifications/test', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ id: editingChannel?.id, type, config: buildConfig() }),
+      })
+      const data = await response.json()
+      setTestResult(
+        response.ok
+          ? { success: true, message: data.message || 'Notification de test envoyée' }
+          : { success: false, message: data.error || 'Échec de l\'envoi' }
+      )
+    } catch (error) {
+      console.error('Erreur lors du test:', error)
+      setTestResult({ success: false, message: 'Erreur lors de l\'envoi de la notification de test' })
+    } finally {
+      setIsTesting(false)
+    }
+  }
+
+  /**
+   * Sauvegarde le canal (création ou modification)
+   */
+  const handleSave = async () => {
+    if (!name.trim()) {
+      setError('Le nom du canal est requis')
+      return
+    }
+
+    setIsSaving(true)
+    setError(null)
+    setSuccess(null)
+
+    const input: NotificationChannelInput = {
+      name,
+      type,
+      config: buildConfig(),
+      appIds,
+      enabled,
+    }
+
+    try {
+      const response = await fetch(
+        editingChannel ? `/api/notifications/channels/${editingChannel.id}` : '/api/notifications/channels',
+        {
+          method: editingChannel ? 'PUT' : 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify(input),
+        }
+      )
+
+      if (response.ok) {
+        setSuccess(editingChannel ? 'Canal modifié avec succès' : 'Canal créé avec succès')
+        setIsDialogOpen(false)
+        await loadChannels()
+      } else {
+        const errorData = await response.json()
+        setError(errorData.error || 'Erreur lors de la sauvegarde')
+      }
+    } catch (error) {
+      console.error('Erreur lors de la sauvegarde:', error)
+      setError('Erreur lors de la sauvegarde du canal')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  /**
+   * Champ texte de la configuration
+   */
+  const renderField = (
+    field: 'url' | 'topic' | 'token' | 'host' | 'username' | 'password' | 'from' | 'to',
+    label: string,
+    placeholder: string,
+    inputType: 'text' | 'password' | 'url' = 'text'
+  ) => (
+    <div className="space-y-2">
+      <Label htmlFor={`channel-${field}`}>{label}</Label>
+      <Input
+        id={`channel-${field}`}
+        type={inputType}
+        value={config[field] ?? ''}
+        onChange={(e) => updateConfig(field, e.target.value)}
+        placeholder={placeholder}
+      />
+    </div>
+  )
+
+  return (
+    <div className={cn('space-y-4', className)}>
+      {/* En-tête avec bouton d'ajout */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-semibold">Canaux de notification</h3>
+          <p className="text-sm text-muted-foreground">
+            Recevez les alertes déclenchées et résolues par webhook, ntfy, Gotify, Discord, Slack ou email
+          </p>
+        </div>
+        <Button onClick={() => openDialog(null)}>
+          <Plus className="h-4 w-4 mr-2" />
+          Ajouter un canal
+        </Button>
+      </div>
+
+      {/* Messages d'erreur et de succès */}
+      {error && !isDialogOpen && (
+        <div className="flex items-center gap-2 p-3 text-sm text-destructive bg-destructive/10 rounded-md">
+          <AlertCircle className="h-4 w-4 shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {success && (
+        <div className="flex items-center gap-2 p-3 text-sm text-green-600 dark:text-green-400 bg-green-50 dark:bg-green-950 rounded-md">
+          <Check className="h-4 w-4 shrink-0" />
+          <span>{success}</span>
+        </div>
+      )}
+
+      {/* Liste des canaux */}
+      {isLoading ? (
+        <div className="flex items-center justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : channels.length === 0 ? (
+        <div className="text-center py-8 text-muted-foreground">
+          <p>Aucun canal de notification</p>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {channels.map((channel) => (
+            <div
+              key={channel.id}
+              className={cn(
+                'flex items-center justify-between p-4 border rounded-lg hover:bg-accent/50 transition-colors',
+                !channel.enabled && 'opacity-60'
+              )}
+            >
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2 flex-wrap">
+                  <p className="font-medium break-all">{channel.name}</p>
+                  <span className="px-2 py-1 text-xs rounded-full bg-muted text-muted-foreground shrink-0">
+                    {typeLabels[channel.type]}
+                  </span>
+                  {!channel.enabled && (
+                    <span className="px-2 py-1 text-xs rounded-full bg-muted text-muted-foreground shrink-0">
+                      Désactivé
+                    </span>
+                  )}
+                </div>
+                <p className="text-sm text-muted-foreground mt-1 break-all">
+                  {channel.appIds.length > 0
+                    ? `Toutes les alertes de : ${channel.appIds
+                        .map((id) => apps.find((app) => app.id === id)?.name ?? id)
+                        .join(', ')}`
+                    : 'Alertes des règles qui le sélectionnent'}
+                </p>
+              </div>
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => openDialog(channel)}
+                >
+                  <Edit className="h-4 w-4 mr-2" />
+                  Modifier
+                </Button>
+                <Button
+                  variant="destructive"
+                  size="sm"
+                  onClick={() => handleDeleteChannel(channel.id)}
+                >
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  Supprimer
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Dialog de création/modification */}
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="sm:max-w-md max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>
+              {editingChannel ? 'Modifier le canal' : 'Créer un canal'}
+            </DialogTitle>
+            <DialogDescription>
+              Les alertes sont envoyées à leur déclenchement et à leur résolution
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            {/* Message d'erreur */}
+            {error && (
+              <div className="flex items-center gap-2 p-3 text-sm text-destructive bg-destructive/10 rounded-md">
+                <AlertCircle className="h-4 w-4 shrink-0" />
+                <span>{error}</span>
+              </div>
+            )}
+
+            {/* Nom et type */}
+            <div className="space-y-2">
+              <Label htmlFor="channel-name">Nom</Label>
+              <Input
+                id="channel-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Téléphone"
+                required
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="channel-type">Type</Label>
+              <Select
+                value={type}
+                onValueChange={(value) => {
+                  setType(value as NotificationChannelType)
+                  setTestResult(null)
+                }}
+              >
+                <SelectTrigger id="channel-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(typeLabels) as NotificationChannelType[]).map((candidate) => (
+                    <SelectItem key={candidate} value={candidate}>
+                      {typeLabels[candidate]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {/* Paramètres selon le type */}
+            {type === 'webhook' && (
+              <>
+                {renderField('url', 'URL', 'https://example.com/hooks/alertes', 'url')}
+                <div className="space-y-2">
+                  <Label htmlFor="channel-method">Méthode</Label>
+                  <Select
+                    value={config.method ?? 'POST'}
+                    onValueChange={(value) => updateConfig('method', value as 'POST' | 'PUT')}
+                  >
+                    <SelectTrigger id="channel-method">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="POST">POST</SelectItem>
+                      <SelectItem value="PUT">PUT</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="channel-headers">En-têtes (un par ligne)</Label>
+                  <textarea
+                    id="channel-headers"
+                    className={textareaClassName}
+                    value={headersText}
+                    onChange={(e) => {
+                      setHeadersText(e.target.value)
+                      setTestResult(null)
+                    }}
+                    placeholder="Authorization: Bearer ..."
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="channel-template">Modèle JSON (optionnel)</Label>
+                  <textarea
+                    id="channel-template"
+                    className={textareaClassName}
+                    value={config.template ?? ''}
+                    onChange={(e) => updateConfig('template', e.target.value)}
+                    placeholder={'{"text": "{{title}} - {{message}}"}'}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Variables : {'{{title}}'}, {'{{message}}'}, {'{{status}}'}, {'{{severity}}'}, {'{{appName}}'},{' '}
+                    {'{{ruleName}}'}, {'{{value}}'}, {'{{timestamp}}'}. Par défaut, le message complet est envoyé.
+                  </p>
+                </div>
+              </>
+            )}
+
+            {type === 'ntfy' && (
+              <>
+                {renderField('url', 'Serveur', 'https://ntfy.sh', 'url')}
+                {renderField('topic', 'Sujet', 'alertes-homelab')}
+                {renderField('token', 'Jeton d\'accès (optionnel)', 'tk_...', 'password')}
+              </>
+            )}
+
+            {type === 'gotify' && (
+              <>
+                {renderField('url', 'Serveur', 'https://gotify.example.com', 'url')}
+                {renderField('token', 'Jeton d\'application', 'A...', 'password')}
+              </>
+            )}
+
+            {(type === 'discord' || type === 'slack') &&
+              renderField(
+                'url',
+                'URL du webhook',
+                type === 'discord' ? 'https://discord.com/api/webhooks/...' : 'https://hooks.slack.com/services/...',
+                'url'
+              )}
+
+            {type === 'apprise' && (
+              <div className="space-y-2">
+                {renderField('url', 'URL Apprise', 'ntfy://alertes-homelab')}
+                <p className="text-xs text-muted-foreground">
+                  Formats supportés : json://, ntfy://, gotify://, discord://, slack://, mailto:// (et leurs
+                  variantes sécurisées en s://)
+                </p>
+              </div>
+            )}
+
+            {type === 'email' && (
+              <>
+                <div className="grid grid-cols-[1fr_6rem] gap-4">
+                  {renderField('host', 'Serveur SMTP', 'smtp.example.com')}
+                  <div className="space-y-2">
+                    <Label htmlFor="channel-port">Port</Label>
+                    <Input
+                      id="channel-port"
+                      type="number"
+                      min={1}
+                      max={65535}
+                      value={config.port ?? ''}
+                      onChange={(e) => updateConfig('port', e.target.value ? parseInt(e.target.value, 10) : undefined)}
+                      placeholder={config.secure ? '465' : '587'}
+                    />
+                  </div>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id="channel-secure"
+                    checked={config.secure === true}
+                    onCheckedChange={(checked) => updateConfig('secure', checked === true)}
+                  />
+                  <Label htmlFor="channel-secure" className="cursor-pointer">
+                    TLS dès la connexion (sinon STARTTLS)
+                  </Label>
+                </div>
+                {config.secure !== true && (
+                  <div className="flex items-center gap-2">
+                    <Checkbox
+                      id="channel-allow-plaintext"
+                      checked={config.allowPlaintext === true}
+                      onCheckedChange={(checked) => updateConfig('allowPlaintext', checked === true)}
+                    />
+                    <Label htmlFor="channel-allow-plaintext" className="cursor-pointer">
+                      Autoriser un serveur sans STARTTLS (mot de passe envoyé en clair)
+                    </Label>
+                  </div>
+                )}
+                <div className="grid grid-cols-2 gap-4">
+                  {renderField('username', 'Utilisateur', 'alertes@example.com')}
+                  {renderField('password', 'Mot de passe', '', 'password')}
+                </div>
+                {renderField('from', 'Expéditeur', 'Xhell Dashboard <alertes@example.com>')}
+                {renderField('to', 'Destinataires (séparés par des virgules)', 'moi@example.com')}
+              </>
+            )}
+
+            {/* Applications */}
+            {apps.length > 0 && (
+              <div className="space-y-2">
+                <Label>Toutes les alertes de ces applications</Label>
+                <div className="space-y-2 rounded-md border p-3 max-h-40 overflow-y-auto">
+                  {apps.map((app) => (
+                    <div key={app.id} className="flex items-center gap-2">
+                      <Checkbox
+                        id={`channel-app-${app.id}`}
+                        checked={appIds.includes(app.id)}
+                        onCheckedChange={(checked) =>
+                          setAppIds((current) =>
+                            checked === true ? [...current, app.id] : current.filter((id) => id !== app.id)
+                          )
+                        }
+                      />
+                      <Label htmlFor={`channel-app-${app.id}`} className="cursor-pointer font-normal">
+                        {app.name}
+                      </Label>
+                    </div>
+                  ))}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Les règles d&apos;alerte peuvent aussi choisir ce canal individuellement
+                </p>
+              </div>
+            )}
+
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="channel-enabled"
+                checked={enabled}
+                onCheckedChange={(checked) => setEnabled(checked === true)}
+              />
+              <Label htmlFor="channel-enabled" className="cursor-pointer">
+                Activé
+              </Label>
+            </div>
+
+            {/* Résultat du test */}
+            {testResult && (
+              <div
+                className={cn(
+                  'flex items-center gap-2 p-3 text-sm rounded-md',
+                  testResult.success
+                    ? 'text-green-600 dark:text-green-400 bg-green-50 dark:bg-green-950'
+                    : 'text-destructive bg-destructive/10'
+                )}
+              >
+                {testResult.success ? <Check className="h-4 w-4 shrink-0" /> : <AlertCircle className="h-4 w-4 shrink-0" />}
+                <span className="break-words">{testResult.message}</span>
+              </div>
+            )}
+
+            {/* Boutons */}
+            <div className="flex gap-2 justify-end pt-4">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={handleTest}
+                disabled={isTesting || isSaving}
+                className="mr-auto"
+              >
+                {isTesting ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Send className="h-4 w-4 mr-2" />
+                )}
+                Envoyer un test
+              </Button>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setIsDialogOpen(false)}
+                disabled={isSaving}
+              >
+                Annuler
+              </Button>
+              <Button onClick={handleSave} disabled={isSaving}>
+                {isSaving ? (
+                  <>
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    Sauvegarde...
+                  </>
+                ) : (
+                  'Sauvegarder'
+                )}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
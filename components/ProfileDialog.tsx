@@ -3,6 +3,7 @@
  * 
  * Popover pour modifier son email et mot de passe
  * Formulaire avec validation et gestion des erreurs
+ * Gestion des jetons d'API personnels (voir ApiTokensSection)
  * S'ouvre comme une bulle reliée au bouton déclencheur
  */
 
@@ -22,6 +23,7 @@ import { Label } from '@/components/ui/label'
 import { Loader2, Check, AlertCircle, LogOut } from 'lucide-react'
 import { cn } from '@/lib/utils'
 import { signOut } from 'next-auth/react'
+import { ApiTokensSection } from '@/components/ApiTokensSection'
 
 interface UserProfile {
   id: string
@@ -249,6 +251,7 @@ export function ProfileDialog({ open, onOpenChange, children }: ProfileDialogPro
               <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
             </div>
           ) : (
+            <>
             <form onSubmit={handleSubmit} className="space-y-4">
             {/* Message d'erreur */}
             {error && (
@@ -380,6 +383,10 @@ export function ProfileDialog({ open, onOpenChange, children }: ProfileDialogPro
               </Button>
             </div>
           </form>
+
+            {/* Jetons d'API personnels */}
+            <ApiTokensSection open={open} isAdmin={profile?.role === 'admin'} />
+            </>
           )}
         </div>
       </PopoverContent>
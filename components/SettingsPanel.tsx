@@ -15,7 +15,7 @@ import { Button } from '@/components/ui/button'
 import { Label } from '@/components/ui/label'
 import { Separator } from '@/components/ui/separator'
 import type { BackgroundEffect, AppConfig, ThemeId, StylePreset } from '@/lib/types'
-import { Loader2, Check } from 'lucide-react'
+import { Loader2, Check, FileCode } from 'lucide-react'
 import { defaultStylePreset } from '@/lib/style-presets'
 import { applyTheme, resetTheme } from '@/lib/theme-utils'
 import { getThemeById } from '@/lib/themes'
@@ -43,6 +43,8 @@ export function SettingsPanel({ onConfigChange, onSaveRef }: SettingsPanelProps)
   const [isLoading, setIsLoading] = useState(true)
   const [isSaving, setIsSaving] = useState(false)
   const [justSaved, setJustSaved] = useState(false)
+  // Configuration déclarée dans dashboard.yaml : non modifiable depuis l'interface
+  const [isReadOnly, setIsReadOnly] = useState(false)
   const isInitialLoad = useRef(true)
   const saveTimeoutRef = useRef<NodeJS.Timeout | null>(null)
 
@@ -58,6 +60,7 @@ export function SettingsPanel({ onConfigChange, onSaveRef }: SettingsPanelProps)
         setBackgroundEffect(config.backgroundEffect || 'mesh-animated')
         setTheme(config.theme || 'default')
         setStylePreset(config.stylePreset || defaultStylePreset)
+        setIsReadOnly(config.source === 'yaml')
         isInitialLoad.current = true // Marquer que c'est le chargement initial
       } else {
         console.error('Erreur lors du chargement de la configuration')
@@ -79,6 +82,10 @@ export function SettingsPanel({ onConfigChange, onSaveRef }: SettingsPanelProps)
    * @param skipNotify - Si true, ne pas appeler onConfigChange (pour éviter les doubles notifications)
    */
   const saveConfig = async (silent: boolean = false, skipNotify: boolean = false) => {
+    if (isReadOnly) {
+      return
+    }
+
     setIsSaving(true)
     try {
       const response = await fetch('/api/config', {
@@ -199,35 +206,46 @@ export function SettingsPanel({ onConfigChange, onSaveRef }: SettingsPanelProps)
         </p>
       </div>
 
+      {isReadOnly && (
+        <div className="flex items-center gap-2 p-3 text-sm bg-muted rounded-md">
+          <FileCode className="h-4 w-4 shrink-0" />
+          <span>
+            Ces paramètres sont déclarés dans dashboard.yaml : modifiez le fichier pour les changer.
+          </span>
+        </div>
+      )}
+
       <Separator />
 
-      {/* Sélecteur de thème de couleur */}
-      <div className="space-y-4">
-        <ThemeSelector
-          value={theme}
-          onValueChange={setTheme}
-        />
-      </div>
+      <fieldset disabled={isReadOnly} className="space-y-6 disabled:opacity-60">
+        {/* Sélecteur de thème de couleur */}
+        <div className="space-y-4">
+          <ThemeSelector
+            value={theme}
+            onValueChange={setTheme}
+          />
+        </div>
 
-      <Separator />
+        <Separator />
 
-      {/* Sélecteur de style */}
-      <div className="space-y-4">
-        <StyleSelector
-          value={stylePreset}
-          onValueChange={setStylePreset}
-        />
-      </div>
+        {/* Sélecteur de style */}
+        <div className="space-y-4">
+          <StyleSelector
+            value={stylePreset}
+            onValueChange={setStylePreset}
+          />
+        </div>
 
-      <Separator />
+        <Separator />
 
-      {/* Sélecteur de background */}
-      <div className="space-y-4">
-        <BackgroundSelector
-          value={backgroundEffect}
-          onValueChange={setBackgroundEffect}
-        />
-      </div>
+        {/* Sélecteur de background */}
+        <div className="space-y-4">
+          <BackgroundSelector
+            value={backgroundEffect}
+            onValueChange={setBackgroundEffect}
+          />
+        </div>
+      </fieldset>
 
       <Separator />
 
@@ -243,6 +261,10 @@ export function SettingsPanel({ onConfigChange, onSaveRef }: SettingsPanelProps)
             <Check className="h-4 w-4 text-green-600 dark:text-green-400" />
             <span className="text-sm text-green-600 dark:text-green-400">Sauvegardé</span>
           </>
+        ) : isReadOnly ? (
+          <span className="text-sm text-muted-foreground">
+            Configuration en lecture seule
+          </span>
         ) : (
           <span className="text-sm text-muted-foreground">
             Les modifications sont sauvegardées automatiquement
@@ -0,0 +1,144 @@
+/**
+ * Composant YamlConfigPanel
+ *
+ * État de la configuration déclarative (dashboard.yaml) et export
+ * de la configuration actuelle au format YAML
+ */
+
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Button } from '@/components/ui/button'
+import { FileCode, Download, Loader2, AlertCircle } from 'lucide-react'
+import type { YamlConfigStatus } from '@/lib/yaml-config'
+
+/**
+ * Badge indiquant qu'un élément est déclaré dans dashboard.yaml
+ */
+export function YamlBadge() {
+  return (
+    <span
+      className="inline-flex items-center rounded border px-1.5 py-0.5 text-[10px] font-medium uppercase text-muted-foreground"
+      title="Déclaré dans dashboard.yaml (lecture seule)"
+    >
+      YAML
+    </span>
+  )
+}
+
+export function YamlConfigPanel() {
+  const [status, setStatus] = useState<YamlConfigStatus | null>(null)
+  const [isExporting, setIsExporting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  /**
+   * Charge l'état du fichier dashboard.yaml
+   */
+  const loadStatus = async () => {
+    try {
+      const response = await fetch('/api/config/yaml')
+      if (response.ok) {
+        setStatus(await response.json())
+      }
+    } catch (error) {
+      console.error('Erreur lors du chargement de l\'état de dashboard.yaml:', error)
+    }
+  }
+
+  /**
+   * Télécharge la configuration actuelle au format dashboard.yaml
+   */
+  const handleExport = async () => {
+    setIsExporting(true)
+    setError(null)
+    try {
+      const response = await fetch('/api/config/yaml/export')
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        setError(errorData.error || 'Erreur lors de l\'export YAML')
+        return
+      }
+
+      // Déclencher le téléchargement
+      const blob = await response.blob()
+      const url = URL.createObjectURL(blob)
+      const link = document.createElement('a')
+      link.href = url
+      link.download = 'dashboard.yaml'
+      link.click()
+      URL.revokeObjectURL(url)
+    } catch (error) {
+      console.error('Erreur lors de l\'export YAML:', error)
+      setError('Erreur lors de l\'export YAML')
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  // Charger l'état au montage
+  useEffect(() => {
+    loadStatus()
+  }, [])
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 className="text-lg font-semibold mb-2 flex items-center gap-2">
+          <FileCode className="h-5 w-5" />
+          Configuration YAML
+        </h3>
+        <p className="text-sm text-muted-foreground">
+          Les applications, widgets et paramètres déclarés dans dashboard.yaml sont chargés
+          automatiquement et ne sont pas modifiables depuis l&apos;interface
+        </p>
+      </div>
+
+      {status && (
+        <div className="text-sm space-y-1">
+          <p>
+            Fichier : <code className="text-xs">{status.path}</code>
+          </p>
+          {status.active ? (
+            <p className="text-muted-foreground">
+              Chargé le {new Date(status.loadedAt as string).toLocaleString('fr-FR')} :{' '}
+              {status.apps} application(s), {status.widgets} widget(s)
+              {status.config && ', paramètres généraux'}
+            </p>
+          ) : (
+            <p className="text-muted-foreground">Aucun fichier chargé</p>
+          )}
+        </div>
+      )}
+
+      {status?.error && (
+        <div className="flex items-start gap-2 p-3 text-sm text-destructive bg-destructive/10 rounded-md">
+          <AlertCircle className="h-4 w-4 shrink-0 mt-0.5" />
+          <span>
+            Dernière modification ignorée : {status.error}
+          </span>
+        </div>
+      )}
+
+      {error && (
+        <div className="flex items-center gap-2 p-3 text-sm text-destructive bg-destructive/10 rounded-md">
+          <AlertCircle className="h-4 w-4 shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      <Button variant="outline" onClick={handleExport} disabled={isExporting} className="w-full">
+        {isExporting ? (
+          <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+        ) : (
+          <Download className="h-4 w-4 mr-2" />
+        )}
+        Exporter en YAML
+      </Button>
+      <p className="text-xs text-muted-foreground">
+        Les secrets ne sont pas exportés : ils sont remplacés par des références ${'{VAR}'} à
+        définir dans l&apos;environnement du serveur.
+      </p>
+    </div>
+  )
+}
@@ -6,7 +6,7 @@
 
 'use client'
 
-import { useState, useEffect, useRef } from 'react'
+import { useState, useEffect, useRef, useCallback } from 'react'
 import { ChartContainer, ChartConfig } from '@/components/ui/chart'
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip } from 'recharts'
 import { SkeletonChart } from '@/components/ui/skeleton'
@@ -15,15 +15,20 @@ import { getCachedData, setCachedData, getCacheKey, getCacheTimestamp } from '@/
 import { formatRelativeTime } from '@/lib/date-utils'
 import { fetchWithRetry } from '@/lib/api-retry'
 import { createStructuredError, isRecoverableError } from '@/lib/error-handler'
-import { storeMetric, getDailyAggregatedMetrics } from '@/lib/metrics-storage'
+import type { MetricPoint } from '@/lib/metrics-history'
+import type { LiveStats } from '@/lib/live-events'
 import { getTimeoutFromApp } from '@/lib/timeout-config'
 
 interface CardStatChartProps {
   app: App
   config: CardStatConfig
+  // Dernières statistiques reçues en temps réel
+  live?: LiveStats | null
+  // Flux temps réel ouvert : pas de rafraîchissement périodique
+  connected?: boolean
 }
 
-export function CardStatChart({ app, config }: CardStatChartProps) {
+export function CardStatChart({ app, config, live, connected = false }: CardStatChartProps) {
   const [chartData, setChartData] = useState<any[]>([])
   const [isLoading, setIsLoading] = useState(false)
   const [lastUpdated, setLastUpdated] = useState<number | null>(null)
@@ -36,6 +41,43 @@ export function CardStatChart({ app, config }: CardStatChartProps) {
   // Période d'historique configurable (défaut : 7 jours)
   const historyPeriod = app.statsConfig?.historyPeriod || 7
 
+  // Charge l'historique enregistré par le serveur (moyenne par jour)
+  const loadHistoricalData = useCallback(async () => {
+    if (!config.key || !templateId) return
+
+    try {
+      const params = new URLSearchParams({
+        key: config.key,
+        period: `${historyPeriod}d`,
+        resolution: 'day',
+      })
+      const response = await fetch(`/api/apps/${app.id}/metrics?${params}`)
+      if (!response.ok) {
+        return
+      }
+
+      const { points }: { points: MetricPoint[] } = await response.json()
+
+      // Formater les données pour le graphique
+      const formattedData = points.map((point, index) => {
+        const date = new Date(point.timestamp)
+        const dayName = index === points.length - 1
+          ? 'Aujourd\'hui'
+          : date.toLocaleDateString('fr-FR', { weekday: 'short', day: 'numeric', month: 'short' })
+
+        return {
+          name: dayName,
+          value: Math.round(point.value),
+          date: date.toISOString().split('T')[0],
+        }
+      })
+
+      setChartData(formattedData)
+    } catch (error) {
+      console.warn('Erreur lors du chargement de l\'historique des métriques:', error)
+    }
+  }, [app.id, config.key, templateId, historyPeriod])
+
   useEffect(() => {
     // Réinitialiser shouldRetry quand les dépendances changent
     shouldRetryRef.current = true
@@ -48,44 +90,6 @@ export function CardStatChart({ app, config }: CardStatChartProps) {
 
     const cacheKey = getCacheKey(app.id, templateId, config.key)
 
-    // Fonction pour charger les données historiques depuis le stockage
-    const loadHistoricalData = () => {
-      if (!config.key || !templateId) return
-      
-      const dailyMetrics = getDailyAggregatedMetrics(
-        app.id,
-        templateId,
-        config.key,
-        historyPeriod
-      )
-      
-      if (dailyMetrics.length > 0) {
-        // Formater les données pour le graphique
-        const formattedData = dailyMetrics.map((entry, index) => {
-          const date = new Date(entry.date)
-          const dayName = index === dailyMetrics.length - 1 
-            ? 'Aujourd\'hui' 
-            : date.toLocaleDateString('fr-FR', { weekday: 'short', day: 'numeric', month: 'short' })
-          
-          return {
-            name: dayName,
-            value: entry.value,
-            date: entry.date,
-          }
-        })
-        
-        setChartData(formattedData)
-        
-        // Utiliser le timestamp de la dernière métrique
-        if (dailyMetrics.length > 0) {
-          setLastUpdated(dailyMetrics[dailyMetrics.length - 1].timestamp)
-        }
-      } else {
-        // Si pas de données historiques, afficher un message ou des données vides
-        setChartData([])
-      }
-    }
-    
     // Charger les données historiques immédiatement
     loadHistoricalData()
     
@@ -119,22 +123,10 @@ export function CardStatChart({ app, config }: CardStatChartProps) {
         
         if (response.ok) {
           const data: PlexStats = await response.json()
-          const statKey = config.key!
-          const value = (data as any)[statKey] || 0
-          
-          // Stocker la métrique dans l'historique
-          if (templateId && config.key && typeof value === 'number') {
-            storeMetric({
-              appId: app.id,
-              templateId: templateId,
-              key: config.key,
-              value: value,
-              timestamp: Date.now(),
-            })
-          }
           
+          // La valeur est enregistrée dans l'historique par le serveur lors de la collecte
           // Recharger les données historiques pour mettre à jour le graphique
-          loadHistoricalData()
+          await loadHistoricalData()
           
           setLastUpdated(Date.now())
 
@@ -193,17 +185,31 @@ export function CardStatChart({ app, config }: CardStatChartProps) {
       }
     }
 
+    // Charger immédiatement (et à la reconnexion du flux temps réel)
     fetchStats()
 
-    // Rafraîchir selon l'intervalle configuré
+    // Sans flux temps réel, rafraîchir selon l'intervalle configuré
     // L'intervalle sera vérifié dans fetchStats grâce à shouldRetryRef
+    if (connected) {
+      return
+    }
     const interval = setInterval(() => {
       if (shouldRetryRef.current) {
         fetchStats()
       }
     }, refreshInterval)
     return () => clearInterval(interval)
-  }, [app.id, config.key, templateId, refreshInterval, historyPeriod])
+  }, [app.id, config.key, templateId, refreshInterval, loadHistoricalData, connected])
+
+  // La valeur reçue en temps réel a été ajoutée à l'historique par le serveur
+  useEffect(() => {
+    if (!live) {
+      return
+    }
+    setLastUpdated(live.receivedAt)
+    setError(null)
+    loadHistoricalData()
+  }, [live, loadHistoricalData])
 
   return (
     <div className="space-y-2">
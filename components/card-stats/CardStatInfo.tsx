@@ -6,6 +6,7 @@
  * le dernier film ajouté, etc.
  * 
  * Utilise le cache côté client pour améliorer les performances
+ * Mis à jour en temps réel par les statistiques reçues du serveur (live)
  */
 
 'use client'
@@ -18,10 +19,15 @@ import { formatRelativeTime } from '@/lib/date-utils'
 import { fetchWithRetry } from '@/lib/api-retry'
 import { createStructuredError, isRecoverableError } from '@/lib/error-handler'
 import { getTimeoutFromApp } from '@/lib/timeout-config'
+import type { LiveStats } from '@/lib/live-events'
 
 interface CardStatInfoProps {
   app: App
   config: CardStatConfig
+  // Dernières statistiques reçues en temps réel
+  live?: LiveStats | null
+  // Flux temps réel ouvert : pas de rafraîchissement périodique
+  connected?: boolean
 }
 
 /**
@@ -133,7 +139,7 @@ function extractInfoData(data: any, key: string): InfoData | string | null {
   return String(item)
 }
 
-export function CardStatInfo({ app, config }: CardStatInfoProps) {
+export function CardStatInfo({ app, config, live, connected = false }: CardStatInfoProps) {
   const [infoData, setInfoData] = useState<InfoData | string | null>(null)
   const [isLoading, setIsLoading] = useState(false)
   const [lastUpdated, setLastUpdated] = useState<number | null>(null)
@@ -229,13 +235,26 @@ export function CardStatInfo({ app, config }: CardStatInfoProps) {
       }
     }
 
-    // Charger immédiatement
+    // Charger immédiatement (et à la reconnexion du flux temps réel)
     fetchStats()
 
-    // Rafraîchir selon l'intervalle configuré
+    // Sans flux temps réel, rafraîchir selon l'intervalle configuré
+    if (connected) {
+      return
+    }
     const interval = setInterval(fetchStats, refreshInterval)
     return () => clearInterval(interval)
-  }, [appId, statKey, templateId, refreshInterval, timeout])
+  }, [appId, statKey, templateId, refreshInterval, timeout, connected])
+
+  // Appliquer les statistiques reçues en temps réel
+  useEffect(() => {
+    if (!live || !statKey || typeof live.data !== 'object' || live.data === null) {
+      return
+    }
+    setInfoData(extractInfoData(live.data, statKey))
+    setLastUpdated(live.receivedAt)
+    setCachedData(getCacheKey(appId, templateId, statKey), live.data, 300000)
+  }, [live, appId, templateId, statKey])
 
   // Rendu pour une string simple
   const renderSimpleInfo = (info: string) => (
@@ -3,6 +3,7 @@
  * 
  * Affiche une statistique sous forme de nombre simple
  * Utilise le cache côté client pour améliorer les performances
+ * Mis à jour en temps réel par les statistiques reçues du serveur (live)
  */
 
 'use client'
@@ -15,13 +16,27 @@ import { formatRelativeTime } from '@/lib/date-utils'
 import { fetchWithRetry } from '@/lib/api-retry'
 import { createStructuredError, isRecoverableError } from '@/lib/error-handler'
 import { getTimeoutFromApp } from '@/lib/timeout-config'
+import type { LiveStats } from '@/lib/live-events'
 
 interface CardStatNumberProps {
   app: App
   config: CardStatConfig
+  // Dernières statistiques reçues en temps réel
+  live?: LiveStats | null
+  // Flux temps réel ouvert : pas de rafraîchissement périodique
+  connected?: boolean
 }
 
-export function CardStatNumber({ app, config }: CardStatNumberProps) {
+/**
+ * Extrait la valeur à afficher des statistiques
+ */
+function extractStatValue(data: any, key: string): string | number | undefined {
+  return data[key] ||
+    (typeof data === 'number' ? data :
+    data.value || data.count || data.total)
+}
+
+export function CardStatNumber({ app, config, live, connected = false }: CardStatNumberProps) {
   const [statValue, setStatValue] = useState<string | number | undefined>(app.statValue)
   const [isLoading, setIsLoading] = useState(false)
   const [lastUpdated, setLastUpdated] = useState<number | null>(null)
@@ -41,10 +56,7 @@ export function CardStatNumber({ app, config }: CardStatNumberProps) {
     // Charger les données depuis le cache si disponibles (optimistic UI)
     const cachedData = getCachedData<any>(cacheKey)
     if (cachedData) {
-      const value = cachedData[config.key] || 
-                   (typeof cachedData === 'number' ? cachedData : 
-                   cachedData.value || cachedData.count || cachedData.total)
-      setStatValue(value)
+      setStatValue(extractStatValue(cachedData, config.key))
       const cachedTimestamp = getCacheTimestamp(cacheKey)
       if (cachedTimestamp) {
         setLastUpdated(cachedTimestamp)
@@ -70,10 +82,7 @@ export function CardStatNumber({ app, config }: CardStatNumberProps) {
         
         if (response.ok) {
           const data = await response.json()
-          const value = (data as any)[config.key!] || 
-                       (typeof data === 'number' ? data : 
-                       data.value || data.count || data.total)
-          setStatValue(value)
+          setStatValue(extractStatValue(data, config.key!))
           setLastUpdated(Date.now())
 
           // Mettre en cache les données complètes avec TTL de 5 minutes
@@ -122,13 +131,26 @@ export function CardStatNumber({ app, config }: CardStatNumberProps) {
       }
     }
 
-    // Charger immédiatement
+    // Charger immédiatement (et à la reconnexion du flux temps réel)
     fetchStats()
 
-    // Rafraîchir selon l'intervalle configuré
+    // Sans flux temps réel, rafraîchir selon l'intervalle configuré
+    if (connected) {
+      return
+    }
     const interval = setInterval(fetchStats, refreshInterval)
     return () => clearInterval(interval)
-  }, [app.id, config.key, app.statsConfig?.templateId, refreshInterval])
+  }, [app.id, config.key, app.statsConfig?.templateId, refreshInterval, connected])
+
+  // Appliquer les statistiques reçues en temps réel
+  useEffect(() => {
+    if (!live || !config.key || live.data === null || live.data === undefined) {
+      return
+    }
+    setStatValue(extractStatValue(live.data, config.key))
+    setLastUpdated(live.receivedAt)
+    setCachedData(getCacheKey(app.id, app.statsConfig?.templateId, config.key), live.data, 300000)
+  }, [live, app.id, app.statsConfig?.templateId, config.key])
 
   return (
     <div className="flex flex-col gap-1">
@@ -8,6 +8,10 @@
  * - 'chart' : affiche un graphique de type courbe
  * - 'info' : affiche une information textuelle (ex: prochain épisode)
  * - 'custom' : type personnalisé spécifique à un template
+ * 
+ * Les statistiques collectées par le serveur sont reçues en temps réel
+ * (voir lib/live-events.ts) ; les renderers ne rafraîchissent par
+ * scrutation que lorsque le flux est interrompu.
  */
 
 'use client'
@@ -16,6 +20,7 @@ import { CardStatNumber } from './CardStatNumber'
 import { CardStatChart } from './CardStatChart'
 import { CardStatInfo } from './CardStatInfo'
 import { CardStatCustom } from './CardStatCustom'
+import { useLiveStats } from '@/lib/live-events'
 import type { App, CardStatConfig } from '@/lib/types'
 
 interface CardStatRendererProps {
@@ -24,13 +29,15 @@ interface CardStatRendererProps {
 }
 
 export function CardStatRenderer({ app, config }: CardStatRendererProps) {
+  const { live, connected } = useLiveStats(app.id)
+
   switch (config.type) {
     case 'number':
-      return <CardStatNumber app={app} config={config} />
+      return <CardStatNumber app={app} config={config} live={live} connected={connected} />
     case 'chart':
-      return <CardStatChart app={app} config={config} />
+      return <CardStatChart app={app} config={config} live={live} connected={connected} />
     case 'info':
-      return <CardStatInfo app={app} config={config} />
+      return <CardStatInfo app={app} config={config} live={live} connected={connected} />
     case 'custom':
       return <CardStatCustom app={app} customType={config.customType} config={config} />
     default:
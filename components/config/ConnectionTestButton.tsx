@@ -0,0 +1,134 @@
+/**
+ * Composant ConnectionTestButton
+ *
+ * Bouton « Tester la connexion » du formulaire d'application : envoie les
+ * valeurs saisies (non enregistrées) à POST /api/apps/test-connection et
+ * affiche le diagnostic étape par étape (voir lib/connection-test.ts)
+ */
+
+'use client'
+
+import { useState } from 'react'
+import { AlertCircle, Check, CircleSlash, Loader2, PlugZap, TriangleAlert } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { cn } from '@/lib/utils'
+import type { CreateAppInput } from '@/lib/types'
+import type { ConnectionTestResult, ConnectionTestStepId, ConnectionTestStepStatus } from '@/lib/connection-test'
+
+interface ConnectionTestButtonProps {
+  /** Valeurs actuelles du formulaire (avec l'ID en modification) */
+  getValues: () => CreateAppInput & { id?: string }
+  disabled?: boolean
+}
+
+/**
+ * Libellé de chaque étape du diagnostic
+ */
+const STEP_LABELS: Record<ConnectionTestStepId, string> = {
+  dns: 'DNS',
+  connection: 'Connexion / TLS',
+  auth: 'Authentification',
+  version: 'Version',
+  stats: 'Statistiques',
+}
+
+/**
+ * Icône et couleur de chaque statut d'étape
+ */
+const STATUS_STYLES: Record<ConnectionTestStepStatus, { icon: typeof Check; className: string }> = {
+  ok: { icon: Check, className: 'text-green-600 dark:text-green-400' },
+  warning: { icon: TriangleAlert, className: 'text-yellow-600 dark:text-yellow-400' },
+  error: { icon: AlertCircle, className: 'text-destructive' },
+  skipped: { icon: CircleSlash, className: 'text-muted-foreground' },
+}
+
+export function ConnectionTestButton({ getValues, disabled = false }: ConnectionTestButtonProps) {
+  const [isTesting, setIsTesting] = useState(false)
+  const [result, setResult] = useState<ConnectionTestResult | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  /**
+   * Lance le test de connexion avec les valeurs du formulaire
+   */
+  const handleTest = async () => {
+    setIsTesting(true)
+    setResult(null)
+    setError(null)
+    try {
+      const response = await fetch('/api/apps/test-connection', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(getValues()),
+      })
+      const data = await response.json()
+      if (response.ok) {
+        setResult(data)
+      } else {
+        setError(data.error || 'Erreur lors du test de connexion')
+      }
+    } catch (error) {
+      console.error('Erreur lors du test de connexion:', error)
+      setError('Erreur lors du test de connexion')
+    } finally {
+      setIsTesting(false)
+    }
+  }
+
+  return (
+    <div className="space-y-3">
+      <Button type="button" variant="outline" onClick={handleTest} disabled={disabled || isTesting}>
+        {isTesting ? (
+          <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+        ) : (
+          <PlugZap className="h-4 w-4 mr-2" />
+        )}
+        Tester la connexion
+      </Button>
+
+      {error && (
+        <div className="flex items-center gap-2 p-3 text-sm rounded-md text-destructive bg-destructive/10">
+          <AlertCircle className="h-4 w-4 shrink-0" />
+          <span className="break-words">{error}</span>
+        </div>
+      )}
+
+      {result && (
+        <div className="rounded-md border p-3 space-y-2 text-sm">
+          {result.steps.map((step) => {
+            const { icon: Icon, className } = STATUS_STYLES[step.status]
+            return (
+              <div key={step.id} className="flex items-start gap-2">
+                <Icon className={cn('h-4 w-4 shrink-0 mt-0.5', className)} />
+                <div className="min-w-0">
+                  <span className="font-medium">{STEP_LABELS[step.id]}</span>
+                  {step.duration !== null && (
+                    <span className="text-xs text-muted-foreground"> ({step.duration} ms)</span>
+                  )}
+                  <p className={cn('break-words', step.status === 'skipped' && 'text-muted-foreground')}>
+                    {step.message}
+                  </p>
+                </div>
+              </div>
+            )
+          })}
+
+          {result.sample && Object.keys(result.sample).length > 0 && (
+            <div className="border-t pt-2">
+              <p className="font-medium mb-1">Échantillon</p>
+              <dl className="grid grid-cols-2 gap-x-4 gap-y-1 text-xs">
+                {Object.entries(result.sample).map(([key, value]) => (
+                  <div key={key} className="contents">
+                    <dt className="text-muted-foreground truncate">{key}</dt>
+                    <dd className="truncate">{String(value)}</dd>
+                  </div>
+                ))}
+              </dl>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,80 @@
+/**
+ * Composant TlsOptionsForm
+ *
+ * Options TLS des requêtes des cartes vers le service de l'application
+ * (app.tls, voir lib/app-tls.ts) : autorité de certification, empreinte
+ * épinglée ou vérification désactivée pour les certificats auto-signés
+ */
+
+'use client'
+
+import { AlertTriangle } from 'lucide-react'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Checkbox } from '@/components/ui/checkbox'
+import type { AppTlsConfig } from '@/lib/types'
+
+interface TlsOptionsFormProps {
+  value: AppTlsConfig
+  onChange: (key: keyof AppTlsConfig, value: string | boolean) => void
+}
+
+export function TlsOptionsForm({ value, onChange }: TlsOptionsFormProps) {
+  return (
+    <div className="space-y-3 border-t pt-4">
+      <div>
+        <h3 className="text-sm font-medium">Certificat TLS du service</h3>
+        <p className="text-xs text-muted-foreground">
+          Pour un certificat auto-signé ou émis par une autorité privée (Proxmox, TrueNAS...)
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="tlsCa">Autorité de certification (PEM)</Label>
+        <textarea
+          id="tlsCa"
+          className="flex min-h-[80px] w-full rounded-md border border-input bg-background px-3 py-2 font-mono text-xs ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+          value={value.ca || ''}
+          onChange={(e) => onChange('ca', e.target.value.trim())}
+          placeholder={'-----BEGIN CERTIFICATE-----\n...\n-----END CERTIFICATE-----'}
+          rows={4}
+        />
+        <p className="text-xs text-muted-foreground">
+          Un ou plusieurs certificats acceptés en plus des autorités du système
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="tlsFingerprint">Empreinte SHA-256 du certificat</Label>
+        <Input
+          id="tlsFingerprint"
+          className="font-mono text-xs"
+          value={value.fingerprint || ''}
+          onChange={(e) => onChange('fingerprint', e.target.value.trim())}
+          placeholder="AB:CD:EF:..."
+        />
+        <p className="text-xs text-muted-foreground">
+          Seul le certificat ayant cette empreinte est accepté (openssl x509 -noout -fingerprint -sha256)
+        </p>
+      </div>
+
+      <div className="flex items-center space-x-2">
+        <Checkbox
+          id="tlsSkipVerify"
+          checked={value.skipVerify === true}
+          onCheckedChange={(checked) => onChange('skipVerify', checked === true)}
+        />
+        <Label htmlFor="tlsSkipVerify" className="cursor-pointer">
+          Ne pas vérifier le certificat
+        </Label>
+      </div>
+      {value.skipVerify && (
+        <p className="flex items-start gap-2 rounded-md border border-destructive/50 bg-destructive/10 p-2 text-xs text-destructive">
+          <AlertTriangle className="h-4 w-4 shrink-0" />
+          Tout certificat sera accepté : un tiers sur le réseau pourrait intercepter les requêtes
+          et les identifiants de la carte. Préférez l&apos;autorité de certification ou l&apos;empreinte.
+        </p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,29 @@
+/**
+ * Initialisation du serveur Next.js
+ *
+ * Exécuté une fois au démarrage : charge dashboard.yaml et surveille ses
+ * modifications (voir lib/yaml-config.ts), puis lance la collecte des
+ * statistiques des cartes (voir lib/stats-poller.ts) et la vérification de
+ * disponibilité des applications (voir lib/health-checks.ts).
+ * En mode d'authentification par en-têtes du proxy, expose l'adresse des
+ * connexions entrantes (voir lib/proxy-auth.ts).
+ */
+
+export async function register() {
+  // Le chargement utilise fs : uniquement dans le runtime Node.js
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    if (process.env.AUTH_TRUSTED_PROXIES) {
+      const { installRemoteAddressHeader } = await import('./lib/proxy-auth')
+      installRemoteAddressHeader()
+    }
+
+    const { initDashboardYaml } = await import('./lib/yaml-config')
+    await initDashboardYaml()
+
+    const { startStatsPoller } = await import('./lib/stats-poller')
+    startStatsPoller()
+
+    const { startHealthChecks } = await import('./lib/health-checks')
+    startHealthChecks()
+  }
+}
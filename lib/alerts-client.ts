@@ -0,0 +1,149 @@
+/**
+ * Alertes du dashboard (côté client)
+ *
+ * Les dernières alertes sont chargées une seule fois pour tous les composants
+ * (GET /api/alerts), puis mises à jour par les événements `alert` du flux
+ * temps réel. Quand le flux est interrompu, elles sont rechargées
+ * périodiquement.
+ */
+
+'use client'
+
+import { useState, useEffect } from 'react'
+import type { Alert } from './alerts'
+import { useLiveEvents } from './live-events'
+
+/**
+ * Intervalle de rechargement quand le flux temps réel est interrompu (ms)
+ */
+const POLL_INTERVAL = 60000
+
+/**
+ * Délai minimal entre deux chargements, partagé par tous les composants (ms)
+ */
+const MIN_FETCH_INTERVAL = 30000
+
+let alerts: Alert[] = []
+const subscribers = new Set<() => void>()
+let lastFetchAt = 0
+let inFlight: Promise<void> | null = null
+
+/**
+ * Remplace la liste et prévient les composants abonnés
+ */
+function setAlerts(next: Alert[]): void {
+  alerts = next
+  subscribers.forEach((subscriber) => subscriber())
+}
+
+/**
+ * Ajoute ou met à jour une alerte reçue en temps réel
+ * Chaque composant abonné reçoit l'événement : seul le premier modifie la liste.
+ */
+function upsertAlert(alert: Alert): void {
+  const existing = alerts.find((candidate) => candidate.id === alert.id)
+  if (existing && existing.status === alert.status) {
+    return
+  }
+  setAlerts([alert, ...alerts.filter((candidate) => candidate.id !== alert.id)])
+}
+
+/**
+ * Charge les dernières alertes
+ * Les appels rapprochés partagent le même chargement.
+ */
+function refreshAlerts(): Promise<void> {
+  if (inFlight) {
+    return inFlight
+  }
+  if (Date.now() - lastFetchAt < MIN_FETCH_INTERVAL) {
+    return Promise.resolve()
+  }
+
+  lastFetchAt = Date.now()
+  // Toutes les alertes en cours, même anciennes, plus l'historique récent
+  inFlight = Promise.all(
+    ['/api/alerts?status=firing&limit=500', '/api/alerts'].map((url) =>
+      fetch(url).then((response) => (response.ok ? (response.json() as Promise<Alert[]>) : null))
+    )
+  )
+    .then(([firing, recent]) => {
+      if (firing && recent) {
+        const recentIds = new Set(recent.map((alert) => alert.id))
+        setAlerts(
+          [...recent, ...firing.filter((alert) => !recentIds.has(alert.id))].sort((a, b) =>
+            b.firedAt.localeCompare(a.firedAt)
+          )
+        )
+      }
+    })
+    .catch((error) => {
+      console.warn('Impossible de charger les alertes:', error)
+    })
+    .finally(() => {
+      inFlight = null
+    })
+  return inFlight
+}
+
+/**
+ * Alertes en cours d'une application
+ */
+function getFiringAlerts(appId: string): Alert[] {
+  return alerts.filter((alert) => alert.appId === appId && alert.status === 'firing')
+}
+
+/**
+ * Abonne un composant aux alertes
+ *
+ * @param appId - Si fourni, seules les alertes en cours de cette application sont retournées
+ */
+function useAlertList(appId?: string): Alert[] {
+  const [current, setCurrent] = useState<Alert[]>(() => (appId ? getFiringAlerts(appId) : alerts))
+
+  const connected = useLiveEvents((event) => {
+    if (event.type === 'alert') {
+      upsertAlert(event.alert)
+    }
+  })
+
+  useEffect(() => {
+    const subscriber = () => setCurrent(appId ? getFiringAlerts(appId) : alerts)
+    subscribers.add(subscriber)
+    refreshAlerts()
+
+    return () => {
+      subscribers.delete(subscriber)
+    }
+  }, [appId])
+
+  // Sans flux temps réel, recharger périodiquement
+  useEffect(() => {
+    if (connected) {
+      return
+    }
+    const interval = setInterval(refreshAlerts, POLL_INTERVAL)
+    return () => clearInterval(interval)
+  }, [connected])
+
+  return current
+}
+
+/**
+ * Hook React pour suivre les alertes du dashboard
+ *
+ * @returns Les dernières alertes (en cours et résolues), les plus récentes d'abord
+ */
+export function useAlerts(): Alert[] {
+  return useAlertList()
+}
+
+/**
+ * Hook React pour les alertes en cours d'une application
+ *
+ * @param appId - ID de l'application
+ * @returns Les alertes déclenchées et non résolues de l'application
+ */
+export function useAppAlerts(appId: string): Alert[] {
+  return useAlertList(appId)
+}
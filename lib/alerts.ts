@@ -0,0 +1,570 @@
+/**
+ * Règles d'alerte sur les statistiques et la disponibilité des applications
+ *
+ * Une règle compare une valeur collectée par le serveur à un seuil :
+ * - source stats : clé des statistiques d'une carte (ex: 'queueFailed',
+ *   'pools.*.status' pour tester chaque élément d'une liste)
+ * - source health : champ de la dernière vérification de disponibilité
+ *   ('status', 'latency', 'statusCode', 'tlsDaysRemaining')
+ *
+ * Les règles sont évaluées à chaque collecte (voir lib/stats-poller.ts et
+ * lib/health-checks.ts). Pour éviter les alertes intermittentes :
+ * - forDuration : la condition doit être vraie depuis ce délai pour déclencher
+ * - resolveAfter : la condition doit être fausse depuis ce délai pour résoudre
+ * - cooldown : délai minimal entre la résolution et un nouveau déclenchement
+ *
+ * Les règles et les alertes (déclenchées puis résolues) sont enregistrées
+ * dans la base Prisma, quel que soit le store utilisé pour le dashboard.
+ * Chaque changement est transmis aux navigateurs connectés (voir lib/events.ts)
+ * et aux canaux de notification (voir lib/notifications.ts).
+ *
+ * Le cache des règles et l'état d'évaluation sont rangés sur globalThis, comme
+ * le cache de lib/stats-poller.ts : les routes qui modifient les règles et les
+ * planificateurs lancés par instrumentation.ts partagent ainsi le même état.
+ */
+
+import { prisma } from './prisma'
+import type { Prisma, Alert as AlertRow, AlertRule as AlertRuleRow } from '@prisma/client'
+import { publishEvent } from './events'
+import { notifyAlert } from './notifications'
+
+/**
+ * Origine de la valeur testée par une règle
+ */
+export type AlertSource = 'stats' | 'health'
+
+/**
+ * Opérateur de comparaison
+ */
+export type AlertOperator = '>' | '>=' | '<' | '<=' | '==' | '!='
+
+/**
+ * Gravité d'une alerte
+ */
+export type AlertSeverity = 'warning' | 'critical'
+
+/**
+ * État d'une alerte
+ */
+export type AlertStatus = 'firing' | 'resolved'
+
+/**
+ * Règle d'alerte
+ */
+export interface AlertRule {
+  id: string
+  name: string
+  /** Application surveillée */
+  appId: string
+  source: AlertSource
+  /** Clé testée, chemin séparé par des points ('*' pour chaque élément d'une liste) */
+  key: string
+  operator: AlertOperator
+  /** Seuil : comparé numériquement si les deux valeurs sont des nombres */
+  value: string
+  /** Durée pendant laquelle la condition doit rester vraie avant de déclencher (ms) */
+  forDuration: number
+  /** Durée pendant laquelle la condition doit rester fausse avant de résoudre (ms) */
+  resolveAfter: number
+  /** Délai minimal entre la résolution et un nouveau déclenchement (ms) */
+  cooldown: number
+  severity: AlertSeverity
+  enabled: boolean
+  /** Canaux de notification, en plus de ceux associés à l'application */
+  channelIds: string[]
+}
+
+/**
+ * Données d'une règle envoyées par un client
+ */
+export type AlertRuleInput = Omit<AlertRule, 'id'>
+
+/**
+ * Alerte déclenchée par une règle
+ */
+export interface Alert {
+  id: number
+  ruleId: string
+  ruleName: string
+  appId: string
+  appName: string
+  severity: AlertSeverity
+  status: AlertStatus
+  /** Valeur ayant déclenché l'alerte */
+  value: string | null
+  message: string
+  /** Date du déclenchement (ISO 8601) */
+  firedAt: string
+  /** Date de la résolution (ISO 8601) */
+  resolvedAt: string | null
+}
+
+/**
+ * État d'évaluation d'une règle (propre au processus)
+ */
+interface RuleState {
+  /** Date depuis laquelle la condition est vraie */
+  matchingSince: number | null
+  /** Date depuis laquelle la condition est fausse (alerte en cours) */
+  clearSince: number | null
+  /** Alerte en cours */
+  firing: Alert | null
+  /** Date de la dernière résolution */
+  lastResolvedAt: number | null
+}
+
+export const ALERT_OPERATORS: AlertOperator[] = ['>', '>=', '<', '<=', '==', '!=']
+export const ALERT_SOURCES: AlertSource[] = ['stats', 'health']
+export const ALERT_SEVERITIES: AlertSeverity[] = ['warning', 'critical']
+
+/**
+ * Nombre d'alertes retournées par défaut
+ */
+export const DEFAULT_ALERTS_LIMIT = 50
+
+/**
+ * État des alertes, partagé par toutes les copies du module
+ */
+interface AlertsState {
+  states: Map<string, RuleState>
+  rulesPromise: Promise<AlertRule[]> | null
+  statesPromise: Promise<void> | null
+}
+
+/**
+ * Clé globale de l'état des alertes
+ */
+const ALERTS_STATE = Symbol.for('xhell-dash.alerts')
+
+const globals = globalThis as unknown as Record<symbol, AlertsState | undefined>
+const shared = (globals[ALERTS_STATE] ??= { states: new Map(), rulesPromise: null, statesPromise: null })
+const states = shared.states
+
+/**
+ * Convertit une ligne de la table AlertRule
+ */
+function toAlertRule(row: AlertRuleRow): AlertRule {
+  return {
+    id: row.id,
+    name: row.name,
+    appId: row.appId,
+    source: row.source as AlertSource,
+    key: row.key,
+    operator: row.operator as AlertOperator,
+    value: row.value,
+    forDuration: row.forDuration,
+    resolveAfter: row.resolveAfter,
+    cooldown: row.cooldown,
+    severity: row.severity as AlertSeverity,
+    enabled: row.enabled,
+    channelIds: (row.channelIds as string[] | null) ?? [],
+  }
+}
+
+/**
+ * Convertit une ligne de la table Alert
+ */
+function toAlert(row: AlertRow): Alert {
+  return {
+    id: row.id,
+    ruleId: row.ruleId,
+    ruleName: row.ruleName,
+    appId: row.appId,
+    appName: row.appName,
+    severity: row.severity as AlertSeverity,
+    status: row.status as AlertStatus,
+    value: row.value,
+    message: row.message,
+    firedAt: row.firedAt.toISOString(),
+    resolvedAt: row.resolvedAt ? row.resolvedAt.toISOString() : null,
+  }
+}
+
+/**
+ * Valide les données d'une règle envoyées par un client
+ *
+ * @param input - Corps de la requête
+ * @returns Le message d'erreur, ou null si la règle est valide
+ */
+export function validateAlertRuleInput(input: Partial<AlertRuleInput>): string | null {
+  if (!input.name || typeof input.name !== 'string' || !input.name.trim()) {
+    return 'Le nom de la règle est requis'
+  }
+  if (!input.appId || typeof input.appId !== 'string') {
+    return 'L\'application est requise'
+  }
+  if (input.source !== undefined && !ALERT_SOURCES.includes(input.source)) {
+    return `Source invalide (valeurs possibles : ${ALERT_SOURCES.join(', ')})`
+  }
+  if (!input.key || typeof input.key !== 'string' || !input.key.trim()) {
+    return 'La clé testée est requise'
+  }
+  if (!input.operator || !ALERT_OPERATORS.includes(input.operator)) {
+    return `Opérateur invalide (valeurs possibles : ${ALERT_OPERATORS.join(' ')})`
+  }
+  if (input.value === undefined || input.value === null || String(input.value).trim() === '') {
+    return 'Le seuil est requis'
+  }
+  if (input.severity !== undefined && !ALERT_SEVERITIES.includes(input.severity)) {
+    return `Gravité invalide (valeurs possibles : ${ALERT_SEVERITIES.join(', ')})`
+  }
+  for (const field of ['forDuration', 'resolveAfter', 'cooldown'] as const) {
+    const duration = input[field]
+    if (duration !== undefined && (!Number.isInteger(duration) || duration < 0)) {
+      return `${field} doit être une durée positive en millisecondes`
+    }
+  }
+  if (
+    input.channelIds !== undefined &&
+    (!Array.isArray(input.channelIds) || input.channelIds.some((id) => typeof id !== 'string'))
+  ) {
+    return 'channelIds doit être une liste d\'IDs de canaux'
+  }
+  return null
+}
+
+/**
+ * Données à enregistrer pour une règle (valeurs par défaut appliquées)
+ */
+function toRuleData(input: AlertRuleInput) {
+  return {
+    name: input.name.trim(),
+    appId: input.appId,
+    source: input.source ?? 'stats',
+    key: input.key.trim(),
+    operator: input.operator,
+    value: String(input.value).trim(),
+    forDuration: input.forDuration ?? 0,
+    resolveAfter: input.resolveAfter ?? 0,
+    cooldown: input.cooldown ?? 0,
+    severity: input.severity ?? 'warning',
+    enabled: input.enabled ?? true,
+    channelIds: input.channelIds ?? [],
+  }
+}
+
+/**
+ * Lit toutes les règles d'alerte
+ *
+ * @returns Promise<AlertRule[]> - Règles triées par date de création
+ */
+export async function readAlertRules(): Promise<AlertRule[]> {
+  if (!shared.rulesPromise) {
+    shared.rulesPromise = prisma.alertRule
+      .findMany({ orderBy: { createdAt: 'asc' } })
+      .then((rows: AlertRuleRow[]) => rows.map(toAlertRule))
+      .catch((error: unknown) => {
+        shared.rulesPromise = null
+        throw error
+      })
+  }
+  return shared.rulesPromise as Promise<AlertRule[]>
+}
+
+/**
+ * Crée une règle d'alerte
+ *
+ * @param input - Données validées par validateAlertRuleInput
+ * @returns Promise<AlertRule> - Règle créée
+ */
+export async function createAlertRule(input: AlertRuleInput): Promise<AlertRule> {
+  const row = await prisma.alertRule.create({ data: toRuleData(input) })
+  shared.rulesPromise = null
+  return toAlertRule(row)
+}
+
+/**
+ * Met à jour une règle d'alerte
+ * L'évaluation repart de zéro ; une alerte en cours reste active jusqu'à sa résolution.
+ *
+ * @param id - ID de la règle
+ * @param input - Données validées par validateAlertRuleInput
+ * @returns Promise<AlertRule | null> - Règle modifiée, null si elle n'existe pas
+ */
+export async function updateAlertRule(id: string, input: AlertRuleInput): Promise<AlertRule | null> {
+  const existing = await prisma.alertRule.findUnique({ where: { id } })
+  if (!existing) {
+    return null
+  }
+
+  const row = await prisma.alertRule.update({ where: { id }, data: toRuleData(input) })
+  shared.rulesPromise = null
+
+  const state = states.get(id)
+  if (state) {
+    state.matchingSince = null
+    state.clearSince = null
+  }
+  const rule = toAlertRule(row)
+  if (!rule.enabled) {
+    await resolveRuleAlert(rule, Date.now())
+  }
+  return rule
+}
+
+/**
+ * Supprime une règle d'alerte et résout son alerte en cours
+ *
+ * @param id - ID de la règle
+ * @returns Promise<boolean> - false si la règle n'existe pas
+ */
+export async function deleteAlertRule(id: string): Promise<boolean> {
+  const existing = await prisma.alertRule.findUnique({ where: { id } })
+  if (!existing) {
+    return false
+  }
+
+  await prisma.alertRule.delete({ where: { id } })
+  shared.rulesPromise = null
+  await resolveRuleAlert(toAlertRule(existing), Date.now())
+  states.delete(id)
+  return true
+}
+
+/**
+ * Remplace toutes les règles d'alerte (restauration d'une sauvegarde)
+ * L'historique des alertes est conservé ; l'évaluation repart de zéro.
+ *
+ * @param tx - Client de transaction (voir restoreDashboardData dans lib/db.ts)
+ * @param rules - Règles à restaurer, IDs conservés
+ */
+export async function replaceAllAlertRules(tx: Prisma.TransactionClient, rules: AlertRule[]): Promise<void> {
+  await tx.alertRule.deleteMany({})
+  for (const rule of rules) {
+    await tx.alertRule.create({ data: { id: rule.id, ...toRuleData(rule) } })
+  }
+  resetAlertState()
+}
+
+/**
+ * Lit les alertes, les plus récentes d'abord
+ *
+ * @param options - Filtres (état, application) et nombre maximal d'alertes
+ * @returns Promise<Alert[]>
+ */
+export async function readAlerts(
+  options: { status?: AlertStatus; appId?: string; limit?: number } = {}
+): Promise<Alert[]> {
+  const rows: AlertRow[] = await prisma.alert.findMany({
+    where: {
+      ...(options.status ? { status: options.status } : {}),
+      ...(options.appId ? { appId: options.appId } : {}),
+    },
+    orderBy: { firedAt: 'desc' },
+    take: options.limit ?? DEFAULT_ALERTS_LIMIT,
+  })
+  return rows.map(toAlert)
+}
+
+/**
+ * Récupère les valeurs désignées par une clé
+ *
+ * @param data - Statistiques ou résultat de vérification
+ * @param key - Chemin séparé par des points, '*' pour chaque élément d'une liste ou d'un objet
+ * @returns Les valeurs trouvées (vide si la clé n'existe pas)
+ */
+export function getValuesAtPath(data: unknown, key: string): unknown[] {
+  let values: unknown[] = [data]
+  for (const segment of key.split('.')) {
+    const next: unknown[] = []
+    for (const value of values) {
+      if (value === null || typeof value !== 'object') {
+        continue
+      }
+      if (segment === '*') {
+        next.push(...Object.values(value))
+      } else if (segment in value) {
+        next.push((value as Record<string, unknown>)[segment])
+      }
+    }
+    values = next
+  }
+  return values.filter((value) => value !== undefined && value !== null && typeof value !== 'object')
+}
+
+/**
+ * Compare une valeur au seuil d'une règle
+ * Comparaison numérique si les deux valeurs sont des nombres, textuelle sinon
+ * (seuls == et != sont alors possibles).
+ *
+ * @param actual - Valeur collectée
+ * @param operator - Opérateur de la règle
+ * @param threshold - Seuil de la règle
+ * @returns true si la condition de la règle est vraie
+ */
+export function compareValue(actual: unknown, operator: AlertOperator, threshold: string): boolean {
+  const actualNumber = typeof actual === 'number' ? actual : Number(String(actual).trim() || NaN)
+  const thresholdNumber = Number(threshold.trim() || NaN)
+
+  if (Number.isFinite(actualNumber) && Number.isFinite(thresholdNumber)) {
+    switch (operator) {
+      case '>': return actualNumber > thresholdNumber
+      case '>=': return actualNumber >= thresholdNumber
+      case '<': return actualNumber < thresholdNumber
+      case '<=': return actualNumber <= thresholdNumber
+      case '==': return actualNumber === thresholdNumber
+      case '!=': return actualNumber !== thresholdNumber
+    }
+  }
+
+  const text = String(actual)
+  if (operator === '==') {
+    return text === threshold
+  }
+  if (operator === '!=') {
+    return text !== threshold
+  }
+  return false
+}
+
+/**
+ * Charge les alertes en cours (une seule fois par processus)
+ * Évite de déclencher une seconde fois une alerte après un redémarrage.
+ */
+function loadFiringAlerts(): Promise<void> {
+  if (!shared.statesPromise) {
+    shared.statesPromise = readAlerts({ status: 'firing', limit: 1000 })
+      .then((alerts) => {
+        for (const alert of alerts) {
+          getState(alert.ruleId).firing = alert
+        }
+      })
+      .catch((error) => {
+        shared.statesPromise = null
+        throw error
+      })
+  }
+  return shared.statesPromise
+}
+
+/**
+ * État d'évaluation d'une règle
+ */
+function getState(ruleId: string): RuleState {
+  let state = states.get(ruleId)
+  if (!state) {
+    state = { matchingSince: null, clearSince: null, firing: null, lastResolvedAt: null }
+    states.set(ruleId, state)
+  }
+  return state
+}
+
+/**
+ * Transmet une alerte aux navigateurs et aux canaux de notification
+ * Les notifications sont envoyées en arrière-plan pour ne pas ralentir la collecte.
+ */
+function announceAlert(alert: Alert, rule: AlertRule): void {
+  publishEvent({ type: 'alert', alert })
+  notifyAlert(alert, rule.channelIds).catch((error) => {
+    console.error(`[Alerts] Erreur lors de l'envoi des notifications de "${rule.name}":`, error)
+  })
+}
+
+/**
+ * Déclenche une alerte
+ */
+async function fireAlert(rule: AlertRule, appName: string, value: unknown, now: number): Promise<Alert> {
+  const row = await prisma.alert.create({
+    data: {
+      ruleId: rule.id,
+      ruleName: rule.name,
+      appId: rule.appId,
+      appName,
+      severity: rule.severity,
+      status: 'firing',
+      value: String(value),
+      message: `${rule.key} = ${String(value)} (${rule.operator} ${rule.value})`,
+      firedAt: new Date(now),
+    },
+  })
+  const alert = toAlert(row)
+  announceAlert(alert, rule)
+  return alert
+}
+
+/**
+ * Résout l'alerte en cours d'une règle
+ */
+async function resolveRuleAlert(rule: AlertRule, now: number): Promise<void> {
+  const state = states.get(rule.id)
+  if (!state?.firing) {
+    return
+  }
+
+  const row = await prisma.alert.update({
+    where: { id: state.firing.id },
+    data: { status: 'resolved', resolvedAt: new Date(now) },
+  })
+  state.firing = null
+  state.clearSince = null
+  state.lastResolvedAt = now
+  announceAlert(toAlert(row), rule)
+}
+
+/**
+ * Évalue une règle avec la dernière valeur collectée
+ */
+async function evaluateRule(rule: AlertRule, appName: string, data: unknown, now: number): Promise<void> {
+  const values = getValuesAtPath(data, rule.key)
+  if (values.length === 0) {
+    // Clé absente : pas de nouvelle information
+    return
+  }
+
+  const state = getState(rule.id)
+  const matching = values.find((value) => compareValue(value, rule.operator, rule.value))
+
+  if (matching !== undefined) {
+    state.clearSince = null
+    state.matchingSince ??= now
+    const cooledDown = state.lastResolvedAt === null || now - state.lastResolvedAt >= rule.cooldown
+    if (!state.firing && cooledDown && now - state.matchingSince >= rule.forDuration) {
+      state.firing = await fireAlert(rule, appName, matching, now)
+    }
+    return
+  }
+
+  state.matchingSince = null
+  if (state.firing) {
+    state.clearSince ??= now
+    if (now - state.clearSince >= rule.resolveAfter) {
+      await resolveRuleAlert(rule, now)
+    }
+  }
+}
+
+/**
+ * Évalue les règles d'une application avec une nouvelle collecte
+ *
+ * @param app - Application concernée
+ * @param source - 'stats' (statistiques de la carte) ou 'health' (vérification de disponibilité)
+ * @param data - Valeurs collectées
+ * @param now - Date de la collecte (ms)
+ */
+export async function evaluateAlerts(
+  app: { id: string; name: string },
+  source: AlertSource,
+  data: unknown,
+  now: number = Date.now()
+): Promise<void> {
+  const rules = (await readAlertRules()).filter(
+    (rule) => rule.enabled && rule.appId === app.id && rule.source === source
+  )
+  if (rules.length === 0) {
+    return
+  }
+
+  await loadFiringAlerts()
+  for (const rule of rules) {
+    await evaluateRule(rule, app.name, data, now)
+  }
+}
+
+/**
+ * Oublie les règles et l'état d'évaluation (tests)
+ */
+export function resetAlertState(): void {
+  states.clear()
+  shared.rulesPromise = null
+  shared.statesPromise = null
+}
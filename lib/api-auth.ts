@@ -0,0 +1,107 @@
+/**
+ * Contrôle d'accès central des routes API
+ *
+ * Appliqué par proxy.ts à toutes les requêtes /api : une requête doit être
+ * authentifiée (session Auth.js ou jeton d'API personnel) sauf si sa route
+ * figure dans la liste explicite PUBLIC_API_ROUTES. Les handlers gardent leurs
+ * propres contrôles de rôle (administrateur requis pour les modifications).
+ *
+ * Une requête authentifiée par jeton d'API est en plus limitée aux scopes du
+ * jeton (voir lib/api-tokens.ts).
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/auth'
+import type { ApiTokenScope } from './api-tokens'
+
+/**
+ * Routes API accessibles sans session
+ * Une entrée couvre la route et ses sous-routes ("/api/auth" couvre "/api/auth/session").
+ */
+export const PUBLIC_API_ROUTES = [
+  // Auth.js : connexion, déconnexion, session, jeton CSRF
+  '/api/auth',
+  // Export Prometheus : protégé par son propre jeton (METRICS_TOKEN)
+  '/api/metrics',
+]
+
+/**
+ * Routes API réservées aux jetons ayant le scope admin
+ * Gestion des utilisateurs et sauvegardes (qui contiennent tous les secrets).
+ */
+export const ADMIN_SCOPE_API_ROUTES = [
+  '/api/users',
+  '/api/backup',
+  '/api/restore',
+]
+
+/**
+ * Méthodes HTTP autorisées par le scope read
+ */
+const READ_METHODS = ['GET', 'HEAD']
+
+/**
+ * Indique si un chemin correspond à une route de la liste ou à l'une de ses sous-routes
+ */
+function matchesRoute(routes: string[], pathname: string): boolean {
+  return routes.some((route) => pathname === route || pathname.startsWith(`${route}/`))
+}
+
+/**
+ * Indique si une route API est publique
+ *
+ * @param pathname - Chemin de la requête (ex: "/api/apps")
+ * @returns true si la route figure dans PUBLIC_API_ROUTES
+ */
+export function isPublicApiRoute(pathname: string): boolean {
+  return matchesRoute(PUBLIC_API_ROUTES, pathname)
+}
+
+/**
+ * Indique si les scopes d'un jeton d'API autorisent une requête
+ *
+ * @param scopes - Scopes du jeton
+ * @param method - Méthode HTTP de la requête
+ * @param pathname - Chemin de la requête
+ * @returns true si la requête est autorisée
+ */
+export function isAllowedByScopes(scopes: ApiTokenScope[], method: string, pathname: string): boolean {
+  if (scopes.includes('admin')) {
+    return true
+  }
+  if (matchesRoute(ADMIN_SCOPE_API_ROUTES, pathname)) {
+    return false
+  }
+  return scopes.includes('write') || (scopes.includes('read') && READ_METHODS.includes(method.toUpperCase()))
+}
+
+/**
+ * Vérifie l'accès à une route API
+ *
+ * @param request - Requête entrante
+ * @returns Une réponse 401 (non authentifié) ou 403 (scope du jeton insuffisant)
+ *   si l'accès est refusé, null si la requête peut continuer
+ */
+export async function guardApiRequest(request: NextRequest): Promise<NextResponse | null> {
+  if (isPublicApiRoute(request.nextUrl.pathname)) {
+    return null
+  }
+
+  const session = await auth()
+  if (!session?.user) {
+    return NextResponse.json(
+      { error: 'Non authentifié' },
+      { status: 401 }
+    )
+  }
+
+  const { scopes } = session.user as { scopes?: ApiTokenScope[] }
+  if (scopes && !isAllowedByScopes(scopes, request.method, request.nextUrl.pathname)) {
+    return NextResponse.json(
+      { error: 'Accès refusé. Scope du jeton d\'API insuffisant.' },
+      { status: 403 }
+    )
+  }
+
+  return null
+}
@@ -27,6 +27,8 @@ export interface RetryOptions {
   retryableStatusCodes?: number[]
   /** Fonction pour déterminer si une erreur est retryable */
   shouldRetry?: (error: Error, attempt: number) => boolean
+  /** Requête exécutée à chaque tentative (défaut : fetch global) */
+  fetchImpl?: (url: string, options: RequestInit) => Promise<Response>
 }
 
 /**
@@ -39,6 +41,7 @@ const DEFAULT_RETRY_OPTIONS: Required<RetryOptions> = {
   maxDelay: 30000,
   retryableStatusCodes: [500, 502, 503, 504],
   shouldRetry: () => true,
+  fetchImpl: (url, options) => fetch(url, options),
 }
 
 /**
@@ -129,7 +132,7 @@ export async function fetchWithRetry(
   for (let attempt = 1; attempt <= opts.maxRetries; attempt++) {
     try {
       // Effectuer la requête
-      const response = await fetch(url, options)
+      const response = await opts.fetchImpl(url, options)
 
       // Si la réponse est OK, la retourner directement
       if (response.ok) {
@@ -0,0 +1,229 @@
+/**
+ * Jetons d'API personnels
+ *
+ * Chaque utilisateur peut créer des jetons pour ses scripts et intégrations
+ * (depuis ProfileDialog). Un jeton est envoyé dans l'en-tête
+ * `Authorization: Bearer xd_...` et agit au nom de son propriétaire, avec
+ * son rôle actuel, dans la limite de ses scopes :
+ * - read : requêtes de lecture (GET, HEAD)
+ * - write : toutes les requêtes, hors routes d'administration
+ * - admin : toutes les requêtes, routes d'administration comprises
+ *   (utilisateurs, sauvegardes, voir ADMIN_SCOPE_API_ROUTES dans lib/api-auth.ts)
+ *
+ * Le jeton en clair n'est retourné qu'à sa création : seule son empreinte
+ * SHA-256 est enregistrée dans la base Prisma.
+ */
+
+import crypto from 'crypto'
+import { prisma } from './prisma'
+import type { ApiToken as ApiTokenRow, User as UserRow } from '@prisma/client'
+
+/**
+ * Portée d'un jeton
+ */
+export type ApiTokenScope = 'read' | 'write' | 'admin'
+
+/**
+ * Jeton d'API tel qu'exposé par l'API (sans son empreinte)
+ */
+export interface ApiToken {
+  id: string
+  name: string
+  /** Début du jeton, pour le reconnaître (ex: "xd_a1b2c3d") */
+  prefix: string
+  scopes: ApiTokenScope[]
+  expiresAt: string | null
+  lastUsedAt: string | null
+  createdAt: string
+}
+
+/**
+ * Données de création d'un jeton
+ */
+export interface ApiTokenInput {
+  name: string
+  scopes: ApiTokenScope[]
+  /** Date d'expiration (ISO 8601), null ou absente pour un jeton sans expiration */
+  expiresAt?: string | null
+}
+
+/**
+ * Session construite à partir d'un jeton d'API (même forme que la session Auth.js)
+ */
+export interface ApiTokenSession {
+  user: {
+    id: string
+    name: string
+    email: string
+    role: string
+    apiTokenId: string
+    scopes: ApiTokenScope[]
+  }
+  expires: string
+}
+
+export const API_TOKEN_SCOPES: ApiTokenScope[] = ['read', 'write', 'admin']
+
+/**
+ * Préfixe des jetons générés (permet de les distinguer d'un autre jeton Bearer)
+ */
+const TOKEN_PREFIX = 'xd_'
+
+/**
+ * Longueur du début de jeton conservé pour l'affichage
+ */
+const DISPLAY_PREFIX_LENGTH = 10
+
+/**
+ * Intervalle minimal entre deux mises à jour de lastUsedAt (ms)
+ * Évite une écriture en base à chaque requête d'un script.
+ */
+const LAST_USED_UPDATE_INTERVAL = 60 * 1000
+
+/**
+ * Empreinte SHA-256 d'un jeton
+ */
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex')
+}
+
+/**
+ * Convertit une ligne Prisma en jeton exposé par l'API
+ */
+function toApiToken(row: ApiTokenRow): ApiToken {
+  return {
+    id: row.id,
+    name: row.name,
+    prefix: row.prefix,
+    scopes: (row.scopes as ApiTokenScope[] | null) ?? [],
+    expiresAt: row.expiresAt?.toISOString() ?? null,
+    lastUsedAt: row.lastUsedAt?.toISOString() ?? null,
+    createdAt: row.createdAt.toISOString(),
+  }
+}
+
+/**
+ * Valide les données de création d'un jeton
+ *
+ * @param input - Body de la requête
+ * @param role - Rôle du propriétaire (le scope admin est réservé aux administrateurs)
+ * @returns Le message d'erreur, ou null si les données sont valides
+ */
+export function validateApiTokenInput(input: Partial<ApiTokenInput>, role: string): string | null {
+  if (!input.name || typeof input.name !== 'string' || !input.name.trim()) {
+    return 'Le nom du jeton est requis'
+  }
+  if (
+    !Array.isArray(input.scopes) ||
+    input.scopes.length === 0 ||
+    input.scopes.some((scope) => !API_TOKEN_SCOPES.includes(scope))
+  ) {
+    return `scopes doit être une liste parmi : ${API_TOKEN_SCOPES.join(', ')}`
+  }
+  if (input.scopes.includes('admin') && role !== 'admin') {
+    return 'Le scope admin est réservé aux administrateurs'
+  }
+  if (input.expiresAt !== undefined && input.expiresAt !== null) {
+    const expiresAt = typeof input.expiresAt === 'string' ? new Date(input.expiresAt) : null
+    if (!expiresAt || isNaN(expiresAt.getTime())) {
+      return 'expiresAt doit être une date ISO 8601'
+    }
+    if (expiresAt.getTime() <= Date.now()) {
+      return 'expiresAt doit être dans le futur'
+    }
+  }
+  return null
+}
+
+/**
+ * Liste les jetons d'un utilisateur
+ *
+ * @param userId - ID du propriétaire
+ * @returns Promise<ApiToken[]> - Jetons triés du plus récent au plus ancien
+ */
+export async function listApiTokens(userId: string): Promise<ApiToken[]> {
+  const rows = await prisma.apiToken.findMany({
+    where: { userId },
+    orderBy: { createdAt: 'desc' },
+  })
+  return rows.map(toApiToken)
+}
+
+/**
+ * Crée un jeton pour un utilisateur
+ *
+ * @param userId - ID du propriétaire
+ * @param input - Données validées par validateApiTokenInput
+ * @returns Le jeton créé et sa valeur en clair (retournée uniquement ici)
+ */
+export async function createApiToken(
+  userId: string,
+  input: ApiTokenInput
+): Promise<{ token: string; apiToken: ApiToken }> {
+  const token = `${TOKEN_PREFIX}${crypto.randomBytes(32).toString('base64url')}`
+  const row = await prisma.apiToken.create({
+    data: {
+      userId,
+      name: input.name.trim(),
+      tokenHash: hashToken(token),
+      prefix: token.slice(0, DISPLAY_PREFIX_LENGTH),
+      scopes: Array.from(new Set(input.scopes)),
+      expiresAt: input.expiresAt ? new Date(input.expiresAt) : null,
+    },
+  })
+  return { token, apiToken: toApiToken(row) }
+}
+
+/**
+ * Révoque (supprime) un jeton
+ *
+ * @param userId - ID du propriétaire (un utilisateur ne révoque que ses jetons)
+ * @param id - ID du jeton
+ * @returns Promise<boolean> - false si le jeton n'existe pas pour cet utilisateur
+ */
+export async function revokeApiToken(userId: string, id: string): Promise<boolean> {
+  const { count } = await prisma.apiToken.deleteMany({ where: { id, userId } })
+  return count > 0
+}
+
+/**
+ * Authentifie une requête par jeton d'API
+ *
+ * @param authorization - En-tête Authorization de la requête
+ * @returns La session du propriétaire du jeton, ou null si l'en-tête ne contient
+ *   pas de jeton valide (inconnu ou expiré)
+ */
+export async function getApiTokenSession(authorization: string | null): Promise<ApiTokenSession | null> {
+  const match = authorization?.match(/^Bearer\s+(\S+)$/i)
+  if (!match || !match[1].startsWith(TOKEN_PREFIX)) {
+    return null
+  }
+
+  const row: (ApiTokenRow & { user: UserRow }) | null = await prisma.apiToken.findUnique({
+    where: { tokenHash: hashToken(match[1]) },
+    include: { user: true },
+  })
+  const now = new Date()
+  if (!row || (row.expiresAt && row.expiresAt <= now)) {
+    return null
+  }
+
+  if (!row.lastUsedAt || now.getTime() - row.lastUsedAt.getTime() >= LAST_USED_UPDATE_INTERVAL) {
+    await prisma.apiToken
+      .update({ where: { id: row.id }, data: { lastUsedAt: now } })
+      .catch((error: unknown) => console.error('Erreur lors de la mise à jour du jeton d\'API:', error))
+  }
+
+  return {
+    user: {
+      id: row.user.id,
+      name: row.user.email,
+      email: row.user.email,
+      role: row.user.role,
+      apiTokenId: row.id,
+      scopes: toApiToken(row).scopes,
+    },
+    // Sans expiration du jeton, la session ne vaut que pour la requête en cours
+    expires: (row.expiresAt ?? now).toISOString(),
+  }
+}
@@ -0,0 +1,139 @@
+/**
+ * Groupes d'applications (sections repliables d'un tableau de bord)
+ *
+ * Un groupe n'est pas enregistré séparément : il est défini par le champ
+ * `group` de ses applications. Les groupes apparaissent dans l'ordre de leur
+ * première application, les applications sans groupe sont affichées en tête.
+ *
+ * Utilisable côté client et côté serveur.
+ */
+
+import type { App } from './types'
+
+/**
+ * Applications d'un groupe
+ */
+export interface AppGroup {
+  /** Nom du groupe, null pour les applications sans groupe */
+  name: string | null
+  apps: App[]
+}
+
+/**
+ * Préfixe des zones de dépôt des groupes (drag & drop)
+ */
+const GROUP_DROPPABLE_PREFIX = 'group:'
+
+/**
+ * Normalise un nom de groupe (les noms vides équivalent à "sans groupe")
+ *
+ * @param group - Nom saisi
+ * @returns string | undefined - Nom sans espaces superflus, undefined si vide
+ */
+export function normalizeGroupName(group: string | null | undefined): string | undefined {
+  const trimmed = group?.trim()
+  return trimmed ? trimmed : undefined
+}
+
+/**
+ * Regroupe des applications déjà triées par ordre
+ *
+ * @param apps - Applications triées
+ * @returns AppGroup[] - Applications sans groupe (si présentes) puis chaque groupe
+ */
+export function groupApps(apps: App[]): AppGroup[] {
+  const ungrouped: AppGroup = { name: null, apps: [] }
+  const groups = new Map<string, AppGroup>()
+
+  for (const app of apps) {
+    const name = normalizeGroupName(app.group)
+    if (!name) {
+      ungrouped.apps.push(app)
+      continue
+    }
+    if (!groups.has(name)) {
+      groups.set(name, { name, apps: [] })
+    }
+    groups.get(name)!.apps.push(app)
+  }
+
+  return [...(ungrouped.apps.length > 0 ? [ungrouped] : []), ...groups.values()]
+}
+
+/**
+ * Clé d'un groupe dans les préférences (groupes repliés)
+ *
+ * @param dashboardId - Tableau de bord du groupe
+ * @param group - Nom du groupe
+ */
+export function getGroupPreferenceKey(dashboardId: string, group: string): string {
+  return `${dashboardId}:${group}`
+}
+
+/**
+ * Identifiant de la zone de dépôt d'un groupe
+ *
+ * @param group - Nom du groupe, null pour les applications sans groupe
+ */
+export function getGroupDroppableId(group: string | null): string {
+  return `${GROUP_DROPPABLE_PREFIX}${group ?? ''}`
+}
+
+/**
+ * Retrouve le groupe d'une zone de dépôt
+ *
+ * @param id - Identifiant d'un élément survolé pendant le drag & drop
+ * @returns Nom du groupe, null pour "sans groupe", undefined si ce n'est pas une zone de groupe
+ */
+export function parseGroupDroppableId(id: string): string | null | undefined {
+  if (!id.startsWith(GROUP_DROPPABLE_PREFIX)) {
+    return undefined
+  }
+  return id.slice(GROUP_DROPPABLE_PREFIX.length) || null
+}
+
+/**
+ * Déplace une application, éventuellement vers un autre groupe
+ *
+ * L'application est placée à la position de `overId` si c'est une application,
+ * sinon à la fin du groupe ciblé.
+ *
+ * @param apps - Applications triées
+ * @param activeId - Application déplacée
+ * @param overId - Application ou zone de groupe survolée
+ * @returns Applications dans le nouvel ordre, ou null si rien ne change
+ */
+export function moveApp(apps: App[], activeId: string, overId: string): App[] | null {
+  const activeIndex = apps.findIndex((app) => app.id === activeId)
+  if (activeIndex === -1 || activeId === overId) {
+    return null
+  }
+
+  const overApp = apps.find((app) => app.id === overId)
+  const droppableGroup = parseGroupDroppableId(overId)
+  if (!overApp && droppableGroup === undefined) {
+    // Ni une application ni une zone de groupe
+    return null
+  }
+  const targetGroup = overApp ? normalizeGroupName(overApp.group) : droppableGroup ?? undefined
+
+  const moved: App = { ...apps[activeIndex], group: targetGroup }
+  const remaining = apps.filter((app) => app.id !== activeId)
+
+  let insertIndex: number
+  if (overApp) {
+    const overIndex = remaining.findIndex((app) => app.id === overId)
+    // Vers le bas : après l'application survolée, vers le haut : avant
+    insertIndex = activeIndex <= apps.indexOf(overApp) ? overIndex + 1 : overIndex
+  } else {
+    // Après la dernière application du groupe ciblé, sinon à la fin
+    const lastIndex = remaining.reduce(
+      (last, app, index) => (normalizeGroupName(app.group) === targetGroup ? index : last),
+      -1
+    )
+    insertIndex = lastIndex === -1 ? remaining.length : lastIndex + 1
+  }
+
+  remaining.splice(insertIndex, 0, moved)
+  return remaining
+}
@@ -0,0 +1,101 @@
+/**
+ * Secrets des applications dans les réponses de l'API
+ *
+ * Les routes /api/apps retournent une vue publique des applications
+ * (PublicApp) : chaque secret est remplacé par son aperçu masqué et listé
+ * dans secretFields. Le formulaire laisse un secret vide pour le conserver ;
+ * un aperçu renvoyé tel quel (client qui réenvoie la réponse du GET) est
+ * aussi ignoré à l'enregistrement.
+ *
+ * Un secret est un champ chiffré au stockage (voir transformSensitiveFields
+ * dans lib/encryption.ts) : nom sensible ou paramètre 'secret' de la carte.
+ *
+ * Les secrets enregistrés ne sont réutilisés que pour l'URL enregistrée :
+ * si elle change, ils doivent être ressaisis (getSecretsToReenter).
+ */
+
+import { cardRegistry } from './card-registry'
+import { isSensitiveField, maskToken } from './token-utils'
+import type { App, PublicApp } from './types'
+
+/**
+ * Noms des secrets renseignés d'une application
+ *
+ * @param app - Application (valeurs déchiffrées)
+ * @returns Les champs de premier niveau contenant un secret non vide
+ */
+export function getAppSecretKeys(app: App): string[] {
+  const secretKeys = cardRegistry.getSecretSettingKeys(app.statsConfig?.templateId)
+  return Object.entries(app)
+    .filter(([key, value]) => typeof value === 'string' && value && (isSensitiveField(key) || secretKeys.includes(key)))
+    .map(([key]) => key)
+}
+
+/**
+ * Vue publique d'une application, sans ses secrets
+ *
+ * @param app - Application lue en base (secrets déchiffrés)
+ * @returns L'application avec ses secrets masqués et la liste secretFields
+ *   (inchangée si elle n'a aucun secret)
+ *
+ * @example
+ * ```typescript
+ * toPublicApp({ ...app, apiKey: 'abcdefghijklmnop' })
+ * // { ...app, apiKey: 'abcd********mnop', secretFields: ['apiKey'] }
+ * ```
+ */
+export function toPublicApp(app: App): PublicApp {
+  const secretFields = getAppSecretKeys(app)
+  if (secretFields.length === 0) {
+    return app
+  }
+  const publicApp: Record<string, unknown> = { ...app }
+  for (const key of secretFields) {
+    publicApp[key] = maskToken(publicApp[key] as string)
+  }
+  return { ...(publicApp as unknown as App), secretFields }
+}
+
+/**
+ * Retire d'une mise à jour les secrets renvoyés sous leur forme masquée
+ *
+ * Les champs retirés gardent ainsi leur valeur enregistrée lors de la fusion
+ * avec l'application existante. secretFields (réponse du GET) est aussi retiré.
+ *
+ * @param input - Valeurs reçues (body de la requête)
+ * @param stored - Application enregistrée (secrets déchiffrés), absente à la création
+ * @returns Les valeurs à enregistrer
+ */
+export function withoutMaskedSecrets<T extends object>(input: T, stored?: App): T {
+  const result = { ...input } as Record<string, unknown>
+  delete result.secretFields
+  if (stored) {
+    for (const key of getAppSecretKeys(stored)) {
+      if (result[key] === maskToken((stored as unknown as Record<string, string>)[key])) {
+        delete result[key]
+      }
+    }
+  }
+  return result as T
+}
+
+/**
+ * Secrets enregistrés à ressaisir avant d'utiliser une autre URL
+ *
+ * Un secret enregistré n'est jamais envoyé vers une URL différente de celle
+ * de l'application : si l'URL change, chaque secret doit être fourni en clair.
+ *
+ * @param input - Valeurs reçues (body de la requête)
+ * @param stored - Application enregistrée (secrets déchiffrés)
+ * @returns Les champs à ressaisir (vide si l'URL est inchangée)
+ */
+export function getSecretsToReenter(input: { url?: string }, stored: App): string[] {
+  if (input.url === stored.url) {
+    return []
+  }
+  const values = input as Record<string, unknown>
+  return getAppSecretKeys(stored).filter((key) => {
+    const value = values[key]
+    return typeof value !== 'string' || !value || value === maskToken((stored as unknown as Record<string, string>)[key])
+  })
+}
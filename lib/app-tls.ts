@@ -0,0 +1,80 @@
+/**
+ * Options TLS d'une application (app.tls)
+ *
+ * Appliquées par le client HTTP des cartes (lib/upstream-client.ts) :
+ * - ca : certificats d'autorité (PEM) acceptés en plus des autorités système
+ * - fingerprint : empreinte SHA-256 du certificat du serveur, acceptée à la place
+ *   de la vérification par une autorité (certificat auto-signé)
+ * - skipVerify : aucune vérification du certificat (déconseillé)
+ *
+ * Ce fichier est importé par le formulaire des applications : il doit rester
+ * utilisable côté client.
+ */
+
+import type { AppTlsConfig } from './types'
+
+/**
+ * Certificat au format PEM
+ */
+const PEM_CERTIFICATE_PATTERN = /-----BEGIN CERTIFICATE-----[\s\S]+?-----END CERTIFICATE-----/g
+
+/**
+ * Normalise une empreinte SHA-256 au format "AB:CD:..."
+ * Les séparateurs (":" ou espaces) et la casse sont ignorés.
+ *
+ * @param value - Empreinte saisie (ex: "ab cd ..." ou "ABCD...")
+ * @returns L'empreinte normalisée, ou null si ce n'est pas une empreinte SHA-256
+ */
+export function normalizeFingerprint(value: string): string | null {
+  const hex = value.replace(/^sha256[:=]?/i, '').replace(/[\s:]/g, '').toUpperCase()
+  if (!/^[0-9A-F]{64}$/.test(hex)) {
+    return null
+  }
+  return hex.match(/../g)!.join(':')
+}
+
+/**
+ * Extrait les certificats d'un bundle PEM
+ *
+ * @param bundle - Un ou plusieurs certificats PEM collés à la suite
+ * @returns Les certificats trouvés
+ */
+export function getPemCertificates(bundle: string): string[] {
+  return bundle.match(PEM_CERTIFICATE_PATTERN) ?? []
+}
+
+/**
+ * Valide les options TLS d'une application
+ *
+ * @param tls - Options reçues (body de la requête)
+ * @returns Un message d'erreur, ou null si les options sont valides ou absentes
+ */
+export function validateTlsConfig(tls: unknown): string | null {
+  if (tls === undefined || tls === null) {
+    return null
+  }
+  if (typeof tls !== 'object' || Array.isArray(tls)) {
+    return 'tls doit être un objet'
+  }
+
+  const { ca, fingerprint, skipVerify } = tls as Record<string, unknown>
+  if (ca !== undefined && (typeof ca !== 'string' || getPemCertificates(ca).length === 0)) {
+    return 'tls.ca doit contenir au moins un certificat PEM (-----BEGIN CERTIFICATE-----)'
+  }
+  if (fingerprint !== undefined && (typeof fingerprint !== 'string' || !normalizeFingerprint(fingerprint))) {
+    return 'tls.fingerprint doit être une empreinte SHA-256 (64 caractères hexadécimaux)'
+  }
+  if (skipVerify !== undefined && typeof skipVerify !== 'boolean') {
+    return 'tls.skipVerify doit être un booléen'
+  }
+  return null
+}
+
+/**
+ * Indique si des options TLS modifient la vérification du certificat
+ *
+ * @param tls - Options TLS de l'application
+ */
+export function hasTlsOptions(tls: AppTlsConfig | undefined): boolean {
+  return Boolean(tls?.ca || tls?.fingerprint || tls?.skipVerify)
+}
@@ -0,0 +1,192 @@
+/**
+ * Écriture sûre des fichiers JSON
+ *
+ * Utilisé par le store JSONDB (lib/json-store.ts) pour éviter qu'un crash
+ * pendant une écriture, ou deux requêtes simultanées, laissent un fichier
+ * tronqué ou incohérent :
+ * - écriture dans un fichier temporaire puis renommage (atomique sur un même disque)
+ * - verrou en mémoire autour des cycles lecture-modification-écriture
+ * - copies de sauvegarde tournantes (.bak.1, .bak.2, ...) utilisées
+ *   en secours si le fichier principal ne peut pas être parsé
+ */
+
+import { promises as fs } from 'fs'
+import path from 'path'
+
+/**
+ * Nombre de copies de sauvegarde conservées par fichier
+ */
+export const MAX_BACKUPS = 3
+
+/**
+ * File d'attente des opérations par fichier (clé = chemin absolu)
+ */
+const fileLocks = new Map<string, Promise<unknown>>()
+
+/**
+ * Exécute une opération en exclusion mutuelle pour un fichier donné
+ *
+ * Les opérations sur un même fichier sont exécutées l'une après l'autre,
+ * dans l'ordre d'appel. Une opération en échec ne bloque pas les suivantes.
+ *
+ * @param filePath - Chemin du fichier à verrouiller
+ * @param operation - Opération à exécuter
+ * @returns Le résultat de l'opération
+ */
+export async function withFileLock<T>(filePath: string, operation: () => Promise<T>): Promise<T> {
+  const key = path.resolve(filePath)
+  const previous = fileLocks.get(key) ?? Promise.resolve()
+
+  // Chaîner après l'opération précédente, qu'elle ait réussi ou non
+  const current = previous.catch(() => undefined).then(operation)
+  const tail = current.catch(() => undefined)
+  fileLocks.set(key, tail)
+
+  try {
+    return await current
+  } finally {
+    // Nettoyer la file si aucune autre opération n'a été ajoutée entre-temps
+    if (fileLocks.get(key) === tail) {
+      fileLocks.delete(key)
+    }
+  }
+}
+
+/**
+ * Retourne le chemin de la n-ième copie de sauvegarde d'un fichier
+ *
+ * @param filePath - Chemin du fichier principal
+ * @param index - Numéro de la sauvegarde (1 = la plus récente)
+ */
+export function getBackupPath(filePath: string, index: number): string {
+  return `${filePath}.bak.${index}`
+}
+
+/**
+ * Vérifie qu'un fichier existe et contient du JSON valide
+ */
+async function isValidJsonFile(filePath: string): Promise<boolean> {
+  try {
+    JSON.parse(await fs.readFile(filePath, 'utf-8'))
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Fait tourner les copies de sauvegarde avant une écriture
+ *
+ * .bak.2 → .bak.3, .bak.1 → .bak.2, fichier principal → .bak.1.
+ * Un fichier principal corrompu n'est jamais copié dans les sauvegardes.
+ *
+ * @param filePath - Chemin du fichier principal
+ */
+async function rotateBackups(filePath: string): Promise<void> {
+  if (!(await isValidJsonFile(filePath))) {
+    return
+  }
+
+  for (let index = MAX_BACKUPS - 1; index >= 1; index--) {
+    try {
+      await fs.rename(getBackupPath(filePath, index), getBackupPath(filePath, index + 1))
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error
+      }
+    }
+  }
+
+  await fs.copyFile(filePath, getBackupPath(filePath, 1))
+}
+
+/**
+ * Écrit un fichier de manière atomique
+ *
+ * Le contenu est écrit et synchronisé sur disque dans un fichier temporaire
+ * du même dossier, puis renommé vers le fichier cible. Un lecteur voit donc
+ * toujours soit l'ancien contenu complet, soit le nouveau.
+ *
+ * @param filePath - Chemin du fichier cible
+ * @param content - Contenu à écrire
+ */
+export async function writeFileAtomic(filePath: string, content: string): Promise<void> {
+  const tempPath = `${filePath}.${process.pid}.${Date.now()}.${Math.random().toString(36).substring(2, 9)}.tmp`
+
+  try {
+    const handle = await fs.open(tempPath, 'w')
+    try {
+      await handle.writeFile(content, 'utf-8')
+      await handle.sync()
+    } finally {
+      await handle.close()
+    }
+    await fs.rename(tempPath, filePath)
+  } catch (error) {
+    // Ne pas laisser de fichier temporaire orphelin
+    await fs.rm(tempPath, { force: true }).catch(() => undefined)
+    throw error
+  }
+}
+
+/**
+ * Écrit des données JSON de manière atomique en conservant des sauvegardes
+ *
+ * @param filePath - Chemin du fichier cible
+ * @param data - Données à sérialiser
+ */
+export async function writeJsonWithBackup(filePath: string, data: unknown): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true })
+  await rotateBackups(filePath)
+  await writeFileAtomic(filePath, JSON.stringify(data, null, 2))
+}
+
+/**
+ * Lit et valide un fichier JSON
+ *
+ * @throws Error si le fichier est illisible, mal formé ou invalide
+ */
+async function readValidatedJson<T>(filePath: string, validate: (data: unknown) => T): Promise<T> {
+  const fileContent = await fs.readFile(filePath, 'utf-8')
+  return validate(JSON.parse(fileContent))
+}
+
+/**
+ * Lit un fichier JSON, avec repli sur les sauvegardes s'il est corrompu
+ *
+ * @param filePath - Chemin du fichier principal
+ * @param validate - Fonction qui valide les données parsées (lève une erreur si invalides)
+ * @returns Les données validées, ou null si le fichier n'existe pas
+ * @throws L'erreur du fichier principal si aucune sauvegarde n'est exploitable
+ */
+export async function readJsonWithBackup<T>(
+  filePath: string,
+  validate: (data: unknown) => T
+): Promise<T | null> {
+  try {
+    return await readValidatedJson(filePath, validate)
+  } catch (error) {
+    // Fichier absent : pas de données enregistrées
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null
+    }
+    const message = error instanceof Error ? error.message : String(error)
+
+    // Fichier corrompu : essayer les sauvegardes, de la plus récente à la plus ancienne
+    for (let index = 1; index <= MAX_BACKUPS; index++) {
+      const backupPath = getBackupPath(filePath, index)
+      try {
+        const data = await readValidatedJson(backupPath, validate)
+        console.warn(
+          `[DB] ${path.basename(filePath)} est illisible (${message}), ` +
+          `utilisation de la sauvegarde ${path.basename(backupPath)}`
+        )
+        return data
+      } catch {
+        // Essayer la sauvegarde suivante
+      }
+    }
+
+    throw error
+  }
+}
@@ -0,0 +1,401 @@
+/**
+ * Sauvegarde et restauration complètes du dashboard
+ *
+ * Une sauvegarde est une archive JSON versionnée qui regroupe :
+ * - les tableaux de bord, applications, widgets et la configuration
+ * - les utilisateurs (hash de mots de passe uniquement) et leurs préférences
+ * - les métriques historiques
+ * - les règles d'alerte et les canaux de notification
+ *
+ * Les champs sensibles des applications et des canaux (tokens, clés API,
+ * mots de passe SMTP, ...) sont rechiffrés avec une clé dérivée de la phrase
+ * secrète fournie à l'export, et non avec la ENCRYPTION_KEY du serveur :
+ * l'archive peut ainsi être restaurée sur une autre instance qui utilise une
+ * autre clé.
+ */
+
+import crypto from 'crypto'
+import { z } from 'zod'
+import type { App, Widget, AppConfig, Dashboard, UserPreferences } from './types'
+import type { AlertRule } from './alerts'
+import { ALERT_OPERATORS, ALERT_SEVERITIES, ALERT_SOURCES, readAlertRules, replaceAllAlertRules } from './alerts'
+import type { NotificationChannel } from './notifications'
+import {
+  NOTIFICATION_CHANNEL_TYPES,
+  readNotificationChannels,
+  replaceAllNotificationChannels,
+  transformChannelSecrets,
+} from './notifications'
+import type { MetricEntry } from './metrics-history'
+import { exportMetrics, replaceAllMetrics } from './metrics-history'
+import type { StoredUser } from './users'
+import { exportUsers, replaceAllUsers } from './users'
+import { getDataStore } from './data-store'
+import { readStoredConfig, restoreDashboardData } from './db'
+import {
+  decryptSensitiveFields,
+  deriveKeyFromPassphrase,
+  encryptValueWithKey,
+  decryptValueWithKey,
+  transformSensitiveFields,
+} from './encryption'
+import { CURRENT_SCHEMA_VERSION, migrateData } from './migrations'
+
+/**
+ * Identifiant du format d'archive
+ */
+export const BACKUP_FORMAT = 'xhell-dash-backup'
+
+/**
+ * Version actuelle du format d'archive
+ */
+export const BACKUP_VERSION = 1
+
+/**
+ * Longueur minimale de la phrase secrète
+ */
+export const MIN_PASSPHRASE_LENGTH = 8
+
+/**
+ * Valeur connue chiffrée dans l'archive pour vérifier la phrase secrète
+ * avant de restaurer quoi que ce soit
+ */
+const PASSPHRASE_CHECK_VALUE = BACKUP_FORMAT
+
+/**
+ * Taille du sel utilisé pour dériver la clé (en bytes)
+ */
+const SALT_LENGTH = 16
+
+/**
+ * Utilisateur tel qu'il est stocké dans une sauvegarde
+ */
+export interface BackupUser {
+  id: string
+  email: string
+  passwordHash: string
+  role: 'user' | 'admin'
+  /** Préférences d'affichage (absentes des archives antérieures) */
+  preferences?: UserPreferences
+  /** Compte géré par un fournisseur d'identité externe (absent des archives antérieures) */
+  externalAuth?: boolean
+  createdAt: string
+  updatedAt: string
+}
+
+/**
+ * Archive de sauvegarde complète
+ */
+export interface BackupArchive {
+  /** Identifiant du format (toujours BACKUP_FORMAT) */
+  format: typeof BACKUP_FORMAT
+  /** Version du format */
+  version: number
+  /** Version du schéma des données (voir lib/migrations.ts), absente dans les anciennes archives */
+  schemaVersion?: number
+  /** Date de création (ISO 8601) */
+  createdAt: string
+  /** Paramètres de chiffrement des secrets */
+  encryption: {
+    algorithm: 'aes-256-gcm'
+    kdf: 'scrypt'
+    /** Sel de dérivation de la clé (base64) */
+    salt: string
+    /** Valeur de contrôle chiffrée, permet de détecter une phrase secrète incorrecte */
+    check: string
+  }
+  data: {
+    /** Tableaux de bord enregistrés (absent des archives antérieures) */
+    dashboards: Dashboard[]
+    apps: App[]
+    widgets: Widget[]
+    config: AppConfig
+    users: BackupUser[]
+    metrics: MetricEntry[]
+    /** Règles d'alerte (absentes des archives antérieures) */
+    alertRules: AlertRule[]
+    /** Canaux de notification (absents des archives antérieures) */
+    notificationChannels: NotificationChannel[]
+  }
+}
+
+/**
+ * Résumé d'une restauration
+ */
+export interface RestoreSummary {
+  apps: number
+  widgets: number
+  users: number
+  metrics: number
+  alertRules: number
+  notificationChannels: number
+}
+
+/**
+ * Schéma de validation d'une archive
+ *
+ * Les applications, widgets et la configuration sont validés de façon
+ * permissive (champs propres à chaque carte), seuls les champs structurants
+ * sont vérifiés.
+ */
+const BackupArchiveSchema = z.object({
+  format: z.literal(BACKUP_FORMAT),
+  version: z.number().int().min(1).max(BACKUP_VERSION),
+  schemaVersion: z
+    .number()
+    .int()
+    .min(0)
+    .max(CURRENT_SCHEMA_VERSION, { message: 'Archive créée par une version plus récente du dashboard' })
+    .optional(),
+  createdAt: z.string(),
+  encryption: z.object({
+    algorithm: z.literal('aes-256-gcm'),
+    kdf: z.literal('scrypt'),
+    salt: z.string().min(1),
+    check: z.string().min(1),
+  }),
+  data: z.object({
+    dashboards: z
+      .array(z.object({ id: z.string(), slug: z.string(), name: z.string(), order: z.number().optional() }))
+      .default([]),
+    apps: z.array(z.looseObject({ id: z.string(), name: z.string(), url: z.string() })),
+    widgets: z.array(z.looseObject({ id: z.string(), type: z.string(), enabled: z.boolean() })),
+    config: z.looseObject({ backgroundEffect: z.string() }),
+    users: z
+      .array(
+        z.object({
+          id: z.string(),
+          email: z.string(),
+          passwordHash: z.string().min(1),
+          role: z.enum(['user', 'admin']),
+          preferences: z.record(z.string(), z.unknown()).optional(),
+          externalAuth: z.boolean().optional(),
+          createdAt: z.string(),
+          updatedAt: z.string(),
+        })
+      )
+      .refine((users) => users.some((user) => user.role === 'admin'), {
+        message: 'La sauvegarde doit contenir au moins un administrateur',
+      }),
+    metrics: z
+      .array(
+        z.object({
+          appId: z.string(),
+          templateId: z.string(),
+          key: z.string(),
+          value: z.number(),
+          timestamp: z.number(),
+          resolution: z.enum(['raw', 'hour', 'day']).optional(),
+        })
+      )
+      .default([]),
+    alertRules: z
+      .array(
+        z.object({
+          id: z.string(),
+          name: z.string().min(1),
+          appId: z.string(),
+          source: z.enum(ALERT_SOURCES),
+          key: z.string().min(1),
+          operator: z.enum(ALERT_OPERATORS),
+          value: z.string(),
+          forDuration: z.number().int().min(0),
+          resolveAfter: z.number().int().min(0),
+          cooldown: z.number().int().min(0),
+          severity: z.enum(ALERT_SEVERITIES),
+          enabled: z.boolean(),
+          channelIds: z.array(z.string()),
+        })
+      )
+      .default([]),
+    notificationChannels: z
+      .array(
+        z.object({
+          id: z.string(),
+          name: z.string().min(1),
+          type: z.enum(NOTIFICATION_CHANNEL_TYPES),
+          config: z.looseObject({}),
+          appIds: z.array(z.string()),
+          enabled: z.boolean(),
+        })
+      )
+      .default([]),
+  }),
+})
+
+/**
+ * Crée une archive de sauvegarde complète
+ *
+ * @param passphrase - Phrase secrète utilisée pour chiffrer les secrets
+ * @returns Promise<BackupArchive> - Archive prête à être sérialisée
+ */
+export async function createBackup(passphrase: string): Promise<BackupArchive> {
+  const salt = crypto.randomBytes(SALT_LENGTH)
+  const key = deriveKeyFromPassphrase(passphrase, salt)
+
+  // Lire les données brutes : les références ${VAR} aux variables
+  // d'environnement doivent rester des références dans l'archive, et les
+  // éléments déclarés dans dashboard.yaml restent gérés par ce fichier
+  const store = await getDataStore()
+  const [dashboards, rawApps, widgets, config, users, metrics, alertRules, channels] = await Promise.all([
+    store.readDashboards(),
+    store.readApps(),
+    store.readWidgets(),
+    readStoredConfig(store),
+    exportUsers(),
+    exportMetrics(),
+    readAlertRules(),
+    readNotificationChannels(),
+  ])
+
+  // Passer du chiffrement serveur au chiffrement par phrase secrète
+  const apps = rawApps.map((app) =>
+    transformSensitiveFields(decryptSensitiveFields(app), (value) => encryptValueWithKey(value, key))
+  )
+  const notificationChannels = channels.map((channel) => ({
+    ...channel,
+    config: transformChannelSecrets(channel.config, (value) => encryptValueWithKey(value, key)),
+  }))
+
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    createdAt: new Date().toISOString(),
+    encryption: {
+      algorithm: 'aes-256-gcm',
+      kdf: 'scrypt',
+      salt: salt.toString('base64'),
+      check: encryptValueWithKey(PASSPHRASE_CHECK_VALUE, key),
+    },
+    data: {
+      dashboards,
+      apps,
+      widgets,
+      config,
+      users: users.map((user) => ({
+        id: user.id,
+        email: user.email,
+        passwordHash: user.passwordHash,
+        role: user.role as BackupUser['role'],
+        preferences: (user.preferences ?? {}) as UserPreferences,
+        externalAuth: user.externalAuth ?? false,
+        createdAt: new Date(user.createdAt).toISOString(),
+        updatedAt: new Date(user.updatedAt).toISOString(),
+      })),
+      metrics,
+      alertRules,
+      notificationChannels,
+    },
+  }
+}
+
+/**
+ * Valide le contenu d'une archive de sauvegarde
+ *
+ * @param data - Contenu JSON de l'archive
+ * @returns L'archive validée, ou un message d'erreur
+ */
+export function parseBackupArchive(
+  data: unknown
+): { success: true; archive: BackupArchive } | { success: false; error: string } {
+  const result = BackupArchiveSchema.safeParse(data)
+
+  if (!result.success) {
+    const issue = result.error.issues[0]
+    const location = issue.path.length > 0 ? ` (${issue.path.join('.')})` : ''
+    return { success: false, error: `${issue.message}${location}` }
+  }
+
+  return { success: true, archive: result.data as unknown as BackupArchive }
+}
+
+/**
+ * Dérive la clé d'une archive et vérifie la phrase secrète
+ *
+ * @param archive - Archive validée
+ * @param passphrase - Phrase secrète saisie à la restauration
+ * @returns La clé dérivée, ou null si la phrase secrète est incorrecte
+ */
+export function getBackupKey(archive: BackupArchive, passphrase: string): Buffer | null {
+  const key = deriveKeyFromPassphrase(passphrase, Buffer.from(archive.encryption.salt, 'base64'))
+
+  try {
+    return decryptValueWithKey(archive.encryption.check, key) === PASSPHRASE_CHECK_VALUE ? key : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Restaure une archive de sauvegarde en remplaçant toutes les données existantes
+ *
+ * Les secrets sont déchiffrés avec la clé de l'archive puis rechiffrés
+ * avec la ENCRYPTION_KEY du serveur lors de l'écriture. Les données d'une
+ * archive plus ancienne sont migrées au schéma actuel avant d'être écrites.
+ * Tout est préparé avant la première écriture, puis écrit dans une seule
+ * transaction (voir restoreDashboardData) : un échec ne laisse pas un
+ * mélange d'anciennes et de nouvelles données.
+ *
+ * @param archive - Archive validée (voir parseBackupArchive)
+ * @param key - Clé obtenue avec getBackupKey
+ * @param author - Auteur de la restauration (historique)
+ * @returns Promise<RestoreSummary> - Nombre d'éléments restaurés
+ * @throws Error si un secret ne peut pas être déchiffré ou si l'écriture échoue
+ */
+export async function restoreBackup(
+  archive: BackupArchive,
+  key: Buffer,
+  author?: string
+): Promise<RestoreSummary> {
+  const { dashboards, apps, widgets, config, users, metrics, alertRules, notificationChannels } = archive.data
+
+  // Déchiffrer tous les secrets avant d'écrire quoi que ce soit
+  const decryptedApps = apps.map((app) =>
+    transformSensitiveFields(app, (value) => decryptValueWithKey(value, key))
+  )
+  const decryptedChannels = notificationChannels.map((channel) => ({
+    ...channel,
+    config: transformChannelSecrets(channel.config, (value) => decryptValueWithKey(value, key)),
+  }))
+
+  // Mettre les données au format actuel
+  const { data: migrated } = migrateData(
+    { apps: decryptedApps, widgets, config },
+    archive.schemaVersion ?? 0
+  )
+
+  const storedUsers: StoredUser[] = users.map((user) => ({
+    ...user,
+    // Copie en objet JSON (valeur de la colonne preferences)
+    preferences: user.preferences ? { ...user.preferences } : null,
+    externalAuth: user.externalAuth ?? false,
+    createdAt: new Date(user.createdAt),
+    updatedAt: new Date(user.updatedAt),
+  }))
+
+  await restoreDashboardData(
+    {
+      dashboards,
+      apps: migrated.apps,
+      widgets: migrated.widgets,
+      config: migrated.config as AppConfig,
+    },
+    async (tx) => {
+      await replaceAllUsers(tx, storedUsers)
+      await replaceAllMetrics(tx, metrics)
+      await replaceAllAlertRules(tx, alertRules)
+      await replaceAllNotificationChannels(tx, decryptedChannels)
+    },
+    author
+  )
+
+  return {
+    apps: apps.length,
+    widgets: widgets.length,
+    users: users.length,
+    metrics: metrics.length,
+    alertRules: alertRules.length,
+    notificationChannels: notificationChannels.length,
+  }
+}
@@ -6,7 +6,9 @@
  */
 
 import type { StatsTemplate } from './stats-templates'
-import type { StatsDisplayOptions } from './types'
+import { getSecretSettingKeys, type CardSettings } from './card-settings'
+import type { App, StatsDisplayOptions } from './types'
+import type { UpstreamFetch } from './upstream-client'
 import type { NextRequest, NextResponse } from 'next/server'
 import type { ComponentType } from 'react'
 
@@ -40,6 +42,25 @@ export type ApiRouteHandler = (
   params: { params: Promise<{ id: string }> }
 ) => Promise<NextResponse>
 
+/**
+ * Informations retournées par le test de connexion d'une carte
+ */
+export interface ConnectionTestInfo {
+  /** Version du service distant (ex: "4.0.8.1874") */
+  version?: string
+  /** Précision affichée avec le résultat (ex: nom du serveur) */
+  details?: string
+}
+
+/**
+ * Test de connexion d'une carte
+ * Vérifie l'authentification auprès du service sans collecter les statistiques.
+ * Rejette une erreur (ex: "HTTP 401") si le service refuse la connexion.
+ * Les requêtes passent par upstreamFetch, le client HTTP de l'application
+ * (voir lib/upstream-client.ts).
+ */
+export type ConnectionTestHandler = (app: App, upstreamFetch: UpstreamFetch) => Promise<ConnectionTestInfo>
+
 /**
  * Définition complète d'une carte modulaire
  * 
@@ -75,6 +96,23 @@ export interface CardDefinition {
    */
   apiRouteHandler?: ApiRouteHandler
 
+  /**
+   * Paramètres de connexion de la carte (clé API, identifiants...)
+   * Déclarés avec defineCardSettings (voir lib/card-settings.ts) : le formulaire
+   * en est généré, les valeurs sont validées à l'enregistrement et les champs
+   * 'secret' chiffrés. Si non fourni, la carte n'a pas de paramètres.
+   */
+  settings?: CardSettings
+
+  /**
+   * Test de connexion appelé par POST /api/apps/test-connection
+   * Utilisé pour vérifier l'authentification et lire la version du service
+   * avant de collecter un échantillon de statistiques. Exécuté côté serveur :
+   * ne doit pas importer de module serveur (fs, db) depuis index.ts.
+   * Si non fourni, seule la collecte des statistiques sert au diagnostic.
+   */
+  testConnection?: ConnectionTestHandler
+
   /**
    * Composant React pour le panneau de statistiques détaillées
    * Affiche les stats complètes dans un Sheet/Modal
@@ -262,6 +300,16 @@ class CardRegistry {
     ]
   }
 
+  /**
+   * Récupère les noms des champs secrets déclarés par une carte
+   * 
+   * @param cardId - ID de la carte (templateId de l'application)
+   * @returns Tableau des noms de champs 'secret', vide si la carte est inconnue
+   */
+  getSecretSettingKeys(cardId?: string): string[] {
+    return cardId ? getSecretSettingKeys(this.get(cardId)?.settings) : []
+  }
+
   /**
    * Vide le registre (utile pour les tests)
    */
@@ -0,0 +1,223 @@
+/**
+ * Paramètres de connexion déclarés par les cartes
+ *
+ * Chaque carte décrit ses champs (clé API, identifiants, URL du serveur...)
+ * avec defineCardSettings. Cette description sert à :
+ * - générer le formulaire de la carte (components/config/TemplateSpecificForm.tsx)
+ * - valider les valeurs reçues par POST et PUT /api/apps
+ * - chiffrer les champs de type 'secret' (voir lib/encryption.ts)
+ * - lire les valeurs typées dans les handlers de la carte (getCardSettings)
+ *
+ * Les valeurs sont enregistrées à la racine de l'application (ex: app.apiKey).
+ * Ce fichier est importé par les index.ts des cartes : il doit rester utilisable
+ * côté client.
+ */
+
+import { z } from 'zod'
+
+/**
+ * Type de champ, qui détermine le contrôle affiché dans le formulaire
+ */
+export type CardSettingKind = 'text' | 'url' | 'secret' | 'select' | 'textarea' | 'number'
+
+/**
+ * Option d'un champ 'select'
+ */
+export interface CardSettingOption {
+  value: string
+  label: string
+}
+
+/**
+ * Options communes à tous les types de champs
+ */
+export interface CardSettingOptions {
+  /** Libellé affiché dans le formulaire et dans les erreurs de validation */
+  label: string
+  placeholder?: string
+  /** Aide affichée sous le champ */
+  description?: string
+  /** Champ obligatoire (false par défaut) */
+  required?: boolean
+}
+
+/**
+ * Champ de paramètre d'une carte
+ */
+export interface CardSettingField<T = unknown> {
+  kind: CardSettingKind
+  label: string
+  placeholder?: string
+  description?: string
+  required: boolean
+  /** Choix possibles (champs 'select') */
+  options?: CardSettingOption[]
+  /** Schéma zod d'une valeur renseignée */
+  schema: z.ZodType<T>
+}
+
+/**
+ * Champs d'une carte, indexés par le nom de la propriété de l'application
+ */
+export type CardSettingsShape = Record<string, CardSettingField>
+
+/**
+ * Valeurs typées des paramètres d'une carte
+ * Toutes sont optionnelles : une application enregistrée avant l'ajout
+ * d'un champ obligatoire peut ne pas le définir.
+ */
+export type CardSettingsValues<S extends CardSettingsShape> = {
+  [K in keyof S]?: S[K] extends CardSettingField<infer T> ? T : never
+}
+
+/**
+ * Paramètres déclarés par une carte (CardDefinition.settings)
+ */
+export interface CardSettings<S extends CardSettingsShape = CardSettingsShape> {
+  fields: S
+  /** Schéma zod de l'ensemble des valeurs (champs obligatoires compris) */
+  schema: z.ZodType<CardSettingsValues<S>>
+}
+
+/**
+ * Construit un champ à partir de ses options et du schéma de sa valeur
+ */
+function createField<T>(
+  kind: CardSettingKind,
+  { label, placeholder, description, required = false }: CardSettingOptions,
+  schema: z.ZodType<T>
+): CardSettingField<T> {
+  return { kind, label, placeholder, description, required, schema }
+}
+
+/**
+ * Constructeurs des champs de paramètres, par type
+ *
+ * @example
+ * ```typescript
+ * const settings = defineCardSettings({
+ *   apiKey: settingField.secret({ label: 'Clé API', required: true }),
+ *   timeout: settingField.number({ label: 'Délai (s)', min: 1 }),
+ * })
+ * ```
+ */
+export const settingField = {
+  /** Texte sur une ligne (ex: nom d'utilisateur) */
+  text: (options: CardSettingOptions) =>
+    createField('text', options, z.string({ error: 'texte attendu' })),
+
+  /** URL http(s) */
+  url: (options: CardSettingOptions) =>
+    createField('url', options, z.url({ protocol: /^https?$/, error: 'URL http(s) invalide' })),
+
+  /** Secret masqué dans le formulaire et chiffré à l'enregistrement */
+  secret: (options: CardSettingOptions) =>
+    createField('secret', options, z.string({ error: 'texte attendu' })),
+
+  /** Texte sur plusieurs lignes (ex: fichier de configuration) */
+  textarea: (options: CardSettingOptions) =>
+    createField('textarea', options, z.string({ error: 'texte attendu' })),
+
+  /** Nombre, éventuellement borné */
+  number: ({ min, max, ...options }: CardSettingOptions & { min?: number; max?: number }) => {
+    let schema = z.number({ error: 'nombre attendu' })
+    if (min !== undefined) {
+      schema = schema.min(min, { error: `doit être supérieur ou égal à ${min}` })
+    }
+    if (max !== undefined) {
+      schema = schema.max(max, { error: `doit être inférieur ou égal à ${max}` })
+    }
+    return createField('number', options, schema)
+  },
+
+  /** Choix dans une liste */
+  select: <V extends string>({ options: choices, ...options }: CardSettingOptions & {
+    options: ReadonlyArray<{ value: V; label: string }>
+  }): CardSettingField<V> => {
+    const values = choices.map((choice) => choice.value)
+    const schema = z.custom<V>((value) => values.includes(value as V), {
+      error: `valeur attendue parmi : ${values.join(', ')}`,
+    })
+    return { ...createField('select', options, schema), options: [...choices] }
+  },
+}
+
+/**
+ * Déclare les paramètres d'une carte
+ *
+ * @param fields - Champs indexés par le nom de la propriété de l'application
+ * @returns Les paramètres, avec le schéma zod de l'ensemble des valeurs
+ */
+export function defineCardSettings<S extends CardSettingsShape>(fields: S): CardSettings<S> {
+  const shape = Object.fromEntries(
+    Object.entries(fields).map(([key, field]) => [key, field.required ? field.schema : field.schema.optional()])
+  )
+  return {
+    fields,
+    schema: z.object(shape) as unknown as z.ZodType<CardSettingsValues<S>>,
+  }
+}
+
+/**
+ * Lit les paramètres d'une carte sur une application
+ * Seuls les champs déclarés et renseignés sont retournés (sans validation).
+ *
+ * @param settings - Paramètres de la carte
+ * @param app - Application (ou valeurs du formulaire)
+ * @returns Les valeurs typées
+ */
+export function getCardSettings<S extends CardSettingsShape>(
+  settings: CardSettings<S>,
+  app: object
+): CardSettingsValues<S> {
+  const source = app as Record<string, unknown>
+  return Object.fromEntries(
+    Object.keys(settings.fields)
+      .filter((key) => source[key] !== undefined && source[key] !== null && source[key] !== '')
+      .map((key) => [key, source[key]])
+  ) as CardSettingsValues<S>
+}
+
+/**
+ * Valide les paramètres d'une carte
+ *
+ * @param settings - Paramètres de la carte
+ * @param values - Valeurs à valider (application ou body de la requête)
+ * @param options.partial - Ne pas exiger les champs obligatoires (mise à jour partielle)
+ * @returns Un message d'erreur, ou null si les valeurs sont valides
+ */
+export function validateCardSettings(
+  settings: CardSettings,
+  values: object,
+  { partial = false }: { partial?: boolean } = {}
+): string | null {
+  const provided: Record<string, unknown> = getCardSettings(settings, values)
+  const schema = settings.schema as unknown as z.ZodObject
+  const result = (partial ? schema.partial() : schema).safeParse(provided)
+  if (result.success) {
+    return null
+  }
+
+  const [issue] = result.error.issues
+  const key = String(issue.path[0])
+  const field = settings.fields[key]
+  if (!field) {
+    return issue.message
+  }
+  return provided[key] === undefined ? `${field.label} est obligatoire` : `${field.label} : ${issue.message}`
+}
+
+/**
+ * Noms des champs secrets d'une carte
+ *
+ * @param settings - Paramètres de la carte (undefined si elle n'en déclare pas)
+ * @returns Les noms des champs de type 'secret'
+ */
+export function getSecretSettingKeys(settings?: CardSettings): string[] {
+  if (!settings) {
+    return []
+  }
+  return Object.entries(settings.fields)
+    .filter(([, field]) => field.kind === 'secret')
+    .map(([key]) => key)
+}
@@ -0,0 +1,308 @@
+/**
+ * Historique des modifications du dashboard
+ *
+ * Chaque modification des tableaux de bord, applications, widgets ou de la
+ * configuration passant par lib/db.ts enregistre une révision :
+ * - qui (email de l'administrateur) et quand
+ * - la liste des champs modifiés (diff), secrets masqués
+ * - l'état complet du dashboard après la modification, pour pouvoir y revenir
+ *
+ * Les révisions sont stockées dans la base Prisma (table ConfigRevision),
+ * quel que soit le store utilisé pour les données du dashboard.
+ */
+
+import { z } from 'zod'
+import { prisma } from './prisma'
+import type { ConfigRevision as ConfigRevisionRow } from '@prisma/client'
+import type { App, Widget, AppConfig, Dashboard } from './types'
+import type { DataStore } from './data-store'
+import { decryptValue } from './encryption'
+import { isSensitiveField } from './token-utils'
+
+/**
+ * Nombre de révisions conservées par défaut
+ */
+export const DEFAULT_HISTORY_LIMIT = 200
+
+/**
+ * Valeur affichée à la place d'un secret dans les diffs
+ */
+export const MASKED_SECRET = '••••••••'
+
+/**
+ * Partie du dashboard concernée par une modification
+ */
+export type RevisionScope = 'dashboards' | 'apps' | 'widgets' | 'config'
+
+/**
+ * Modification unitaire enregistrée dans une révision
+ */
+export interface RevisionChange {
+  /** Partie du dashboard concernée */
+  scope: RevisionScope
+  /** ID du tableau de bord, de l'application ou du widget (absent pour la configuration) */
+  itemId?: string
+  /** Libellé lisible de l'élément (nom du tableau de bord ou de l'application, type du widget) */
+  itemLabel?: string
+  /** Nature de la modification */
+  type: 'added' | 'removed' | 'modified'
+  /** Chemin du champ modifié (ex: 'statsConfig.templateId') */
+  path?: string
+  /** Valeur avant la modification */
+  before?: unknown
+  /** Valeur après la modification */
+  after?: unknown
+}
+
+/**
+ * État complet du dashboard (données brutes, secrets chiffrés)
+ */
+export interface DashboardSnapshot {
+  /** Tableaux de bord enregistrés (absents des révisions antérieures) */
+  dashboards?: Dashboard[]
+  apps: App[]
+  widgets: Widget[]
+  config: Partial<AppConfig> | null
+}
+
+/**
+ * Révision telle qu'exposée par l'API (sans l'état complet)
+ */
+export interface ConfigRevision {
+  id: number
+  createdAt: string
+  author: string | null
+  summary: string
+  changes: RevisionChange[]
+}
+
+/**
+ * Schémas de validation des colonnes JSON d'une révision
+ *
+ * Comme pour les sauvegardes (voir lib/backup.ts), seuls les champs
+ * structurants sont vérifiés : les champs propres à chaque carte sont conservés.
+ */
+const RevisionChangesSchema = z.array(
+  z.looseObject({
+    scope: z.enum(['dashboards', 'apps', 'widgets', 'config']),
+    type: z.enum(['added', 'removed', 'modified']),
+    itemId: z.string().optional(),
+    itemLabel: z.string().optional(),
+    path: z.string().optional(),
+  })
+)
+
+const DashboardSnapshotSchema = z.object({
+  dashboards: z
+    .array(z.object({ id: z.string(), slug: z.string(), name: z.string(), order: z.number().optional() }))
+    .optional(),
+  apps: z.array(z.looseObject({ id: z.string(), name: z.string(), url: z.string() })),
+  widgets: z.array(z.looseObject({ id: z.string(), type: z.string(), enabled: z.boolean() })),
+  config: z.looseObject({}).nullable(),
+})
+
+/**
+ * Récupère le nombre maximal de révisions conservées
+ * (variable d'environnement CONFIG_HISTORY_LIMIT)
+ */
+export function getHistoryLimit(): number {
+  const limit = parseInt(process.env.CONFIG_HISTORY_LIMIT || '', 10)
+  return Number.isFinite(limit) && limit > 0 ? limit : DEFAULT_HISTORY_LIMIT
+}
+
+/**
+ * Capture l'état complet du dashboard depuis un store
+ *
+ * @param store - Store de données à lire
+ * @returns Promise<DashboardSnapshot> - Données brutes du store
+ */
+export async function captureSnapshot(store: DataStore): Promise<DashboardSnapshot> {
+  const [dashboards, apps, widgets, config] = await Promise.all([
+    store.readDashboards(),
+    store.readApps(),
+    store.readWidgets(),
+    store.readConfig(),
+  ])
+  return { dashboards, apps, widgets, config }
+}
+
+/**
+ * Vérifie qu'une valeur est un objet simple (ni tableau, ni null)
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/**
+ * Compare deux valeurs champ par champ et ajoute les différences à `changes`
+ *
+ * Les objets sont parcourus récursivement, les tableaux sont comparés en bloc.
+ * Les secrets sont comparés une fois déchiffrés (un même token rechiffré
+ * change de valeur à chaque sauvegarde) et masqués dans le résultat.
+ */
+function diffValues(
+  before: unknown,
+  after: unknown,
+  path: string,
+  base: Omit<RevisionChange, 'type' | 'path' | 'before' | 'after'>,
+  changes: RevisionChange[]
+): void {
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)])
+    for (const key of keys) {
+      diffValues(before[key], after[key], path ? `${path}.${key}` : key, base, changes)
+    }
+    return
+  }
+
+  const fieldName = path.split('.').pop() || ''
+  if (isSensitiveField(fieldName) && (typeof before === 'string' || typeof after === 'string')) {
+    const beforeSecret = typeof before === 'string' ? decryptValue(before) : ''
+    const afterSecret = typeof after === 'string' ? decryptValue(after) : ''
+    if (beforeSecret !== afterSecret) {
+      changes.push({
+        ...base,
+        type: 'modified',
+        path,
+        before: beforeSecret ? MASKED_SECRET : undefined,
+        after: afterSecret ? MASKED_SECRET : undefined,
+      })
+    }
+    return
+  }
+
+  if (JSON.stringify(before) !== JSON.stringify(after)) {
+    changes.push({ ...base, type: 'modified', path, before, after })
+  }
+}
+
+/**
+ * Compare deux listes d'éléments identifiés par leur ID
+ */
+function diffItems<T extends { id: string }>(
+  scope: 'dashboards' | 'apps' | 'widgets',
+  before: T[],
+  after: T[],
+  getLabel: (item: T) => string,
+  changes: RevisionChange[]
+): void {
+  const beforeById = new Map(before.map((item) => [item.id, item]))
+  const afterById = new Map(after.map((item) => [item.id, item]))
+
+  for (const item of after) {
+    const previous = beforeById.get(item.id)
+    const base = { scope, itemId: item.id, itemLabel: getLabel(item) }
+    if (!previous) {
+      changes.push({ ...base, type: 'added' })
+    } else {
+      diffValues(previous, item, '', base, changes)
+    }
+  }
+
+  for (const item of before) {
+    if (!afterById.has(item.id)) {
+      changes.push({ scope, itemId: item.id, itemLabel: getLabel(item), type: 'removed' })
+    }
+  }
+}
+
+/**
+ * Calcule la liste des modifications entre deux états du dashboard
+ *
+ * @param before - État avant modification
+ * @param after - État après modification
+ * @returns RevisionChange[] - Modifications, vide si rien n'a changé
+ */
+export function diffSnapshots(before: DashboardSnapshot, after: DashboardSnapshot): RevisionChange[] {
+  const changes: RevisionChange[] = []
+
+  diffItems('dashboards', before.dashboards ?? [], after.dashboards ?? [], (dashboard) => dashboard.name, changes)
+  diffItems('apps', before.apps, after.apps, (app) => app.name, changes)
+  diffItems('widgets', before.widgets, after.widgets, (widget) => widget.type, changes)
+  diffValues(before.config ?? {}, after.config ?? {}, '', { scope: 'config' }, changes)
+
+  return changes
+}
+
+/**
+ * Enregistre une révision puis supprime les plus anciennes au-delà de la limite
+ *
+ * @param params - Auteur, résumé, modifications et état après modification
+ */
+export async function recordRevision(params: {
+  author?: string | null
+  summary: string
+  changes: RevisionChange[]
+  snapshot: DashboardSnapshot
+}): Promise<void> {
+  await prisma.configRevision.create({
+    data: {
+      author: params.author ?? null,
+      summary: params.summary,
+      changes: JSON.parse(JSON.stringify(params.changes)),
+      snapshot: JSON.parse(JSON.stringify(params.snapshot)),
+    },
+  })
+
+  // Ne conserver que les révisions les plus récentes
+  const outdated = await prisma.configRevision.findMany({
+    orderBy: { id: 'desc' },
+    skip: getHistoryLimit(),
+    select: { id: true },
+  })
+  if (outdated.length > 0) {
+    await prisma.configRevision.deleteMany({
+      where: { id: { in: outdated.map((revision: { id: number }) => revision.id) } },
+    })
+  }
+}
+
+/**
+ * Liste les révisions, de la plus récente à la plus ancienne
+ *
+ * @param limit - Nombre maximal de révisions retournées
+ * @returns Promise<ConfigRevision[]> - Révisions sans l'état complet
+ */
+export async function listRevisions(limit: number = 50): Promise<ConfigRevision[]> {
+  const revisions = await prisma.configRevision.findMany({
+    orderBy: { id: 'desc' },
+    take: limit,
+    select: { id: true, createdAt: true, author: true, summary: true, changes: true },
+  })
+
+  return revisions.map((revision: Omit<ConfigRevisionRow, 'snapshot'>) => {
+    // Une liste illisible n'empêche pas d'afficher le reste de l'historique
+    const changes = RevisionChangesSchema.safeParse(revision.changes)
+    return {
+      id: revision.id,
+      createdAt: new Date(revision.createdAt).toISOString(),
+      author: revision.author,
+      summary: revision.summary,
+      changes: changes.success ? changes.data : [],
+    }
+  })
+}
+
+/**
+ * Récupère l'état complet du dashboard enregistré dans une révision
+ *
+ * @param id - ID de la révision
+ * @returns Promise<DashboardSnapshot | null> - État, ou null si la révision n'existe pas
+ * @throws Error si l'état enregistré n'a pas la forme attendue
+ */
+export async function getRevisionSnapshot(id: number): Promise<DashboardSnapshot | null> {
+  const revision = await prisma.configRevision.findUnique({
+    where: { id },
+    select: { snapshot: true },
+  })
+
+  if (!revision) {
+    return null
+  }
+
+  const result = DashboardSnapshotSchema.safeParse(revision.snapshot)
+  if (!result.success) {
+    throw new Error(`État de la révision #${id} illisible : ${result.error.issues[0].message}`)
+  }
+  return result.data as unknown as DashboardSnapshot
+}
@@ -0,0 +1,238 @@
+/**
+ * Test de connexion d'une application avant son enregistrement
+ *
+ * Le diagnostic enchaîne les étapes suivantes sur les valeurs du formulaire :
+ * - dns : résolution du nom d'hôte de l'URL
+ * - connection : connexion TCP, ou TLS avec la validité du certificat (selon app.tls)
+ * - auth : identifiants acceptés par le service
+ * - version : version du service (carte avec un hook testConnection)
+ * - stats : échantillon des statistiques renvoyées par le handler de la carte
+ *
+ * Le handler de la carte est exécuté avec withUnsavedApp (voir lib/db.ts) :
+ * rien n'est enregistré. Une étape en échec fait passer les suivantes à
+ * 'skipped' quand elles ne peuvent plus rien apprendre.
+ */
+
+import dns from 'dns/promises'
+import net from 'net'
+import type { App } from './types'
+import type { CardDefinition } from './card-registry'
+import { getPemCertificates, normalizeFingerprint } from './app-tls'
+import { withUnsavedApp } from './db'
+import { DEFAULT_HEALTH_CHECK_TIMEOUT, getErrorMessage, probeSocket } from './health-checks'
+import { loadCardStatsHandler } from './stats-poller'
+import { createUpstreamClient } from './upstream-client'
+
+export type ConnectionTestStepId = 'dns' | 'connection' | 'auth' | 'version' | 'stats'
+
+export type ConnectionTestStepStatus = 'ok' | 'warning' | 'error' | 'skipped'
+
+/**
+ * Résultat d'une étape du diagnostic
+ */
+export interface ConnectionTestStep {
+  id: ConnectionTestStepId
+  status: ConnectionTestStepStatus
+  message: string
+  /** Durée de l'étape (ms), null si elle n'a pas été exécutée */
+  duration: number | null
+}
+
+/**
+ * Diagnostic complet retourné par POST /api/apps/test-connection
+ */
+export interface ConnectionTestResult {
+  /** true si aucune étape n'est en erreur */
+  ok: boolean
+  steps: ConnectionTestStep[]
+  /** Version du service, si la carte sait la lire */
+  version: string | null
+  /** Valeurs simples des statistiques collectées (10 au plus) */
+  sample: Record<string, string | number | boolean> | null
+}
+
+/**
+ * Nombre maximal de valeurs retournées dans l'échantillon
+ */
+const SAMPLE_SIZE = 10
+
+/**
+ * Indique si un message d'erreur correspond à un refus des identifiants
+ */
+function isAuthError(message: string): boolean {
+  return /\b(401|403)\b|unauthori[sz]ed|forbidden/i.test(message)
+}
+
+/**
+ * Exécute une étape et mesure sa durée
+ */
+async function timed<T>(fn: () => Promise<T>): Promise<{ value: T; duration: number }> {
+  const startedAt = Date.now()
+  const value = await fn()
+  return { value, duration: Date.now() - startedAt }
+}
+
+/**
+ * Extrait les valeurs simples (nombres, textes, booléens) des statistiques
+ */
+function getSample(data: unknown): Record<string, string | number | boolean> | null {
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    return null
+  }
+  const entries = Object.entries(data).filter(
+    ([, value]) => typeof value === 'number' || typeof value === 'string' || typeof value === 'boolean'
+  )
+  return Object.fromEntries(entries.slice(0, SAMPLE_SIZE)) as Record<string, string | number | boolean>
+}
+
+/**
+ * Appelle le handler de statistiques de la carte sur l'application non enregistrée
+ *
+ * @returns Le code HTTP et le corps de la réponse du handler
+ */
+async function fetchCardStats(app: App, templateId: string): Promise<{ status: number; body: unknown }> {
+  const handler = await loadCardStatsHandler(templateId).catch(() => null)
+  if (!handler) {
+    return { status: 501, body: { error: `Handler API non trouvé pour la carte "${templateId}"` } }
+  }
+  return withUnsavedApp(app, async () => {
+    const response = await handler(new Request(`http://localhost/api/apps/${app.id}/stats/${templateId}`), {
+      params: Promise.resolve({ id: app.id }),
+    })
+    return { status: response.status, body: await response.json().catch(() => null) }
+  })
+}
+
+/**
+ * Teste la connexion à une application
+ *
+ * @param app - Application en clair (valeurs du formulaire, avec un ID)
+ * @param card - Carte du template de statistiques, si l'application en a un
+ * @returns Promise<ConnectionTestResult> - Diagnostic (jamais rejeté)
+ */
+export async function testAppConnection(app: App, card?: CardDefinition): Promise<ConnectionTestResult> {
+  const steps: ConnectionTestStep[] = []
+  const result: ConnectionTestResult = { ok: false, steps, version: null, sample: null }
+
+  const add = (id: ConnectionTestStepId, status: ConnectionTestStepStatus, message: string, duration: number | null = null) => {
+    steps.push({ id, status, message, duration })
+  }
+  const skipRemaining = (message: string) => {
+    const ids: ConnectionTestStepId[] = ['dns', 'connection', 'auth', 'version', 'stats']
+    for (const id of ids.filter((id) => !steps.some((step) => step.id === id))) {
+      add(id, 'skipped', message)
+    }
+  }
+  const finish = () => {
+    result.ok = !steps.some((step) => step.status === 'error')
+    return result
+  }
+
+  let url: URL
+  try {
+    url = new URL(app.url)
+  } catch {
+    add('dns', 'error', `URL invalide : ${app.url || '(vide)'}`)
+    skipRemaining('URL invalide')
+    return finish()
+  }
+
+  // Résolution DNS
+  const host = url.hostname.replace(/^\[|\]$/g, '')
+  if (net.isIP(host)) {
+    add('dns', 'ok', `Adresse IP ${host}, pas de résolution nécessaire`, 0)
+  } else {
+    const startedAt = Date.now()
+    try {
+      const addresses = await dns.lookup(host, { all: true })
+      add('dns', 'ok', `${host} → ${addresses.map((entry) => entry.address).join(', ')}`, Date.now() - startedAt)
+    } catch (error) {
+      const code = (error as NodeJS.ErrnoException).code
+      add('dns', 'error', `Impossible de résoudre ${host}${code ? ` (${code})` : ''}`, Date.now() - startedAt)
+      skipRemaining('Nom d\'hôte introuvable')
+      return finish()
+    }
+  }
+
+  // Connexion TCP / TLS
+  const useTls = url.protocol === 'https:'
+  const port = Number(url.port) || (useTls ? 443 : 80)
+  try {
+    const ca = app.tls?.ca ? getPemCertificates(app.tls.ca) : undefined
+    const { latency, tls } = await probeSocket(host, port, DEFAULT_HEALTH_CHECK_TIMEOUT, useTls, ca)
+    const pinned = app.tls?.fingerprint ? normalizeFingerprint(app.tls.fingerprint) : null
+    if (!tls) {
+      add('connection', 'ok', `Connexion TCP établie sur le port ${port}`, latency)
+    } else if (pinned) {
+      if (tls.fingerprint === pinned) {
+        add('connection', 'ok', 'Connexion TLS établie, certificat conforme à l\'empreinte épinglée', latency)
+      } else {
+        add('connection', 'error', `Certificat TLS refusé : empreinte ${tls.fingerprint} différente de l'empreinte épinglée`, latency)
+      }
+    } else if (!tls.authorized && app.tls?.skipVerify) {
+      add('connection', 'warning', `Certificat TLS non vérifié (vérification désactivée) : ${tls.authorizationError}`, latency)
+    } else if (!tls.authorized) {
+      add('connection', 'error', `Certificat TLS refusé : ${tls.authorizationError}`, latency)
+    } else {
+      add('connection', 'ok', `Connexion TLS établie, certificat valide jusqu'au ${tls.validTo.toLocaleDateString('fr-FR')}`, latency)
+    }
+  } catch (error) {
+    add('connection', 'error', `Connexion impossible sur le port ${port} : ${getErrorMessage(error)}`)
+    skipRemaining('Serveur injoignable')
+    return finish()
+  }
+
+  const templateId = app.statsConfig?.templateId
+  if (!card || !templateId) {
+    skipRemaining('Aucun template de statistiques')
+    return finish()
+  }
+
+  // Authentification et version (hook de la carte)
+  if (card.testConnection) {
+    try {
+      const { value: info, duration } = await timed(() => card.testConnection!(app, createUpstreamClient(app, card.name).fetch))
+      add('auth', 'ok', 'Identifiants acceptés', duration)
+      result.version = info.version ?? null
+      add('version', info.version ? 'ok' : 'warning',
+        [info.version ? `${card.name} ${info.version}` : 'Version non communiquée', info.details].filter(Boolean).join(' - '))
+    } catch (error) {
+      const message = getErrorMessage(error)
+      add('auth', 'error', isAuthError(message) ? `Identifiants refusés (${message})` : message)
+      skipRemaining('Authentification en échec')
+      return finish()
+    }
+  }
+
+  // Échantillon des statistiques
+  let stats: { value: { status: number; body: unknown }; duration: number }
+  try {
+    stats = await timed(() => fetchCardStats(app, templateId))
+  } catch (error) {
+    stats = { value: { status: 500, body: { error: getErrorMessage(error) } }, duration: 0 }
+  }
+  const { status, body } = stats.value
+  const error: string | null = status >= 200 && status < 300
+    ? null
+    : (body as { error?: string } | null)?.error || `HTTP ${status}`
+
+  if (!card.testConnection) {
+    if (!error) {
+      add('auth', 'ok', 'Identifiants acceptés')
+    } else if (isAuthError(error) || status === 400) {
+      add('auth', 'error', isAuthError(error) ? `Identifiants refusés (${error})` : error)
+    } else {
+      add('auth', 'skipped', 'Non vérifié (échec de la collecte)')
+    }
+    add('version', 'skipped', 'Non disponible pour cette carte')
+  }
+
+  if (error) {
+    add('stats', 'error', error, stats.duration)
+  } else {
+    result.sample = getSample(body)
+    add('stats', 'ok', 'Statistiques récupérées', stats.duration)
+  }
+
+  return finish()
+}
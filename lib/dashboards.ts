@@ -0,0 +1,65 @@
+/**
+ * Utilitaires pour les tableaux de bord nommés
+ *
+ * Module sans dépendance serveur : utilisable côté client comme côté API.
+ * La persistance est gérée par lib/db.ts.
+ */
+
+import type { Dashboard } from './types'
+
+/**
+ * ID du tableau de bord par défaut
+ * Il existe toujours, ne peut pas être supprimé et reçoit les applications
+ * et widgets créés avant l'apparition des tableaux de bord.
+ */
+export const DEFAULT_DASHBOARD_ID = 'default'
+
+/**
+ * Tableau de bord par défaut, utilisé tant qu'il n'a pas été renommé
+ */
+export const DEFAULT_DASHBOARD: Dashboard = {
+  id: DEFAULT_DASHBOARD_ID,
+  slug: 'accueil',
+  name: 'Accueil',
+  order: 0,
+}
+
+/**
+ * Format d'un slug : minuscules, chiffres et tirets
+ */
+const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/
+
+/**
+ * Génère un slug à partir d'un nom (ex: "Médias & Films" → "medias-films")
+ *
+ * @param name - Nom du tableau de bord
+ * @returns string - Slug utilisable dans l'URL
+ */
+export function slugify(name: string): string {
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+}
+
+/**
+ * Vérifie qu'un slug est valide
+ *
+ * @param slug - Slug à vérifier
+ * @returns boolean - true si le slug ne contient que des minuscules, chiffres et tirets
+ */
+export function isValidSlug(slug: string): boolean {
+  return SLUG_PATTERN.test(slug) && slug.length <= 50
+}
+
+/**
+ * Retourne l'URL d'un tableau de bord
+ *
+ * @param dashboard - Tableau de bord
+ * @returns string - "/" pour le tableau de bord par défaut, "/d/[slug]" sinon
+ */
+export function getDashboardPath(dashboard: Dashboard): string {
+  return dashboard.id === DEFAULT_DASHBOARD_ID ? '/' : `/d/${dashboard.slug}`
+}
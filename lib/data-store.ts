@@ -0,0 +1,137 @@
+/**
+ * Abstraction du stockage des données du dashboard
+ *
+ * Les applications, widgets et la configuration peuvent être stockés :
+ * - dans la base SQLite via Prisma (par défaut)
+ * - dans les fichiers JSON historiques du dossier data/ (DATA_STORE=json)
+ *
+ * Les stores manipulent les données brutes (champs sensibles chiffrés).
+ * Le chiffrement, la résolution des variables d'environnement et les valeurs
+ * par défaut restent gérés par lib/db.ts.
+ */
+
+import type { Prisma } from '@prisma/client'
+import type { App, Widget, AppConfig, Dashboard } from './types'
+import { jsonStore } from './json-store'
+import { prismaStore } from './prisma-store'
+import { importLegacyJsonData } from './legacy-import'
+import { runMigrations } from './migrations'
+
+/**
+ * Type de store disponible
+ */
+export type DataStoreKind = 'prisma' | 'json'
+
+/**
+ * Ensemble des données d'un store (restauration d'une sauvegarde)
+ */
+export interface StoreData {
+  dashboards: Dashboard[]
+  apps: App[]
+  widgets: Widget[]
+  config: AppConfig
+}
+
+/**
+ * Interface commune aux différents stores
+ */
+export interface DataStore {
+  /** Type du store */
+  kind: DataStoreKind
+
+  /** Lit toutes les applications (ordre non garanti) */
+  readApps(): Promise<App[]>
+  /** Remplace toutes les applications */
+  writeApps(apps: App[]): Promise<void>
+  /** Crée ou met à jour une seule application */
+  saveApp(app: App): Promise<void>
+  /** Supprime une application, retourne false si elle n'existait pas */
+  deleteApp(id: string): Promise<boolean>
+  /** Applique l'ordre fourni (index dans le tableau = ordre), IDs inconnus ignorés */
+  reorderApps(appIds: string[]): Promise<void>
+
+  /** Lit tous les widgets (ordre non garanti) */
+  readWidgets(): Promise<Widget[]>
+  /** Remplace tous les widgets */
+  writeWidgets(widgets: Widget[]): Promise<void>
+  /** Crée ou met à jour un seul widget */
+  saveWidget(widget: Widget): Promise<void>
+  /** Supprime un widget, retourne false s'il n'existait pas */
+  deleteWidget(id: string): Promise<boolean>
+  /** Applique l'ordre fourni (index dans le tableau = ordre) */
+  reorderWidgets(widgetIds: string[]): Promise<void>
+
+  /** Lit la configuration brute, ou null si aucune n'est enregistrée */
+  readConfig(): Promise<Partial<AppConfig> | null>
+  /** Écrit la configuration */
+  writeConfig(config: AppConfig): Promise<void>
+
+  /** Lit tous les tableaux de bord enregistrés (ordre non garanti) */
+  readDashboards(): Promise<Dashboard[]>
+  /** Crée ou met à jour un tableau de bord */
+  saveDashboard(dashboard: Dashboard): Promise<void>
+  /** Supprime un tableau de bord, retourne false s'il n'existait pas */
+  deleteDashboard(id: string): Promise<boolean>
+
+  /**
+   * Remplace toutes les données du store
+   * `writeDatabase` écrit les autres tables de la base (utilisateurs, métriques...) :
+   * le store Prisma l'exécute dans la même transaction que ses propres écritures,
+   * le store JSON l'exécute dans une transaction avant d'écrire ses fichiers.
+   */
+  replaceAll(data: StoreData, writeDatabase: (tx: Prisma.TransactionClient) => Promise<void>): Promise<void>
+
+  /** Lit la version du schéma des données, 0 si aucune n'est enregistrée */
+  readSchemaVersion(): Promise<number>
+  /** Enregistre la version du schéma des données */
+  writeSchemaVersion(version: number): Promise<void>
+}
+
+/**
+ * Détermine le store à utiliser depuis la variable d'environnement DATA_STORE
+ *
+ * @returns 'json' si DATA_STORE=json, 'prisma' sinon
+ */
+export function getDataStoreKind(): DataStoreKind {
+  return process.env.DATA_STORE === 'json' ? 'json' : 'prisma'
+}
+
+/**
+ * Promesse de la préparation du store (import des anciens fichiers JSON et
+ * migrations, exécutés une seule fois par processus)
+ */
+let preparePromise: Promise<void> | null = null
+
+/**
+ * Prépare un store avant sa première utilisation
+ */
+async function prepareStore(store: DataStore): Promise<void> {
+  if (store.kind === 'prisma') {
+    await importLegacyJsonData()
+  }
+  await runMigrations(store)
+}
+
+/**
+ * Retourne le store configuré
+ *
+ * Au premier accès, les anciens fichiers JSON sont importés dans la base
+ * (store Prisma, voir lib/legacy-import.ts) puis les migrations de données
+ * en attente sont appliquées (voir lib/migrations.ts).
+ *
+ * @returns Promise<DataStore> - Store prêt à l'emploi
+ */
+export async function getDataStore(): Promise<DataStore> {
+  const store = getDataStoreKind() === 'json' ? jsonStore : prismaStore
+
+  if (!preparePromise) {
+    preparePromise = prepareStore(store).catch((error) => {
+      // Permettre une nouvelle tentative au prochain accès
+      preparePromise = null
+      throw error
+    })
+  }
+  await preparePromise
+
+  return store
+}
@@ -1,109 +1,281 @@
 /**
- * Système de persistance JSONDB
- * 
- * Ce module gère la lecture et l'écriture des applications dans un fichier JSON
- * situé dans le dossier data/apps.json
+ * Couche de persistance du dashboard
+ *
+ * Ce module gère la lecture et l'écriture des applications, widgets et de la
+ * configuration. Le stockage effectif est délégué au store configuré
+ * (base SQLite via Prisma par défaut, fichiers JSON si DATA_STORE=json),
+ * voir lib/data-store.ts.
+ *
+ * Chaque modification enregistre une révision dans l'historique
+ * (voir lib/config-history.ts) et est signalée aux navigateurs connectés
+ * (voir lib/events.ts). Le paramètre optionnel `author` des fonctions
+ * d'écriture identifie l'utilisateur à l'origine de la modification.
+ *
+ * Les éléments déclarés dans dashboard.yaml (voir lib/yaml-config.ts) sont
+ * fusionnés à la lecture et marqués `source: 'yaml'`. Ils ne sont jamais
+ * écrits dans le store.
+ *
+ * Les applications et widgets appartiennent à un tableau de bord
+ * (`dashboardId`) ; ceux qui n'en précisent pas sont affichés sur le
+ * tableau de bord par défaut (voir lib/dashboards.ts).
+ *
+ * Le test de connexion (voir lib/connection-test.ts) exécute les handlers des
+ * cartes sur une application non enregistrée avec withUnsavedApp : pendant
+ * l'appel, readApps la retourne à la place de la version enregistrée.
  */
 
-import { promises as fs } from 'fs'
-import path from 'path'
-import type { App, Widget, AppConfig } from './types'
+import { AsyncLocalStorage } from 'async_hooks'
+import type { Prisma } from '@prisma/client'
+import type { App, Widget, AppConfig, Dashboard } from './types'
 import { defaultStylePreset } from './style-presets'
 import { encryptSensitiveFields, decryptSensitiveFields } from './encryption'
 import { resolveTokenFromEnv } from './env-tokens'
+import { getDataStore, type DataStore, type StoreData } from './data-store'
+import { captureSnapshot, diffSnapshots, recordRevision, getRevisionSnapshot } from './config-history'
+import { getDashboardYaml, exportDashboardYaml } from './yaml-config'
+import { DEFAULT_DASHBOARD, DEFAULT_DASHBOARD_ID } from './dashboards'
+import { normalizeGroupName } from './app-groups'
+import { publishEvent } from './events'
 
-// Chemin vers le fichier de données
-const DATA_DIR = path.join(process.cwd(), 'data')
-const APPS_FILE = path.join(DATA_DIR, 'apps.json')
-const WIDGETS_FILE = path.join(DATA_DIR, 'widgets.json')
-const CONFIG_FILE = path.join(DATA_DIR, 'config.json')
+/**
+ * Application non enregistrée visible par readApps pendant un test de connexion
+ */
+const unsavedApp = new AsyncLocalStorage<App>()
 
 /**
- * Lit la liste des applications depuis le fichier JSON
- * 
- * @returns Promise<App[]> - Liste des applications triée par ordre
- * @throws Error si le fichier ne peut pas être lu ou si les données sont invalides
- */
-export async function readApps(): Promise<App[]> {
-  try {
-    // Vérifier si le fichier existe
-    await fs.access(APPS_FILE)
-    
-    // Lire le contenu du fichier
-    const fileContent = await fs.readFile(APPS_FILE, 'utf-8')
-    
-    // Parser le JSON
-    const apps = JSON.parse(fileContent) as App[]
-    
-    // Valider que c'est bien un tableau
-    if (!Array.isArray(apps)) {
-      throw new Error('Les données doivent être un tableau')
+ * Trie des éléments par ordre (si défini), sinon garde l'ordre d'origine
+ */
+function sortByOrder<T extends { order?: number }>(items: T[]): T[] {
+  return items.sort((a, b) => {
+    // Si les deux ont un ordre, trier par ordre
+    if (a.order !== undefined && b.order !== undefined) {
+      return a.order - b.order
     }
-    
-    // Déchiffrer les champs sensibles et résoudre les variables d'environnement
-    const decryptedApps = apps.map(app => {
-      // Déchiffrer les tokens sensibles
-      const decrypted = decryptSensitiveFields(app)
-      // Résoudre les variables d'environnement pour les tokens
-      return resolveTokenFromEnv(decrypted)
-    })
-    
-    // Trier les apps par ordre (si défini), sinon garder l'ordre d'origine
-    return decryptedApps.sort((a, b) => {
-      // Si les deux ont un ordre, trier par ordre
-      if (a.order !== undefined && b.order !== undefined) {
-        return a.order - b.order
-      }
-      // Si seul a a un ordre, il vient en premier
-      if (a.order !== undefined) {
-        return -1
-      }
-      // Si seul b a un ordre, il vient en premier
-      if (b.order !== undefined) {
-        return 1
+    // Si seul a a un ordre, il vient en premier
+    if (a.order !== undefined) {
+      return -1
+    }
+    // Si seul b a un ordre, il vient en premier
+    if (b.order !== undefined) {
+      return 1
+    }
+    // Sinon, garder l'ordre d'origine
+    return 0
+  })
+}
+
+/**
+ * Fusionne les éléments déclarés dans dashboard.yaml avec ceux du store
+ * Un élément YAML remplace l'élément du store ayant le même ID.
+ */
+function mergeYamlItems<T extends { id: string; source?: 'yaml' }>(stored: T[], declared: T[] = []): T[] {
+  const declaredIds = new Set(declared.map((item) => item.id))
+  return [
+    ...stored.filter((item) => !declaredIds.has(item.id)),
+    ...declared.map((item) => ({ ...item, source: 'yaml' as const })),
+  ]
+}
+
+/**
+ * Filtre les éléments d'un tableau de bord (tous si dashboardId n'est pas précisé)
+ */
+function inDashboard<T extends { dashboardId?: string }>(items: T[], dashboardId?: string): T[] {
+  if (!dashboardId) {
+    return items
+  }
+  return items.filter((item) => (item.dashboardId ?? DEFAULT_DASHBOARD_ID) === dashboardId)
+}
+
+/**
+ * Retire le marqueur d'origine avant l'écriture dans le store
+ */
+function withoutSource<T extends { source?: 'yaml' }>(item: T): T {
+  const copy = { ...item }
+  delete copy.source
+  return copy
+}
+
+/**
+ * File d'attente des modifications enregistrées dans l'historique
+ * (voir withRevision)
+ */
+let revisionQueue: Promise<unknown> = Promise.resolve()
+
+/**
+ * Exécute une modification et l'enregistre dans l'historique
+ *
+ * L'état du dashboard est capturé avant et après la modification ; une révision
+ * n'est créée que si quelque chose a réellement changé. Un échec de
+ * l'enregistrement de la révision ne fait pas échouer la modification.
+ *
+ * Les modifications sont exécutées l'une après l'autre, captures comprises :
+ * le diff d'une révision ne contient jamais la modification d'un autre appel.
+ *
+ * @param summary - Résumé lisible de la modification
+ * @param author - Email de l'utilisateur à l'origine de la modification
+ * @param mutate - Modification à appliquer sur le store
+ */
+async function withRevision<T>(
+  summary: string,
+  author: string | undefined,
+  mutate: (store: DataStore) => Promise<T>
+): Promise<T> {
+  const run = async (): Promise<T> => {
+    const store = await getDataStore()
+    const before = await captureSnapshot(store)
+
+    const result = await mutate(store)
+
+    try {
+      const after = await captureSnapshot(store)
+      const changes = diffSnapshots(before, after)
+      if (changes.length > 0) {
+        await recordRevision({ author, summary, changes, snapshot: after })
       }
-      // Sinon, garder l'ordre d'origine
-      return 0
-    })
-  } catch (error: any) {
-    // Si le fichier n'existe pas, retourner un tableau vide
-    if (error.code === 'ENOENT') {
-      return []
+    } catch (error) {
+      console.error('[DB] Impossible d\'enregistrer la révision dans l\'historique:', error)
     }
-    
-    // Pour les autres erreurs, les propager
-    throw error
+
+    publishEvent({ type: 'config', summary, author: author ?? null })
+
+    return result
   }
+
+  // Chaîner après la modification précédente, qu'elle ait réussi ou non
+  const current = revisionQueue.then(run)
+  revisionQueue = current.catch(() => undefined)
+  return current
 }
 
 /**
- * Écrit la liste des applications dans le fichier JSON
- * 
- * @param apps - Liste des applications à sauvegarder
- * @throws Error si le fichier ne peut pas être écrit
- */
-export async function writeApps(apps: App[]): Promise<void> {
-  try {
-    // Créer le dossier data s'il n'existe pas
-    await fs.mkdir(DATA_DIR, { recursive: true })
-    
-    // Chiffrer les champs sensibles avant de sauvegarder
-    const encryptedApps = apps.map(app => encryptSensitiveFields(app))
-    
-    // Convertir en JSON avec indentation pour la lisibilité
-    const jsonContent = JSON.stringify(encryptedApps, null, 2)
-    
-    // Écrire dans le fichier
-    await fs.writeFile(APPS_FILE, jsonContent, 'utf-8')
-  } catch (error) {
-    // Propager l'erreur avec un message plus clair
-    throw new Error(`Impossible d'écrire les données : ${error}`)
+ * Lit la liste des applications
+ *
+ * @param dashboardId - Limiter aux applications d'un tableau de bord (toutes par défaut)
+ * @returns Promise<App[]> - Liste des applications triée par ordre
+ * @throws Error si les données ne peuvent pas être lues
+ */
+export async function readApps(dashboardId?: string): Promise<App[]> {
+  const store = await getDataStore()
+  const yaml = await getDashboardYaml()
+  const apps = inDashboard(mergeYamlItems(await store.readApps(), yaml?.apps), dashboardId)
+
+  // Déchiffrer les champs sensibles et résoudre les variables d'environnement
+  const decryptedApps = apps.map(app => {
+    // Déchiffrer les tokens sensibles
+    const decrypted = decryptSensitiveFields(app)
+    // Résoudre les variables d'environnement pour les tokens
+    return resolveTokenFromEnv(decrypted)
+  })
+
+  const override = unsavedApp.getStore()
+  if (override) {
+    const resolved = resolveTokenFromEnv(override)
+    const index = decryptedApps.findIndex((app) => app.id === override.id)
+    if (index === -1) {
+      decryptedApps.push(resolved)
+    } else {
+      decryptedApps[index] = resolved
+    }
   }
+
+  return sortByOrder(decryptedApps)
+}
+
+/**
+ * Exécute une fonction en exposant une application non enregistrée
+ *
+ * Pendant l'exécution de fn (et des appels asynchrones qu'elle lance),
+ * readApps retourne cette application à la place de celle ayant le même ID,
+ * ou en plus des autres si elle est nouvelle. Rien n'est écrit dans le store.
+ *
+ * @param app - Application en clair (valeurs du formulaire)
+ * @param fn - Fonction à exécuter
+ * @returns Le résultat de fn
+ */
+export function withUnsavedApp<T>(app: App, fn: () => Promise<T>): Promise<T> {
+  return unsavedApp.run(app, fn)
+}
+
+/**
+ * Remplace la liste complète des applications
+ *
+ * Préférer saveApp / deleteApp / reorderApps pour les modifications ciblées.
+ *
+ * @param apps - Liste des applications à sauvegarder
+ * @param author - Auteur de la modification (historique)
+ * @throws Error si les données ne peuvent pas être écrites
+ */
+export async function writeApps(apps: App[], author?: string): Promise<void> {
+  // Chiffrer les champs sensibles avant de sauvegarder
+  await withRevision('Liste des applications remplacée', author, (store) =>
+    store.writeApps(apps.map(app => encryptSensitiveFields(withoutSource(app))))
+  )
+}
+
+/**
+ * Crée ou met à jour une seule application
+ *
+ * @param app - Application à sauvegarder
+ * @param author - Auteur de la modification (historique)
+ */
+export async function saveApp(app: App, author?: string): Promise<void> {
+  await withRevision(`Application « ${app.name} » enregistrée`, author, (store) =>
+    store.saveApp(encryptSensitiveFields(withoutSource(app)))
+  )
+}
+
+/**
+ * Supprime une application
+ *
+ * @param id - ID de l'application
+ * @param author - Auteur de la modification (historique)
+ * @returns Promise<boolean> - false si l'application n'existait pas
+ */
+export async function deleteApp(id: string, author?: string): Promise<boolean> {
+  return withRevision('Application supprimée', author, (store) => store.deleteApp(id))
+}
+
+/**
+ * Met à jour l'ordre des applications
+ *
+ * Les applications de dashboard.yaml peuvent figurer dans la liste : elles
+ * ne sont pas dans le store et gardent l'ordre déclaré dans le fichier.
+ *
+ * @param appIds - IDs des applications dans le nouvel ordre
+ * @param author - Auteur de la modification (historique)
+ * @param groups - Nouveau groupe des applications déplacées d'un groupe à l'autre (null : sans groupe)
+ * @returns Promise<boolean> - false si un ID ne correspond à aucune application (rien n'est modifié)
+ */
+export async function reorderApps(
+  appIds: string[],
+  author?: string,
+  groups: Record<string, string | null> = {}
+): Promise<boolean> {
+  const summary = Object.keys(groups).length > 0 ? 'Applications déplacées' : 'Applications réordonnées'
+  const declaredIds = new Set((await getDashboardYaml())?.apps?.map((app) => app.id))
+
+  return withRevision(summary, author, async (store) => {
+    const storedIds = new Set((await store.readApps()).map((app) => app.id))
+    if (appIds.some((id) => !storedIds.has(id) && !declaredIds.has(id))) {
+      return false
+    }
+
+    if (Object.keys(groups).length > 0) {
+      for (const app of await store.readApps()) {
+        const group = app.id in groups ? normalizeGroupName(groups[app.id]) : app.group
+        if (group !== app.group) {
+          await store.saveApp({ ...app, group })
+        }
+      }
+    }
+    await store.reorderApps(appIds)
+    return true
+  })
 }
 
 /**
  * Génère un identifiant unique pour une nouvelle application
- * 
+ *
  * @returns string - Identifiant unique basé sur le timestamp et un nombre aléatoire
  */
 export function generateAppId(): string {
@@ -111,80 +283,69 @@ export function generateAppId(): string {
 }
 
 /**
- * Lit la liste des widgets depuis le fichier JSON
- * 
+ * Lit la liste des widgets
+ *
+ * @param dashboardId - Limiter aux widgets d'un tableau de bord (tous par défaut)
  * @returns Promise<Widget[]> - Liste des widgets triée par ordre
- * @throws Error si le fichier ne peut pas être lu ou si les données sont invalides
- */
-export async function readWidgets(): Promise<Widget[]> {
-  try {
-    // Vérifier si le fichier existe
-    await fs.access(WIDGETS_FILE)
-    
-    // Lire le contenu du fichier
-    const fileContent = await fs.readFile(WIDGETS_FILE, 'utf-8')
-    
-    // Parser le JSON
-    const widgets = JSON.parse(fileContent) as Widget[]
-    
-    // Valider que c'est bien un tableau
-    if (!Array.isArray(widgets)) {
-      throw new Error('Les données doivent être un tableau')
-    }
-    
-    // Trier les widgets par ordre (si défini), sinon garder l'ordre d'origine
-    return widgets.sort((a, b) => {
-      // Si les deux ont un ordre, trier par ordre
-      if (a.order !== undefined && b.order !== undefined) {
-        return a.order - b.order
-      }
-      // Si seul a a un ordre, il vient en premier
-      if (a.order !== undefined) {
-        return -1
-      }
-      // Si seul b a un ordre, il vient en premier
-      if (b.order !== undefined) {
-        return 1
-      }
-      // Sinon, garder l'ordre d'origine
-      return 0
-    })
-  } catch (error: any) {
-    // Si le fichier n'existe pas, retourner un tableau vide
-    if (error.code === 'ENOENT') {
-      return []
-    }
-    
-    // Pour les autres erreurs, les propager
-    throw error
-  }
+ * @throws Error si les données ne peuvent pas être lues
+ */
+export async function readWidgets(dashboardId?: string): Promise<Widget[]> {
+  const store = await getDataStore()
+  const yaml = await getDashboardYaml()
+  return sortByOrder(inDashboard(mergeYamlItems(await store.readWidgets(), yaml?.widgets), dashboardId))
 }
 
 /**
- * Écrit la liste des widgets dans le fichier JSON
- * 
+ * Remplace la liste complète des widgets
+ *
+ * Préférer saveWidget / deleteWidget / reorderWidgets pour les modifications ciblées.
+ *
  * @param widgets - Liste des widgets à sauvegarder
- * @throws Error si le fichier ne peut pas être écrit
- */
-export async function writeWidgets(widgets: Widget[]): Promise<void> {
-  try {
-    // Créer le dossier data s'il n'existe pas
-    await fs.mkdir(DATA_DIR, { recursive: true })
-    
-    // Convertir en JSON avec indentation pour la lisibilité
-    const jsonContent = JSON.stringify(widgets, null, 2)
-    
-    // Écrire dans le fichier
-    await fs.writeFile(WIDGETS_FILE, jsonContent, 'utf-8')
-  } catch (error) {
-    // Propager l'erreur avec un message plus clair
-    throw new Error(`Impossible d'écrire les données : ${error}`)
-  }
+ * @param author - Auteur de la modification (historique)
+ * @throws Error si les données ne peuvent pas être écrites
+ */
+export async function writeWidgets(widgets: Widget[], author?: string): Promise<void> {
+  await withRevision('Liste des widgets remplacée', author, (store) =>
+    store.writeWidgets(widgets.map(withoutSource))
+  )
+}
+
+/**
+ * Crée ou met à jour un seul widget
+ *
+ * @param widget - Widget à sauvegarder
+ * @param author - Auteur de la modification (historique)
+ */
+export async function saveWidget(widget: Widget, author?: string): Promise<void> {
+  await withRevision(`Widget « ${widget.type} » enregistré`, author, (store) =>
+    store.saveWidget(withoutSource(widget))
+  )
+}
+
+/**
+ * Supprime un widget
+ *
+ * @param id - ID du widget
+ * @param author - Auteur de la modification (historique)
+ * @returns Promise<boolean> - false si le widget n'existait pas
+ */
+export async function deleteWidget(id: string, author?: string): Promise<boolean> {
+  return withRevision('Widget supprimé', author, (store) => store.deleteWidget(id))
+}
+
+/**
+ * Met à jour l'ordre des widgets
+ *
+ * @param widgetIds - IDs des widgets dans le nouvel ordre
+ * @param author - Auteur de la modification (historique)
+ */
+export async function reorderWidgets(widgetIds: string[], author?: string): Promise<void> {
+  await withRevision('Widgets réordonnés', author, (store) => store.reorderWidgets(widgetIds))
 }
 
 /**
  * Génère un identifiant unique pour un nouveau widget
- * 
+ *
  * @returns string - Identifiant unique basé sur le timestamp et un nombre aléatoire
  */
 export function generateWidgetId(): string {
@@ -192,86 +353,241 @@ export function generateWidgetId(): string {
 }
 
 /**
- * Lit la configuration de l'application depuis le fichier JSON
- * 
- * @returns Promise<AppConfig> - Configuration de l'application avec valeurs par défaut si le fichier n'existe pas
- * @throws Error si le fichier existe mais ne peut pas être lu ou si les données sont invalides
+ * Lit la liste des tableaux de bord
+ *
+ * Le tableau de bord par défaut est toujours présent, même s'il n'a jamais
+ * été renommé (et donc enregistré).
+ *
+ * @returns Promise<Dashboard[]> - Tableaux de bord triés par ordre
  */
-export async function readConfig(): Promise<AppConfig> {
-  try {
-    // Vérifier si le fichier existe
-    await fs.access(CONFIG_FILE)
-    
-    // Lire le contenu du fichier
-    const fileContent = await fs.readFile(CONFIG_FILE, 'utf-8')
-    
-    // Parser le JSON
-    const config = JSON.parse(fileContent) as AppConfig
-    
-    // Valider que c'est bien un objet
-    if (!config || typeof config !== 'object') {
-      throw new Error('Les données doivent être un objet')
+export async function readDashboards(): Promise<Dashboard[]> {
+  const store = await getDataStore()
+  const dashboards = await store.readDashboards()
+
+  if (!dashboards.some((dashboard) => dashboard.id === DEFAULT_DASHBOARD_ID)) {
+    dashboards.unshift(DEFAULT_DASHBOARD)
+  }
+
+  return sortByOrder(dashboards)
+}
+
+/**
+ * Crée ou met à jour un tableau de bord
+ *
+ * @param dashboard - Tableau de bord à sauvegarder
+ * @param author - Auteur de la modification (historique)
+ */
+export async function saveDashboard(dashboard: Dashboard, author?: string): Promise<void> {
+  await withRevision(`Tableau de bord « ${dashboard.name} » enregistré`, author, (store) =>
+    store.saveDashboard(dashboard)
+  )
+}
+
+/**
+ * Supprime un tableau de bord
+ *
+ * Ses applications et widgets sont déplacés sur le tableau de bord par défaut,
+ * placés après ceux qui s'y trouvent déjà.
+ *
+ * @param id - ID du tableau de bord (le tableau de bord par défaut ne peut pas être supprimé)
+ * @param author - Auteur de la modification (historique)
+ * @returns Promise<boolean> - false si le tableau de bord n'existait pas
+ */
+export async function deleteDashboard(id: string, author?: string): Promise<boolean> {
+  if (id === DEFAULT_DASHBOARD_ID) {
+    throw new Error('Le tableau de bord par défaut ne peut pas être supprimé')
+  }
+
+  return withRevision('Tableau de bord supprimé', author, async (store) => {
+    const deleted = await store.deleteDashboard(id)
+    if (!deleted) {
+      return false
     }
-    
-    // Migration: convertir spacing en density si présent
-    let stylePreset = config.stylePreset || defaultStylePreset
-    if (stylePreset && typeof stylePreset === 'object' && 'spacing' in stylePreset && !('density' in stylePreset)) {
-      // Migration depuis l'ancienne structure (spacing -> density)
-      const spacingToDensity: Record<string, 'compact' | 'normal' | 'comfortable'> = {
-        'compact': 'compact',
-        'normal': 'normal',
-        'spacious': 'comfortable',
-      }
-      const oldSpacing = (stylePreset as any).spacing as string
-      const newDensity = spacingToDensity[oldSpacing] || 'normal'
-      stylePreset = {
-        ...(stylePreset as Record<string, any>),
-        density: newDensity,
-      } as any
-      // Supprimer l'ancienne propriété spacing
-      delete (stylePreset as any).spacing
+
+    const moveToDefault = <T extends { dashboardId?: string; order?: number }>(items: T[]): T[] => {
+      const maxOrder = Math.max(
+        -1,
+        ...inDashboard(items, DEFAULT_DASHBOARD_ID).map((item) => item.order ?? -1)
+      )
+      let nextOrder = maxOrder + 1
+      return items.map((item) =>
+        item.dashboardId === id
+          ? { ...item, dashboardId: DEFAULT_DASHBOARD_ID, order: nextOrder++ }
+          : item
+      )
     }
-    
-    // Retourner la configuration avec valeurs par défaut si certains champs manquent
-    return {
-      backgroundEffect: config.backgroundEffect || 'mesh-animated',
-      theme: config.theme || 'default',
-      stylePreset: stylePreset || defaultStylePreset,
+
+    const [apps, widgets] = await Promise.all([store.readApps(), store.readWidgets()])
+    if (apps.some((app) => app.dashboardId === id)) {
+      await store.writeApps(moveToDefault(apps))
     }
-  } catch (error: any) {
-    // Si le fichier n'existe pas, retourner la configuration par défaut
-    if (error.code === 'ENOENT') {
-      return {
-        backgroundEffect: 'mesh-animated',
-        theme: 'default',
-        stylePreset: defaultStylePreset,
-      }
+    if (widgets.some((widget) => widget.dashboardId === id)) {
+      await store.writeWidgets(moveToDefault(widgets))
     }
-    
-    // Pour les autres erreurs, les propager
-    throw error
+    return true
+  })
+}
+
+/**
+ * Génère un identifiant unique pour un nouveau tableau de bord
+ *
+ * @returns string - Identifiant unique basé sur le timestamp et un nombre aléatoire
+ */
+export function generateDashboardId(): string {
+  return `dashboard_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`
+}
+
+/**
+ * Configuration utilisée lorsqu'aucune n'est enregistrée
+ */
+function getDefaultConfig(): AppConfig {
+  return {
+    backgroundEffect: 'mesh-animated',
+    theme: 'default',
+    stylePreset: defaultStylePreset,
+  }
+}
+
+/**
+ * Lit la configuration enregistrée dans le store, sans celle de dashboard.yaml
+ *
+ * @param store - Store de données
+ * @returns Promise<AppConfig> - Configuration avec valeurs par défaut si aucune n'est enregistrée
+ */
+export async function readStoredConfig(store: DataStore): Promise<AppConfig> {
+  const config = await store.readConfig()
+
+  // Aucune configuration enregistrée : retourner la configuration par défaut
+  if (!config) {
+    return getDefaultConfig()
+  }
+
+  // Retourner la configuration avec valeurs par défaut si certains champs manquent
+  // (les anciens formats sont convertis par les migrations, voir lib/migrations.ts)
+  return {
+    backgroundEffect: config.backgroundEffect || 'mesh-animated',
+    theme: config.theme || 'default',
+    stylePreset: config.stylePreset || defaultStylePreset,
+  }
+}
+
+/**
+ * Lit la configuration de l'application
+ *
+ * @returns Promise<AppConfig> - Configuration de l'application avec valeurs par défaut si aucune n'est enregistrée
+ * @throws Error si la configuration existe mais ne peut pas être lue
+ */
+export async function readConfig(): Promise<AppConfig> {
+  const store = await getDataStore()
+  const config = await readStoredConfig(store)
+  const yaml = await getDashboardYaml()
+
+  // La configuration déclarée dans dashboard.yaml prime sur celle du store
+  if (yaml?.config) {
+    return { ...config, ...yaml.config, source: 'yaml' }
   }
+
+  return config
 }
 
 /**
- * Écrit la configuration de l'application dans le fichier JSON
- * 
+ * Écrit la configuration de l'application
+ *
  * @param config - Configuration à sauvegarder
- * @throws Error si le fichier ne peut pas être écrit
- */
-export async function writeConfig(config: AppConfig): Promise<void> {
-  try {
-    // Créer le dossier data s'il n'existe pas
-    await fs.mkdir(DATA_DIR, { recursive: true })
-    
-    // Convertir en JSON avec indentation pour la lisibilité
-    const jsonContent = JSON.stringify(config, null, 2)
-    
-    // Écrire dans le fichier
-    await fs.writeFile(CONFIG_FILE, jsonContent, 'utf-8')
-  } catch (error) {
-    // Propager l'erreur avec un message plus clair
-    throw new Error(`Impossible d'écrire la configuration : ${error}`)
+ * @param author - Auteur de la modification (historique)
+ * @throws Error si la configuration ne peut pas être écrite
+ */
+export async function writeConfig(config: AppConfig, author?: string): Promise<void> {
+  await withRevision('Configuration modifiée', author, (store) =>
+    store.writeConfig(withoutSource(config))
+  )
+}
+
+/**
+ * Remplace toutes les données du dashboard (restauration d'une sauvegarde)
+ *
+ * Avec le store Prisma, tout est écrit dans une seule transaction : en cas
+ * d'échec, rien n'est modifié. Avec le store JSON, les fichiers sont écrits
+ * après la transaction de `writeDatabase`.
+ *
+ * @param data - Tableaux de bord, applications (secrets en clair), widgets et configuration
+ * @param writeDatabase - Écritures des autres tables, dans la même transaction
+ * @param author - Auteur de la modification (historique)
+ */
+export async function restoreDashboardData(
+  data: StoreData,
+  writeDatabase: (tx: Prisma.TransactionClient) => Promise<void>,
+  author?: string
+): Promise<void> {
+  await withRevision('Sauvegarde restaurée', author, (store) =>
+    store.replaceAll(
+      {
+        dashboards: data.dashboards,
+        apps: data.apps.map(app => encryptSensitiveFields(withoutSource(app))),
+        widgets: data.widgets.map(withoutSource),
+        config: withoutSource(data.config),
+      },
+      writeDatabase
+    )
+  )
+}
+
+/**
+ * Restaure l'état du dashboard enregistré dans une révision
+ *
+ * Le retour arrière est lui-même enregistré comme une nouvelle révision,
+ * il peut donc être annulé. Toutes les données sont écrites dans une seule
+ * transaction (voir DataStore.replaceAll) : un échec ne laisse pas un
+ * dashboard à moitié restauré. Les révisions antérieures à l'historique des
+ * tableaux de bord n'en contiennent pas : ils sont alors laissés inchangés.
+ *
+ * @param revisionId - ID de la révision à restaurer
+ * @param author - Auteur de la modification (historique)
+ * @returns Promise<boolean> - false si la révision n'existe pas
+ */
+export async function rollbackToRevision(revisionId: number, author?: string): Promise<boolean> {
+  const snapshot = await getRevisionSnapshot(revisionId)
+  if (!snapshot) {
+    return false
   }
+
+  await withRevision(`Retour à la révision #${revisionId}`, author, async (store) =>
+    // Les données de la révision sont déjà au format du store (secrets chiffrés) ;
+    // elles sont écrites d'un seul bloc, comme une restauration de sauvegarde
+    store.replaceAll(
+      {
+        dashboards: snapshot.dashboards ?? (await store.readDashboards()),
+        apps: snapshot.apps,
+        widgets: snapshot.widgets,
+        config: { ...getDefaultConfig(), ...snapshot.config },
+      },
+      async () => {}
+    )
+  )
+
+  return true
 }
 
+/**
+ * Exporte l'état complet du dashboard au format dashboard.yaml
+ *
+ * Les éléments du store et ceux déjà déclarés dans le YAML sont réunis ;
+ * les références ${VAR} existantes sont conservées et les autres secrets
+ * sont remplacés par des références à définir dans l'environnement.
+ *
+ * @returns Promise<string> - Contenu du fichier dashboard.yaml
+ */
+export async function exportDashboardAsYaml(): Promise<string> {
+  const store = await getDataStore()
+  const yaml = await getDashboardYaml()
+
+  // Déchiffrer sans résoudre les variables d'environnement
+  const apps = mergeYamlItems(
+    (await store.readApps()).map(app => decryptSensitiveFields(app)),
+    yaml?.apps
+  )
+  const widgets = mergeYamlItems(await store.readWidgets(), yaml?.widgets)
+  const config = await readConfig()
+
+  return exportDashboardYaml(sortByOrder(apps), sortByOrder(widgets), config)
+}
@@ -13,6 +13,10 @@
 
 import crypto from 'crypto'
 import { isSensitiveField } from './token-utils'
+import { cardRegistry } from './card-registry'
+
+// Enregistrer les cartes : les champs 'secret' qu'elles déclarent sont chiffrés
+import '@/cards'
 
 /**
  * Algorithme de chiffrement utilisé
@@ -136,28 +140,7 @@ export function encryptValue(plaintext: string | undefined | null): string {
   }
   
   try {
-    // Générer un IV aléatoire
-    const iv = crypto.randomBytes(IV_LENGTH)
-    
-    // Créer le cipher
-    const cipher = crypto.createCipheriv(ALGORITHM, key, iv)
-    
-    // Chiffrer la valeur
-    let encrypted = cipher.update(plaintext, 'utf-8', 'base64')
-    encrypted += cipher.final('base64')
-    
-    // Récupérer l'authentification tag
-    const authTag = cipher.getAuthTag()
-    
-    // Combiner IV, authTag et données chiffrées
-    const combined = Buffer.concat([
-      iv,
-      authTag,
-      Buffer.from(encrypted, 'base64'),
-    ])
-    
-    // Retourner avec le préfixe
-    return ENCRYPTED_PREFIX + combined.toString('base64')
+    return encryptValueWithKey(plaintext, key)
   } catch (error) {
     console.error('Erreur lors du chiffrement:', error)
     // En cas d'erreur, retourner la valeur en clair (mode dégradé)
@@ -197,26 +180,7 @@ export function decryptValue(encryptedValue: string | undefined | null): string
   }
   
   try {
-    // Retirer le préfixe
-    const base64Data = encryptedValue.replace(ENCRYPTED_PREFIX, '')
-    
-    // Décoder les données
-    const combined = Buffer.from(base64Data, 'base64')
-    
-    // Extraire IV, authTag et données chiffrées
-    const iv = combined.subarray(0, IV_LENGTH)
-    const authTag = combined.subarray(IV_LENGTH, IV_LENGTH + AUTH_TAG_LENGTH)
-    const encrypted = combined.subarray(IV_LENGTH + AUTH_TAG_LENGTH)
-    
-    // Créer le decipher
-    const decipher = crypto.createDecipheriv(ALGORITHM, key, iv)
-    decipher.setAuthTag(authTag)
-    
-    // Déchiffrer la valeur
-    let decrypted = decipher.update(encrypted, undefined, 'utf-8')
-    decrypted += decipher.final('utf-8')
-    
-    return decrypted
+    return decryptValueWithKey(encryptedValue, key)
   } catch (error) {
     console.error('Erreur lors du déchiffrement:', error)
     // En cas d'erreur, retourner la valeur telle quelle (mode dégradé)
@@ -224,6 +188,117 @@ export function decryptValue(encryptedValue: string | undefined | null): string
   }
 }
 
+/**
+ * Dérive une clé de chiffrement à partir d'une phrase secrète
+ * 
+ * Utilisé pour les sauvegardes : les secrets y sont chiffrés avec une clé
+ * issue de la phrase secrète choisie à l'export, indépendante de ENCRYPTION_KEY.
+ * 
+ * @param passphrase - Phrase secrète
+ * @param salt - Sel aléatoire (à conserver avec les données chiffrées)
+ * @returns Buffer contenant la clé dérivée (scrypt)
+ */
+export function deriveKeyFromPassphrase(passphrase: string, salt: Buffer): Buffer {
+  return crypto.scryptSync(passphrase, salt, KEY_LENGTH)
+}
+
+/**
+ * Chiffre une valeur avec une clé explicite
+ * 
+ * @param plaintext - La valeur en clair à chiffrer
+ * @param key - Clé de chiffrement de 32 bytes
+ * @returns La valeur chiffrée avec le préfixe "encrypted:"
+ * @throws Error si le chiffrement échoue
+ */
+export function encryptValueWithKey(plaintext: string, key: Buffer): string {
+  // Générer un IV aléatoire
+  const iv = crypto.randomBytes(IV_LENGTH)
+
+  // Créer le cipher
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv)
+
+  // Chiffrer la valeur
+  let encrypted = cipher.update(plaintext, 'utf-8', 'base64')
+  encrypted += cipher.final('base64')
+
+  // Récupérer l'authentification tag
+  const authTag = cipher.getAuthTag()
+
+  // Combiner IV, authTag et données chiffrées
+  const combined = Buffer.concat([
+    iv,
+    authTag,
+    Buffer.from(encrypted, 'base64'),
+  ])
+
+  // Retourner avec le préfixe
+  return ENCRYPTED_PREFIX + combined.toString('base64')
+}
+
+/**
+ * Déchiffre une valeur avec une clé explicite
+ * 
+ * Contrairement à decryptValue, une clé incorrecte lève une erreur
+ * au lieu de retourner la valeur chiffrée.
+ * 
+ * @param encryptedValue - La valeur chiffrée (avec ou sans le préfixe "encrypted:")
+ * @param key - Clé de chiffrement de 32 bytes
+ * @returns La valeur déchiffrée
+ * @throws Error si la clé est incorrecte ou les données altérées
+ */
+export function decryptValueWithKey(encryptedValue: string, key: Buffer): string {
+  // Retirer le préfixe
+  const base64Data = encryptedValue.replace(ENCRYPTED_PREFIX, '')
+
+  // Décoder les données
+  const combined = Buffer.from(base64Data, 'base64')
+
+  // Extraire IV, authTag et données chiffrées
+  const iv = combined.subarray(0, IV_LENGTH)
+  const authTag = combined.subarray(IV_LENGTH, IV_LENGTH + AUTH_TAG_LENGTH)
+  const encrypted = combined.subarray(IV_LENGTH + AUTH_TAG_LENGTH)
+
+  // Créer le decipher
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, iv)
+  decipher.setAuthTag(authTag)
+
+  // Déchiffrer la valeur
+  let decrypted = decipher.update(encrypted, undefined, 'utf-8')
+  decrypted += decipher.final('utf-8')
+
+  return decrypted
+}
+
+/**
+ * Applique une transformation à tous les champs sensibles (non vides) d'un objet
+ * 
+ * Les objets imbriqués sont parcourus récursivement, les tableaux sont ignorés.
+ * Pour une application, les champs 'secret' déclarés par la carte de son
+ * template (voir lib/card-settings.ts) sont aussi transformés.
+ * 
+ * @param obj - L'objet contenant potentiellement des champs sensibles
+ * @param transform - Transformation appliquée à chaque valeur sensible
+ * @returns Un nouvel objet avec les champs sensibles transformés
+ */
+export function transformSensitiveFields<T extends Record<string, any>>(
+  obj: T,
+  transform: (value: string) => string
+): T {
+  const transformed: any = { ...obj }
+  const secretKeys = cardRegistry.getSecretSettingKeys(obj.statsConfig?.templateId)
+  
+  for (const [key, value] of Object.entries(obj)) {
+    if (typeof value === 'string' && (isSensitiveField(key) || secretKeys.includes(key)) && value) {
+      transformed[key] = transform(value)
+    } else if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
+      // Récursivement transformer les objets imbriqués
+      transformed[key] = transformSensitiveFields(value, transform)
+    }
+  }
+  
+  return transformed
+}
+
 /**
  * Chiffre tous les champs sensibles d'un objet
  * 
@@ -241,18 +316,7 @@ export function decryptValue(encryptedValue: string | undefined | null): string
  * ```
  */
 export function encryptSensitiveFields<T extends Record<string, any>>(obj: T): T {
-  const encrypted: any = { ...obj }
-  
-  for (const [key, value] of Object.entries(obj)) {
-    if (typeof value === 'string' && isSensitiveField(key) && value) {
-      encrypted[key] = encryptValue(value)
-    } else if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
-      // Récursivement chiffrer les objets imbriqués
-      encrypted[key] = encryptSensitiveFields(value)
-    }
-  }
-  
-  return encrypted
+  return transformSensitiveFields(obj, encryptValue)
 }
 
 /**
@@ -272,17 +336,5 @@ export function encryptSensitiveFields<T extends Record<string, any>>(obj: T): T
  * ```
  */
 export function decryptSensitiveFields<T extends Record<string, any>>(obj: T): T {
-  const decrypted: any = { ...obj }
-  
-  for (const [key, value] of Object.entries(obj)) {
-    if (typeof value === 'string' && isSensitiveField(key) && value) {
-      decrypted[key] = decryptValue(value)
-    } else if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
-      // Récursivement déchiffrer les objets imbriqués
-      decrypted[key] = decryptSensitiveFields(value)
-    }
-  }
-  
-  return decrypted
+  return transformSensitiveFields(obj, decryptValue)
 }
-
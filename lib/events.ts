@@ -0,0 +1,129 @@
+/**
+ * Événements temps réel du dashboard
+ *
+ * Bus d'événements du processus serveur : les modules qui modifient l'état
+ * du dashboard publient un événement, la route GET /api/events le transmet
+ * aux navigateurs connectés (Server-Sent Events).
+ *
+ * - stats : nouvelles statistiques collectées pour une application (voir lib/stats-poller.ts)
+ * - app-status : une application passe de disponible à en erreur, ou inversement
+ * - config : applications, widgets, tableaux de bord ou configuration modifiés
+ * - health : nouvelle vérification de disponibilité d'une application (voir lib/health-checks.ts)
+ * - alert : alerte déclenchée ou résolue (voir lib/alerts.ts)
+ *
+ * Le bus est rangé sur globalThis : le planificateur lancé par
+ * instrumentation.ts et la route SSE peuvent charger ce module dans des
+ * bundles différents.
+ */
+
+import { EventEmitter } from 'events'
+import type { StatsPollStatus } from './stats-poller'
+import type { HealthCheckResult } from './health-checks'
+import type { Alert } from './alerts'
+
+/**
+ * Nouvelles statistiques d'une application
+ */
+export interface StatsEvent {
+  type: 'stats'
+  appId: string
+  templateId: string
+  /** Code HTTP équivalent (200 si la collecte a réussi) */
+  status: number
+  /** Statistiques, ou corps de l'erreur ({ error, hint }) */
+  body: unknown
+  poll: StatsPollStatus
+}
+
+/**
+ * Changement d'état d'une application
+ */
+export interface AppStatusEvent {
+  type: 'app-status'
+  appId: string
+  /** false si la dernière collecte a échoué */
+  ok: boolean
+  error: string | null
+}
+
+/**
+ * Modification de la configuration du dashboard
+ */
+export interface ConfigEvent {
+  type: 'config'
+  /** Résumé lisible de la modification (ex: 'Applications réordonnées') */
+  summary: string
+  /** Email de l'utilisateur à l'origine de la modification */
+  author: string | null
+}
+
+/**
+ * Résultat d'une vérification de disponibilité
+ */
+export interface HealthEvent {
+  type: 'health'
+  result: HealthCheckResult
+}
+
+/**
+ * Alerte déclenchée ou résolue
+ */
+export interface AlertEvent {
+  type: 'alert'
+  alert: Alert
+}
+
+/**
+ * Événement transmis aux clients
+ */
+export type DashboardEvent = StatsEvent | AppStatusEvent | ConfigEvent | HealthEvent | AlertEvent
+
+/**
+ * Clé globale du bus d'événements
+ */
+const EVENT_EMITTER = Symbol.for('xhell-dash.events')
+
+/**
+ * Crée le bus d'événements du processus
+ */
+function createEmitter(): EventEmitter {
+  const emitter = new EventEmitter()
+  // Un listener par navigateur connecté
+  emitter.setMaxListeners(0)
+  return emitter
+}
+
+const globals = globalThis as unknown as Record<symbol, EventEmitter | undefined>
+const emitter = (globals[EVENT_EMITTER] ??= createEmitter())
+
+/**
+ * Publie un événement à tous les abonnés
+ *
+ * @param event - Événement à publier
+ */
+export function publishEvent(event: DashboardEvent): void {
+  emitter.emit('event', event)
+}
+
+/**
+ * S'abonne aux événements du dashboard
+ *
+ * @param listener - Fonction appelée pour chaque événement
+ * @returns Fonction de désabonnement
+ */
+export function subscribeEvents(listener: (event: DashboardEvent) => void): () => void {
+  emitter.on('event', listener)
+  return () => {
+    emitter.off('event', listener)
+  }
+}
+
+/**
+ * Formate un événement au format Server-Sent Events
+ *
+ * @param event - Événement à transmettre
+ * @returns Bloc `event:` / `data:` terminé par une ligne vide
+ */
+export function formatServerSentEvent(event: DashboardEvent): string {
+  return `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`
+}
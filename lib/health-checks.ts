@@ -0,0 +1,607 @@
+/**
+ * Vérification de la disponibilité des applications côté serveur
+ *
+ * Chaque application est vérifiée par le serveur selon `healthCheck.interval`,
+ * qu'elle ait ou non un template de statistiques :
+ * - http : requête sur l'URL de l'app, code de réponse et mot-clé attendus
+ * - tcp : ouverture d'une connexion sur un port
+ * - pour les URL https (ou tcp avec checkTls), le certificat TLS doit être
+ *   valide ; l'app est dégradée quand il expire dans moins de tlsExpiryDays
+ *
+ * Le dernier résultat de chaque application est conservé en mémoire et
+ * transmis aux navigateurs connectés (voir lib/events.ts) ; l'historique est
+ * enregistré dans la base Prisma (table HealthCheck) et conservé
+ * HEALTH_HISTORY_RETENTION. Les règles d'alerte de source health sont
+ * évaluées à chaque vérification (voir lib/alerts.ts).
+ *
+ * Les derniers résultats et les minuteries sont rangés sur globalThis, comme
+ * le cache de lib/stats-poller.ts : les routes voient ainsi les vérifications
+ * faites par le planificateur lancé par instrumentation.ts.
+ */
+
+import net from 'net'
+import tls from 'tls'
+import { prisma } from './prisma'
+import type { HealthCheck as HealthCheckRow } from '@prisma/client'
+import type { App, HealthCheckConfig, HealthCheckType } from './types'
+import { readApps } from './db'
+import { publishEvent } from './events'
+import { evaluateAlerts } from './alerts'
+
+/**
+ * État d'une application
+ * - up : vérification réussie
+ * - degraded : vérification réussie mais certificat TLS proche de l'expiration
+ * - down : vérification échouée
+ * - unknown : pas encore vérifiée
+ */
+export type HealthStatus = 'up' | 'degraded' | 'down' | 'unknown'
+
+/**
+ * Résultat d'une vérification
+ */
+export interface HealthCheckResult {
+  appId: string
+  type: HealthCheckType
+  status: HealthStatus
+  /** Date de la vérification (ISO 8601) */
+  checkedAt: string
+  /** Temps de réponse (ms), null si la vérification a échoué avant la réponse */
+  latency: number | null
+  /** Code HTTP reçu (vérifications http) */
+  statusCode: number | null
+  /** Cause de l'échec ou de la dégradation */
+  error: string | null
+  /** Date d'expiration du certificat TLS (ISO 8601) */
+  tlsValidTo: string | null
+  /** Nombre de jours avant l'expiration du certificat TLS */
+  tlsDaysRemaining: number | null
+}
+
+/**
+ * Configuration d'une vérification avec les valeurs par défaut appliquées
+ */
+export interface ResolvedHealthCheck {
+  type: HealthCheckType
+  url: string
+  host: string
+  port: number
+  expectedStatus: number[] | null
+  keyword: string | null
+  checkTls: boolean
+  tlsExpiryDays: number
+  interval: number
+  timeout: number
+}
+
+/**
+ * Historique des vérifications d'une application sur une période
+ */
+export interface HealthHistory {
+  /** Vérifications triées par date croissante */
+  checks: Pick<HealthCheckResult, 'checkedAt' | 'status' | 'latency' | 'error'>[]
+  /** Part des vérifications réussies (0 à 100), null sans vérification */
+  uptime: number | null
+}
+
+const DAY = 24 * 60 * 60 * 1000
+
+/**
+ * Intervalle par défaut entre deux vérifications (1 minute)
+ */
+export const DEFAULT_HEALTH_CHECK_INTERVAL = 60000
+
+/**
+ * Intervalle minimal entre deux vérifications
+ */
+const MIN_HEALTH_CHECK_INTERVAL = 10000
+
+/**
+ * Timeout par défaut d'une vérification
+ */
+export const DEFAULT_HEALTH_CHECK_TIMEOUT = 10000
+
+/**
+ * Nombre de jours avant expiration du certificat en dessous duquel l'app est dégradée
+ */
+export const DEFAULT_TLS_EXPIRY_DAYS = 14
+
+/**
+ * Durée de conservation de l'historique des vérifications
+ */
+export const HEALTH_HISTORY_RETENTION = 30 * DAY
+
+/**
+ * Fréquence de vérification du planificateur
+ */
+const TICK_INTERVAL = 5000
+
+/**
+ * Fréquence de suppression de l'historique expiré (1 heure)
+ */
+const PRUNE_INTERVAL = 60 * 60 * 1000
+
+/**
+ * Dernière vérification d'une application
+ */
+interface HealthEntry {
+  result: HealthCheckResult
+  /** Configuration utilisée (une modification déclenche une nouvelle vérification) */
+  configKey: string
+}
+
+/**
+ * État du planificateur, partagé par toutes les copies du module
+ */
+interface HealthState {
+  latest: Map<string, HealthEntry>
+  running: Map<string, Promise<HealthCheckResult>>
+  timer: ReturnType<typeof setInterval> | null
+  pruneTimer: ReturnType<typeof setInterval> | null
+}
+
+/**
+ * Clé globale de l'état du planificateur
+ */
+const HEALTH_STATE = Symbol.for('xhell-dash.health-checks')
+
+const globals = globalThis as unknown as Record<symbol, HealthState | undefined>
+const state = (globals[HEALTH_STATE] ??= { latest: new Map(), running: new Map(), timer: null, pruneTimer: null })
+const latest = state.latest
+const running = state.running
+
+/**
+ * Port par défaut d'une URL
+ */
+function getDefaultPort(url: URL): number {
+  if (url.port) {
+    return parseInt(url.port, 10)
+  }
+  return url.protocol === 'https:' ? 443 : 80
+}
+
+/**
+ * Calcule la configuration de la vérification d'une application
+ *
+ * @param app - Application à vérifier
+ * @returns La configuration avec les valeurs par défaut, ou null si la vérification est désactivée
+ */
+export function getHealthCheckConfig(app: App): ResolvedHealthCheck | null {
+  const config: HealthCheckConfig = app.healthCheck ?? {}
+  if (config.enabled === false) {
+    return null
+  }
+
+  const type = config.type ?? 'http'
+  let target: URL
+  try {
+    target = new URL(config.url || app.url)
+  } catch {
+    return null
+  }
+
+  return {
+    type,
+    url: target.toString(),
+    host: config.host || target.hostname,
+    port: config.port || getDefaultPort(target),
+    expectedStatus: config.expectedStatus?.length ? config.expectedStatus : null,
+    keyword: config.keyword || null,
+    checkTls: config.checkTls ?? (type === 'http' && target.protocol === 'https:'),
+    tlsExpiryDays: config.tlsExpiryDays ?? DEFAULT_TLS_EXPIRY_DAYS,
+    interval: Math.max(config.interval || DEFAULT_HEALTH_CHECK_INTERVAL, MIN_HEALTH_CHECK_INTERVAL),
+    timeout: config.timeout || DEFAULT_HEALTH_CHECK_TIMEOUT,
+  }
+}
+
+/**
+ * Valide la configuration de vérification envoyée par un client
+ *
+ * @param config - Valeur du champ healthCheck
+ * @returns Le message d'erreur, ou null si la configuration est valide
+ */
+export function validateHealthCheckConfig(config: unknown): string | null {
+  if (config === undefined || config === null) {
+    return null
+  }
+  if (typeof config !== 'object' || Array.isArray(config)) {
+    return 'healthCheck doit être un objet'
+  }
+
+  const check = config as HealthCheckConfig
+  if (check.type !== undefined && check.type !== 'http' && check.type !== 'tcp') {
+    return 'healthCheck.type doit être "http" ou "tcp"'
+  }
+  if (check.url) {
+    try {
+      new URL(check.url)
+    } catch {
+      return 'healthCheck.url invalide'
+    }
+  }
+  if (check.port !== undefined && (!Number.isInteger(check.port) || check.port < 1 || check.port > 65535)) {
+    return 'healthCheck.port doit être compris entre 1 et 65535'
+  }
+  if (
+    check.expectedStatus !== undefined &&
+    (!Array.isArray(check.expectedStatus) || check.expectedStatus.some((code) => !Number.isInteger(code)))
+  ) {
+    return 'healthCheck.expectedStatus doit être une liste de codes HTTP'
+  }
+  return null
+}
+
+/**
+ * Informations sur le certificat TLS présenté par le serveur
+ */
+export interface TlsInfo {
+  validTo: Date
+  authorized: boolean
+  authorizationError: string | null
+  /** Empreinte SHA-256 du certificat (ex: "AB:CD:...") */
+  fingerprint: string
+}
+
+/**
+ * Ouvre une connexion TCP (ou TLS) puis la ferme
+ *
+ * @param ca - Certificats d'autorité (PEM) acceptés en plus des autorités système
+ * @returns La durée d'établissement de la connexion et le certificat pour TLS
+ */
+export function probeSocket(
+  host: string,
+  port: number,
+  timeout: number,
+  useTls: boolean,
+  ca?: string[]
+): Promise<{ latency: number; tls: TlsInfo | null }> {
+  return new Promise((resolve, reject) => {
+    const startedAt = Date.now()
+    const socket = useTls
+      ? tls.connect({
+          host,
+          port,
+          servername: net.isIP(host) ? undefined : host,
+          rejectUnauthorized: false,
+          ca: ca?.length ? [...tls.rootCertificates, ...ca] : undefined,
+        })
+      : net.connect({ host, port })
+
+    socket.setTimeout(timeout)
+    socket.once('timeout', () => {
+      socket.destroy()
+      reject(new Error(`Délai dépassé après ${timeout} ms`))
+    })
+    socket.once('error', (error) => {
+      socket.destroy()
+      reject(error)
+    })
+    socket.once(useTls ? 'secureConnect' : 'connect', () => {
+      const latency = Date.now() - startedAt
+      let info: TlsInfo | null = null
+      if (socket instanceof tls.TLSSocket) {
+        const certificate = socket.getPeerCertificate()
+        info = {
+          validTo: new Date(certificate.valid_to),
+          authorized: socket.authorized,
+          authorizationError: socket.authorizationError ? String(socket.authorizationError) : null,
+          fingerprint: certificate.fingerprint256,
+        }
+      }
+      socket.end()
+      socket.destroy()
+      resolve({ latency, tls: info })
+    })
+  })
+}
+
+/**
+ * Message d'une erreur réseau
+ * Utilisé aussi par le test de connexion (voir lib/connection-test.ts).
+ *
+ * @param error - Erreur levée par fetch ou par une socket
+ * @returns string - Cause de l'erreur (ex: "connect ECONNREFUSED 10.0.0.2:8989")
+ */
+export function getErrorMessage(error: unknown): string {
+  if (error instanceof Error) {
+    // fetch encapsule l'erreur réseau (ECONNREFUSED, ENOTFOUND, ...) dans cause
+    const cause = (error as Error & { cause?: unknown }).cause
+    if (error.name === 'TimeoutError') {
+      return 'Délai dépassé'
+    }
+    if (cause instanceof Error && cause.message) {
+      return cause.message
+    }
+    return error.message || 'Erreur inconnue'
+  }
+  return String(error)
+}
+
+/**
+ * Exécute la vérification d'une application
+ *
+ * @param app - Application à vérifier
+ * @param config - Configuration de la vérification
+ * @returns Promise<HealthCheckResult> - Résultat (jamais rejeté)
+ */
+export async function runHealthCheck(app: App, config: ResolvedHealthCheck): Promise<HealthCheckResult> {
+  const result: HealthCheckResult = {
+    appId: app.id,
+    type: config.type,
+    status: 'up',
+    checkedAt: new Date().toISOString(),
+    latency: null,
+    statusCode: null,
+    error: null,
+    tlsValidTo: null,
+    tlsDaysRemaining: null,
+  }
+
+  try {
+    if (config.type === 'tcp') {
+      const probe = await probeSocket(config.host, config.port, config.timeout, config.checkTls)
+      result.latency = probe.latency
+      applyTlsInfo(result, probe.tls, config)
+      return result
+    }
+
+    const startedAt = Date.now()
+    const response = await fetch(config.url, {
+      method: 'GET',
+      redirect: 'follow',
+      cache: 'no-store',
+      signal: AbortSignal.timeout(config.timeout),
+    })
+    result.latency = Date.now() - startedAt
+    result.statusCode = response.status
+
+    const expected = config.expectedStatus
+      ? config.expectedStatus.includes(response.status)
+      : response.status >= 200 && response.status < 400
+    if (!expected) {
+      result.status = 'down'
+      result.error = config.expectedStatus
+        ? `HTTP ${response.status} (attendu : ${config.expectedStatus.join(', ')})`
+        : `HTTP ${response.status}`
+      await response.body?.cancel()
+      return result
+    }
+
+    if (config.keyword) {
+      const text = await response.text()
+      if (!text.includes(config.keyword)) {
+        result.status = 'down'
+        result.error = `Mot-clé "${config.keyword}" absent de la réponse`
+        return result
+      }
+    } else {
+      await response.body?.cancel()
+    }
+
+    if (config.checkTls) {
+      const target = new URL(config.url)
+      const probe = await probeSocket(target.hostname, getDefaultPort(target), config.timeout, true)
+      applyTlsInfo(result, probe.tls, config)
+    }
+  } catch (error) {
+    result.status = 'down'
+    result.error = getErrorMessage(error)
+  }
+
+  return result
+}
+
+/**
+ * Ajoute les informations du certificat au résultat et ajuste l'état
+ */
+function applyTlsInfo(result: HealthCheckResult, info: TlsInfo | null, config: ResolvedHealthCheck): void {
+  if (!info) {
+    return
+  }
+
+  const now = Date.now()
+  result.tlsValidTo = Number.isNaN(info.validTo.getTime()) ? null : info.validTo.toISOString()
+  result.tlsDaysRemaining = result.tlsValidTo ? Math.floor((info.validTo.getTime() - now) / DAY) : null
+
+  if (!info.authorized) {
+    result.status = 'down'
+    result.error = `Certificat TLS invalide : ${info.authorizationError ?? 'non approuvé'}`
+  } else if (result.tlsDaysRemaining !== null && result.tlsDaysRemaining < config.tlsExpiryDays) {
+    result.status = 'degraded'
+    result.error = `Certificat TLS expirant dans ${result.tlsDaysRemaining} jour(s)`
+  }
+}
+
+/**
+ * Vérifie une application, enregistre le résultat et le transmet aux clients
+ * Les appels simultanés pour une même application partagent la même vérification.
+ *
+ * @param app - Application à vérifier
+ * @returns Promise<HealthCheckResult | null> - Résultat, null si la vérification est désactivée
+ */
+export function checkAppHealth(app: App): Promise<HealthCheckResult | null> {
+  const config = getHealthCheckConfig(app)
+  if (!config) {
+    latest.delete(app.id)
+    return Promise.resolve(null)
+  }
+
+  const pending = running.get(app.id)
+  if (pending) {
+    return pending
+  }
+
+  const check = runHealthCheck(app, config)
+    .then(async (result) => {
+      latest.set(app.id, { result, configKey: JSON.stringify(config) })
+      publishEvent({ type: 'health', result })
+      await recordHealthCheck(result).catch((error) => {
+        console.error(`[Health] Impossible d'enregistrer la vérification de "${app.name}":`, error)
+      })
+      await evaluateAlerts(app, 'health', result).catch((error) => {
+        console.error(`[Health] Erreur lors de l'évaluation des alertes de "${app.name}":`, error)
+      })
+      return result
+    })
+    .finally(() => {
+      running.delete(app.id)
+    })
+
+  running.set(app.id, check)
+  return check
+}
+
+/**
+ * Enregistre un résultat dans l'historique
+ */
+async function recordHealthCheck(result: HealthCheckResult): Promise<void> {
+  await prisma.healthCheck.create({
+    data: {
+      appId: result.appId,
+      status: result.status,
+      latency: result.latency,
+      statusCode: result.statusCode,
+      error: result.error,
+      checkedAt: new Date(result.checkedAt),
+    },
+  })
+}
+
+/**
+ * Vérifie toutes les applications dont la dernière vérification est trop ancienne
+ *
+ * Les résultats des applications supprimées ou désactivées sont retirés.
+ */
+export async function checkDueApps(): Promise<void> {
+  const apps = await readApps()
+  const now = Date.now()
+  const due: App[] = []
+
+  for (const appId of latest.keys()) {
+    if (!apps.some((app) => app.id === appId)) {
+      latest.delete(appId)
+    }
+  }
+
+  for (const app of apps) {
+    const config = getHealthCheckConfig(app)
+    if (!config) {
+      latest.delete(app.id)
+      continue
+    }
+    const entry = latest.get(app.id)
+    if (
+      !running.has(app.id) &&
+      (!entry ||
+        entry.configKey !== JSON.stringify(config) ||
+        now - new Date(entry.result.checkedAt).getTime() >= config.interval)
+    ) {
+      due.push(app)
+    }
+  }
+
+  await Promise.allSettled(due.map((app) => checkAppHealth(app)))
+}
+
+/**
+ * Dernier résultat de chaque application vérifiée
+ *
+ * @returns HealthCheckResult[] - Une entrée par application
+ */
+export function getHealthResults(): HealthCheckResult[] {
+  return Array.from(latest.values(), (entry) => entry.result)
+}
+
+/**
+ * Dernier résultat d'une application
+ *
+ * @param appId - ID de l'application
+ * @returns Le résultat, ou null si l'application n'a pas encore été vérifiée
+ */
+export function getHealthResult(appId: string): HealthCheckResult | null {
+  return latest.get(appId)?.result ?? null
+}
+
+/**
+ * Historique des vérifications d'une application
+ *
+ * @param appId - ID de l'application
+ * @param periodMs - Période couverte (ms)
+ * @param now - Date de fin de la période (ms)
+ * @returns Promise<HealthHistory> - Vérifications et disponibilité sur la période
+ */
+export async function getHealthHistory(appId: string, periodMs: number, now: number = Date.now()): Promise<HealthHistory> {
+  const rows: HealthCheckRow[] = await prisma.healthCheck.findMany({
+    where: { appId, checkedAt: { gte: new Date(now - periodMs) } },
+    orderBy: { checkedAt: 'asc' },
+  })
+
+  const checks = rows.map((row) => ({
+    checkedAt: row.checkedAt.toISOString(),
+    status: row.status as HealthStatus,
+    latency: row.latency,
+    error: row.error,
+  }))
+  const available = checks.filter((check) => check.status === 'up' || check.status === 'degraded').length
+
+  return {
+    checks,
+    uptime: checks.length > 0 ? Math.round((available / checks.length) * 10000) / 100 : null,
+  }
+}
+
+/**
+ * Supprime l'historique plus ancien que HEALTH_HISTORY_RETENTION
+ *
+ * @param now - Date de référence (ms)
+ */
+export async function pruneHealthHistory(now: number = Date.now()): Promise<void> {
+  await prisma.healthCheck.deleteMany({
+    where: { checkedAt: { lt: new Date(now - HEALTH_HISTORY_RETENTION) } },
+  })
+}
+
+/**
+ * Démarre le planificateur (une seule fois par processus)
+ */
+export function startHealthChecks(): void {
+  if (state.timer) {
+    return
+  }
+
+  const tick = () => {
+    checkDueApps().catch((error) => {
+      console.error('[Health] Erreur du planificateur de vérifications:', error)
+    })
+  }
+
+  const prune = () => {
+    pruneHealthHistory().catch((error) => {
+      console.error('[Health] Erreur lors de la suppression de l\'historique:', error)
+    })
+  }
+
+  state.timer = setInterval(tick, TICK_INTERVAL)
+  state.pruneTimer = setInterval(prune, PRUNE_INTERVAL)
+  // Ne pas empêcher l'arrêt du processus
+  state.timer.unref?.()
+  state.pruneTimer.unref?.()
+  tick()
+  prune()
+}
+
+/**
+ * Arrête le planificateur et oublie les derniers résultats (tests)
+ */
+export function stopHealthChecks(): void {
+  if (state.timer) {
+    clearInterval(state.timer)
+    state.timer = null
+  }
+  if (state.pruneTimer) {
+    clearInterval(state.pruneTimer)
+    state.pruneTimer = null
+  }
+  latest.clear()
+  running.clear()
+}
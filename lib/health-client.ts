@@ -0,0 +1,101 @@
+/**
+ * État de disponibilité des applications (côté client)
+ *
+ * Les derniers résultats sont chargés une seule fois pour toutes les cartes
+ * (GET /api/health-checks), puis mis à jour par les événements `health` du
+ * flux temps réel. Quand le flux est interrompu, les résultats sont
+ * rechargés périodiquement.
+ */
+
+'use client'
+
+import { useState, useEffect } from 'react'
+import type { HealthCheckResult } from './health-checks'
+import { useLiveEvents } from './live-events'
+
+/**
+ * Intervalle de rechargement quand le flux temps réel est interrompu (ms)
+ */
+const POLL_INTERVAL = 60000
+
+/**
+ * Délai minimal entre deux chargements, partagé par toutes les cartes (ms)
+ */
+const MIN_FETCH_INTERVAL = 30000
+
+const results = new Map<string, HealthCheckResult>()
+const subscribers = new Set<() => void>()
+let lastFetchAt = 0
+let inFlight: Promise<void> | null = null
+
+/**
+ * Enregistre un résultat et prévient les cartes abonnées
+ */
+function setResult(result: HealthCheckResult): void {
+  results.set(result.appId, result)
+  subscribers.forEach((subscriber) => subscriber())
+}
+
+/**
+ * Charge les derniers résultats de toutes les applications
+ * Les appels rapprochés (une carte par application) partagent le même chargement.
+ */
+function refreshHealthResults(): Promise<void> {
+  if (inFlight) {
+    return inFlight
+  }
+  if (Date.now() - lastFetchAt < MIN_FETCH_INTERVAL) {
+    return Promise.resolve()
+  }
+
+  lastFetchAt = Date.now()
+  inFlight = fetch('/api/health-checks')
+    .then((response) => (response.ok ? response.json() : null))
+    .then((data: { results?: HealthCheckResult[] } | null) => {
+      data?.results?.forEach(setResult)
+    })
+    .catch((error) => {
+      console.warn('Impossible de charger l\'état des applications:', error)
+    })
+    .finally(() => {
+      inFlight = null
+    })
+  return inFlight
+}
+
+/**
+ * Hook React pour suivre la disponibilité d'une application
+ *
+ * @param appId - ID de l'application
+ * @returns Le dernier résultat de vérification, null avant la première vérification
+ */
+export function useAppHealth(appId: string): HealthCheckResult | null {
+  const [result, setLocalResult] = useState<HealthCheckResult | null>(() => results.get(appId) ?? null)
+
+  const connected = useLiveEvents((event) => {
+    if (event.type === 'health' && event.result.appId === appId) {
+      setResult(event.result)
+    }
+  })
+
+  useEffect(() => {
+    const subscriber = () => setLocalResult(results.get(appId) ?? null)
+    subscribers.add(subscriber)
+    refreshHealthResults()
+
+    return () => {
+      subscribers.delete(subscriber)
+    }
+  }, [appId])
+
+  // Sans flux temps réel, recharger périodiquement
+  useEffect(() => {
+    if (connected) {
+      return
+    }
+    const interval = setInterval(refreshHealthResults, POLL_INTERVAL)
+    return () => clearInterval(interval)
+  }, [connected])
+
+  return result
+}
@@ -0,0 +1,242 @@
+/**
+ * Store JSONDB
+ *
+ * Persiste les applications, widgets et la configuration dans les fichiers
+ * data/apps.json, data/widgets.json, data/config.json et data/dashboards.json. La version du schéma
+ * des données (voir lib/migrations.ts) est conservée dans data/schema.json.
+ *
+ * Utilisé lorsque DATA_STORE=json, et comme source de l'import
+ * vers la base Prisma (voir lib/legacy-import.ts).
+ *
+ * Chaque fichier est protégé par un verrou en mémoire : les cycles
+ * lecture-modification-écriture (saveApp, deleteApp, ...) ne peuvent pas
+ * s'entrelacer au sein du processus.
+ */
+
+import path from 'path'
+import type { App, Widget, AppConfig, Dashboard } from './types'
+import type { DataStore } from './data-store'
+import { withFileLock, readJsonWithBackup, writeJsonWithBackup } from './atomic-json-file'
+import { prisma } from './prisma'
+import { REPLACE_ALL_TIMEOUT } from './prisma-store'
+
+// Chemin vers les fichiers de données
+export const DATA_DIR = path.join(process.cwd(), 'data')
+export const APPS_FILE = path.join(DATA_DIR, 'apps.json')
+export const WIDGETS_FILE = path.join(DATA_DIR, 'widgets.json')
+export const CONFIG_FILE = path.join(DATA_DIR, 'config.json')
+export const DASHBOARDS_FILE = path.join(DATA_DIR, 'dashboards.json')
+export const SCHEMA_FILE = path.join(DATA_DIR, 'schema.json')
+
+/**
+ * Valide que des données parsées sont un tableau
+ *
+ * @throws Error si les données ne sont pas un tableau
+ */
+function validateArray<T>(data: unknown): T[] {
+  if (!Array.isArray(data)) {
+    throw new Error('Les données doivent être un tableau')
+  }
+  return data as T[]
+}
+
+/**
+ * Valide que des données parsées sont un objet de configuration
+ *
+ * @throws Error si les données ne sont pas un objet
+ */
+function validateConfig(data: unknown): Partial<AppConfig> {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    throw new Error('Les données doivent être un objet')
+  }
+  return data as Partial<AppConfig>
+}
+
+/**
+ * Lit un fichier JSON contenant un tableau
+ *
+ * Si le fichier est corrompu, la sauvegarde valide la plus récente est utilisée.
+ *
+ * @param filePath - Chemin du fichier
+ * @returns Promise<T[]> - Contenu du fichier, tableau vide si le fichier n'existe pas
+ * @throws Error si ni le fichier ni ses sauvegardes ne sont exploitables
+ */
+async function readArrayFile<T>(filePath: string): Promise<T[]> {
+  return (await readJsonWithBackup(filePath, validateArray<T>)) ?? []
+}
+
+/**
+ * Écrit un contenu JSON dans un fichier du dossier data/
+ *
+ * L'écriture est atomique et l'ancien contenu est conservé en sauvegarde.
+ *
+ * @param filePath - Chemin du fichier
+ * @param data - Données à sérialiser
+ * @param errorLabel - Libellé utilisé dans le message d'erreur
+ * @throws Error si le fichier ne peut pas être écrit
+ */
+async function writeJsonFile(filePath: string, data: unknown, errorLabel: string): Promise<void> {
+  try {
+    await writeJsonWithBackup(filePath, data)
+  } catch (error) {
+    // Propager l'erreur avec un message plus clair
+    throw new Error(`Impossible d'écrire ${errorLabel} : ${error}`)
+  }
+}
+
+/**
+ * Applique un nouvel ordre aux éléments dont l'ID est fourni
+ */
+function applyOrder<T extends { id: string; order?: number }>(items: T[], ids: string[]): T[] {
+  const positions = new Map(ids.map((id, index) => [id, index]))
+  return items.map((item) =>
+    positions.has(item.id) ? { ...item, order: positions.get(item.id) } : item
+  )
+}
+
+/**
+ * Lit la configuration brute depuis data/config.json
+ *
+ * @returns Promise<Partial<AppConfig> | null> - Configuration ou null si le fichier n'existe pas
+ */
+async function readConfigFile(): Promise<Partial<AppConfig> | null> {
+  return readJsonWithBackup(CONFIG_FILE, validateConfig)
+}
+
+/**
+ * Valide que des données parsées décrivent une version de schéma
+ *
+ * @throws Error si la version n'est pas un entier positif
+ */
+function validateSchema(data: unknown): { schemaVersion: number } {
+  const version = (data as { schemaVersion?: unknown } | null)?.schemaVersion
+  if (!Number.isInteger(version) || (version as number) < 0) {
+    throw new Error('schemaVersion doit être un entier positif')
+  }
+  return { schemaVersion: version as number }
+}
+
+/**
+ * Store basé sur les fichiers JSON du dossier data/
+ */
+export const jsonStore: DataStore = {
+  kind: 'json',
+
+  readApps: () => readArrayFile<App>(APPS_FILE),
+
+  writeApps: (apps) =>
+    withFileLock(APPS_FILE, () => writeJsonFile(APPS_FILE, apps, 'les données')),
+
+  saveApp: (app) =>
+    withFileLock(APPS_FILE, async () => {
+      const apps = await readArrayFile<App>(APPS_FILE)
+      const index = apps.findIndex((a) => a.id === app.id)
+      if (index === -1) {
+        apps.push(app)
+      } else {
+        apps[index] = app
+      }
+      await writeJsonFile(APPS_FILE, apps, 'les données')
+    }),
+
+  deleteApp: (id) =>
+    withFileLock(APPS_FILE, async () => {
+      const apps = await readArrayFile<App>(APPS_FILE)
+      const remaining = apps.filter((a) => a.id !== id)
+      if (remaining.length === apps.length) {
+        return false
+      }
+      await writeJsonFile(APPS_FILE, remaining, 'les données')
+      return true
+    }),
+
+  reorderApps: (appIds) =>
+    withFileLock(APPS_FILE, async () => {
+      const apps = await readArrayFile<App>(APPS_FILE)
+      await writeJsonFile(APPS_FILE, applyOrder(apps, appIds), 'les données')
+    }),
+
+  readWidgets: () => readArrayFile<Widget>(WIDGETS_FILE),
+
+  writeWidgets: (widgets) =>
+    withFileLock(WIDGETS_FILE, () => writeJsonFile(WIDGETS_FILE, widgets, 'les données')),
+
+  saveWidget: (widget) =>
+    withFileLock(WIDGETS_FILE, async () => {
+      const widgets = await readArrayFile<Widget>(WIDGETS_FILE)
+      const index = widgets.findIndex((w) => w.id === widget.id)
+      if (index === -1) {
+        widgets.push(widget)
+      } else {
+        widgets[index] = widget
+      }
+      await writeJsonFile(WIDGETS_FILE, widgets, 'les données')
+    }),
+
+  deleteWidget: (id) =>
+    withFileLock(WIDGETS_FILE, async () => {
+      const widgets = await readArrayFile<Widget>(WIDGETS_FILE)
+      const remaining = widgets.filter((w) => w.id !== id)
+      if (remaining.length === widgets.length) {
+        return false
+      }
+      await writeJsonFile(WIDGETS_FILE, remaining, 'les données')
+      return true
+    }),
+
+  reorderWidgets: (widgetIds) =>
+    withFileLock(WIDGETS_FILE, async () => {
+      const widgets = await readArrayFile<Widget>(WIDGETS_FILE)
+      await writeJsonFile(WIDGETS_FILE, applyOrder(widgets, widgetIds), 'les données')
+    }),
+
+  readConfig: readConfigFile,
+
+  writeConfig: (config) =>
+    withFileLock(CONFIG_FILE, () => writeJsonFile(CONFIG_FILE, config, 'la configuration')),
+
+  readDashboards: () => readArrayFile<Dashboard>(DASHBOARDS_FILE),
+
+  saveDashboard: (dashboard) =>
+    withFileLock(DASHBOARDS_FILE, async () => {
+      const dashboards = await readArrayFile<Dashboard>(DASHBOARDS_FILE)
+      const index = dashboards.findIndex((d) => d.id === dashboard.id)
+      if (index === -1) {
+        dashboards.push(dashboard)
+      } else {
+        dashboards[index] = dashboard
+      }
+      await writeJsonFile(DASHBOARDS_FILE, dashboards, 'les tableaux de bord')
+    }),
+
+  deleteDashboard: (id) =>
+    withFileLock(DASHBOARDS_FILE, async () => {
+      const dashboards = await readArrayFile<Dashboard>(DASHBOARDS_FILE)
+      const remaining = dashboards.filter((d) => d.id !== id)
+      if (remaining.length === dashboards.length) {
+        return false
+      }
+      await writeJsonFile(DASHBOARDS_FILE, remaining, 'les tableaux de bord')
+      return true
+    }),
+
+  replaceAll: async (data, writeDatabase) => {
+    // Les fichiers ne peuvent pas rejoindre la transaction : ils ne sont écrits
+    // (chacun de façon atomique) qu'une fois la base mise à jour
+    await prisma.$transaction(writeDatabase, { timeout: REPLACE_ALL_TIMEOUT })
+    await withFileLock(DASHBOARDS_FILE, () =>
+      writeJsonFile(DASHBOARDS_FILE, data.dashboards, 'les tableaux de bord')
+    )
+    await withFileLock(APPS_FILE, () => writeJsonFile(APPS_FILE, data.apps, 'les données'))
+    await withFileLock(WIDGETS_FILE, () => writeJsonFile(WIDGETS_FILE, data.widgets, 'les données'))
+    await withFileLock(CONFIG_FILE, () => writeJsonFile(CONFIG_FILE, data.config, 'la configuration'))
+  },
+
+  readSchemaVersion: async () =>
+    (await readJsonWithBackup(SCHEMA_FILE, validateSchema))?.schemaVersion ?? 0,
+
+  writeSchemaVersion: (version) =>
+    withFileLock(SCHEMA_FILE, () =>
+      writeJsonFile(SCHEMA_FILE, { schemaVersion: version }, 'la version du schéma')
+    ),
+}
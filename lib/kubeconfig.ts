@@ -0,0 +1,197 @@
+/**
+ * Lecture d'un fichier kubeconfig (carte Kubernetes)
+ *
+ * Résout le contexte choisi (ou current-context) en paramètres de connexion :
+ * - cluster : URL de l'API, autorité de certification (certificate-authority-data
+ *   ou fichier certificate-authority), tls-server-name, insecure-skip-tls-verify
+ * - utilisateur : token, tokenFile, certificat client (client-certificate-data /
+ *   client-key-data ou fichiers), ou username/password
+ *
+ * Les authentifications exec et auth-provider (commande externe) ne sont pas
+ * supportées. Les fichiers référencés ne sont lus que dans le dossier
+ * KUBECONFIG_DIR (chemins relatifs résolus depuis ce dossier) : le kubeconfig
+ * est saisi dans le dashboard et ne doit pas pouvoir lire les autres fichiers
+ * du serveur (.env, base SQLite...). Côté serveur uniquement.
+ */
+
+import { promises as fs } from 'fs'
+import path from 'path'
+import { parse } from 'yaml'
+import type { UpstreamTlsOptions } from './upstream-client'
+
+/**
+ * Paramètres de connexion résolus depuis un kubeconfig
+ */
+export interface KubeconfigConnection {
+  // Nom du contexte utilisé
+  context: string
+  // URL de l'API du cluster (clusters[].cluster.server)
+  server?: string
+  // Token Bearer (token ou contenu de tokenFile)
+  token?: string
+  // Authentification Basic
+  username?: string
+  password?: string
+  // Autorité de certification, certificat client et vérification du serveur
+  tls: UpstreamTlsOptions
+}
+
+/**
+ * Entrée nommée d'une liste du kubeconfig (clusters, users, contexts)
+ */
+interface NamedEntry<T> {
+  name?: string
+  cluster?: T
+  user?: T
+  context?: T
+}
+
+interface KubeconfigCluster {
+  'server'?: string
+  'certificate-authority'?: string
+  'certificate-authority-data'?: string
+  'tls-server-name'?: string
+  'insecure-skip-tls-verify'?: boolean
+}
+
+interface KubeconfigUser {
+  'token'?: string
+  'tokenFile'?: string
+  'client-certificate'?: string
+  'client-certificate-data'?: string
+  'client-key'?: string
+  'client-key-data'?: string
+  'username'?: string
+  'password'?: string
+  'exec'?: unknown
+  'auth-provider'?: unknown
+}
+
+interface KubeconfigContext {
+  cluster?: string
+  user?: string
+}
+
+interface Kubeconfig {
+  'current-context'?: string
+  'clusters'?: NamedEntry<KubeconfigCluster>[]
+  'users'?: NamedEntry<KubeconfigUser>[]
+  'contexts'?: NamedEntry<KubeconfigContext>[]
+}
+
+/**
+ * Indique si un chemin absolu est dans un dossier (ou est ce dossier)
+ */
+function isInsideDirectory(file: string, directory: string): boolean {
+  const relative = path.relative(directory, file)
+  return relative !== '..' && !relative.startsWith(`..${path.sep}`) && !path.isAbsolute(relative)
+}
+
+/**
+ * Lit un fichier référencé par le kubeconfig
+ *
+ * Seuls les fichiers de KUBECONFIG_DIR sont lus, liens symboliques résolus.
+ * Le message d'erreur est le même pour un fichier refusé, absent ou illisible :
+ * il ne révèle pas l'existence des fichiers du serveur.
+ *
+ * @param file - Chemin absolu, ou relatif à KUBECONFIG_DIR
+ * @param field - Champ du kubeconfig, pour le message d'erreur
+ */
+async function readReferencedFile(file: string, field: string): Promise<string> {
+  const error = new Error(`kubeconfig : fichier ${field} refusé ou illisible (seuls les fichiers du dossier KUBECONFIG_DIR sont lus)`)
+  const directory = process.env.KUBECONFIG_DIR
+  if (!directory || !isInsideDirectory(path.resolve(directory, file), path.resolve(directory))) {
+    throw error
+  }
+
+  try {
+    const root = await fs.realpath(directory)
+    const resolved = await fs.realpath(path.resolve(root, file))
+    if (!isInsideDirectory(resolved, root)) {
+      throw error
+    }
+    return await fs.readFile(resolved, 'utf-8')
+  } catch {
+    throw error
+  }
+}
+
+/**
+ * Valeur d'un champ fourni en base64 (champ "-data") ou en fichier
+ */
+async function readDataOrFile(data: string | undefined, file: string | undefined, field: string): Promise<string | undefined> {
+  if (data) {
+    return Buffer.from(data, 'base64').toString('utf-8')
+  }
+  if (file) {
+    return readReferencedFile(file, field)
+  }
+  return undefined
+}
+
+/**
+ * Résout un kubeconfig en paramètres de connexion
+ *
+ * @param content - Contenu YAML du kubeconfig
+ * @param contextName - Contexte à utiliser (défaut : current-context, ou l'unique contexte)
+ * @returns Les paramètres de connexion du contexte
+ * @throws Error avec un message explicite si le kubeconfig est invalide ou incomplet
+ */
+export async function resolveKubeconfig(content: string, contextName?: string): Promise<KubeconfigConnection> {
+  let config: Kubeconfig
+  try {
+    config = parse(content) ?? {}
+  } catch (error) {
+    throw new Error(`kubeconfig : YAML invalide (${error instanceof Error ? error.message : String(error)})`)
+  }
+  if (typeof config !== 'object' || Array.isArray(config)) {
+    throw new Error('kubeconfig : YAML invalide (objet attendu)')
+  }
+
+  const contexts = config.contexts ?? []
+  const name = contextName || config['current-context'] || (contexts.length === 1 ? contexts[0].name : undefined)
+  if (!name) {
+    throw new Error('kubeconfig : aucun contexte sélectionné (current-context absent)')
+  }
+  const context = contexts.find((entry) => entry.name === name)?.context
+  if (!context) {
+    const available = contexts.map((entry) => entry.name).filter(Boolean).join(', ')
+    throw new Error(`kubeconfig : contexte "${name}" introuvable${available ? ` (contextes disponibles : ${available})` : ''}`)
+  }
+
+  const cluster = config.clusters?.find((entry) => entry.name === context.cluster)?.cluster
+  if (!cluster) {
+    throw new Error(`kubeconfig : cluster "${context.cluster ?? ''}" du contexte "${name}" introuvable`)
+  }
+  const user = context.user
+    ? config.users?.find((entry) => entry.name === context.user)?.user
+    : undefined
+  if (context.user && !user) {
+    throw new Error(`kubeconfig : utilisateur "${context.user}" du contexte "${name}" introuvable`)
+  }
+  if (user?.exec || user?.['auth-provider']) {
+    throw new Error('kubeconfig : authentification par commande externe (exec, auth-provider) non supportée, utilisez un token ou un certificat client')
+  }
+
+  const tls: UpstreamTlsOptions = {
+    ca: await readDataOrFile(cluster['certificate-authority-data'], cluster['certificate-authority'], 'certificate-authority'),
+    servername: cluster['tls-server-name'],
+    skipVerify: cluster['insecure-skip-tls-verify'] === true || undefined,
+    cert: await readDataOrFile(user?.['client-certificate-data'], user?.['client-certificate'], 'client-certificate'),
+    key: await readDataOrFile(user?.['client-key-data'], user?.['client-key'], 'client-key'),
+  }
+  if (Boolean(tls.cert) !== Boolean(tls.key)) {
+    throw new Error('kubeconfig : le certificat client et sa clé doivent être fournis ensemble')
+  }
+
+  const token = user?.token || (user?.tokenFile ? (await readReferencedFile(user.tokenFile, 'tokenFile')).trim() : undefined)
+
+  return {
+    context: name,
+    server: cluster.server?.replace(/\/$/, ''),
+    token,
+    username: user?.username,
+    password: user?.password,
+    tls,
+  }
+}
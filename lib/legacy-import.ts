@@ -0,0 +1,110 @@
+/**
+ * Import unique des anciens fichiers JSON vers la base Prisma
+ *
+ * Avant le passage à SQLite, les applications, widgets et la configuration
+ * étaient stockés dans data/apps.json, data/widgets.json et data/config.json.
+ *
+ * Au premier accès au store Prisma, si la base ne contient encore aucune
+ * donnée du dashboard, le contenu de ces fichiers est importé tel quel
+ * (les champs sensibles restent chiffrés avec la même ENCRYPTION_KEY),
+ * puis chaque fichier est renommé en `*.imported` pour ne pas être réimporté.
+ */
+
+import { promises as fs } from 'fs'
+import { prisma } from './prisma'
+import { jsonStore, APPS_FILE, WIDGETS_FILE, CONFIG_FILE } from './json-store'
+import { prismaStore } from './prisma-store'
+import type { AppConfig } from './types'
+import { defaultStylePreset } from './style-presets'
+
+/**
+ * Résultat d'un import
+ */
+export interface LegacyImportResult {
+  /** true si un import a réellement été effectué */
+  imported: boolean
+  /** Nombre d'applications importées */
+  apps: number
+  /** Nombre de widgets importés */
+  widgets: number
+  /** true si la configuration a été importée */
+  config: boolean
+}
+
+/**
+ * Vérifie si la base Prisma contient déjà des données du dashboard
+ */
+async function hasDatabaseData(): Promise<boolean> {
+  const [appCount, widgetCount, configCount] = await Promise.all([
+    prisma.app.count(),
+    prisma.widget.count(),
+    prisma.appConfig.count(),
+  ])
+  return appCount > 0 || widgetCount > 0 || configCount > 0
+}
+
+/**
+ * Renomme un fichier importé en `*.imported` (ignore les fichiers absents)
+ */
+async function markAsImported(filePath: string): Promise<void> {
+  try {
+    await fs.rename(filePath, `${filePath}.imported`)
+  } catch (error: any) {
+    if (error.code !== 'ENOENT') {
+      throw error
+    }
+  }
+}
+
+/**
+ * Importe les fichiers JSON historiques dans la base Prisma
+ *
+ * L'import n'a lieu que si la base est vide, il est donc sans effet
+ * lors des démarrages suivants.
+ *
+ * @returns Promise<LegacyImportResult> - Résumé de l'import
+ */
+export async function importLegacyJsonData(): Promise<LegacyImportResult> {
+  const result: LegacyImportResult = { imported: false, apps: 0, widgets: 0, config: false }
+
+  const [apps, widgets, config] = await Promise.all([
+    jsonStore.readApps(),
+    jsonStore.readWidgets(),
+    jsonStore.readConfig(),
+  ])
+
+  // Rien à importer
+  if (apps.length === 0 && widgets.length === 0 && !config) {
+    return result
+  }
+
+  if (await hasDatabaseData()) {
+    console.warn(
+      '[DB] Des fichiers JSON historiques sont présents dans data/ mais la base contient déjà des données : import ignoré.'
+    )
+    return result
+  }
+
+  console.log(
+    `[DB] Import des fichiers JSON historiques : ${apps.length} application(s), ${widgets.length} widget(s)`
+  )
+
+  await prismaStore.writeApps(apps)
+  await prismaStore.writeWidgets(widgets)
+  if (config) {
+    const fullConfig: AppConfig = {
+      ...config,
+      backgroundEffect: config.backgroundEffect || 'mesh-animated',
+      stylePreset: config.stylePreset || defaultStylePreset,
+    }
+    await prismaStore.writeConfig(fullConfig)
+  }
+
+  await Promise.all([
+    markAsImported(APPS_FILE),
+    markAsImported(WIDGETS_FILE),
+    markAsImported(CONFIG_FILE),
+  ])
+
+  return { imported: true, apps: apps.length, widgets: widgets.length, config: !!config }
+}
@@ -0,0 +1,169 @@
+/**
+ * Abonnement aux mises à jour temps réel du dashboard (côté client)
+ *
+ * Une seule connexion Server-Sent Events (GET /api/events) est ouverte par
+ * onglet, partagée par tous les composants abonnés et fermée quand plus aucun
+ * composant ne l'utilise.
+ *
+ * Les composants utilisent l'état `connected` pour revenir à leur
+ * rafraîchissement périodique quand le flux est interrompu.
+ */
+
+'use client'
+
+import { useState, useEffect, useRef } from 'react'
+import type { DashboardEvent } from './events'
+
+/**
+ * Types d'événements transmis par le serveur (voir lib/events.ts)
+ */
+const EVENT_TYPES: DashboardEvent['type'][] = ['stats', 'app-status', 'config', 'health', 'alert']
+
+/**
+ * Délai avant de rouvrir un flux fermé par le serveur (ms)
+ */
+const RECONNECT_DELAY = 10000
+
+/**
+ * Dernières statistiques reçues pour une application
+ */
+export interface LiveStats {
+  data: unknown
+  receivedAt: number
+}
+
+const listeners = new Set<(event: DashboardEvent) => void>()
+const connectionListeners = new Set<(connected: boolean) => void>()
+let source: EventSource | null = null
+let connected = false
+let reconnectTimer: ReturnType<typeof setTimeout> | null = null
+
+/**
+ * Met à jour l'état de la connexion et prévient les abonnés
+ */
+function setConnected(value: boolean): void {
+  if (connected !== value) {
+    connected = value
+    connectionListeners.forEach((listener) => listener(value))
+  }
+}
+
+/**
+ * Ouvre le flux d'événements s'il ne l'est pas déjà
+ */
+function connect(): void {
+  if (source || typeof window === 'undefined' || typeof EventSource === 'undefined') {
+    return
+  }
+
+  source = new EventSource('/api/events')
+  source.onopen = () => setConnected(true)
+  source.onerror = () => {
+    setConnected(false)
+    // Le navigateur se reconnecte seul, sauf si le serveur a refusé le flux
+    if (source?.readyState === EventSource.CLOSED) {
+      source = null
+      reconnectTimer = setTimeout(() => {
+        reconnectTimer = null
+        if (listeners.size > 0) {
+          connect()
+        }
+      }, RECONNECT_DELAY)
+    }
+  }
+
+  for (const type of EVENT_TYPES) {
+    source.addEventListener(type, (message) => {
+      try {
+        const event: DashboardEvent = JSON.parse((message as MessageEvent<string>).data)
+        listeners.forEach((listener) => listener(event))
+      } catch (error) {
+        console.warn('Événement temps réel invalide:', error)
+      }
+    })
+  }
+}
+
+/**
+ * Ferme le flux d'événements
+ */
+function disconnect(): void {
+  if (reconnectTimer) {
+    clearTimeout(reconnectTimer)
+    reconnectTimer = null
+  }
+  source?.close()
+  source = null
+  setConnected(false)
+}
+
+/**
+ * S'abonne aux événements du dashboard
+ *
+ * @param listener - Fonction appelée pour chaque événement
+ * @returns Fonction de désabonnement
+ */
+export function subscribeLiveEvents(listener: (event: DashboardEvent) => void): () => void {
+  listeners.add(listener)
+  connect()
+
+  return () => {
+    listeners.delete(listener)
+    if (listeners.size === 0) {
+      disconnect()
+    }
+  }
+}
+
+/**
+ * Hook React pour recevoir les événements du dashboard
+ *
+ * @param onEvent - Fonction appelée pour chaque événement
+ * @returns true si le flux est ouvert, false s'il faut rafraîchir par scrutation
+ *
+ * @example
+ * ```tsx
+ * const connected = useLiveEvents((event) => {
+ *   if (event.type === 'config') loadApps()
+ * })
+ * ```
+ */
+export function useLiveEvents(onEvent: (event: DashboardEvent) => void): boolean {
+  const [isConnected, setIsConnected] = useState(connected)
+  const onEventRef = useRef(onEvent)
+
+  useEffect(() => {
+    onEventRef.current = onEvent
+  }, [onEvent])
+
+  useEffect(() => {
+    connectionListeners.add(setIsConnected)
+    const unsubscribe = subscribeLiveEvents((event) => onEventRef.current(event))
+
+    return () => {
+      connectionListeners.delete(setIsConnected)
+      unsubscribe()
+    }
+  }, [])
+
+  return isConnected
+}
+
+/**
+ * Hook React pour recevoir les statistiques d'une application
+ *
+ * @param appId - ID de l'application
+ * @returns Les dernières statistiques reçues (null avant la première) et l'état du flux
+ */
+export function useLiveStats(appId: string): { live: LiveStats | null; connected: boolean } {
+  const [live, setLive] = useState<LiveStats | null>(null)
+
+  const isConnected = useLiveEvents((event) => {
+    // Les erreurs restent gérées par le rafraîchissement des composants
+    if (event.type === 'stats' && event.appId === appId && event.status === 200) {
+      setLive({ data: event.body, receivedAt: Date.now() })
+    }
+  })
+
+  return { live, connected: isConnected }
+}
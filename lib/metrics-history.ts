@@ -0,0 +1,321 @@
+/**
+ * Historique des métriques des cartes
+ *
+ * Les valeurs numériques des statistiques collectées par le serveur
+ * (voir lib/stats-poller.ts) sont enregistrées dans la base Prisma
+ * (table Metric), quel que soit le store utilisé pour les données du
+ * dashboard : l'historique est le même pour tous les utilisateurs et
+ * tous les navigateurs.
+ *
+ * Politique de rétention (appliquée par compactMetrics) :
+ * - valeurs brutes conservées RAW_RETENTION (2 jours)
+ * - puis moyennées par heure, conservées HOURLY_RETENTION (30 jours)
+ * - puis moyennées par jour, conservées METRICS_RETENTION_DAYS (365 jours par défaut)
+ */
+
+import { prisma } from './prisma'
+import type { Prisma, Metric as MetricRow } from '@prisma/client'
+
+/**
+ * Résolution d'une entrée de métrique
+ * - raw : valeur collectée
+ * - hour / day : moyenne des valeurs de l'heure / du jour
+ */
+export type MetricResolution = 'raw' | 'hour' | 'day'
+
+/**
+ * Interface pour une entrée de métrique
+ */
+export interface MetricEntry {
+  /** ID de l'application */
+  appId: string
+  /** ID du template de stats */
+  templateId: string
+  /** Clé de la métrique (ex: 'totalMovies', 'totalShows') */
+  key: string
+  /** Valeur de la métrique */
+  value: number
+  /** Timestamp de la métrique en millisecondes (début de l'intervalle pour une moyenne) */
+  timestamp: number
+  /** Résolution de l'entrée (raw si absente) */
+  resolution?: MetricResolution
+}
+
+/**
+ * Point d'une série retournée par l'API
+ */
+export interface MetricPoint {
+  timestamp: number
+  value: number
+}
+
+const HOUR = 60 * 60 * 1000
+const DAY = 24 * HOUR
+
+/**
+ * Durée de chaque résolution
+ */
+const RESOLUTION_DURATION: Record<MetricResolution, number> = {
+  raw: 0,
+  hour: HOUR,
+  day: DAY,
+}
+
+/**
+ * Durée de conservation des valeurs brutes
+ */
+export const RAW_RETENTION = 2 * DAY
+
+/**
+ * Durée de conservation des moyennes horaires
+ */
+export const HOURLY_RETENTION = 30 * DAY
+
+/**
+ * Durée de conservation par défaut de l'historique (jours)
+ */
+export const DEFAULT_METRICS_RETENTION_DAYS = 365
+
+/**
+ * Période par défaut de l'historique retourné par l'API
+ */
+export const DEFAULT_METRICS_PERIOD = '7d'
+
+/**
+ * Récupère la durée de conservation de l'historique en jours
+ * (variable d'environnement METRICS_RETENTION_DAYS)
+ */
+export function getMetricsRetentionDays(): number {
+  const days = parseInt(process.env.METRICS_RETENTION_DAYS || '', 10)
+  return Number.isFinite(days) && days > 0 ? days : DEFAULT_METRICS_RETENTION_DAYS
+}
+
+/**
+ * Extrait les valeurs numériques de premier niveau des statistiques d'une carte
+ *
+ * @param stats - Statistiques retournées par le handler de la carte
+ * @returns Record<string, number> - Valeurs par clé (ex: { totalMovies: 120 })
+ */
+export function extractMetricValues(stats: unknown): Record<string, number> {
+  const values: Record<string, number> = {}
+
+  if (typeof stats !== 'object' || stats === null || Array.isArray(stats)) {
+    return values
+  }
+
+  for (const [key, value] of Object.entries(stats)) {
+    if (typeof value === 'number' && Number.isFinite(value)) {
+      values[key] = value
+    }
+  }
+  return values
+}
+
+/**
+ * Enregistre les valeurs numériques des statistiques d'une application
+ *
+ * @param appId - ID de l'application
+ * @param templateId - ID du template de stats
+ * @param stats - Statistiques retournées par le handler de la carte
+ * @param timestamp - Date de la collecte (ms)
+ * @returns Promise<number> - Nombre de valeurs enregistrées
+ */
+export async function recordMetrics(
+  appId: string,
+  templateId: string,
+  stats: unknown,
+  timestamp: number = Date.now()
+): Promise<number> {
+  const values = Object.entries(extractMetricValues(stats))
+  if (values.length === 0) {
+    return 0
+  }
+
+  await prisma.metric.createMany({
+    data: values.map(([key, value]) => ({
+      appId,
+      templateId,
+      key,
+      value,
+      timestamp: new Date(timestamp),
+      resolution: 'raw',
+    })),
+  })
+  return values.length
+}
+
+/**
+ * Convertit une ligne de la base en entrée de métrique
+ */
+function toMetricEntry(row: MetricRow): MetricEntry {
+  return {
+    appId: row.appId,
+    templateId: row.templateId,
+    key: row.key,
+    value: row.value,
+    timestamp: new Date(row.timestamp).getTime(),
+    resolution: row.resolution as MetricResolution,
+  }
+}
+
+/**
+ * Moyenne des entrées par intervalle de temps
+ *
+ * @param entries - Entrées d'une ou plusieurs séries
+ * @param duration - Durée d'un intervalle (ms)
+ * @returns MetricEntry[] - Une entrée par série et par intervalle, horodatée au début de l'intervalle
+ */
+function averageByBucket(entries: MetricEntry[], duration: number): MetricEntry[] {
+  const buckets = new Map<string, { entry: MetricEntry; sum: number; count: number }>()
+
+  for (const entry of entries) {
+    const start = Math.floor(entry.timestamp / duration) * duration
+    const bucketKey = `${entry.appId}\u0000${entry.templateId}\u0000${entry.key}\u0000${start}`
+    const bucket = buckets.get(bucketKey)
+    if (bucket) {
+      bucket.sum += entry.value
+      bucket.count += 1
+    } else {
+      buckets.set(bucketKey, { entry: { ...entry, timestamp: start }, sum: entry.value, count: 1 })
+    }
+  }
+
+  return Array.from(buckets.values(), ({ entry, sum, count }) => ({ ...entry, value: sum / count }))
+}
+
+/**
+ * Remplace les entrées d'une résolution antérieures à `before` par leur moyenne
+ * Seuls les intervalles complets sont agrégés.
+ */
+async function downsample(from: MetricResolution, to: MetricResolution, before: number): Promise<void> {
+  const duration = RESOLUTION_DURATION[to]
+  const cutoff = new Date(Math.floor(before / duration) * duration)
+
+  const rows: MetricRow[] = await prisma.metric.findMany({
+    where: { resolution: from, timestamp: { lt: cutoff } },
+  })
+  if (rows.length === 0) {
+    return
+  }
+
+  const averages = averageByBucket(rows.map(toMetricEntry), duration)
+
+  await prisma.$transaction([
+    prisma.metric.deleteMany({ where: { id: { in: rows.map((row) => row.id) } } }),
+    prisma.metric.createMany({
+      data: averages.map((entry) => ({
+        appId: entry.appId,
+        templateId: entry.templateId,
+        key: entry.key,
+        value: entry.value,
+        timestamp: new Date(entry.timestamp),
+        resolution: to,
+      })),
+    }),
+  ])
+}
+
+/**
+ * Applique la politique de rétention : agrégation des anciennes valeurs
+ * puis suppression de l'historique trop ancien
+ *
+ * @param now - Date de référence (ms)
+ */
+export async function compactMetrics(now: number = Date.now()): Promise<void> {
+  await downsample('raw', 'hour', now - RAW_RETENTION)
+  await downsample('hour', 'day', now - HOURLY_RETENTION)
+  await prisma.metric.deleteMany({
+    where: { timestamp: { lt: new Date(now - getMetricsRetentionDays() * DAY) } },
+  })
+}
+
+/**
+ * Convertit une période ('24h', '7d', '30d', ...) en millisecondes
+ *
+ * @param period - Période (nombre suivi de h ou d)
+ * @returns La durée en ms, ou null si la période est invalide
+ */
+export function parseMetricsPeriod(period: string): number | null {
+  const match = /^(\d{1,4})([hd])$/.exec(period.trim())
+  if (!match) {
+    return null
+  }
+  const amount = parseInt(match[1], 10)
+  if (amount <= 0) {
+    return null
+  }
+  return amount * (match[2] === 'h' ? HOUR : DAY)
+}
+
+/**
+ * Résolution par défaut des points retournés pour une période
+ * (brute jusqu'à 2 jours, horaire jusqu'à 30 jours, journalière au-delà)
+ *
+ * @param periodMs - Durée de la période (ms)
+ */
+export function getDefaultResolution(periodMs: number): MetricResolution {
+  if (periodMs <= RAW_RETENTION) {
+    return 'raw'
+  }
+  return periodMs <= HOURLY_RETENTION ? 'hour' : 'day'
+}
+
+/**
+ * Récupère l'historique d'une métrique d'une application
+ *
+ * @param appId - ID de l'application
+ * @param key - Clé de la métrique
+ * @param periodMs - Durée de la période (ms)
+ * @param resolution - Résolution des points retournés (moyennes si hour / day)
+ * @param now - Date de référence (ms)
+ * @returns Promise<MetricPoint[]> - Points triés par date croissante
+ */
+export async function getMetricsHistory(
+  appId: string,
+  key: string,
+  periodMs: number,
+  resolution: MetricResolution = getDefaultResolution(periodMs),
+  now: number = Date.now()
+): Promise<MetricPoint[]> {
+  const rows: MetricRow[] = await prisma.metric.findMany({
+    where: { appId, key, timestamp: { gte: new Date(now - periodMs) } },
+    orderBy: { timestamp: 'asc' },
+  })
+
+  const entries = rows.map(toMetricEntry)
+  const points = resolution === 'raw' ? entries : averageByBucket(entries, RESOLUTION_DURATION[resolution])
+
+  return points
+    .map((entry) => ({ timestamp: entry.timestamp, value: entry.value }))
+    .sort((a, b) => a.timestamp - b.timestamp)
+}
+
+/**
+ * Récupère tout l'historique (sauvegarde complète du dashboard)
+ *
+ * @returns Promise<MetricEntry[]> - Toutes les entrées, toutes applications confondues
+ */
+export async function exportMetrics(): Promise<MetricEntry[]> {
+  const rows: MetricRow[] = await prisma.metric.findMany({ orderBy: { timestamp: 'asc' } })
+  return rows.map(toMetricEntry)
+}
+
+/**
+ * Remplace tout l'historique par les entrées fournies (restauration d'une sauvegarde)
+ *
+ * @param tx - Client de transaction (voir restoreDashboardData dans lib/db.ts)
+ * @param entries - Entrées de métriques à restaurer
+ */
+export async function replaceAllMetrics(tx: Prisma.TransactionClient, entries: MetricEntry[]): Promise<void> {
+  await tx.metric.deleteMany({})
+  await tx.metric.createMany({
+    data: entries.map((entry) => ({
+      appId: entry.appId,
+      templateId: entry.templateId,
+      key: entry.key,
+      value: entry.value,
+      timestamp: new Date(entry.timestamp),
+      resolution: entry.resolution ?? 'raw',
+    })),
+  })
+}
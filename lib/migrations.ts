@@ -0,0 +1,327 @@
+/**
+ * Migrations des données stockées
+ *
+ * Le format des applications, widgets et de la configuration évolue avec les
+ * versions du dashboard. Plutôt que d'accumuler des conversions à la lecture,
+ * chaque changement de format est décrit par une migration numérotée qui
+ * transforme les données stockées une fois pour toutes.
+ *
+ * La version du schéma est enregistrée dans le store (readSchemaVersion /
+ * writeSchemaVersion). Au premier accès au store, les migrations dont la
+ * version est supérieure sont appliquées dans l'ordre (voir lib/data-store.ts).
+ *
+ * Pour ajouter une migration : ajouter une entrée à la fin de MIGRATIONS avec
+ * la version suivante. Les fonctions reçoivent les données déchiffrées, doivent
+ * être pures et idempotentes (une migration peut être rejouée, par exemple
+ * après l'import des anciens fichiers JSON dans la base).
+ *
+ * Simulation : `npx tsx scripts/migrate-data.ts --dry-run`
+ */
+
+import type { App, Widget, AppConfig } from './types'
+import type { DataStore } from './data-store'
+import { encryptSensitiveFields, decryptSensitiveFields } from './encryption'
+import { DEFAULT_DASHBOARD_ID } from './dashboards'
+
+/**
+ * Données du dashboard manipulées par les migrations
+ */
+export interface MigrationData {
+  apps: App[]
+  widgets: Widget[]
+  /** Configuration brute, null si aucune n'est enregistrée */
+  config: Partial<AppConfig> | null
+}
+
+/**
+ * Migration d'une version du schéma à la suivante
+ *
+ * Chaque fonction transforme un élément d'un fichier de données ; les
+ * fichiers sans fonction ne sont pas concernés par la migration.
+ */
+export interface Migration {
+  /** Version atteinte après la migration (1, 2, 3, ...) */
+  version: number
+  /** Description lisible, affichée dans les logs et la simulation */
+  description: string
+  apps?: (app: App) => App
+  widgets?: (widget: Widget) => Widget
+  config?: (config: Partial<AppConfig>) => Partial<AppConfig>
+}
+
+/**
+ * Modifications apportées par une migration
+ */
+export interface MigrationStep {
+  version: number
+  description: string
+  /** IDs des applications modifiées */
+  apps: string[]
+  /** IDs des widgets modifiés */
+  widgets: string[]
+  /** true si la configuration a été modifiée */
+  config: boolean
+}
+
+/**
+ * Résultat de l'exécution des migrations
+ */
+export interface MigrationReport {
+  fromVersion: number
+  toVersion: number
+  /** true si les données n'ont pas été écrites (simulation) */
+  dryRun: boolean
+  steps: MigrationStep[]
+}
+
+/**
+ * Anciens noms des identifiants propres à chaque carte, et leur nom actuel
+ */
+const LEGACY_CREDENTIAL_FIELDS: Record<string, string> = {
+  sonarrApiKey: 'apiKey',
+  radarrApiKey: 'apiKey',
+  lidarrApiKey: 'apiKey',
+  overseerrApiKey: 'apiKey',
+  uptimeKumaApiKey: 'apiKey',
+  homeAssistantApiKey: 'apiKey',
+  homeassistantApiKey: 'apiKey',
+  truenasApiKey: 'apiKey',
+  proxmoxToken: 'token',
+  proxmoxUsername: 'username',
+  proxmoxPassword: 'password',
+  kubernetesToken: 'token',
+}
+
+/**
+ * Correspondance des anciennes valeurs de `spacing` vers `density`
+ */
+const SPACING_TO_DENSITY: Record<string, 'compact' | 'normal' | 'comfortable'> = {
+  compact: 'compact',
+  normal: 'normal',
+  spacious: 'comfortable',
+}
+
+/**
+ * Migrations connues, dans l'ordre des versions
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Preset de style : spacing remplacé par density',
+    config: (config) => {
+      const stylePreset = config.stylePreset as Record<string, unknown> | undefined
+      if (!stylePreset || !('spacing' in stylePreset)) {
+        return config
+      }
+
+      const { spacing, ...rest } = stylePreset
+      return {
+        ...config,
+        stylePreset: {
+          ...rest,
+          density: rest.density ?? SPACING_TO_DENSITY[spacing as string] ?? 'normal',
+        } as AppConfig['stylePreset'],
+      }
+    },
+  },
+  {
+    version: 2,
+    description: 'Identifiants des cartes : anciens champs spécifiques et token Plex dans statApiUrl',
+    apps: (app) => {
+      const migrated: Record<string, unknown> = { ...app }
+
+      // sonarrApiKey, proxmoxToken, ... → apiKey, token, ...
+      for (const [legacyField, field] of Object.entries(LEGACY_CREDENTIAL_FIELDS)) {
+        if (legacyField in migrated) {
+          if (!migrated[field]) {
+            migrated[field] = migrated[legacyField]
+          }
+          delete migrated[legacyField]
+        }
+      }
+
+      // Token Plex passé en paramètre de statApiUrl → plexToken
+      if (app.statApiUrl?.includes('X-Plex-Token')) {
+        try {
+          const url = new URL(app.statApiUrl)
+          const token = url.searchParams.get('X-Plex-Token')
+          url.searchParams.delete('X-Plex-Token')
+          if (token && !migrated.plexToken) {
+            migrated.plexToken = token
+          }
+          migrated.statApiUrl = url.toString()
+        } catch {
+          // URL invalide : laisser l'application telle quelle
+        }
+      }
+
+      return migrated as unknown as App
+    },
+  },
+  {
+    version: 3,
+    description: 'Tableaux de bord : applications et widgets rattachés au tableau de bord par défaut',
+    apps: (app) => (app.dashboardId ? app : { ...app, dashboardId: DEFAULT_DASHBOARD_ID }),
+    widgets: (widget) => (widget.dashboardId ? widget : { ...widget, dashboardId: DEFAULT_DASHBOARD_ID }),
+  },
+]
+
+/**
+ * Version du schéma des données après toutes les migrations
+ */
+export const CURRENT_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version
+
+/**
+ * Applique une fonction de migration à une liste et retourne les IDs modifiés
+ */
+function migrateItems<T extends { id: string }>(
+  items: T[],
+  migrate: ((item: T) => T) | undefined,
+  changedIds: string[]
+): T[] {
+  if (!migrate) {
+    return items
+  }
+  return items.map((item) => {
+    const migrated = migrate(item)
+    if (JSON.stringify(migrated) !== JSON.stringify(item)) {
+      changedIds.push(item.id)
+    }
+    return migrated
+  })
+}
+
+/**
+ * Applique les migrations en attente à des données (sans les écrire)
+ *
+ * @param data - Données déchiffrées du dashboard
+ * @param fromVersion - Version actuelle du schéma des données
+ * @param migrations - Migrations disponibles (par défaut MIGRATIONS)
+ * @returns Données migrées et détail des modifications par migration
+ */
+export function migrateData(
+  data: MigrationData,
+  fromVersion: number,
+  migrations: Migration[] = MIGRATIONS
+): { data: MigrationData; steps: MigrationStep[] } {
+  const pending = migrations
+    .filter((migration) => migration.version > fromVersion)
+    .sort((a, b) => a.version - b.version)
+
+  let current = data
+  const steps: MigrationStep[] = []
+
+  for (const migration of pending) {
+    const step: MigrationStep = {
+      version: migration.version,
+      description: migration.description,
+      apps: [],
+      widgets: [],
+      config: false,
+    }
+
+    let config = current.config
+    if (config && migration.config) {
+      config = migration.config(config)
+      step.config = JSON.stringify(config) !== JSON.stringify(current.config)
+    }
+
+    current = {
+      apps: migrateItems(current.apps, migration.apps, step.apps),
+      widgets: migrateItems(current.widgets, migration.widgets, step.widgets),
+      config,
+    }
+    steps.push(step)
+  }
+
+  return { data: current, steps }
+}
+
+/**
+ * Applique les migrations en attente au store
+ *
+ * Seuls les fichiers de données réellement modifiés sont réécrits, puis la
+ * nouvelle version du schéma est enregistrée. En mode simulation, rien n'est
+ * écrit et le rapport décrit les modifications qui seraient appliquées.
+ *
+ * Les secrets sont déchiffrés pour les migrations puis rechiffrés à l'écriture.
+ *
+ * @param store - Store de données
+ * @param options.dryRun - Simuler sans écrire
+ * @returns Promise<MigrationReport> - Détail des migrations appliquées
+ * @throws Error si la version stockée est plus récente que celle de l'application
+ */
+export async function runMigrations(
+  store: DataStore,
+  options: { dryRun?: boolean } = {}
+): Promise<MigrationReport> {
+  const dryRun = options.dryRun ?? false
+  const fromVersion = await store.readSchemaVersion()
+
+  if (fromVersion > CURRENT_SCHEMA_VERSION) {
+    throw new Error(
+      `Les données sont au schéma v${fromVersion}, plus récent que celui de cette version du dashboard (v${CURRENT_SCHEMA_VERSION})`
+    )
+  }
+
+  const report: MigrationReport = { fromVersion, toVersion: CURRENT_SCHEMA_VERSION, dryRun, steps: [] }
+  if (fromVersion === CURRENT_SCHEMA_VERSION) {
+    return report
+  }
+
+  const [apps, widgets, config] = await Promise.all([
+    store.readApps(),
+    store.readWidgets(),
+    store.readConfig(),
+  ])
+
+  const { data, steps } = migrateData(
+    { apps: apps.map((app) => decryptSensitiveFields(app)), widgets, config },
+    fromVersion
+  )
+  report.steps = steps
+
+  if (dryRun) {
+    return report
+  }
+
+  if (steps.some((step) => step.apps.length > 0)) {
+    await store.writeApps(data.apps.map((app) => encryptSensitiveFields(app)))
+  }
+  if (steps.some((step) => step.widgets.length > 0)) {
+    await store.writeWidgets(data.widgets)
+  }
+  if (data.config && steps.some((step) => step.config)) {
+    await store.writeConfig(data.config as AppConfig)
+  }
+  await store.writeSchemaVersion(CURRENT_SCHEMA_VERSION)
+
+  console.log(`[Migrations] Données migrées du schéma v${fromVersion} à v${CURRENT_SCHEMA_VERSION}`)
+  return report
+}
+
+/**
+ * Formate un rapport de migration pour l'affichage en console
+ *
+ * @param report - Rapport retourné par runMigrations
+ * @returns string - Texte multi-lignes
+ */
+export function formatMigrationReport(report: MigrationReport): string {
+  if (report.fromVersion === report.toVersion) {
+    return `Données à jour (schéma v${report.toVersion})`
+  }
+
+  const lines = [
+    `${report.dryRun ? 'Simulation : migration' : 'Migration'} du schéma v${report.fromVersion} à v${report.toVersion}`,
+  ]
+  for (const step of report.steps) {
+    lines.push(`  v${step.version} - ${step.description}`)
+    const targets = [
+      step.apps.length > 0 && `applications : ${step.apps.join(', ')}`,
+      step.widgets.length > 0 && `widgets : ${step.widgets.join(', ')}`,
+      step.config && 'configuration',
+    ].filter(Boolean)
+    lines.push(`    ${targets.length > 0 ? targets.join(' ; ') : 'aucune donnée concernée'}`)
+  }
+  return lines.join('\n')
+}
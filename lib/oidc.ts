@@ -0,0 +1,150 @@
+/**
+ * Connexion OpenID Connect (Authentik, Keycloak, Authelia...)
+ *
+ * Configuration par variables d'environnement :
+ * - OIDC_ISSUER, OIDC_CLIENT_ID, OIDC_CLIENT_SECRET : fournisseur (requis pour activer OIDC)
+ * - OIDC_NAME : libellé du bouton de connexion (défaut : "SSO")
+ * - OIDC_SCOPES : scopes demandés (défaut : "openid profile email groups")
+ * - OIDC_ROLE_CLAIM : claim contenant les groupes ou rôles (défaut : "groups",
+ *   chemin pointé accepté, ex: "realm_access.roles" pour Keycloak)
+ * - OIDC_ADMIN_GROUPS : groupes donnant le rôle admin (séparés par des virgules)
+ * - OIDC_USER_GROUPS : groupes autorisés avec le rôle user ; si absent, tout
+ *   utilisateur authentifié par le fournisseur est accepté
+ * - OIDC_LINK_EXISTING_USERS=true : autorise la connexion à un compte local
+ *   existant de même email (refusée par défaut)
+ * - AUTH_DISABLE_PASSWORD_LOGIN=true : désactive la connexion par mot de passe
+ *   (uniquement si OIDC est configuré)
+ *
+ * Les utilisateurs sont créés dans la table User à leur première connexion,
+ * et leur rôle est mis à jour à chaque connexion selon leurs groupes
+ * (voir findOrCreateExternalUser).
+ */
+
+import type { UserRole } from './users'
+
+/**
+ * Configuration du fournisseur OIDC
+ */
+export interface OidcConfig {
+  issuer: string
+  clientId: string
+  clientSecret: string
+  name: string
+  scopes: string
+  roleClaim: string
+  adminGroups: string[]
+  userGroups: string[]
+  linkExistingUsers: boolean
+}
+
+/**
+ * Identifiant du provider dans Auth.js (callback : /api/auth/callback/oidc)
+ */
+export const OIDC_PROVIDER_ID = 'oidc'
+
+/**
+ * Liste séparée par des virgules
+ */
+export function parseList(value: string | undefined): string[] {
+  return (value || '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+}
+
+/**
+ * Option activée ("1" ou "true", insensible à la casse)
+ */
+export function parseFlag(value: string | undefined): boolean {
+  return ['1', 'true'].includes((value || '').toLowerCase())
+}
+
+/**
+ * Lit la configuration OIDC
+ *
+ * @returns La configuration, ou null si OIDC n'est pas configuré
+ */
+export function getOidcConfig(): OidcConfig | null {
+  const { OIDC_ISSUER, OIDC_CLIENT_ID, OIDC_CLIENT_SECRET } = process.env
+  if (!OIDC_ISSUER || !OIDC_CLIENT_ID || !OIDC_CLIENT_SECRET) {
+    return null
+  }
+
+  return {
+    issuer: OIDC_ISSUER,
+    clientId: OIDC_CLIENT_ID,
+    clientSecret: OIDC_CLIENT_SECRET,
+    name: process.env.OIDC_NAME || 'SSO',
+    scopes: process.env.OIDC_SCOPES || 'openid profile email groups',
+    roleClaim: process.env.OIDC_ROLE_CLAIM || 'groups',
+    adminGroups: parseList(process.env.OIDC_ADMIN_GROUPS),
+    userGroups: parseList(process.env.OIDC_USER_GROUPS),
+    linkExistingUsers: parseFlag(process.env.OIDC_LINK_EXISTING_USERS),
+  }
+}
+
+/**
+ * Indique si la connexion par email / mot de passe est proposée
+ *
+ * AUTH_DISABLE_PASSWORD_LOGIN n'est appliqué que si OIDC est configuré,
+ * pour ne pas rendre le dashboard inaccessible.
+ *
+ * @returns false si seule la connexion OIDC est autorisée
+ */
+export function isPasswordLoginEnabled(): boolean {
+  const disabled = parseFlag(process.env.AUTH_DISABLE_PASSWORD_LOGIN)
+  if (disabled && !getOidcConfig()) {
+    console.warn('[AUTH] AUTH_DISABLE_PASSWORD_LOGIN ignoré : OIDC n\'est pas configuré')
+    return true
+  }
+  return !disabled
+}
+
+/**
+ * Groupes ou rôles de l'utilisateur lus dans le claim configuré
+ *
+ * @param profile - Claims du jeton d'identité (ou de userinfo)
+ * @param claim - Nom du claim, chemin pointé accepté (ex: "realm_access.roles")
+ * @returns Les valeurs du claim (liste vide s'il est absent)
+ */
+export function getOidcGroups(profile: Record<string, unknown>, claim: string): string[] {
+  let value: unknown = profile
+  for (const key of claim.split('.')) {
+    value = value && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined
+  }
+
+  if (typeof value === 'string') {
+    return parseList(value)
+  }
+  return Array.isArray(value) ? value.filter((entry): entry is string => typeof entry === 'string') : []
+}
+
+/**
+ * Rôle d'un utilisateur OIDC d'après ses groupes
+ *
+ * @param profile - Claims du jeton d'identité
+ * @param config - Configuration OIDC
+ * @returns 'admin' ou 'user', ou null si l'utilisateur n'est dans aucun groupe autorisé
+ */
+export function getOidcRole(profile: Record<string, unknown>, config: OidcConfig): UserRole | null {
+  return getRoleFromGroups(getOidcGroups(profile, config.roleClaim), config.adminGroups, config.userGroups)
+}
+
+/**
+ * Rôle d'un utilisateur d'après ses groupes chez le fournisseur d'identité
+ * (OIDC ou en-têtes du reverse proxy, voir lib/proxy-auth.ts)
+ *
+ * @param groups - Groupes de l'utilisateur
+ * @param adminGroups - Groupes donnant le rôle admin
+ * @param userGroups - Groupes autorisés avec le rôle user (vide : tous)
+ * @returns 'admin' ou 'user', ou null si l'utilisateur n'est dans aucun groupe autorisé
+ */
+export function getRoleFromGroups(groups: string[], adminGroups: string[], userGroups: string[]): UserRole | null {
+  if (adminGroups.some((group) => groups.includes(group))) {
+    return 'admin'
+  }
+  if (userGroups.length === 0 || userGroups.some((group) => groups.includes(group))) {
+    return 'user'
+  }
+  return null
+}
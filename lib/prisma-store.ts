@@ -0,0 +1,409 @@
+/**
+ * Store Prisma / SQLite
+ *
+ * Persiste les applications, widgets et la configuration dans la même base
+ * SQLite que les utilisateurs. Chaque application ou widget est une ligne,
+ * ce qui permet des modifications ciblées (deux admins qui éditent deux apps
+ * différentes ne s'écrasent plus) et des transactions pour les réordonnancements.
+ */
+
+import {
+  Prisma,
+  type App as AppRow,
+  type StatsConfig as StatsConfigRow,
+  type Widget as WidgetRow,
+  type Dashboard as DashboardRow,
+} from '@prisma/client'
+import { prisma } from './prisma'
+import type {
+  App,
+  Widget,
+  AppConfig,
+  StatsConfig,
+  StatsDisplayOptions,
+  CardStatConfig,
+  StylePreset,
+  Dashboard,
+} from './types'
+import type { DataStore } from './data-store'
+
+/**
+ * Champs d'une application stockés dans des colonnes dédiées.
+ * Tous les autres champs sont conservés dans la colonne JSON `extra`.
+ */
+const APP_COLUMNS = [
+  'id',
+  'name',
+  'url',
+  'logo',
+  'logoType',
+  'order',
+  'dashboardId',
+  'group',
+  'statApiUrl',
+  'statLabel',
+  'statsConfig',
+] as const
+
+/**
+ * Délai maximal de la transaction qui remplace toutes les données (ms)
+ * Une restauration peut écrire plusieurs milliers de lignes (métriques).
+ */
+export const REPLACE_ALL_TIMEOUT = 60 * 1000
+
+/**
+ * Supprime les clés dont la valeur est null ou undefined
+ */
+function compact<T extends object>(obj: T): T {
+  return Object.fromEntries(
+    Object.entries(obj).filter(([, value]) => value !== null && value !== undefined)
+  ) as T
+}
+
+/**
+ * Objet d'une colonne JSON
+ *
+ * @returns L'objet, ou undefined si la colonne est vide ou contient une autre valeur
+ */
+function toJsonObject<T extends object>(value: Prisma.JsonValue): T | undefined {
+  return value && typeof value === 'object' && !Array.isArray(value) ? (value as T) : undefined
+}
+
+/**
+ * Convertit une ligne StatsConfig en objet StatsConfig
+ */
+function toStatsConfig(row: StatsConfigRow): StatsConfig {
+  return compact({
+    templateId: row.templateId,
+    refreshInterval: row.refreshInterval,
+    timeout: row.timeout,
+    historyPeriod: row.historyPeriod,
+    itemsPerPage: row.itemsPerPage,
+    displayOptions: toJsonObject<StatsDisplayOptions>(row.displayOptions),
+    cardStat: toJsonObject<CardStatConfig>(row.cardStat),
+  }) as StatsConfig
+}
+
+/**
+ * Convertit une ligne App (avec sa relation statsConfig) en objet App
+ */
+function toApp(row: AppRow & { statsConfig: StatsConfigRow | null }): App {
+  const extra = (row.extra && typeof row.extra === 'object' ? row.extra : {}) as Record<string, unknown>
+  return compact({
+    ...extra,
+    id: row.id,
+    name: row.name,
+    url: row.url,
+    logo: row.logo,
+    logoType: row.logoType,
+    order: row.order,
+    dashboardId: row.dashboardId,
+    group: row.group,
+    statApiUrl: row.statApiUrl,
+    statLabel: row.statLabel,
+    statsConfig: row.statsConfig ? toStatsConfig(row.statsConfig) : undefined,
+  }) as App
+}
+
+/**
+ * Prépare les colonnes d'une application pour Prisma
+ */
+function toAppData(app: App) {
+  const extra: Record<string, unknown> = {}
+  for (const [key, value] of Object.entries(app)) {
+    if (!(APP_COLUMNS as readonly string[]).includes(key) && value !== undefined) {
+      extra[key] = value
+    }
+  }
+
+  return {
+    name: app.name,
+    url: app.url,
+    logo: app.logo,
+    logoType: app.logoType,
+    order: app.order ?? null,
+    dashboardId: app.dashboardId ?? null,
+    group: app.group ?? null,
+    statApiUrl: app.statApiUrl ?? null,
+    statLabel: app.statLabel ?? null,
+    extra: extra as Prisma.InputJsonObject,
+  }
+}
+
+/**
+ * Prépare les colonnes d'une configuration de statistiques pour Prisma
+ */
+function toStatsConfigData(statsConfig: StatsConfig) {
+  return {
+    templateId: statsConfig.templateId ?? null,
+    refreshInterval: statsConfig.refreshInterval ?? null,
+    timeout: statsConfig.timeout ?? null,
+    historyPeriod: statsConfig.historyPeriod ?? null,
+    itemsPerPage: statsConfig.itemsPerPage ?? null,
+    displayOptions: (statsConfig.displayOptions ?? undefined) as Prisma.InputJsonObject | undefined,
+    cardStat: (statsConfig.cardStat ?? undefined) as Prisma.InputJsonObject | undefined,
+  }
+}
+
+/**
+ * Convertit une ligne Widget en objet Widget
+ */
+function toWidget(row: WidgetRow): Widget {
+  return compact({
+    id: row.id,
+    type: row.type,
+    enabled: row.enabled,
+    config: row.config,
+    order: row.order,
+    dashboardId: row.dashboardId,
+  }) as Widget
+}
+
+/**
+ * Prépare les colonnes d'un widget pour Prisma
+ */
+function toWidgetData(widget: Widget) {
+  return {
+    type: widget.type,
+    enabled: widget.enabled,
+    order: widget.order ?? null,
+    dashboardId: widget.dashboardId ?? null,
+    config: (widget.config ?? {}) as Prisma.InputJsonObject,
+  }
+}
+
+/**
+ * Convertit une ligne Dashboard en objet Dashboard
+ */
+function toDashboard(row: DashboardRow): Dashboard {
+  return compact({
+    id: row.id,
+    slug: row.slug,
+    name: row.name,
+    order: row.order,
+  }) as Dashboard
+}
+
+/**
+ * Crée ou met à jour une application et sa configuration de statistiques
+ *
+ * @param tx - Client Prisma (ou client de transaction)
+ * @param app - Application à enregistrer
+ */
+async function upsertApp(tx: Prisma.TransactionClient, app: App): Promise<void> {
+  const data = toAppData(app)
+  await tx.app.upsert({
+    where: { id: app.id },
+    create: { id: app.id, ...data },
+    update: data,
+  })
+
+  // La configuration des stats est remplacée intégralement
+  await tx.statsConfig.deleteMany({ where: { appId: app.id } })
+  if (app.statsConfig) {
+    await tx.statsConfig.create({
+      data: { appId: app.id, ...toStatsConfigData(app.statsConfig) },
+    })
+  }
+}
+
+/**
+ * Crée ou met à jour un widget
+ *
+ * @param tx - Client Prisma (ou client de transaction)
+ * @param widget - Widget à enregistrer
+ */
+async function upsertWidget(tx: Prisma.TransactionClient, widget: Widget): Promise<void> {
+  const data = toWidgetData(widget)
+  await tx.widget.upsert({
+    where: { id: widget.id },
+    create: { id: widget.id, ...data },
+    update: data,
+  })
+}
+
+/**
+ * Remplace toutes les applications
+ *
+ * @param tx - Client de transaction
+ * @param apps - Applications à conserver ou créer
+ */
+async function replaceApps(tx: Prisma.TransactionClient, apps: App[]): Promise<void> {
+  await tx.app.deleteMany({ where: { id: { notIn: apps.map((app) => app.id) } } })
+  for (const app of apps) {
+    await upsertApp(tx, app)
+  }
+}
+
+/**
+ * Remplace tous les widgets
+ *
+ * @param tx - Client de transaction
+ * @param widgets - Widgets à conserver ou créer
+ */
+async function replaceWidgets(tx: Prisma.TransactionClient, widgets: Widget[]): Promise<void> {
+  await tx.widget.deleteMany({ where: { id: { notIn: widgets.map((widget) => widget.id) } } })
+  for (const widget of widgets) {
+    await upsertWidget(tx, widget)
+  }
+}
+
+/**
+ * Crée ou met à jour la configuration
+ *
+ * @param tx - Client Prisma (ou client de transaction)
+ * @param config - Configuration à enregistrer
+ */
+async function upsertConfig(tx: Prisma.TransactionClient, config: AppConfig): Promise<void> {
+  const data = {
+    backgroundEffect: config.backgroundEffect,
+    theme: config.theme ?? null,
+    // DbNull efface un preset retiré (undefined laisserait la valeur enregistrée)
+    stylePreset: config.stylePreset ? (config.stylePreset as unknown as Prisma.InputJsonObject) : Prisma.DbNull,
+  }
+  await tx.appConfig.upsert({
+    where: { id: 1 },
+    create: { id: 1, ...data },
+    update: data,
+  })
+}
+
+/**
+ * Crée ou met à jour un tableau de bord
+ *
+ * @param tx - Client Prisma (ou client de transaction)
+ * @param dashboard - Tableau de bord à enregistrer
+ */
+async function upsertDashboard(tx: Prisma.TransactionClient, dashboard: Dashboard): Promise<void> {
+  const data = { slug: dashboard.slug, name: dashboard.name, order: dashboard.order ?? null }
+  await tx.dashboard.upsert({
+    where: { id: dashboard.id },
+    create: { id: dashboard.id, ...data },
+    update: data,
+  })
+}
+
+/**
+ * Store basé sur la base SQLite via Prisma
+ */
+export const prismaStore: DataStore = {
+  kind: 'prisma',
+
+  async readApps() {
+    const rows = await prisma.app.findMany({ include: { statsConfig: true } })
+    return rows.map(toApp)
+  },
+
+  async writeApps(apps) {
+    await prisma.$transaction((tx: Prisma.TransactionClient) => replaceApps(tx, apps))
+  },
+
+  async saveApp(app) {
+    await prisma.$transaction((tx: Prisma.TransactionClient) => upsertApp(tx, app))
+  },
+
+  async deleteApp(id) {
+    const result = await prisma.app.deleteMany({ where: { id } })
+    return result.count > 0
+  },
+
+  async reorderApps(appIds) {
+    await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      // Les IDs absents de la base sont ignorés, comme dans le store JSON
+      const rows = await tx.app.findMany({ where: { id: { in: appIds } }, select: { id: true } })
+      const storedIds = new Set(rows.map((row: { id: string }) => row.id))
+      for (const [index, id] of appIds.entries()) {
+        if (storedIds.has(id)) {
+          await tx.app.update({ where: { id }, data: { order: index } })
+        }
+      }
+    })
+  },
+
+  async readWidgets() {
+    const rows = await prisma.widget.findMany()
+    return rows.map(toWidget)
+  },
+
+  async writeWidgets(widgets) {
+    await prisma.$transaction((tx: Prisma.TransactionClient) => replaceWidgets(tx, widgets))
+  },
+
+  async saveWidget(widget) {
+    await upsertWidget(prisma, widget)
+  },
+
+  async deleteWidget(id) {
+    const result = await prisma.widget.deleteMany({ where: { id } })
+    return result.count > 0
+  },
+
+  async reorderWidgets(widgetIds) {
+    await prisma.$transaction(
+      widgetIds.map((id, index) =>
+        prisma.widget.update({ where: { id }, data: { order: index } })
+      )
+    )
+  },
+
+  async readConfig() {
+    const row = await prisma.appConfig.findUnique({ where: { id: 1 } })
+    if (!row) {
+      return null
+    }
+    return compact({
+      backgroundEffect: row.backgroundEffect,
+      theme: row.theme,
+      stylePreset: toJsonObject<StylePreset>(row.stylePreset),
+    }) as Partial<AppConfig>
+  },
+
+  async writeConfig(config) {
+    await upsertConfig(prisma, config)
+  },
+
+  async readDashboards() {
+    const rows = await prisma.dashboard.findMany()
+    return rows.map(toDashboard)
+  },
+
+  async saveDashboard(dashboard) {
+    await upsertDashboard(prisma, dashboard)
+  },
+
+  async deleteDashboard(id) {
+    const result = await prisma.dashboard.deleteMany({ where: { id } })
+    return result.count > 0
+  },
+
+  async replaceAll(data, writeDatabase) {
+    await prisma.$transaction(
+      async (tx: Prisma.TransactionClient) => {
+        await writeDatabase(tx)
+        await tx.dashboard.deleteMany({
+          where: { id: { notIn: data.dashboards.map((dashboard) => dashboard.id) } },
+        })
+        for (const dashboard of data.dashboards) {
+          await upsertDashboard(tx, dashboard)
+        }
+        await replaceApps(tx, data.apps)
+        await replaceWidgets(tx, data.widgets)
+        await upsertConfig(tx, data.config)
+      },
+      { timeout: REPLACE_ALL_TIMEOUT }
+    )
+  },
+
+  async readSchemaVersion() {
+    const row = await prisma.dataSchema.findUnique({ where: { id: 1 } })
+    return row?.version ?? 0
+  },
+
+  async writeSchemaVersion(version) {
+    await prisma.dataSchema.upsert({
+      where: { id: 1 },
+      create: { id: 1, version },
+      update: { version },
+    })
+  },
+}
@@ -0,0 +1,250 @@
+/**
+ * Export des métriques au format OpenMetrics (Prometheus)
+ *
+ * Expose tout ce que le dashboard collecte, sans déclencher de collecte :
+ * - une jauge par valeur numérique des statistiques des cartes, nommée
+ *   <template>_<clé> (ex: plex_total_movies, sonarr_queue_failed) ; les
+ *   éléments des listes sont distingués par le label item
+ *   (ex: proxmox_nodes_cpu{item="pve"})
+ * - l'état et la latence de la dernière vérification de disponibilité
+ * - les compteurs de collectes et d'échecs du planificateur de statistiques
+ *
+ * Toutes les séries portent les labels app_id et app_name.
+ * L'accès est protégé par le jeton METRICS_TOKEN (voir app/api/metrics/route.ts).
+ */
+
+import crypto from 'crypto'
+import type { App } from './types'
+import type { HealthCheckResult, HealthStatus } from './health-checks'
+import type { StatsPollStatus } from './stats-poller'
+
+/**
+ * Content-Type des réponses OpenMetrics
+ */
+export const OPENMETRICS_CONTENT_TYPE = 'application/openmetrics-text; version=1.0.0; charset=utf-8'
+
+/**
+ * Préfixe des métriques propres au dashboard (hors statistiques des cartes)
+ */
+const PREFIX = 'xhell'
+
+/**
+ * Champs utilisés, dans l'ordre, pour nommer un élément de liste
+ */
+const ITEM_NAME_FIELDS = ['name', 'node', 'hostname', 'title', 'id']
+
+const HEALTH_STATUSES: HealthStatus[] = ['up', 'degraded', 'down', 'unknown']
+
+type MetricType = 'gauge' | 'counter'
+
+/**
+ * Famille de métriques : toutes les séries d'un même nom
+ */
+interface MetricFamily {
+  type: MetricType
+  help: string
+  samples: { labels: Record<string, string>; value: number }[]
+}
+
+/**
+ * Données à exporter
+ */
+export interface MetricsSnapshot {
+  apps: App[]
+  /** Dernières statistiques valides de chaque application */
+  stats: { appId: string; templateId: string; data: unknown }[]
+  health: HealthCheckResult[]
+  polls: StatsPollStatus[]
+}
+
+/**
+ * Convertit un identifiant en nom de métrique (camelCase et tirets en snake_case)
+ *
+ * @param value - Identifiant (ex: "queueFailed", "uptime-kuma")
+ * @returns string - Nom valide (ex: "queue_failed", "uptime_kuma")
+ */
+export function toMetricName(value: string): string {
+  const name = value
+    .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1_$2')
+    .toLowerCase()
+    .replace(/[^a-z0-9_]+/g, '_')
+    .replace(/_+/g, '_')
+    .replace(/^_|_$/g, '')
+  return /^[0-9]/.test(name) ? `_${name}` : name
+}
+
+/**
+ * Échappe une valeur de label ou un texte d'aide
+ */
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')
+}
+
+/**
+ * Nom d'un élément de liste : premier champ identifiant, sinon sa position
+ */
+function getItemName(item: unknown, index: number): string {
+  if (typeof item === 'object' && item !== null) {
+    for (const field of ITEM_NAME_FIELDS) {
+      const value = (item as Record<string, unknown>)[field]
+      if (typeof value === 'string' || typeof value === 'number') {
+        return String(value)
+      }
+    }
+  }
+  return String(index)
+}
+
+/**
+ * Regroupe les séries par nom de métrique
+ */
+class MetricRegistry {
+  private families = new Map<string, MetricFamily>()
+
+  add(name: string, type: MetricType, help: string, labels: Record<string, string>, value: number): void {
+    let family = this.families.get(name)
+    if (!family) {
+      family = { type, help, samples: [] }
+      this.families.set(name, family)
+    }
+    if (family.type !== type) {
+      return
+    }
+    // Deux séries ne peuvent pas avoir les mêmes labels : la première est conservée
+    const key = JSON.stringify(labels)
+    if (family.samples.some((sample) => JSON.stringify(sample.labels) === key)) {
+      return
+    }
+    family.samples.push({ labels, value })
+  }
+
+  render(): string {
+    const lines: string[] = []
+    for (const [name, family] of this.families) {
+      lines.push(`# HELP ${name} ${escapeLabelValue(family.help)}`)
+      lines.push(`# TYPE ${name} ${family.type}`)
+      const sampleName = family.type === 'counter' ? `${name}_total` : name
+      for (const sample of family.samples) {
+        const labels = Object.entries(sample.labels)
+          .map(([label, value]) => `${label}="${escapeLabelValue(value)}"`)
+          .join(',')
+        lines.push(`${sampleName}${labels ? `{${labels}}` : ''} ${sample.value}`)
+      }
+    }
+    lines.push('# EOF')
+    return `${lines.join('\n')}\n`
+  }
+}
+
+/**
+ * Ajoute les valeurs numériques des statistiques d'une carte
+ *
+ * Les objets imbriqués allongent le nom de la métrique ; les éléments des
+ * listes ajoutent un label item (item_2, item_3, ... pour les listes imbriquées).
+ */
+function addStatValues(
+  registry: MetricRegistry,
+  templateId: string,
+  value: unknown,
+  path: string[],
+  labels: Record<string, string>,
+  depth: number
+): void {
+  if (typeof value === 'number') {
+    if (Number.isFinite(value) && path.length > 0) {
+      const name = toMetricName([templateId, ...path].join('_'))
+      registry.add(name, 'gauge', `Statistique ${path.join('.')} des cartes ${templateId}`, labels, value)
+    }
+  } else if (Array.isArray(value)) {
+    const label = depth === 0 ? 'item' : `item_${depth + 1}`
+    value.forEach((item, index) => {
+      addStatValues(registry, templateId, item, path, { ...labels, [label]: getItemName(item, index) }, depth + 1)
+    })
+  } else if (typeof value === 'object' && value !== null) {
+    for (const [key, child] of Object.entries(value)) {
+      addStatValues(registry, templateId, child, [...path, key], labels, depth)
+    }
+  }
+}
+
+/**
+ * Génère l'export OpenMetrics
+ *
+ * Les données des applications supprimées depuis la dernière collecte sont ignorées.
+ *
+ * @param snapshot - Applications, statistiques, vérifications et état des collectes
+ * @returns string - Corps de la réponse, terminé par # EOF
+ */
+export function renderMetrics(snapshot: MetricsSnapshot): string {
+  const registry = new MetricRegistry()
+  const apps = new Map(snapshot.apps.map((app) => [app.id, app]))
+  const appLabels = (appId: string) => ({ app_id: appId, app_name: apps.get(appId)?.name ?? '' })
+
+  for (const result of snapshot.health) {
+    if (!apps.has(result.appId)) continue
+    const labels = { ...appLabels(result.appId), check_type: result.type }
+
+    if (result.status !== 'unknown') {
+      registry.add(`${PREFIX}_app_up`, 'gauge', 'Application disponible (1) ou hors ligne (0)', labels,
+        result.status === 'down' ? 0 : 1)
+    }
+    for (const status of HEALTH_STATUSES) {
+      registry.add(`${PREFIX}_app_health_status`, 'gauge', 'État de la dernière vérification de disponibilité',
+        { ...labels, status }, result.status === status ? 1 : 0)
+    }
+    if (result.latency !== null) {
+      registry.add(`${PREFIX}_app_latency_seconds`, 'gauge', 'Temps de réponse de la dernière vérification',
+        labels, result.latency / 1000)
+    }
+    if (result.tlsDaysRemaining !== null) {
+      registry.add(`${PREFIX}_app_tls_days_remaining`, 'gauge', 'Jours avant l\'expiration du certificat TLS',
+        labels, result.tlsDaysRemaining)
+    }
+  }
+
+  for (const poll of snapshot.polls) {
+    if (!apps.has(poll.appId)) continue
+    const labels = { ...appLabels(poll.appId), template: poll.templateId }
+
+    registry.add(`${PREFIX}_stats_polls`, 'counter', 'Collectes des statistiques depuis le démarrage', labels,
+      poll.totalPolls)
+    registry.add(`${PREFIX}_stats_poll_failures`, 'counter', 'Collectes des statistiques en échec depuis le démarrage',
+      labels, poll.totalFailures)
+    registry.add(`${PREFIX}_stats_poll_consecutive_failures`, 'gauge', 'Échecs consécutifs de la collecte', labels,
+      poll.consecutiveFailures)
+    if (poll.lastDuration !== null) {
+      registry.add(`${PREFIX}_stats_poll_duration_seconds`, 'gauge', 'Durée de la dernière collecte', labels,
+        poll.lastDuration / 1000)
+    }
+    if (poll.lastSuccessAt) {
+      registry.add(`${PREFIX}_stats_last_success_timestamp_seconds`, 'gauge', 'Date de la dernière collecte réussie',
+        labels, new Date(poll.lastSuccessAt).getTime() / 1000)
+    }
+  }
+
+  for (const entry of snapshot.stats) {
+    if (!apps.has(entry.appId)) continue
+    addStatValues(registry, entry.templateId, entry.data, [], appLabels(entry.appId), 0)
+  }
+
+  return registry.render()
+}
+
+/**
+ * Vérifie le jeton d'une requête d'export
+ *
+ * @param authorization - En-tête Authorization de la requête (Bearer <jeton>)
+ * @param token - Jeton attendu (METRICS_TOKEN)
+ * @returns boolean - true si le jeton correspond
+ */
+export function isMetricsTokenValid(authorization: string | null, token: string): boolean {
+  const match = authorization?.match(/^Bearer\s+(.+)$/i)
+  if (!match) {
+    return false
+  }
+  // Comparaison à temps constant sur les empreintes (longueurs égales)
+  const received = crypto.createHash('sha256').update(match[1].trim()).digest()
+  const expected = crypto.createHash('sha256').update(token).digest()
+  return crypto.timingSafeEqual(received, expected)
+}
@@ -0,0 +1,222 @@
+/**
+ * Authentification par en-têtes d'un reverse proxy de confiance
+ *
+ * Derrière Authelia, Authentik ou un autre forward-auth, le proxy authentifie
+ * l'utilisateur et transmet son identité dans des en-têtes. Ce mode, activé par
+ * AUTH_TRUSTED_PROXIES, évite une seconde connexion au dashboard :
+ * - AUTH_TRUSTED_PROXIES : adresses ou plages CIDR des proxys, séparées par
+ *   des virgules (ex: "172.18.0.0/16,10.0.0.2")
+ * - AUTH_PROXY_USER_HEADER / AUTH_PROXY_EMAIL_HEADER / AUTH_PROXY_GROUPS_HEADER :
+ *   en-têtes lus (défaut : Remote-User, Remote-Email, Remote-Groups)
+ * - AUTH_PROXY_ADMIN_GROUPS : groupes donnant le rôle admin
+ * - AUTH_PROXY_USER_GROUPS : groupes autorisés avec le rôle user (tous si absent)
+ * - AUTH_PROXY_LINK_EXISTING_USERS=true : autorise l'accès à un compte local
+ *   existant de même email (refusé par défaut)
+ *
+ * Les en-têtes ne sont lus que pour une connexion TCP venant d'un proxy de
+ * confiance. Next.js n'expose pas l'adresse de la connexion aux handlers (et
+ * conserve un X-Forwarded-For envoyé par le client) : instrumentation.ts
+ * installe donc installRemoteAddressHeader, qui copie l'adresse de la socket
+ * dans un en-tête interne. Sans lui, les en-têtes du proxy sont ignorés.
+ *
+ * Les utilisateurs sont créés dans la table User à leur première requête et
+ * leur rôle suit leurs groupes, avec les mêmes garde-fous que pour OIDC
+ * (voir findOrCreateExternalUser).
+ */
+
+import http from 'http'
+import net from 'net'
+import { getRoleFromGroups, parseFlag, parseList } from './oidc'
+import { findOrCreateExternalUser, type StoredUser, type UserRole } from './users'
+
+/**
+ * Configuration du mode d'authentification par en-têtes
+ */
+export interface ProxyAuthConfig {
+  trustedProxies: string[]
+  userHeader: string
+  emailHeader: string
+  groupsHeader: string
+  adminGroups: string[]
+  userGroups: string[]
+  linkExistingUsers: boolean
+}
+
+/**
+ * Session construite à partir des en-têtes du proxy (même forme que la session Auth.js)
+ */
+export interface ProxyAuthSession {
+  user: {
+    id: string
+    name: string
+    email: string
+    role: string
+  }
+  expires: string
+}
+
+/**
+ * En-tête interne contenant l'adresse de la connexion TCP
+ * (toujours réécrit par installRemoteAddressHeader, jamais repris du client)
+ */
+export const REMOTE_ADDRESS_HEADER = 'x-xhell-remote-address'
+
+/**
+ * Marqueur global indiquant que l'en-tête interne est installé
+ * (partagé entre les bundles de instrumentation.ts, proxy.ts et des routes)
+ */
+const REMOTE_ADDRESS_INSTALLED = Symbol.for('xhell-dash.remote-address-header')
+
+/**
+ * Durée pendant laquelle un utilisateur provisionné est gardé en mémoire (ms)
+ * Évite une requête en base à chaque appel ; un changement de groupes est
+ * appliqué au plus tard après ce délai.
+ */
+const USER_CACHE_TTL = 60 * 1000
+
+const userCache = new Map<string, { user: StoredUser; cachedAt: number }>()
+
+/**
+ * Lit la configuration du mode d'authentification par en-têtes
+ *
+ * @returns La configuration, ou null si AUTH_TRUSTED_PROXIES n'est pas défini
+ */
+export function getProxyAuthConfig(): ProxyAuthConfig | null {
+  const trustedProxies = parseList(process.env.AUTH_TRUSTED_PROXIES)
+  if (trustedProxies.length === 0) {
+    return null
+  }
+
+  return {
+    trustedProxies,
+    userHeader: process.env.AUTH_PROXY_USER_HEADER || 'Remote-User',
+    emailHeader: process.env.AUTH_PROXY_EMAIL_HEADER || 'Remote-Email',
+    groupsHeader: process.env.AUTH_PROXY_GROUPS_HEADER || 'Remote-Groups',
+    adminGroups: parseList(process.env.AUTH_PROXY_ADMIN_GROUPS),
+    userGroups: parseList(process.env.AUTH_PROXY_USER_GROUPS),
+    linkExistingUsers: parseFlag(process.env.AUTH_PROXY_LINK_EXISTING_USERS),
+  }
+}
+
+/**
+ * Copie l'adresse de chaque connexion entrante dans REMOTE_ADDRESS_HEADER
+ *
+ * Appelé au démarrage du serveur (instrumentation.ts) : la valeur éventuellement
+ * envoyée par le client est toujours écrasée.
+ */
+export function installRemoteAddressHeader(): void {
+  const globals = globalThis as unknown as Record<symbol, boolean | undefined>
+  if (globals[REMOTE_ADDRESS_INSTALLED]) {
+    return
+  }
+
+  const emit = http.Server.prototype.emit
+  http.Server.prototype.emit = function (this: http.Server, event: string | symbol, ...args: unknown[]) {
+    if (event === 'request') {
+      const request = args[0] as http.IncomingMessage
+      request.headers[REMOTE_ADDRESS_HEADER] = request.socket.remoteAddress ?? ''
+    }
+    return emit.apply(this, [event, ...args] as Parameters<typeof emit>)
+  } as typeof emit
+  globals[REMOTE_ADDRESS_INSTALLED] = true
+}
+
+/**
+ * Indique si une adresse appartient aux proxys de confiance
+ *
+ * @param address - Adresse IPv4 ou IPv6 (IPv4 mappée "::ffff:" acceptée)
+ * @param trustedProxies - Adresses ou plages CIDR
+ * @returns true si l'adresse correspond à l'une des entrées
+ */
+export function isTrustedProxyAddress(address: string, trustedProxies: string[]): boolean {
+  const normalized = address.replace(/^::ffff:(?=\d+\.\d+\.\d+\.\d+$)/i, '')
+  const family = net.isIP(normalized)
+  if (!family) {
+    return false
+  }
+
+  const blockList = new net.BlockList()
+  for (const entry of trustedProxies) {
+    const [range, prefix] = entry.split('/')
+    const rangeFamily = net.isIP(range)
+    const bits = prefix === undefined ? null : Number(prefix)
+    const maxBits = rangeFamily === 4 ? 32 : 128
+    if (!rangeFamily || (bits !== null && (!Number.isInteger(bits) || bits < 0 || bits > maxBits))) {
+      console.warn(`[AUTH] Entrée AUTH_TRUSTED_PROXIES ignorée : ${entry}`)
+      continue
+    }
+    const type = rangeFamily === 4 ? 'ipv4' : 'ipv6'
+    if (bits === null) {
+      blockList.addAddress(range, type)
+    } else {
+      blockList.addSubnet(range, bits, type)
+    }
+  }
+  return blockList.check(normalized, family === 4 ? 'ipv4' : 'ipv6')
+}
+
+/**
+ * Authentifie une requête par les en-têtes du proxy de confiance
+ *
+ * @param headers - En-têtes de la requête
+ * @returns La session de l'utilisateur, ou null si le mode est désactivé, si la
+ *   requête ne vient pas d'un proxy de confiance, si l'email est absent, si
+ *   l'utilisateur n'est dans aucun groupe autorisé ou si son email est celui
+ *   d'un compte local non lié
+ */
+export async function getProxyAuthSession(headers: Headers): Promise<ProxyAuthSession | null> {
+  const config = getProxyAuthConfig()
+  if (!config) {
+    return null
+  }
+
+  const installed = (globalThis as unknown as Record<symbol, boolean | undefined>)[REMOTE_ADDRESS_INSTALLED]
+  const remoteAddress = installed ? headers.get(REMOTE_ADDRESS_HEADER) : null
+  if (!remoteAddress || !isTrustedProxyAddress(remoteAddress, config.trustedProxies)) {
+    return null
+  }
+
+  const email = headers.get(config.emailHeader)?.trim().toLowerCase()
+  if (!email) {
+    return null
+  }
+
+  const role: UserRole | null = getRoleFromGroups(
+    parseList(headers.get(config.groupsHeader) ?? ''),
+    config.adminGroups,
+    config.userGroups
+  )
+  if (!role) {
+    console.log(`[AUTH] Utilisateur du proxy refusé (aucun groupe autorisé) : ${email}`)
+    return null
+  }
+
+  const cacheKey = `${email}:${role}`
+  const cached = userCache.get(cacheKey)
+  let user = cached && Date.now() - cached.cachedAt < USER_CACHE_TTL ? cached.user : null
+  if (!user) {
+    user = await findOrCreateExternalUser(email, role, { linkExistingUsers: config.linkExistingUsers })
+    if (!user) {
+      return null
+    }
+    userCache.set(cacheKey, { user, cachedAt: Date.now() })
+  }
+
+  return {
+    user: {
+      id: user.id,
+      name: headers.get(config.userHeader)?.trim() || user.email,
+      email: user.email,
+      role: user.role,
+    },
+    // Session valable pour la requête en cours : le proxy authentifie chaque requête
+    expires: new Date().toISOString(),
+  }
+}
+
+/**
+ * Vide le cache des utilisateurs (tests)
+ */
+export function resetProxyAuthCache(): void {
+  userCache.clear()
+}
@@ -0,0 +1,287 @@
+/**
+ * Client SMTP minimal pour l'envoi des notifications par email
+ *
+ * Gère la connexion chiffrée dès l'ouverture (port 465) ou avec STARTTLS, et
+ * l'authentification PLAIN ou LOGIN. STARTTLS est exigé par défaut : sans lui,
+ * un attaquant sur le réseau pourrait le retirer de la réponse du serveur et
+ * lire le mot de passe.
+ * Le message est envoyé en texte brut, encodé en base64.
+ */
+
+import crypto from 'crypto'
+import net from 'net'
+import os from 'os'
+import tls from 'tls'
+
+/**
+ * Délai maximal de chaque échange avec le serveur (ms)
+ */
+export const DEFAULT_SMTP_TIMEOUT = 10000
+
+/**
+ * Paramètres de connexion au serveur SMTP
+ */
+export interface SmtpOptions {
+  host: string
+  /** Port (défaut : 465 si secure, 587 sinon) */
+  port?: number
+  /** Chiffrement TLS dès la connexion (port 465) */
+  secure?: boolean
+  /**
+   * Exiger STARTTLS sur une connexion non chiffrée (défaut : true)
+   * À false, la connexion reste en clair si le serveur ne le propose pas.
+   */
+  starttls?: boolean
+  /** Autoriser l'authentification sur une connexion non chiffrée (défaut : false) */
+  allowPlaintextAuth?: boolean
+  username?: string
+  password?: string
+  /** Vérifier le certificat du serveur (défaut : true) */
+  rejectUnauthorized?: boolean
+  timeout?: number
+}
+
+/**
+ * Email à envoyer
+ */
+export interface MailMessage {
+  /** Expéditeur, 'adresse' ou 'Nom <adresse>' */
+  from: string
+  to: string[]
+  subject: string
+  text: string
+}
+
+/**
+ * Réponse du serveur : code et lignes de texte
+ */
+interface SmtpResponse {
+  code: number
+  lines: string[]
+}
+
+/**
+ * Session SMTP : lit les réponses du serveur ligne par ligne
+ */
+class SmtpSession {
+  private socket!: net.Socket
+  private buffer = ''
+  private lines: string[] = []
+  private responses: SmtpResponse[] = []
+  private waiter: { resolve: (response: SmtpResponse) => void; reject: (error: Error) => void } | null = null
+  private failure: Error | null = null
+
+  constructor(socket: net.Socket, private timeout: number) {
+    this.attach(socket)
+  }
+
+  /**
+   * Écoute un socket (le socket TLS remplace le socket initial après STARTTLS)
+   */
+  private attach(socket: net.Socket): void {
+    this.socket = socket
+    socket.setTimeout(this.timeout)
+    socket.on('data', (chunk: Buffer) => this.onData(chunk.toString('utf-8')))
+    socket.on('timeout', () => this.fail(new Error(`Délai dépassé après ${this.timeout} ms`)))
+    socket.on('error', (error) => this.fail(error))
+    socket.on('close', () => this.fail(new Error('Connexion fermée par le serveur')))
+  }
+
+  private onData(chunk: string): void {
+    this.buffer += chunk
+    let index: number
+    while ((index = this.buffer.indexOf('\n')) !== -1) {
+      const line = this.buffer.slice(0, index).replace(/\r$/, '')
+      this.buffer = this.buffer.slice(index + 1)
+      this.lines.push(line.slice(4))
+      // '250-...' : réponse sur plusieurs lignes, '250 ...' : dernière ligne
+      if (line[3] !== '-') {
+        this.push({ code: parseInt(line.slice(0, 3), 10), lines: this.lines })
+        this.lines = []
+      }
+    }
+  }
+
+  private push(response: SmtpResponse): void {
+    if (this.waiter) {
+      this.waiter.resolve(response)
+      this.waiter = null
+    } else {
+      this.responses.push(response)
+    }
+  }
+
+  private fail(error: Error): void {
+    if (this.failure) {
+      return
+    }
+    this.failure = error
+    this.waiter?.reject(error)
+    this.waiter = null
+  }
+
+  /**
+   * Attend la prochaine réponse et vérifie son code
+   */
+  async expect(codes: number[]): Promise<SmtpResponse> {
+    const response = this.responses.shift() ?? await new Promise<SmtpResponse>((resolve, reject) => {
+      if (this.failure) {
+        reject(this.failure)
+        return
+      }
+      this.waiter = { resolve, reject }
+    })
+    if (!codes.includes(response.code)) {
+      throw new Error(`SMTP ${response.code} ${response.lines.join(' ')}`.trim())
+    }
+    return response
+  }
+
+  /**
+   * Envoie une commande et attend la réponse
+   */
+  command(line: string, codes: number[]): Promise<SmtpResponse> {
+    this.socket.write(`${line}\r\n`)
+    return this.expect(codes)
+  }
+
+  /**
+   * Passe la connexion en TLS après la commande STARTTLS
+   */
+  upgrade(options: tls.ConnectionOptions): Promise<void> {
+    const plain = this.socket
+    plain.setTimeout(0)
+    plain.removeAllListeners('data')
+    plain.removeAllListeners('timeout')
+    plain.removeAllListeners('error')
+    plain.removeAllListeners('close')
+
+    return new Promise((resolve, reject) => {
+      const secure = tls.connect({ ...options, socket: plain })
+      secure.once('secureConnect', () => resolve())
+      secure.once('error', reject)
+      this.attach(secure)
+    })
+  }
+
+  close(): void {
+    this.failure ??= new Error('Session terminée')
+    this.socket.destroy()
+  }
+}
+
+/**
+ * Remplace les retours à la ligne, qui permettraient d'ajouter des en-têtes
+ * ou des commandes SMTP (noms de règles et d'applications dans le sujet)
+ */
+function toSingleLine(value: string): string {
+  return value.replace(/[\r\n]+/g, ' ')
+}
+
+/**
+ * Extrait l'adresse de 'Nom <adresse>'
+ */
+function getAddress(value: string): string {
+  const match = value.match(/<([^>]+)>/)
+  return toSingleLine(match ? match[1] : value).trim()
+}
+
+/**
+ * Encode un en-tête contenant des caractères non ASCII (RFC 2047)
+ */
+function encodeHeader(value: string): string {
+  const line = toSingleLine(value)
+  return /^[\x00-\x7f]*$/.test(line) ? line : `=?UTF-8?B?${Buffer.from(line, 'utf-8').toString('base64')}?=`
+}
+
+/**
+ * Construit le message au format RFC 5322
+ */
+function formatMessage(message: MailMessage): string {
+  const body = Buffer.from(message.text, 'utf-8').toString('base64').replace(/.{1,76}/g, '$&\r\n')
+  return [
+    `From: ${toSingleLine(message.from)}`,
+    `To: ${toSingleLine(message.to.join(', '))}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${crypto.randomUUID()}@${os.hostname()}>`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    body,
+  ].join('\r\n')
+}
+
+/**
+ * S'authentifie avec le premier mécanisme supporté (PLAIN, puis LOGIN)
+ */
+async function authenticate(session: SmtpSession, capabilities: string[], username: string, password: string) {
+  const auth = capabilities.find((line) => line.startsWith('AUTH'))
+  const mechanisms = auth ? auth.split(/[\s=]+/).slice(1) : ['PLAIN']
+  const encode = (value: string) => Buffer.from(value, 'utf-8').toString('base64')
+
+  if (mechanisms.includes('PLAIN')) {
+    await session.command(`AUTH PLAIN ${encode(`\0${username}\0${password}`)}`, [235])
+  } else if (mechanisms.includes('LOGIN')) {
+    await session.command('AUTH LOGIN', [334])
+    await session.command(encode(username), [334])
+    await session.command(encode(password), [235])
+  } else {
+    throw new Error(`Aucun mécanisme d'authentification supporté (${mechanisms.join(', ')})`)
+  }
+}
+
+/**
+ * Envoie un email
+ *
+ * @param options - Serveur SMTP et identifiants
+ * @param message - Email à envoyer
+ * @throws Error si la connexion échoue ou si le serveur refuse une commande
+ */
+export async function sendMail(options: SmtpOptions, message: MailMessage): Promise<void> {
+  const tlsOptions: tls.ConnectionOptions = {
+    host: options.host,
+    servername: net.isIP(options.host) ? undefined : options.host,
+    rejectUnauthorized: options.rejectUnauthorized ?? true,
+  }
+  const port = options.port ?? (options.secure ? 465 : 587)
+  const socket = options.secure
+    ? tls.connect({ ...tlsOptions, port })
+    : net.connect({ host: options.host, port })
+  const session = new SmtpSession(socket, options.timeout ?? DEFAULT_SMTP_TIMEOUT)
+
+  try {
+    await session.expect([220])
+    const ehlo = `EHLO ${os.hostname()}`
+    let capabilities = (await session.command(ehlo, [250])).lines.map((line) => line.toUpperCase())
+
+    let encrypted = options.secure === true
+    if (!encrypted && capabilities.includes('STARTTLS')) {
+      await session.command('STARTTLS', [220])
+      await session.upgrade(tlsOptions)
+      capabilities = (await session.command(ehlo, [250])).lines.map((line) => line.toUpperCase())
+      encrypted = true
+    }
+    if (!encrypted && options.starttls !== false) {
+      throw new Error('Le serveur ne propose pas STARTTLS (connexion non chiffrée refusée)')
+    }
+
+    if (options.username) {
+      if (!encrypted && !options.allowPlaintextAuth) {
+        throw new Error('Authentification refusée sur une connexion non chiffrée')
+      }
+      await authenticate(session, capabilities, options.username, options.password ?? '')
+    }
+
+    await session.command(`MAIL FROM:<${getAddress(message.from)}>`, [250])
+    for (const recipient of message.to) {
+      await session.command(`RCPT TO:<${getAddress(recipient)}>`, [250, 251])
+    }
+    await session.command('DATA', [354])
+    await session.command(`${formatMessage(message)}\r\n.`, [250])
+    await session.command('QUIT', [221]).catch(() => undefined)
+  } finally {
+    session.close()
+  }
+}
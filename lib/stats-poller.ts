@@ -0,0 +1,441 @@
+/**
+ * Collecte des statistiques des cartes côté serveur
+ *
+ * Les statistiques de chaque application ayant un template (plex, sonarr, ...)
+ * sont récupérées par le serveur selon `statsConfig.refreshInterval` et
+ * conservées dans un cache partagé : tous les navigateurs sont servis depuis
+ * ce cache, quel que soit le nombre d'onglets ouverts.
+ *
+ * - Le planificateur (startStatsPoller, lancé par instrumentation.ts) vérifie
+ *   régulièrement quelles applications doivent être rafraîchies
+ * - Une requête sur des données absentes ou périmées déclenche la collecte ;
+ *   les requêtes simultanées partagent le même appel à l'API externe
+ * - Après un échec, une nouvelle tentative est faite au plus tard après
+ *   ERROR_RETRY_INTERVAL ; les dernières données valides restent servies
+ * - Les valeurs numériques collectées alimentent l'historique des métriques
+ *   (voir lib/metrics-history.ts)
+ * - Chaque collecte est transmise aux navigateurs connectés (voir lib/events.ts)
+ * - Les règles d'alerte de l'application sont évaluées (voir lib/alerts.ts)
+ *
+ * Le cache est propre au processus : il est perdu au redémarrage. Il est
+ * rangé sur globalThis avec les minuteries, comme l'en-tête installé par
+ * lib/proxy-auth.ts : Next.js charge ce module dans plusieurs bundles
+ * (instrumentation.ts, routes), qui doivent partager le même planificateur.
+ */
+
+import crypto from 'crypto'
+import type { App } from './types'
+import { readApps } from './db'
+import { compactMetrics, recordMetrics } from './metrics-history'
+import { publishEvent } from './events'
+import { evaluateAlerts } from './alerts'
+
+/**
+ * Handler de statistiques exporté par cards/<template>/route.ts
+ */
+type CardStatsHandler = (
+  request: Request,
+  context: { params: Promise<{ id: string }> }
+) => Promise<Response>
+
+/**
+ * État de la collecte des statistiques d'une application
+ */
+export interface StatsPollStatus {
+  appId: string
+  templateId: string
+  /** Date de la dernière tentative (ISO 8601) */
+  lastAttemptAt: string | null
+  /** Date de la dernière collecte réussie (ISO 8601) */
+  lastSuccessAt: string | null
+  /** Message de la dernière erreur, null si la dernière tentative a réussi */
+  lastError: string | null
+  /** Date de la dernière erreur (ISO 8601) */
+  lastErrorAt: string | null
+  /** Durée de la dernière tentative (ms) */
+  lastDuration: number | null
+  /** Nombre d'échecs consécutifs */
+  consecutiveFailures: number
+  /** Nombre total de collectes depuis le démarrage du serveur */
+  totalPolls: number
+  /** Nombre total d'échecs depuis le démarrage du serveur */
+  totalFailures: number
+}
+
+/**
+ * Résultat servi aux clients
+ */
+export interface StatsResult {
+  /** Code HTTP à retourner */
+  status: number
+  /** Statistiques, ou corps de l'erreur ({ error, hint }) */
+  body: unknown
+  /** État de la collecte */
+  poll: StatsPollStatus
+}
+
+/**
+ * Entrée du cache d'une application
+ */
+interface CacheEntry {
+  poll: StatsPollStatus
+  /** Empreinte de la configuration de l'app au moment de la collecte */
+  fingerprint: string
+  /** Dernières statistiques valides */
+  data?: unknown
+  /** Dernière réponse en erreur (servie tant qu'aucune donnée valide n'existe) */
+  error?: { status: number; body: unknown }
+  /** Collecte en cours, partagée par les requêtes simultanées */
+  inFlight?: Promise<CacheEntry>
+}
+
+/**
+ * Intervalle de rafraîchissement par défaut (10 minutes, comme les cartes)
+ */
+export const DEFAULT_REFRESH_INTERVAL = 600000
+
+/**
+ * Intervalle minimal entre deux collectes d'une même application
+ */
+const MIN_REFRESH_INTERVAL = 5000
+
+/**
+ * Délai avant une nouvelle tentative après un échec
+ */
+const ERROR_RETRY_INTERVAL = 30000
+
+/**
+ * Fréquence de vérification du planificateur
+ */
+const TICK_INTERVAL = 5000
+
+/**
+ * Fréquence d'application de la politique de rétention des métriques (1 heure)
+ */
+const COMPACT_INTERVAL = 60 * 60 * 1000
+
+/**
+ * État du planificateur, partagé par toutes les copies du module
+ */
+interface PollerState {
+  cache: Map<string, CacheEntry>
+  timer: ReturnType<typeof setInterval> | null
+  compactTimer: ReturnType<typeof setInterval> | null
+}
+
+/**
+ * Clé globale de l'état du planificateur
+ */
+const POLLER_STATE = Symbol.for('xhell-dash.stats-poller')
+
+const globals = globalThis as unknown as Record<symbol, PollerState | undefined>
+const state = (globals[POLLER_STATE] ??= { cache: new Map(), timer: null, compactTimer: null })
+const cache = state.cache
+
+/**
+ * Intervalle de rafraîchissement d'une application (ms)
+ */
+function getRefreshInterval(app: App): number {
+  return Math.max(app.statsConfig?.refreshInterval || DEFAULT_REFRESH_INTERVAL, MIN_REFRESH_INTERVAL)
+}
+
+/**
+ * Empreinte de la configuration d'une application
+ * Une modification de l'app (URL, clé API, template, ...) invalide le cache.
+ */
+function getFingerprint(app: App): string {
+  const config: Record<string, unknown> = { ...app }
+  delete config.statValue
+  delete config.order
+  delete config.group
+  return crypto.createHash('sha256').update(JSON.stringify(config)).digest('hex')
+}
+
+/**
+ * Charge le handler de statistiques d'une carte
+ *
+ * @param templateId - ID de la carte (nom du dossier dans cards/)
+ * @returns Le handler GET, ou null si la carte n'en exporte pas
+ * @throws Error si le module de la carte ne peut pas être chargé
+ */
+export async function loadCardStatsHandler(templateId: string): Promise<CardStatsHandler | null> {
+  const routeModule = await import(`@/cards/${templateId}/route`)
+  return routeModule.GET ?? null
+}
+
+/**
+ * Indique si les statistiques d'une application doivent être collectées
+ */
+function isDue(app: App, entry: CacheEntry | undefined, now: number): boolean {
+  if (!entry || entry.fingerprint !== getFingerprint(app) || !entry.poll.lastAttemptAt) {
+    return true
+  }
+  const interval = entry.poll.lastError
+    ? Math.min(getRefreshInterval(app), ERROR_RETRY_INTERVAL)
+    : getRefreshInterval(app)
+  return now - new Date(entry.poll.lastAttemptAt).getTime() >= interval
+}
+
+/**
+ * Appelle le handler de la carte et met à jour le cache
+ */
+async function collect(app: App, templateId: string, previous: CacheEntry | undefined): Promise<CacheEntry> {
+  const fingerprint = getFingerprint(app)
+  // Les données d'une ancienne configuration ne sont pas conservées
+  const kept = previous?.fingerprint === fingerprint ? previous : undefined
+  const startedAt = Date.now()
+
+  let result: { ok: true; data: unknown } | { ok: false; status: number; body: { error: string; hint?: string } }
+  try {
+    const handler = await loadCardStatsHandler(templateId).catch(() => null)
+    if (!handler) {
+      result = {
+        ok: false,
+        status: 501,
+        body: {
+          error: `Handler API non trouvé pour la carte "${templateId}"`,
+          hint: `Assurez-vous que le fichier cards/${templateId}/route.ts existe et exporte une fonction GET`,
+        },
+      }
+    } else {
+      const response = await handler(new Request(`http://localhost/api/apps/${app.id}/stats/${templateId}`), {
+        params: Promise.resolve({ id: app.id }),
+      })
+      const body = await response.json().catch(() => null)
+      result = response.ok
+        ? { ok: true, data: body }
+        : {
+            ok: false,
+            status: response.status,
+            body: { error: body?.error || `HTTP ${response.status}`, hint: body?.hint },
+          }
+    }
+  } catch (error) {
+    result = {
+      ok: false,
+      status: 500,
+      body: {
+        error: error instanceof Error && error.message ? error.message : 'Erreur lors de la récupération des statistiques',
+      },
+    }
+  }
+
+  const now = new Date().toISOString()
+  const poll: StatsPollStatus = {
+    appId: app.id,
+    templateId,
+    lastAttemptAt: now,
+    lastSuccessAt: result.ok ? now : kept?.poll.lastSuccessAt ?? null,
+    lastError: result.ok ? null : result.body.error,
+    lastErrorAt: result.ok ? kept?.poll.lastErrorAt ?? null : now,
+    lastDuration: Date.now() - startedAt,
+    consecutiveFailures: result.ok ? 0 : (kept?.poll.consecutiveFailures ?? 0) + 1,
+    // Les compteurs survivent aux changements de configuration (exportés vers Prometheus)
+    totalPolls: (previous?.poll.totalPolls ?? 0) + 1,
+    totalFailures: (previous?.poll.totalFailures ?? 0) + (result.ok ? 0 : 1),
+  }
+
+  const entry: CacheEntry = result.ok
+    ? { poll, fingerprint, data: result.data }
+    : { poll, fingerprint, data: kept?.data, error: { status: result.status, body: result.body } }
+
+  if (result.ok) {
+    await recordMetrics(app.id, templateId, result.data).catch((error) => {
+      console.error(`[Stats] Impossible d'enregistrer les métriques de "${app.name}":`, error)
+    })
+    await evaluateAlerts(app, 'stats', result.data).catch((error) => {
+      console.error(`[Stats] Erreur lors de l'évaluation des alertes de "${app.name}":`, error)
+    })
+  } else {
+    console.error(`[Stats] Échec de la collecte pour "${app.name}" (${templateId}) :`, result.body.error)
+  }
+
+  cache.set(app.id, entry)
+  publishCollect(app.id, templateId, entry, kept)
+  return entry
+}
+
+/**
+ * Transmet le résultat d'une collecte aux navigateurs connectés
+ * Un événement app-status est ajouté quand l'application passe en erreur ou redevient disponible.
+ */
+function publishCollect(appId: string, templateId: string, entry: CacheEntry, previous: CacheEntry | undefined): void {
+  const stats = toStatsResult(entry)
+  publishEvent({ type: 'stats', appId, templateId, status: stats.status, body: stats.body, poll: stats.poll })
+
+  const ok = entry.poll.lastError === null
+  const wasOk = previous?.poll.lastAttemptAt ? previous.poll.lastError === null : true
+  if (ok !== wasOk) {
+    publishEvent({ type: 'app-status', appId, ok, error: entry.poll.lastError })
+  }
+}
+
+/**
+ * Réponse à servir pour une entrée du cache
+ * Les dernières données valides sont préférées à l'erreur de la dernière tentative.
+ */
+function toStatsResult(entry: CacheEntry): StatsResult {
+  if (entry.data !== undefined) {
+    return { status: 200, body: entry.data, poll: entry.poll }
+  }
+  return { status: entry.error?.status ?? 500, body: entry.error?.body, poll: entry.poll }
+}
+
+/**
+ * Collecte les statistiques d'une application
+ * Les appels simultanés pour une même application partagent la même collecte.
+ *
+ * @param app - Application avec un template de statistiques
+ * @returns Promise<StatsPollStatus> - État de la collecte
+ */
+export async function pollApp(app: App): Promise<StatsPollStatus> {
+  return (await pollEntry(app)).poll
+}
+
+/**
+ * Collecte les statistiques d'une application et retourne l'entrée du cache
+ */
+function pollEntry(app: App): Promise<CacheEntry> {
+  const templateId = app.statsConfig?.templateId
+  if (!templateId) {
+    throw new Error(`L'application "${app.name}" n'a pas de template de statistiques`)
+  }
+
+  const previous = cache.get(app.id)
+  if (previous?.inFlight) {
+    return previous.inFlight
+  }
+
+  const inFlight = collect(app, templateId, previous)
+  cache.set(app.id, {
+    ...(previous ?? { poll: emptyStatus(app.id, templateId), fingerprint: getFingerprint(app) }),
+    inFlight,
+  })
+  return inFlight
+}
+
+/**
+ * État initial d'une application jamais collectée
+ */
+function emptyStatus(appId: string, templateId: string): StatsPollStatus {
+  return {
+    appId,
+    templateId,
+    lastAttemptAt: null,
+    lastSuccessAt: null,
+    lastError: null,
+    lastErrorAt: null,
+    lastDuration: null,
+    consecutiveFailures: 0,
+    totalPolls: 0,
+    totalFailures: 0,
+  }
+}
+
+/**
+ * Récupère les statistiques d'une application depuis le cache
+ *
+ * Si les données sont absentes ou périmées, elles sont collectées avant
+ * d'être retournées. Après un échec, les dernières données valides sont
+ * servies si elles existent.
+ *
+ * @param app - Application avec un template de statistiques
+ * @returns Promise<StatsResult> - Réponse à servir au client
+ */
+export async function getAppStats(app: App): Promise<StatsResult> {
+  let entry = cache.get(app.id)
+  if (entry?.inFlight) {
+    entry = await entry.inFlight
+  } else if (isDue(app, entry, Date.now())) {
+    entry = await pollEntry(app)
+  }
+  return toStatsResult(entry as CacheEntry)
+}
+
+/**
+ * Collecte les statistiques de toutes les applications à rafraîchir
+ *
+ * Les entrées des applications supprimées ou sans template sont retirées du cache.
+ */
+export async function pollDueApps(): Promise<void> {
+  const apps = (await readApps()).filter((app) => app.statsConfig?.templateId)
+  const appIds = new Set(apps.map((app) => app.id))
+
+  for (const appId of cache.keys()) {
+    if (!appIds.has(appId)) {
+      cache.delete(appId)
+    }
+  }
+
+  const now = Date.now()
+  await Promise.allSettled(
+    apps
+      .filter((app) => !cache.get(app.id)?.inFlight && isDue(app, cache.get(app.id), now))
+      .map((app) => pollEntry(app))
+  )
+}
+
+/**
+ * État de la collecte de toutes les applications du cache
+ *
+ * @returns StatsPollStatus[] - Une entrée par application déjà collectée
+ */
+export function getStatsPollStatuses(): StatsPollStatus[] {
+  return Array.from(cache.values(), (entry) => entry.poll)
+}
+
+/**
+ * Dernières statistiques valides de chaque application du cache
+ * Ne déclenche aucune collecte (utilisé par l'export Prometheus).
+ *
+ * @returns Une entrée par application ayant déjà été collectée avec succès
+ */
+export function getCachedStats(): { appId: string; templateId: string; data: unknown }[] {
+  return Array.from(cache.values())
+    .filter((entry) => entry.data !== undefined)
+    .map((entry) => ({ appId: entry.poll.appId, templateId: entry.poll.templateId, data: entry.data }))
+}
+
+/**
+ * Démarre le planificateur (une seule fois par processus)
+ */
+export function startStatsPoller(): void {
+  if (state.timer) {
+    return
+  }
+
+  const tick = () => {
+    pollDueApps().catch((error) => {
+      console.error('[Stats] Erreur du planificateur de statistiques:', error)
+    })
+  }
+
+  const compact = () => {
+    compactMetrics().catch((error) => {
+      console.error('[Stats] Erreur lors du compactage des métriques:', error)
+    })
+  }
+
+  state.timer = setInterval(tick, TICK_INTERVAL)
+  state.compactTimer = setInterval(compact, COMPACT_INTERVAL)
+  // Ne pas empêcher l'arrêt du processus
+  state.timer.unref?.()
+  state.compactTimer.unref?.()
+  tick()
+  compact()
+}
+
+/**
+ * Arrête le planificateur et vide le cache (tests)
+ */
+export function stopStatsPoller(): void {
+  if (state.timer) {
+    clearInterval(state.timer)
+    state.timer = null
+  }
+  if (state.compactTimer) {
+    clearInterval(state.compactTimer)
+    state.compactTimer = null
+  }
+  cache.clear()
+}
@@ -47,13 +47,40 @@ export interface App {
   statValue?: string | number
   // Ordre d'affichage dans le dashboard
   order?: number
+  // Tableau de bord où l'application est affichée (voir Dashboard)
+  dashboardId?: string
+  // Groupe (section repliable) dans le tableau de bord, sans groupe si absent
+  group?: string
   // Champs spécifiques pour Plex
   plexToken?: string
   plexServerUrl?: string
   // Configuration des statistiques
   statsConfig?: StatsConfig
+  // Vérification de disponibilité (HTTP par défaut sur l'URL de l'app, voir lib/health-checks.ts)
+  healthCheck?: HealthCheckConfig
+  // Options TLS des requêtes des cartes vers le service (voir lib/upstream-client.ts)
+  tls?: AppTlsConfig
+  // Origine de l'application : 'yaml' si déclarée dans dashboard.yaml (lecture seule)
+  source?: ConfigSource
 }
 
+/**
+ * Application telle que retournée par l'API (voir lib/app-secrets.ts)
+ *
+ * Les secrets (plexToken, apiKey, password...) sont remplacés par un aperçu
+ * masqué (maskToken) : leur valeur n'est jamais envoyée au navigateur.
+ */
+export interface PublicApp extends App {
+  // Champs secrets enregistrés pour cette application (ex: ['apiKey'])
+  secretFields?: string[]
+}
+
+/**
+ * Origine d'un élément non modifiable depuis l'interface
+ * - yaml : déclaré dans le fichier dashboard.yaml (voir lib/yaml-config.ts)
+ */
+export type ConfigSource = 'yaml'
+
 /**
  * Interface pour créer une nouvelle application (sans l'id qui sera généré)
  */
@@ -65,9 +92,13 @@ export interface CreateAppInput {
   statApiUrl?: string
   statLabel?: string
   order?: number
+  dashboardId?: string
+  group?: string
   plexToken?: string
   plexServerUrl?: string
   statsConfig?: StatsConfig
+  healthCheck?: HealthCheckConfig
+  tls?: AppTlsConfig
 }
 
 /**
@@ -82,9 +113,13 @@ export interface UpdateAppInput {
   statLabel?: string
   statValue?: string | number
   order?: number
+  dashboardId?: string
+  group?: string
   plexToken?: string
   plexServerUrl?: string
   statsConfig?: StatsConfig
+  healthCheck?: HealthCheckConfig
+  tls?: AppTlsConfig
 }
 
 /**
@@ -202,6 +237,80 @@ export interface StatsConfig {
   itemsPerPage?: number
 }
 
+/**
+ * Type de vérification de disponibilité
+ * - http : requête HTTP(S), le code de réponse (et éventuellement le contenu) est vérifié
+ * - tcp : ouverture d'une connexion TCP sur un port
+ */
+export type HealthCheckType = 'http' | 'tcp'
+
+/**
+ * Configuration de la vérification de disponibilité d'une application
+ *
+ * Sans configuration, l'URL de l'application est vérifiée en HTTP.
+ */
+export interface HealthCheckConfig {
+  // false pour désactiver la vérification (défaut : true)
+  enabled?: boolean
+  // Type de vérification (défaut : 'http')
+  type?: HealthCheckType
+  // URL vérifiée en HTTP (défaut : URL de l'application)
+  url?: string
+  // Codes HTTP attendus (défaut : tout code 2xx ou 3xx)
+  expectedStatus?: number[]
+  // Texte devant apparaître dans la réponse HTTP
+  keyword?: string
+  // Hôte et port vérifiés en TCP (défaut : hôte et port de l'URL de l'application)
+  host?: string
+  port?: number
+  // Vérifier la validité du certificat TLS (défaut : true pour les URL https)
+  checkTls?: boolean
+  // Nombre de jours avant expiration du certificat en dessous duquel l'app est dégradée (défaut : 14)
+  tlsExpiryDays?: number
+  // Intervalle entre deux vérifications en millisecondes (défaut : 60000 = 1 minute)
+  interval?: number
+  // Timeout de la vérification en millisecondes (défaut : 10000 = 10 secondes)
+  timeout?: number
+}
+
+/**
+ * Options TLS des requêtes des cartes vers le service d'une application
+ * (voir lib/app-tls.ts)
+ */
+export interface AppTlsConfig {
+  // Certificats d'autorité (PEM) acceptés en plus des autorités système
+  ca?: string
+  // Empreinte SHA-256 du certificat du serveur (ex: "AB:CD:..."), acceptée à la place d'une autorité
+  fingerprint?: string
+  // Ne pas vérifier le certificat du serveur (déconseillé)
+  skipVerify?: boolean
+}
+
+/**
+ * Tableau de bord nommé (ex: "Media", "Infra", "Maison")
+ *
+ * Chaque tableau de bord a ses propres applications et widgets, ordonnés
+ * indépendamment. Il est accessible via un onglet et l'URL /d/[slug]
+ * (le tableau de bord par défaut est affiché sur /).
+ */
+export interface Dashboard {
+  id: string
+  // Identifiant utilisé dans l'URL (/d/infra)
+  slug: string
+  // Nom affiché dans l'onglet
+  name: string
+  // Ordre des onglets
+  order?: number
+}
+
+/**
+ * Préférences d'affichage propres à chaque utilisateur
+ */
+export interface UserPreferences {
+  // Groupes d'applications repliés (clés "<dashboardId>:<groupe>", voir lib/app-groups.ts)
+  collapsedGroups?: string[]
+}
+
 /**
  * Types de widgets disponibles dans le dashboard
  */
@@ -218,6 +327,10 @@ export interface Widget {
   config?: Record<string, any>
   // Ordre d'affichage
   order?: number
+  // Tableau de bord où le widget est affiché (voir Dashboard)
+  dashboardId?: string
+  // Origine du widget : 'yaml' si déclaré dans dashboard.yaml (lecture seule)
+  source?: ConfigSource
 }
 
 /**
@@ -299,5 +412,7 @@ export interface AppConfig {
   theme?: ThemeId
   // Preset de style (optionnel)
   stylePreset?: StylePreset
+  // Origine de la configuration : 'yaml' si déclarée dans dashboard.yaml (lecture seule)
+  source?: ConfigSource
 }
 
@@ -0,0 +1,502 @@
+/**
+ * Client HTTP des cartes vers les services des applications
+ *
+ * Les handlers cards/<id>/route.ts passent par ce client pour appeler leur API :
+ * - timeout adaptatif selon la carte ou statsConfig.timeout (lib/timeout-config.ts)
+ * - nouvelles tentatives avec backoff sur les erreurs 5xx et les coupures
+ *   de connexion, jamais sur les erreurs TLS (lib/api-retry.ts)
+ * - autorités de certification, empreinte épinglée et vérification TLS propres
+ *   à l'application (app.tls, voir lib/app-tls.ts), certificat client fourni
+ *   par la carte (ex: kubeconfig)
+ * - proxy HTTP optionnel (UPSTREAM_PROXY, sauf pour les hôtes de UPSTREAM_NO_PROXY)
+ * - journal des requêtes (UPSTREAM_LOG=true)
+ * - erreurs converties en StructuredError (lib/error-handler.ts)
+ *
+ * Sans options TLS ni proxy, les requêtes utilisent le fetch global. Sinon elles
+ * sont envoyées avec les modules http/tls de Node : côté serveur uniquement.
+ */
+
+import http from 'http'
+import net from 'net'
+import tls from 'tls'
+import { NextResponse } from 'next/server'
+import { fetchWithRetry, type RetryOptions } from './api-retry'
+import { getPemCertificates, hasTlsOptions, normalizeFingerprint } from './app-tls'
+import { createStructuredError, type StructuredError } from './error-handler'
+import { getTimeoutFromApp } from './timeout-config'
+import type { App, AppTlsConfig } from './types'
+
+/**
+ * Options d'une requête vers le service
+ */
+export interface UpstreamRequestInit extends Omit<RequestInit, 'signal'> {
+  /** Timeout de chaque tentative en ms (défaut : timeout adaptatif de l'application) */
+  timeout?: number
+  /** Options des nouvelles tentatives, false pour une seule tentative */
+  retry?: RetryOptions | false
+}
+
+/**
+ * Options TLS d'une requête : celles de l'application, complétées par la carte
+ */
+export interface UpstreamTlsOptions extends AppTlsConfig {
+  /** Certificat client (PEM) */
+  cert?: string
+  /** Clé privée du certificat client (PEM) */
+  key?: string
+  /** Nom attendu dans le certificat du serveur (défaut : hôte de l'URL) */
+  servername?: string
+}
+
+/**
+ * Options du client d'une application
+ */
+export interface UpstreamClientOptions {
+  /** Options TLS ajoutées à celles de l'application (autorités cumulées) */
+  tls?: UpstreamTlsOptions
+}
+
+/**
+ * Requête vers le service d'une application
+ * Retourne la réponse quel que soit son code HTTP, rejette une UpstreamError
+ * si le service est injoignable (réseau, TLS, timeout).
+ */
+export type UpstreamFetch = (url: string, init?: UpstreamRequestInit) => Promise<Response>
+
+/**
+ * Client HTTP d'une application
+ */
+export interface UpstreamClient {
+  fetch: UpstreamFetch
+  /**
+   * Requête dont la réponse JSON est retournée
+   * Rejette une UpstreamError "Erreur API <service>: <code>" si le code HTTP n'est pas 2xx.
+   */
+  json<T = unknown>(url: string, init?: UpstreamRequestInit): Promise<T>
+}
+
+/**
+ * Erreur d'une requête vers le service, avec son erreur structurée
+ */
+export class UpstreamError extends Error {
+  readonly structured: StructuredError
+
+  constructor(message: string, structured: StructuredError) {
+    super(message)
+    this.name = 'UpstreamError'
+    this.structured = structured
+  }
+}
+
+/**
+ * Codes d'erreur réseau passagers : connexion coupée ou délai de connexion dépassé
+ */
+const TRANSIENT_ERROR_CODES = new Set([
+  'ECONNRESET',
+  'ECONNABORTED',
+  'EPIPE',
+  'ETIMEDOUT',
+  'UND_ERR_SOCKET',
+  'UND_ERR_CONNECT_TIMEOUT',
+])
+
+/**
+ * Indique si une erreur de requête mérite une nouvelle tentative
+ *
+ * Seules les coupures de connexion et les délais de connexion dépassés sont
+ * réessayés. Une erreur TLS (certificat refusé, empreinte différente de
+ * l'empreinte épinglée) se reproduirait à l'identique : elle échoue aussitôt,
+ * comme une adresse inconnue ou un service arrêté.
+ *
+ * @param error - Erreur levée par fetch (le code Node est sur error.cause)
+ * @returns true si l'erreur est passagère
+ */
+function isTransientError(error: Error): boolean {
+  const cause = error.cause instanceof Error ? error.cause : error
+  const code = (cause as NodeJS.ErrnoException).code
+  if (!code || code === FINGERPRINT_MISMATCH || TLS_ERROR_PATTERN.test(`${code} ${cause.message}`)) {
+    return false
+  }
+  return TRANSIENT_ERROR_CODES.has(code)
+}
+
+/**
+ * Nouvelles tentatives par défaut : uniquement sur les erreurs 5xx et les
+ * erreurs réseau passagères. Le timeout de la requête n'est pas réessayé
+ * (le timeout adaptatif peut atteindre 30 secondes).
+ */
+const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  maxRetries: 3,
+  baseDelay: 500,
+  maxDelay: 5000,
+  shouldRetry: (error) => isTransientError(error),
+}
+
+/**
+ * Codes d'erreur de Node indiquant un certificat TLS refusé
+ */
+const TLS_ERROR_PATTERN = /CERT|SELF_SIGNED|UNABLE_TO_VERIFY|ERR_TLS/i
+
+/**
+ * Code de l'erreur levée quand le certificat ne correspond pas à l'empreinte épinglée
+ */
+const FINGERPRINT_MISMATCH = 'ERR_TLS_CERT_FINGERPRINT_MISMATCH'
+
+/**
+ * Applications dont la vérification TLS désactivée a déjà été signalée dans les logs
+ */
+const skipVerifyWarnings = new Set<string>()
+
+/**
+ * Indique si le journal des requêtes est activé (UPSTREAM_LOG=true)
+ */
+function isLogEnabled(): boolean {
+  return ['1', 'true'].includes((process.env.UPSTREAM_LOG || '').toLowerCase())
+}
+
+/**
+ * Retourne le proxy à utiliser pour une URL, ou null pour une connexion directe
+ *
+ * UPSTREAM_NO_PROXY contient des noms d'hôtes séparés par des virgules :
+ * "nas.lan" exclut nas.lan et ses sous-domaines, "*" désactive le proxy.
+ */
+function getProxyUrl(url: URL): URL | null {
+  const proxy = process.env.UPSTREAM_PROXY
+  if (!proxy) {
+    return null
+  }
+  const host = url.hostname.toLowerCase()
+  const excluded = (process.env.UPSTREAM_NO_PROXY || '')
+    .split(',')
+    .map((entry) => entry.trim().toLowerCase().replace(/^\*?\./, ''))
+    .filter(Boolean)
+    .some((entry) => entry === '*' || host === entry || host.endsWith(`.${entry}`))
+  return excluded ? null : new URL(proxy)
+}
+
+/**
+ * En-tête Proxy-Authorization à partir des identifiants de l'URL du proxy
+ */
+function getProxyAuthorization(proxy: URL): string | undefined {
+  if (!proxy.username) {
+    return undefined
+  }
+  const credentials = `${decodeURIComponent(proxy.username)}:${decodeURIComponent(proxy.password)}`
+  return `Basic ${Buffer.from(credentials).toString('base64')}`
+}
+
+/**
+ * Ouvre un tunnel CONNECT vers le service à travers le proxy
+ *
+ * @returns Le socket du tunnel, prêt pour la négociation TLS
+ */
+function openTunnel(proxy: URL, url: URL, signal?: AbortSignal): Promise<net.Socket> {
+  const target = `${url.hostname}:${url.port || 443}`
+  const authorization = getProxyAuthorization(proxy)
+
+  return new Promise((resolve, reject) => {
+    const request = http.request({
+      host: proxy.hostname,
+      port: proxy.port || 80,
+      method: 'CONNECT',
+      path: target,
+      headers: { host: target, ...(authorization && { 'proxy-authorization': authorization }) },
+    })
+    const onAbort = () => request.destroy(signal?.reason)
+    signal?.addEventListener('abort', onAbort, { once: true })
+
+    request.on('connect', (response, socket) => {
+      signal?.removeEventListener('abort', onAbort)
+      if (response.statusCode !== 200) {
+        socket.destroy()
+        reject(new Error(`Le proxy a refusé la connexion vers ${target} (${response.statusCode})`))
+        return
+      }
+      resolve(socket)
+    })
+    request.on('error', (error) => {
+      signal?.removeEventListener('abort', onAbort)
+      reject(error)
+    })
+    request.end()
+  })
+}
+
+/**
+ * Établit la connexion TLS avec le service, éventuellement dans un tunnel
+ *
+ * Avec une empreinte épinglée, le certificat n'est pas vérifié par une autorité
+ * mais comparé à l'empreinte, avant l'envoi de la requête (et de ses identifiants).
+ *
+ * @returns Le socket TLS, prêt pour la requête HTTP
+ */
+function connectTls(
+  url: URL,
+  options: tls.ConnectionOptions,
+  fingerprint: string | null,
+  signal?: AbortSignal,
+  tunnel?: net.Socket
+): Promise<tls.TLSSocket> {
+  return new Promise((resolve, reject) => {
+    const socket = tls.connect({
+      ...options,
+      ...(fingerprint && { rejectUnauthorized: false }),
+      ...(tunnel ? { socket: tunnel } : { host: url.hostname, port: Number(url.port) || 443 }),
+    })
+    const onAbort = () => socket.destroy(signal?.reason)
+    signal?.addEventListener('abort', onAbort, { once: true })
+
+    socket.once('secureConnect', () => {
+      signal?.removeEventListener('abort', onAbort)
+      const actual = socket.getPeerCertificate().fingerprint256
+      if (fingerprint && actual !== fingerprint) {
+        const error: NodeJS.ErrnoException = new Error(
+          `empreinte ${actual || 'inconnue'} différente de l'empreinte épinglée`
+        )
+        error.code = FINGERPRINT_MISMATCH
+        socket.destroy()
+        reject(error)
+        return
+      }
+      resolve(socket)
+    })
+    socket.once('error', (error) => {
+      signal?.removeEventListener('abort', onAbort)
+      reject(error)
+    })
+  })
+}
+
+/**
+ * Convertit les en-têtes d'une réponse Node
+ */
+function toHeaders(raw: http.IncomingHttpHeaders): Headers {
+  const headers = new Headers()
+  for (const [name, value] of Object.entries(raw)) {
+    for (const item of Array.isArray(value) ? value : value === undefined ? [] : [value]) {
+      headers.append(name, item)
+    }
+  }
+  return headers
+}
+
+/**
+ * Envoie une requête avec les modules http/tls de Node
+ * Utilisé quand l'application a des options TLS ou qu'un proxy s'applique.
+ */
+async function requestWithNode(
+  url: URL,
+  init: RequestInit,
+  tlsConfig: UpstreamTlsOptions | undefined,
+  proxy: URL | null
+): Promise<Response> {
+  const signal = init.signal ?? undefined
+  signal?.throwIfAborted()
+
+  const headers: Record<string, string> = Object.fromEntries(new Headers(init.headers).entries())
+  let body: string | undefined
+  if (init.body instanceof URLSearchParams) {
+    body = init.body.toString()
+    headers['content-type'] ??= 'application/x-www-form-urlencoded;charset=UTF-8'
+  } else if (typeof init.body === 'string') {
+    body = init.body
+  } else if (init.body !== undefined && init.body !== null) {
+    throw new TypeError('Corps de requête non supporté (texte ou URLSearchParams attendu)')
+  }
+  if (body !== undefined) {
+    headers['content-length'] = String(Buffer.byteLength(body))
+  }
+
+  const secure = url.protocol === 'https:'
+  const tlsOptions: tls.ConnectionOptions = {
+    ca: tlsConfig?.ca ? [...tls.rootCertificates, ...getPemCertificates(tlsConfig.ca)] : undefined,
+    rejectUnauthorized: !tlsConfig?.skipVerify,
+    servername: tlsConfig?.servername || (net.isIP(url.hostname) ? undefined : url.hostname),
+    cert: tlsConfig?.cert,
+    key: tlsConfig?.key,
+  }
+  const fingerprint = tlsConfig?.fingerprint ? normalizeFingerprint(tlsConfig.fingerprint) : null
+  const path = `${url.pathname}${url.search}`
+  const method = init.method || 'GET'
+
+  let request: http.ClientRequest
+  if (proxy && !secure) {
+    // HTTP via le proxy : l'URL complète est envoyée au proxy
+    const authorization = getProxyAuthorization(proxy)
+    request = http.request({
+      host: proxy.hostname,
+      port: proxy.port || 80,
+      method,
+      path: url.href,
+      headers: { ...headers, host: url.host, ...(authorization && { 'proxy-authorization': authorization }) },
+    })
+  } else if (secure) {
+    // HTTPS, via le proxy dans un tunnel CONNECT (TLS de bout en bout) ou en direct
+    const tunnel = proxy ? await openTunnel(proxy, url, signal) : undefined
+    const tlsSocket = await connectTls(url, tlsOptions, fingerprint, signal, tunnel)
+    request = http.request({ method, path, headers: { ...headers, host: url.host }, createConnection: () => tlsSocket })
+  } else {
+    request = http.request({ host: url.hostname, port: url.port || 80, method, path, headers })
+  }
+
+  return new Promise((resolve, reject) => {
+    const onAbort = () => request.destroy(signal?.reason)
+    signal?.addEventListener('abort', onAbort, { once: true })
+    const fail = (error: Error) => {
+      signal?.removeEventListener('abort', onAbort)
+      reject(error)
+    }
+
+    request.on('response', (response) => {
+      const chunks: Buffer[] = []
+      response.on('data', (chunk: Buffer) => chunks.push(chunk))
+      response.on('error', fail)
+      response.on('end', () => {
+        signal?.removeEventListener('abort', onAbort)
+        const status = response.statusCode || 502
+        const hasBody = status !== 204 && status !== 304 && method !== 'HEAD'
+        resolve(new Response(hasBody ? new Uint8Array(Buffer.concat(chunks)) : null, {
+          status,
+          statusText: response.statusMessage,
+          headers: toHeaders(response.headers),
+        }))
+      })
+    })
+    request.on('error', fail)
+    request.end(body)
+  })
+}
+
+/**
+ * Combine les options TLS de l'application et celles fournies par la carte
+ */
+function mergeTlsOptions(appTls: AppTlsConfig | undefined, extra: UpstreamTlsOptions | undefined): UpstreamTlsOptions | undefined {
+  if (!extra) {
+    return appTls
+  }
+  const ca = [appTls?.ca, extra.ca].filter(Boolean).join('\n')
+  return {
+    ...extra,
+    ...appTls,
+    ca: ca || undefined,
+    skipVerify: appTls?.skipVerify || extra.skipVerify,
+  }
+}
+
+/**
+ * Convertit une erreur de requête (réseau, TLS, timeout) en UpstreamError
+ */
+function toUpstreamError(error: Error, service: string, timeout: number): UpstreamError {
+  const structured = createStructuredError(error)
+  const cause = error.cause instanceof Error ? error.cause : error
+  const code = (cause as NodeJS.ErrnoException).code
+
+  if (structured.type === 'timeout') {
+    return new UpstreamError(`Erreur API ${service}: pas de réponse après ${timeout / 1000} s`, structured)
+  }
+  if (code === FINGERPRINT_MISMATCH) {
+    return new UpstreamError(`Erreur API ${service}: certificat TLS refusé (${cause.message})`, {
+      ...structured,
+      type: 'network',
+      hint: 'Le certificat du serveur a changé : vérifiez-le, puis mettez à jour l\'empreinte dans les options TLS de l\'application.',
+    })
+  }
+  if (TLS_ERROR_PATTERN.test(`${code} ${cause.message}`)) {
+    return new UpstreamError(`Erreur API ${service}: certificat TLS refusé (${cause.message})`, {
+      ...structured,
+      type: 'network',
+      hint: 'Ajoutez l\'autorité de certification du serveur ou l\'empreinte de son certificat dans les options TLS de l\'application.',
+    })
+  }
+  return new UpstreamError(`Erreur API ${service}: ${cause.message}${code && !cause.message.includes(code) ? ` (${code})` : ''}`, {
+    ...structured,
+    type: 'network',
+    hint: 'Vérifiez que l\'URL de l\'application est correcte et que le service est démarré.',
+  })
+}
+
+/**
+ * Crée le client HTTP d'une application
+ *
+ * @param app - Application dont le service est appelé (timeout, options TLS)
+ * @param service - Nom du service, utilisé dans les messages d'erreur (ex: "Sonarr")
+ * @param options - Options propres à la carte (ex: certificat client)
+ * @returns Le client
+ *
+ * @example
+ * ```typescript
+ * const client = createUpstreamClient(app, 'Sonarr')
+ * const series = await client.json<SonarrSeries[]>(`${apiUrl}/api/v3/series`, { headers })
+ * ```
+ */
+export function createUpstreamClient(app: App, service: string, options: UpstreamClientOptions = {}): UpstreamClient {
+  const tlsConfig = mergeTlsOptions(app.tls, options.tls)
+  const upstreamFetch: UpstreamFetch = async (url, init = {}) => {
+    const { timeout = getTimeoutFromApp(app), retry, ...requestInit } = init
+    const target = new URL(url)
+    const proxy = getProxyUrl(target)
+    const useNode = Boolean(proxy) || hasTlsOptions(tlsConfig) || Boolean(tlsConfig?.cert || tlsConfig?.servername)
+    const method = requestInit.method || 'GET'
+    const startedAt = Date.now()
+
+    if (tlsConfig?.skipVerify && !skipVerifyWarnings.has(app.id)) {
+      skipVerifyWarnings.add(app.id)
+      console.warn(`[Upstream] Vérification du certificat TLS désactivée pour l'application "${app.name}"`)
+    }
+
+    const fetchImpl = (requestUrl: string, options: RequestInit) => {
+      const attempt = { ...options, signal: AbortSignal.timeout(timeout) }
+      return useNode ? requestWithNode(target, attempt, tlsConfig, proxy) : fetch(requestUrl, attempt)
+    }
+
+    try {
+      const response = retry === false
+        ? await fetchImpl(url, requestInit)
+        : await fetchWithRetry(url, requestInit, { ...DEFAULT_RETRY_OPTIONS, ...retry, fetchImpl })
+      if (isLogEnabled()) {
+        console.log(`[Upstream] ${method} ${target.origin}${target.pathname} → ${response.status} (${Date.now() - startedAt} ms)`)
+      }
+      return response
+    } catch (error) {
+      const upstreamError = toUpstreamError(error instanceof Error ? error : new Error(String(error)), service, timeout)
+      if (isLogEnabled()) {
+        console.log(`[Upstream] ${method} ${target.origin}${target.pathname} → ${upstreamError.message} (${Date.now() - startedAt} ms)`)
+      }
+      throw upstreamError
+    }
+  }
+
+  return {
+    fetch: upstreamFetch,
+    async json<T = unknown>(url: string, init?: UpstreamRequestInit): Promise<T> {
+      const response = await upstreamFetch(url, init)
+      if (!response.ok) {
+        throw new UpstreamError(`Erreur API ${service}: ${response.status}`, createStructuredError(null, response))
+      }
+      return response.json() as Promise<T>
+    },
+  }
+}
+
+/**
+ * Réponse d'erreur d'un handler de carte
+ *
+ * Une UpstreamError donne un code 504 (timeout) ou 502 avec le conseil de
+ * l'erreur structurée (hint), toute autre erreur un code 500.
+ *
+ * @param error - Erreur capturée par le handler
+ * @param fallbackMessage - Message si l'erreur n'en a pas
+ * @returns La réponse JSON { error, hint? }
+ */
+export function upstreamErrorResponse(error: unknown, fallbackMessage: string): NextResponse {
+  if (error instanceof UpstreamError) {
+    return NextResponse.json(
+      { error: error.message, hint: error.structured.hint },
+      { status: error.structured.type === 'timeout' ? 504 : 502 }
+    )
+  }
+  return NextResponse.json(
+    { error: (error instanceof Error && error.message) || fallbackMessage },
+    { status: 500 }
+  )
+}
@@ -5,9 +5,11 @@
 // Cette couche isole l'accès aux données utilisateur pour que le reste
 // de l'application (Auth.js, UI, etc.) n'ait pas à connaître Prisma.
 
+import crypto from "crypto"
 import bcrypt from "bcryptjs"
 import { prisma } from "@/lib/prisma"
-import type { Role, User } from "@prisma/client"
+import type { Prisma, Role, User } from "@prisma/client"
+import type { UserPreferences } from "@/lib/types"
 
 // Rôle possible pour un utilisateur (doit rester en phase avec l'enum Prisma Role)
 export type UserRole = "user" | "admin"
@@ -44,11 +46,13 @@ export async function findUserByEmail(email: string): Promise<StoredUser | null>
 
 /**
  * Crée un nouvel utilisateur en base
+ * (externalAuth : compte géré par un fournisseur d'identité, voir findOrCreateExternalUser)
  */
 export async function createUser(params: {
   email: string
   password: string
   role: UserRole
+  externalAuth?: boolean
 }): Promise<StoredUser> {
   const normalized = params.email.toLowerCase()
 
@@ -67,6 +71,7 @@ export async function createUser(params: {
       email: normalized,
       passwordHash,
       role: params.role as Role,
+      externalAuth: params.externalAuth,
     },
   })
 
@@ -103,6 +108,80 @@ export async function ensureDefaultAdmin(): Promise<void> {
   })
 }
 
+/**
+ * Options de rattachement d'un utilisateur externe
+ */
+export interface ExternalUserOptions {
+  /** Autorise la connexion à un compte local existant de même email */
+  linkExistingUsers?: boolean
+}
+
+/**
+ * Retrouve ou crée l'utilisateur authentifié par un fournisseur d'identité
+ * externe : OpenID Connect (voir lib/oidc.ts) ou en-têtes d'un reverse proxy
+ * de confiance (voir lib/proxy-auth.ts).
+ * Un compte créé par un fournisseur (externalAuth) est réutilisé et son rôle
+ * est aligné sur celui déduit des groupes du fournisseur. Un compte local de
+ * même email n'est lié que si linkExistingUsers est activé : sinon, le
+ * fournisseur pourrait en prendre le contrôle et changer son rôle.
+ * Le dernier administrateur n'est jamais rétrogradé.
+ * Un utilisateur créé reçoit un mot de passe aléatoire jamais communiqué :
+ * il ne peut se connecter que par le fournisseur.
+ *
+ * @param email - Email vérifié par le fournisseur
+ * @param role - Rôle déduit des groupes de l'utilisateur
+ * @param options - Rattachement des comptes locaux existants
+ * @returns Utilisateur enregistré, ou null si un compte local existe déjà et
+ *   que sa liaison n'est pas autorisée
+ */
+export async function findOrCreateExternalUser(
+  email: string,
+  role: UserRole,
+  options: ExternalUserOptions = {}
+): Promise<StoredUser | null> {
+  const existing = await findUserByEmail(email)
+
+  if (existing) {
+    if (!existing.externalAuth && !options.linkExistingUsers) {
+      console.warn(`[AUTH] Connexion externe refusée : le compte local ${existing.email} n'est pas lié au fournisseur d'identité`)
+      return null
+    }
+
+    let nextRole = role
+    if (existing.role === "admin" && role !== "admin") {
+      const adminCount = await prisma.user.count({
+        where: { role: "admin" },
+      })
+      if (adminCount <= 1) {
+        console.warn(`[AUTH] ${existing.email} reste administrateur : c'est le dernier administrateur`)
+        nextRole = "admin"
+      }
+    }
+
+    if (existing.externalAuth && existing.role === nextRole) {
+      return existing
+    }
+    if (!existing.externalAuth) {
+      console.log(`[AUTH] Compte local ${existing.email} lié au fournisseur d'identité`)
+    }
+    if (existing.role !== nextRole) {
+      console.log(`[AUTH] Rôle mis à jour depuis le fournisseur d'identité pour ${existing.email} : ${nextRole}`)
+    }
+    return prisma.user.update({
+      where: { id: existing.id },
+      data: { role: nextRole as Role, externalAuth: true },
+    })
+  }
+
+  console.log(`[AUTH] Création de l'utilisateur ${email.toLowerCase()} (${role}) depuis le fournisseur d'identité`)
+  return createUser({
+    email,
+    password: crypto.randomBytes(32).toString("hex"),
+    role,
+    externalAuth: true,
+  })
+}
+
 /**
  * Vérifie si l'admin par défaut utilise encore le mot de passe par défaut.
  * Cette fonction permet de savoir si l'utilisateur a déjà changé le mot de passe
@@ -298,3 +377,93 @@ export async function updateUserProfile(
   return userWithoutPassword
 }
 
+
+/**
+ * Récupère les préférences d'affichage d'un utilisateur.
+ * 
+ * @param userId - ID de l'utilisateur
+ * @returns Préférences enregistrées (objet vide si aucune)
+ */
+export async function getUserPreferences(userId: string): Promise<UserPreferences> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { preferences: true },
+  })
+
+  if (!user) {
+    throw new Error('Utilisateur introuvable')
+  }
+
+  return (user.preferences && typeof user.preferences === 'object' ? user.preferences : {}) as UserPreferences
+}
+
+/**
+ * Met à jour les préférences d'affichage d'un utilisateur.
+ * Les préférences fournies sont fusionnées avec celles déjà enregistrées.
+ * 
+ * @param userId - ID de l'utilisateur
+ * @param preferences - Préférences à modifier
+ * @returns Préférences après la mise à jour
+ */
+export async function updateUserPreferences(
+  userId: string,
+  preferences: UserPreferences
+): Promise<UserPreferences> {
+  const merged = { ...(await getUserPreferences(userId)), ...preferences }
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: { preferences: merged as Prisma.InputJsonObject },
+  })
+
+  return merged
+}
+
+/**
+ * Récupère tous les utilisateurs avec leur hash de mot de passe.
+ * Réservé à la sauvegarde complète du dashboard (voir lib/backup.ts).
+ *
+ * @returns Liste de tous les utilisateurs, du plus ancien au plus récent
+ */
+export async function exportUsers(): Promise<StoredUser[]> {
+  return prisma.user.findMany({
+    orderBy: {
+      createdAt: 'asc',
+    },
+  })
+}
+
+/**
+ * Remplace l'ensemble des utilisateurs (restauration d'une sauvegarde).
+ * Les IDs, hash de mots de passe, préférences, liaisons aux fournisseurs
+ * d'identité et dates sont conservés tels quels.
+ * Les utilisateurs déjà présents sont mis à jour plutôt que recréés : leurs
+ * jetons d'API (absents des sauvegardes) restent valides. Ceux qui ne sont
+ * pas dans la sauvegarde sont supprimés avec leurs jetons.
+ *
+ * @param tx - Client de transaction (voir restoreDashboardData dans lib/db.ts)
+ * @param users - Utilisateurs à restaurer (au moins un administrateur)
+ */
+export async function replaceAllUsers(tx: Prisma.TransactionClient, users: StoredUser[]): Promise<void> {
+  if (!users.some((user) => user.role === 'admin')) {
+    throw new Error("La sauvegarde doit contenir au moins un administrateur")
+  }
+
+  await tx.user.deleteMany({ where: { id: { notIn: users.map((user) => user.id) } } })
+  for (const user of users) {
+    const data = {
+      email: user.email.toLowerCase(),
+      passwordHash: user.passwordHash,
+      role: user.role as Role,
+      preferences: (user.preferences ?? {}) as Prisma.InputJsonObject,
+      externalAuth: user.externalAuth ?? false,
+      createdAt: user.createdAt,
+      updatedAt: user.updatedAt,
+    }
+    await tx.user.upsert({
+      where: { id: user.id },
+      create: { id: user.id, ...data },
+      update: data,
+    })
+  }
+}
@@ -0,0 +1,382 @@
+/**
+ * Configuration déclarative du dashboard (config-as-code)
+ *
+ * Les applications, widgets, le thème et le preset de style peuvent être
+ * décrits dans un fichier YAML versionné avec le reste de l'infrastructure :
+ *
+ * ```yaml
+ * config:
+ *   backgroundEffect: mesh-animated
+ *   theme: violet
+ * apps:
+ *   - id: sonarr
+ *     name: Sonarr
+ *     url: https://sonarr.example.com
+ *     logo: Tv
+ *     apiKey: ${SONARR_API_KEY}
+ *     statsConfig:
+ *       templateId: sonarr
+ * widgets:
+ *   - id: clock
+ *     type: clock
+ * ```
+ *
+ * Le fichier (data/dashboard.yaml, ou DASHBOARD_YAML_PATH) est chargé au
+ * démarrage puis surveillé : chaque modification valide est prise en compte
+ * sans redémarrage. Une version invalide est ignorée et la dernière version
+ * valide reste active.
+ *
+ * Les éléments déclarés dans le YAML sont fusionnés avec ceux enregistrés
+ * depuis l'interface (lib/db.ts) et marqués `source: 'yaml'` : ils sont en
+ * lecture seule dans l'interface.
+ */
+
+import { promises as fs, watchFile } from 'fs'
+import path from 'path'
+import { parse, stringify } from 'yaml'
+import { z } from 'zod'
+import type { App, Widget, AppConfig } from './types'
+import { isSensitiveField } from './token-utils'
+import { validateTlsConfig } from './app-tls'
+import { publishEvent } from './events'
+
+/**
+ * Contenu validé du fichier YAML
+ */
+export interface DashboardYaml {
+  apps: App[]
+  widgets: Widget[]
+  /** Configuration globale, absente si le fichier n'en déclare pas */
+  config?: Partial<AppConfig>
+}
+
+/**
+ * État du chargement du fichier YAML (affiché dans l'interface)
+ */
+export interface YamlConfigStatus {
+  /** Chemin du fichier surveillé */
+  path: string
+  /** true si une configuration YAML valide est active */
+  active: boolean
+  /** Date du dernier chargement réussi (ISO 8601) */
+  loadedAt: string | null
+  /** Erreur du dernier chargement (la dernière version valide reste active) */
+  error: string | null
+  /** Nombre d'applications déclarées */
+  apps: number
+  /** Nombre de widgets déclarés */
+  widgets: number
+  /** true si la configuration globale est déclarée */
+  config: boolean
+}
+
+/**
+ * Intervalle de vérification des modifications du fichier (ms)
+ */
+const WATCH_INTERVAL = 2000
+
+const StylePresetSchema = z.object({
+  radius: z.enum(['small', 'medium', 'large']),
+  shadow: z.enum(['subtle', 'pronounced']),
+  font: z.enum(['sans', 'serif', 'mono']),
+  density: z.enum(['compact', 'normal', 'comfortable']),
+})
+
+const StatsConfigSchema = z.looseObject({
+  templateId: z.string().optional(),
+  displayOptions: z.looseObject({}).optional(),
+  cardStat: z
+    .looseObject({
+      type: z.enum(['number', 'chart', 'info', 'custom']),
+      customType: z.string().optional(),
+      key: z.string().optional(),
+      label: z.string().optional(),
+    })
+    .optional(),
+  refreshInterval: z.number().int().positive().optional(),
+  timeout: z.number().int().positive().optional(),
+  historyPeriod: z.number().int().positive().optional(),
+  itemsPerPage: z.number().int().positive().optional(),
+})
+
+const HealthCheckSchema = z.object({
+  enabled: z.boolean().optional(),
+  type: z.enum(['http', 'tcp']).optional(),
+  url: z.url().optional(),
+  expectedStatus: z.array(z.number().int()).optional(),
+  keyword: z.string().optional(),
+  host: z.string().min(1).optional(),
+  port: z.number().int().min(1).max(65535).optional(),
+  checkTls: z.boolean().optional(),
+  tlsExpiryDays: z.number().int().nonnegative().optional(),
+  interval: z.number().int().positive().optional(),
+  timeout: z.number().int().positive().optional(),
+})
+
+const TlsSchema = z
+  .object({
+    ca: z.string().optional(),
+    fingerprint: z.string().optional(),
+    skipVerify: z.boolean().optional(),
+  })
+  .superRefine((tls, ctx) => {
+    const error = validateTlsConfig(tls)
+    if (error) {
+      ctx.addIssue({ code: 'custom', message: error })
+    }
+  })
+
+/**
+ * Schéma d'une application : les champs propres à chaque carte
+ * (tokens, identifiants, ...) sont acceptés tels quels
+ */
+const AppSchema = z.looseObject({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  url: z.url(),
+  logo: z.string().default('Globe'),
+  logoType: z.enum(['icon', 'url']).default('icon'),
+  statApiUrl: z.url().optional(),
+  statLabel: z.string().optional(),
+  order: z.number().int().optional(),
+  dashboardId: z.string().min(1).optional(),
+  group: z.string().min(1).optional(),
+  statsConfig: StatsConfigSchema.optional(),
+  healthCheck: HealthCheckSchema.optional(),
+  tls: TlsSchema.optional(),
+})
+
+const WidgetSchema = z.object({
+  id: z.string().min(1),
+  type: z.enum(['clock', 'weather', 'system-info', 'calendar', 'notes', 'rss']),
+  enabled: z.boolean().default(true),
+  order: z.number().int().optional(),
+  dashboardId: z.string().min(1).optional(),
+  config: z.record(z.string(), z.any()).optional(),
+})
+
+const AppConfigSchema = z.object({
+  backgroundEffect: z
+    .enum([
+      'none',
+      'gradient-radial',
+      'gradient-linear',
+      'gradient-mesh',
+      'gradient-animated',
+      'glow',
+      'grid-pattern',
+      'dot-pattern',
+      'noise',
+      'mesh-animated',
+      'shimmer',
+      'diamond-pattern',
+      'grid-svg',
+      'dots-svg',
+      'waves-pattern',
+      'hexagon-pattern',
+      'crosshatch-pattern',
+    ])
+    .optional(),
+  theme: z.enum(['default', 'violet', 'caramel']).optional(),
+  stylePreset: StylePresetSchema.optional(),
+})
+
+/**
+ * Vérifie qu'aucun ID n'est déclaré deux fois
+ */
+function uniqueIds(items: Array<{ id: string }>): boolean {
+  return new Set(items.map((item) => item.id)).size === items.length
+}
+
+const DashboardYamlSchema = z.object({
+  apps: z.array(AppSchema).default([]).refine(uniqueIds, { message: 'IDs d\'applications en double' }),
+  widgets: z.array(WidgetSchema).default([]).refine(uniqueIds, { message: 'IDs de widgets en double' }),
+  config: AppConfigSchema.optional(),
+})
+
+/**
+ * Chemin du fichier YAML (variable d'environnement DASHBOARD_YAML_PATH)
+ */
+export function getDashboardYamlPath(): string {
+  return process.env.DASHBOARD_YAML_PATH || path.join(process.cwd(), 'data', 'dashboard.yaml')
+}
+
+/**
+ * Parse et valide le contenu d'un fichier YAML
+ *
+ * @param content - Contenu du fichier
+ * @returns DashboardYaml - Configuration validée
+ * @throws Error avec un message lisible si le YAML est mal formé ou invalide
+ */
+export function parseDashboardYaml(content: string): DashboardYaml {
+  let raw: unknown
+  try {
+    raw = parse(content) ?? {}
+  } catch (error) {
+    throw new Error(`YAML mal formé : ${error instanceof Error ? error.message : String(error)}`)
+  }
+
+  const result = DashboardYamlSchema.safeParse(raw)
+  if (!result.success) {
+    const details = result.error.issues
+      .map((issue) => `${issue.path.join('.') || '(racine)'} : ${issue.message}`)
+      .join(' ; ')
+    throw new Error(`Configuration invalide : ${details}`)
+  }
+
+  return result.data as DashboardYaml
+}
+
+/**
+ * État courant (partagé par toutes les requêtes du processus)
+ */
+let current: DashboardYaml | null = null
+let status: YamlConfigStatus | null = null
+let initPromise: Promise<void> | null = null
+
+/**
+ * (Re)charge le fichier YAML
+ *
+ * Un fichier absent désactive le mode YAML ; un fichier invalide est ignoré
+ * (la dernière version valide reste active) et l'erreur est exposée dans le statut.
+ */
+export async function loadDashboardYaml(): Promise<void> {
+  const filePath = getDashboardYamlPath()
+
+  try {
+    const content = await fs.readFile(filePath, 'utf-8')
+    current = parseDashboardYaml(content)
+    status = {
+      path: filePath,
+      active: true,
+      loadedAt: new Date().toISOString(),
+      error: null,
+      apps: current.apps.length,
+      widgets: current.widgets.length,
+      config: !!current.config,
+    }
+    console.log(
+      `[YAML] ${path.basename(filePath)} chargé : ${current.apps.length} application(s), ${current.widgets.length} widget(s)`
+    )
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      current = null
+      status = { path: filePath, active: false, loadedAt: null, error: null, apps: 0, widgets: 0, config: false }
+      return
+    }
+
+    const message = error instanceof Error ? error.message : String(error)
+    console.error(`[YAML] Impossible de charger ${filePath}, dernière version valide conservée :`, message)
+    status = {
+      ...(status ?? { path: filePath, active: false, loadedAt: null, apps: 0, widgets: 0, config: false }),
+      active: current !== null,
+      error: message,
+    }
+  }
+}
+
+/**
+ * Charge le fichier YAML et surveille ses modifications (une seule fois par processus)
+ *
+ * Appelé au démarrage du serveur (instrumentation.ts) et, par sécurité,
+ * au premier accès à la configuration.
+ */
+export function initDashboardYaml(): Promise<void> {
+  if (!initPromise) {
+    initPromise = loadDashboardYaml().then(() => {
+      // watchFile (par scrutation) fonctionne aussi avec les volumes Docker
+      // et les éditeurs qui remplacent le fichier au lieu de le modifier
+      const watcher = watchFile(getDashboardYamlPath(), { interval: WATCH_INTERVAL }, () => {
+        loadDashboardYaml().then(() => {
+          publishEvent({ type: 'config', summary: 'dashboard.yaml rechargé', author: null })
+        })
+      })
+      // Ne pas empêcher l'arrêt du processus
+      watcher.unref()
+    })
+  }
+  return initPromise
+}
+
+/**
+ * Récupère la configuration YAML active
+ *
+ * @returns Promise<DashboardYaml | null> - Configuration, ou null si le mode YAML est inactif
+ */
+export async function getDashboardYaml(): Promise<DashboardYaml | null> {
+  await initDashboardYaml()
+  return current
+}
+
+/**
+ * Récupère l'état du chargement du fichier YAML
+ */
+export async function getDashboardYamlStatus(): Promise<YamlConfigStatus> {
+  await initDashboardYaml()
+  return status as YamlConfigStatus
+}
+
+/**
+ * Construit un nom de variable d'environnement pour un secret exporté
+ * (ex: app "sonarr", champ "apiKey" → SONARR_APIKEY)
+ */
+function toEnvVarName(...parts: string[]): string {
+  return parts
+    .join('_')
+    .replace(/[^a-zA-Z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+    .toUpperCase()
+}
+
+/**
+ * Remplace les secrets par des références à des variables d'environnement
+ * Les références ${VAR} existantes sont conservées.
+ */
+function replaceSecretsWithEnvRefs(obj: Record<string, unknown>, prefix: string): Record<string, unknown> {
+  const result: Record<string, unknown> = {}
+
+  for (const [key, value] of Object.entries(obj)) {
+    if (typeof value === 'string' && value && isSensitiveField(key)) {
+      result[key] = value.startsWith('${') ? value : `\${${toEnvVarName(prefix, key)}}`
+    } else if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
+      result[key] = replaceSecretsWithEnvRefs(value as Record<string, unknown>, prefix)
+    } else {
+      result[key] = value
+    }
+  }
+
+  return result
+}
+
+/**
+ * Exporte l'état du dashboard au format dashboard.yaml
+ *
+ * Les secrets ne sont jamais exportés : ils sont remplacés par des
+ * références ${VAR} à définir dans l'environnement du serveur.
+ *
+ * @param apps - Applications (données brutes, sans le champ source)
+ * @param widgets - Widgets
+ * @param config - Configuration globale
+ * @returns string - Contenu YAML
+ */
+export function exportDashboardYaml(apps: App[], widgets: Widget[], config: AppConfig): string {
+  // Retirer les champs calculés et le marqueur d'origine
+  const clean = (item: App | Widget | AppConfig): Record<string, unknown> => {
+    const copy: Record<string, unknown> = { ...item }
+    delete copy.source
+    delete copy.statValue
+    return copy
+  }
+
+  const document = {
+    config: clean(config),
+    apps: apps.map((app) => replaceSecretsWithEnvRefs(clean(app), app.id)),
+    widgets: widgets.map((widget) => replaceSecretsWithEnvRefs(clean(widget), widget.id)),
+  }
+
+  return (
+    '# Configuration du dashboard (config-as-code)\n' +
+    '# Les secrets sont référencés par des variables d\'environnement ${VAR}\n' +
+    stringify(document)
+  )
+}
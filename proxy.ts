@@ -1,6 +1,9 @@
 // Proxy global pour protéger les routes avec Auth.js v5 (Next.js 16+)
 // - Redirige vers /login si l'utilisateur n'est pas authentifié
-// - Laisse passer librement les routes publiques (login, ressources statiques, API, etc.)
+// - Répond 401 aux requêtes /api non authentifiées, sauf routes publiques (voir lib/api-auth.ts)
+// - Laisse passer librement les routes publiques (login, ressources statiques)
+// - Derrière un forward-auth (Authelia, Authentik), accepte l'utilisateur transmis
+//   par les en-têtes Remote-* d'un proxy de confiance via `auth()` (voir lib/proxy-auth.ts)
 //
 // Note : Next.js 16 a remplacé "middleware" par "proxy" pour clarifier
 // le rôle de cette couche (interception réseau et routage).
@@ -10,6 +13,7 @@
 
 import { auth } from "@/auth"
 import { NextRequest, NextResponse } from "next/server"
+import { guardApiRequest } from "@/lib/api-auth"
 
 /**
  * Fonction proxy qui intercepte les requêtes et vérifie l'authentification.
@@ -22,6 +26,11 @@ import { NextRequest, NextResponse } from "next/server"
  * `export default auth(...)` n'est pas compatible avec `export function proxy`.
  */
 export async function proxy(request: NextRequest) {
+  // Routes API : réponse JSON 401 plutôt qu'une redirection vers /login
+  if (request.nextUrl.pathname.startsWith("/api/")) {
+    return (await guardApiRequest(request)) ?? NextResponse.next()
+  }
+
   // Dans Next.js 16 proxy, auth() peut être appelé sans paramètre
   // car le contexte de la requête est automatiquement disponible
   // via les headers/cookies de la requête
@@ -53,8 +62,8 @@ export async function proxy(request: NextRequest) {
   return NextResponse.next()
 }
 
-// Configure les chemins sur lesquels le proxy est appliqué
+// Configure les chemins sur lesquels le proxy est appliqué (routes API comprises)
 export const config = {
-  matcher: ["/((?!api|_next/static|_next/image|favicon.ico).*)"],
+  matcher: ["/((?!_next/static|_next/image|favicon.ico).*)"],
 }
 
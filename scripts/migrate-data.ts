@@ -0,0 +1,35 @@
+// Script pour appliquer ou simuler les migrations des données du dashboard
+// Usage: npx tsx scripts/migrate-data.ts [--dry-run]
+//
+// Les migrations sont aussi appliquées automatiquement au démarrage du serveur.
+// Le store utilisé dépend de DATA_STORE (voir .env.example).
+
+import { getDataStoreKind } from "../lib/data-store"
+import { jsonStore } from "../lib/json-store"
+import { prismaStore } from "../lib/prisma-store"
+import { prisma } from "../lib/prisma"
+import { runMigrations, formatMigrationReport } from "../lib/migrations"
+
+async function migrateData() {
+  const dryRun = process.argv.includes("--dry-run")
+  const kind = getDataStoreKind()
+  const store = kind === "json" ? jsonStore : prismaStore
+
+  console.log(`🔄 ${dryRun ? "Simulation des migrations" : "Migration des données"} (store : ${kind})...`)
+
+  const report = await runMigrations(store, { dryRun })
+  console.log(formatMigrationReport(report))
+
+  if (dryRun && report.steps.length > 0) {
+    console.log("ℹ️  Aucune donnée n'a été modifiée. Relancez sans --dry-run pour appliquer les migrations.")
+  } else if (!dryRun) {
+    console.log("✅ Terminé")
+  }
+
+  await prisma.$disconnect()
+}
+
+migrateData().catch((error) => {
+  console.error("❌ Erreur lors de la migration :", error)
+  process.exit(1)
+})